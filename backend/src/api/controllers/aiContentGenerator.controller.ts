@@ -228,6 +228,39 @@ export const generateTestCases = async (
   }
 };
 
+/**
+ * Translate an exercise into another language, saved as a linked version
+ * once the translated solution passes the translated tests
+ * POST /api/v1/ai/translate/exercise
+ */
+export const translateExercise = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user!.userId;
+    const { exerciseId, targetLanguage, providerId } = req.body;
+
+    // Validation
+    if (!exerciseId || !targetLanguage || !providerId) {
+      throw new BadRequestError('Missing required fields: exerciseId, targetLanguage, and providerId');
+    }
+
+    const result = await aiContentGeneratorService.translateExercise(
+      { exerciseId, targetLanguage, providerId },
+      userId
+    );
+
+    res.status(201).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Generate topics for a curriculum
  * POST /api/v1/ai/generate/topics
@@ -1,7 +1,38 @@
 import { Response, NextFunction } from 'express';
-import { AuthenticatedRequest } from '../../types';
+import { AuthenticatedRequest, UserRole } from '../../types';
 import { codeExecutionService } from '../../services/codeExecution.service';
-import { BadRequestError } from '../../utils/errors.util';
+import { codeReviewService } from '../../services/codeReview.service';
+import { codeDraftService } from '../../services/codeDraft.service';
+import { submissionHistoryService } from '../../services/submissionHistory.service';
+import { submissionQueue } from '../../services/execution/submission.queue';
+import { packProjectFiles } from '../../services/execution/project.runner';
+import { packBlanks } from '../../services/execution/exercise.types';
+import { BadRequestError, ForbiddenError } from '../../utils/errors.util';
+
+/**
+ * The submitted code: `code`, for project exercises the editable `files`
+ * ([{ path, content }]) packed into one string, and for fill-in-the-blank
+ * exercises the `blanks` ({ id: value }) packed the same way
+ */
+function submittedCode(body: any): string {
+  const { code, files, blanks } = body;
+  if (blanks && typeof blanks === 'object' && !Array.isArray(blanks)) {
+    if (!Object.values(blanks).every((value) => typeof value === 'string')) {
+      throw new BadRequestError('Each blank needs a value');
+    }
+    return packBlanks(blanks);
+  }
+  if (Array.isArray(files) && files.length > 0) {
+    if (!files.every((file: any) => typeof file?.path === 'string' && typeof file?.content === 'string')) {
+      throw new BadRequestError('Each file needs a path and content');
+    }
+    return packProjectFiles(files);
+  }
+  if (!code) {
+    throw new BadRequestError('Code is required');
+  }
+  return code;
+}
 
 /**
  * Submit JavaScript code for execution
@@ -15,17 +46,15 @@ export const submitJavaScript = async (
   try {
     const userId = req.user!.userId;
     const { exerciseId } = req.params;
-    const { code, testResults } = req.body;
-
-    if (!code || !testResults) {
-      throw new BadRequestError('Code and test results are required');
-    }
+    const { isFinal } = req.body;
+    const code = submittedCode(req.body);
 
+    // Test results reported by the browser are ignored; the code is re-run server-side
     const result = await codeExecutionService.executeJavaScript(
       exerciseId,
       userId,
       code,
-      testResults
+      isFinal === true
     );
 
     res.status(200).json({
@@ -49,19 +78,19 @@ export const submitJava = async (
   try {
     const userId = req.user!.userId;
     const { exerciseId } = req.params;
-    const { code } = req.body;
-
-    if (!code) {
-      throw new BadRequestError('Code is required');
-    }
+    const { isFinal } = req.body;
+    const code = submittedCode(req.body);
 
-    const result = await codeExecutionService.executeJava(
+    // Graded asynchronously; poll GET /submissions/:submissionId for the result
+    const result = await codeExecutionService.enqueueSubmission(
       exerciseId,
       userId,
-      code
+      code,
+      'java',
+      isFinal === true
     );
 
-    res.status(200).json({
+    res.status(202).json({
       success: true,
       data: result,
     });
@@ -82,16 +111,80 @@ export const submitPython = async (
   try {
     const userId = req.user!.userId;
     const { exerciseId } = req.params;
-    const { code } = req.body;
+    const { isFinal } = req.body;
+    const code = submittedCode(req.body);
 
-    if (!code) {
-      throw new BadRequestError('Code is required');
-    }
+    // Graded asynchronously; poll GET /submissions/:submissionId for the result
+    const result = await codeExecutionService.enqueueSubmission(
+      exerciseId,
+      userId,
+      code,
+      'python',
+      isFinal === true
+    );
+
+    res.status(202).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    const result = await codeExecutionService.executePython(
+/**
+ * Submit C++ code for execution
+ * POST /api/v1/exercises/:exerciseId/submit/cpp
+ */
+export const submitCpp = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user!.userId;
+    const { exerciseId } = req.params;
+    const { isFinal } = req.body;
+    const code = submittedCode(req.body);
+
+    // Graded asynchronously; poll GET /submissions/:submissionId for the result
+    const result = await codeExecutionService.enqueueSubmission(
+      exerciseId,
+      userId,
+      code,
+      'cpp',
+      isFinal === true
+    );
+
+    res.status(202).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Submit SQL query for execution
+ * POST /api/v1/exercises/:exerciseId/submit/sql
+ */
+export const submitSql = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user!.userId;
+    const { exerciseId } = req.params;
+    const { isFinal } = req.body;
+    const code = submittedCode(req.body);
+
+    const result = await codeExecutionService.executeSql(
       exerciseId,
       userId,
-      code
+      code,
+      isFinal === true
     );
 
     res.status(200).json({
@@ -103,6 +196,35 @@ export const submitPython = async (
   }
 };
 
+/**
+ * Run code without submitting it; nothing is stored
+ * POST /api/v1/exercises/:exerciseId/run
+ * Runs against the public test cases, or once on `customInput` when given
+ */
+export const runCode = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { exerciseId } = req.params;
+    const { customInput } = req.body;
+    const code = submittedCode(req.body);
+    if (customInput !== undefined && customInput !== null && typeof customInput !== 'string') {
+      throw new BadRequestError('customInput must be a string');
+    }
+
+    const result = await codeExecutionService.runCode(exerciseId, code, customInput ?? undefined);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Get submission history for an exercise
  * GET /api/v1/exercises/:exerciseId/submissions
@@ -130,6 +252,64 @@ export const getSubmissionHistory = async (
   }
 };
 
+const canViewAnyLearner = (req: AuthenticatedRequest) =>
+  req.user!.role === UserRole.INSTRUCTOR || req.user!.role === UserRole.ADMIN;
+
+/**
+ * Get a learner's submissions with code diffs and test changes between them.
+ * Instructors can pass ?userId= to see another learner's timeline.
+ * GET /api/v1/exercises/:exerciseId/submissions/timeline
+ */
+export const getSubmissionTimeline = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { exerciseId } = req.params;
+    let userId = req.user!.userId;
+
+    if (typeof req.query.userId === 'string' && req.query.userId !== userId) {
+      if (!canViewAnyLearner(req)) {
+        throw new ForbiddenError('You can only view your own submissions');
+      }
+      userId = req.query.userId;
+    }
+
+    const timeline = await submissionHistoryService.getTimeline(exerciseId, userId);
+
+    res.status(200).json({
+      success: true,
+      data: timeline,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the learners who submitted to an exercise
+ * GET /api/v1/exercises/:exerciseId/submitters
+ */
+export const getSubmitters = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { exerciseId } = req.params;
+
+    const submitters = await submissionHistoryService.getSubmitters(exerciseId);
+
+    res.status(200).json({
+      success: true,
+      data: submitters,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Get detailed submission results
  * GET /api/v1/submissions/:submissionId
@@ -156,3 +336,206 @@ export const getSubmissionDetails = async (
     next(error);
   }
 };
+
+/**
+ * Get AI feedback on a failing submission
+ * POST /api/v1/submissions/:submissionId/review
+ */
+export const reviewSubmission = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user!.userId;
+    const { submissionId } = req.params;
+
+    const review = await codeReviewService.reviewSubmission(submissionId, userId);
+
+    res.status(200).json({
+      success: true,
+      data: review,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Save the editor recording that led up to a submission
+ * PUT /api/v1/submissions/:submissionId/replay
+ */
+export const saveReplay = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user!.userId;
+    const { submissionId } = req.params;
+    const { initialCode, events } = req.body;
+
+    await submissionHistoryService.saveReplay(submissionId, userId, initialCode, events);
+
+    res.status(201).json({
+      success: true,
+      message: 'Replay saved',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the editor recording of a submission
+ * GET /api/v1/submissions/:submissionId/replay
+ */
+export const getReplay = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user!.userId;
+    const { submissionId } = req.params;
+
+    const replay = await submissionHistoryService.getReplay(submissionId, userId, canViewAnyLearner(req));
+
+    res.status(200).json({
+      success: true,
+      data: replay,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the learner's autosaved draft of an exercise, null when there is none
+ * GET /api/v1/exercises/:exerciseId/draft
+ */
+export const getDraft = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user!.userId;
+    const { exerciseId } = req.params;
+
+    const draft = await codeDraftService.getDraft(exerciseId, userId);
+
+    res.status(200).json({
+      success: true,
+      data: draft,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Autosave the learner's code
+ * PUT /api/v1/exercises/:exerciseId/draft
+ * `baseVersion` is the draft version being replaced; 409 with the current draft when it is stale
+ */
+export const saveDraft = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user!.userId;
+    const { exerciseId } = req.params;
+    const { code, baseVersion } = req.body;
+
+    const draft = await codeDraftService.saveDraft(exerciseId, userId, code, baseVersion ?? null);
+
+    res.status(200).json({
+      success: true,
+      data: draft,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Discard the learner's draft
+ * DELETE /api/v1/exercises/:exerciseId/draft
+ */
+export const deleteDraft = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user!.userId;
+    const { exerciseId } = req.params;
+
+    await codeDraftService.deleteDraft(exerciseId, userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Draft deleted',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Stream status changes of a submission as server-sent events
+ * GET /api/v1/submissions/:submissionId/events
+ */
+export const streamSubmissionStatus = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user!.userId;
+    const { submissionId } = req.params;
+
+    // Throws NotFoundError unless the submission belongs to this user
+    await codeExecutionService.getSubmissionDetails(submissionId, userId);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const send = (status: string) => {
+      res.write(`event: status\ndata: ${JSON.stringify({ submissionId, status })}\n\n`);
+    };
+    const isFinished = (status: string) => status !== 'pending' && status !== 'running';
+
+    const unsubscribe = await submissionQueue.subscribe(submissionId, (event) => {
+      send(event.status);
+      if (isFinished(event.status)) {
+        void unsubscribe();
+        res.end();
+      }
+    });
+
+    // Read the status after subscribing so a change in between is not missed
+    const submission = await codeExecutionService.getSubmissionDetails(submissionId, userId);
+    send(submission.status);
+    if (isFinished(submission.status)) {
+      await unsubscribe();
+      res.end();
+      return;
+    }
+
+    req.on('close', () => {
+      void unsubscribe();
+    });
+  } catch (error) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    next(error);
+  }
+};
@@ -26,6 +26,16 @@ export const createExercise = async (
       explanation,
       points,
       timeLimitSeconds,
+      memoryLimitMb,
+      setupSql,
+      hiddenTestScoring,
+      hiddenTestVisibility,
+      inputGenerator,
+      functionSignature,
+      staticAnalysis,
+      projectFiles,
+      exerciseType,
+      typeConfig,
       isPublished,
     } = req.body;
 
@@ -42,6 +52,16 @@ export const createExercise = async (
         explanation,
         points,
         timeLimitSeconds,
+        memoryLimitMb,
+        setupSql,
+        hiddenTestScoring,
+        hiddenTestVisibility,
+        inputGenerator,
+        functionSignature,
+        staticAnalysis,
+        projectFiles,
+        exerciseType,
+        typeConfig,
         isPublished,
       },
       userId
@@ -160,6 +180,31 @@ export const deleteExercise = async (
   }
 };
 
+/**
+ * Validate exercise: run the reference solution and starter code against all test cases
+ * POST /api/v1/exercises/:exerciseId/validate
+ * The body may carry unsaved starterCode, solutionCode, setupSql, inputGenerator, functionSignature, projectFiles,
+ * exerciseType, typeConfig or limits to validate
+ */
+export const validateExercise = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { exerciseId } = req.params;
+
+    const report = await exerciseService.validateExercise(exerciseId, req.body || {});
+
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Add test case to exercise
  * POST /api/v1/exercises/:exerciseId/test-cases
@@ -427,8 +472,9 @@ export const getExercisesByObjective = async (
 ): Promise<void> => {
   try {
     const { objectiveId } = req.params;
+    const userRole = req.user!.role;
 
-    const exercises = await exerciseService.getExercisesByObjective(objectiveId);
+    const exercises = await exerciseService.getExercisesByObjective(objectiveId, userRole);
 
     res.status(200).json({
       success: true,
@@ -0,0 +1,149 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '../../types';
+import { questionBankService } from '../../services/questionBank.service';
+import { ResponseUtil } from '../../utils/response.util';
+import { logger } from '../../config/logger.config';
+
+class QuestionBankController {
+  /**
+   * Create a question bank for a topic or curriculum
+   * POST /api/v1/quizzes/banks
+   */
+  async createBank(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const bank = await questionBankService.createBank(req.body, userId);
+
+      logger.info('Created question bank', { userId, bankId: bank.id });
+
+      ResponseUtil.success(res, { bank: bank.toJSON() }, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the question banks usable in a topic's quizzes
+   * GET /api/v1/quizzes/banks/topic/:topicId
+   */
+  async getBanksByTopic(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const banks = await questionBankService.getBanksForTopic(req.params.topicId);
+
+      ResponseUtil.success(res, {
+        banks: banks.map(bank => ({ ...bank.toJSON(), question_count: bank.question_count })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a question bank with its questions
+   * GET /api/v1/quizzes/banks/:bankId
+   */
+  async getBank(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { bank, questions } = await questionBankService.getBank(req.params.bankId);
+
+      ResponseUtil.success(res, { bank: bank.toJSON(), questions });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add a question to a bank
+   * POST /api/v1/quizzes/banks/:bankId/questions
+   */
+  async addQuestion(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const question = await questionBankService.addQuestion(
+        req.params.bankId,
+        req.body,
+        req.user!.userId,
+        req.user!.role
+      );
+
+      ResponseUtil.success(res, { question }, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a question of a bank
+   * DELETE /api/v1/quizzes/banks/:bankId/questions/:questionId
+   */
+  async deleteQuestion(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { bankId, questionId } = req.params;
+      await questionBankService.deleteQuestion(bankId, questionId, req.user!.userId, req.user!.role);
+
+      ResponseUtil.success(res, { message: 'Question deleted' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the draw rules of a quiz
+   * GET /api/v1/quizzes/:id/draw-rules
+   */
+  async getDrawRules(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const rules = await questionBankService.getDrawRules(req.params.id);
+
+      ResponseUtil.success(res, { rules: rules.map(rule => rule.toJSON()) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replace the draw rules of a quiz
+   * PUT /api/v1/quizzes/:id/draw-rules
+   */
+  async saveDrawRules(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const rules = await questionBankService.saveDrawRules(id, req.body.rules, req.user!.userId, req.user!.role);
+
+      logger.info('Saved quiz draw rules', { quizId: id, rules: rules.length });
+
+      ResponseUtil.success(res, { rules: rules.map(rule => rule.toJSON()) });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const questionBankController = new QuestionBankController();
@@ -3,6 +3,20 @@ import { AuthenticatedRequest } from '../../middleware/auth.middleware';
 import { quizRepository } from '../../repositories/quiz.repository';
 import { quizGenerationService } from '../../services/quizGeneration.service';
 import { topicRepository } from '../../repositories/topic.repository';
+import { rubricRepository } from '../../repositories/rubric.repository';
+import { quizGradingService } from '../../services/quizGrading.service';
+import { quizAttemptService } from '../../services/quizAttempt.service';
+import { questionBankService } from '../../services/questionBank.service';
+import { quizAnalyticsService } from '../../services/quizAnalytics.service';
+import { rubricCriteriaError, WRITTEN_QUESTION_TYPES } from '../../services/ai/rubric.grading';
+import {
+  GENERATED_QUESTION_TYPES,
+  learnerQuestion,
+  learnerQuestionConfig,
+  questionConfig,
+  QuestionInput,
+  validateQuestionInput,
+} from '../../services/quiz/question.types';
 import { ResponseUtil } from '../../utils/response.util';
 import { NotFoundError, ValidationError, UnauthorizedError } from '../../utils/errors.util';
 import { logger } from '../../config/logger.config';
@@ -25,11 +39,16 @@ class QuizController {
         numQuestions,
         title,
         passingScore,
+        questionTypes,
       } = req.body;
 
       if (!topicId || !providerId) {
         throw new ValidationError('topicId and providerId are required');
       }
+      if (questionTypes !== undefined && (!Array.isArray(questionTypes) || questionTypes.length === 0
+        || questionTypes.some((type: any) => !GENERATED_QUESTION_TYPES.includes(type)))) {
+        throw new ValidationError(`questionTypes must be some of: ${GENERATED_QUESTION_TYPES.join(', ')}`);
+      }
 
       // Get topic details
       const topic = await topicRepository.findById(topicId);
@@ -44,6 +63,7 @@ class QuizController {
           topicContent: topic.content || undefined,
           difficultyLevel: 'intermediate',
           numQuestions: numQuestions || 5,
+          questionTypes,
           title: title || `Quiz: ${topic.title}`,
           passingScore,
         },
@@ -96,6 +116,7 @@ class QuizController {
   ): Promise<void> {
     try {
       const { id } = req.params;
+      const isInstructor = req.user?.role === 'instructor' || req.user?.role === 'admin';
 
       const quiz = await quizRepository.findById(id);
       if (!quiz) {
@@ -104,12 +125,12 @@ class QuizController {
 
       const questions = await quizRepository.getQuestions(id);
 
-      // Get options for each question
+      // Get options for each question; model answers and buggy lines are for graders only
       const questionsWithOptions = await Promise.all(
         questions.map(async (question) => {
           const options = await quizRepository.getQuestionOptions(question.id);
           return {
-            ...question.toJSON(),
+            ...(isInstructor ? question.toJSON() : learnerQuestion(question.toJSON())),
             options: options.map(opt => opt.toJSON()),
           };
         })
@@ -118,6 +139,8 @@ class QuizController {
       ResponseUtil.success(res, {
         quiz: quiz.toJSON(),
         questions: questionsWithOptions,
+        // Each attempt also draws this many questions from banks
+        drawn_question_count: await questionBankService.getDrawSize(quiz),
       });
     } catch (error) {
       next(error);
@@ -160,32 +183,9 @@ class QuizController {
       const userId = req.user!.userId;
       const { id: quizId } = req.params;
 
-      const quiz = await quizRepository.findById(quizId);
-      if (!quiz) {
-        throw new NotFoundError('Quiz not found');
-      }
-
-      // Check if retakes allowed
-      if (!quiz.allow_retakes) {
-        const attempts = await quizRepository.getUserAttempts(userId, quizId);
-        if (attempts.length > 0) {
-          throw new ValidationError('Retakes are not allowed for this quiz');
-        }
-      }
-
-      // Check max attempts
-      if (quiz.max_attempts) {
-        const attempts = await quizRepository.getUserAttempts(userId, quizId);
-        if (attempts.length >= quiz.max_attempts) {
-          throw new ValidationError('Maximum attempts reached');
-        }
-      }
-
-      const attempt = await quizRepository.startAttempt(userId, quizId);
-
-      logger.info('Started quiz attempt', { userId, quizId, attemptId: attempt.id });
+      const { attempt, questions, resumed } = await quizAttemptService.startAttempt(userId, quizId);
 
-      ResponseUtil.success(res, { attempt: attempt.toJSON() }, 201);
+      ResponseUtil.success(res, { attempt: attempt.toJSON(), questions }, resumed ? 200 : 201);
     } catch (error) {
       next(error);
     }
@@ -202,17 +202,30 @@ class QuizController {
   ): Promise<void> {
     try {
       const { attemptId } = req.params;
-      const { questionId, selectedOptionId, textAnswer } = req.body;
+      const { questionId, selectedOptionId, selectedOptionIds, selectedLines, textAnswer, timeSpentSeconds } = req.body;
 
       if (!questionId) {
         throw new ValidationError('questionId is required');
       }
+      if (selectedOptionIds !== undefined
+        && (!Array.isArray(selectedOptionIds) || selectedOptionIds.some((id: any) => typeof id !== 'string'))) {
+        throw new ValidationError('selectedOptionIds must be a list of option ids');
+      }
+      if (selectedLines !== undefined
+        && (!Array.isArray(selectedLines) || selectedLines.some((line: any) => !Number.isInteger(line)))) {
+        throw new ValidationError('selectedLines must be a list of line numbers');
+      }
+      if (timeSpentSeconds !== undefined && (!Number.isInteger(timeSpentSeconds) || timeSpentSeconds < 0)) {
+        throw new ValidationError('timeSpentSeconds must be a whole number of seconds');
+      }
 
-      await quizRepository.submitAnswer({
-        attempt_id: attemptId,
-        question_id: questionId,
-        selected_option_id: selectedOptionId,
-        text_answer: textAnswer,
+      await quizAttemptService.submitAnswer(attemptId, req.user!.userId, {
+        questionId,
+        selectedOptionId,
+        selectedOptionIds,
+        selectedLines,
+        textAnswer,
+        timeSpentSeconds,
       });
 
       ResponseUtil.success(res, { message: 'Answer submitted' });
@@ -233,12 +246,7 @@ class QuizController {
     try {
       const { attemptId } = req.params;
 
-      const attempt = await quizRepository.completeAttempt(attemptId);
-      if (!attempt) {
-        throw new NotFoundError('Attempt not found');
-      }
-
-      logger.info('Completed quiz attempt', { attemptId, score: attempt.score });
+      const attempt = await quizAttemptService.completeAttempt(attemptId, req.user!.userId);
 
       ResponseUtil.success(res, { attempt: attempt.toJSON() });
     } catch (error) {
@@ -263,6 +271,14 @@ class QuizController {
         throw new NotFoundError('Attempt not found');
       }
 
+      // Buggy lines stay hidden until the attempt is completed
+      if (!attemptWithAnswers.is_completed) {
+        attemptWithAnswers.answers = attemptWithAnswers.answers.map((answer: any) => ({
+          ...answer,
+          question_config: learnerQuestionConfig(answer.question_type, answer.question_config),
+        }));
+      }
+
       ResponseUtil.success(res, attemptWithAnswers);
     } catch (error) {
       next(error);
@@ -310,6 +326,227 @@ class QuizController {
     }
   }
 
+  /**
+   * Add a question to a quiz. Choice questions need options, code-review
+   * questions the snippet and its buggy lines; written questions may name
+   * the rubric they are graded with.
+   * POST /api/v1/quizzes/:id/questions
+   */
+  async addQuestion(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.userId;
+      const input: QuestionInput = req.body;
+
+      const quiz = await quizRepository.findById(id);
+      if (!quiz) {
+        throw new NotFoundError('Quiz not found');
+      }
+
+      if (quiz.created_by !== userId && req.user?.role !== 'admin') {
+        throw new UnauthorizedError('Not authorized to update this quiz');
+      }
+
+      const questionError = validateQuestionInput(input);
+      if (questionError) {
+        throw new ValidationError(questionError);
+      }
+      if (input.rubricId && !(await rubricRepository.findById(input.rubricId))) {
+        throw new NotFoundError('Rubric not found');
+      }
+
+      const written = WRITTEN_QUESTION_TYPES.includes(input.questionType);
+      const existing = await quizRepository.getQuestions(id);
+      const question = await quizRepository.addQuestion({
+        quiz_id: id,
+        question_type: input.questionType,
+        question_text: input.questionText.trim(),
+        explanation: input.explanation,
+        points: input.points,
+        order_index: existing.reduce((max, q) => Math.max(max, q.order_index + 1), 0),
+        rubric_id: written ? input.rubricId : undefined,
+        model_answer: written ? input.modelAnswer : undefined,
+        question_config: questionConfig(input),
+      });
+
+      const createdOptions = [];
+      for (const [index, option] of (input.options ?? []).entries()) {
+        createdOptions.push(await quizRepository.addQuestionOption({
+          question_id: question.id,
+          option_text: option.text.trim(),
+          is_correct: option.isCorrect === true,
+          explanation: option.explanation,
+          order_index: index,
+        }));
+      }
+
+      logger.info('Added quiz question', { userId, quizId: id, questionId: question.id });
+
+      ResponseUtil.success(res, {
+        question: { ...question.toJSON(), options: createdOptions.map(opt => opt.toJSON()) },
+      }, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a rubric for grading written answers
+   * POST /api/v1/quizzes/rubrics
+   */
+  async createRubric(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      const { name, description, topicId, criteria } = req.body;
+
+      if (typeof name !== 'string' || !name.trim()) {
+        throw new ValidationError('name is required');
+      }
+      const criteriaError = rubricCriteriaError(criteria);
+      if (criteriaError) {
+        throw new ValidationError(criteriaError);
+      }
+
+      const result = await rubricRepository.create({
+        name: name.trim(),
+        description,
+        topic_id: topicId,
+        created_by: userId,
+        criteria,
+      });
+
+      logger.info('Created rubric', { userId, rubricId: result.rubric.id });
+
+      ResponseUtil.success(res, {
+        rubric: result.rubric.toJSON(),
+        criteria: result.criteria.map(c => c.toJSON()),
+      }, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the rubrics usable for a topic, with their criteria
+   * GET /api/v1/quizzes/rubrics/topic/:topicId
+   */
+  async getRubricsByTopic(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { topicId } = req.params;
+
+      const rubrics = await rubricRepository.findForTopic(topicId);
+      const rubricsWithCriteria = await Promise.all(
+        rubrics.map(async (rubric) => ({
+          ...rubric.toJSON(),
+          criteria: (await rubricRepository.getCriteria(rubric.id)).map(c => c.toJSON()),
+        }))
+      );
+
+      ResponseUtil.success(res, { rubrics: rubricsWithCriteria });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the written answers of a quiz whose grade is not final yet
+   * GET /api/v1/quizzes/:id/grading
+   */
+  async getGradingQueue(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const answers = await quizGradingService.getReviewQueue(id, req.user!.userId, req.user!.role);
+
+      ResponseUtil.success(res, { answers });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get item analysis of a quiz's questions: difficulty, discrimination,
+   * option picks, time spent and KR-20 reliability
+   * GET /api/v1/quizzes/:id/analytics
+   */
+  async getItemAnalysis(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const analysis = await quizAnalyticsService.getItemAnalysis(id, req.user!.userId, req.user!.role);
+
+      ResponseUtil.success(res, analysis);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Override the grade of a written answer, or make it final
+   * PUT /api/v1/quizzes/answers/:answerId/grade
+   */
+  async overrideGrade(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { answerId } = req.params;
+      const { criteria, feedback, final } = req.body;
+
+      const answer = await quizGradingService.overrideGrade(
+        answerId,
+        { criteria, feedback, final },
+        req.user!.userId,
+        req.user!.role
+      );
+
+      ResponseUtil.success(res, { answer });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Grade the written answers of an attempt the AI failed to grade again
+   * POST /api/v1/quizzes/attempts/:attemptId/grade
+   */
+  async retryGrading(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { attemptId } = req.params;
+
+      const requeued = await quizGradingService.retryGrading(attemptId, req.user!.userId, req.user!.role);
+
+      ResponseUtil.success(res, { requeued });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Update quiz
    * PUT /api/v1/quizzes/:id
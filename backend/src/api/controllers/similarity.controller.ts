@@ -0,0 +1,81 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '../../types';
+import { DEFAULT_REPORT_THRESHOLD, MIN_STORED_SIMILARITY, similarityService } from '../../services/similarity.service';
+import { BadRequestError } from '../../utils/errors.util';
+
+/**
+ * Compare the passing submissions of an exercise
+ * POST /api/v1/exercises/:exerciseId/similarity/analyze
+ */
+export const analyzeExercise = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { exerciseId } = req.params;
+
+    const analysis = await similarityService.analyzeExercise(exerciseId);
+
+    res.status(200).json({
+      success: true,
+      data: analysis,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get clusters of similar submissions
+ * GET /api/v1/exercises/:exerciseId/similarity?threshold=0.8
+ */
+export const getReport = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { exerciseId } = req.params;
+    let threshold = DEFAULT_REPORT_THRESHOLD;
+
+    if (req.query.threshold !== undefined) {
+      threshold = Number(req.query.threshold);
+      if (!Number.isFinite(threshold) || threshold < MIN_STORED_SIMILARITY || threshold > 1) {
+        throw new BadRequestError(`threshold must be between ${MIN_STORED_SIMILARITY} and 1`);
+      }
+    }
+
+    const report = await similarityService.getReport(exerciseId, threshold);
+
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get both programs of a similar pair with their matched regions
+ * GET /api/v1/similarity-pairs/:pairId
+ */
+export const getPair = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { pairId } = req.params;
+
+    const pair = await similarityService.getPair(pairId);
+
+    res.status(200).json({
+      success: true,
+      data: pair,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
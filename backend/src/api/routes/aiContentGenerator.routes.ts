@@ -14,6 +14,7 @@ router.post('/generate/topic-content', aiContentGeneratorController.generateTopi
 router.post('/generate/exercise', aiContentGeneratorController.generateExercise);
 router.post('/generate/hints', aiContentGeneratorController.generateHints);
 router.post('/generate/test-cases', aiContentGeneratorController.generateTestCases);
+router.post('/translate/exercise', aiContentGeneratorController.translateExercise);
 
 // Curriculum content generation
 router.post('/generate/topics', aiContentGeneratorController.generateTopics);
@@ -1,19 +1,53 @@
 import { Router } from 'express';
-import { authenticate } from '../middleware/auth.middleware';
+import rateLimit from 'express-rate-limit';
+import { authenticate, requireInstructorOrAdmin } from '../middleware/auth.middleware';
 import * as codeExecutionController from '../controllers/codeExecution.controller';
+import { env } from '../../config/env.config';
+import { AuthenticatedRequest } from '../../types';
+import { TooManyRequestsError } from '../../utils/errors.util';
 
 const router = Router();
 
+// Runs leave no submission behind, so they are limited per user instead
+const runLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: env.RUN_RATE_LIMIT_PER_MINUTE,
+  keyGenerator: (req) => (req as AuthenticatedRequest).user!.userId,
+  handler: (_req, _res, next) => next(new TooManyRequestsError('Too many runs, please wait a moment before running again')),
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // All routes require authentication
 router.use(authenticate);
 
+// Run code against the public tests or custom input without submitting
+router.post('/exercises/:exerciseId/run', runLimiter, codeExecutionController.runCode);
+
 // Code submission routes
 router.post('/exercises/:exerciseId/submit/javascript', codeExecutionController.submitJavaScript);
 router.post('/exercises/:exerciseId/submit/java', codeExecutionController.submitJava);
 router.post('/exercises/:exerciseId/submit/python', codeExecutionController.submitPython);
+router.post('/exercises/:exerciseId/submit/cpp', codeExecutionController.submitCpp);
+router.post('/exercises/:exerciseId/submit/sql', codeExecutionController.submitSql);
+
+// Autosaved editor code; drafts are never graded or listed with submissions
+router.get('/exercises/:exerciseId/draft', codeExecutionController.getDraft);
+router.put('/exercises/:exerciseId/draft', codeExecutionController.saveDraft);
+router.delete('/exercises/:exerciseId/draft', codeExecutionController.deleteDraft);
 
 // Submission history and details
 router.get('/exercises/:exerciseId/submissions', codeExecutionController.getSubmissionHistory);
+router.get('/exercises/:exerciseId/submissions/timeline', codeExecutionController.getSubmissionTimeline);
+router.get('/exercises/:exerciseId/submitters', requireInstructorOrAdmin(), codeExecutionController.getSubmitters);
 router.get('/submissions/:submissionId', codeExecutionController.getSubmissionDetails);
+router.get('/submissions/:submissionId/events', codeExecutionController.streamSubmissionStatus);
+
+// Editor recordings that led up to a submission
+router.put('/submissions/:submissionId/replay', codeExecutionController.saveReplay);
+router.get('/submissions/:submissionId/replay', codeExecutionController.getReplay);
+
+// AI feedback on a failing submission, using the learner's default AI provider
+router.post('/submissions/:submissionId/review', codeExecutionController.reviewSubmission);
 
 export default router;
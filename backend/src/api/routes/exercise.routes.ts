@@ -47,6 +47,14 @@ router.delete(
   exerciseController.deleteExercise
 );
 
+// Validate solution and starter code against all test cases (instructors and admins only)
+router.post(
+  '/exercises/:exerciseId/validate',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  exerciseController.validateExercise
+);
+
 /**
  * Test Case routes
  */
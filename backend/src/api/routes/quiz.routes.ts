@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { quizController } from '../controllers/quiz.controller';
+import { questionBankController } from '../controllers/questionBank.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
 import { UserRole } from '../../types';
 
@@ -21,6 +22,70 @@ router.post(
   quizController.createQuiz.bind(quizController)
 );
 
+// Create a grading rubric (instructor only)
+router.post(
+  '/rubrics',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  quizController.createRubric.bind(quizController)
+);
+
+// Get rubrics for a topic (instructor only)
+router.get(
+  '/rubrics/topic/:topicId',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  quizController.getRubricsByTopic.bind(quizController)
+);
+
+// Create a question bank (instructor only)
+router.post(
+  '/banks',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  questionBankController.createBank.bind(questionBankController)
+);
+
+// Get question banks for a topic (instructor only)
+router.get(
+  '/banks/topic/:topicId',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  questionBankController.getBanksByTopic.bind(questionBankController)
+);
+
+// Get a question bank with its questions (instructor only)
+router.get(
+  '/banks/:bankId',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  questionBankController.getBank.bind(questionBankController)
+);
+
+// Add a question to a bank (instructor only)
+router.post(
+  '/banks/:bankId/questions',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  questionBankController.addQuestion.bind(questionBankController)
+);
+
+// Delete a question of a bank (instructor only)
+router.delete(
+  '/banks/:bankId/questions/:questionId',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  questionBankController.deleteQuestion.bind(questionBankController)
+);
+
+// Override or finalize the grade of a written answer (instructor only)
+router.put(
+  '/answers/:answerId/grade',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  quizController.overrideGrade.bind(quizController)
+);
+
 // Get quizzes by topic ID
 router.get(
   '/topic/:topicId',
@@ -65,6 +130,46 @@ router.delete(
   quizController.deleteQuiz.bind(quizController)
 );
 
+// Add a question (instructor only)
+router.post(
+  '/:id/questions',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  quizController.addQuestion.bind(quizController)
+);
+
+// Get the draw rules of a quiz (instructor only)
+router.get(
+  '/:id/draw-rules',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  questionBankController.getDrawRules.bind(questionBankController)
+);
+
+// Replace the draw rules of a quiz (instructor only)
+router.put(
+  '/:id/draw-rules',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  questionBankController.saveDrawRules.bind(questionBankController)
+);
+
+// Get written answers awaiting a final grade (instructor only)
+router.get(
+  '/:id/grading',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  quizController.getGradingQueue.bind(quizController)
+);
+
+// Get item analysis of the questions (instructor only)
+router.get(
+  '/:id/analytics',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  quizController.getItemAnalysis.bind(quizController)
+);
+
 // Start quiz attempt (learner)
 router.post(
   '/:id/attempts',
@@ -86,6 +191,14 @@ router.post(
   quizController.completeAttempt.bind(quizController)
 );
 
+// Grade failed written answers again (instructor only)
+router.post(
+  '/attempts/:attemptId/grade',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  quizController.retryGrading.bind(quizController)
+);
+
 // Get attempt results
 router.get(
   '/attempts/:attemptId',
@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { UserRole } from '../../types';
+import * as similarityController from '../controllers/similarity.controller';
+
+const router = Router();
+
+/**
+ * Submission similarity routes (instructors and admins only)
+ */
+
+// Compare the passing submissions of an exercise, replacing earlier results
+router.post(
+  '/exercises/:exerciseId/similarity/analyze',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  similarityController.analyzeExercise
+);
+
+// Get clusters of similar submissions
+router.get(
+  '/exercises/:exerciseId/similarity',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  similarityController.getReport
+);
+
+// Get a pair of similar programs side by side
+router.get(
+  '/similarity-pairs/:pairId',
+  authMiddleware.authenticate.bind(authMiddleware),
+  authMiddleware.requireRole(UserRole.INSTRUCTOR, UserRole.ADMIN).bind(authMiddleware),
+  similarityController.getPair
+);
+
+export default router;
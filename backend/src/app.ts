@@ -13,6 +13,7 @@ import aiContentGeneratorRoutes from './api/routes/aiContentGenerator.routes';
 import codeExecutionRoutes from './api/routes/codeExecution.routes';
 import quizRoutes from './api/routes/quiz.routes';
 import exerciseRoutes from './api/routes/exercise.routes';
+import similarityRoutes from './api/routes/similarity.routes';
 import { errorHandler, notFoundHandler } from './api/middleware/error.middleware';
 
 export function createApp(): Application {
@@ -80,6 +81,7 @@ export function createApp(): Application {
   app.use(`/api/${apiVersion}`, codeExecutionRoutes);
   app.use(`/api/${apiVersion}/quizzes`, quizRoutes);
   app.use(`/api/${apiVersion}`, exerciseRoutes);
+  app.use(`/api/${apiVersion}`, similarityRoutes);
 
   // 404 handler
   app.use(notFoundHandler);
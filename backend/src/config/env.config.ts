@@ -35,8 +35,38 @@ const envSchema = z.object({
   // CORS
   ALLOWED_ORIGINS: z.string().default('http://localhost:5173'),
 
+  // Code execution
+  EXECUTION_BACKEND: z.enum(['judge0', 'local']).default('judge0'),
+  JUDGE0_URL: z.string().default('http://localhost:2358'),
+  LOCAL_EXECUTION_PYTHON: z.string().default('python3'),
+  LOCAL_EXECUTION_JAVAC: z.string().default('javac'),
+  LOCAL_EXECUTION_JAVA: z.string().default('java'),
+  LOCAL_EXECUTION_CXX: z.string().default('g++'),
+  LOCAL_EXECUTION_JUNIT_JAR: z.string().default('/opt/junit/junit-platform-console-standalone.jar'),
+  LOCAL_EXECUTION_UID: z.string().regex(/^[1-9]\d*$/, 'must be a non-root numeric id').transform(Number).optional(),
+  LOCAL_EXECUTION_GID: z.string().regex(/^[1-9]\d*$/, 'must be a non-root numeric id').transform(Number).optional(),
+  SQL_SANDBOX_DATABASE_URL: z.string().optional(),
+  SUBMISSION_WORKER_ENABLED: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
+  SUBMISSION_WORKER_CONCURRENCY: z.string().transform(Number).default('2'),
+  SUBMISSION_MAX_ACTIVE_PER_USER: z.string().transform(Number).default('2'),
+  RUN_RATE_LIMIT_PER_MINUTE: z.string().transform(Number).default('20'),
+  QUIZ_ATTEMPT_SWEEP_INTERVAL_SECONDS: z.string().transform(Number).default('60'),
+
   // Logging
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
+}).superRefine((config, ctx) => {
+  // Without a sandbox user, local code runs as the server with its files and network
+  if (
+    config.NODE_ENV === 'production' &&
+    config.EXECUTION_BACKEND === 'local' &&
+    (config.LOCAL_EXECUTION_UID === undefined || config.LOCAL_EXECUTION_GID === undefined)
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['EXECUTION_BACKEND'],
+      message: 'local needs LOCAL_EXECUTION_UID and LOCAL_EXECUTION_GID in production',
+    });
+  }
 });
 
 const parseEnv = () => {
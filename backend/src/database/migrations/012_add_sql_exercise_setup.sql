@@ -0,0 +1,15 @@
+-- Migration: Add setup scripts for SQL exercises
+-- Description: Schema/seed script per exercise and per-test-case setup SQL with ordered/unordered result comparison
+
+-- Schema and seed data applied to every disposable submission schema
+ALTER TABLE exercises
+  ADD COLUMN IF NOT EXISTS setup_sql TEXT;
+
+-- Extra setup run after the exercise script, and whether row order matters
+ALTER TABLE exercise_test_cases
+  ADD COLUMN IF NOT EXISTS setup_sql TEXT,
+  ADD COLUMN IF NOT EXISTS ordered_result BOOLEAN DEFAULT FALSE;
+
+COMMENT ON COLUMN exercises.setup_sql IS 'SQL exercises: CREATE TABLE and seed statements run before every test case';
+COMMENT ON COLUMN exercise_test_cases.setup_sql IS 'SQL exercises: additional setup statements for this test case';
+COMMENT ON COLUMN exercise_test_cases.ordered_result IS 'SQL exercises: compare result rows in order (true) or as an unordered set (false)';
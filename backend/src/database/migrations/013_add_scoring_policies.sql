@@ -0,0 +1,19 @@
+-- Migration: Add weighted scoring and hidden test policies
+-- Description: Per-exercise rules for when hidden tests count and what learners see of them, final submissions and points earned
+
+-- When hidden tests count towards the score, and how much of them learners see
+ALTER TABLE exercises
+  ADD COLUMN IF NOT EXISTS hidden_test_scoring VARCHAR(20) NOT NULL DEFAULT 'always'
+    CHECK (hidden_test_scoring IN ('always', 'final_only')),
+  ADD COLUMN IF NOT EXISTS hidden_test_visibility VARCHAR(20) NOT NULL DEFAULT 'summary'
+    CHECK (hidden_test_visibility IN ('summary', 'names', 'full'));
+
+-- Final submissions and the exercise points earned by each submission
+ALTER TABLE code_submissions
+  ADD COLUMN IF NOT EXISTS is_final BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS points_earned DECIMAL(7,2) DEFAULT 0.00;
+
+COMMENT ON COLUMN exercises.hidden_test_scoring IS 'always: hidden tests run on every submission; final_only: hidden tests only run and count on final submissions';
+COMMENT ON COLUMN exercises.hidden_test_visibility IS 'summary: only counts are shown; names: names and pass/fail are shown; full: inputs, expected and actual output are shown';
+COMMENT ON COLUMN code_submissions.score IS 'Percentage of available test points earned (0.00 to 100.00)';
+COMMENT ON COLUMN code_submissions.points_earned IS 'score converted into the exercise points';
@@ -0,0 +1,16 @@
+-- Migration: Add output comparators to exercise test cases
+-- Description: How a test case compares the submission output with the expected output
+
+-- exact: values must be identical
+-- float: numbers may differ by comparator_options.tolerance (absolute or relative)
+-- unordered: lists (or output lines) are compared as multisets
+-- whitespace: text is compared with runs of whitespace collapsed
+-- regex: output must match comparator_options.pattern
+-- custom: comparator_options.checker, an instructor-written JavaScript function run in the sandbox
+ALTER TABLE exercise_test_cases
+  ADD COLUMN IF NOT EXISTS comparator VARCHAR(20) NOT NULL DEFAULT 'exact'
+    CHECK (comparator IN ('exact', 'float', 'unordered', 'whitespace', 'regex', 'custom')),
+  ADD COLUMN IF NOT EXISTS comparator_options JSONB;
+
+COMMENT ON COLUMN exercise_test_cases.comparator IS 'How the output is compared with expected_output: exact, float, unordered, whitespace, regex or custom';
+COMMENT ON COLUMN exercise_test_cases.comparator_options IS 'Comparator settings: { tolerance } for float, { pattern, flags } for regex, { checker } for custom';
@@ -0,0 +1,10 @@
+-- Migration: Add randomized test generation
+-- Description: Instructor-defined input generators; solution_code produces the expected outputs
+
+-- { args: [value specs], count, points, comparator, comparator_options }
+-- Value specs: int {min, max}, float {min, max, decimals}, boolean,
+-- string {alphabet, minLength, maxLength}, array {items, minLength, maxLength}, choice {values}
+ALTER TABLE exercises
+  ADD COLUMN IF NOT EXISTS input_generator JSONB;
+
+COMMENT ON COLUMN exercises.input_generator IS 'Generator for randomized test inputs; submissions are also graded against solution_code on these inputs';
@@ -0,0 +1,17 @@
+-- Migration: Add submission similarity
+-- Description: Pairs of passing submissions (or a submission and the reference solution) with suspiciously similar code
+
+CREATE TABLE IF NOT EXISTS submission_similarities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  exercise_id UUID NOT NULL REFERENCES exercises(id) ON DELETE CASCADE,
+  submission_a_id UUID NOT NULL REFERENCES code_submissions(id) ON DELETE CASCADE,
+  submission_b_id UUID REFERENCES code_submissions(id) ON DELETE CASCADE, -- NULL: compared with solution_code
+  similarity DECIMAL(5,4) NOT NULL, -- 0.0000 to 1.0000
+  matches JSONB NOT NULL DEFAULT '[]', -- Matched line ranges in both programs
+  analyzed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_submission_similarities_exercise_id ON submission_similarities(exercise_id);
+
+COMMENT ON TABLE submission_similarities IS 'Similarity analysis results; each analysis replaces the rows of its exercise';
+COMMENT ON COLUMN submission_similarities.submission_b_id IS 'Second submission, or NULL when the first was compared with the exercise solution_code';
@@ -0,0 +1,8 @@
+-- Migration: Add AI code review to submissions
+-- Description: Optional AI feedback on a failing submission, requested by the learner after grading
+
+-- { bugLocation: { line, description }, misconception, nudge, model, reviewedAt }
+ALTER TABLE code_submissions
+  ADD COLUMN IF NOT EXISTS ai_review JSONB;
+
+COMMENT ON COLUMN code_submissions.ai_review IS 'AI feedback on a failing submission: likely bug location, misconception and a nudge, never the solution';
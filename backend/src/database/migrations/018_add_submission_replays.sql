@@ -0,0 +1,12 @@
+-- Migration: Add submission replays
+-- Description: Keystroke-level recordings of the editing that led up to a submission
+
+CREATE TABLE IF NOT EXISTS submission_replays (
+  submission_id UUID PRIMARY KEY REFERENCES code_submissions(id) ON DELETE CASCADE,
+  initial_code TEXT NOT NULL, -- Editor contents when recording began
+  events JSONB NOT NULL, -- [{ t, from, to, text }]: replaced ranges, t in ms since recording began
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE submission_replays IS 'Optional editor recordings; replaying events over initial_code yields the submitted code';
@@ -0,0 +1,27 @@
+-- Migration: Add execution resource limits
+-- Description: Per-exercise and per-test-case CPU time and memory limits, and performance test cases
+
+-- time_limit_seconds and timeout_ms were stored but never enforced. They now are, so
+-- the old defaults (300 seconds per exercise, 5 seconds per test case) are cleared
+-- in favour of the platform default: NULL means "inherit".
+ALTER TABLE exercises
+  ALTER COLUMN time_limit_seconds DROP DEFAULT,
+  ADD COLUMN IF NOT EXISTS memory_limit_mb INTEGER;
+
+UPDATE exercises SET time_limit_seconds = NULL WHERE time_limit_seconds = 300;
+
+ALTER TABLE exercise_test_cases
+  ALTER COLUMN timeout_ms DROP DEFAULT,
+  ADD COLUMN IF NOT EXISTS memory_limit_mb INTEGER;
+
+UPDATE exercise_test_cases SET timeout_ms = NULL WHERE timeout_ms = 5000;
+
+COMMENT ON COLUMN exercises.time_limit_seconds IS 'CPU time limit per test case; NULL uses the platform default';
+COMMENT ON COLUMN exercises.memory_limit_mb IS 'Memory limit per test case; NULL uses the platform default';
+COMMENT ON COLUMN exercise_test_cases.timeout_ms IS 'CPU time limit for this test case, overrides exercises.time_limit_seconds';
+COMMENT ON COLUMN exercise_test_cases.memory_limit_mb IS 'Memory limit for this test case, overrides exercises.memory_limit_mb';
+
+-- test_type 'performance': input_data may hold { generate: { args: [value specs], seed } }
+-- instead of literal args, so large inputs are generated at grading time. Without an
+-- expected_output the reference solution's output on the same input is expected.
+COMMENT ON COLUMN exercise_test_cases.test_type IS 'public, hidden, edge_case or performance';
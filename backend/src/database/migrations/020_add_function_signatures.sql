@@ -0,0 +1,7 @@
+-- Migration: Add function signatures
+-- Description: Java and Python exercises can declare the function learners implement
+
+ALTER TABLE exercises
+  ADD COLUMN IF NOT EXISTS function_signature JSONB;
+
+COMMENT ON COLUMN exercises.function_signature IS 'Function learners implement, as { name, parameters: [{ name, type }], returnType }; Java and Python submissions are wrapped in a generated harness that calls it with input_data.args';
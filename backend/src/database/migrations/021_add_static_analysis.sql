@@ -0,0 +1,11 @@
+-- Migration: Add static analysis
+-- Description: Exercises can lint submitted code, forbid constructs and deduct points for violations
+
+ALTER TABLE exercises
+  ADD COLUMN IF NOT EXISTS static_analysis JSONB;
+
+ALTER TABLE code_submissions
+  ADD COLUMN IF NOT EXISTS static_analysis JSONB;
+
+COMMENT ON COLUMN exercises.static_analysis IS 'Lint settings for JavaScript, Python and Java submissions, as { rules: { rule: "warn" | "error" | [severity, options] }, forbidden: [{ type: loops | call | import, name, message }], deduction: { pointsPerError, maxPoints } }';
+COMMENT ON COLUMN code_submissions.static_analysis IS 'Lint findings of the submitted code, as { findings: [{ ruleId, message, severity, line, column }], deduction }; points_earned already has the deduction subtracted';
@@ -0,0 +1,7 @@
+-- Migration: Add project exercises
+-- Description: Exercises can consist of several files graded by a real test suite
+
+ALTER TABLE exercises
+  ADD COLUMN IF NOT EXISTS project_files JSONB;
+
+COMMENT ON COLUMN exercises.project_files IS 'Files of a multi-file project exercise, as [{ path, content, access: editable | readonly | hidden, solution }]; starter_code and solution_code hold the editable files packed with "==> path <==" headers, as do the submissions';
@@ -0,0 +1,14 @@
+-- Migration: Add code drafts
+-- Description: Autosaved editor contents per learner and exercise, kept apart from submissions
+
+CREATE TABLE IF NOT EXISTS code_drafts (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  exercise_id UUID NOT NULL REFERENCES exercises(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1, -- Incremented on every save, for conflict detection
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, exercise_id)
+);
+
+COMMENT ON TABLE code_drafts IS 'Latest unsubmitted editor contents; never graded and not part of the submission history';
+COMMENT ON COLUMN code_drafts.version IS 'Saves must name the version they replace, so a stale tab cannot overwrite newer code';
@@ -0,0 +1,10 @@
+-- Migration: Add exercise types
+-- Description: Debugging, Parsons and fill-in-the-blank exercises alongside code writing
+
+ALTER TABLE exercises
+  ADD COLUMN IF NOT EXISTS exercise_type VARCHAR(20) NOT NULL DEFAULT 'code'
+    CHECK (exercise_type IN ('code', 'debugging', 'parsons', 'fill_in_blank')),
+  ADD COLUMN IF NOT EXISTS type_config JSONB;
+
+COMMENT ON COLUMN exercises.exercise_type IS 'code: write the solution; debugging: fix the broken starter code; parsons: order shuffled lines; fill_in_blank: complete a template';
+COMMENT ON COLUMN exercises.type_config IS 'Settings of the exercise type: debugging { minPassingTests }, parsons { lines: [{ id, code, indent, distractor }] }, fill_in_blank { template, blanks: [{ id, answers, points }] }; parsons and fill_in_blank derive starter_code and solution_code from them';
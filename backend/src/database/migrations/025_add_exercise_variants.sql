@@ -0,0 +1,14 @@
+-- Migration: Add exercise language variants
+-- Description: Versions of an exercise in other languages are linked as one logical exercise
+
+ALTER TABLE exercises
+  ADD COLUMN IF NOT EXISTS variant_group_id UUID,
+  ADD COLUMN IF NOT EXISTS translated_from_id UUID REFERENCES exercises(id) ON DELETE SET NULL;
+
+-- One version per language in a group
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exercises_variant_language
+  ON exercises(variant_group_id, language)
+  WHERE variant_group_id IS NOT NULL;
+
+COMMENT ON COLUMN exercises.variant_group_id IS 'Shared by the versions of one logical exercise in different languages; the id of the exercise they were first translated from';
+COMMENT ON COLUMN exercises.translated_from_id IS 'The exercise this version was translated from, null for exercises written by hand';
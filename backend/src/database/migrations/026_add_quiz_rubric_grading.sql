@@ -0,0 +1,28 @@
+-- Migration: Add rubric grading of written quiz answers
+-- Description: Short-answer and essay answers are graded by AI against a rubric, then reviewed by an instructor
+
+ALTER TABLE quiz_questions
+  ADD COLUMN IF NOT EXISTS rubric_id UUID REFERENCES rubrics(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS model_answer TEXT;
+
+-- criterion_scores: [{ criterionId, name, points, maxPoints, feedback }]
+ALTER TABLE quiz_attempt_answers
+  ADD COLUMN IF NOT EXISTS grading_status VARCHAR(20)
+    CHECK (grading_status IN ('pending', 'graded', 'failed', 'final')),
+  ADD COLUMN IF NOT EXISTS criterion_scores JSONB,
+  ADD COLUMN IF NOT EXISTS ai_points DECIMAL(5,2),
+  ADD COLUMN IF NOT EXISTS instructor_feedback TEXT,
+  ADD COLUMN IF NOT EXISTS grading_error TEXT,
+  ADD COLUMN IF NOT EXISTS graded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS graded_at TIMESTAMP WITH TIME ZONE;
+
+-- Instructors review the written answers of a quiz that are not final yet
+CREATE INDEX IF NOT EXISTS idx_quiz_attempt_answers_grading_status
+  ON quiz_attempt_answers(grading_status)
+  WHERE grading_status IS NOT NULL AND grading_status <> 'final';
+
+COMMENT ON COLUMN quiz_questions.rubric_id IS 'Rubric written answers are graded against; without one the answer is graded on correctness alone';
+COMMENT ON COLUMN quiz_questions.model_answer IS 'Reference answer given to the AI grader, never shown to learners';
+COMMENT ON COLUMN quiz_attempt_answers.grading_status IS 'Written answers only: pending until the AI grades them, graded (or failed) until an instructor makes the grade final';
+COMMENT ON COLUMN quiz_attempt_answers.criterion_scores IS 'Points and feedback per rubric criterion, from the AI or changed by an instructor';
+COMMENT ON COLUMN quiz_attempt_answers.ai_points IS 'Points the AI grader gave, kept when an instructor overrides them';
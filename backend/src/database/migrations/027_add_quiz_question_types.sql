@@ -0,0 +1,17 @@
+-- Migration: Add multi-select, true/false and code-review quiz questions
+-- Description: Settings per question type and answers with several options or code lines
+
+ALTER TYPE question_type ADD VALUE IF NOT EXISTS 'multiple_select' AFTER 'multiple_choice';
+
+-- multiple_select: { partialCredit }
+-- code_review: { code, language, buggyLines, partialCredit }
+ALTER TABLE quiz_questions
+  ADD COLUMN IF NOT EXISTS question_config JSONB;
+
+ALTER TABLE quiz_attempt_answers
+  ADD COLUMN IF NOT EXISTS selected_option_ids UUID[],
+  ADD COLUMN IF NOT EXISTS selected_lines INTEGER[];
+
+COMMENT ON COLUMN quiz_questions.question_config IS 'Settings of multi-select and code-review questions: how partial credit is given, and the snippet with its buggy lines';
+COMMENT ON COLUMN quiz_attempt_answers.selected_option_ids IS 'Options picked in a multi-select question';
+COMMENT ON COLUMN quiz_attempt_answers.selected_lines IS 'Lines of the snippet (1-based) picked as buggy in a code-review question';
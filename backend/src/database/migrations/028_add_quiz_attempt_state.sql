@@ -0,0 +1,36 @@
+-- Migration: Enforce quiz time limits and attempt rules
+-- Description: Attempt status with a deadline, and the question and option order of each attempt
+
+ALTER TABLE quiz_attempts
+  ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'in_progress'
+    CHECK (status IN ('in_progress', 'completed', 'expired')),
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS question_order UUID[],
+  ADD COLUMN IF NOT EXISTS option_order JSONB;
+
+UPDATE quiz_attempts SET status = 'completed' WHERE is_completed AND status = 'in_progress';
+
+-- Learners have one attempt in progress per quiz: close all but the latest abandoned one
+UPDATE quiz_attempts a
+SET status = 'expired',
+    is_completed = true,
+    submitted_at = CURRENT_TIMESTAMP
+WHERE a.status = 'in_progress'
+  AND EXISTS (
+    SELECT 1 FROM quiz_attempts newer
+    WHERE newer.user_id = a.user_id
+      AND newer.quiz_id = a.quiz_id
+      AND newer.status = 'in_progress'
+      AND newer.attempt_number > a.attempt_number
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quiz_attempts_one_in_progress
+  ON quiz_attempts(user_id, quiz_id) WHERE status = 'in_progress';
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_expires_at
+  ON quiz_attempts(expires_at) WHERE status = 'in_progress' AND expires_at IS NOT NULL;
+
+COMMENT ON COLUMN quiz_attempts.status IS 'in_progress, completed by the learner, or expired: closed when the time limit ran out';
+COMMENT ON COLUMN quiz_attempts.expires_at IS 'When the time limit runs out; answers after it are rejected. NULL without a time limit';
+COMMENT ON COLUMN quiz_attempts.question_order IS 'Questions of the attempt in the order they are shown, shuffled when the quiz shuffles questions';
+COMMENT ON COLUMN quiz_attempts.option_order IS 'Option ids per question id in the order they are shown';
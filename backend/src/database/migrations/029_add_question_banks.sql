@@ -0,0 +1,124 @@
+-- Migration: Add question banks and quiz draw rules
+-- Description: Reusable questions per topic or curriculum, drawn into each quiz attempt by rules
+
+CREATE TABLE IF NOT EXISTS question_banks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+
+  -- A bank belongs to one topic or to a whole curriculum
+  topic_id UUID REFERENCES topics(id) ON DELETE CASCADE,
+  curriculum_id UUID REFERENCES curricula(id) ON DELETE CASCADE,
+
+  created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT question_banks_scope CHECK ((topic_id IS NULL) <> (curriculum_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_banks_topic_id ON question_banks(topic_id);
+CREATE INDEX IF NOT EXISTS idx_question_banks_curriculum_id ON question_banks(curriculum_id);
+
+CREATE TRIGGER update_question_banks_updated_at
+  BEFORE UPDATE ON question_banks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Bank questions are quiz questions that belong to a bank instead of a quiz
+ALTER TABLE quiz_questions
+  ALTER COLUMN quiz_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS bank_id UUID REFERENCES question_banks(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS difficulty VARCHAR(10) CHECK (difficulty IN ('easy', 'medium', 'hard'));
+
+ALTER TABLE quiz_questions
+  ADD CONSTRAINT quiz_questions_owner CHECK ((quiz_id IS NULL) <> (bank_id IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_quiz_questions_bank_id ON quiz_questions(bank_id) WHERE bank_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS quiz_question_objectives (
+  question_id UUID NOT NULL REFERENCES quiz_questions(id) ON DELETE CASCADE,
+  objective_id UUID NOT NULL REFERENCES learning_objectives(id) ON DELETE CASCADE,
+  PRIMARY KEY (question_id, objective_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_question_objectives_objective_id ON quiz_question_objectives(objective_id);
+
+-- "Draw 3 easy questions from this bank", optionally for one objective or for each objective of the quiz's topic
+CREATE TABLE IF NOT EXISTS quiz_draw_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quiz_id UUID NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+  bank_id UUID NOT NULL REFERENCES question_banks(id) ON DELETE CASCADE,
+
+  question_count INTEGER NOT NULL CHECK (question_count > 0),
+  difficulty VARCHAR(10) CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  objective_id UUID REFERENCES learning_objectives(id) ON DELETE CASCADE,
+  per_objective BOOLEAN NOT NULL DEFAULT FALSE,
+
+  order_index INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT quiz_draw_rules_objective CHECK (NOT (per_objective AND objective_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_draw_rules_quiz_id ON quiz_draw_rules(quiz_id);
+
+-- Score attempts against the questions they served, which may come from banks
+CREATE OR REPLACE FUNCTION calculate_quiz_score()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_total_points DECIMAL(5,2);
+  v_earned_points DECIMAL(5,2);
+  v_percentage_score DECIMAL(5,2);
+  v_quiz_passing_score DECIMAL(5,2);
+  v_question_order UUID[];
+BEGIN
+  SELECT question_order INTO v_question_order
+  FROM quiz_attempts
+  WHERE id = NEW.attempt_id;
+
+  -- Get total points of the questions served, or of the quiz for older attempts
+  IF v_question_order IS NOT NULL THEN
+    SELECT COALESCE(SUM(points), 0) INTO v_total_points
+    FROM quiz_questions
+    WHERE id = ANY(v_question_order);
+  ELSE
+    SELECT COALESCE(SUM(points), 0) INTO v_total_points
+    FROM quiz_questions
+    WHERE quiz_id = (SELECT quiz_id FROM quiz_attempts WHERE id = NEW.attempt_id);
+  END IF;
+
+  -- Get earned points
+  SELECT COALESCE(SUM(points_earned), 0) INTO v_earned_points
+  FROM quiz_attempt_answers
+  WHERE attempt_id = NEW.attempt_id;
+
+  -- Calculate percentage
+  IF v_total_points > 0 THEN
+    v_percentage_score := (v_earned_points / v_total_points) * 100;
+  ELSE
+    v_percentage_score := 0;
+  END IF;
+
+  -- Get passing score for the quiz
+  SELECT passing_score INTO v_quiz_passing_score
+  FROM quizzes
+  WHERE id = (SELECT quiz_id FROM quiz_attempts WHERE id = NEW.attempt_id);
+
+  -- Update quiz attempt with final score
+  UPDATE quiz_attempts
+  SET
+    score = v_percentage_score,
+    points_earned = v_earned_points,
+    total_points = v_total_points,
+    passed = (v_percentage_score >= v_quiz_passing_score)
+  WHERE id = NEW.attempt_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE question_banks IS 'Reusable quiz questions of a topic or curriculum, drawn into quiz attempts by draw rules';
+COMMENT ON COLUMN quiz_questions.bank_id IS 'Bank of a reusable question; NULL for questions of one quiz';
+COMMENT ON COLUMN quiz_questions.difficulty IS 'easy, medium or hard; what draw rules select on';
+COMMENT ON TABLE quiz_draw_rules IS 'How each attempt of a quiz draws its questions from banks, on top of the quiz''s own questions';
+COMMENT ON COLUMN quiz_draw_rules.per_objective IS 'Draw question_count questions for every learning objective of the quiz''s topic';
@@ -0,0 +1,7 @@
+-- Migration: Capture time spent on quiz questions
+-- Description: Seconds a learner spent on each question, for item analysis
+
+ALTER TABLE quiz_attempt_answers
+  ADD COLUMN IF NOT EXISTS time_spent_seconds INTEGER CHECK (time_spent_seconds >= 0);
+
+COMMENT ON COLUMN quiz_attempt_answers.time_spent_seconds IS 'Seconds the learner spent on the question over all visits, as reported by the client; null when not captured';
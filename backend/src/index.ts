@@ -4,6 +4,9 @@ import { logger } from './config/logger.config';
 import { database } from './config/database.config';
 import { redis } from './config/redis.config';
 import { MigrationRunner } from './database/migrate';
+import { codeExecutionService } from './services/codeExecution.service';
+import { submissionQueue } from './services/execution/submission.queue';
+import { quizAttemptService } from './services/quizAttempt.service';
 
 async function bootstrap() {
   try {
@@ -24,6 +27,18 @@ async function bootstrap() {
     logger.info('Connecting to Redis...');
     await redis.connect();
 
+    // Start grading queued submissions
+    if (env.SUBMISSION_WORKER_ENABLED) {
+      await codeExecutionService.requeueInterruptedSubmissions();
+      await submissionQueue.start(
+        (submissionId) => codeExecutionService.processSubmission(submissionId),
+        env.SUBMISSION_WORKER_CONCURRENCY
+      );
+    }
+
+    // Close quiz attempts that ran out of time
+    quizAttemptService.startSweeper(env.QUIZ_ATTEMPT_SWEEP_INTERVAL_SECONDS);
+
     // Create Express app
     const app = createApp();
 
@@ -40,6 +55,8 @@ async function bootstrap() {
       logger.info(`${signal} received. Shutting down gracefully...`);
 
       try {
+        await submissionQueue.stop();
+        quizAttemptService.stopSweeper();
         await database.close();
         await redis.disconnect();
         logger.info('Shutdown complete');
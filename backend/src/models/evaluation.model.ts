@@ -121,3 +121,79 @@ export class Scenario {
     };
   }
 }
+
+export class Rubric {
+  id: string;
+  name: string;
+  description: string | null;
+  topic_id: string | null;
+  evaluation_type: string | null;
+  max_score: number;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+
+  constructor(data: any) {
+    this.id = data.id;
+    this.name = data.name;
+    this.description = data.description;
+    this.topic_id = data.topic_id;
+    this.evaluation_type = data.evaluation_type;
+    this.max_score = parseFloat(data.max_score);
+    this.created_by = data.created_by;
+    this.created_at = new Date(data.created_at);
+    this.updated_at = new Date(data.updated_at);
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      name: this.name,
+      description: this.description,
+      topic_id: this.topic_id,
+      evaluation_type: this.evaluation_type,
+      max_score: this.max_score,
+      created_by: this.created_by,
+      created_at: this.created_at,
+      updated_at: this.updated_at,
+    };
+  }
+}
+
+export class RubricCriterion {
+  id: string;
+  rubric_id: string;
+  criterion_name: string;
+  description: string | null;
+  max_points: number;
+  weight: number;
+  levels: Array<{ level: string; points: number; description: string }> | null;
+  order_index: number;
+  created_at: Date;
+
+  constructor(data: any) {
+    this.id = data.id;
+    this.rubric_id = data.rubric_id;
+    this.criterion_name = data.criterion_name;
+    this.description = data.description;
+    this.max_points = parseFloat(data.max_points);
+    this.weight = data.weight ? parseFloat(data.weight) : 1;
+    this.levels = data.levels;
+    this.order_index = data.order_index;
+    this.created_at = new Date(data.created_at);
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      rubric_id: this.rubric_id,
+      criterion_name: this.criterion_name,
+      description: this.description,
+      max_points: this.max_points,
+      weight: this.weight,
+      levels: this.levels,
+      order_index: this.order_index,
+      created_at: this.created_at,
+    };
+  }
+}
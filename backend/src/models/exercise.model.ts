@@ -12,6 +12,18 @@ export class Exercise {
   order_index: number;
   points: number;
   time_limit_seconds: number | null;
+  memory_limit_mb: number | null;
+  setup_sql: string | null;
+  hidden_test_scoring: 'always' | 'final_only';
+  hidden_test_visibility: 'summary' | 'names' | 'full';
+  input_generator: Record<string, any> | null;
+  function_signature: Record<string, any> | null;
+  static_analysis: Record<string, any> | null;
+  project_files: Record<string, any>[] | null;
+  exercise_type: 'code' | 'debugging' | 'parsons' | 'fill_in_blank';
+  type_config: Record<string, any> | null;
+  variant_group_id: string | null; // Shared by the versions of this exercise in other languages
+  translated_from_id: string | null;
   is_published: boolean;
   created_by: string;
   created_at: Date;
@@ -31,6 +43,18 @@ export class Exercise {
     this.order_index = data.order_index;
     this.points = data.points;
     this.time_limit_seconds = data.time_limit_seconds;
+    this.memory_limit_mb = data.memory_limit_mb ?? null;
+    this.setup_sql = data.setup_sql;
+    this.hidden_test_scoring = data.hidden_test_scoring;
+    this.hidden_test_visibility = data.hidden_test_visibility;
+    this.input_generator = data.input_generator ?? null;
+    this.function_signature = data.function_signature ?? null;
+    this.static_analysis = data.static_analysis ?? null;
+    this.project_files = data.project_files ?? null;
+    this.exercise_type = data.exercise_type ?? 'code';
+    this.type_config = data.type_config ?? null;
+    this.variant_group_id = data.variant_group_id ?? null;
+    this.translated_from_id = data.translated_from_id ?? null;
     this.is_published = data.is_published;
     this.created_by = data.created_by;
     this.created_at = new Date(data.created_at);
@@ -52,6 +76,18 @@ export class Exercise {
       order_index: this.order_index,
       points: this.points,
       time_limit_seconds: this.time_limit_seconds,
+      memory_limit_mb: this.memory_limit_mb,
+      setup_sql: this.setup_sql,
+      hidden_test_scoring: this.hidden_test_scoring,
+      hidden_test_visibility: this.hidden_test_visibility,
+      input_generator: this.input_generator,
+      function_signature: this.function_signature,
+      static_analysis: this.static_analysis,
+      project_files: this.project_files,
+      exercise_type: this.exercise_type,
+      type_config: this.type_config,
+      variant_group_id: this.variant_group_id,
+      translated_from_id: this.translated_from_id,
       is_published: this.is_published,
       created_by: this.created_by,
       created_at: this.created_at,
@@ -106,8 +142,13 @@ export class ExerciseTestCase {
   expected_stdout: string | null;
   points: number;
   is_hidden: boolean;
-  timeout_ms: number;
+  timeout_ms: number | null;
+  memory_limit_mb: number | null;
   order_index: number;
+  setup_sql: string | null;
+  ordered_result: boolean;
+  comparator: string;
+  comparator_options: Record<string, any> | null;
   generated_by_ai: boolean;
   created_by: string;
   created_at: Date;
@@ -123,8 +164,13 @@ export class ExerciseTestCase {
     this.expected_stdout = data.expected_stdout;
     this.points = data.points;
     this.is_hidden = data.is_hidden;
-    this.timeout_ms = data.timeout_ms;
+    this.timeout_ms = data.timeout_ms ?? null;
+    this.memory_limit_mb = data.memory_limit_mb ?? null;
     this.order_index = data.order_index;
+    this.setup_sql = data.setup_sql;
+    this.ordered_result = data.ordered_result;
+    this.comparator = data.comparator || 'exact';
+    this.comparator_options = data.comparator_options ?? null;
     this.generated_by_ai = data.generated_by_ai;
     this.created_by = data.created_by;
     this.created_at = new Date(data.created_at);
@@ -143,7 +189,12 @@ export class ExerciseTestCase {
       points: this.points,
       is_hidden: this.is_hidden,
       timeout_ms: this.timeout_ms,
+      memory_limit_mb: this.memory_limit_mb,
       order_index: this.order_index,
+      setup_sql: this.setup_sql,
+      ordered_result: this.ordered_result,
+      comparator: this.comparator,
+      comparator_options: this.comparator_options,
       generated_by_ai: this.generated_by_ai,
       created_by: this.created_by,
       created_at: this.created_at,
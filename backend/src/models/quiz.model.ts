@@ -59,24 +59,34 @@ export class Quiz {
 
 export class QuizQuestion {
   id: string;
-  quiz_id: string;
+  quiz_id: string | null; // NULL for bank questions
+  bank_id: string | null;
   question_type: string;
   question_text: string;
   explanation: string | null;
   points: number;
   order_index: number;
   generated_by_ai: boolean;
+  rubric_id: string | null;
+  model_answer: string | null;
+  question_config: Record<string, any> | null;
+  difficulty: string | null;
   created_at: Date;
 
   constructor(data: any) {
     this.id = data.id;
     this.quiz_id = data.quiz_id;
+    this.bank_id = data.bank_id ?? null;
     this.question_type = data.question_type;
     this.question_text = data.question_text;
     this.explanation = data.explanation;
     this.points = data.points;
     this.order_index = data.order_index;
     this.generated_by_ai = data.generated_by_ai;
+    this.rubric_id = data.rubric_id ?? null;
+    this.model_answer = data.model_answer ?? null;
+    this.question_config = data.question_config ?? null;
+    this.difficulty = data.difficulty ?? null;
     this.created_at = new Date(data.created_at);
   }
 
@@ -84,12 +94,17 @@ export class QuizQuestion {
     return {
       id: this.id,
       quiz_id: this.quiz_id,
+      bank_id: this.bank_id,
       question_type: this.question_type,
       question_text: this.question_text,
       explanation: this.explanation,
       points: this.points,
       order_index: this.order_index,
       generated_by_ai: this.generated_by_ai,
+      rubric_id: this.rubric_id,
+      model_answer: this.model_answer,
+      question_config: this.question_config,
+      difficulty: this.difficulty,
       created_at: this.created_at,
     };
   }
@@ -140,6 +155,10 @@ export class QuizAttempt {
   total_points: number | null;
   passed: boolean | null;
   is_completed: boolean;
+  status: string;
+  expires_at: Date | null;
+  question_order: string[] | null;
+  option_order: Record<string, string[]> | null;
   created_at: Date;
 
   constructor(data: any) {
@@ -155,6 +174,10 @@ export class QuizAttempt {
     this.total_points = data.total_points ? parseFloat(data.total_points) : null;
     this.passed = data.passed;
     this.is_completed = data.is_completed;
+    this.status = data.status ?? (data.is_completed ? 'completed' : 'in_progress');
+    this.expires_at = data.expires_at ? new Date(data.expires_at) : null;
+    this.question_order = data.question_order ?? null;
+    this.option_order = data.option_order ?? null;
     this.created_at = new Date(data.created_at);
   }
 
@@ -172,6 +195,81 @@ export class QuizAttempt {
       total_points: this.total_points,
       passed: this.passed,
       is_completed: this.is_completed,
+      status: this.status,
+      expires_at: this.expires_at,
+      created_at: this.created_at,
+    };
+  }
+}
+
+export class QuestionBank {
+  id: string;
+  name: string;
+  description: string | null;
+  topic_id: string | null;
+  curriculum_id: string | null;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+
+  constructor(data: any) {
+    this.id = data.id;
+    this.name = data.name;
+    this.description = data.description;
+    this.topic_id = data.topic_id;
+    this.curriculum_id = data.curriculum_id;
+    this.created_by = data.created_by;
+    this.created_at = new Date(data.created_at);
+    this.updated_at = new Date(data.updated_at);
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      name: this.name,
+      description: this.description,
+      topic_id: this.topic_id,
+      curriculum_id: this.curriculum_id,
+      created_by: this.created_by,
+      created_at: this.created_at,
+      updated_at: this.updated_at,
+    };
+  }
+}
+
+export class QuizDrawRule {
+  id: string;
+  quiz_id: string;
+  bank_id: string;
+  question_count: number;
+  difficulty: string | null;
+  objective_id: string | null;
+  per_objective: boolean;
+  order_index: number;
+  created_at: Date;
+
+  constructor(data: any) {
+    this.id = data.id;
+    this.quiz_id = data.quiz_id;
+    this.bank_id = data.bank_id;
+    this.question_count = data.question_count;
+    this.difficulty = data.difficulty;
+    this.objective_id = data.objective_id;
+    this.per_objective = data.per_objective;
+    this.order_index = data.order_index;
+    this.created_at = new Date(data.created_at);
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      quiz_id: this.quiz_id,
+      bank_id: this.bank_id,
+      question_count: this.question_count,
+      difficulty: this.difficulty,
+      objective_id: this.objective_id,
+      per_objective: this.per_objective,
+      order_index: this.order_index,
       created_at: this.created_at,
     };
   }
@@ -1,6 +1,9 @@
 import { database } from '../config/database.config';
 import { Exercise, ExerciseHint, ExerciseTestCase } from '../models/exercise.model';
 
+// The pool, or the client of a transaction
+type Queryable = Pick<typeof database, 'query'>;
+
 export class ExerciseRepository {
   /**
    * Create a new exercise
@@ -17,26 +20,42 @@ export class ExerciseRepository {
     explanation?: string;
     order_index?: number;
     points?: number;
-    time_limit_seconds?: number;
+    time_limit_seconds?: number | null;
+    memory_limit_mb?: number | null;
+    setup_sql?: string;
+    hidden_test_scoring?: string;
+    hidden_test_visibility?: string;
+    input_generator?: Record<string, any> | null;
+    function_signature?: Record<string, any> | null;
+    static_analysis?: Record<string, any> | null;
+    project_files?: Record<string, any>[] | null;
+    exercise_type?: string;
+    type_config?: Record<string, any> | null;
+    variant_group_id?: string | null;
+    translated_from_id?: string | null;
     is_published?: boolean;
     created_by: string;
-  }): Promise<Exercise> {
+  }, client: Queryable = database): Promise<Exercise> {
     // If order_index not provided, get the next available one
     let orderIndex = exerciseData.order_index;
     if (orderIndex === undefined || orderIndex === null) {
-      const maxOrderResult = await database.query<any>(
+      const maxOrderResult = await client.query<any>(
         'SELECT COALESCE(MAX(order_index), -1) as max_order FROM exercises WHERE topic_id = $1',
         [exerciseData.topic_id]
       );
       orderIndex = (maxOrderResult.rows[0].max_order + 1);
     }
 
-    const result = await database.query<any>(
+    const result = await client.query<any>(
       `INSERT INTO exercises (
         topic_id, title, description, instructions, language, difficulty_level,
         starter_code, solution_code, explanation, order_index, points,
-        time_limit_seconds, is_published, created_by
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+        time_limit_seconds, is_published, created_by, setup_sql,
+        hidden_test_scoring, hidden_test_visibility, input_generator, memory_limit_mb,
+        function_signature, static_analysis, project_files, exercise_type, type_config,
+        variant_group_id, translated_from_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22,
+        $23, $24, $25, $26)
       RETURNING *`,
       [
         exerciseData.topic_id,
@@ -50,9 +69,21 @@ export class ExerciseRepository {
         exerciseData.explanation,
         orderIndex,
         exerciseData.points ?? 10,
-        exerciseData.time_limit_seconds ?? 300,
+        exerciseData.time_limit_seconds ?? null,
         exerciseData.is_published ?? false,
         exerciseData.created_by,
+        exerciseData.setup_sql,
+        exerciseData.hidden_test_scoring ?? 'always',
+        exerciseData.hidden_test_visibility ?? 'summary',
+        exerciseData.input_generator ?? null,
+        exerciseData.memory_limit_mb ?? null,
+        exerciseData.function_signature ?? null,
+        exerciseData.static_analysis ?? null,
+        exerciseData.project_files ? JSON.stringify(exerciseData.project_files) : null,
+        exerciseData.exercise_type ?? 'code',
+        exerciseData.type_config ?? null,
+        exerciseData.variant_group_id ?? null,
+        exerciseData.translated_from_id ?? null,
       ]
     );
     return new Exercise(result.rows[0]);
@@ -81,10 +112,23 @@ export class ExerciseRepository {
     return result.rows.map((row) => new Exercise(row));
   }
 
+  /**
+   * Find the versions of an exercise in other languages
+   */
+  async findVariants(exercise: Exercise, includeUnpublished = false): Promise<Exercise[]> {
+    const result = await database.query<any>(
+      `SELECT * FROM exercises
+       WHERE variant_group_id = $1 AND id <> $2 ${includeUnpublished ? '' : 'AND is_published = true'}
+       ORDER BY language ASC`,
+      [exercise.variant_group_id ?? exercise.id, exercise.id]
+    );
+    return result.rows.map((row) => new Exercise(row));
+  }
+
   /**
    * Update exercise
    */
-  async update(id: string, updates: Partial<Exercise>): Promise<Exercise | null> {
+  async update(id: string, updates: Partial<Exercise>, client: Queryable = database): Promise<Exercise | null> {
     const fields: string[] = [];
     const values: any[] = [];
     let paramCount = 1;
@@ -100,7 +144,7 @@ export class ExerciseRepository {
     if (fields.length === 0) return this.findById(id);
 
     values.push(id);
-    const result = await database.query<any>(
+    const result = await client.query<any>(
       `UPDATE exercises SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP
        WHERE id = $${paramCount} RETURNING *`,
       values
@@ -184,16 +228,21 @@ export class ExerciseRepository {
     points?: number;
     is_hidden?: boolean;
     timeout_ms?: number;
+    memory_limit_mb?: number;
     order_index?: number;
+    setup_sql?: string;
+    ordered_result?: boolean;
+    comparator?: string;
+    comparator_options?: Record<string, any>;
     generated_by_ai?: boolean;
     created_by: string;
-  }): Promise<ExerciseTestCase> {
-    const result = await database.query<any>(
+  }, client: Queryable = database): Promise<ExerciseTestCase> {
+    const result = await client.query<any>(
       `INSERT INTO exercise_test_cases (
         exercise_id, test_name, test_type, input_data, expected_output,
         stdin, expected_stdout, points, is_hidden, timeout_ms, order_index,
-        generated_by_ai, created_by
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        generated_by_ai, created_by, setup_sql, ordered_result, comparator, comparator_options, memory_limit_mb
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
       RETURNING *`,
       [
         testCaseData.exercise_id,
@@ -205,10 +254,15 @@ export class ExerciseRepository {
         testCaseData.expected_stdout,
         testCaseData.points ?? 1,
         testCaseData.is_hidden ?? false,
-        testCaseData.timeout_ms ?? 5000,
+        testCaseData.timeout_ms ?? null,
         testCaseData.order_index ?? 0,
         testCaseData.generated_by_ai ?? false,
         testCaseData.created_by,
+        testCaseData.setup_sql,
+        testCaseData.ordered_result ?? false,
+        testCaseData.comparator || 'exact',
+        testCaseData.comparator_options ?? null,
+        testCaseData.memory_limit_mb ?? null,
       ]
     );
     return new ExerciseTestCase(result.rows[0]);
@@ -0,0 +1,233 @@
+import { database } from '../config/database.config';
+import { QuestionBank, QuizDrawRule, QuizQuestion, QuizQuestionOption } from '../models/quiz.model';
+import { DrawCandidate, DrawRule } from '../services/quiz/question.draw';
+
+export interface BankQuestion {
+  question: QuizQuestion;
+  options: QuizQuestionOption[];
+  objective_ids: string[];
+}
+
+export class QuestionBankRepository {
+  /**
+   * Create a question bank for a topic or a curriculum
+   */
+  async create(bankData: {
+    name: string;
+    description?: string;
+    topic_id?: string;
+    curriculum_id?: string;
+    created_by: string;
+  }): Promise<QuestionBank> {
+    const result = await database.query<any>(
+      `INSERT INTO question_banks (name, description, topic_id, curriculum_id, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [bankData.name, bankData.description, bankData.topic_id, bankData.curriculum_id, bankData.created_by]
+    );
+    return new QuestionBank(result.rows[0]);
+  }
+
+  async findById(id: string): Promise<QuestionBank | null> {
+    const result = await database.query<any>('SELECT * FROM question_banks WHERE id = $1', [id]);
+    return result.rows[0] ? new QuestionBank(result.rows[0]) : null;
+  }
+
+  /**
+   * Banks usable in a topic's quizzes: the topic's own and its curriculum's,
+   * with how many questions each holds
+   */
+  async findForTopic(topicId: string): Promise<Array<QuestionBank & { question_count: number }>> {
+    const result = await database.query<any>(
+      `SELECT b.*, (SELECT COUNT(*) FROM quiz_questions q WHERE q.bank_id = b.id) AS question_count
+       FROM question_banks b
+       WHERE b.topic_id = $1
+          OR b.curriculum_id = (SELECT curriculum_id FROM topics WHERE id = $1)
+       ORDER BY b.topic_id NULLS LAST, b.name ASC`,
+      [topicId]
+    );
+    return result.rows.map((row) =>
+      Object.assign(new QuestionBank(row), { question_count: parseInt(row.question_count) })
+    );
+  }
+
+  /**
+   * Whether a bank is usable in a topic's quizzes
+   */
+  async isUsableForTopic(bankId: string, topicId: string): Promise<boolean> {
+    const result = await database.query<any>(
+      `SELECT 1 FROM question_banks b
+       WHERE b.id = $1
+         AND (b.topic_id = $2 OR b.curriculum_id = (SELECT curriculum_id FROM topics WHERE id = $2))`,
+      [bankId, topicId]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * How many of the learning objectives belong to the bank's topic or curriculum
+   */
+  async countObjectivesInScope(bank: QuestionBank, objectiveIds: string[]): Promise<number> {
+    const result = await database.query<{ count: string }>(
+      `SELECT COUNT(*) AS count
+       FROM learning_objectives lo
+       JOIN topics t ON lo.topic_id = t.id
+       WHERE lo.id = ANY($1) AND (t.id = $2 OR t.curriculum_id = $3)`,
+      [objectiveIds, bank.topic_id, bank.curriculum_id]
+    );
+    return parseInt(result.rows[0].count);
+  }
+
+  /**
+   * Add a question with its options and learning objectives to a bank
+   */
+  async addQuestion(
+    bankId: string,
+    questionData: {
+      question_type: string;
+      question_text: string;
+      explanation?: string;
+      points?: number;
+      difficulty?: string | null;
+      rubric_id?: string;
+      model_answer?: string;
+      question_config?: Record<string, any> | null;
+    },
+    options: Array<{ text: string; isCorrect: boolean; explanation?: string }>,
+    objectiveIds: string[]
+  ): Promise<BankQuestion> {
+    return database.transaction(async (client) => {
+      const questionResult = await client.query(
+        `INSERT INTO quiz_questions (
+          bank_id, question_type, question_text, explanation, points, difficulty,
+          rubric_id, model_answer, question_config, order_index
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9,
+          (SELECT COALESCE(MAX(order_index) + 1, 0) FROM quiz_questions WHERE bank_id = $1))
+        RETURNING *`,
+        [
+          bankId,
+          questionData.question_type,
+          questionData.question_text,
+          questionData.explanation,
+          questionData.points || 1,
+          questionData.difficulty ?? null,
+          questionData.rubric_id ?? null,
+          questionData.model_answer ?? null,
+          questionData.question_config ? JSON.stringify(questionData.question_config) : null,
+        ]
+      );
+      const question = new QuizQuestion(questionResult.rows[0]);
+
+      const createdOptions: QuizQuestionOption[] = [];
+      for (const [index, option] of options.entries()) {
+        const optionResult = await client.query(
+          `INSERT INTO quiz_question_options (question_id, option_text, is_correct, explanation, order_index)
+           VALUES ($1, $2, $3, $4, $5)
+           RETURNING *`,
+          [question.id, option.text.trim(), option.isCorrect === true, option.explanation, index]
+        );
+        createdOptions.push(new QuizQuestionOption(optionResult.rows[0]));
+      }
+
+      for (const objectiveId of objectiveIds) {
+        await client.query(
+          `INSERT INTO quiz_question_objectives (question_id, objective_id)
+           VALUES ($1, $2) ON CONFLICT DO NOTHING`,
+          [question.id, objectiveId]
+        );
+      }
+
+      return { question, options: createdOptions, objective_ids: objectiveIds };
+    });
+  }
+
+  /**
+   * Get the questions of a bank with their options and learning objectives
+   */
+  async getQuestions(bankId: string): Promise<BankQuestion[]> {
+    const questionResult = await database.query<any>(
+      `SELECT q.*,
+              ARRAY(SELECT o.objective_id FROM quiz_question_objectives o WHERE o.question_id = q.id) AS objective_ids
+       FROM quiz_questions q
+       WHERE q.bank_id = $1
+       ORDER BY q.order_index ASC`,
+      [bankId]
+    );
+    const optionResult = await database.query<any>(
+      `SELECT o.* FROM quiz_question_options o
+       JOIN quiz_questions q ON o.question_id = q.id
+       WHERE q.bank_id = $1
+       ORDER BY o.order_index ASC`,
+      [bankId]
+    );
+
+    return questionResult.rows.map((row) => ({
+      question: new QuizQuestion(row),
+      options: optionResult.rows
+        .filter((option) => option.question_id === row.id)
+        .map((option) => new QuizQuestionOption(option)),
+      objective_ids: row.objective_ids,
+    }));
+  }
+
+  /**
+   * Delete a question of a bank. Answers given to it in earlier attempts
+   * are deleted with it.
+   */
+  async deleteQuestion(bankId: string, questionId: string): Promise<boolean> {
+    const result = await database.query(
+      'DELETE FROM quiz_questions WHERE id = $1 AND bank_id = $2',
+      [questionId, bankId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * The questions of the banks as draw candidates
+   */
+  async getDrawCandidates(bankIds: string[]): Promise<DrawCandidate[]> {
+    const result = await database.query<any>(
+      `SELECT q.id, q.bank_id, q.difficulty,
+              ARRAY(SELECT o.objective_id FROM quiz_question_objectives o WHERE o.question_id = q.id) AS objective_ids
+       FROM quiz_questions q
+       WHERE q.bank_id = ANY($1)`,
+      [bankIds]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Get the draw rules of a quiz, in order
+   */
+  async getDrawRules(quizId: string): Promise<QuizDrawRule[]> {
+    const result = await database.query<any>(
+      'SELECT * FROM quiz_draw_rules WHERE quiz_id = $1 ORDER BY order_index ASC',
+      [quizId]
+    );
+    return result.rows.map((row) => new QuizDrawRule(row));
+  }
+
+  /**
+   * Replace the draw rules of a quiz
+   */
+  async replaceDrawRules(quizId: string, rules: DrawRule[]): Promise<QuizDrawRule[]> {
+    return database.transaction(async (client) => {
+      await client.query('DELETE FROM quiz_draw_rules WHERE quiz_id = $1', [quizId]);
+
+      const saved: QuizDrawRule[] = [];
+      for (const [index, rule] of rules.entries()) {
+        const result = await client.query(
+          `INSERT INTO quiz_draw_rules (
+            quiz_id, bank_id, question_count, difficulty, objective_id, per_objective, order_index
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+          RETURNING *`,
+          [quizId, rule.bank_id, rule.question_count, rule.difficulty, rule.objective_id, rule.per_objective, index]
+        );
+        saved.push(new QuizDrawRule(result.rows[0]));
+      }
+      return saved;
+    });
+  }
+}
+
+export const questionBankRepository = new QuestionBankRepository();
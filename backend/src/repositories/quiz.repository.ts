@@ -1,5 +1,50 @@
 import { database } from '../config/database.config';
 import { Quiz, QuizQuestion, QuizQuestionOption, QuizAttempt } from '../models/quiz.model';
+import { CriterionScore, GradingStatus, WRITTEN_QUESTION_TYPES } from '../services/ai/rubric.grading';
+import { answerCredit, QuestionConfig } from '../services/quiz/question.types';
+import { ANSWER_GRACE_SECONDS, AttemptOrder } from '../services/quiz/attempt.rules';
+import { ItemResponse } from '../services/quiz/item.analysis';
+
+/**
+ * A written answer with what grading it needs: the question, its rubric and
+ * the quiz whose creator's AI provider grades it
+ */
+export interface WrittenAnswer {
+  id: string;
+  attempt_id: string;
+  question_id: string;
+  text_answer: string | null;
+  grading_status: GradingStatus;
+  criterion_scores: CriterionScore[] | null;
+  ai_points: number | null;
+  points_earned: number;
+  question_type: string;
+  question_text: string;
+  explanation: string | null;
+  model_answer: string | null;
+  rubric_id: string | null;
+  question_points: number;
+  quiz_id: string;
+  quiz_created_by: string;
+  ai_provider_id: string | null;
+}
+
+const WRITTEN_ANSWER_SELECT = `
+  SELECT qa.id, qa.attempt_id, qa.question_id, qa.text_answer, qa.grading_status,
+         qa.criterion_scores, qa.ai_points, qa.points_earned,
+         q.question_type, q.question_text, q.explanation, q.model_answer, q.rubric_id,
+         q.points AS question_points,
+         qz.id AS quiz_id, qz.created_by AS quiz_created_by, qz.ai_provider_id
+  FROM quiz_attempt_answers qa
+  JOIN quiz_questions q ON qa.question_id = q.id
+  JOIN quiz_attempts qat ON qa.attempt_id = qat.id
+  JOIN quizzes qz ON qat.quiz_id = qz.id`;
+
+const toWrittenAnswer = (row: any): WrittenAnswer => ({
+  ...row,
+  ai_points: row.ai_points === null ? null : parseFloat(row.ai_points),
+  points_earned: parseFloat(row.points_earned || 0),
+});
 
 export class QuizRepository {
   /**
@@ -119,11 +164,15 @@ export class QuizRepository {
     points?: number;
     order_index?: number;
     generated_by_ai?: boolean;
+    rubric_id?: string;
+    model_answer?: string;
+    question_config?: QuestionConfig | null;
   }): Promise<QuizQuestion> {
     const result = await database.query<any>(
       `INSERT INTO quiz_questions (
-        quiz_id, question_type, question_text, explanation, points, order_index, generated_by_ai
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        quiz_id, question_type, question_text, explanation, points, order_index, generated_by_ai,
+        rubric_id, model_answer, question_config
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
       RETURNING *`,
       [
         questionData.quiz_id,
@@ -133,6 +182,9 @@ export class QuizRepository {
         questionData.points || 1,
         questionData.order_index ?? 0,
         questionData.generated_by_ai ?? false,
+        questionData.rubric_id,
+        questionData.model_answer,
+        questionData.question_config ? JSON.stringify(questionData.question_config) : null,
       ]
     );
     return new QuizQuestion(result.rows[0]);
@@ -149,6 +201,17 @@ export class QuizRepository {
     return result.rows.map((row) => new QuizQuestion(row));
   }
 
+  /**
+   * Get questions by id, from quizzes or banks
+   */
+  async getQuestionsByIds(questionIds: string[]): Promise<QuizQuestion[]> {
+    const result = await database.query<any>(
+      'SELECT * FROM quiz_questions WHERE id = ANY($1)',
+      [questionIds]
+    );
+    return result.rows.map((row) => new QuizQuestion(row));
+  }
+
   /**
    * Add option to question
    */
@@ -187,9 +250,15 @@ export class QuizRepository {
   }
 
   /**
-   * Start a quiz attempt
+   * Start a quiz attempt with its question and option order. The deadline
+   * is set by the database clock, which also closes attempts.
    */
-  async startAttempt(userId: string, quizId: string): Promise<QuizAttempt> {
+  async startAttempt(
+    userId: string,
+    quizId: string,
+    order: AttemptOrder,
+    timeLimitMinutes: number | null
+  ): Promise<QuizAttempt> {
     // Get attempt number
     const countResult = await database.query<{ count: string }>(
       'SELECT COUNT(*) as count FROM quiz_attempts WHERE user_id = $1 AND quiz_id = $2',
@@ -198,51 +267,110 @@ export class QuizRepository {
     const attemptNumber = parseInt(countResult.rows[0].count) + 1;
 
     const result = await database.query<any>(
-      `INSERT INTO quiz_attempts (quiz_id, user_id, attempt_number)
-       VALUES ($1, $2, $3) RETURNING *`,
-      [quizId, userId, attemptNumber]
+      `INSERT INTO quiz_attempts (quiz_id, user_id, attempt_number, question_order, option_order, expires_at)
+       VALUES ($1, $2, $3, $4, $5,
+         CASE WHEN $6::int > 0 THEN CURRENT_TIMESTAMP + make_interval(mins => $6::int) END)
+       RETURNING *`,
+      [quizId, userId, attemptNumber, order.questionOrder, JSON.stringify(order.optionOrder), timeLimitMinutes]
     );
     return new QuizAttempt(result.rows[0]);
   }
 
+  async findAttemptById(attemptId: string): Promise<QuizAttempt | null> {
+    const result = await database.query<any>('SELECT * FROM quiz_attempts WHERE id = $1', [attemptId]);
+    return result.rows[0] ? new QuizAttempt(result.rows[0]) : null;
+  }
+
   /**
-   * Submit answer for quiz attempt
+   * The learner's attempt at a quiz that is still in progress, if any
+   */
+  async findInProgressAttempt(userId: string, quizId: string): Promise<QuizAttempt | null> {
+    const result = await database.query<any>(
+      `SELECT * FROM quiz_attempts
+       WHERE user_id = $1 AND quiz_id = $2 AND status = 'in_progress'`,
+      [userId, quizId]
+    );
+    return result.rows[0] ? new QuizAttempt(result.rows[0]) : null;
+  }
+
+  /**
+   * Submit answer for quiz attempt. Choice and code-review answers are graded
+   * right away, with partial credit where the question allows it. Written
+   * answers score nothing until they are graded: they wait as pending for
+   * the AI grader.
+   *
+   * Returns false, saving nothing, when the attempt no longer accepts
+   * answers: it is completed or past its deadline.
    */
   async submitAnswer(answerData: {
     attempt_id: string;
     question_id: string;
     selected_option_id?: string;
+    selected_option_ids?: string[];
+    selected_lines?: number[];
     text_answer?: string;
-  }): Promise<void> {
+    time_spent_seconds?: number;
+  }): Promise<boolean> {
     // Get question details
     const questionResult = await database.query<any>(
-      'SELECT points FROM quiz_questions WHERE id = $1',
+      'SELECT points, question_type, question_config FROM quiz_questions WHERE id = $1',
       [answerData.question_id]
     );
-    const questionPoints = questionResult.rows[0]?.points || 0;
-
-    let isCorrect = false;
+    const question = questionResult.rows[0];
+    const questionPoints = question?.points || 0;
+    const gradingStatus = WRITTEN_QUESTION_TYPES.includes(question?.question_type)
+      && answerData.text_answer?.trim()
+      ? 'pending'
+      : null;
+
+    let isCorrect: boolean | null = gradingStatus ? null : false;
     let pointsEarned = 0;
+    let selectedOptionIds: string[] | null = null;
 
-    if (answerData.selected_option_id) {
-      // Check if selected option is correct
+    if (question && !gradingStatus) {
       const optionResult = await database.query<any>(
-        'SELECT is_correct FROM quiz_question_options WHERE id = $1',
-        [answerData.selected_option_id]
+        'SELECT id, is_correct FROM quiz_question_options WHERE question_id = $1',
+        [answerData.question_id]
       );
-      isCorrect = optionResult.rows[0]?.is_correct || false;
-      pointsEarned = isCorrect ? questionPoints : 0;
+      // Only options of this question are kept
+      selectedOptionIds = answerData.selected_option_ids?.filter(
+        (id) => optionResult.rows.some((option) => option.id === id)
+      ) ?? null;
+      const credit = answerCredit(question.question_type, question.question_config, optionResult.rows, {
+        selectedOptionId: answerData.selected_option_id,
+        selectedOptionIds: answerData.selected_option_ids,
+        selectedLines: answerData.selected_lines,
+      });
+      isCorrect = credit === 1;
+      pointsEarned = Math.round(credit * questionPoints * 100) / 100;
     }
 
-    await database.query(
+    const result = await database.query(
       `INSERT INTO quiz_attempt_answers (
-        attempt_id, question_id, selected_option_id, text_answer, is_correct, points_earned
-      ) VALUES ($1, $2, $3, $4, $5, $6)
+        attempt_id, question_id, selected_option_id, text_answer, is_correct, points_earned,
+        grading_status, selected_option_ids, selected_lines, time_spent_seconds
+      )
+      SELECT $1::uuid, $2::uuid, $3::uuid, $4::text, $5::boolean, $6::numeric, $7::text, $8::uuid[], $9::int[],
+             $11::int
+      FROM quiz_attempts
+      WHERE id = $1 AND status = 'in_progress'
+        AND (expires_at IS NULL OR CURRENT_TIMESTAMP <= expires_at + make_interval(secs => $10))
       ON CONFLICT (attempt_id, question_id) DO UPDATE SET
         selected_option_id = $3,
         text_answer = $4,
         is_correct = $5,
-        points_earned = $6`,
+        points_earned = $6,
+        grading_status = $7,
+        selected_option_ids = $8,
+        selected_lines = $9,
+        time_spent_seconds = COALESCE($11, quiz_attempt_answers.time_spent_seconds),
+        criterion_scores = NULL,
+        ai_points = NULL,
+        ai_feedback = NULL,
+        instructor_feedback = NULL,
+        grading_error = NULL,
+        graded_by = NULL,
+        graded_at = NULL`,
       [
         answerData.attempt_id,
         answerData.question_id,
@@ -250,25 +378,60 @@ export class QuizRepository {
         answerData.text_answer,
         isCorrect,
         pointsEarned,
+        gradingStatus,
+        selectedOptionIds,
+        answerData.selected_lines ?? null,
+        ANSWER_GRACE_SECONDS,
+        answerData.time_spent_seconds ?? null,
       ]
     );
+    return (result.rowCount ?? 0) > 0;
   }
 
   /**
-   * Complete quiz attempt
+   * Complete an attempt in progress. An attempt submitted past its deadline
+   * is closed as expired, at the deadline. Returns null when the attempt is
+   * not in progress.
    */
   async completeAttempt(attemptId: string): Promise<QuizAttempt | null> {
     const result = await database.query<any>(
       `UPDATE quiz_attempts
        SET is_completed = true,
-           submitted_at = CURRENT_TIMESTAMP,
-           time_taken_seconds = EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - started_at))
-       WHERE id = $1 RETURNING *`,
-      [attemptId]
+           status = CASE
+             WHEN CURRENT_TIMESTAMP > expires_at + make_interval(secs => $2) THEN 'expired'
+             ELSE 'completed'
+           END,
+           submitted_at = LEAST(CURRENT_TIMESTAMP, COALESCE(expires_at, CURRENT_TIMESTAMP)),
+           time_taken_seconds = EXTRACT(EPOCH FROM (
+             LEAST(CURRENT_TIMESTAMP, COALESCE(expires_at, CURRENT_TIMESTAMP)) - started_at
+           ))
+       WHERE id = $1 AND status = 'in_progress'
+       RETURNING *`,
+      [attemptId, ANSWER_GRACE_SECONDS]
     );
     return result.rows[0] ? new QuizAttempt(result.rows[0]) : null;
   }
 
+  /**
+   * Close every attempt in progress that ran out of time. Returns the ids
+   * of the attempts closed.
+   */
+  async expireOverdueAttempts(): Promise<string[]> {
+    const result = await database.query<{ id: string }>(
+      `UPDATE quiz_attempts
+       SET is_completed = true,
+           status = 'expired',
+           submitted_at = expires_at,
+           time_taken_seconds = EXTRACT(EPOCH FROM (expires_at - started_at))
+       WHERE status = 'in_progress'
+         AND expires_at IS NOT NULL
+         AND CURRENT_TIMESTAMP > expires_at + make_interval(secs => $1)
+       RETURNING id`,
+      [ANSWER_GRACE_SECONDS]
+    );
+    return result.rows.map((row) => row.id);
+  }
+
   /**
    * Get user's quiz attempts
    */
@@ -282,6 +445,47 @@ export class QuizRepository {
     return result.rows.map((row) => new QuizAttempt(row));
   }
 
+  /**
+   * Closed attempts of a quiz with their answers, for item analysis.
+   * Attempts with written answers still awaiting a grade are left out.
+   */
+  async getAnalyzedAttempts(
+    quizId: string
+  ): Promise<Array<{ id: string; question_order: string[] | null; answers: ItemResponse[] }>> {
+    const attemptResult = await database.query<any>(
+      `SELECT a.id, a.question_order
+       FROM quiz_attempts a
+       WHERE a.quiz_id = $1 AND a.status <> 'in_progress'
+         AND NOT EXISTS (
+           SELECT 1 FROM quiz_attempt_answers qa
+           WHERE qa.attempt_id = a.id AND qa.grading_status IN ('pending', 'failed')
+         )
+       ORDER BY a.submitted_at ASC`,
+      [quizId]
+    );
+    const answerResult = await database.query<any>(
+      `SELECT qa.attempt_id, qa.question_id, qa.points_earned, qa.selected_option_id,
+              qa.selected_option_ids, qa.time_spent_seconds
+       FROM quiz_attempt_answers qa
+       WHERE qa.attempt_id = ANY($1)`,
+      [attemptResult.rows.map((row) => row.id)]
+    );
+
+    return attemptResult.rows.map((attempt) => ({
+      id: attempt.id,
+      question_order: attempt.question_order,
+      answers: answerResult.rows
+        .filter((row) => row.attempt_id === attempt.id)
+        .map((row) => ({
+          question_id: row.question_id,
+          points_earned: parseFloat(row.points_earned || 0),
+          selected_option_ids: row.selected_option_ids
+            ?? (row.selected_option_id ? [row.selected_option_id] : []),
+          time_spent_seconds: row.time_spent_seconds,
+        })),
+    }));
+  }
+
   /**
    * Get user's performance by curriculum
    */
@@ -448,19 +652,159 @@ export class QuizRepository {
 
     const answers = await database.query<any>(
       `SELECT qa.*, q.question_text, q.explanation as question_explanation,
+              q.question_type, q.points as question_points, q.question_config,
+              ARRAY(
+                SELECT so.option_text FROM quiz_question_options so
+                WHERE so.id = ANY(qa.selected_option_ids)
+                ORDER BY so.order_index
+              ) as selected_option_texts,
               o.option_text, o.explanation as option_explanation
        FROM quiz_attempt_answers qa
        JOIN quiz_questions q ON qa.question_id = q.id
        LEFT JOIN quiz_question_options o ON qa.selected_option_id = o.id
-       WHERE qa.attempt_id = $1`,
-      [attemptId]
+       WHERE qa.attempt_id = $1
+       ORDER BY array_position($2::uuid[], qa.question_id) ASC, q.order_index ASC`,
+      [attemptId, attempt.rows[0].question_order]
     );
 
+    // Attempts store the questions they served; older ones served the whole quiz
+    const questionCount = attempt.rows[0].question_order
+      ? attempt.rows[0].question_order.length
+      : (await this.getQuestions(attempt.rows[0].quiz_id)).length;
+
     return {
       ...new QuizAttempt(attempt.rows[0]).toJSON(),
+      question_count: questionCount,
       answers: answers.rows,
     };
   }
+
+  /**
+   * Written answers of an attempt waiting for the AI grader
+   */
+  async getPendingWrittenAnswers(attemptId: string): Promise<WrittenAnswer[]> {
+    const result = await database.query<any>(
+      `${WRITTEN_ANSWER_SELECT}
+       WHERE qa.attempt_id = $1 AND qa.grading_status = 'pending'
+       ORDER BY q.order_index ASC`,
+      [attemptId]
+    );
+    return result.rows.map(toWrittenAnswer);
+  }
+
+  /**
+   * Find a written answer by ID
+   */
+  async findWrittenAnswer(answerId: string): Promise<WrittenAnswer | null> {
+    const result = await database.query<any>(
+      `${WRITTEN_ANSWER_SELECT}
+       WHERE qa.id = $1 AND qa.grading_status IS NOT NULL`,
+      [answerId]
+    );
+    return result.rows[0] ? toWrittenAnswer(result.rows[0]) : null;
+  }
+
+  /**
+   * Store the AI grade of a pending answer. Returns false when the answer is
+   * no longer pending, e.g. because an instructor graded it meanwhile.
+   */
+  async saveAIGrade(answerId: string, grade: {
+    criterion_scores: CriterionScore[];
+    feedback: string;
+    points: number;
+  }): Promise<boolean> {
+    const result = await database.query(
+      `UPDATE quiz_attempt_answers
+       SET grading_status = 'graded', criterion_scores = $2, ai_feedback = $3,
+           ai_points = $4, points_earned = $4, grading_error = NULL, graded_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND grading_status = 'pending'`,
+      [answerId, JSON.stringify(grade.criterion_scores), grade.feedback, grade.points]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Record why the AI could not grade a pending answer
+   */
+  async markGradingFailed(answerId: string, error: string): Promise<void> {
+    await database.query(
+      `UPDATE quiz_attempt_answers
+       SET grading_status = 'failed', grading_error = $2
+       WHERE id = $1 AND grading_status = 'pending'`,
+      [answerId, error]
+    );
+  }
+
+  /**
+   * Put the failed written answers of an attempt back in line for the AI grader.
+   * Returns how many were requeued.
+   */
+  async retryFailedGrading(attemptId: string): Promise<number> {
+    const result = await database.query(
+      `UPDATE quiz_attempt_answers
+       SET grading_status = 'pending', grading_error = NULL
+       WHERE attempt_id = $1 AND grading_status = 'failed'`,
+      [attemptId]
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Store an instructor's grade of a written answer that is not final yet.
+   * Returns false when the answer is already final.
+   */
+  async saveInstructorGrade(answerId: string, grade: {
+    criterion_scores: CriterionScore[];
+    points: number;
+    instructor_feedback: string | null;
+    graded_by: string;
+    final: boolean;
+  }): Promise<boolean> {
+    const result = await database.query(
+      `UPDATE quiz_attempt_answers
+       SET grading_status = $2, criterion_scores = $3, points_earned = $4,
+           instructor_feedback = $5, graded_by = $6, grading_error = NULL,
+           graded_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND grading_status <> 'final'`,
+      [
+        answerId,
+        grade.final ? 'final' : 'graded',
+        JSON.stringify(grade.criterion_scores),
+        grade.points,
+        grade.instructor_feedback,
+        grade.graded_by,
+      ]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Written answers to a quiz's completed attempts that are not final yet,
+   * oldest first
+   */
+  async getAnswersForReview(quizId: string): Promise<any[]> {
+    const result = await database.query<any>(
+      `SELECT qa.id, qa.attempt_id, qa.question_id, qa.text_answer, qa.grading_status,
+              qa.criterion_scores, qa.ai_points, qa.points_earned, qa.ai_feedback,
+              qa.instructor_feedback, qa.grading_error, qa.graded_at,
+              q.question_type, q.question_text, q.points AS question_points,
+              a.user_id, a.attempt_number, a.submitted_at,
+              u.first_name, u.last_name, u.email
+       FROM quiz_attempt_answers qa
+       JOIN quiz_questions q ON qa.question_id = q.id
+       JOIN quiz_attempts a ON qa.attempt_id = a.id
+       JOIN users u ON a.user_id = u.id
+       WHERE a.quiz_id = $1 AND a.is_completed = true
+         AND qa.grading_status IS NOT NULL AND qa.grading_status <> 'final'
+       ORDER BY a.submitted_at ASC, array_position(a.question_order, q.id) ASC, q.order_index ASC`,
+      [quizId]
+    );
+    return result.rows.map((row) => ({
+      ...row,
+      ai_points: row.ai_points === null ? null : parseFloat(row.ai_points),
+      points_earned: parseFloat(row.points_earned || 0),
+    }));
+  }
 }
 
 export const quizRepository = new QuizRepository();
@@ -0,0 +1,91 @@
+import { database } from '../config/database.config';
+import { Rubric, RubricCriterion } from '../models/evaluation.model';
+
+export interface RubricCriterionInput {
+  name: string;
+  description?: string;
+  maxPoints: number;
+  weight?: number;
+  levels?: Array<{ level: string; points: number; description: string }> | null;
+}
+
+export class RubricRepository {
+  /**
+   * Create a rubric with its criteria. The rubric's max score is the sum of
+   * the criteria's points.
+   */
+  async create(rubricData: {
+    name: string;
+    description?: string;
+    topic_id?: string;
+    created_by: string;
+    criteria: RubricCriterionInput[];
+  }): Promise<{ rubric: Rubric; criteria: RubricCriterion[] }> {
+    return database.transaction(async (client) => {
+      const maxScore = rubricData.criteria.reduce((sum, criterion) => sum + criterion.maxPoints, 0);
+      const rubricResult = await client.query(
+        `INSERT INTO rubrics (name, description, topic_id, max_score, created_by)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [rubricData.name, rubricData.description, rubricData.topic_id, maxScore, rubricData.created_by]
+      );
+      const rubric = new Rubric(rubricResult.rows[0]);
+
+      const criteria: RubricCriterion[] = [];
+      for (const [index, criterion] of rubricData.criteria.entries()) {
+        const criterionResult = await client.query(
+          `INSERT INTO rubric_criteria (
+            rubric_id, criterion_name, description, max_points, weight, levels, order_index
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+          RETURNING *`,
+          [
+            rubric.id,
+            criterion.name.trim(),
+            criterion.description,
+            criterion.maxPoints,
+            criterion.weight ?? 1,
+            criterion.levels ? JSON.stringify(criterion.levels) : null,
+            index,
+          ]
+        );
+        criteria.push(new RubricCriterion(criterionResult.rows[0]));
+      }
+
+      return { rubric, criteria };
+    });
+  }
+
+  /**
+   * Find rubric by ID
+   */
+  async findById(id: string): Promise<Rubric | null> {
+    const result = await database.query<any>('SELECT * FROM rubrics WHERE id = $1', [id]);
+    return result.rows[0] ? new Rubric(result.rows[0]) : null;
+  }
+
+  /**
+   * Rubrics usable for a topic: the topic's own and the global ones
+   */
+  async findForTopic(topicId: string): Promise<Rubric[]> {
+    const result = await database.query<any>(
+      `SELECT * FROM rubrics
+       WHERE topic_id = $1 OR topic_id IS NULL
+       ORDER BY topic_id NULLS LAST, name ASC`,
+      [topicId]
+    );
+    return result.rows.map((row) => new Rubric(row));
+  }
+
+  /**
+   * Get the criteria of a rubric, in order
+   */
+  async getCriteria(rubricId: string): Promise<RubricCriterion[]> {
+    const result = await database.query<any>(
+      'SELECT * FROM rubric_criteria WHERE rubric_id = $1 ORDER BY order_index ASC',
+      [rubricId]
+    );
+    return result.rows.map((row) => new RubricCriterion(row));
+  }
+}
+
+export const rubricRepository = new RubricRepository();
@@ -0,0 +1,132 @@
+import type { AIChatMessage } from '../../types';
+import type { TestResult } from '../codeExecution.service';
+
+// Failing tests beyond this are summarized by count only
+const MAX_FAILING_TESTS = 5;
+const MAX_VALUE_LENGTH = 500;
+
+export interface CodeReview {
+  bugLocation: {
+    line: number | null; // 1-based line in the submitted code, when one stands out
+    description: string;
+  };
+  misconception: string;
+  nudge: string;
+  model: string;
+  reviewedAt: string;
+}
+
+export interface CodeReviewInput {
+  exerciseTitle: string;
+  instructions: string;
+  language: string;
+  code: string;
+  testResults: TestResult[]; // As the learner sees them: hidden tests already redacted
+  errorMessage?: string | null;
+}
+
+const SYSTEM_PROMPT = `You are a programming tutor reviewing a learner's failing submission.
+Help the learner find the problem themselves:
+- Point to where the bug most likely is and what goes wrong there
+- Name the concept the learner seems to misunderstand
+- Give one nudge: a question or hint that leads toward the fix
+Never write corrected code, never give the solution, and do not reveal test
+inputs or expected outputs that are not shown below.
+
+Return ONLY valid JSON with double quotes:
+{
+  "bugLocation": { "line": 3, "description": "..." },
+  "misconception": "...",
+  "nudge": "..."
+}
+Use null for "line" when no single line is to blame.`;
+
+const truncate = (value: unknown): string => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  if (text === undefined) return 'undefined';
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}...` : text;
+};
+
+const describeTest = (result: TestResult): string => {
+  if (result.isHidden && result.expected === null && result.actual === null) {
+    return `- ${result.testName}: failed (hidden test, details not available)`;
+  }
+  const lines = [`- ${result.testName}: failed`];
+  if (result.error) {
+    lines.push(`  Error: ${truncate(result.error)}`);
+  } else {
+    lines.push(`  Expected: ${truncate(result.expected)}`, `  Actual: ${truncate(result.actual)}`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Chat messages asking for feedback on a failing submission. The reference
+ * solution is deliberately not part of the prompt.
+ */
+export function buildCodeReviewMessages(input: CodeReviewInput): AIChatMessage[] {
+  const failing = input.testResults.filter((result) => !result.passed);
+  const numbered = input.code
+    .split('\n')
+    .map((line, index) => `${String(index + 1).padStart(3)} | ${line}`)
+    .join('\n');
+
+  const sections = [
+    `Exercise: ${input.exerciseTitle}`,
+    `Instructions:\n${input.instructions}`,
+    `Submitted ${input.language} code (with line numbers):\n${numbered}`,
+  ];
+  if (input.errorMessage) {
+    sections.push(`Error reported for the whole submission: ${truncate(input.errorMessage)}`);
+  }
+  if (failing.length > 0) {
+    const described = failing.slice(0, MAX_FAILING_TESTS).map(describeTest);
+    if (failing.length > MAX_FAILING_TESTS) {
+      described.push(`- ...and ${failing.length - MAX_FAILING_TESTS} more failing tests`);
+    }
+    sections.push(`Failing tests (${failing.length} of ${input.testResults.length}):\n${described.join('\n')}`);
+  }
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: sections.join('\n\n') },
+  ];
+}
+
+/**
+ * Read the structured review out of the model's reply. Returns null when the
+ * reply has no usable JSON.
+ */
+export function parseCodeReview(content: string, model: string): CodeReview | null {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const location = parsed?.bugLocation && typeof parsed.bugLocation === 'object' ? parsed.bugLocation : {};
+  const line = Number(location.line);
+  const review: CodeReview = {
+    bugLocation: {
+      line: Number.isInteger(line) && line > 0 ? line : null,
+      description: text(location.description) || text(parsed?.bugLocation),
+    },
+    misconception: text(parsed?.misconception),
+    nudge: text(parsed?.nudge),
+    model,
+    reviewedAt: new Date().toISOString(),
+  };
+
+  if (!review.bugLocation.description && !review.misconception && !review.nudge) {
+    return null;
+  }
+  return review;
+}
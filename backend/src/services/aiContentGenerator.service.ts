@@ -6,6 +6,23 @@ import type {
   AIChatCompletionRequest,
   AIChatCompletionResponse
 } from '../types';
+import { Exercise } from '../models/exercise.model';
+import { exerciseRepository } from '../repositories/exercise.repository';
+import { ConflictError, BadRequestError, NotFoundError, ValidationError } from '../utils/errors.util';
+import { codeExecutionService, TestCase } from './codeExecution.service';
+import { CreateExerciseRequest, CreateTestCaseRequest, exerciseService } from './exercise.service';
+import type { InputGenerator } from './execution/random.inputs';
+import type { ExerciseTypeConfig } from './execution/exercise.types';
+import { ExerciseValidationReport } from './execution/exercise.validation';
+import {
+  buildTranslationPrompt,
+  ExerciseTranslation,
+  translatableTestCases,
+  translatedTestCases,
+  translationSupportError,
+  TranslationLanguage,
+  validateTranslation,
+} from './execution/exercise.translation';
 
 export interface GenerateExplanationInput {
   topicId: string;
@@ -64,6 +81,12 @@ export interface GenerateLearningObjectivesInput {
   numObjectives: number; // 3-8 objectives
 }
 
+export interface TranslateExerciseInput {
+  exerciseId: string;
+  targetLanguage: TranslationLanguage;
+  providerId: string;
+}
+
 export class AIContentGeneratorService {
   /**
    * Generate a content variation for a topic (explanation, example, analogy, etc.)
@@ -386,6 +409,124 @@ Return as JSON array:
     }
   }
 
+  /**
+   * Translate an exercise into another language: starter code, solution and
+   * test cases adapted to the target harness. The translated solution is
+   * graded against the translated tests first, and only a valid translation
+   * is saved, as an unpublished version linked to the exercise.
+   */
+  async translateExercise(
+    input: TranslateExerciseInput,
+    userId: string
+  ): Promise<{ exercise: Exercise; validation: ExerciseValidationReport }> {
+    try {
+      const source = await exerciseRepository.findById(input.exerciseId);
+      if (!source) {
+        throw new NotFoundError('Exercise not found');
+      }
+      const supportError = translationSupportError(source, input.targetLanguage);
+      if (supportError) {
+        throw new BadRequestError(supportError);
+      }
+      // Checked again when saving, but no need to ask the AI for a version that exists
+      const existing = await exerciseService.findVariant(source.id, input.targetLanguage);
+      if (existing) {
+        throw new ConflictError(`This exercise already has a ${input.targetLanguage} version`, { exerciseId: existing.id });
+      }
+
+      const testCases = (await exerciseRepository.getTestCases(source.id, true))
+        .map((testCase) => testCase.toJSON() as TestCase);
+      const provider = await AIProviderFactory.getProvider(input.providerId, userId);
+
+      const messages: AIChatMessage[] = [
+        {
+          role: 'system',
+          content: 'You are an expert programming instructor who writes exercises in many languages. Return ONLY valid JSON. Use \\n for newlines in code, not actual line breaks.',
+        },
+        { role: 'user', content: buildTranslationPrompt(source, testCases, input.targetLanguage) },
+      ];
+
+      const response: AIChatCompletionResponse = await provider.sendChatCompletion({
+        messages,
+        temperature: 0.3,
+        max_tokens: 6000,
+      });
+
+      const translation = this.parseJSONResponse(response.content);
+      const translationError = validateTranslation(
+        translation,
+        translatableTestCases(testCases).length,
+        input.targetLanguage
+      );
+      if (translationError) {
+        throw new BadRequestError(`The AI returned an unusable translation: ${translationError}`);
+      }
+      const translated = translation as ExerciseTranslation;
+      const translatedTests = translatedTestCases(testCases, translated);
+
+      const validation = await codeExecutionService.validateExercise(source.id, {
+        language: input.targetLanguage,
+        starterCode: translated.starterCode,
+        solutionCode: translated.solutionCode,
+        functionSignature: translated.functionSignature ?? null,
+        testCases: translatedTests,
+      });
+      if (!validation.valid) {
+        throw new ValidationError('The translated exercise failed validation and was not saved', validation);
+      }
+
+      const exercise = await exerciseService.createVariant(
+        source.id,
+        {
+          title: translated.title,
+          description: translated.description,
+          instructions: translated.instructions,
+          language: input.targetLanguage,
+          difficultyLevel: source.difficulty_level as CreateExerciseRequest['difficultyLevel'],
+          starterCode: translated.starterCode,
+          solutionCode: translated.solutionCode,
+          explanation: source.explanation ?? undefined,
+          points: source.points,
+          timeLimitSeconds: source.time_limit_seconds,
+          memoryLimitMb: source.memory_limit_mb,
+          hiddenTestScoring: source.hidden_test_scoring,
+          hiddenTestVisibility: source.hidden_test_visibility,
+          inputGenerator: source.input_generator as InputGenerator | null,
+          functionSignature: translated.functionSignature ?? null,
+          exerciseType: source.exercise_type,
+          typeConfig: source.type_config as ExerciseTypeConfig | null,
+        },
+        translatedTests.map((testCase) => ({
+          testName: testCase.test_name,
+          testType: testCase.test_type as CreateTestCaseRequest['testType'],
+          inputData: testCase.input_data,
+          expectedOutput: testCase.expected_output,
+          points: testCase.points,
+          isHidden: testCase.is_hidden,
+          comparator: testCase.comparator,
+          comparatorOptions: testCase.comparator_options ?? undefined,
+          timeoutMs: testCase.timeout_ms,
+          memoryLimitMb: testCase.memory_limit_mb,
+        })),
+        userId
+      );
+
+      logger.info('Translated exercise', {
+        sourceId: source.id,
+        exerciseId: exercise.id,
+        from: source.language,
+        to: input.targetLanguage,
+        testCases: translatedTests.length,
+        provider: response.model,
+      });
+
+      return { exercise, validation };
+    } catch (error) {
+      logger.error('Failed to translate exercise', error);
+      throw error;
+    }
+  }
+
   /**
    * Generate topics for a curriculum
    */
@@ -0,0 +1,96 @@
+import { database } from '../config/database.config';
+import { logger } from '../config/logger.config';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.util';
+
+const MAX_DRAFT_BYTES = 1024 * 1024;
+
+export interface CodeDraft {
+  exerciseId: string;
+  code: string;
+  version: number;
+  updatedAt: string;
+}
+
+/**
+ * Autosaved editor contents, one draft per learner and exercise. Drafts are
+ * never graded and stay out of the submission history. Each save names the
+ * version it replaces; a save from a tab that missed a newer save (or a reset)
+ * is rejected with the current draft so the learner can choose which to keep.
+ */
+export class CodeDraftService {
+  async getDraft(exerciseId: string, userId: string): Promise<CodeDraft | null> {
+    const result = await database.query(
+      `SELECT exercise_id, code, version, updated_at FROM code_drafts
+       WHERE exercise_id = $1 AND user_id = $2`,
+      [exerciseId, userId]
+    );
+    return result.rows[0] ? this.toDraft(result.rows[0]) : null;
+  }
+
+  /**
+   * Save the draft. `baseVersion` is the version the editor last loaded or
+   * saved, null when it started without a draft.
+   */
+  async saveDraft(exerciseId: string, userId: string, code: unknown, baseVersion: unknown): Promise<CodeDraft> {
+    if (typeof code !== 'string') {
+      throw new BadRequestError('Code is required');
+    }
+    if (Buffer.byteLength(code) > MAX_DRAFT_BYTES) {
+      throw new BadRequestError('Drafts must not exceed 1 MB');
+    }
+    if (baseVersion !== null && !Number.isInteger(baseVersion)) {
+      throw new BadRequestError('baseVersion must be the version of the draft being replaced, or null');
+    }
+
+    const exerciseQuery = await database.query('SELECT 1 FROM exercises WHERE id = $1', [exerciseId]);
+    if (exerciseQuery.rows.length === 0) {
+      throw new NotFoundError('Exercise not found');
+    }
+
+    const result = baseVersion === null
+      ? await database.query(
+        `INSERT INTO code_drafts (user_id, exercise_id, code)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (user_id, exercise_id) DO NOTHING
+         RETURNING exercise_id, code, version, updated_at`,
+        [userId, exerciseId, code]
+      )
+      : await database.query(
+        `UPDATE code_drafts
+         SET code = $3, version = version + 1, updated_at = NOW()
+         WHERE user_id = $1 AND exercise_id = $2 AND version = $4
+         RETURNING exercise_id, code, version, updated_at`,
+        [userId, exerciseId, code, baseVersion]
+      );
+
+    if (result.rows.length === 0) {
+      const current = await this.getDraft(exerciseId, userId);
+      throw new ConflictError('The code was changed in another tab', { draft: current });
+    }
+    return this.toDraft(result.rows[0]);
+  }
+
+  /**
+   * Drop the draft, e.g. when the learner resets to the starter code
+   */
+  async deleteDraft(exerciseId: string, userId: string): Promise<void> {
+    const result = await database.query(
+      'DELETE FROM code_drafts WHERE exercise_id = $1 AND user_id = $2',
+      [exerciseId, userId]
+    );
+    if ((result.rowCount || 0) > 0) {
+      logger.info('Code draft deleted', { exerciseId, userId });
+    }
+  }
+
+  private toDraft(row: any): CodeDraft {
+    return {
+      exerciseId: row.exercise_id,
+      code: row.code,
+      version: row.version,
+      updatedAt: row.updated_at.toISOString(),
+    };
+  }
+}
+
+export const codeDraftService = new CodeDraftService();
@@ -1,6 +1,58 @@
+import crypto from 'crypto';
 import { database } from '../config/database.config';
+import { env } from '../config/env.config';
 import { logger } from '../config/logger.config';
-import axios from 'axios';
+import { BadRequestError, NotFoundError, TooManyRequestsError } from '../utils/errors.util';
+import { javaScriptRunner } from './execution/javascript.runner';
+import { FunctionSignature, parseHarnessOutput, prepareProgram } from './execution/function.harness';
+import { sqlRunner } from './execution/sql.runner';
+import { ComparatorOptions, ComparatorType, judgeOutput } from './execution/comparators';
+import { ExecutionBackendFactory } from './execution/backend.factory';
+import { ExecutionLanguage, ProjectLanguage } from './execution/execution.backend';
+import { submissionQueue } from './execution/submission.queue';
+import { InputGenerator } from './execution/random.inputs';
+import { RANDOMIZED_TEST_ID, referenceOracle } from './execution/reference.oracle';
+import { buildValidationReport, ExerciseValidationReport, ValidationRun } from './execution/exercise.validation';
+import { ScratchRunOutput, scratchRunner } from './execution/scratch.runner';
+import { exerciseLimits, LimitStatus, limitMessage, ResourceLimits, testCaseLimits } from './execution/resource.limits';
+import { compactValue, generateArgs, generatedInputSpec } from './execution/performance.tests';
+import {
+  ANALYSIS_LANGUAGES,
+  AnalysisLanguage,
+  StaticAnalysisConfig,
+  StaticAnalysisResult,
+  staticAnalyzer,
+  styleDeduction,
+} from './execution/static.analysis';
+import { ProjectFile, projectRunner } from './execution/project.runner';
+import {
+  checkParsonsCode,
+  DebuggingConfig,
+  ExerciseType,
+  ExerciseTypeConfig,
+  FillInBlankConfig,
+  fillBlanks,
+  gradeBlanks,
+  gradeParsonsOrder,
+  isFixed,
+  ParsonsConfig,
+  runnableCode,
+  unpackBlanks,
+} from './execution/exercise.types';
+import {
+  deductPoints,
+  HiddenTestScoring,
+  HiddenTestVisibility,
+  redactTestResults,
+  ScoringPolicy,
+  scoreTestResults,
+  selectTestCases,
+} from './execution/scoring';
+
+// Running submissions older than this are assumed to belong to a dead worker
+const STALE_RUNNING_MINUTES = 10;
+// Reference outputs for generated performance inputs, kept across submissions
+const MAX_CACHED_REFERENCE_OUTPUTS = 50;
 
 export interface TestCase {
   id: string;
@@ -10,6 +62,12 @@ export interface TestCase {
   expected_output: any;
   is_hidden: boolean;
   points: number;
+  setup_sql?: string | null; // SQL exercises: extra setup run after the exercise setup script
+  ordered_result?: boolean; // SQL exercises: compare rows in order
+  comparator?: ComparatorType;
+  comparator_options?: ComparatorOptions | null;
+  timeout_ms?: number | null; // Overrides the exercise time limit
+  memory_limit_mb?: number | null; // Overrides the exercise memory limit
 }
 
 export interface TestResult {
@@ -21,61 +79,126 @@ export interface TestResult {
   error?: string;
   isHidden: boolean;
   points: number;
+  details?: any; // Comparison details, e.g. result-set diff for SQL exercises
+  comparator?: ComparatorType; // How the output was compared with the expected output
+  executionTime?: number; // Milliseconds
+  status?: LimitStatus; // Set when the code was stopped by the time or memory limit
 }
 
 export interface SubmissionResult {
   submissionId: string;
-  status: 'passed' | 'failed' | 'error' | 'timeout';
+  status: 'pending' | 'running' | 'passed' | 'failed' | 'error' | 'timeout';
   passedTests: number;
   totalTests: number;
-  score: number;
+  score: number; // Percentage of available test points
+  pointsEarned: number; // score converted into the exercise points
+  maxPoints: number;
+  isFinal: boolean;
   testResults: TestResult[];
   executionTimeMs?: number;
   errorMessage?: string;
+  compilerOutput?: string; // Compile errors, reported separately from test failures
+  analysis?: StaticAnalysisResult; // Lint findings, when the exercise enables static analysis
+}
+
+// Result of a run-only execution, which is never stored
+export interface CodeRunResult {
+  mode: 'tests' | 'custom';
+  status: GradingOutcome['status'] | ScratchRunOutput['status'];
+  testResults: TestResult[]; // Public test cases; empty for custom input
+  output?: ScratchRunOutput; // Custom input: what the code printed and returned
+  executionTimeMs?: number;
+  errorMessage?: string;
+  compilerOutput?: string;
+  analysis?: StaticAnalysisResult; // The deduction is what a submission would lose
+}
+
+interface GradingOutcome {
+  status: 'passed' | 'failed' | 'error' | 'timeout';
+  testResults: TestResult[];
+  executionTimeMs?: number;
+  errorMessage?: string;
+  compilerOutput?: string;
+}
+
+export type SubmissionLanguage = 'javascript' | 'sql' | ExecutionLanguage;
+
+// Unsaved exercise fields to validate in place of the stored ones
+export interface ExerciseValidationOverrides {
+  language?: SubmissionLanguage;
+  solutionCode?: string | null;
+  starterCode?: string | null;
+  setupSql?: string | null;
+  inputGenerator?: InputGenerator | null;
+  functionSignature?: FunctionSignature | null;
+  projectFiles?: ProjectFile[] | null;
+  exerciseType?: ExerciseType;
+  typeConfig?: ExerciseTypeConfig | null;
+  timeLimitSeconds?: number | null;
+  memoryLimitMb?: number | null;
+  testCases?: TestCase[]; // Unsaved test cases to grade instead of the stored ones
+}
+
+interface GradingContext {
+  language: SubmissionLanguage;
+  policy: ScoringPolicy;
+  testCases: TestCase[];
+  setupSql: string | null;
+  starterCode: string | null;
+  solutionCode: string | null;
+  inputGenerator: InputGenerator | null;
+  functionSignature: FunctionSignature | null; // Java/Python: the function the harness calls
+  staticAnalysis: StaticAnalysisConfig | null;
+  projectFiles: ProjectFile[] | null; // Project exercises run their test suite instead of the test cases
+  includeHiddenTests: boolean; // Whether hidden test files of a project run
+  exerciseType: ExerciseType;
+  typeConfig: ExerciseTypeConfig | null;
+  limits: ResourceLimits; // Exercise limits; test cases may override them
 }
 
 export class CodeExecutionService {
+  private referenceOutputs = new Map<string, any>();
+
   /**
-   * Execute JavaScript code in a sandboxed environment
-   * Note: Actual execution happens in the browser for security
-   * This method validates and stores the submission
+   * Execute JavaScript code in a sandboxed child process and store the submission
+   * Code the learner only wants to try out goes through runCode instead
    */
   async executeJavaScript(
     exerciseId: string,
     userId: string,
     code: string,
-    testResults: TestResult[]
+    isFinal: boolean = false
   ): Promise<SubmissionResult> {
     try {
-      // Fetch test cases from database
-      const testCasesQuery = await database.query<TestCase>(
-        `SELECT * FROM exercise_test_cases
-         WHERE exercise_id = $1
-         ORDER BY order_index`,
-        [exerciseId]
-      );
+      const context = await this.getGradingContext(exerciseId, isFinal);
+      const { policy } = context;
+      const outcome = await this.gradeCode(context, code, 'javascript');
+      const { status, testResults } = outcome;
+      const analysis = await this.analyzeCode(context, code, 'javascript');
 
-      const testCases = testCasesQuery.rows;
-      const passedTests = testResults.filter((r) => r.passed).length;
-      const totalTests = testCases.length;
-      const score = totalTests > 0 ? (passedTests / totalTests) * 100 : 0;
-      const status: 'passed' | 'failed' = score === 100 ? 'passed' : 'failed';
+      const scored = deductPoints(scoreTestResults(testResults, policy.exercisePoints), analysis?.deduction ?? 0);
 
       // Create submission record
       const submissionQuery = await database.query(
         `INSERT INTO code_submissions
-         (exercise_id, user_id, code, language, status, passed_tests, total_tests, score, test_results, executed_at)
-         VALUES ($1, $2, $3, 'javascript', $4, $5, $6, $7, $8, NOW())
+         (exercise_id, user_id, code, language, status, passed_tests, total_tests, score, points_earned,
+          is_final, test_results, execution_time_ms, error_message, static_analysis, executed_at)
+         VALUES ($1, $2, $3, 'javascript', $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW())
          RETURNING id`,
         [
           exerciseId,
           userId,
           code,
           status,
-          passedTests,
-          totalTests,
-          score,
+          scored.passedTests,
+          scored.totalTests,
+          scored.score,
+          scored.pointsEarned,
+          isFinal,
           JSON.stringify(testResults),
+          outcome.executionTimeMs,
+          outcome.errorMessage || null,
+          analysis ? JSON.stringify(analysis) : null,
         ]
       );
 
@@ -85,18 +208,24 @@ export class CodeExecutionService {
         exerciseId,
         userId,
         submissionId,
-        passedTests,
-        totalTests,
-        score,
+        passedTests: scored.passedTests,
+        totalTests: scored.totalTests,
+        score: scored.score,
       });
 
       return {
         submissionId,
         status,
-        passedTests,
-        totalTests,
-        score,
-        testResults,
+        passedTests: scored.passedTests,
+        totalTests: scored.totalTests,
+        score: scored.score,
+        pointsEarned: scored.pointsEarned,
+        maxPoints: policy.exercisePoints,
+        isFinal,
+        testResults: redactTestResults(testResults, policy.hiddenTestVisibility),
+        executionTimeMs: outcome.executionTimeMs,
+        errorMessage: outcome.errorMessage,
+        analysis,
       };
     } catch (error) {
       logger.error('Failed to execute JavaScript code', error);
@@ -105,294 +234,940 @@ export class CodeExecutionService {
   }
 
   /**
-   * Execute Python code using Judge0 API
+   * Queue Python, Java or C++ code for grading by the submission worker
+   * Returns immediately with a pending submission; poll getSubmissionDetails
+   * or subscribe to status events for the result
    */
-  async executePython(
+  async enqueueSubmission(
     exerciseId: string,
     userId: string,
-    code: string
+    code: string,
+    language: ExecutionLanguage,
+    isFinal: boolean = false
   ): Promise<SubmissionResult> {
     try {
-      // Fetch test cases
-      const testCasesQuery = await database.query<TestCase>(
-        `SELECT * FROM exercise_test_cases
-         WHERE exercise_id = $1
-         ORDER BY order_index`,
-        [exerciseId]
-      );
+      const { policy, testCases, inputGenerator, projectFiles } = await this.getGradingContext(exerciseId, isFinal);
+      // A project's tests are only known once its suite has run
+      const totalTests = projectFiles ? 0 : testCases.length + (inputGenerator ? 1 : 0);
 
-      const testCases = testCasesQuery.rows;
-      const testResults: TestResult[] = [];
-      let passedTests = 0;
-
-      // Execute code against each test case using Judge0
-      for (const testCase of testCases) {
-        try {
-          const result = await this.executeWithJudge0(
-            code,
-            'python',
-            testCase.input_data,
-            testCase.expected_output
-          );
+      const submissionId = await database.transaction(async (client) => {
+        // Serialize submissions per user so the concurrency check cannot race
+        await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [userId]);
 
-          const passed = result.passed;
-          if (passed) passedTests++;
-
-          testResults.push({
-            testCaseId: testCase.id,
-            testName: testCase.test_name,
-            passed,
-            actual: result.output,
-            expected: testCase.expected_output,
-            error: result.error,
-            isHidden: testCase.is_hidden,
-            points: testCase.points,
-          });
-        } catch (error: any) {
-          testResults.push({
-            testCaseId: testCase.id,
-            testName: testCase.test_name,
-            passed: false,
-            actual: null,
-            expected: testCase.expected_output,
-            error: error.message,
-            isHidden: testCase.is_hidden,
-            points: testCase.points,
-          });
+        const activeQuery = await client.query<{ count: string }>(
+          `SELECT COUNT(*) AS count FROM code_submissions
+           WHERE user_id = $1 AND status IN ('pending', 'running')`,
+          [userId]
+        );
+        const active = parseInt(activeQuery.rows[0].count, 10);
+        if (active >= env.SUBMISSION_MAX_ACTIVE_PER_USER) {
+          throw new TooManyRequestsError(
+            `You already have ${active} submission(s) being graded. Please wait for them to finish.`
+          );
         }
-      }
 
-      const totalTests = testCases.length;
-      const score = totalTests > 0 ? (passedTests / totalTests) * 100 : 0;
-      const status: 'passed' | 'failed' = score === 100 ? 'passed' : 'failed';
-
-      // Create submission record
-      const submissionQuery = await database.query(
-        `INSERT INTO code_submissions
-         (exercise_id, user_id, code, language, status, passed_tests, total_tests, score, test_results, executed_at)
-         VALUES ($1, $2, $3, 'python', $4, $5, $6, $7, $8, NOW())
-         RETURNING id`,
-        [
-          exerciseId,
-          userId,
-          code,
-          status,
-          passedTests,
-          totalTests,
-          score,
-          JSON.stringify(testResults),
-        ]
-      );
+        const insertQuery = await client.query<{ id: string }>(
+          `INSERT INTO code_submissions (exercise_id, user_id, code, language, status, total_tests, is_final)
+           VALUES ($1, $2, $3, $4, 'pending', $5, $6)
+           RETURNING id`,
+          [exerciseId, userId, code, language, totalTests, isFinal]
+        );
+        return insertQuery.rows[0].id;
+      });
 
-      const submissionId = submissionQuery.rows[0].id;
+      await submissionQueue.enqueue(submissionId);
 
-      logger.info('Python code executed', {
+      logger.info('Submission queued', {
         exerciseId,
         userId,
         submissionId,
-        passedTests,
-        totalTests,
-        score,
+        language,
       });
 
       return {
         submissionId,
-        status,
-        passedTests,
+        status: 'pending',
+        passedTests: 0,
         totalTests,
-        score,
-        testResults,
+        score: 0,
+        pointsEarned: 0,
+        maxPoints: policy.exercisePoints,
+        isFinal,
+        testResults: [],
       };
     } catch (error) {
-      logger.error('Failed to execute Python code', error);
+      logger.error('Failed to queue submission', error);
       throw error;
     }
   }
 
   /**
-   * Execute Java code using Judge0 API
+   * Grade a queued submission (called by the submission worker)
    */
-  async executeJava(
-    exerciseId: string,
-    userId: string,
-    code: string
-  ): Promise<SubmissionResult> {
+  async processSubmission(submissionId: string): Promise<void> {
+    // Claim the submission; a duplicate queue entry finds nothing left to claim
+    const claimQuery = await database.query<{
+      exercise_id: string;
+      code: string;
+      language: ExecutionLanguage;
+      is_final: boolean;
+    }>(
+      `UPDATE code_submissions
+       SET status = 'running'
+       WHERE id = $1 AND status = 'pending'
+       RETURNING exercise_id, code, language, is_final`,
+      [submissionId]
+    );
+
+    if (claimQuery.rows.length === 0) {
+      return;
+    }
+
+    const submission = claimQuery.rows[0];
+    await submissionQueue.publishStatus({ submissionId, status: 'running' });
+
+    let outcome: GradingOutcome;
+    let analysis: StaticAnalysisResult | undefined;
+    let exercisePoints = 0;
     try {
-      // Fetch test cases
-      const testCasesQuery = await database.query<TestCase>(
-        `SELECT * FROM exercise_test_cases
-         WHERE exercise_id = $1
-         ORDER BY order_index`,
-        [exerciseId]
+      const context = await this.getGradingContext(submission.exercise_id, submission.is_final);
+      exercisePoints = context.policy.exercisePoints;
+
+      const startTime = Date.now();
+      outcome = await this.gradeCode(context, submission.code, submission.language);
+      outcome.executionTimeMs = Date.now() - startTime;
+      analysis = await this.analyzeCode(context, submission.code, submission.language);
+    } catch (error: any) {
+      logger.error('Failed to grade submission', { submissionId, error });
+      outcome = { status: 'error', testResults: [], errorMessage: 'Grading failed, please resubmit' };
+    }
+
+    const scored = deductPoints(scoreTestResults(outcome.testResults, exercisePoints), analysis?.deduction ?? 0);
+
+    await database.query(
+      `UPDATE code_submissions
+       SET status = $2, passed_tests = $3, total_tests = $4, score = $5, points_earned = $6,
+           test_results = $7, execution_time_ms = $8, error_message = $9, compiler_output = $10,
+           static_analysis = $11, executed_at = NOW()
+       WHERE id = $1`,
+      [
+        submissionId,
+        outcome.status,
+        scored.passedTests,
+        scored.totalTests,
+        scored.score,
+        scored.pointsEarned,
+        JSON.stringify(outcome.testResults),
+        outcome.executionTimeMs ?? null,
+        outcome.errorMessage || null,
+        outcome.compilerOutput || null,
+        analysis ? JSON.stringify(analysis) : null,
+      ]
+    );
+
+    await submissionQueue.publishStatus({ submissionId, status: outcome.status });
+
+    logger.info(`${submission.language} submission graded`, {
+      submissionId,
+      passedTests: scored.passedTests,
+      totalTests: scored.totalTests,
+      score: scored.score,
+    });
+  }
+
+  /**
+   * Put submissions back on the queue after a restart: pending ones may have
+   * been lost with Redis, running ones were interrupted mid-grading
+   */
+  async requeueInterruptedSubmissions(): Promise<number> {
+    const result = await database.query<{ id: string }>(
+      `UPDATE code_submissions
+       SET status = 'pending'
+       WHERE status = 'pending'
+          OR (status = 'running' AND submitted_at < NOW() - ($1 || ' minutes')::interval)
+       RETURNING id`,
+      [STALE_RUNNING_MINUTES]
+    );
+
+    for (const row of result.rows) {
+      await submissionQueue.enqueue(row.id);
+    }
+
+    if (result.rows.length > 0) {
+      logger.info('Requeued interrupted submissions', { count: result.rows.length });
+    }
+    return result.rows.length;
+  }
+
+  /**
+   * Run code without submitting it: against the public test cases, or once on
+   * the learner's custom input. Nothing is stored and randomized tests are skipped.
+   */
+  async runCode(exerciseId: string, code: string, customInput?: string): Promise<CodeRunResult> {
+    const context = await this.getGradingContext(exerciseId, false);
+    const analysis = await this.analyzeCode(context, code, context.language);
+
+    if (customInput !== undefined) {
+      if (context.projectFiles) {
+        throw new BadRequestError('Project exercises run their test suite and do not take custom input');
+      }
+      const output = await scratchRunner.run({
+        language: context.language,
+        code: runnableCode(context.exerciseType, context.typeConfig, code),
+        input: customInput,
+        starterCode: context.starterCode,
+        setupSql: context.setupSql,
+        functionSignature: context.functionSignature,
+        limits: context.limits,
+      });
+      return {
+        mode: 'custom',
+        status: output.status,
+        testResults: [],
+        output,
+        executionTimeMs: output.executionTimeMs,
+        errorMessage: output.errorMessage,
+        compilerOutput: output.compilerOutput,
+        analysis,
+      };
+    }
+
+    const startTime = Date.now();
+    const outcome = await this.gradeCode(
+      {
+        ...context,
+        testCases: context.testCases.filter((tc) => !tc.is_hidden),
+        inputGenerator: null,
+        includeHiddenTests: false,
+      },
+      code,
+      context.language
+    );
+    return {
+      mode: 'tests',
+      status: outcome.status,
+      testResults: outcome.testResults,
+      executionTimeMs: outcome.executionTimeMs ?? Date.now() - startTime,
+      errorMessage: outcome.errorMessage,
+      compilerOutput: outcome.compilerOutput,
+      analysis,
+    };
+  }
+
+  /**
+   * Check that an exercise is ready to publish by grading its reference
+   * solution and starter code against every test case, hidden ones included.
+   * `overrides` replace the stored code so unsaved edits can be validated.
+   * Nothing is stored.
+   */
+  async validateExercise(
+    exerciseId: string,
+    overrides: ExerciseValidationOverrides = {}
+  ): Promise<ExerciseValidationReport> {
+    const stored = await this.getGradingContext(exerciseId, true);
+    const context: GradingContext = {
+      ...stored,
+      language: overrides.language ?? stored.language,
+      testCases: overrides.testCases ?? stored.testCases,
+      setupSql: overrides.setupSql !== undefined ? overrides.setupSql : stored.setupSql,
+      starterCode: overrides.starterCode !== undefined ? overrides.starterCode : stored.starterCode,
+      solutionCode: overrides.solutionCode !== undefined ? overrides.solutionCode : stored.solutionCode,
+      inputGenerator: overrides.inputGenerator !== undefined ? overrides.inputGenerator : stored.inputGenerator,
+      functionSignature: overrides.functionSignature !== undefined
+        ? overrides.functionSignature
+        : stored.functionSignature,
+      projectFiles: overrides.projectFiles !== undefined ? overrides.projectFiles : stored.projectFiles,
+      exerciseType: overrides.exerciseType ?? stored.exerciseType,
+      typeConfig: overrides.typeConfig !== undefined ? overrides.typeConfig : stored.typeConfig,
+      limits: {
+        timeLimitMs: overrides.timeLimitSeconds !== undefined
+          ? exerciseLimits({ time_limit_seconds: overrides.timeLimitSeconds }).timeLimitMs
+          : stored.limits.timeLimitMs,
+        memoryLimitMb: overrides.memoryLimitMb !== undefined
+          ? exerciseLimits({ memory_limit_mb: overrides.memoryLimitMb }).memoryLimitMb
+          : stored.limits.memoryLimitMb,
+      },
+    };
+    const hasInputGenerator = context.language !== 'sql' && context.inputGenerator !== null && !context.projectFiles;
+
+    const grade = async (code: string | null): Promise<ValidationRun | null> => {
+      if (!code?.trim()) {
+        return null;
+      }
+      const outcome = await this.gradeCode(context, code, context.language);
+      const scored = scoreTestResults(outcome.testResults, stored.policy.exercisePoints);
+      return {
+        status: outcome.status,
+        passedTests: scored.passedTests,
+        totalTests: scored.totalTests,
+        testResults: outcome.testResults,
+        errorMessage: outcome.errorMessage,
+        compilerOutput: outcome.compilerOutput,
+      };
+    };
+
+    const solution = await grade(context.solutionCode);
+    const report = buildValidationReport({
+      // A project's tests are the ones its suite reports; blanks and Parsons line order are graded without test cases
+      testCaseCount: context.projectFiles || ['parsons', 'fill_in_blank'].includes(context.exerciseType)
+        ? solution?.totalTests ?? 0
+        : context.testCases.length,
+      hasInputGenerator,
+      minPassingTests: context.exerciseType === 'debugging'
+        ? (context.typeConfig as DebuggingConfig | null)?.minPassingTests
+        : undefined,
+      solution,
+      starterCode: await grade(context.starterCode),
+    });
+
+    logger.info('Exercise validated', {
+      exerciseId,
+      valid: report.valid,
+      problems: report.problems.length,
+    });
+
+    return report;
+  }
+
+  /**
+   * Grade code against the context's test cases and randomized inputs in any
+   * supported language, without storing anything
+   */
+  private async gradeCode(
+    context: GradingContext,
+    code: string,
+    language: SubmissionLanguage
+  ): Promise<GradingOutcome> {
+    const { limits } = context;
+    if (context.exerciseType === 'fill_in_blank' && context.typeConfig) {
+      return this.gradeFillInBlank(context, code, language);
+    }
+    if (context.exerciseType === 'parsons' && context.typeConfig) {
+      const config = context.typeConfig as ParsonsConfig;
+      const error = checkParsonsCode(config, code);
+      if (error) {
+        return { status: 'failed', testResults: [], errorMessage: error };
+      }
+      if (context.testCases.length === 0 && !context.inputGenerator) {
+        const result = gradeParsonsOrder(config, code);
+        return { status: result.passed ? 'passed' : 'failed', testResults: [result] };
+      }
+    }
+    if (context.projectFiles) {
+      return projectRunner.run({
+        language: language as ProjectLanguage,
+        files: context.projectFiles,
+        code,
+        testCases: context.testCases,
+        includeHidden: context.includeHiddenTests,
+        limits,
+      });
+    }
+
+    const { testCases, unavailable } = language === 'sql'
+      ? { testCases: context.testCases, unavailable: [] }
+      : await this.expandGeneratedInputs(context, language);
+
+    let outcome: GradingOutcome;
+    if (language === 'javascript') {
+      const run = await javaScriptRunner.run(code, testCases, limits);
+      outcome = {
+        status: run.timedOut ? 'timeout' : run.error ? 'error' : 'passed',
+        testResults: run.testResults,
+        executionTimeMs: run.executionTimeMs,
+        errorMessage: run.error,
+      };
+    } else if (language === 'sql') {
+      outcome = { status: 'passed', testResults: await sqlRunner.run(context.setupSql, code, context.testCases, limits) };
+    } else if (language === 'cpp' || context.functionSignature) {
+      outcome = await this.gradeWithHarness(code, language, context, testCases, limits);
+    } else {
+      outcome = await this.gradeProgram(code, language, testCases, limits);
+    }
+
+    // Generated inputs are large, and so are their outputs
+    const generated = new Set(context.testCases.filter((tc) => generatedInputSpec(tc)).map((tc) => tc.id));
+    const order = new Map(context.testCases.map((tc, index) => [tc.id, index]));
+    outcome.testResults = [...outcome.testResults, ...unavailable]
+      .sort((a, b) => (order.get(a.testCaseId) ?? 0) - (order.get(b.testCaseId) ?? 0))
+      .map((result) => generated.has(result.testCaseId)
+        ? { ...result, actual: compactValue(result.actual), expected: compactValue(result.expected) }
+        : result);
+
+    if (language !== 'sql') {
+      outcome.testResults.push(...await this.gradeRandomized(context, code, language, outcome.errorMessage));
+    }
+
+    if (outcome.status === 'passed' || outcome.status === 'failed') {
+      const allPassed = outcome.testResults.length > 0 && outcome.testResults.every((r) => r.passed);
+      // A debugging exercise is solved once enough tests pass
+      const solved = context.exerciseType === 'debugging' && context.typeConfig
+        ? isFixed(context.typeConfig as DebuggingConfig, outcome.testResults)
+        : allPassed;
+      outcome.status = solved ? 'passed' : 'failed';
+    }
+    return outcome;
+  }
+
+  /**
+   * Grade each blank against its accepted answers, then run the completed
+   * template against the test cases, if there are any
+   */
+  private async gradeFillInBlank(
+    context: GradingContext,
+    code: string,
+    language: SubmissionLanguage
+  ): Promise<GradingOutcome> {
+    const config = context.typeConfig as FillInBlankConfig;
+    const values = unpackBlanks(config, code);
+    const blankResults = gradeBlanks(config, values);
+
+    let outcome: GradingOutcome = { status: 'passed', testResults: [] };
+    if (context.testCases.length > 0 || context.inputGenerator) {
+      const answers = Object.fromEntries(config.blanks.map((blank) => [blank.id, blank.answers[0]]));
+      outcome = await this.gradeCode(
+        // The randomized tests compare with the template completed with the first answers
+        { ...context, exerciseType: 'code', typeConfig: null, solutionCode: fillBlanks(config.template, answers) },
+        fillBlanks(config.template, values),
+        language
       );
+    }
 
-      const testCases = testCasesQuery.rows;
-      const testResults: TestResult[] = [];
-      let passedTests = 0;
-
-      // Execute code against each test case using Judge0
-      for (const testCase of testCases) {
-        try {
-          const result = await this.executeWithJudge0(
-            code,
-            'java',
-            testCase.input_data,
-            testCase.expected_output
-          );
+    outcome.testResults = [...blankResults, ...outcome.testResults];
+    if (outcome.status === 'passed' || outcome.status === 'failed') {
+      outcome.status = outcome.testResults.every((r) => r.passed) ? 'passed' : 'failed';
+    }
+    return outcome;
+  }
+
+  /**
+   * Run a stdin/stdout program (Python, Java) against each test case
+   */
+  private async gradeProgram(
+    code: string,
+    language: ExecutionLanguage,
+    testCases: TestCase[],
+    limits: ResourceLimits
+  ): Promise<GradingOutcome> {
+    const testResults: TestResult[] = [];
+
+    // Execute code against each test case
+    for (const testCase of testCases) {
+      try {
+        const result = await this.executeTestCase(code, language, testCase, testCaseLimits(limits, testCase));
+
+        testResults.push({
+          testCaseId: testCase.id,
+          testName: testCase.test_name,
+          passed: result.passed,
+          actual: result.output,
+          expected: testCase.expected_output,
+          error: result.error,
+          isHidden: testCase.is_hidden,
+          points: testCase.points,
+          comparator: testCase.comparator || 'exact',
+          executionTime: result.executionTime,
+          status: result.status,
+        });
+      } catch (error: any) {
+        testResults.push({
+          testCaseId: testCase.id,
+          testName: testCase.test_name,
+          passed: false,
+          actual: null,
+          expected: testCase.expected_output,
+          error: error.message,
+          isHidden: testCase.is_hidden,
+          points: testCase.points,
+          comparator: testCase.comparator || 'exact',
+        });
+      }
+    }
+
+    const passed = testResults.length > 0 && testResults.every((r) => r.passed);
+    return { status: passed ? 'passed' : 'failed', testResults };
+  }
+
+  /**
+   * Run C++ code, or Java/Python code of an exercise with a function signature,
+   * against each test case
+   * Function-style solutions are wrapped in a harness that calls the learner's
+   * function with input_data.args; complete programs (with main) read stdin as-is
+   */
+  private async gradeWithHarness(
+    code: string,
+    language: ExecutionLanguage,
+    context: GradingContext,
+    testCases: TestCase[],
+    limits: ResourceLimits
+  ): Promise<GradingOutcome> {
+    const testResults: TestResult[] = [];
+    let compilerOutput: string | undefined;
+    let errorMessage: string | undefined;
+    let program = code;
+    let harness = false;
+
+    const prepared = prepareProgram(language, code, context.starterCode, context.functionSignature);
+    if ('error' in prepared) {
+      errorMessage = prepared.error;
+    } else {
+      ({ program, harness } = prepared);
+    }
+
+    const failedResult = (testCase: TestCase, error?: string): TestResult => ({
+      testCaseId: testCase.id,
+      testName: testCase.test_name,
+      passed: false,
+      actual: null,
+      expected: testCase.expected_output,
+      error,
+      isHidden: testCase.is_hidden,
+      points: testCase.points,
+      comparator: testCase.comparator || 'exact',
+    });
+
+    // Execute code against each test case
+    for (const testCase of testCases) {
+      if (errorMessage) {
+        testResults.push(failedResult(testCase, errorMessage));
+        continue;
+      }
+
+      try {
+        const testLimits = testCaseLimits(limits, testCase);
+        const execution = await ExecutionBackendFactory.getBackend().execute({
+          code: program,
+          language,
+          stdin: JSON.stringify(testCase.input_data ?? {}),
+          cpuTimeLimitSeconds: testLimits.timeLimitMs / 1000,
+          memoryLimitMb: testLimits.memoryLimitMb,
+        });
+
+        if (execution.status === 'compile_error') {
+          // Compilation does not depend on the input, so the remaining tests are skipped
+          compilerOutput = execution.compileOutput || 'Compilation failed';
+          errorMessage = 'Compilation failed';
+          testResults.push(failedResult(testCase, errorMessage));
+          continue;
+        }
 
-          const passed = result.passed;
-          if (passed) passedTests++;
-
-          testResults.push({
-            testCaseId: testCase.id,
-            testName: testCase.test_name,
-            passed,
-            actual: result.output,
-            expected: testCase.expected_output,
-            error: result.error,
-            isHidden: testCase.is_hidden,
-            points: testCase.points,
-          });
-        } catch (error: any) {
-          testResults.push({
-            testCaseId: testCase.id,
-            testName: testCase.test_name,
-            passed: false,
-            actual: null,
-            expected: testCase.expected_output,
-            error: error.message,
-            isHidden: testCase.is_hidden,
-            points: testCase.points,
-          });
+        let passed = false;
+        let actual: any = null;
+        let error: string | undefined;
+        let status: LimitStatus | undefined;
+
+        if (execution.status === 'timeout' || execution.status === 'memory_exceeded') {
+          status = execution.status;
+          error = limitMessage(status, testLimits);
+        } else if (execution.status === 'runtime_error') {
+          error = execution.stderr || 'Runtime error';
+        } else if (!harness) {
+          // Complete program: compare stdout like the other stdin/stdout languages
+          actual = execution.stdout.trim();
+          const comparison = await judgeOutput(testCase, actual, this.expectedStdout(testCase.expected_output));
+          passed = comparison.passed;
+          error = comparison.message;
+        } else {
+          const output = parseHarnessOutput(execution.stdout);
+          if (!output) {
+            error = 'Program did not produce a result';
+          } else {
+            actual = output.result;
+            const comparison = await judgeOutput(testCase, actual, testCase.expected_output?.result);
+            passed = comparison.passed;
+            error = comparison.message;
+          }
         }
+
+        testResults.push({
+          testCaseId: testCase.id,
+          testName: testCase.test_name,
+          passed,
+          actual,
+          expected: testCase.expected_output,
+          error,
+          isHidden: testCase.is_hidden,
+          points: testCase.points,
+          comparator: testCase.comparator || 'exact',
+          executionTime: execution.durationMs,
+          status,
+        });
+      } catch (error: any) {
+        testResults.push(failedResult(testCase, error.message));
       }
+    }
+
+    const passed = testResults.length > 0 && testResults.every((r) => r.passed);
+    return {
+      status: errorMessage ? 'error' : passed ? 'passed' : 'failed',
+      testResults,
+      errorMessage,
+      compilerOutput,
+    };
+  }
+
+  /**
+   * Execute a SQL query against a disposable schema per test case
+   */
+  async executeSql(
+    exerciseId: string,
+    userId: string,
+    code: string,
+    isFinal: boolean = false
+  ): Promise<SubmissionResult> {
+    try {
+      const context = await this.getGradingContext(exerciseId, isFinal);
+      const { policy } = context;
+      const { status, testResults } = await this.gradeCode(context, code, 'sql');
 
-      const totalTests = testCases.length;
-      const score = totalTests > 0 ? (passedTests / totalTests) * 100 : 0;
-      const status: 'passed' | 'failed' = score === 100 ? 'passed' : 'failed';
+      const scored = scoreTestResults(testResults, policy.exercisePoints);
 
       // Create submission record
       const submissionQuery = await database.query(
         `INSERT INTO code_submissions
-         (exercise_id, user_id, code, language, status, passed_tests, total_tests, score, test_results, executed_at)
-         VALUES ($1, $2, $3, 'java', $4, $5, $6, $7, $8, NOW())
+         (exercise_id, user_id, code, language, status, passed_tests, total_tests, score, points_earned,
+          is_final, test_results, executed_at)
+         VALUES ($1, $2, $3, 'sql', $4, $5, $6, $7, $8, $9, $10, NOW())
          RETURNING id`,
         [
           exerciseId,
           userId,
           code,
           status,
-          passedTests,
-          totalTests,
-          score,
+          scored.passedTests,
+          scored.totalTests,
+          scored.score,
+          scored.pointsEarned,
+          isFinal,
           JSON.stringify(testResults),
         ]
       );
 
       const submissionId = submissionQuery.rows[0].id;
 
-      logger.info('Java code executed', {
+      logger.info('SQL code executed', {
         exerciseId,
         userId,
         submissionId,
-        passedTests,
-        totalTests,
-        score,
+        passedTests: scored.passedTests,
+        totalTests: scored.totalTests,
+        score: scored.score,
       });
 
       return {
         submissionId,
         status,
-        passedTests,
-        totalTests,
-        score,
-        testResults,
+        passedTests: scored.passedTests,
+        totalTests: scored.totalTests,
+        score: scored.score,
+        pointsEarned: scored.pointsEarned,
+        maxPoints: policy.exercisePoints,
+        isFinal,
+        testResults: redactTestResults(testResults, policy.hiddenTestVisibility),
       };
     } catch (error) {
-      logger.error('Failed to execute Java code', error);
+      logger.error('Failed to execute SQL code', error);
       throw error;
     }
   }
 
   /**
-   * Execute code using Judge0 API
-   * Note: This requires Judge0 to be set up (self-hosted or cloud)
+   * Lint the code with the exercise's static analysis settings. Analysis only
+   * adds feedback, so a failure is logged and the submission graded without it.
    */
-  private async executeWithJudge0(
+  private async analyzeCode(
+    context: GradingContext,
     code: string,
-    language: string,
-    input: any,
-    expectedOutput: any
-  ): Promise<{ passed: boolean; output: any; error?: string }> {
-    const judge0Url = process.env.JUDGE0_URL || 'http://localhost:2358';
-
-    // Language IDs for Judge0
-    const languageIds: Record<string, number> = {
-      javascript: 63, // Node.js
-      java: 62, // Java (OpenJDK)
-      python: 71, // Python 3
-    };
-
-    const languageId = languageIds[language];
-    if (!languageId) {
-      throw new Error(`Unsupported language: ${language}`);
+    language: SubmissionLanguage
+  ): Promise<StaticAnalysisResult | undefined> {
+    const config = context.staticAnalysis;
+    // Projects are packed files that are not valid code on their own
+    if (!config || context.projectFiles || !ANALYSIS_LANGUAGES.includes(language as AnalysisLanguage)) {
+      return undefined;
     }
 
     try {
-      // Prepare stdin from input data
-      const stdin = typeof input === 'object'
-        ? JSON.stringify(input)
-        : String(input);
-
-      // Submit code to Judge0
-      const submitResponse = await axios.post(`${judge0Url}/submissions?wait=true`, {
-        source_code: Buffer.from(code).toString('base64'),
-        language_id: languageId,
-        stdin: Buffer.from(stdin).toString('base64'),
-        cpu_time_limit: 2,
-        memory_limit: 128000, // 128 MB
-      });
+      const program = runnableCode(context.exerciseType, context.typeConfig, code);
+      const findings = await staticAnalyzer.analyze(language as AnalysisLanguage, program, config);
+      return { findings, deduction: styleDeduction(findings, config, context.policy.exercisePoints) };
+    } catch (error) {
+      logger.warn('Static analysis failed', { language, error });
+      return undefined;
+    }
+  }
 
-      const submission = submitResponse.data;
+  /**
+   * Load the scoring policy and the test cases that apply to a submission
+   */
+  private async getGradingContext(exerciseId: string, isFinal: boolean): Promise<GradingContext> {
+    const exerciseQuery = await database.query<{
+      language: SubmissionLanguage;
+      points: number;
+      hidden_test_scoring: HiddenTestScoring;
+      hidden_test_visibility: HiddenTestVisibility;
+      setup_sql: string | null;
+      starter_code: string | null;
+      solution_code: string | null;
+      input_generator: InputGenerator | null;
+      function_signature: FunctionSignature | null;
+      static_analysis: StaticAnalysisConfig | null;
+      project_files: ProjectFile[] | null;
+      exercise_type: ExerciseType;
+      type_config: ExerciseTypeConfig | null;
+      time_limit_seconds: number | null;
+      memory_limit_mb: number | null;
+    }>(
+      `SELECT language, points, hidden_test_scoring, hidden_test_visibility, setup_sql, starter_code,
+              solution_code, input_generator, function_signature, static_analysis, time_limit_seconds,
+              memory_limit_mb, project_files, exercise_type, type_config
+       FROM exercises WHERE id = $1`,
+      [exerciseId]
+    );
 
-      // Check for compilation/runtime errors
-      if (submission.status.id === 6) {
-        // Compilation error
-        return {
-          passed: false,
-          output: null,
-          error: Buffer.from(submission.compile_output || '', 'base64').toString(),
-        };
+    if (exerciseQuery.rows.length === 0) {
+      throw new NotFoundError('Exercise not found');
+    }
+
+    const exercise = exerciseQuery.rows[0];
+    const policy: ScoringPolicy = {
+      exercisePoints: exercise.points,
+      hiddenTestScoring: exercise.hidden_test_scoring,
+      hiddenTestVisibility: exercise.hidden_test_visibility,
+    };
+
+    // Fetch test cases
+    const testCasesQuery = await database.query<TestCase>(
+      `SELECT * FROM exercise_test_cases
+       WHERE exercise_id = $1
+       ORDER BY order_index`,
+      [exerciseId]
+    );
+
+    return {
+      language: exercise.language,
+      policy,
+      testCases: selectTestCases(testCasesQuery.rows, policy, isFinal),
+      setupSql: exercise.setup_sql,
+      starterCode: exercise.starter_code,
+      solutionCode: exercise.solution_code,
+      inputGenerator: exercise.input_generator,
+      functionSignature: exercise.function_signature,
+      staticAnalysis: exercise.static_analysis,
+      projectFiles: exercise.project_files,
+      includeHiddenTests: policy.hiddenTestScoring !== 'final_only' || isFinal,
+      exerciseType: exercise.exercise_type,
+      typeConfig: exercise.type_config,
+      limits: exerciseLimits(exercise),
+    };
+  }
+
+  /**
+   * Performance tests with a generated input get the actual arguments. Without
+   * an expected output they expect what the reference solution returns on the
+   * same input within the same limits, so a reference that is too slow fails
+   * the test during exercise validation.
+   */
+  private async expandGeneratedInputs(
+    context: GradingContext,
+    language: 'javascript' | ExecutionLanguage
+  ): Promise<{ testCases: TestCase[]; unavailable: TestResult[] }> {
+    const testCases: TestCase[] = [];
+    const unavailable: TestResult[] = [];
+
+    for (const testCase of context.testCases) {
+      const spec = generatedInputSpec(testCase);
+      if (!spec) {
+        testCases.push(testCase);
+        continue;
       }
 
-      if (submission.status.id === 11 || submission.status.id === 12) {
-        // Runtime error or timeout
-        return {
+      const args = generateArgs(spec);
+      if (testCase.expected_output !== null && testCase.expected_output !== undefined) {
+        testCases.push({ ...testCase, input_data: { args } });
+        continue;
+      }
+
+      const reference = await this.referenceOutput(context, language, testCase, args);
+      if ('error' in reference) {
+        unavailable.push({
+          testCaseId: testCase.id,
+          testName: testCase.test_name,
           passed: false,
-          output: null,
-          error: Buffer.from(submission.stderr || '', 'base64').toString(),
-        };
+          actual: null,
+          expected: null,
+          error: reference.error,
+          isHidden: testCase.is_hidden,
+          points: testCase.points,
+          comparator: testCase.comparator || 'exact',
+        });
+      } else {
+        testCases.push({ ...testCase, input_data: { args }, expected_output: reference.expected });
       }
+    }
 
-      // Get stdout
-      const stdout = Buffer.from(submission.stdout || '', 'base64').toString().trim();
+    return { testCases, unavailable };
+  }
 
-      // Compare output
-      const expectedStr = typeof expectedOutput === 'object'
-        ? JSON.stringify(expectedOutput)
-        : String(expectedOutput).trim();
+  /**
+   * Expected output of a generated test, in the shape the test case would
+   * store it: `{ result }` for function-style code, stdout for programs
+   */
+  private async referenceOutput(
+    context: GradingContext,
+    language: 'javascript' | ExecutionLanguage,
+    testCase: TestCase,
+    args: any[]
+  ): Promise<{ expected: any } | { error: string }> {
+    const { solutionCode, starterCode, functionSignature } = context;
+    if (!solutionCode) {
+      return { error: 'This test needs an expected output or a reference solution' };
+    }
 
-      const passed = stdout === expectedStr;
+    const limits = testCaseLimits(context.limits, testCase);
+    const key = crypto
+      .createHash('sha256')
+      .update(JSON.stringify([language, solutionCode, starterCode, functionSignature, testCase.input_data, limits]))
+      .digest('hex');
+    if (this.referenceOutputs.has(key)) {
+      return { expected: this.referenceOutputs.get(key) };
+    }
+
+    const [outcome] = await referenceOracle.referenceOutputs({
+      language,
+      solutionCode,
+      starterCode,
+      functionSignature,
+      inputs: [args],
+      limits,
+    });
+    if (!outcome || outcome.error !== undefined) {
+      logger.warn('Reference solution failed on a generated input', {
+        testCaseId: testCase.id,
+        error: outcome?.error,
+      });
+      return { error: `The reference solution failed on this input: ${outcome?.error || 'no output'}` };
+    }
+
+    const prepared = language === 'javascript' ? null : prepareProgram(language, solutionCode, starterCode, functionSignature);
+    const functionStyle = !prepared || ('harness' in prepared && prepared.harness);
+    const expected = functionStyle ? { result: outcome.output } : outcome.output;
+
+    if (this.referenceOutputs.size >= MAX_CACHED_REFERENCE_OUTPUTS) {
+      this.referenceOutputs.delete(this.referenceOutputs.keys().next().value as string);
+    }
+    this.referenceOutputs.set(key, expected);
+    return { expected };
+  }
 
+  /**
+   * Grade against randomized inputs when the exercise has an input generator,
+   * with solution_code producing the expected outputs. When the submission could
+   * not run at all the randomized tests fail with that error instead.
+   */
+  private async gradeRandomized(
+    context: GradingContext,
+    code: string,
+    language: 'javascript' | ExecutionLanguage,
+    fatalError?: string
+  ): Promise<TestResult[]> {
+    const { inputGenerator, solutionCode } = context;
+    if (!inputGenerator || !solutionCode) {
+      return [];
+    }
+
+    if (fatalError) {
+      return [{
+        testCaseId: RANDOMIZED_TEST_ID,
+        testName: 'Randomized tests',
+        passed: false,
+        actual: null,
+        expected: null,
+        error: fatalError,
+        isHidden: false,
+        points: inputGenerator.points ?? 1,
+        comparator: inputGenerator.comparator || 'exact',
+      }];
+    }
+
+    try {
+      const result = await referenceOracle.run({
+        language,
+        code,
+        solutionCode,
+        starterCode: context.starterCode,
+        functionSignature: context.functionSignature,
+        generator: inputGenerator,
+        limits: context.limits,
+      });
+      return result ? [result] : [];
+    } catch (error) {
+      logger.error('Randomized tests failed to run', error);
+      return [];
+    }
+  }
+
+  /**
+   * Run code against a single test case on the configured execution backend
+   * (Judge0 or local process sandbox, see EXECUTION_BACKEND)
+   */
+  private async executeTestCase(
+    code: string,
+    language: ExecutionLanguage,
+    testCase: TestCase,
+    limits: ResourceLimits
+  ): Promise<{ passed: boolean; output: any; error?: string; status?: LimitStatus; executionTime?: number }> {
+    const input = testCase.input_data;
+
+    // Prepare stdin from input data
+    const stdin = typeof input === 'object'
+      ? JSON.stringify(input)
+      : String(input);
+
+    const execution = await ExecutionBackendFactory.getBackend().execute({
+      code,
+      language,
+      stdin,
+      cpuTimeLimitSeconds: limits.timeLimitMs / 1000,
+      memoryLimitMb: limits.memoryLimitMb,
+    });
+
+    if (execution.status === 'compile_error') {
+      return { passed: false, output: null, error: execution.compileOutput };
+    }
+
+    if (execution.status === 'runtime_error') {
+      return { passed: false, output: null, error: execution.stderr };
+    }
+
+    if (execution.status === 'timeout' || execution.status === 'memory_exceeded') {
       return {
-        passed,
-        output: stdout,
-        error: passed ? undefined : `Expected: ${expectedStr}, Got: ${stdout}`,
+        passed: false,
+        output: null,
+        error: limitMessage(execution.status, limits),
+        status: execution.status,
+        executionTime: execution.durationMs,
       };
-    } catch (error: any) {
-      logger.error('Judge0 execution error', error);
-      throw new Error(`Code execution failed: ${error.message}`);
     }
+
+    const stdout = execution.stdout.trim();
+
+    // Compare output using the test case's comparator
+    const comparison = await judgeOutput(testCase, stdout, this.expectedStdout(testCase.expected_output));
+
+    return {
+      passed: comparison.passed,
+      output: stdout,
+      error: comparison.message,
+      executionTime: execution.durationMs,
+    };
+  }
+
+  /**
+   * Expected output of a stdin/stdout program: structured values are kept for
+   * the comparator, text is trimmed like the program's stdout
+   */
+  private expectedStdout(expectedOutput: any): any {
+    return typeof expectedOutput === 'object' ? expectedOutput : String(expectedOutput).trim();
   }
 
   /**
@@ -404,10 +1179,12 @@ export class CodeExecutionService {
   ): Promise<any[]> {
     try {
       const result = await database.query(
-        `SELECT id, status, passed_tests, total_tests, score, submitted_at, is_best_submission
-         FROM code_submissions
-         WHERE exercise_id = $1 AND user_id = $2
-         ORDER BY submitted_at DESC
+        `SELECT s.id, s.status, s.passed_tests, s.total_tests, s.score, s.points_earned,
+                e.points AS max_points, s.is_final, s.submitted_at, s.is_best_submission
+         FROM code_submissions s
+         JOIN exercises e ON e.id = s.exercise_id
+         WHERE s.exercise_id = $1 AND s.user_id = $2
+         ORDER BY s.submitted_at DESC
          LIMIT 10`,
         [exerciseId, userId]
       );
@@ -425,16 +1202,22 @@ export class CodeExecutionService {
   async getSubmissionDetails(submissionId: string, userId: string): Promise<any> {
     try {
       const result = await database.query(
-        `SELECT * FROM code_submissions
-         WHERE id = $1 AND user_id = $2`,
+        `SELECT s.*, e.points AS max_points, e.hidden_test_visibility
+         FROM code_submissions s
+         JOIN exercises e ON e.id = s.exercise_id
+         WHERE s.id = $1 AND s.user_id = $2`,
         [submissionId, userId]
       );
 
       if (result.rows.length === 0) {
-        throw new Error('Submission not found');
+        throw new NotFoundError('Submission not found');
       }
 
-      return result.rows[0];
+      const submission = result.rows[0];
+      return {
+        ...submission,
+        test_results: redactTestResults(submission.test_results || [], submission.hidden_test_visibility),
+      };
     } catch (error) {
       logger.error('Failed to get submission details', error);
       throw error;
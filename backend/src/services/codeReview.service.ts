@@ -0,0 +1,107 @@
+import { database } from '../config/database.config';
+import { logger } from '../config/logger.config';
+import { AIProviderRepository } from '../repositories/aiProvider.repository';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.util';
+import { AIService } from './ai/ai.service';
+import { buildCodeReviewMessages, CodeReview, parseCodeReview } from './ai/code.review';
+import { HiddenTestVisibility, redactTestResults } from './execution/scoring';
+import type { TestResult } from './codeExecution.service';
+
+export class CodeReviewService {
+  private aiService = new AIService();
+  private providerRepo = new AIProviderRepository();
+
+  /**
+   * Ask the learner's default AI provider to review a failing submission.
+   * The review is stored with the submission, so asking again returns it
+   * without another AI call. Usage is logged to ai_usage_logs by AIService.
+   */
+  async reviewSubmission(submissionId: string, userId: string): Promise<CodeReview> {
+    const result = await database.query<{
+      code: string;
+      language: string;
+      status: string;
+      test_results: TestResult[] | null;
+      error_message: string | null;
+      ai_review: CodeReview | null;
+      title: string;
+      instructions: string;
+      hidden_test_visibility: HiddenTestVisibility;
+    }>(
+      `SELECT s.code, s.language, s.status, s.test_results, s.error_message, s.ai_review,
+              e.title, e.instructions, e.hidden_test_visibility
+       FROM code_submissions s
+       JOIN exercises e ON e.id = s.exercise_id
+       WHERE s.id = $1 AND s.user_id = $2`,
+      [submissionId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Submission not found');
+    }
+
+    const submission = result.rows[0];
+    if (submission.ai_review) {
+      return submission.ai_review;
+    }
+    if (submission.status === 'pending' || submission.status === 'running') {
+      throw new ConflictError('Submission is still being graded');
+    }
+    if (submission.status === 'passed') {
+      throw new BadRequestError('Only failing submissions can be reviewed');
+    }
+
+    const provider = await this.providerRepo.getDefaultProvider(userId);
+    if (!provider) {
+      throw new BadRequestError('Configure a default AI provider to get feedback on submissions');
+    }
+
+    const response = await this.aiService.sendChatCompletion(userId, {
+      // The learner only ever sees redacted hidden tests, and neither may the reviewer
+      messages: buildCodeReviewMessages({
+        exerciseTitle: submission.title,
+        instructions: submission.instructions,
+        language: submission.language,
+        code: submission.code,
+        testResults: redactTestResults(submission.test_results || [], submission.hidden_test_visibility),
+        errorMessage: submission.error_message,
+      }),
+      temperature: 0.3,
+      max_tokens: 800,
+    }, provider.id);
+
+    const review = parseCodeReview(response.content, response.model);
+    if (!review) {
+      logger.warn('AI code review could not be parsed', {
+        submissionId,
+        sample: response.content.substring(0, 200),
+      });
+      throw new BadRequestError('The AI provider returned feedback in an unexpected format, please try again');
+    }
+
+    // A concurrent request may have stored a review first; keep that one
+    const update = await database.query<{ ai_review: CodeReview }>(
+      `UPDATE code_submissions SET ai_review = $2
+       WHERE id = $1 AND ai_review IS NULL
+       RETURNING ai_review`,
+      [submissionId, JSON.stringify(review)]
+    );
+    if (update.rows.length === 0) {
+      const stored = await database.query<{ ai_review: CodeReview }>(
+        'SELECT ai_review FROM code_submissions WHERE id = $1',
+        [submissionId]
+      );
+      return stored.rows[0].ai_review;
+    }
+
+    logger.info('Submission reviewed by AI', {
+      submissionId,
+      provider: provider.provider_name,
+      model: response.model,
+    });
+
+    return review;
+  }
+}
+
+export const codeReviewService = new CodeReviewService();
@@ -0,0 +1,46 @@
+import { env } from '../../config/env.config';
+import { ExecutionBackend } from './execution.backend';
+import { Judge0Backend } from './judge0.backend';
+import { LocalProcessBackend } from './local.backend';
+
+/**
+ * Factory to create the execution backend configured for this deployment
+ */
+export class ExecutionBackendFactory {
+  private static instance: ExecutionBackend | null = null;
+
+  /**
+   * Create a backend instance by name
+   */
+  static createBackend(name: string): ExecutionBackend {
+    switch (name) {
+      case 'judge0':
+        return new Judge0Backend(env.JUDGE0_URL);
+
+      case 'local':
+        return new LocalProcessBackend({
+          pythonCommand: env.LOCAL_EXECUTION_PYTHON,
+          javacCommand: env.LOCAL_EXECUTION_JAVAC,
+          javaCommand: env.LOCAL_EXECUTION_JAVA,
+          cxxCommand: env.LOCAL_EXECUTION_CXX,
+          junitJar: env.LOCAL_EXECUTION_JUNIT_JAR,
+          sandboxUser: env.LOCAL_EXECUTION_UID !== undefined && env.LOCAL_EXECUTION_GID !== undefined
+            ? { uid: env.LOCAL_EXECUTION_UID, gid: env.LOCAL_EXECUTION_GID }
+            : undefined,
+        });
+
+      default:
+        throw new Error(`Unsupported execution backend: ${name}`);
+    }
+  }
+
+  /**
+   * Get the backend selected by EXECUTION_BACKEND
+   */
+  static getBackend(): ExecutionBackend {
+    if (!this.instance) {
+      this.instance = this.createBackend(env.EXECUTION_BACKEND);
+    }
+    return this.instance;
+  }
+}
@@ -0,0 +1,81 @@
+import type { ComparisonResult } from './comparators';
+import { runSandboxed } from './process.sandbox';
+
+const CHECK_TIMEOUT_MS = 2000;
+const PROCESS_TIMEOUT_MS = 10000;
+const CPU_SECONDS = 5;
+const HEAP_LIMIT_MB = 64;
+
+/**
+ * Script executed by the child Node process. It reads
+ * `{ checker, actual, expected, input, timeoutMs }` from stdin, evaluates the
+ * checker inside a fresh vm context and writes `{ passed, message }` to stdout.
+ * A checker returns a boolean or `{ passed, message }`.
+ */
+const CHECKER_SOURCE = `
+const vm = require('vm');
+
+const send = (payload) => process.stdout.write(JSON.stringify(payload));
+
+let input = '';
+process.stdin.on('data', (chunk) => { input += chunk; });
+process.stdin.on('end', () => {
+  const request = JSON.parse(input);
+  const context = vm.createContext({}, { codeGeneration: { strings: false, wasm: false } });
+
+  try {
+    context.__check = vm.runInContext('(function () { return ' + request.checker + '\\n})()', context, {
+      timeout: request.timeoutMs,
+    });
+    if (typeof context.__check !== 'function') {
+      throw new Error('Checker must evaluate to a function');
+    }
+
+    context.__args = [request.actual, request.expected, request.input];
+    const verdict = vm.runInContext('__check(...__args)', context, { timeout: request.timeoutMs });
+
+    if (verdict && typeof verdict === 'object') {
+      send({ passed: verdict.passed === true, message: verdict.message ? String(verdict.message) : undefined });
+    } else {
+      send({ passed: verdict === true });
+    }
+  } catch (error) {
+    send({ passed: false, message: 'Checker failed: ' + (error && error.message ? error.message : String(error)) });
+  }
+});
+`;
+
+/**
+ * Runs instructor-written checker functions for test cases with the custom comparator.
+ * Checkers get the same process isolation as learner JavaScript: a separate Node
+ * process with the permission model enabled, a capped heap and CPU time.
+ */
+export class CustomCheckerRunner {
+  async check(checker: string, actual: any, expected: any, input: any): Promise<ComparisonResult> {
+    const execution = await runSandboxed({
+      command: process.execPath,
+      args: [
+        '--experimental-permission',
+        '--no-warnings',
+        `--max-old-space-size=${HEAP_LIMIT_MB}`,
+        '-e',
+        CHECKER_SOURCE,
+      ],
+      stdin: JSON.stringify({ checker, actual, expected, input, timeoutMs: CHECK_TIMEOUT_MS }),
+      timeoutMs: PROCESS_TIMEOUT_MS,
+      cpuSeconds: CPU_SECONDS,
+    });
+
+    try {
+      const verdict = JSON.parse(execution.stdout);
+      return { passed: verdict.passed === true, message: verdict.passed ? undefined : verdict.message };
+    } catch {
+      return {
+        passed: false,
+        message: execution.timedOut ? 'Checker timed out' : 'Checker terminated unexpectedly',
+      };
+    }
+  }
+}
+
+export const customCheckerRunner = new CustomCheckerRunner();
@@ -0,0 +1,232 @@
+import type { TestCase } from '../codeExecution.service';
+import { customCheckerRunner } from './checker.runner';
+
+export type ComparatorType = 'exact' | 'float' | 'unordered' | 'whitespace' | 'regex' | 'custom';
+
+export const COMPARATOR_TYPES: ComparatorType[] = ['exact', 'float', 'unordered', 'whitespace', 'regex', 'custom'];
+
+export const DEFAULT_FLOAT_TOLERANCE = 1e-6;
+
+export interface ComparatorOptions {
+  tolerance?: number; // float
+  pattern?: string; // regex, defaults to the expected output when it is a string
+  flags?: string; // regex
+  checker?: string; // custom: `function (actual, expected, input) { ... }`
+}
+
+export interface ComparisonResult {
+  passed: boolean;
+  message?: string; // Why the comparison failed
+}
+
+const show = (value: any): string => (value === undefined ? 'undefined' : JSON.stringify(value));
+
+const text = (value: any): string => (typeof value === 'string' ? value : show(value));
+
+const mismatch = (actual: any, expected: any): ComparisonResult => ({
+  passed: false,
+  message: `Expected: ${show(expected)}, Got: ${show(actual)}`,
+});
+
+/**
+ * Program output arrives as text while expected_output is usually JSON.
+ * Parse the text side when the other side is not a string, so `[1, 2]`
+ * on stdout can be compared structurally with an expected [1, 2].
+ */
+function alignTypes(actual: any, expected: any): [any, any] {
+  const parse = (value: string) => {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  };
+  if (typeof actual === 'string' && typeof expected !== 'string') return [parse(actual), expected];
+  if (typeof expected === 'string' && typeof actual !== 'string') return [actual, parse(expected)];
+  return [actual, expected];
+}
+
+const isNumeric = (value: string) => value.trim() !== '' && !Number.isNaN(Number(value));
+
+function numbersClose(actual: number, expected: number, tolerance: number): boolean {
+  if (actual === expected) return true;
+  const difference = Math.abs(actual - expected);
+  return difference <= tolerance || difference <= tolerance * Math.abs(expected);
+}
+
+function floatEqual(actual: any, expected: any, tolerance: number): boolean {
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    return numbersClose(actual, expected, tolerance);
+  }
+  if (typeof actual === 'string' && typeof expected === 'string') {
+    // Compare text token by token, numeric tokens within the tolerance
+    const actualTokens = actual.trim().split(/\s+/);
+    const expectedTokens = expected.trim().split(/\s+/);
+    return actualTokens.length === expectedTokens.length
+      && actualTokens.every((token, i) => (isNumeric(token) && isNumeric(expectedTokens[i])
+        ? numbersClose(Number(token), Number(expectedTokens[i]), tolerance)
+        : token === expectedTokens[i]));
+  }
+  if (typeof actual === 'string' && typeof expected === 'number' && isNumeric(actual)) {
+    return numbersClose(Number(actual), expected, tolerance);
+  }
+  if (Array.isArray(actual) && Array.isArray(expected)) {
+    return actual.length === expected.length
+      && actual.every((value, i) => floatEqual(value, expected[i], tolerance));
+  }
+  if (actual && expected && typeof actual === 'object' && typeof expected === 'object'
+    && !Array.isArray(actual) && !Array.isArray(expected)) {
+    const keys = Object.keys(expected);
+    return keys.length === Object.keys(actual).length
+      && keys.every((key) => key in actual && floatEqual(actual[key], expected[key], tolerance));
+  }
+  return show(actual) === show(expected);
+}
+
+/**
+ * Canonical JSON with sorted object keys, so equal elements get equal keys
+ */
+function canonical(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${canonical(value[key])}`).join(',')}}`;
+  }
+  return show(value);
+}
+
+function sameMultiset(actual: string[], expected: string[]): boolean {
+  if (actual.length !== expected.length) return false;
+  const sortedActual = [...actual].sort();
+  const sortedExpected = [...expected].sort();
+  return sortedActual.every((item, i) => item === sortedExpected[i]);
+}
+
+const lines = (value: string) => value.split('\n').map((line) => line.trim()).filter((line) => line !== '');
+
+const collapseWhitespace = (value: string) => value.trim().replace(/\s+/g, ' ');
+
+/**
+ * Compare an output with the expected value using one of the built-in comparators.
+ * Custom checkers run in a sandbox, see judgeOutput.
+ */
+export function compareOutput(
+  actual: any,
+  expected: any,
+  comparator: ComparatorType = 'exact',
+  options: ComparatorOptions = {}
+): ComparisonResult {
+  switch (comparator) {
+    case 'exact': {
+      // Text output is compared with the JSON of a structured expected value
+      const passed = typeof actual === 'string' && typeof expected !== 'string'
+        ? actual === show(expected)
+        : show(actual) === show(expected);
+      return passed ? { passed } : mismatch(actual, expected);
+    }
+
+    case 'float': {
+      const tolerance = options.tolerance ?? DEFAULT_FLOAT_TOLERANCE;
+      const [a, e] = alignTypes(actual, expected);
+      return floatEqual(a, e, tolerance)
+        ? { passed: true }
+        : { passed: false, message: `${mismatch(actual, expected).message} (tolerance ${tolerance})` };
+    }
+
+    case 'unordered': {
+      const [a, e] = alignTypes(actual, expected);
+      let passed: boolean;
+      if (Array.isArray(a) && Array.isArray(e)) {
+        passed = sameMultiset(a.map(canonical), e.map(canonical));
+      } else if (typeof a === 'string' && typeof e === 'string') {
+        passed = sameMultiset(lines(a), lines(e));
+      } else {
+        passed = canonical(a) === canonical(e);
+      }
+      return passed
+        ? { passed }
+        : { passed: false, message: `${mismatch(actual, expected).message} (in any order)` };
+    }
+
+    case 'whitespace': {
+      const passed = collapseWhitespace(text(actual)) === collapseWhitespace(text(expected));
+      return passed ? { passed } : mismatch(actual, expected);
+    }
+
+    case 'regex': {
+      const pattern = options.pattern ?? (typeof expected === 'string' ? expected : null);
+      if (pattern === null) {
+        return { passed: false, message: 'Test case has no regex pattern' };
+      }
+      const passed = new RegExp(pattern, options.flags).test(text(actual));
+      return passed
+        ? { passed }
+        : { passed: false, message: `Output ${show(actual)} does not match /${pattern}/${options.flags || ''}` };
+    }
+
+    case 'custom':
+      throw new Error('Custom checkers must be run with judgeOutput');
+
+    default:
+      throw new Error(`Unknown comparator: ${comparator}`);
+  }
+}
+
+/**
+ * Compare an output using the comparator configured on the test case,
+ * running custom checkers in the sandbox
+ */
+export async function judgeOutput(
+  testCase: Pick<TestCase, 'comparator' | 'comparator_options' | 'input_data'>,
+  actual: any,
+  expected: any
+): Promise<ComparisonResult> {
+  const comparator = testCase.comparator || 'exact';
+  const options = testCase.comparator_options || {};
+
+  if (comparator === 'custom') {
+    if (!options.checker) {
+      return { passed: false, message: 'Test case has no checker function' };
+    }
+    const verdict = await customCheckerRunner.check(options.checker, actual, expected, testCase.input_data ?? null);
+    return verdict.passed || verdict.message ? verdict : mismatch(actual, expected);
+  }
+
+  try {
+    return compareOutput(actual, expected, comparator, options);
+  } catch (error: any) {
+    return { passed: false, message: `Comparison failed: ${error.message}` };
+  }
+}
+
+/**
+ * Check comparator settings when a test case is saved.
+ * Returns an error message, or null when the settings are valid.
+ */
+export function validateComparator(
+  comparator: ComparatorType | undefined,
+  options: ComparatorOptions | undefined
+): string | null {
+  if (comparator === undefined) return null;
+  if (!COMPARATOR_TYPES.includes(comparator)) {
+    return `comparator must be one of: ${COMPARATOR_TYPES.join(', ')}`;
+  }
+
+  if (comparator === 'float' && options?.tolerance !== undefined
+    && !(typeof options.tolerance === 'number' && options.tolerance >= 0)) {
+    return 'Float tolerance must be a non-negative number';
+  }
+
+  if (comparator === 'regex' && options?.pattern !== undefined) {
+    try {
+      new RegExp(options.pattern, options.flags);
+    } catch (error: any) {
+      return `Invalid regex: ${error.message}`;
+    }
+  }
+
+  if (comparator === 'custom' && !options?.checker?.trim()) {
+    return 'A custom comparator needs a checker function';
+  }
+
+  return null;
+}
@@ -0,0 +1,376 @@
+/**
+ * Harness for C++ exercises written as a single function.
+ * The learner's code is compiled together with a small JSON reader/writer and a
+ * generated main() that decodes `input_data.args` from stdin, converts each
+ * argument to the function's parameter type, calls the function and prints
+ * `{"result": ...}` as the last line of stdout.
+ *
+ * Supported parameter and return types: integral and floating point numbers,
+ * bool, char, std::string and (nested) std::vector of those. void returns null.
+ */
+
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'sizeof', 'main']);
+
+const HARNESS_PRELUDE = `#include <cctype>
+#include <cmath>
+#include <cstdio>
+#include <cstdlib>
+#include <iostream>
+#include <iterator>
+#include <sstream>
+#include <stdexcept>
+#include <string>
+#include <tuple>
+#include <type_traits>
+#include <utility>
+#include <vector>
+
+namespace harness_detail {
+
+struct Json {
+  enum Kind { Null, Bool, Number, String, Array, Object } kind = Null;
+  bool boolean = false;
+  double number = 0;
+  std::string text;
+  std::vector<Json> items;
+  std::vector<std::pair<std::string, Json>> fields;
+
+  const Json& get(const std::string& key) const {
+    for (const auto& field : fields) {
+      if (field.first == key) return field.second;
+    }
+    throw std::runtime_error("Missing key in test input: " + key);
+  }
+};
+
+class Parser {
+ public:
+  explicit Parser(const std::string& input) : s(input) {}
+
+  Json parse() {
+    Json value = parseValue();
+    skipSpace();
+    if (pos != s.size()) fail();
+    return value;
+  }
+
+ private:
+  const std::string& s;
+  std::size_t pos = 0;
+
+  [[noreturn]] void fail() { throw std::runtime_error("Invalid JSON test input"); }
+
+  void skipSpace() {
+    while (pos < s.size() && std::isspace(static_cast<unsigned char>(s[pos]))) pos++;
+  }
+
+  bool consume(const char* literal) {
+    std::size_t length = std::char_traits<char>::length(literal);
+    if (s.compare(pos, length, literal) != 0) return false;
+    pos += length;
+    return true;
+  }
+
+  Json parseValue() {
+    skipSpace();
+    if (pos >= s.size()) fail();
+    Json value;
+    char c = s[pos];
+    if (c == '{') {
+      value.kind = Json::Object;
+      pos++;
+      skipSpace();
+      if (pos < s.size() && s[pos] == '}') { pos++; return value; }
+      while (true) {
+        skipSpace();
+        std::string key = parseString();
+        skipSpace();
+        if (pos >= s.size() || s[pos++] != ':') fail();
+        value.fields.emplace_back(key, parseValue());
+        skipSpace();
+        if (pos < s.size() && s[pos] == ',') { pos++; continue; }
+        if (pos < s.size() && s[pos] == '}') { pos++; return value; }
+        fail();
+      }
+    }
+    if (c == '[') {
+      value.kind = Json::Array;
+      pos++;
+      skipSpace();
+      if (pos < s.size() && s[pos] == ']') { pos++; return value; }
+      while (true) {
+        value.items.push_back(parseValue());
+        skipSpace();
+        if (pos < s.size() && s[pos] == ',') { pos++; continue; }
+        if (pos < s.size() && s[pos] == ']') { pos++; return value; }
+        fail();
+      }
+    }
+    if (c == '"') {
+      value.kind = Json::String;
+      value.text = parseString();
+      return value;
+    }
+    if (consume("true")) { value.kind = Json::Bool; value.boolean = true; return value; }
+    if (consume("false")) { value.kind = Json::Bool; return value; }
+    if (consume("null")) return value;
+
+    const char* start = s.c_str() + pos;
+    char* end = nullptr;
+    value.number = std::strtod(start, &end);
+    if (end == start) fail();
+    value.kind = Json::Number;
+    pos += static_cast<std::size_t>(end - start);
+    return value;
+  }
+
+  std::string parseString() {
+    if (pos >= s.size() || s[pos] != '"') fail();
+    pos++;
+    std::string out;
+    while (pos < s.size() && s[pos] != '"') {
+      char c = s[pos++];
+      if (c != '\\\\') { out += c; continue; }
+      if (pos >= s.size()) fail();
+      char e = s[pos++];
+      switch (e) {
+        case 'n': out += '\\n'; break;
+        case 't': out += '\\t'; break;
+        case 'r': out += '\\r'; break;
+        case 'b': out += '\\b'; break;
+        case 'f': out += '\\f'; break;
+        case 'u': {
+          if (pos + 4 > s.size()) fail();
+          unsigned code = static_cast<unsigned>(std::stoul(s.substr(pos, 4), nullptr, 16));
+          pos += 4;
+          if (code < 0x80) {
+            out += static_cast<char>(code);
+          } else if (code < 0x800) {
+            out += static_cast<char>(0xC0 | (code >> 6));
+            out += static_cast<char>(0x80 | (code & 0x3F));
+          } else {
+            out += static_cast<char>(0xE0 | (code >> 12));
+            out += static_cast<char>(0x80 | ((code >> 6) & 0x3F));
+            out += static_cast<char>(0x80 | (code & 0x3F));
+          }
+          break;
+        }
+        default: out += e;
+      }
+    }
+    if (pos >= s.size()) fail();
+    pos++;
+    return out;
+  }
+};
+
+inline std::string quote(const std::string& value) {
+  std::string out = "\\"";
+  for (char c : value) {
+    switch (c) {
+      case '"': out += "\\\\\\""; break;
+      case '\\\\': out += "\\\\\\\\"; break;
+      case '\\n': out += "\\\\n"; break;
+      case '\\t': out += "\\\\t"; break;
+      case '\\r': out += "\\\\r"; break;
+      default:
+        if (static_cast<unsigned char>(c) < 0x20) {
+          char buffer[8];
+          std::snprintf(buffer, sizeof(buffer), "\\\\u%04x", static_cast<unsigned>(static_cast<unsigned char>(c)));
+          out += buffer;
+        } else {
+          out += c;
+        }
+    }
+  }
+  return out + "\\"";
+}
+
+inline std::string formatDouble(double value) {
+  if (!std::isfinite(value)) return "null";
+  char buffer[32];
+  for (int precision = 1; precision <= 17; precision++) {
+    std::snprintf(buffer, sizeof(buffer), "%.*g", precision, value);
+    if (std::strtod(buffer, nullptr) == value) break;
+  }
+  return buffer;
+}
+
+template <typename T, typename Enable = void>
+struct Convert;
+
+template <>
+struct Convert<bool> {
+  static bool from(const Json& json) {
+    if (json.kind != Json::Bool) throw std::runtime_error("Expected a boolean argument");
+    return json.boolean;
+  }
+  static std::string to(bool value) { return value ? "true" : "false"; }
+};
+
+template <>
+struct Convert<char> {
+  static char from(const Json& json) {
+    if (json.kind != Json::String || json.text.size() != 1) {
+      throw std::runtime_error("Expected a single character argument");
+    }
+    return json.text[0];
+  }
+  static std::string to(char value) { return quote(std::string(1, value)); }
+};
+
+template <typename T>
+struct Convert<T, typename std::enable_if<std::is_integral<T>::value>::type> {
+  static T from(const Json& json) {
+    if (json.kind != Json::Number) throw std::runtime_error("Expected a numeric argument");
+    return static_cast<T>(json.number);
+  }
+  static std::string to(T value) { return std::to_string(value); }
+};
+
+template <typename T>
+struct Convert<T, typename std::enable_if<std::is_floating_point<T>::value>::type> {
+  static T from(const Json& json) {
+    if (json.kind != Json::Number) throw std::runtime_error("Expected a numeric argument");
+    return static_cast<T>(json.number);
+  }
+  static std::string to(T value) { return formatDouble(static_cast<double>(value)); }
+};
+
+template <>
+struct Convert<std::string> {
+  static std::string from(const Json& json) {
+    if (json.kind != Json::String) throw std::runtime_error("Expected a string argument");
+    return json.text;
+  }
+  static std::string to(const std::string& value) { return quote(value); }
+};
+
+template <typename T>
+struct Convert<std::vector<T>> {
+  static std::vector<T> from(const Json& json) {
+    if (json.kind != Json::Array) throw std::runtime_error("Expected an array argument");
+    std::vector<T> out;
+    for (const auto& item : json.items) out.push_back(Convert<T>::from(item));
+    return out;
+  }
+  static std::string to(const std::vector<T>& value) {
+    std::string out = "[";
+    for (std::size_t i = 0; i < value.size(); i++) {
+      if (i > 0) out += ",";
+      out += Convert<T>::to(value[i]);
+    }
+    return out + "]";
+  }
+};
+
+template <typename R, typename... A, std::size_t... I>
+std::string invoke(R (*fn)(A...), const Json& args, std::index_sequence<I...>) {
+  // Keep the converted arguments alive so reference parameters can bind to them
+  std::tuple<typename std::decay<A>::type...> values(
+      Convert<typename std::decay<A>::type>::from(args.items[I])...);
+  (void)values;
+  if constexpr (std::is_void<R>::value) {
+    fn(std::get<I>(values)...);
+    return "null";
+  } else {
+    return Convert<typename std::decay<R>::type>::to(fn(std::get<I>(values)...));
+  }
+}
+
+template <typename R, typename... A>
+std::string call(R (*fn)(A...), const Json& args) {
+  if (args.kind != Json::Array || args.items.size() != sizeof...(A)) {
+    throw std::runtime_error("Expected " + std::to_string(sizeof...(A)) + " argument(s) in test input");
+  }
+  return invoke(fn, args, std::index_sequence_for<A...>{});
+}
+
+}  // namespace harness_detail
+`;
+
+/**
+ * Remove comments and string/char literal contents so brace counting and
+ * signature matching only see code. Positions are preserved, and Java shares
+ * the syntax, so the result also serves the Java style checks.
+ */
+export function stripCommentsAndLiterals(code: string): string {
+  return code.replace(
+    /\/\/[^\n]*|\/\*[\s\S]*?\*\/|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/g,
+    (match) => match.replace(/[^\n]/g, ' ')
+  );
+}
+
+/**
+ * Whether the code is a complete program rather than a single function
+ */
+export function hasCppMain(code: string): boolean {
+  return /\bint\s+main\s*\(/.test(stripCommentsAndLiterals(code));
+}
+
+/**
+ * Find the function the harness should call: the last non-template function
+ * defined at namespace scope (helpers are normally declared before the function
+ * that uses them). Returns null when no function definition is found.
+ */
+export function findCppEntryPoint(code: string): string | null {
+  const source = stripCommentsAndLiterals(code);
+  const signature = /\b([A-Za-z_]\w*)\s*\(([^;{}()]|\([^()]*\))*\)\s*(const\s*)?(noexcept\s*)?\{/g;
+  let depth = 0;
+  let scanned = 0;
+  let entryPoint: string | null = null;
+
+  let match: RegExpExecArray | null;
+  while ((match = signature.exec(source)) !== null) {
+    for (; scanned < match.index; scanned++) {
+      if (source[scanned] === '{') depth++;
+      else if (source[scanned] === '}') depth--;
+    }
+
+    const name = match[1];
+    const before = source.slice(0, match.index);
+    const isTemplate = /template\s*<[^>]*>\s*[\w:<>,\s*&]*$/.test(before);
+    if (depth === 0 && !CONTROL_KEYWORDS.has(name) && !isTemplate) {
+      entryPoint = name;
+    }
+  }
+
+  return entryPoint;
+}
+
+/**
+ * Build the program compiled for a function-style C++ exercise
+ */
+export function buildCppHarness(code: string, entryPoint: string): string {
+  return `${HARNESS_PRELUDE}
+#line 1 "solution.cpp"
+${code}
+
+int main() {
+  std::ios::sync_with_stdio(false);
+  std::string input((std::istreambuf_iterator<char>(std::cin)), std::istreambuf_iterator<char>());
+  try {
+    harness_detail::Json data = harness_detail::Parser(input).parse();
+    std::string result = harness_detail::call(&${entryPoint}, data.get("args"));
+    std::cout << std::endl << "{\\"result\\":" << result << "}" << std::endl;
+  } catch (const std::exception& error) {
+    std::cerr << error.what() << std::endl;
+    return 1;
+  }
+  return 0;
+}
+`;
+}
+
+/**
+ * Extract the harness result from stdout; anything the learner printed comes before it
+ */
+export function parseCppHarnessOutput(stdout: string): { result: any } | null {
+  const lines = stdout.trim().split('\n');
+  try {
+    const parsed = JSON.parse(lines[lines.length - 1]);
+    return parsed && typeof parsed === 'object' && 'result' in parsed ? parsed : null;
+  } catch {
+    return null;
+  }
+}
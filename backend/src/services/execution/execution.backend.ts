@@ -0,0 +1,65 @@
+export type ExecutionLanguage = 'python' | 'java' | 'cpp';
+
+export interface ExecutionRequest {
+  code: string;
+  language: ExecutionLanguage;
+  stdin: string;
+  cpuTimeLimitSeconds?: number; // May be fractional
+  memoryLimitMb?: number;
+}
+
+export interface ExecutionOutput {
+  status: 'success' | 'compile_error' | 'runtime_error' | 'timeout' | 'memory_exceeded';
+  stdout: string;
+  stderr: string;
+  compileOutput?: string;
+  durationMs?: number;
+}
+
+export type ProjectLanguage = 'javascript' | 'python' | 'java';
+
+export interface WorkspaceFile {
+  path: string; // Relative, '/' separated
+  content: string;
+}
+
+export interface ProjectExecutionRequest {
+  language: ProjectLanguage;
+  files: WorkspaceFile[];
+  testFiles: string[]; // Paths of the test files to run (pytest, node:test or JUnit 5)
+  cpuTimeLimitSeconds?: number; // For the test run; JavaScript gets it per test file
+  memoryLimitMb?: number;
+}
+
+// A JUnit XML report, with the test file it covers when the runner ran one file
+export interface TestReport {
+  testFile?: string;
+  xml: string;
+}
+
+export interface ProjectExecutionOutput extends ExecutionOutput {
+  reports: TestReport[]; // Empty when the test runner did not get to write one
+}
+
+export const DEFAULT_CPU_TIME_LIMIT_SECONDS = 2;
+export const DEFAULT_MEMORY_LIMIT_MB = 128;
+
+/**
+ * Runs a single program with stdin and reports its output.
+ * Test case comparison and scoring stay in CodeExecutionService, so every
+ * backend only has to compile, run and classify the outcome.
+ */
+export interface ExecutionBackend {
+  readonly name: string;
+
+  /**
+   * Compile (if needed) and run the program once
+   */
+  execute(request: ExecutionRequest): Promise<ExecutionOutput>;
+
+  /**
+   * Write the files to a fresh workspace and run its test suite.
+   * Optional: backends that only run single programs leave it out.
+   */
+  executeProject?(request: ProjectExecutionRequest): Promise<ProjectExecutionOutput>;
+}
@@ -0,0 +1,207 @@
+import type { TestCase } from '../codeExecution.service';
+import { FunctionSignature, validateFunctionSignature } from './function.harness';
+import { generatedInputSpec } from './performance.tests';
+
+/**
+ * Translation of an exercise into another language. The AI rewrites the
+ * texts and code and adapts the inputs and expected outputs of the test
+ * cases to the target language's harness; everything else about the test
+ * cases (names, visibility, points, comparators, limits) is kept. Performance
+ * tests with generated inputs are language neutral and kept as they are.
+ */
+export type TranslationLanguage = 'javascript' | 'python' | 'java';
+
+export const TRANSLATION_LANGUAGES: TranslationLanguage[] = ['javascript', 'python', 'java'];
+
+export interface TranslationSource {
+  title: string;
+  description: string;
+  instructions: string;
+  language: string;
+  exercise_type: string;
+  starter_code: string | null;
+  solution_code: string | null;
+  function_signature: Record<string, any> | null;
+  project_files: Record<string, any>[] | null;
+}
+
+export interface TranslatedTestCase {
+  input_data: any;
+  expected_output: any;
+}
+
+export interface ExerciseTranslation {
+  title: string;
+  description: string;
+  instructions: string;
+  starterCode: string;
+  solutionCode: string;
+  functionSignature: FunctionSignature | null; // Java and Python: the function the harness calls
+  testCases: TranslatedTestCase[]; // One per translated source test case, in order
+}
+
+// How the grader calls learner code in each language
+const HARNESS_CONVENTIONS: Record<TranslationLanguage, string> = {
+  javascript: `The code is a single JavaScript function declaration. Each test calls it with the values of
+input_data.args as arguments and compares its return value with expected_output.result.
+Set "functionSignature" to null.`,
+  python: `The learner writes one Python function, described by "functionSignature". A generated harness
+decodes input_data.args, converts each argument to its declared type, calls the function and compares
+the return value with expected_output.result. Signature types are language neutral: int, long, double,
+boolean, string and arrays of those (int[], string[][]); the return type may also be void.`,
+  java: `The learner writes one public method in a class named Solution (not public itself), described by
+"functionSignature". A generated harness decodes input_data.args, converts each argument to its
+declared type, calls the method and compares the return value with expected_output.result. Signature
+types are language neutral: int, long, double, boolean, string and arrays of those (int[], string[][]);
+the return type may also be void.`,
+};
+
+/**
+ * Whether an exercise can be translated into a language. Returns an error
+ * message, or null when it can.
+ */
+export function translationSupportError(source: TranslationSource, targetLanguage: any): string | null {
+  if (!TRANSLATION_LANGUAGES.includes(targetLanguage)) {
+    return `Exercises can be translated into: ${TRANSLATION_LANGUAGES.join(', ')}`;
+  }
+  if (source.language === targetLanguage) {
+    return `The exercise is already written in ${targetLanguage}`;
+  }
+  if (source.language === 'sql') {
+    return 'SQL exercises cannot be translated into other languages';
+  }
+  if (source.project_files) {
+    return 'Project exercises cannot be translated';
+  }
+  if (source.exercise_type !== 'code' && source.exercise_type !== 'debugging') {
+    return 'Only code and debugging exercises can be translated';
+  }
+  if (!source.solution_code?.trim()) {
+    return 'The exercise needs solution code to translate';
+  }
+  return null;
+}
+
+/**
+ * The source test cases the AI translates: all but the ones with generated inputs
+ */
+export function translatableTestCases(testCases: TestCase[]): TestCase[] {
+  return testCases.filter((testCase) => !generatedInputSpec(testCase));
+}
+
+export function buildTranslationPrompt(
+  source: TranslationSource,
+  testCases: TestCase[],
+  targetLanguage: TranslationLanguage
+): string {
+  const tests = translatableTestCases(testCases).map((testCase, index) => JSON.stringify({
+    index,
+    name: testCase.test_name,
+    input_data: testCase.input_data,
+    expected_output: testCase.expected_output,
+  }));
+  const debugging = source.exercise_type === 'debugging'
+    ? `\nThis is a debugging exercise: the starter code is intentionally broken. Keep the same bugs in the
+translated starter code, so that it fails the same test cases, and translate the fixed solution.\n`
+    : '';
+
+  return `Translate this ${source.language} programming exercise into ${targetLanguage}.
+
+Title: ${source.title}
+Description: ${source.description}
+Instructions:
+${source.instructions}
+${source.function_signature ? `\nFunction signature: ${JSON.stringify(source.function_signature)}\n` : ''}
+Starter code:
+\`\`\`${source.language}
+${source.starter_code ?? ''}
+\`\`\`
+
+Solution code:
+\`\`\`${source.language}
+${source.solution_code ?? ''}
+\`\`\`
+${debugging}
+Test cases (JSON, one per line):
+${tests.join('\n') || '(none)'}
+
+How ${targetLanguage} exercises are graded:
+${HARNESS_CONVENTIONS[targetLanguage]}
+
+Requirements:
+1. Keep the exercise equivalent: same task, same difficulty, same behaviour on every test case
+2. Write idiomatic ${targetLanguage}; adapt names to its conventions and mention ${targetLanguage} instead of ${source.language} in the texts
+3. Return exactly one test case per input test case, in the same order, with input_data and
+   expected_output adapted to the ${targetLanguage} harness (e.g. integer overflow, floating point output)
+4. The solution must pass every test case
+
+IMPORTANT: Return ONLY valid JSON with DOUBLE QUOTES. Use \\n for line breaks inside strings.
+
+{
+  "title": "Exercise title",
+  "description": "Brief description",
+  "instructions": "Step 1\\nStep 2",
+  "starterCode": "...",
+  "solutionCode": "...",
+  "functionSignature": { "name": "sum", "parameters": [{ "name": "values", "type": "int[]" }], "returnType": "int" },
+  "testCases": [
+    { "input_data": { "args": [[1, 2]] }, "expected_output": { "result": 3 } }
+  ]
+}`;
+}
+
+/**
+ * Check the translation the AI returned. Returns an error message, or null
+ * when it has everything the exercise needs.
+ */
+export function validateTranslation(
+  translation: any,
+  testCaseCount: number,
+  targetLanguage: TranslationLanguage
+): string | null {
+  if (!translation || typeof translation !== 'object' || Array.isArray(translation)) {
+    return 'The translation is not a JSON object';
+  }
+  for (const field of ['title', 'description', 'instructions', 'starterCode', 'solutionCode']) {
+    if (typeof translation[field] !== 'string' || !translation[field].trim()) {
+      return `The translation has no ${field}`;
+    }
+  }
+
+  if (targetLanguage === 'javascript') {
+    if (translation.functionSignature) {
+      return 'JavaScript exercises have no function signature';
+    }
+  } else {
+    const signatureError = validateFunctionSignature(translation.functionSignature);
+    if (signatureError) {
+      return `Invalid function signature: ${signatureError}`;
+    }
+  }
+
+  const { testCases } = translation;
+  if (!Array.isArray(testCases) || testCases.length !== testCaseCount) {
+    return `Expected ${testCaseCount} translated test case(s)`;
+  }
+  const invalid = testCases.findIndex((testCase: any) =>
+    !testCase || typeof testCase.input_data !== 'object' || testCase.input_data === null
+    || testCase.expected_output === undefined);
+  if (invalid !== -1) {
+    return `Test case ${invalid + 1} needs input_data and expected_output`;
+  }
+  return null;
+}
+
+/**
+ * The source test cases with the translated inputs and expected outputs
+ */
+export function translatedTestCases(testCases: TestCase[], translation: ExerciseTranslation): TestCase[] {
+  let next = 0;
+  return testCases.map((testCase) => {
+    if (generatedInputSpec(testCase)) {
+      return { ...testCase };
+    }
+    const { input_data, expected_output } = translation.testCases[next++];
+    return { ...testCase, input_data, expected_output };
+  });
+}
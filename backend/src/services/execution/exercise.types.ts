@@ -0,0 +1,330 @@
+import crypto from 'crypto';
+import type { TestResult } from '../codeExecution.service';
+import { packProjectFiles, unpackProjectFiles } from './project.runner';
+
+/**
+ * What learners do in an exercise:
+ * - code: write the solution from the starter code
+ * - debugging: fix intentionally broken starter code until enough tests pass
+ * - parsons: put shuffled lines of code in order, with the right indentation
+ * - fill_in_blank: complete a code template; each blank is graded
+ */
+export type ExerciseType = 'code' | 'debugging' | 'parsons' | 'fill_in_blank';
+
+export const EXERCISE_TYPES: ExerciseType[] = ['code', 'debugging', 'parsons', 'fill_in_blank'];
+
+export interface DebuggingConfig {
+  minPassingTests: number; // Passing tests a fix needs; the starter code must pass fewer
+}
+
+export interface ParsonsLine {
+  id: string;
+  code: string; // Without indentation
+  indent: number; // Indentation level in the solution
+  distractor?: boolean; // Shown to learners but not part of the solution
+}
+
+export interface ParsonsConfig {
+  lines: ParsonsLine[]; // Solution lines in order, distractors anywhere
+}
+
+export interface CodeBlank {
+  id: string; // Appears in the template as {{id}}
+  answers: string[]; // Accepted answers, compared ignoring surrounding and repeated whitespace
+  points?: number;
+}
+
+export interface FillInBlankConfig {
+  template: string;
+  blanks: CodeBlank[];
+}
+
+export type ExerciseTypeConfig = DebuggingConfig | ParsonsConfig | FillInBlankConfig;
+
+// Parsons lines are indented by this much per level
+export const PARSONS_INDENT = '    ';
+// Test result of a Parsons problem without test cases, which compares the order with the solution
+export const PARSONS_ORDER_TEST_ID = 'parsons-order';
+
+const BLANK_MARKER = /\{\{([\w-]+)\}\}/g;
+const MAX_PARSONS_LINES = 100;
+const MAX_PARSONS_INDENT = 10;
+
+const blankTestId = (blankId: string) => `blank:${blankId}`;
+const normalizeAnswer = (answer: string) => answer.trim().replace(/\s+/g, ' ');
+
+/**
+ * Check the settings of an exercise type when the exercise is saved.
+ * Returns an error message, or null when the settings are valid.
+ */
+export function validateTypeConfig(type: any, config: any): string | null {
+  if (!EXERCISE_TYPES.includes(type)) {
+    return `exerciseType must be one of: ${EXERCISE_TYPES.join(', ')}`;
+  }
+  if (type === 'code') {
+    return config === null || config === undefined ? null : 'Code exercises have no type settings';
+  }
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return `${type} exercises need typeConfig settings`;
+  }
+
+  switch (type as ExerciseType) {
+    case 'debugging':
+      if (!Number.isInteger(config.minPassingTests) || config.minPassingTests < 1) {
+        return 'minPassingTests must be a positive whole number';
+      }
+      return null;
+
+    case 'parsons': {
+      const { lines } = config;
+      if (!Array.isArray(lines) || lines.length < 2) {
+        return 'A Parsons problem needs at least two lines';
+      }
+      if (lines.length > MAX_PARSONS_LINES) {
+        return `A Parsons problem can have at most ${MAX_PARSONS_LINES} lines`;
+      }
+      const ids = new Set<string>();
+      for (const line of lines) {
+        if (!line || typeof line.code !== 'string' || !line.code.trim() || line.code.includes('\n')) {
+          return 'Each Parsons line needs code on a single line';
+        }
+        if (line.code !== line.code.trimStart()) {
+          return `Set the indentation of "${line.code.trim()}" with indent instead of leading spaces`;
+        }
+        if (!Number.isInteger(line.indent) || line.indent < 0 || line.indent > MAX_PARSONS_INDENT) {
+          return `Indentation of "${line.code}" must be a level from 0 to ${MAX_PARSONS_INDENT}`;
+        }
+        if (line.id !== undefined) {
+          if (typeof line.id !== 'string' || !line.id || ids.has(line.id)) {
+            return 'Parsons line ids must be unique strings';
+          }
+          ids.add(line.id);
+        }
+        if (line.distractor !== undefined && typeof line.distractor !== 'boolean') {
+          return 'distractor must be true or false';
+        }
+      }
+      if (lines.filter((line: ParsonsLine) => !line.distractor).length < 2) {
+        return 'The solution of a Parsons problem needs at least two lines';
+      }
+      return null;
+    }
+
+    case 'fill_in_blank': {
+      const { template, blanks } = config;
+      if (typeof template !== 'string' || !template.trim()) {
+        return 'A fill-in-the-blank exercise needs a template';
+      }
+      if (!Array.isArray(blanks) || blanks.length === 0) {
+        return 'A fill-in-the-blank exercise needs at least one blank';
+      }
+      const markers = [...template.matchAll(BLANK_MARKER)].map((match) => match[1]);
+      const ids = new Set<string>();
+      for (const blank of blanks) {
+        if (!blank || typeof blank.id !== 'string' || !/^[\w-]+$/.test(blank.id)) {
+          return 'Blank ids may only contain letters, digits, _ and -';
+        }
+        if (ids.has(blank.id)) {
+          return `Duplicate blank: ${blank.id}`;
+        }
+        ids.add(blank.id);
+        if (markers.filter((marker) => marker === blank.id).length !== 1) {
+          return `The template must contain {{${blank.id}}} exactly once`;
+        }
+        if (!Array.isArray(blank.answers) || blank.answers.length === 0
+          || !blank.answers.every((answer: unknown) => typeof answer === 'string' && answer.trim() && !answer.includes('\n'))) {
+          return `Blank ${blank.id} needs at least one single-line answer`;
+        }
+        if (blank.points !== undefined && (!Number.isInteger(blank.points) || blank.points < 0)) {
+          return `Points of blank ${blank.id} must be a whole number`;
+        }
+      }
+      const unknown = markers.find((marker) => !ids.has(marker));
+      if (unknown) {
+        return `The template has no blank named ${unknown}`;
+      }
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Settings as stored: Parsons lines get ids, which learners use to refer to them
+ */
+export function prepareTypeConfig(type: ExerciseType, config: ExerciseTypeConfig | null): ExerciseTypeConfig | null {
+  if (type !== 'parsons' || !config) {
+    return config;
+  }
+  return {
+    lines: (config as ParsonsConfig).lines.map((line) => ({
+      ...line,
+      id: line.id ?? crypto.randomBytes(4).toString('hex'),
+    })),
+  };
+}
+
+/**
+ * What learners receive of the settings: Parsons lines shuffled without their
+ * indentation, blanks without their answers
+ */
+export function learnerTypeConfig(type: ExerciseType, config: ExerciseTypeConfig | null): Record<string, any> | null {
+  if (!config) {
+    return null;
+  }
+  switch (type) {
+    case 'parsons':
+      return { lines: shuffledLines(config as ParsonsConfig).map(({ id, code }) => ({ id, code })) };
+    case 'fill_in_blank': {
+      const { template, blanks } = config as FillInBlankConfig;
+      return { template, blanks: blanks.map(({ id, points }) => ({ id, points: points ?? 1 })) };
+    }
+    default:
+      return config;
+  }
+}
+
+/**
+ * Code learners start from. Parsons problems start with the shuffled lines
+ * unindented; fill-in-the-blank exercises with every blank empty.
+ * Null for types whose starter code the instructor writes.
+ */
+export function typeStarterCode(type: ExerciseType, config: ExerciseTypeConfig | null): string | null {
+  if (type === 'parsons' && config) {
+    return shuffledLines(config as ParsonsConfig).map((line) => line.code).join('\n');
+  }
+  if (type === 'fill_in_blank' && config) {
+    return packBlanks(Object.fromEntries((config as FillInBlankConfig).blanks.map((blank) => [blank.id, ''])));
+  }
+  return null;
+}
+
+/**
+ * The reference solution derived from the settings, null for types whose
+ * solution the instructor writes
+ */
+export function typeSolutionCode(type: ExerciseType, config: ExerciseTypeConfig | null): string | null {
+  if (type === 'parsons' && config) {
+    return assembleParsons((config as ParsonsConfig).lines.filter((line) => !line.distractor));
+  }
+  if (type === 'fill_in_blank' && config) {
+    return packBlanks(Object.fromEntries((config as FillInBlankConfig).blanks.map((blank) => [blank.id, blank.answers[0]])));
+  }
+  return null;
+}
+
+/**
+ * The program built from ordered Parsons lines
+ */
+export function assembleParsons(lines: Array<Pick<ParsonsLine, 'code' | 'indent'>>): string {
+  return lines.map((line) => `${PARSONS_INDENT.repeat(line.indent)}${line.code}`).join('\n');
+}
+
+/**
+ * Check that Parsons code only uses the given lines, each at most once, at
+ * whole indentation levels. Returns an error message, or null.
+ */
+export function checkParsonsCode(config: ParsonsConfig, code: string): string | null {
+  const available = new Map<string, number>();
+  for (const line of config.lines) {
+    available.set(line.code, (available.get(line.code) ?? 0) + 1);
+  }
+
+  for (const line of code.split('\n').filter((text) => text.trim())) {
+    const text = line.trimStart();
+    const indentation = line.slice(0, line.length - text.length);
+    if (!/^ *$/.test(indentation) || indentation.length % PARSONS_INDENT.length !== 0) {
+      return `Indent "${text}" by whole levels`;
+    }
+    const count = available.get(text) ?? 0;
+    if (count === 0) {
+      return `"${text}" is not one of the given lines`;
+    }
+    available.set(text, count - 1);
+  }
+  return null;
+}
+
+/**
+ * Grade a Parsons problem without test cases by comparing it with the solution
+ */
+export function gradeParsonsOrder(config: ParsonsConfig, code: string): TestResult {
+  const normalize = (text: string) => text.split('\n').map((line) => line.trimEnd()).filter(Boolean).join('\n');
+  const solution = assembleParsons(config.lines.filter((line) => !line.distractor));
+  return {
+    testCaseId: PARSONS_ORDER_TEST_ID,
+    testName: 'Line order and indentation',
+    passed: normalize(code) === normalize(solution),
+    actual: null,
+    expected: null,
+    isHidden: false,
+    points: 1,
+  };
+}
+
+/**
+ * Pack blank values into the code string stored with a submission, in the
+ * same `==> id <==` format as project files
+ */
+export function packBlanks(values: Record<string, string>): string {
+  return packProjectFiles(Object.entries(values).map(([id, content]) => ({ path: id, content })));
+}
+
+export function unpackBlanks(config: FillInBlankConfig, code: string): Record<string, string> {
+  const values = unpackProjectFiles(code, config.blanks.map((blank) => blank.id));
+  // Answers are single lines; anything after the first line is ignored
+  return Object.fromEntries(config.blanks.map((blank) => [blank.id, (values.get(blank.id) ?? '').split('\n')[0]]));
+}
+
+/**
+ * The template with each blank replaced by its value
+ */
+export function fillBlanks(template: string, values: Record<string, string>): string {
+  return template.replace(BLANK_MARKER, (marker, id: string) => values[id] ?? marker);
+}
+
+/**
+ * One test result per blank, passed when the value is an accepted answer
+ */
+export function gradeBlanks(config: FillInBlankConfig, values: Record<string, string>): TestResult[] {
+  return config.blanks.map((blank) => {
+    const value = values[blank.id] ?? '';
+    const passed = blank.answers.some((answer) => normalizeAnswer(answer) === normalizeAnswer(value));
+    return {
+      testCaseId: blankTestId(blank.id),
+      testName: `Blank ${blank.id}`,
+      passed,
+      actual: value,
+      expected: null, // The answers would give the exercise away
+      isHidden: false,
+      points: blank.points ?? 1,
+    };
+  });
+}
+
+/**
+ * The program a submission runs as: fill-in-the-blank submissions are packed
+ * blank values, every other type is the code itself
+ */
+export function runnableCode(type: ExerciseType, config: ExerciseTypeConfig | null, code: string): string {
+  if (type === 'fill_in_blank' && config) {
+    const blanks = config as FillInBlankConfig;
+    return fillBlanks(blanks.template, unpackBlanks(blanks, code));
+  }
+  return code;
+}
+
+/**
+ * Whether enough tests pass for a debugging exercise to count as fixed.
+ * Caps the requirement when hidden tests were left out of the grading.
+ */
+export function isFixed(config: DebuggingConfig, testResults: TestResult[]): boolean {
+  const passed = testResults.filter((result) => result.passed).length;
+  return testResults.length > 0 && passed >= Math.min(config.minPassingTests, testResults.length);
+}
+
+// A stable order that does not follow the solution
+function shuffledLines(config: ParsonsConfig): ParsonsLine[] {
+  const key = (line: ParsonsLine) => crypto.createHash('sha1').update(`${line.id}:${line.code}`).digest('hex');
+  return [...config.lines].sort((a, b) => key(a).localeCompare(key(b)));
+}
@@ -0,0 +1,74 @@
+import type { TestResult } from '../codeExecution.service';
+import { RANDOMIZED_TEST_ID } from './reference.oracle';
+
+/**
+ * Grading of one piece of exercise code (solution or starter) against all test cases
+ */
+export interface ValidationRun {
+  status: 'passed' | 'failed' | 'error' | 'timeout';
+  passedTests: number;
+  totalTests: number;
+  testResults: TestResult[];
+  errorMessage?: string;
+  compilerOutput?: string;
+}
+
+export interface ExerciseValidationReport {
+  valid: boolean;
+  problems: string[]; // Why the exercise cannot be published
+  solution: ValidationRun | null; // null when there is no solution code
+  starterCode: ValidationRun | null; // null when there is no starter code
+}
+
+/**
+ * Decide whether an exercise is ready to publish: the reference solution must
+ * pass every test case, and the starter code must fail at least one so that
+ * learners cannot pass without writing anything. The broken starter code of a
+ * debugging exercise must pass fewer than the tests a fix needs.
+ */
+export function buildValidationReport(input: {
+  testCaseCount: number;
+  hasInputGenerator: boolean;
+  minPassingTests?: number; // Debugging exercises
+  solution: ValidationRun | null;
+  starterCode: ValidationRun | null;
+}): ExerciseValidationReport {
+  const { solution, starterCode } = input;
+  const problems: string[] = [];
+
+  if (input.testCaseCount === 0 && !input.hasInputGenerator) {
+    problems.push('Exercise has no test cases');
+  }
+
+  if (!solution) {
+    problems.push('Exercise has no reference solution');
+  } else {
+    if (solution.compilerOutput) {
+      problems.push('Reference solution does not compile');
+    } else if (solution.errorMessage) {
+      problems.push(`Reference solution failed to run: ${solution.errorMessage}`);
+    }
+
+    for (const result of solution.testResults.filter((r) => !r.passed)) {
+      problems.push(`Reference solution fails "${result.testName}"${result.error ? `: ${result.error}` : ''}`);
+    }
+
+    // The oracle drops the randomized tests when the solution rejects every generated input
+    if (input.hasInputGenerator && !solution.testResults.some((r) => r.testCaseId === RANDOMIZED_TEST_ID)) {
+      problems.push('Reference solution fails on every randomized input');
+    }
+  }
+
+  if (input.minPassingTests !== undefined) {
+    if (solution && input.minPassingTests > solution.totalTests) {
+      problems.push(`A fix needs ${input.minPassingTests} passing tests but the exercise only has ${solution.totalTests}`);
+    }
+    if (starterCode && starterCode.passedTests >= input.minPassingTests) {
+      problems.push(`Starter code already passes ${starterCode.passedTests} tests, enough to count as fixed`);
+    }
+  } else if (starterCode && starterCode.totalTests > 0 && starterCode.testResults.every((r) => r.passed)) {
+    problems.push('Starter code already passes every test case');
+  }
+
+  return { valid: problems.length === 0, problems, solution, starterCode };
+}
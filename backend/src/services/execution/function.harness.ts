@@ -0,0 +1,443 @@
+/**
+ * Harness for Java and Python exercises that declare a function signature.
+ * Like the browser worker's `new Function('return ' + code)()` for JavaScript,
+ * the learner only writes the function: the generated program decodes
+ * `input_data.args` from stdin, converts each argument to its declared type,
+ * calls the function and prints `{"result": ...}` as the last line of stdout.
+ *
+ * Signature types are language neutral: int, long, double, boolean, string and
+ * arrays of those (`int[]`, `string[][]`). Return types may also be void.
+ */
+import { buildCppHarness, findCppEntryPoint, hasCppMain } from './cpp.harness';
+import type { ExecutionLanguage } from './execution.backend';
+
+export interface FunctionParameter {
+  name: string;
+  type: string;
+}
+
+export interface FunctionSignature {
+  name: string;
+  parameters: FunctionParameter[];
+  returnType: string;
+}
+
+export type SignatureLanguage = 'java' | 'python';
+
+export const SIGNATURE_LANGUAGES: SignatureLanguage[] = ['java', 'python'];
+
+const MAX_PARAMETERS = 10;
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const TYPE = /^(int|long|double|boolean|string)(\[\])*$/;
+
+const JAVA_TYPES: Record<string, string> = {
+  int: 'int',
+  long: 'long',
+  double: 'double',
+  boolean: 'boolean',
+  string: 'String',
+};
+
+const PYTHON_TYPES: Record<string, string> = {
+  int: 'int',
+  long: 'int',
+  double: 'float',
+  boolean: 'bool',
+  string: 'str',
+};
+
+const JAVA_PRELUDE = `final class HarnessJson {
+  private final String s;
+  private int pos;
+
+  private HarnessJson(String s) {
+    this.s = s;
+  }
+
+  static java.util.List<?> args(String input, int count) {
+    HarnessJson parser = new HarnessJson(input);
+    Object data = parser.value();
+    parser.space();
+    if (parser.pos != input.length() || !(data instanceof java.util.Map)) throw invalid();
+    Object args = ((java.util.Map<?, ?>) data).get("args");
+    if (!(args instanceof java.util.List) || ((java.util.List<?>) args).size() != count) {
+      throw new IllegalArgumentException("Expected " + count + " argument(s) in test input");
+    }
+    return (java.util.List<?>) args;
+  }
+
+  static Object convert(Object value, Class<?> type) {
+    if (type.isArray()) {
+      if (!(value instanceof java.util.List)) throw new IllegalArgumentException("Expected an array argument");
+      java.util.List<?> items = (java.util.List<?>) value;
+      Object array = java.lang.reflect.Array.newInstance(type.getComponentType(), items.size());
+      for (int i = 0; i < items.size(); i++) {
+        java.lang.reflect.Array.set(array, i, convert(items.get(i), type.getComponentType()));
+      }
+      return array;
+    }
+    if (type == String.class) {
+      if (!(value instanceof String)) throw new IllegalArgumentException("Expected a string argument");
+      return value;
+    }
+    if (type == boolean.class) {
+      if (!(value instanceof Boolean)) throw new IllegalArgumentException("Expected a boolean argument");
+      return value;
+    }
+    if (!(value instanceof java.math.BigDecimal)) throw new IllegalArgumentException("Expected a numeric argument");
+    java.math.BigDecimal number = (java.math.BigDecimal) value;
+    if (type == int.class) return number.intValue();
+    if (type == long.class) return number.longValue();
+    return number.doubleValue();
+  }
+
+  static String write(Object value) {
+    if (value == null) return "null";
+    if (value instanceof String || value instanceof Character) return quote(String.valueOf(value));
+    if (value instanceof Double || value instanceof Float) {
+      double number = ((Number) value).doubleValue();
+      return Double.isFinite(number) ? String.valueOf(number) : "null";
+    }
+    if (value instanceof Number || value instanceof Boolean) return String.valueOf(value);
+
+    StringBuilder out = new StringBuilder("[");
+    if (value.getClass().isArray()) {
+      for (int i = 0; i < java.lang.reflect.Array.getLength(value); i++) {
+        if (i > 0) out.append(',');
+        out.append(write(java.lang.reflect.Array.get(value, i)));
+      }
+    } else if (value instanceof Iterable) {
+      for (Object item : (Iterable<?>) value) {
+        if (out.length() > 1) out.append(',');
+        out.append(write(item));
+      }
+    } else {
+      return quote(String.valueOf(value));
+    }
+    return out.append(']').toString();
+  }
+
+  private static String quote(String value) {
+    StringBuilder out = new StringBuilder("\\"");
+    for (char c : value.toCharArray()) {
+      if (c == '"' || c == '\\\\') out.append('\\\\').append(c);
+      else if (c == '\\n') out.append("\\\\n");
+      else if (c < 0x20) out.append(String.format("\\\\u%04x", (int) c));
+      else out.append(c);
+    }
+    return out.append('"').toString();
+  }
+
+  private static IllegalArgumentException invalid() {
+    return new IllegalArgumentException("Invalid JSON test input");
+  }
+
+  private char peek() {
+    return pos < s.length() ? s.charAt(pos) : '\\0';
+  }
+
+  private void expect(char c) {
+    if (peek() != c) throw invalid();
+    pos++;
+  }
+
+  private void space() {
+    while (pos < s.length() && Character.isWhitespace(s.charAt(pos))) pos++;
+  }
+
+  private Object value() {
+    space();
+    char c = peek();
+    if (c == '{') {
+      java.util.Map<String, Object> map = new java.util.LinkedHashMap<>();
+      pos++;
+      space();
+      if (peek() == '}') { pos++; return map; }
+      while (true) {
+        space();
+        String key = string();
+        space();
+        expect(':');
+        map.put(key, value());
+        space();
+        if (peek() == ',') { pos++; continue; }
+        expect('}');
+        return map;
+      }
+    }
+    if (c == '[') {
+      java.util.List<Object> list = new java.util.ArrayList<>();
+      pos++;
+      space();
+      if (peek() == ']') { pos++; return list; }
+      while (true) {
+        list.add(value());
+        space();
+        if (peek() == ',') { pos++; continue; }
+        expect(']');
+        return list;
+      }
+    }
+    if (c == '"') return string();
+    if (s.startsWith("true", pos)) { pos += 4; return Boolean.TRUE; }
+    if (s.startsWith("false", pos)) { pos += 5; return Boolean.FALSE; }
+    if (s.startsWith("null", pos)) { pos += 4; return null; }
+
+    int start = pos;
+    while (pos < s.length() && "+-0123456789.eE".indexOf(s.charAt(pos)) >= 0) pos++;
+    try {
+      return new java.math.BigDecimal(s.substring(start, pos));
+    } catch (NumberFormatException error) {
+      throw invalid();
+    }
+  }
+
+  private String string() {
+    expect('"');
+    StringBuilder out = new StringBuilder();
+    while (peek() != '"') {
+      if (pos >= s.length()) throw invalid();
+      char c = s.charAt(pos++);
+      if (c != '\\\\') { out.append(c); continue; }
+      char e = peek();
+      pos++;
+      switch (e) {
+        case 'n': out.append('\\n'); break;
+        case 't': out.append('\\t'); break;
+        case 'r': out.append('\\r'); break;
+        case 'b': out.append('\\b'); break;
+        case 'f': out.append('\\f'); break;
+        case 'u':
+          if (pos + 4 > s.length()) throw invalid();
+          out.append((char) Integer.parseInt(s.substring(pos, pos + 4), 16));
+          pos += 4;
+          break;
+        default: out.append(e);
+      }
+    }
+    pos++;
+    return out.toString();
+  }
+}`;
+
+const PYTHON_PRELUDE = `def _harness_argument(value, kind):
+    if kind.endswith("[]"):
+        if not isinstance(value, list):
+            raise TypeError("Expected an array argument")
+        return [_harness_argument(item, kind[:-2]) for item in value]
+    if kind == "string":
+        if not isinstance(value, str):
+            raise TypeError("Expected a string argument")
+        return value
+    if kind == "boolean":
+        if not isinstance(value, bool):
+            raise TypeError("Expected a boolean argument")
+        return value
+    if isinstance(value, bool) or not isinstance(value, (int, float)):
+        raise TypeError("Expected a numeric argument")
+    return float(value) if kind == "double" else int(value)
+
+
+def _harness_result(value, kind):
+    if value is None:
+        return None
+    if kind.endswith("[]"):
+        return [_harness_result(item, kind[:-2]) for item in value]
+    if kind == "double":
+        number = float(value)
+        return number if _harness_math.isfinite(number) else None
+    return value
+
+
+def _harness_main():
+    try:
+        args = _harness_json.loads(_harness_sys.stdin.read())["args"]
+        if not isinstance(args, list) or len(args) != len(_HARNESS_PARAMETERS):
+            raise TypeError("Expected %d argument(s) in test input" % len(_HARNESS_PARAMETERS))
+        args = [_harness_argument(value, kind) for value, kind in zip(args, _HARNESS_PARAMETERS)]
+    except TypeError as error:
+        print(error, file=_harness_sys.stderr)
+        _harness_sys.exit(1)
+    except (ValueError, KeyError):
+        print("Invalid JSON test input", file=_harness_sys.stderr)
+        _harness_sys.exit(1)
+
+    namespace = {"__name__": "solution"}
+    exec(compile(_HARNESS_SOURCE, "solution.py", "exec"), namespace)
+    function = namespace.get(_HARNESS_FUNCTION)
+    if function is None and isinstance(namespace.get("Solution"), type):
+        function = getattr(namespace["Solution"](), _HARNESS_FUNCTION, None)
+    if not callable(function):
+        print("Function %s is not defined" % _HARNESS_FUNCTION, file=_harness_sys.stderr)
+        _harness_sys.exit(1)
+
+    result = _harness_result(function(*args), _HARNESS_RETURN)
+    print()
+    print(_harness_json.dumps({"result": result}))`;
+
+/**
+ * Check a signature when an exercise is saved.
+ * Returns an error message, or null when the signature is valid.
+ */
+export function validateFunctionSignature(signature: any): string | null {
+  if (!signature || typeof signature !== 'object') {
+    return 'Function signature must be an object';
+  }
+  if (typeof signature.name !== 'string' || !IDENTIFIER.test(signature.name)) {
+    return 'Function signature needs a valid function name';
+  }
+  if (!Array.isArray(signature.parameters) || signature.parameters.length > MAX_PARAMETERS) {
+    return `Function signature needs a parameters list of at most ${MAX_PARAMETERS} entries`;
+  }
+
+  const names = new Set<string>();
+  for (const [i, parameter] of signature.parameters.entries()) {
+    if (!parameter || typeof parameter.name !== 'string' || !IDENTIFIER.test(parameter.name)) {
+      return `parameters[${i}] needs a valid name`;
+    }
+    if (names.has(parameter.name)) {
+      return `Duplicate parameter name: ${parameter.name}`;
+    }
+    names.add(parameter.name);
+    if (typeof parameter.type !== 'string' || !TYPE.test(parameter.type)) {
+      return `parameters[${i}].type must be int, long, double, boolean, string or an array of those`;
+    }
+  }
+
+  if (typeof signature.returnType !== 'string' || (signature.returnType !== 'void' && !TYPE.test(signature.returnType))) {
+    return 'returnType must be void, int, long, double, boolean, string or an array of those';
+  }
+  return null;
+}
+
+function javaType(type: string): string {
+  const base = type.replace(/\[\]/g, '');
+  return JAVA_TYPES[base] + type.slice(base.length);
+}
+
+function pythonType(type: string): string {
+  if (type === 'void') return 'None';
+  return type.endsWith('[]') ? `list[${pythonType(type.slice(0, -2))}]` : PYTHON_TYPES[type];
+}
+
+/**
+ * Build the Java program for a signature: the learner's `Solution` class
+ * followed by a generated Main that calls the function on an instance of it.
+ * `Solution` may not be public since it shares Main.java with Main.
+ */
+export function buildJavaHarness(code: string, signature: FunctionSignature): string {
+  const declarations = signature.parameters
+    .map((parameter, i) => `    ${javaType(parameter.type)} arg${i};`)
+    .join('\n');
+  const conversions = signature.parameters
+    .map((parameter, i) => {
+      const type = javaType(parameter.type);
+      return `      arg${i} = (${type}) HarnessJson.convert(args.get(${i}), ${type}.class);`;
+    })
+    .join('\n');
+  const call = `new Solution().${signature.name}(${signature.parameters.map((_, i) => `arg${i}`).join(', ')})`;
+  const invoke = signature.returnType === 'void'
+    ? `    ${call};\n    Object result = null;`
+    : `    Object result = ${call};`;
+
+  return `${code.replace(/\bpublic\s+(?=(final\s+)?class\s+Solution\b)/, '')}
+
+${JAVA_PRELUDE}
+public class Main {
+  public static void main(String[] arguments) throws Exception {
+    String input = new String(System.in.readAllBytes(), java.nio.charset.StandardCharsets.UTF_8);
+${declarations}
+    try {
+      java.util.List<?> args = HarnessJson.args(input, ${signature.parameters.length});
+${conversions}
+    } catch (IllegalArgumentException error) {
+      System.err.println(error.getMessage());
+      System.exit(1);
+      return;
+    }
+${invoke}
+    System.out.println();
+    System.out.println("{\\"result\\":" + HarnessJson.write(result) + "}");
+  }
+}
+`;
+}
+
+/**
+ * Build the Python program for a signature. The learner's code runs in its own
+ * namespace (not as __main__), so the function may be defined at module level
+ * or as a method of a `Solution` class.
+ */
+export function buildPythonHarness(code: string, signature: FunctionSignature): string {
+  return `import json as _harness_json
+import math as _harness_math
+import sys as _harness_sys
+
+_HARNESS_SOURCE = ${JSON.stringify(code)}
+_HARNESS_FUNCTION = ${JSON.stringify(signature.name)}
+_HARNESS_PARAMETERS = ${JSON.stringify(signature.parameters.map((parameter) => parameter.type))}
+_HARNESS_RETURN = ${JSON.stringify(signature.returnType)}
+
+
+${PYTHON_PRELUDE}
+
+_harness_main()
+`;
+}
+
+/**
+ * Starter code declaring the function, for exercises created without any
+ */
+export function functionStub(language: SignatureLanguage, signature: FunctionSignature): string {
+  if (language === 'python') {
+    const parameters = signature.parameters.map((p) => `${p.name}: ${pythonType(p.type)}`).join(', ');
+    return `def ${signature.name}(${parameters}) -> ${pythonType(signature.returnType)}:
+    # Your code here
+    pass
+`;
+  }
+
+  const parameters = signature.parameters.map((p) => `${javaType(p.type)} ${p.name}`).join(', ');
+  const returnType = signature.returnType === 'void' ? 'void' : javaType(signature.returnType);
+  const defaults: Record<string, string> = { int: '0', long: '0', double: '0.0', boolean: 'false', String: '""' };
+  const returnStatement = signature.returnType === 'void'
+    ? ''
+    : `\n        return ${returnType.endsWith('[]') ? 'null' : defaults[returnType]};`;
+  return `class Solution {
+    public ${returnType} ${signature.name}(${parameters}) {
+        // Your code here${returnStatement}
+    }
+}
+`;
+}
+
+/**
+ * The program to run for a submission. Java and Python get the signature
+ * harness when the exercise declares one; C++ without main() gets the C++
+ * harness, calling the function the starter code (or else the submission)
+ * defines. Everything else runs as written.
+ */
+export function prepareProgram(
+  language: ExecutionLanguage,
+  code: string,
+  starterCode: string | null,
+  signature: FunctionSignature | null
+): { program: string; harness: boolean } | { error: string } {
+  if (signature && language === 'java') {
+    return { program: buildJavaHarness(code, signature), harness: true };
+  }
+  if (signature && language === 'python') {
+    return { program: buildPythonHarness(code, signature), harness: true };
+  }
+  if (language === 'cpp' && !hasCppMain(code)) {
+    const entryPoint = findCppEntryPoint(starterCode || '') || findCppEntryPoint(code);
+    if (!entryPoint) {
+      return { error: 'Could not find a function to test in the submitted code' };
+    }
+    return { program: buildCppHarness(code, entryPoint), harness: true };
+  }
+  return { program: code, harness: false };
+}
+
+// Every harness prints its result the same way
+export { parseCppHarnessOutput as parseHarnessOutput } from './cpp.harness';
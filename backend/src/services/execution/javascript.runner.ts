@@ -0,0 +1,375 @@
+import crypto from 'crypto';
+import type { TestCase, TestResult } from '../codeExecution.service';
+import { judgeOutput } from './comparators';
+import { runSandboxed } from './process.sandbox';
+import { DEFAULT_RESOURCE_LIMITS, LimitStatus, limitMessage, ResourceLimits, testCaseLimits } from './resource.limits';
+
+export interface JavaScriptRunOutcome {
+  testResults: TestResult[];
+  executionTimeMs: number;
+  timedOut: boolean;
+  error?: string;
+}
+
+export interface JavaScriptCallResult {
+  actual?: any;
+  error?: string; // Thrown by the call, or the limit it exceeded
+  status?: LimitStatus;
+  executionTime?: number;
+}
+
+export interface JavaScriptEvaluation {
+  results: JavaScriptCallResult[];
+  error?: string; // The code could not be evaluated or the process failed
+  timedOut: boolean; // Loading the code timed out
+  durationMs: number;
+  stdout: string; // console.log/info/debug output of the learner code
+  stderr: string; // console.warn/error output
+}
+
+// Node startup and loading the learner code, on top of the per-call time limits
+const PROCESS_STARTUP_MS = 5000;
+const MAX_CONSOLE_OUTPUT = 64 * 1024;
+// Results of performance tests can be large
+const MAX_RESULT_BYTES = 32 * 1024 * 1024;
+
+/**
+ * Script evaluated inside the vm context before the learner code. Everything the
+ * learner code can reach is created here, in the context's own realm: host
+ * objects would hand it the host's Function constructor and with it `process`.
+ * It defines `console`, buffering the output, `__load` to define the learner
+ * function and `__call` to call it with arguments passed as a JSON string. Both
+ * return JSON strings and capture the builtins they use before the learner code
+ * can replace them.
+ */
+const CONTEXT_SOURCE = `
+(() => {
+  const MAX_CONSOLE_OUTPUT = ${MAX_CONSOLE_OUTPUT};
+  const { stringify, parse } = JSON;
+  const { defineProperty } = Object;
+  const output = { stdout: '', stderr: '' };
+  let userFunction;
+
+  const format = (value) => {
+    if (typeof value === 'string') return value;
+    try {
+      return stringify(value) ?? String(value);
+    } catch (error) {
+      return String(value);
+    }
+  };
+  const writer = (stream) => (...values) => {
+    const remaining = MAX_CONSOLE_OUTPUT - output.stdout.length - output.stderr.length;
+    if (remaining > 0) {
+      output[stream] += (values.map(format).join(' ') + '\\n').slice(0, remaining);
+    }
+  };
+  const toPlain = (value) => {
+    if (value === undefined) return null;
+    try {
+      return parse(stringify(value));
+    } catch (error) {
+      return String(value);
+    }
+  };
+  const describe = (error) => {
+    try {
+      return error && error.message ? String(error.message) : String(error);
+    } catch (nested) {
+      return 'Unknown error';
+    }
+  };
+  const define = (name, value) => defineProperty(globalThis, name, { value });
+
+  const out = writer('stdout');
+  const err = writer('stderr');
+  globalThis.console = { log: out, info: out, debug: out, warn: err, error: err };
+
+  define('__load', (factory) => {
+    try {
+      userFunction = factory();
+    } catch (error) {
+      return stringify({ error: describe(error) });
+    }
+    return stringify(typeof userFunction === 'function' ? {} : { error: 'Submitted code must evaluate to a function' });
+  });
+  define('__call', (argsJson) => {
+    try {
+      return stringify({ actual: toPlain(userFunction(...parse(argsJson))) });
+    } catch (error) {
+      return stringify({ error: describe(error) });
+    }
+  });
+  define('__output', () => stringify(output));
+})();
+`;
+
+/**
+ * Script executed by the child Node process. It reads `{ code, inputs, timeoutsMs,
+ * nonce }` from stdin, evaluates the learner function inside a fresh vm context
+ * (mirroring the browser worker's `new Function('return ' + code)()`) and writes one
+ * JSON line per step to stdout: `{ loaded }` or `{ error }` for the code itself, then
+ * one `{ result }` per call as soon as it finishes, then `{ done }` with the console
+ * output of the learner code. `inputs` holds one argument list per call and
+ * `timeoutsMs` its time limit; each result is the return value (`{ actual,
+ * executionTime }`) or the thrown error (`{ error }`) of one call. Streaming the
+ * results tells the parent which call was running if the process dies, e.g. when
+ * the heap limit is hit. Every line starts with the run's nonce, so the parent can
+ * tell them from anything else written to stdout.
+ * Only primitives cross into the context, and only strings come back out.
+ * Comparison happens in the parent.
+ */
+const RUNNER_SOURCE = `
+const vm = require('vm');
+const CONTEXT_SOURCE = ${JSON.stringify(CONTEXT_SOURCE)};
+
+const describe = (error) => ({
+  error: typeof error?.message === 'string' ? error.message : 'Execution failed',
+  timedOut: Boolean(error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT'),
+});
+
+// Anything but a JSON string from the context is treated as a failure
+const fromContext = (value) => {
+  if (typeof value !== 'string') throw new Error('The submitted code interfered with the runner');
+  return JSON.parse(value);
+};
+
+let input = '';
+process.stdin.on('data', (chunk) => { input += chunk; });
+process.stdin.on('end', () => {
+  const { code, inputs, timeoutsMs, loadTimeoutMs, nonce } = JSON.parse(input);
+  const send = (payload) => process.stdout.write(nonce + JSON.stringify(payload) + '\\n');
+  const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+  vm.runInContext(CONTEXT_SOURCE, context);
+  const consoleOutput = () => fromContext(vm.runInContext('__output()', context, { timeout: 1000 }));
+
+  try {
+    const loaded = fromContext(vm.runInContext(
+      '__load(function () { return ' + code + '\\n})',
+      context,
+      { timeout: loadTimeoutMs }
+    ));
+    if (loaded.error !== undefined) {
+      send({ error: String(loaded.error), timedOut: false, ...consoleOutput() });
+      return;
+    }
+  } catch (error) {
+    send({ ...describe(error), ...consoleOutput() });
+    return;
+  }
+  send({ loaded: true });
+
+  inputs.forEach((args, index) => {
+    try {
+      context.__argsJson = JSON.stringify(args);
+      const startTime = process.hrtime.bigint();
+      const outcome = fromContext(vm.runInContext('__call(__argsJson)', context, { timeout: timeoutsMs[index] }));
+      const executionTime = Number(process.hrtime.bigint() - startTime) / 1e6;
+
+      send({ result: outcome.error !== undefined ? { error: String(outcome.error) } : { actual: outcome.actual, executionTime } });
+    } catch (error) {
+      const { error: message, timedOut } = describe(error);
+      send({ result: timedOut ? { error: message, status: 'timeout' } : { error: message } });
+    }
+  });
+
+  send({ done: true, ...consoleOutput() });
+});
+`;
+
+/**
+ * Grades JavaScript submissions on the server.
+ * Every run gets its own Node process started with the permission model enabled
+ * (no file system, child process or worker access), a capped heap, a CPU rlimit and
+ * a wall-clock timeout. The submitted code runs in a vm context that holds no host
+ * objects, so it cannot reach `require` or `process`; the process limits contain
+ * what it does within the context.
+ */
+export class JavaScriptRunner {
+  /**
+   * Grade `code` against the test cases, each within its own limits
+   * (test case overrides, else `limits`)
+   */
+  async run(code: string, testCases: TestCase[], limits: ResourceLimits = DEFAULT_RESOURCE_LIMITS): Promise<JavaScriptRunOutcome> {
+    const evaluation = await this.evaluate(
+      code,
+      testCases.map((testCase) => testCase.input_data?.args || []),
+      testCases.map((testCase) => testCaseLimits(limits, testCase))
+    );
+    const testResults: TestResult[] = [];
+    for (const [index, testCase] of testCases.entries()) {
+      const expected = testCase.expected_output?.result;
+      const baseResult = {
+        testCaseId: testCase.id,
+        testName: testCase.test_name,
+        expected,
+        isHidden: testCase.is_hidden,
+        points: testCase.points,
+        comparator: testCase.comparator || 'exact',
+      };
+      const result = evaluation.results[index];
+
+      if (!result || result.error !== undefined) {
+        testResults.push({
+          ...baseResult,
+          passed: false,
+          actual: null,
+          error: result?.error ?? evaluation.error,
+          status: result?.status,
+        });
+        continue;
+      }
+
+      const comparison = await judgeOutput(testCase, result.actual, expected);
+      testResults.push({
+        ...baseResult,
+        passed: comparison.passed,
+        actual: result.actual,
+        error: comparison.passed ? undefined : comparison.message,
+        executionTime: result.executionTime,
+      });
+    }
+
+    return {
+      testResults,
+      executionTimeMs: evaluation.durationMs,
+      timedOut: evaluation.timedOut,
+      error: evaluation.error,
+    };
+  }
+
+  /**
+   * Call the function defined by `code` once per argument list and return the raw
+   * outcome of each call. `limits` applies to every call, or is given per call.
+   * `error` is set when the code could not run at all.
+   * Calls sharing a memory limit share a process. When a call kills its process
+   * (heap exhausted, CPU rlimit) it is reported as exceeding that limit and the
+   * remaining calls continue in a fresh process.
+   */
+  async evaluate(
+    code: string,
+    inputs: any[][],
+    limits: ResourceLimits | ResourceLimits[] = DEFAULT_RESOURCE_LIMITS
+  ): Promise<JavaScriptEvaluation> {
+    const callLimits = Array.isArray(limits) ? limits : inputs.map(() => limits);
+    const loadLimits = callLimits[0] ?? (Array.isArray(limits) ? DEFAULT_RESOURCE_LIMITS : limits);
+    const evaluation: JavaScriptEvaluation = { results: [], timedOut: false, durationMs: 0, stdout: '', stderr: '' };
+
+    let next = 0;
+    do {
+      const memoryLimitMb = (callLimits[next] ?? loadLimits).memoryLimitMb;
+      let end = next;
+      while (end < inputs.length && callLimits[end].memoryLimitMb === memoryLimitMb) end++;
+
+      const batch = await this.runProcess(code, inputs.slice(next, end), callLimits.slice(next, end), {
+        memoryLimitMb,
+        timeLimitMs: loadLimits.timeLimitMs,
+      });
+      evaluation.durationMs += batch.durationMs;
+      evaluation.stdout += batch.stdout;
+      evaluation.stderr += batch.stderr;
+      evaluation.results.push(...batch.results);
+
+      if (batch.error !== undefined) {
+        evaluation.error = batch.error;
+        evaluation.timedOut = batch.timedOut;
+        break;
+      }
+      if (batch.crash) {
+        evaluation.results.push(batch.crash);
+        next = evaluation.results.length;
+      } else {
+        next = end;
+      }
+    } while (next < inputs.length);
+
+    return evaluation;
+  }
+
+  /**
+   * One child process for a run of calls that share a memory limit
+   */
+  private async runProcess(
+    code: string,
+    inputs: any[][],
+    callLimits: ResourceLimits[],
+    processLimits: ResourceLimits
+  ): Promise<{
+    results: JavaScriptCallResult[];
+    crash?: JavaScriptCallResult; // The call that was running when the process died
+    error?: string;
+    timedOut: boolean;
+    durationMs: number;
+    stdout: string;
+    stderr: string;
+  }> {
+    const timeoutsMs = callLimits.map((limits) => limits.timeLimitMs);
+    const budgetMs = PROCESS_STARTUP_MS + processLimits.timeLimitMs + timeoutsMs.reduce((sum, ms) => sum + ms, 0);
+    const nonce = crypto.randomBytes(16).toString('hex');
+
+    const execution = await runSandboxed({
+      command: process.execPath,
+      args: [
+        '--experimental-permission',
+        '--no-warnings',
+        `--max-old-space-size=${processLimits.memoryLimitMb}`,
+        '-e',
+        RUNNER_SOURCE,
+      ],
+      stdin: JSON.stringify({ code, inputs, timeoutsMs, loadTimeoutMs: processLimits.timeLimitMs, nonce }),
+      timeoutMs: budgetMs,
+      cpuSeconds: Math.ceil(budgetMs / 1000),
+      maxOutputBytes: MAX_RESULT_BYTES,
+    });
+
+    const results: JavaScriptCallResult[] = [];
+    let loaded = false;
+    let done: { stdout?: string; stderr?: string } | null = null;
+    let failure: { error: string; timedOut: boolean; stdout?: string; stderr?: string } | null = null;
+    for (const line of execution.stdout.split('\n')) {
+      if (!line.startsWith(nonce)) {
+        continue; // Not written by the runner
+      }
+      let message: any;
+      try {
+        message = JSON.parse(line.slice(nonce.length));
+      } catch {
+        continue; // Cut off when the process died
+      }
+      if (message.loaded) loaded = true;
+      else if (message.result) results.push(message.result);
+      else if (message.done) done = message;
+      else if (message.error !== undefined) failure = message;
+    }
+
+    const base = { results, durationMs: execution.durationMs, timedOut: false };
+    if (failure) {
+      return { ...base, error: failure.error, timedOut: failure.timedOut, stdout: failure.stdout || '', stderr: failure.stderr || '' };
+    }
+    if (done) {
+      return { ...base, stdout: done.stdout || '', stderr: done.stderr || '' };
+    }
+
+    // The process died; console output is only sent at the end and is lost
+    const outOfTime = execution.timedOut || execution.signal === 'SIGXCPU' || execution.signal === 'SIGKILL';
+    const outOfMemory = execution.stderr.includes('heap out of memory');
+    let crash: JavaScriptCallResult;
+    if (execution.outputTruncated) {
+      crash = { error: 'Execution produced too much output' };
+    } else if (outOfMemory) {
+      crash = { error: limitMessage('memory_exceeded', processLimits), status: 'memory_exceeded' };
+    } else if (outOfTime) {
+      crash = { error: limitMessage('timeout', callLimits[results.length] ?? processLimits), status: 'timeout' };
+    } else {
+      crash = { error: execution.stderr.trim() || 'Execution terminated unexpectedly' };
+    }
+
+    if (!loaded || results.length >= inputs.length) {
+      // Nothing to blame on a single call
+      return { ...base, error: crash.error, timedOut: crash.status === 'timeout', stdout: '', stderr: '' };
+    }
+    return { ...base, crash, stdout: '', stderr: '' };
+  }
+}
+
+export const javaScriptRunner = new JavaScriptRunner();
@@ -0,0 +1,80 @@
+import axios from 'axios';
+import { logger } from '../../config/logger.config';
+import {
+  DEFAULT_CPU_TIME_LIMIT_SECONDS,
+  DEFAULT_MEMORY_LIMIT_MB,
+  ExecutionBackend,
+  ExecutionOutput,
+  ExecutionRequest,
+} from './execution.backend';
+import { looksLikeOutOfMemory } from './resource.limits';
+
+// Language IDs for Judge0
+const LANGUAGE_IDS: Record<string, number> = {
+  javascript: 63, // Node.js
+  java: 62, // Java (OpenJDK)
+  python: 71, // Python 3
+  cpp: 54, // C++ (GCC 9.2.0)
+};
+
+/**
+ * Execution backend backed by a Judge0 server (self-hosted or cloud)
+ */
+export class Judge0Backend implements ExecutionBackend {
+  readonly name = 'judge0';
+
+  constructor(private judge0Url: string) {}
+
+  async execute(request: ExecutionRequest): Promise<ExecutionOutput> {
+    const languageId = LANGUAGE_IDS[request.language];
+    if (!languageId) {
+      throw new Error(`Unsupported language: ${request.language}`);
+    }
+
+    const memoryLimitKb = (request.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB) * 1000;
+    try {
+      const submitResponse = await axios.post(`${this.judge0Url}/submissions?base64_encoded=true&wait=true`, {
+        source_code: Buffer.from(request.code).toString('base64'),
+        language_id: languageId,
+        stdin: Buffer.from(request.stdin).toString('base64'),
+        cpu_time_limit: request.cpuTimeLimitSeconds ?? DEFAULT_CPU_TIME_LIMIT_SECONDS,
+        memory_limit: memoryLimitKb,
+      });
+
+      const submission = submitResponse.data;
+      const decode = (value?: string | null) => Buffer.from(value || '', 'base64').toString();
+      const output: ExecutionOutput = {
+        status: 'success',
+        stdout: decode(submission.stdout),
+        stderr: decode(submission.stderr),
+        compileOutput: decode(submission.compile_output),
+        durationMs: submission.time ? Math.round(parseFloat(submission.time) * 1000) : undefined,
+      };
+
+      // Judge0 status ids: 5 time limit, 6 compilation error, 7-12 runtime errors.
+      // There is no memory status: running out shows up as a runtime error with
+      // peak memory (KB) at the limit or an allocation failure on stderr
+      const statusId = submission.status.id;
+      if (statusId === 5) {
+        output.status = 'timeout';
+      } else if (statusId === 6) {
+        output.status = 'compile_error';
+      } else if (
+        statusId >= 7 && statusId <= 12
+        && ((submission.memory ?? 0) >= memoryLimitKb || looksLikeOutOfMemory(output.stderr))
+      ) {
+        output.status = 'memory_exceeded';
+      } else if (statusId >= 7 && statusId <= 12) {
+        output.status = 'runtime_error';
+        output.stderr = output.stderr || submission.status.description;
+      } else if (statusId > 12) {
+        throw new Error(submission.status.description || 'Judge0 internal error');
+      }
+
+      return output;
+    } catch (error: any) {
+      logger.error('Judge0 execution error', error);
+      throw new Error(`Code execution failed: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import type { WorkspaceFile } from './execution.backend';
+
+export type ReportedOutcome = 'passed' | 'failed' | 'error' | 'skipped';
+
+/**
+ * One test case from a JUnit XML report
+ */
+export interface ReportedTest {
+  name: string;
+  classname: string;
+  suites: string[]; // Enclosing <testsuite> names, outermost first
+  file?: string; // Set by pytest (junit_family=xunit1)
+  timeMs?: number;
+  outcome: ReportedOutcome;
+  message?: string; // Failure or error message
+  details?: string; // Failure body, usually a stack trace
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-z]+);/g, (entity, code: string) => {
+    if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+/**
+ * Fully qualified name of the class a Java source file declares, from its
+ * package and file name; JUnit reports tests under this name
+ */
+export function javaClassName(file: WorkspaceFile): string {
+  const packageName = file.content.match(/^\s*package\s+([\w.]+)\s*;/m)?.[1];
+  const className = file.path.split('/').pop()!.replace(/\.java$/, '');
+  return packageName ? `${packageName}.${className}` : className;
+}
+
+/**
+ * Read the test cases from a JUnit XML report, as written by pytest, the
+ * Node.js test runner's junit reporter and the JUnit Platform console launcher.
+ * Only the elements these reporters use are understood; comments, CDATA and
+ * processing instructions are skipped.
+ */
+export function parseJUnitReport(xml: string): ReportedTest[] {
+  const tests: ReportedTest[] = [];
+  const suites: string[] = [];
+  let current: ReportedTest | null = null;
+  let problem: { body: string } | null = null;
+
+  // Attribute values may contain an unescaped '>'
+  const tokens = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<(\/?)([\w:.-]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|([^<]+)/g;
+  for (const token of xml.matchAll(tokens)) {
+    const [, cdata, closing, tagName, rawAttributes, selfClosing, text] = token;
+
+    if (cdata !== undefined || text !== undefined) {
+      if (problem) problem.body += cdata ?? decodeEntities(text);
+      continue;
+    }
+    if (!tagName) continue;
+
+    if (tagName === 'testsuite') {
+      if (closing) suites.pop();
+      else if (!selfClosing) suites.push(parseAttributes(rawAttributes).name ?? '');
+    } else if (tagName === 'testcase') {
+      if (closing) {
+        if (current) tests.push(current);
+        current = null;
+        continue;
+      }
+      const attributes = parseAttributes(rawAttributes);
+      const time = parseFloat(attributes.time);
+      current = {
+        name: attributes.name ?? '',
+        classname: attributes.classname ?? '',
+        suites: [...suites],
+        file: attributes.file,
+        timeMs: Number.isFinite(time) ? Math.round(time * 1000) : undefined,
+        outcome: 'passed',
+      };
+      if (selfClosing) {
+        tests.push(current);
+        current = null;
+      }
+    } else if (current && ['failure', 'error', 'skipped'].includes(tagName)) {
+      if (closing) {
+        if (problem) current.details = problem.body.trim() || undefined;
+        problem = null;
+        continue;
+      }
+      const attributes = parseAttributes(rawAttributes);
+      current.outcome = tagName === 'failure' ? 'failed' : tagName === 'error' ? 'error' : 'skipped';
+      current.message = attributes.message || current.message;
+      if (!selfClosing) problem = { body: '' };
+    }
+  }
+
+  return tests;
+}
@@ -0,0 +1,458 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { logger } from '../../config/logger.config';
+import { runSandboxed, SandboxResult, SandboxUser } from './process.sandbox';
+import {
+  DEFAULT_CPU_TIME_LIMIT_SECONDS,
+  DEFAULT_MEMORY_LIMIT_MB,
+  ExecutionBackend,
+  ExecutionOutput,
+  ExecutionRequest,
+  ProjectExecutionOutput,
+  ProjectExecutionRequest,
+  TestReport,
+  WorkspaceFile,
+} from './execution.backend';
+import { javaClassName } from './junit.report';
+import { looksLikeOutOfMemory } from './resource.limits';
+import {
+  JUNIT_LISTENER_CLASS,
+  JUNIT_LISTENER_FILE,
+  JUNIT_LISTENER_SOURCE,
+  NODE_REPORTER_SOURCE,
+  PYTEST_RUNNER_SOURCE,
+  takeReports,
+} from './test.reporters';
+
+export interface LocalBackendConfig {
+  pythonCommand: string;
+  javacCommand: string;
+  javaCommand: string;
+  cxxCommand: string;
+  junitJar?: string; // JUnit Platform console launcher, for Java projects
+  sandboxUser?: SandboxUser; // Unprivileged user code runs as, without network access
+}
+
+const COMPILE_TIMEOUT_MS = 30000;
+const CLASSES_DIR = '.classes';
+const JVM_MEMORY_OVERHEAD_MB = 64;
+
+/**
+ * Execution backend that runs code on this host in a child process.
+ * Each execution gets a fresh temp working directory, an empty environment
+ * (apart from PATH), CPU/memory rlimits and a wall-clock timeout. Only with a
+ * sandbox user does code run apart from the server's files and the network.
+ * RLIMIT_CPU counts whole seconds, so fractional time limits are rounded up.
+ * Intended for offline and development deployments without a Judge0 cluster.
+ * It also runs project test suites: pytest, the Node.js test runner and the
+ * JUnit Platform console launcher. Their JUnit XML reports come back on stdout,
+ * tagged with a nonce (see test.reporters), rather than through files the
+ * learner's code could write as well.
+ */
+export class LocalProcessBackend implements ExecutionBackend {
+  readonly name = 'local';
+
+  constructor(private config: LocalBackendConfig) {}
+
+  async execute(request: ExecutionRequest): Promise<ExecutionOutput> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'code-exec-'));
+
+    try {
+      await this.handOver(workDir);
+      switch (request.language) {
+        case 'python':
+          return await this.executePython(request, workDir);
+        case 'java':
+          return await this.executeJava(request, workDir);
+        case 'cpp':
+          return await this.executeCpp(request, workDir);
+        default:
+          throw new Error(`Unsupported language: ${request.language}`);
+      }
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch((error) => {
+        logger.warn('Failed to remove execution directory', { workDir, error });
+      });
+    }
+  }
+
+  async executeProject(request: ProjectExecutionRequest): Promise<ProjectExecutionOutput> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'code-project-'));
+    // Report writers, readable but not writable for the sandbox user
+    const runnerDir = await fs.mkdtemp(path.join(os.tmpdir(), 'code-runner-'));
+
+    try {
+      await fs.chmod(runnerDir, 0o755);
+      await this.writeWorkspace(workDir, request.files);
+      await this.handOver(workDir);
+
+      switch (request.language) {
+        case 'python':
+          return await this.runPytest(request, workDir, runnerDir);
+        case 'javascript':
+          return await this.runNodeTests(request, workDir, runnerDir);
+        case 'java':
+          return await this.runJUnit(request, workDir, runnerDir);
+        default:
+          throw new Error(`Unsupported project language: ${request.language}`);
+      }
+    } finally {
+      for (const dir of [workDir, runnerDir]) {
+        await fs.rm(dir, { recursive: true, force: true }).catch((error) => {
+          logger.warn('Failed to remove execution directory', { workDir: dir, error });
+        });
+      }
+    }
+  }
+
+  private async executePython(request: ExecutionRequest, workDir: string): Promise<ExecutionOutput> {
+    await fs.writeFile(path.join(workDir, 'main.py'), request.code);
+
+    const cpuSeconds = request.cpuTimeLimitSeconds ?? DEFAULT_CPU_TIME_LIMIT_SECONDS;
+    const result = await runSandboxed({
+      command: this.config.pythonCommand,
+      args: ['-I', '-B', 'main.py'],
+      stdin: request.stdin,
+      cwd: workDir,
+      env: this.sandboxEnv(),
+      user: this.config.sandboxUser,
+      cpuSeconds,
+      memoryMb: request.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB,
+      timeoutMs: this.wallTimeoutMs(cpuSeconds),
+    });
+
+    return this.toOutput(result);
+  }
+
+  private async executeJava(request: ExecutionRequest, workDir: string): Promise<ExecutionOutput> {
+    // Judge0 convention: the entry point is a public class named Main
+    await fs.writeFile(path.join(workDir, 'Main.java'), request.code);
+
+    const compile = await runSandboxed({
+      command: this.config.javacCommand,
+      args: ['-J-Xmx256m', '-d', '.', 'Main.java'],
+      cwd: workDir,
+      env: this.sandboxEnv(),
+      user: this.config.sandboxUser,
+      timeoutMs: COMPILE_TIMEOUT_MS,
+    });
+
+    if (compile.exitCode !== 0) {
+      return {
+        status: 'compile_error',
+        stdout: '',
+        stderr: '',
+        compileOutput: compile.timedOut ? 'Compilation timed out' : compile.stderr || compile.stdout,
+        durationMs: compile.durationMs,
+      };
+    }
+
+    // The JVM reserves far more address space than it uses, so memory is capped
+    // through the heap size instead of RLIMIT_AS
+    const cpuSeconds = request.cpuTimeLimitSeconds ?? DEFAULT_CPU_TIME_LIMIT_SECONDS;
+    const memoryMb = request.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB;
+    const result = await runSandboxed({
+      command: this.config.javaCommand,
+      args: [
+        `-Xmx${Math.max(memoryMb - JVM_MEMORY_OVERHEAD_MB, 32)}m`,
+        '-XX:+UseSerialGC',
+        '-Xss8m',
+        '-cp',
+        '.',
+        'Main',
+      ],
+      stdin: request.stdin,
+      cwd: workDir,
+      env: this.sandboxEnv(),
+      user: this.config.sandboxUser,
+      // JVM startup is CPU heavy, give it one extra second
+      cpuSeconds: cpuSeconds + 1,
+      timeoutMs: this.wallTimeoutMs(cpuSeconds + 1),
+    });
+
+    return this.toOutput(result);
+  }
+
+  private async executeCpp(request: ExecutionRequest, workDir: string): Promise<ExecutionOutput> {
+    await fs.writeFile(path.join(workDir, 'main.cpp'), request.code);
+
+    const compile = await runSandboxed({
+      command: this.config.cxxCommand,
+      args: ['-std=c++17', '-O2', '-pipe', '-o', 'main', 'main.cpp'],
+      cwd: workDir,
+      env: this.sandboxEnv(),
+      user: this.config.sandboxUser,
+      timeoutMs: COMPILE_TIMEOUT_MS,
+    });
+
+    if (compile.exitCode !== 0) {
+      return {
+        status: 'compile_error',
+        stdout: '',
+        stderr: '',
+        compileOutput: compile.timedOut ? 'Compilation timed out' : compile.stderr || compile.stdout,
+        durationMs: compile.durationMs,
+      };
+    }
+
+    const cpuSeconds = request.cpuTimeLimitSeconds ?? DEFAULT_CPU_TIME_LIMIT_SECONDS;
+    const result = await runSandboxed({
+      command: path.join(workDir, 'main'),
+      stdin: request.stdin,
+      cwd: workDir,
+      env: this.sandboxEnv(),
+      user: this.config.sandboxUser,
+      cpuSeconds,
+      memoryMb: request.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB,
+      timeoutMs: this.wallTimeoutMs(cpuSeconds),
+    });
+
+    return this.toOutput(result);
+  }
+
+  /**
+   * Let the sandbox user write to a directory created for a run. Files in it stay
+   * readable but owned by the server.
+   */
+  private async handOver(dir: string): Promise<void> {
+    if (this.config.sandboxUser) {
+      await fs.chown(dir, this.config.sandboxUser.uid, this.config.sandboxUser.gid);
+    }
+  }
+
+  private async writeWorkspace(workDir: string, files: WorkspaceFile[]): Promise<void> {
+    for (const file of files) {
+      const target = path.resolve(workDir, file.path);
+      if (!target.startsWith(workDir + path.sep)) {
+        throw new Error(`Invalid workspace path: ${file.path}`);
+      }
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, file.content);
+    }
+  }
+
+  private async runPytest(
+    request: ProjectExecutionRequest,
+    workDir: string,
+    runnerDir: string
+  ): Promise<ProjectExecutionOutput> {
+    const runner = await this.writeRunnerFile(runnerDir, 'run_pytest.py', PYTEST_RUNNER_SOURCE);
+    const nonce = this.nonce();
+    const cpuSeconds = request.cpuTimeLimitSeconds ?? DEFAULT_CPU_TIME_LIMIT_SECONDS;
+
+    // The runner puts the workspace root on sys.path, so tests import the project's packages;
+    // the xunit1 report records the file of every test
+    const result = await runSandboxed({
+      command: this.config.pythonCommand,
+      args: [
+        '-I',
+        '-B',
+        runner,
+        '-q',
+        '-p',
+        'no:cacheprovider',
+        '-o',
+        'junit_family=xunit1',
+        '--',
+        ...request.testFiles,
+      ],
+      stdin: `${nonce}\n`,
+      cwd: workDir,
+      env: this.sandboxEnv(),
+      user: this.config.sandboxUser,
+      cpuSeconds,
+      memoryMb: request.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB,
+      timeoutMs: this.wallTimeoutMs(cpuSeconds),
+    });
+
+    const { stdout, reports } = takeReports(result.stdout, nonce);
+    return this.toProjectOutput({ ...result, stdout }, reports.map((xml) => ({ xml })));
+  }
+
+  private async runNodeTests(
+    request: ProjectExecutionRequest,
+    workDir: string,
+    runnerDir: string
+  ): Promise<ProjectExecutionOutput> {
+    const reporter = await this.writeRunnerFile(runnerDir, 'reporter.mjs', NODE_REPORTER_SOURCE);
+    const cpuSeconds = request.cpuTimeLimitSeconds ?? DEFAULT_CPU_TIME_LIMIT_SECONDS;
+    const memoryMb = request.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB;
+    const results: SandboxResult[] = [];
+    const reports: TestReport[] = [];
+
+    // One process per test file, run in-process (without --test, which spawns
+    // children the permission model forbids) so each report maps to its file.
+    // The process may not write any file.
+    for (const testFile of request.testFiles) {
+      const nonce = this.nonce();
+      const result = await runSandboxed({
+        command: process.execPath,
+        args: [
+          '--experimental-permission',
+          `--allow-fs-read=${workDir}`,
+          `--allow-fs-read=${reporter}`,
+          '--no-warnings',
+          `--max-old-space-size=${memoryMb}`,
+          `--import=${reporter}`,
+          `--test-reporter=${reporter}`,
+          testFile,
+        ],
+        stdin: `${nonce}\n`,
+        cwd: workDir,
+        env: this.sandboxEnv(),
+        user: this.config.sandboxUser,
+        cpuSeconds,
+        timeoutMs: this.wallTimeoutMs(cpuSeconds),
+      });
+      const { stdout, reports: xml } = takeReports(result.stdout, nonce);
+      results.push({ ...result, stdout });
+      reports.push(...xml.map((report) => ({ testFile, xml: report })));
+
+      if (result.timedOut || result.outputTruncated || result.signal) {
+        break;
+      }
+    }
+
+    // Output of all files together; the first file that did not finish decides the status
+    const combined: SandboxResult = {
+      ...(results.find((result) => result.timedOut || result.outputTruncated || result.signal)
+        ?? results.find((result) => result.exitCode !== 0)
+        ?? results[0]),
+      stdout: results.map((result) => result.stdout).join(''),
+      stderr: results.map((result) => result.stderr).join(''),
+      durationMs: results.reduce((sum, result) => sum + result.durationMs, 0),
+    };
+    return this.toProjectOutput(combined, reports);
+  }
+
+  private async runJUnit(
+    request: ProjectExecutionRequest,
+    workDir: string,
+    runnerDir: string
+  ): Promise<ProjectExecutionOutput> {
+    if (!this.config.junitJar) {
+      throw new Error('JUnit is not configured for the local backend (LOCAL_EXECUTION_JUNIT_JAR)');
+    }
+
+    const listener = await this.writeRunnerFile(runnerDir, JUNIT_LISTENER_FILE, JUNIT_LISTENER_SOURCE);
+    const sources = request.files.filter((file) => file.path.endsWith('.java')).map((file) => file.path);
+    sources.push(listener);
+    const compile = await runSandboxed({
+      command: this.config.javacCommand,
+      args: ['-J-Xmx256m', '-encoding', 'UTF-8', '-cp', this.config.junitJar, '-d', CLASSES_DIR, ...sources],
+      cwd: workDir,
+      env: this.sandboxEnv(),
+      user: this.config.sandboxUser,
+      timeoutMs: COMPILE_TIMEOUT_MS,
+    });
+
+    if (compile.exitCode !== 0) {
+      return {
+        status: 'compile_error',
+        stdout: '',
+        stderr: '',
+        compileOutput: compile.timedOut ? 'Compilation timed out' : compile.stderr || compile.stdout,
+        durationMs: compile.durationMs,
+        reports: [],
+      };
+    }
+
+    const services = path.join(workDir, CLASSES_DIR, 'META-INF', 'services');
+    await fs.mkdir(services, { recursive: true });
+    await fs.writeFile(path.join(services, 'org.junit.platform.launcher.TestExecutionListener'), `${JUNIT_LISTENER_CLASS}\n`);
+
+    const testClasses = request.files
+      .filter((file) => request.testFiles.includes(file.path))
+      .map((file) => javaClassName(file));
+
+    const cpuSeconds = request.cpuTimeLimitSeconds ?? DEFAULT_CPU_TIME_LIMIT_SECONDS;
+    const memoryMb = request.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB;
+    const nonce = this.nonce();
+    const result = await runSandboxed({
+      command: this.config.javaCommand,
+      args: [
+        `-Xmx${Math.max(memoryMb - JVM_MEMORY_OVERHEAD_MB, 32)}m`,
+        '-XX:+UseSerialGC',
+        '-jar',
+        this.config.junitJar,
+        'execute',
+        '--disable-banner',
+        '--details=none',
+        '--class-path',
+        CLASSES_DIR,
+        ...testClasses.map((testClass) => `--select-class=${testClass}`),
+      ],
+      stdin: `${nonce}\n`,
+      cwd: workDir,
+      env: this.sandboxEnv(),
+      user: this.config.sandboxUser,
+      // JVM and launcher startup is CPU heavy, give it two extra seconds
+      cpuSeconds: cpuSeconds + 2,
+      timeoutMs: this.wallTimeoutMs(cpuSeconds + 2),
+    });
+
+    const { stdout, reports } = takeReports(result.stdout, nonce);
+    return this.toProjectOutput({ ...result, stdout }, reports.map((xml) => ({ xml })));
+  }
+
+  private async writeRunnerFile(runnerDir: string, name: string, source: string): Promise<string> {
+    const file = path.join(runnerDir, name);
+    await fs.writeFile(file, source, { mode: 0o644 });
+    return file;
+  }
+
+  /**
+   * Tags the reports of one test run, passed to the report writer on stdin
+   */
+  private nonce(): string {
+    return crypto.randomBytes(16).toString('hex');
+  }
+
+  private toProjectOutput(result: SandboxResult, reports: TestReport[]): ProjectExecutionOutput {
+    const output = this.toOutput(result);
+    // Test runners exit non-zero when a test fails, which is a result rather than a crash
+    if (output.status === 'runtime_error' && !result.outputTruncated && reports.length > 0) {
+      return { ...output, status: 'success', stderr: result.stderr, reports };
+    }
+    return { ...output, reports };
+  }
+
+  private toOutput(result: SandboxResult): ExecutionOutput {
+    const output: ExecutionOutput = {
+      status: 'success',
+      stdout: result.stdout,
+      stderr: result.stderr,
+      durationMs: result.durationMs,
+    };
+
+    if (result.outputTruncated) {
+      output.status = 'runtime_error';
+      output.stderr = 'Output limit exceeded';
+    } else if (result.timedOut || result.signal === 'SIGXCPU' || result.signal === 'SIGKILL') {
+      // RLIMIT_CPU sends SIGKILL once the hard limit is reached
+      output.status = 'timeout';
+    } else if (result.exitCode !== 0 && looksLikeOutOfMemory(result.stderr)) {
+      // Allocations fail once RLIMIT_AS (or the JVM heap) is exhausted
+      output.status = 'memory_exceeded';
+    } else if (result.exitCode !== 0) {
+      output.status = 'runtime_error';
+      output.stderr = result.stderr || `Process exited with ${result.signal || `code ${result.exitCode}`}`;
+    }
+
+    return output;
+  }
+
+  private wallTimeoutMs(cpuSeconds: number): number {
+    // Allow for I/O waits and scheduling on a busy host
+    return cpuSeconds * 3000;
+  }
+
+  private sandboxEnv(): Record<string, string> {
+    return {
+      PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+      LANG: 'C.UTF-8',
+    };
+  }
+}
@@ -0,0 +1,84 @@
+import { createRandom, generateValue, validateValueSpec, ValueSpec } from './random.inputs';
+
+export const PERFORMANCE_TEST_TYPE = 'performance';
+
+const MAX_GENERATED_LENGTH = 1_000_000;
+const MAX_GENERATED_VALUES = 2_000_000; // Across all arguments, nested arrays included
+const DEFAULT_SEED = 1;
+// Longer actual/expected values of generated inputs are cut down before they are stored
+const MAX_STORED_VALUE_LENGTH = 1000;
+
+/**
+ * Large input generated at grading time, stored in a performance test's
+ * input_data as `{ generate: { args, seed } }`. The same seed always yields
+ * the same input, so every submission is timed on identical data.
+ */
+export interface GeneratedInput {
+  args: ValueSpec[];
+  seed?: number;
+}
+
+export function isPerformanceTest(testCase: { test_type?: string }): boolean {
+  return testCase.test_type === PERFORMANCE_TEST_TYPE;
+}
+
+export function generatedInputSpec(testCase: { input_data?: any }): GeneratedInput | null {
+  const spec = testCase.input_data?.generate;
+  return spec && typeof spec === 'object' ? spec : null;
+}
+
+/**
+ * Upper bound on the number of values a spec generates
+ */
+function maxValueCount(spec: ValueSpec): number {
+  switch (spec.type) {
+    case 'array':
+      return spec.maxLength * maxValueCount(spec.items);
+    case 'string':
+      return spec.maxLength;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Check a generated input when a test case is saved.
+ * Returns an error message, or null when the spec is valid.
+ */
+export function validateGeneratedInput(spec: any): string | null {
+  if (!spec || typeof spec !== 'object' || !Array.isArray(spec.args)) {
+    return 'Generated input needs an args list';
+  }
+  if (spec.seed !== undefined && !Number.isInteger(spec.seed)) {
+    return 'Generated input seed must be an integer';
+  }
+  for (const [i, arg] of spec.args.entries()) {
+    const error = validateValueSpec(arg, `generate.args[${i}]`, MAX_GENERATED_LENGTH);
+    if (error) return error;
+  }
+  const total = spec.args.reduce((sum: number, arg: ValueSpec) => sum + maxValueCount(arg), 0);
+  if (total > MAX_GENERATED_VALUES) {
+    return `Generated input cannot exceed ${MAX_GENERATED_VALUES} values`;
+  }
+  return null;
+}
+
+/**
+ * The argument list described by a generated input
+ */
+export function generateArgs(spec: GeneratedInput): any[] {
+  const random = createRandom(spec.seed ?? DEFAULT_SEED);
+  return spec.args.map((arg) => generateValue(arg, random));
+}
+
+/**
+ * A value as stored with a test result: large values are replaced by a
+ * truncated JSON preview so submissions don't carry megabytes of output
+ */
+export function compactValue(value: any): any {
+  const json = JSON.stringify(value);
+  if (json === undefined || json.length <= MAX_STORED_VALUE_LENGTH) {
+    return value;
+  }
+  return `${json.slice(0, MAX_STORED_VALUE_LENGTH)}... (${json.length} characters)`;
+}
@@ -0,0 +1,126 @@
+import { spawn } from 'child_process';
+import os from 'os';
+
+export interface SandboxLimits {
+  timeoutMs: number; // Wall-clock limit, the process group is killed when exceeded
+  cpuSeconds?: number; // RLIMIT_CPU
+  memoryMb?: number; // RLIMIT_AS (leave unset for V8/JVM, which reserve large address ranges)
+  maxOutputBytes?: number;
+}
+
+// Unprivileged account untrusted code runs as
+export interface SandboxUser {
+  uid: number;
+  gid: number;
+}
+
+export interface SandboxOptions extends SandboxLimits {
+  command: string;
+  args?: string[];
+  stdin?: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  user?: SandboxUser; // Run as this user without network access (the server needs root for it)
+}
+
+export interface SandboxResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  outputTruncated: boolean;
+  durationMs: number;
+}
+
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024; // 1 MB
+
+/**
+ * Run a command in a separate process with resource limits.
+ * Limits are applied with `ulimit` in a wrapping shell, so the command inherits them
+ * together with every process it forks. The child gets an empty environment unless
+ * one is passed explicitly. With a `user`, the command runs in a network namespace of
+ * its own (`unshare --net`) under that user's uid and gid (`setpriv`), so it can
+ * neither reach the network nor read files and processes of the server.
+ */
+export function runSandboxed(options: SandboxOptions): Promise<SandboxResult> {
+  const limits: string[] = [];
+  if (options.cpuSeconds) limits.push(`ulimit -t ${Math.ceil(options.cpuSeconds)}`);
+  if (options.memoryMb) limits.push(`ulimit -v ${Math.ceil(options.memoryMb * 1024)}`);
+  limits.push('exec "$0" "$@"');
+
+  const maxOutputBytes = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+  const start = Date.now();
+
+  return new Promise((resolve, reject) => {
+    const shell = ['/bin/sh', '-c', limits.join('; '), options.command, ...(options.args || [])];
+    const [command, ...args] = options.user
+      ? [
+        'unshare', '--net', '--',
+        'setpriv', `--reuid=${options.user.uid}`, `--regid=${options.user.gid}`, '--clear-groups', '--no-new-privs', '--',
+        ...shell,
+      ]
+      : shell;
+    const child = spawn(command, args, {
+      cwd: options.cwd || os.tmpdir(),
+      env: options.env || {},
+      detached: true, // Own process group, so a timeout also kills grandchildren
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let outputBytes = 0;
+    let outputTruncated = false;
+    let timedOut = false;
+
+    const killGroup = () => {
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        // Process already exited
+      }
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup();
+    }, options.timeoutMs);
+
+    const collect = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+      outputBytes += chunk.length;
+      if (outputBytes > maxOutputBytes) {
+        outputTruncated = true;
+        killGroup();
+        return;
+      }
+      if (stream === 'stdout') stdout += chunk.toString();
+      else stderr += chunk.toString();
+    };
+
+    child.stdout.on('data', collect('stdout'));
+    child.stderr.on('data', collect('stderr'));
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      resolve({
+        stdout,
+        stderr,
+        exitCode,
+        signal,
+        timedOut,
+        outputTruncated,
+        durationMs: Date.now() - start,
+      });
+    });
+
+    // The child may exit before reading its input
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(options.stdin ?? '');
+  });
+}
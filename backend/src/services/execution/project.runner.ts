@@ -0,0 +1,327 @@
+import type { TestCase, TestResult } from '../codeExecution.service';
+import { ExecutionBackendFactory } from './backend.factory';
+import { ProjectLanguage, TestReport, WorkspaceFile } from './execution.backend';
+import { javaClassName, parseJUnitReport, ReportedTest } from './junit.report';
+import { limitMessage, ResourceLimits } from './resource.limits';
+
+export type FileAccess = 'editable' | 'readonly' | 'hidden';
+
+/**
+ * A file of a project exercise, stored in exercises.project_files.
+ * Learners edit `editable` files, see `readonly` ones and never receive
+ * `hidden` ones (typically the grading tests). `solution` is the reference
+ * content of an editable file, used when validating the exercise.
+ */
+export interface ProjectFile {
+  path: string;
+  content: string;
+  access: FileAccess;
+  solution?: string;
+}
+
+export interface ProjectRunRequest {
+  language: ProjectLanguage;
+  files: ProjectFile[];
+  code: string; // The learner's editable files, packed
+  testCases: TestCase[]; // Test cases named after a test set its points and visibility
+  includeHidden: boolean; // Whether tests in hidden files run and count
+  limits: ResourceLimits;
+}
+
+export interface ProjectRunResult {
+  status: 'passed' | 'failed' | 'error' | 'timeout';
+  testResults: TestResult[];
+  executionTimeMs?: number;
+  errorMessage?: string;
+  compilerOutput?: string;
+}
+
+export const PROJECT_LANGUAGES: ProjectLanguage[] = ['javascript', 'python', 'java'];
+
+// Test files each runner picks up by default; only instructor files are run
+const TEST_FILE_PATTERNS: Record<ProjectLanguage, RegExp> = {
+  javascript: /(^|\/)[^/]+\.(test|spec)\.[cm]?js$/,
+  python: /(^|\/)(test_[^/]*|[^/]*_test)\.py$/,
+  java: /(^|\/)(Test[^/]*|[^/]*Tests?)\.java$/,
+};
+
+const FILE_PATH = /^[\w.-]+(\/[\w.-]+)*$/;
+const FILE_ACCESS: FileAccess[] = ['editable', 'readonly', 'hidden'];
+const MAX_PROJECT_FILES = 50;
+const MAX_PROJECT_BYTES = 1024 * 1024;
+const MAX_FAILURE_DETAILS = 2000;
+const WITHHELD_OUTPUT = 'Output is not shown when hidden tests run; run the visible tests to see it.';
+
+// A test suite gets several times the per-test limit, and at least 10 s for runner startup
+const SUITE_TIME_FACTOR = 5;
+const MIN_SUITE_TIME_LIMIT_MS = 10000;
+
+const header = (filePath: string) => `==> ${filePath} <==`;
+
+export function isTestFile(language: ProjectLanguage, filePath: string): boolean {
+  return TEST_FILE_PATTERNS[language].test(filePath);
+}
+
+/**
+ * Check the files of a project exercise when it is saved.
+ * Returns an error message, or null when the files are valid.
+ */
+export function validateProjectFiles(files: any, language: string): string | null {
+  if (!PROJECT_LANGUAGES.includes(language as ProjectLanguage)) {
+    return 'Project exercises are only supported for JavaScript, Python and Java';
+  }
+  if (!Array.isArray(files) || files.length === 0) {
+    return 'A project needs at least one file';
+  }
+  if (files.length > MAX_PROJECT_FILES) {
+    return `A project can have at most ${MAX_PROJECT_FILES} files`;
+  }
+
+  const paths = new Set<string>();
+  let bytes = 0;
+  for (const file of files) {
+    if (!file || typeof file.path !== 'string' || !FILE_PATH.test(file.path) || file.path.split('/').includes('..')) {
+      return `Invalid file path: ${file?.path}`;
+    }
+    if (paths.has(file.path)) {
+      return `Duplicate file: ${file.path}`;
+    }
+    paths.add(file.path);
+    if (typeof file.content !== 'string') {
+      return `${file.path} needs content`;
+    }
+    if (!FILE_ACCESS.includes(file.access)) {
+      return `${file.path}: access must be editable, readonly or hidden`;
+    }
+    if (file.solution !== undefined && (file.access !== 'editable' || typeof file.solution !== 'string')) {
+      return `${file.path}: only editable files have a solution`;
+    }
+    bytes += Buffer.byteLength(file.content) + Buffer.byteLength(file.solution ?? '');
+  }
+
+  if (bytes > MAX_PROJECT_BYTES) {
+    return 'Project files must not exceed 1 MB in total';
+  }
+  if (!files.some((file: ProjectFile) => file.access === 'editable')) {
+    return 'A project needs at least one editable file';
+  }
+  if (!files.some((file: ProjectFile) => file.access !== 'editable' && isTestFile(language as ProjectLanguage, file.path))) {
+    return `A project needs a read-only or hidden test file (${TEST_FILE_PATTERNS[language as ProjectLanguage].source})`;
+  }
+  return null;
+}
+
+/**
+ * Pack files into the single code string stored with a submission, each
+ * file preceded by a `==> path <==` line
+ */
+export function packProjectFiles(files: WorkspaceFile[]): string {
+  return files.map((file) => `${header(file.path)}\n${file.content}`).join('\n');
+}
+
+/**
+ * Files of a packed submission. Only headers of the given paths start a file,
+ * so a submission cannot replace files learners may not edit.
+ */
+export function unpackProjectFiles(code: string, paths: string[]): Map<string, string> {
+  const headers = new Map(paths.map((filePath) => [header(filePath), filePath]));
+  const files = new Map<string, string>();
+  let current: { path: string; lines: string[] } | null = null;
+
+  const finish = () => {
+    if (current) files.set(current.path, current.lines.join('\n'));
+  };
+  for (const line of code.split('\n')) {
+    const filePath = headers.get(line);
+    if (filePath !== undefined) {
+      finish();
+      current = { path: filePath, lines: [] };
+    } else if (current) {
+      current.lines.push(line);
+    }
+  }
+  finish();
+  return files;
+}
+
+/**
+ * The editable files as learners start them, packed
+ */
+export function projectStarterCode(files: ProjectFile[]): string {
+  return packProjectFiles(files.filter((file) => file.access === 'editable'));
+}
+
+/**
+ * The editable files with their solutions, packed
+ */
+export function projectSolutionCode(files: ProjectFile[]): string {
+  return packProjectFiles(
+    files
+      .filter((file) => file.access === 'editable')
+      .map((file) => ({ path: file.path, content: file.solution ?? file.content }))
+  );
+}
+
+/**
+ * What learners receive of the project: no hidden files and no solutions
+ */
+export function learnerProjectFiles(files: ProjectFile[]): ProjectFile[] {
+  return files
+    .filter((file) => file.access !== 'hidden')
+    .map(({ path, content, access }) => ({ path, content, access }));
+}
+
+/**
+ * Runs a project exercise's test suite over the learner's files and maps each
+ * test of the JUnit report to a TestResult. Tests are identified as
+ * `file::name` (pytest adds the class, node:test the enclosing describe
+ * blocks); a test case with that name sets the points and visibility,
+ * otherwise a test is worth one point and hidden if its file is.
+ * When hidden files run, the raw output of the run is withheld, since the
+ * learner's code can print the hidden files into it.
+ */
+export class ProjectRunner {
+  async run(request: ProjectRunRequest): Promise<ProjectRunResult> {
+    const { language, limits } = request;
+    const editable = request.files.filter((file) => file.access === 'editable');
+    const submitted = unpackProjectFiles(request.code, editable.map((file) => file.path));
+
+    const workspace = request.files
+      .filter((file) => file.access !== 'hidden' || request.includeHidden)
+      .map((file) => ({
+        path: file.path,
+        content: file.access === 'editable' ? submitted.get(file.path) ?? file.content : file.content,
+      }));
+    const testFiles = request.files
+      .filter((file) => file.access !== 'editable' && isTestFile(language, file.path))
+      .filter((file) => file.access !== 'hidden' || request.includeHidden)
+      .map((file) => file.path);
+
+    if (testFiles.length === 0) {
+      return { status: 'failed', testResults: [], errorMessage: 'There are no tests to run' };
+    }
+
+    const backend = ExecutionBackendFactory.getBackend();
+    if (!backend.executeProject) {
+      return {
+        status: 'error',
+        testResults: [],
+        errorMessage: `The ${backend.name} execution backend cannot run project test suites`,
+      };
+    }
+
+    const suiteLimits = { ...limits, timeLimitMs: Math.max(limits.timeLimitMs * SUITE_TIME_FACTOR, MIN_SUITE_TIME_LIMIT_MS) };
+    const execution = await backend.executeProject({
+      language,
+      files: workspace,
+      testFiles,
+      cpuTimeLimitSeconds: suiteLimits.timeLimitMs / 1000,
+      memoryLimitMb: suiteLimits.memoryLimitMb,
+    });
+    const executionTimeMs = execution.durationMs;
+    const withholdOutput = request.includeHidden && request.files.some((file) => file.access === 'hidden');
+
+    switch (execution.status) {
+      case 'compile_error':
+        return {
+          status: 'failed',
+          testResults: [],
+          executionTimeMs,
+          errorMessage: 'Compilation failed',
+          compilerOutput: withholdOutput
+            ? WITHHELD_OUTPUT
+            : execution.compileOutput || 'Compilation failed',
+        };
+      case 'timeout':
+        return { status: 'timeout', testResults: [], executionTimeMs, errorMessage: limitMessage('timeout', suiteLimits) };
+      case 'memory_exceeded':
+        return { status: 'error', testResults: [], executionTimeMs, errorMessage: limitMessage('memory_exceeded', suiteLimits) };
+      case 'runtime_error':
+        return {
+          status: 'error',
+          testResults: [],
+          executionTimeMs,
+          errorMessage: withholdOutput
+            ? `The test run failed. ${WITHHELD_OUTPUT}`
+            : execution.stderr || 'The test run failed',
+        };
+    }
+
+    // Tests in hidden files did not run; hidden test cases may still match visible tests
+    const testResults = this.toTestResults(request, execution.reports, testFiles)
+      .filter((result) => request.includeHidden || !result.isHidden);
+
+    if (testResults.length === 0) {
+      return {
+        status: 'failed',
+        testResults,
+        executionTimeMs,
+        errorMessage: withholdOutput
+          ? `No tests ran. ${WITHHELD_OUTPUT}`
+          : execution.stderr.trim() || execution.stdout.trim() || 'No tests ran',
+      };
+    }
+    return { status: testResults.every((result) => result.passed) ? 'passed' : 'failed', testResults, executionTimeMs };
+  }
+
+  private toTestResults(
+    request: ProjectRunRequest,
+    reports: TestReport[],
+    testFiles: string[]
+  ): TestResult[] {
+    const hiddenFiles = new Set(request.files.filter((file) => file.access === 'hidden').map((file) => file.path));
+    const testCases = new Map(request.testCases.map((testCase) => [testCase.test_name, testCase]));
+    const javaClasses = new Map(
+      request.files.filter((file) => testFiles.includes(file.path)).map((file) => [javaClassName(file), file.path])
+    );
+
+    return reports.flatMap((report) => parseJUnitReport(report.xml)
+      .filter((test) => test.outcome !== 'skipped')
+      .map((test) => {
+        const { file, name } = this.identify(request.language, test, report, javaClasses);
+        const id = file ? `${file}::${name}` : name;
+        const testCase = testCases.get(id);
+        const error = [test.message, test.details?.slice(0, MAX_FAILURE_DETAILS)].filter(Boolean).join('\n\n');
+
+        return {
+          testCaseId: testCase?.id ?? id,
+          testName: id,
+          passed: test.outcome === 'passed',
+          actual: null,
+          expected: null,
+          error: test.outcome === 'passed' ? undefined : error || 'Test failed',
+          isHidden: testCase?.is_hidden ?? (file !== undefined && hiddenFiles.has(file)),
+          points: testCase?.points ?? 1,
+          executionTime: test.timeMs,
+        };
+      }));
+  }
+
+  /**
+   * The file a reported test comes from and its name within the file
+   */
+  private identify(
+    language: ProjectLanguage,
+    test: ReportedTest,
+    report: TestReport,
+    javaClasses: Map<string, string>
+  ): { file?: string; name: string } {
+    switch (language) {
+      case 'python': {
+        // classname is the module, followed by the test class if there is one
+        const module = test.file?.replace(/\.py$/, '').replace(/\//g, '.');
+        const testClass = module && test.classname.startsWith(`${module}.`)
+          ? test.classname.slice(module.length + 1)
+          : '';
+        return { file: test.file, name: [testClass, test.name].filter(Boolean).join('::') };
+      }
+      case 'javascript':
+        return { file: report.testFile, name: [...test.suites, test.name].join('::') };
+      default:
+        // JUnit reports the test class and the method name with ()
+        return { file: javaClasses.get(test.classname.split('$')[0]), name: test.name.replace(/\(\)$/, '') };
+    }
+  }
+}
+
+export const projectRunner = new ProjectRunner();
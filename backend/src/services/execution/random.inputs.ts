@@ -0,0 +1,260 @@
+import { ComparatorOptions, ComparatorType, validateComparator } from './comparators';
+
+export type ValueSpec =
+  | { type: 'int'; min: number; max: number }
+  | { type: 'float'; min: number; max: number; decimals?: number }
+  | { type: 'boolean' }
+  | { type: 'string'; alphabet?: string; minLength?: number; maxLength: number }
+  | { type: 'array'; items: ValueSpec; minLength?: number; maxLength: number }
+  | { type: 'choice'; values: any[] };
+
+/**
+ * Instructor-defined generator for randomized test inputs.
+ * Each generated input is an `args` list with one value per entry in `args`.
+ */
+export interface InputGenerator {
+  args: ValueSpec[];
+  count: number; // Randomized cases per submission
+  points?: number; // Weight of the randomized tests as a whole, defaults to 1
+  comparator?: ComparatorType;
+  comparator_options?: ComparatorOptions;
+}
+
+export const MAX_RANDOM_TESTS = 500;
+const MAX_GENERATED_LENGTH = 1000;
+const DEFAULT_ALPHABET = 'abcdefghijklmnopqrstuvwxyz';
+const MAX_CANDIDATES_PER_POSITION = 20;
+
+export type Random = () => number;
+
+/**
+ * Seeded PRNG (mulberry32), so a failing run can be reproduced from its seed
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const randomInt = (random: Random, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+const roundTo = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+export function generateValue(spec: ValueSpec, random: Random): any {
+  switch (spec.type) {
+    case 'int':
+      return randomInt(random, spec.min, spec.max);
+    case 'float':
+      return roundTo(spec.min + random() * (spec.max - spec.min), spec.decimals ?? 2);
+    case 'boolean':
+      return random() < 0.5;
+    case 'string': {
+      const alphabet = spec.alphabet || DEFAULT_ALPHABET;
+      const length = randomInt(random, spec.minLength ?? 0, spec.maxLength);
+      let value = '';
+      for (let i = 0; i < length; i++) value += alphabet[randomInt(random, 0, alphabet.length - 1)];
+      return value;
+    }
+    case 'array': {
+      const length = randomInt(random, spec.minLength ?? 0, spec.maxLength);
+      return Array.from({ length }, () => generateValue(spec.items, random));
+    }
+    case 'choice':
+      return spec.values[randomInt(random, 0, spec.values.length - 1)];
+  }
+}
+
+/**
+ * Generate `generator.count` argument lists
+ */
+export function generateInputs(generator: InputGenerator, seed: number): any[][] {
+  const random = createRandom(seed);
+  return Array.from({ length: generator.count }, () => generator.args.map((spec) => generateValue(spec, random)));
+}
+
+/**
+ * The simplest value within [min, max]: zero if allowed, else the bound closest to it
+ */
+const simplestNumber = (min: number, max: number) => Math.min(Math.max(0, min), max);
+
+/**
+ * Simpler values to try in place of `value`, simplest first.
+ * Every candidate still satisfies the spec.
+ */
+export function shrinkValue(spec: ValueSpec, value: any): any[] {
+  const candidates: any[] = [];
+  const add = (candidate: any) => {
+    const key = JSON.stringify(candidate);
+    if (key !== JSON.stringify(value) && !candidates.some((c) => JSON.stringify(c) === key)) {
+      candidates.push(candidate);
+    }
+  };
+
+  switch (spec.type) {
+    case 'int': {
+      const target = simplestNumber(spec.min, spec.max);
+      if (value === target) break;
+      add(target);
+      add(value - Math.trunc((value - target) / 2));
+      add(value > target ? value - 1 : value + 1);
+      break;
+    }
+    case 'float': {
+      const target = simplestNumber(spec.min, spec.max);
+      if (value === target) break;
+      add(target);
+      if (Math.trunc(value) >= spec.min && Math.trunc(value) <= spec.max) add(Math.trunc(value));
+      add(roundTo((value + target) / 2, spec.decimals ?? 2));
+      break;
+    }
+    case 'boolean':
+      if (value === true) add(false);
+      break;
+    case 'choice': {
+      const index = spec.values.findIndex((v) => JSON.stringify(v) === JSON.stringify(value));
+      for (let i = 0; i < index; i++) add(spec.values[i]);
+      break;
+    }
+    case 'string':
+    case 'array': {
+      const items: any[] = spec.type === 'string' ? value.split('') : value;
+      const join = (parts: any[]) => (spec.type === 'string' ? parts.join('') : parts);
+      const minLength = spec.minLength ?? 0;
+      const simplestChar = spec.type === 'string' ? (spec.alphabet || DEFAULT_ALPHABET)[0] : undefined;
+
+      // Shorter first: keep the first half, then drop single elements
+      if (items.length > minLength) {
+        add(join(items.slice(0, Math.max(minLength, Math.floor(items.length / 2)))));
+        for (let i = 0; i < Math.min(items.length, MAX_CANDIDATES_PER_POSITION); i++) {
+          add(join([...items.slice(0, i), ...items.slice(i + 1)]));
+        }
+      }
+
+      // Then simpler elements in place
+      for (let i = 0; i < Math.min(items.length, MAX_CANDIDATES_PER_POSITION); i++) {
+        const simpler = spec.type === 'string'
+          ? [simplestChar]
+          : shrinkValue(spec.items, items[i]);
+        for (const element of simpler) {
+          add(join([...items.slice(0, i), element, ...items.slice(i + 1)]));
+        }
+      }
+      break;
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Argument lists that simplify one argument of `args`
+ */
+export function shrinkCandidates(specs: ValueSpec[], args: any[]): any[][] {
+  const candidates: any[][] = [];
+  specs.forEach((spec, i) => {
+    for (const simpler of shrinkValue(spec, args[i])) {
+      candidates.push([...args.slice(0, i), simpler, ...args.slice(i + 1)]);
+    }
+  });
+  return candidates;
+}
+
+/**
+ * Greedily shrink a failing input. `firstFailing` evaluates candidates and returns
+ * the index of the first one that still fails, or -1 when none does.
+ */
+export async function shrinkCounterexample(
+  specs: ValueSpec[],
+  args: any[],
+  firstFailing: (candidates: any[][]) => Promise<number>,
+  maxRounds: number
+): Promise<{ args: any[]; steps: number }> {
+  let current = args;
+  let steps = 0;
+
+  while (steps < maxRounds) {
+    const candidates = shrinkCandidates(specs, current);
+    if (candidates.length === 0) break;
+
+    const index = await firstFailing(candidates);
+    if (index < 0) break;
+
+    current = candidates[index];
+    steps++;
+  }
+
+  return { args: current, steps };
+}
+
+/**
+ * Check one value spec. Returns an error message, or null when the spec is valid.
+ */
+export function validateValueSpec(spec: any, path: string, maxLength: number = MAX_GENERATED_LENGTH): string | null {
+  if (!spec || typeof spec !== 'object') return `${path} must be an object`;
+
+  const isNumber = (value: any) => typeof value === 'number' && Number.isFinite(value);
+  const checkLength = (): string | null => {
+    const min = spec.minLength ?? 0;
+    if (!Number.isInteger(min) || !Number.isInteger(spec.maxLength) || min < 0 || spec.maxLength < min) {
+      return `${path} needs integer minLength <= maxLength`;
+    }
+    if (spec.maxLength > maxLength) return `${path}.maxLength cannot exceed ${maxLength}`;
+    return null;
+  };
+
+  switch (spec.type) {
+    case 'int':
+      if (!Number.isInteger(spec.min) || !Number.isInteger(spec.max) || spec.min > spec.max) {
+        return `${path} needs integer min <= max`;
+      }
+      return null;
+    case 'float':
+      if (!isNumber(spec.min) || !isNumber(spec.max) || spec.min > spec.max) {
+        return `${path} needs numeric min <= max`;
+      }
+      return null;
+    case 'boolean':
+      return null;
+    case 'string':
+      if (spec.alphabet !== undefined && (typeof spec.alphabet !== 'string' || spec.alphabet.length === 0)) {
+        return `${path}.alphabet must be a non-empty string`;
+      }
+      return checkLength();
+    case 'array':
+      return checkLength() || validateValueSpec(spec.items, `${path}.items`, maxLength);
+    case 'choice':
+      if (!Array.isArray(spec.values) || spec.values.length === 0) return `${path}.values must be a non-empty list`;
+      return null;
+    default:
+      return `${path}.type must be one of: int, float, boolean, string, array, choice`;
+  }
+}
+
+/**
+ * Check an input generator when an exercise is saved.
+ * Returns an error message, or null when the generator is valid.
+ */
+export function validateInputGenerator(generator: any): string | null {
+  if (!generator || typeof generator !== 'object' || !Array.isArray(generator.args)) {
+    return 'Input generator needs an args list';
+  }
+  if (!Number.isInteger(generator.count) || generator.count < 1 || generator.count > MAX_RANDOM_TESTS) {
+    return `Input generator count must be between 1 and ${MAX_RANDOM_TESTS}`;
+  }
+  if (generator.points !== undefined && !(typeof generator.points === 'number' && generator.points >= 0)) {
+    return 'Input generator points must be a non-negative number';
+  }
+  const comparatorError = validateComparator(generator.comparator, generator.comparator_options);
+  if (comparatorError) return comparatorError;
+
+  for (const [i, spec] of generator.args.entries()) {
+    const error = validateValueSpec(spec, `args[${i}]`);
+    if (error) return error;
+  }
+  return null;
+}
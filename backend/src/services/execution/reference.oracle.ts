@@ -0,0 +1,261 @@
+import crypto from 'crypto';
+import { logger } from '../../config/logger.config';
+import type { TestResult } from '../codeExecution.service';
+import { ExecutionBackendFactory } from './backend.factory';
+import { ComparisonResult, judgeOutput } from './comparators';
+import { ExecutionLanguage } from './execution.backend';
+import { FunctionSignature, parseHarnessOutput, prepareProgram } from './function.harness';
+import { javaScriptRunner } from './javascript.runner';
+import { generateInputs, InputGenerator, shrinkCounterexample } from './random.inputs';
+import { DEFAULT_RESOURCE_LIMITS, LimitStatus, limitMessage, ResourceLimits } from './resource.limits';
+
+export const RANDOMIZED_TEST_ID = 'randomized';
+
+// JavaScript runs every input in one process; other languages start a process
+// (and compile) per input, so they get fewer cases and a smaller shrink budget
+const MAX_SHRINK_ROUNDS = 50;
+const PROGRAM_RANDOM_TEST_LIMIT = 25;
+const PROGRAM_SHRINK_EXECUTIONS = 40;
+
+export interface RandomizedTestRequest {
+  language: 'javascript' | ExecutionLanguage;
+  code: string;
+  solutionCode: string;
+  starterCode: string | null;
+  functionSignature?: FunctionSignature | null;
+  generator: InputGenerator;
+  seed?: number;
+  limits?: ResourceLimits; // Per call, defaults to the platform limits
+}
+
+export interface ReferenceOutputRequest {
+  language: 'javascript' | ExecutionLanguage;
+  solutionCode: string;
+  starterCode: string | null;
+  functionSignature?: FunctionSignature | null;
+  inputs: any[][];
+  limits?: ResourceLimits;
+}
+
+export interface RandomizedTestDetails {
+  seed: number;
+  cases: number; // Inputs the learner code was checked against
+  skipped: number; // Inputs the reference solution rejected
+  counterexample?: { args: any[] }; // Shrunk failing input
+  originalInput?: { args: any[] }; // Failing input before shrinking
+  shrinkSteps?: number;
+}
+
+export interface CallOutcome {
+  output?: any;
+  error?: string;
+  status?: LimitStatus;
+}
+
+interface Evaluator {
+  batched: boolean; // All inputs run in one process
+  evaluate(code: string, inputs: any[][]): Promise<CallOutcome[]>;
+}
+
+/**
+ * Grades submissions against randomized inputs, using the exercise's
+ * solution_code as the oracle for expected outputs.
+ * Inputs come from the instructor's generator with a per-submission seed;
+ * the first failing input is shrunk to a minimal counterexample.
+ */
+export class ReferenceOracle {
+  /**
+   * Run the randomized tests. Returns null when the reference solution
+   * itself cannot run, since there is nothing to grade against.
+   */
+  async run(request: RandomizedTestRequest): Promise<TestResult | null> {
+    const { generator } = request;
+    const seed = request.seed ?? crypto.randomInt(0, 2 ** 31);
+    const evaluator = this.getEvaluator(request);
+    const count = evaluator.batched ? generator.count : Math.min(generator.count, PROGRAM_RANDOM_TEST_LIMIT);
+    const inputs = generateInputs({ ...generator, count }, seed);
+
+    const expectedOutcomes = await evaluator.evaluate(request.solutionCode, inputs);
+    const valid = inputs
+      .map((args, i) => ({ args, expected: expectedOutcomes[i] }))
+      .filter(({ expected }) => expected && expected.error === undefined);
+
+    if (valid.length === 0 && inputs.length > 0) {
+      logger.warn('Reference solution failed on every generated input', {
+        language: request.language,
+        seed,
+        error: expectedOutcomes[0]?.error,
+      });
+      return null;
+    }
+
+    const actualOutcomes = await evaluator.evaluate(request.code, valid.map(({ args }) => args));
+    const details: RandomizedTestDetails = { seed, cases: valid.length, skipped: inputs.length - valid.length };
+
+    let failure: { args: any[]; comparison: ComparisonResult } | null = null;
+    for (const [i, { args, expected }] of valid.entries()) {
+      const comparison = await this.check(generator, args, expected.output, actualOutcomes[i]);
+      if (!comparison.passed) {
+        failure = { args, comparison };
+        break;
+      }
+    }
+
+    const baseResult = {
+      testCaseId: RANDOMIZED_TEST_ID,
+      testName: `Randomized tests (${valid.length} cases)`,
+      isHidden: false,
+      points: generator.points ?? 1,
+      comparator: generator.comparator || 'exact',
+    };
+
+    if (!failure) {
+      return { ...baseResult, passed: true, actual: null, expected: null, details };
+    }
+
+    const shrunk = await shrinkCounterexample(
+      generator.args,
+      failure.args,
+      (candidates) => this.firstFailing(evaluator, request, candidates),
+      MAX_SHRINK_ROUNDS
+    );
+
+    // Outputs for the final counterexample
+    const [expected] = await evaluator.evaluate(request.solutionCode, [shrunk.args]);
+    const [actual] = await evaluator.evaluate(request.code, [shrunk.args]);
+    const comparison = await this.check(generator, shrunk.args, expected.output, actual);
+
+    return {
+      ...baseResult,
+      passed: false,
+      actual: actual.output ?? null,
+      expected: expected.output ?? null,
+      error: `Failed on input ${JSON.stringify(shrunk.args)}: ${comparison.message || actual.error}`,
+      details: {
+        ...details,
+        counterexample: { args: shrunk.args },
+        originalInput: { args: failure.args },
+        shrinkSteps: shrunk.steps,
+      },
+    };
+  }
+
+  /**
+   * Outputs of the reference solution on the given inputs, e.g. the expected
+   * outputs of performance tests with generated inputs
+   */
+  async referenceOutputs(request: ReferenceOutputRequest): Promise<CallOutcome[]> {
+    const evaluator = this.getEvaluator(request);
+    return evaluator.evaluate(request.solutionCode, request.inputs);
+  }
+
+  private async check(
+    generator: InputGenerator,
+    args: any[],
+    expected: any,
+    actual: CallOutcome | undefined
+  ): Promise<ComparisonResult> {
+    if (!actual || actual.error !== undefined) {
+      return { passed: false, message: actual?.error || 'No output' };
+    }
+    return judgeOutput(
+      { comparator: generator.comparator, comparator_options: generator.comparator_options, input_data: { args } },
+      actual.output,
+      expected
+    );
+  }
+
+  /**
+   * Index of the first candidate the learner code still fails on. Candidates
+   * the reference solution rejects are not valid inputs and never count.
+   */
+  private async firstFailing(
+    evaluator: Evaluator,
+    request: RandomizedTestRequest,
+    candidates: any[][]
+  ): Promise<number> {
+    if (evaluator.batched) {
+      const expected = await evaluator.evaluate(request.solutionCode, candidates);
+      const validIndexes = candidates.map((_, i) => i).filter((i) => expected[i] && expected[i].error === undefined);
+      const actual = await evaluator.evaluate(request.code, validIndexes.map((i) => candidates[i]));
+
+      for (const [position, index] of validIndexes.entries()) {
+        const comparison = await this.check(request.generator, candidates[index], expected[index].output, actual[position]);
+        if (!comparison.passed) return index;
+      }
+      return -1;
+    }
+
+    // One candidate at a time, within a fixed execution budget per shrink round
+    let executions = 0;
+    for (const [index, args] of candidates.entries()) {
+      if (executions >= PROGRAM_SHRINK_EXECUTIONS) break;
+      executions += 2;
+
+      const [expected] = await evaluator.evaluate(request.solutionCode, [args]);
+      if (expected.error !== undefined) continue;
+      const [actual] = await evaluator.evaluate(request.code, [args]);
+      const comparison = await this.check(request.generator, args, expected.output, actual);
+      if (!comparison.passed) return index;
+    }
+    return -1;
+  }
+
+  private getEvaluator(request: RandomizedTestRequest | ReferenceOutputRequest): Evaluator {
+    const { language, starterCode, functionSignature = null, limits = DEFAULT_RESOURCE_LIMITS } = request;
+    if (language === 'javascript') {
+      return {
+        batched: true,
+        evaluate: async (code, inputs) => {
+          const evaluation = await javaScriptRunner.evaluate(code, inputs, limits);
+          return inputs.map((_, i) => {
+            const result = evaluation.results[i];
+            if (!result) return { error: evaluation.error || 'No output' };
+            return result.error !== undefined
+              ? { error: result.error, status: result.status }
+              : { output: result.actual };
+          });
+        },
+      };
+    }
+
+    return {
+      batched: false,
+      evaluate: async (code, inputs) => {
+        const prepared = prepareProgram(language, code, starterCode, functionSignature);
+        if ('error' in prepared) {
+          return inputs.map(() => ({ error: prepared.error }));
+        }
+        const { program, harness } = prepared;
+
+        const outcomes: CallOutcome[] = [];
+        for (const args of inputs) {
+          const execution = await ExecutionBackendFactory.getBackend().execute({
+            code: program,
+            language,
+            stdin: JSON.stringify({ args }),
+            cpuTimeLimitSeconds: limits.timeLimitMs / 1000,
+            memoryLimitMb: limits.memoryLimitMb,
+          });
+
+          if (execution.status === 'compile_error') {
+            // Compilation does not depend on the input
+            return inputs.map(() => ({ error: 'Compilation failed' }));
+          } else if (execution.status === 'timeout' || execution.status === 'memory_exceeded') {
+            outcomes.push({ error: limitMessage(execution.status, limits), status: execution.status });
+          } else if (execution.status === 'runtime_error') {
+            outcomes.push({ error: execution.stderr || 'Runtime error' });
+          } else if (harness) {
+            const parsed = parseHarnessOutput(execution.stdout);
+            outcomes.push(parsed ? { output: parsed.result } : { error: 'Program did not produce a result' });
+          } else {
+            outcomes.push({ output: execution.stdout.trim() });
+          }
+        }
+        return outcomes;
+      },
+    };
+  }
+}
+
+export const referenceOracle = new ReferenceOracle();
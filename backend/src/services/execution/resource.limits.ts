@@ -0,0 +1,111 @@
+import { DEFAULT_CPU_TIME_LIMIT_SECONDS, DEFAULT_MEMORY_LIMIT_MB } from './execution.backend';
+
+export interface ResourceLimits {
+  timeLimitMs: number; // CPU time per test case
+  memoryLimitMb: number;
+}
+
+// Set on a test result when the code was stopped by a limit rather than failing on its own
+export type LimitStatus = 'timeout' | 'memory_exceeded';
+
+export const MIN_TIME_LIMIT_MS = 100;
+export const MAX_TIME_LIMIT_MS = 30000;
+export const MIN_MEMORY_LIMIT_MB = 16;
+export const MAX_MEMORY_LIMIT_MB = 1024;
+
+export const DEFAULT_RESOURCE_LIMITS: ResourceLimits = {
+  timeLimitMs: DEFAULT_CPU_TIME_LIMIT_SECONDS * 1000,
+  memoryLimitMb: DEFAULT_MEMORY_LIMIT_MB,
+};
+
+// What runtimes print when an allocation fails under a memory limit
+const OUT_OF_MEMORY_PATTERNS = [
+  /\bMemoryError\b/, // Python
+  /std::bad_alloc/, // C++
+  /java\.lang\.OutOfMemoryError/, // Java
+  /heap out of memory/, // Node
+  /Cannot allocate memory/,
+];
+
+/**
+ * Thrown by runners when code is stopped by a resource limit
+ */
+export class ResourceLimitError extends Error {
+  constructor(public readonly status: LimitStatus, message: string) {
+    super(message);
+    this.name = 'ResourceLimitError';
+  }
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const isSet = (value: number | null | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Limits for an exercise; unset columns fall back to the platform defaults
+ */
+export function exerciseLimits(exercise: {
+  time_limit_seconds?: number | null;
+  memory_limit_mb?: number | null;
+}): ResourceLimits {
+  return {
+    timeLimitMs: isSet(exercise.time_limit_seconds)
+      ? clamp(exercise.time_limit_seconds * 1000, MIN_TIME_LIMIT_MS, MAX_TIME_LIMIT_MS)
+      : DEFAULT_RESOURCE_LIMITS.timeLimitMs,
+    memoryLimitMb: isSet(exercise.memory_limit_mb)
+      ? clamp(exercise.memory_limit_mb, MIN_MEMORY_LIMIT_MB, MAX_MEMORY_LIMIT_MB)
+      : DEFAULT_RESOURCE_LIMITS.memoryLimitMb,
+  };
+}
+
+/**
+ * Limits for one test case: its own overrides, else the exercise limits
+ */
+export function testCaseLimits(
+  exercise: ResourceLimits,
+  testCase: { timeout_ms?: number | null; memory_limit_mb?: number | null }
+): ResourceLimits {
+  return {
+    timeLimitMs: isSet(testCase.timeout_ms)
+      ? clamp(testCase.timeout_ms, MIN_TIME_LIMIT_MS, MAX_TIME_LIMIT_MS)
+      : exercise.timeLimitMs,
+    memoryLimitMb: isSet(testCase.memory_limit_mb)
+      ? clamp(testCase.memory_limit_mb, MIN_MEMORY_LIMIT_MB, MAX_MEMORY_LIMIT_MB)
+      : exercise.memoryLimitMb,
+  };
+}
+
+/**
+ * Check limits when an exercise or test case is saved. `timeLimitMs` and
+ * `memoryLimitMb` may be null to inherit. Returns an error message, or null.
+ */
+export function validateLimits(limits: { timeLimitMs?: number | null; memoryLimitMb?: number | null }): string | null {
+  const { timeLimitMs, memoryLimitMb } = limits;
+  if (timeLimitMs !== undefined && timeLimitMs !== null) {
+    if (!Number.isInteger(timeLimitMs) || timeLimitMs < MIN_TIME_LIMIT_MS || timeLimitMs > MAX_TIME_LIMIT_MS) {
+      return `Time limit must be between ${MIN_TIME_LIMIT_MS} ms and ${MAX_TIME_LIMIT_MS / 1000} seconds`;
+    }
+  }
+  if (memoryLimitMb !== undefined && memoryLimitMb !== null) {
+    if (!Number.isInteger(memoryLimitMb) || memoryLimitMb < MIN_MEMORY_LIMIT_MB || memoryLimitMb > MAX_MEMORY_LIMIT_MB) {
+      return `Memory limit must be between ${MIN_MEMORY_LIMIT_MB} and ${MAX_MEMORY_LIMIT_MB} MB`;
+    }
+  }
+  return null;
+}
+
+export function looksLikeOutOfMemory(stderr: string): boolean {
+  return OUT_OF_MEMORY_PATTERNS.some((pattern) => pattern.test(stderr));
+}
+
+const formatSeconds = (ms: number) => `${Number((ms / 1000).toFixed(2))} s`;
+
+/**
+ * Error shown for a test stopped by a limit, e.g. "Time limit exceeded (2 s)"
+ */
+export function limitMessage(status: LimitStatus, limits: ResourceLimits): string {
+  return status === 'timeout'
+    ? `Time limit exceeded (${formatSeconds(limits.timeLimitMs)})`
+    : `Memory limit exceeded (${limits.memoryLimitMb} MB)`;
+}
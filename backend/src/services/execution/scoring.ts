@@ -0,0 +1,99 @@
+import type { TestCase, TestResult } from '../codeExecution.service';
+
+export type HiddenTestScoring = 'always' | 'final_only';
+export type HiddenTestVisibility = 'summary' | 'names' | 'full';
+
+export interface ScoringPolicy {
+  exercisePoints: number;
+  hiddenTestScoring: HiddenTestScoring;
+  hiddenTestVisibility: HiddenTestVisibility;
+}
+
+export interface SubmissionScore {
+  passedTests: number;
+  totalTests: number;
+  earnedTestPoints: number;
+  availableTestPoints: number;
+  score: number; // Percentage of available test points (0-100)
+  pointsEarned: number; // score converted into the exercise points
+}
+
+/**
+ * Test cases that run (and count) for a submission.
+ * With the final_only policy hidden tests are skipped until the final submit.
+ */
+export function selectTestCases<T extends Pick<TestCase, 'is_hidden'>>(
+  testCases: T[],
+  policy: ScoringPolicy,
+  isFinal: boolean
+): T[] {
+  if (policy.hiddenTestScoring === 'final_only' && !isFinal) {
+    return testCases.filter((testCase) => !testCase.is_hidden);
+  }
+  return testCases;
+}
+
+/**
+ * Weight each test by its points and convert the result into exercise points
+ */
+export function scoreTestResults(testResults: TestResult[], exercisePoints: number): SubmissionScore {
+  const weight = (result: TestResult) => Math.max(Number(result.points) || 0, 0);
+  const passed = testResults.filter((result) => result.passed);
+
+  const availableTestPoints = testResults.reduce((sum, result) => sum + weight(result), 0);
+  const earnedTestPoints = passed.reduce((sum, result) => sum + weight(result), 0);
+  const score = availableTestPoints > 0 ? (earnedTestPoints / availableTestPoints) * 100 : 0;
+
+  return {
+    passedTests: passed.length,
+    totalTests: testResults.length,
+    earnedTestPoints,
+    availableTestPoints,
+    score: Math.round(score * 100) / 100,
+    pointsEarned: Math.round(score * exercisePoints) / 100,
+  };
+}
+
+/**
+ * Subtract a style deduction from the earned points, never below zero.
+ * The score stays the percentage of passed tests.
+ */
+export function deductPoints(scored: SubmissionScore, deduction: number): SubmissionScore {
+  if (deduction <= 0) {
+    return scored;
+  }
+  return { ...scored, pointsEarned: Math.max(Math.round((scored.pointsEarned - deduction) * 100) / 100, 0) };
+}
+
+/**
+ * Strip what the learner may not see of hidden test results
+ */
+export function redactTestResults(
+  testResults: TestResult[],
+  visibility: HiddenTestVisibility
+): TestResult[] {
+  if (visibility === 'full') {
+    return testResults;
+  }
+
+  let hiddenIndex = 0;
+  return testResults.map((result) => {
+    if (!result.isHidden) {
+      return result;
+    }
+
+    hiddenIndex++;
+    return {
+      testCaseId: result.testCaseId,
+      testName: visibility === 'names' ? result.testName : `Hidden test ${hiddenIndex}`,
+      passed: result.passed,
+      actual: null,
+      expected: null,
+      isHidden: true,
+      points: result.points,
+      comparator: result.comparator,
+      // Learners may know a hidden test was too slow, just not its input
+      status: result.status,
+    };
+  });
+}
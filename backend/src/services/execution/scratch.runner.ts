@@ -0,0 +1,177 @@
+import type { SubmissionLanguage } from '../codeExecution.service';
+import { ExecutionBackendFactory } from './backend.factory';
+import { FunctionSignature, parseHarnessOutput, prepareProgram } from './function.harness';
+import { javaScriptRunner } from './javascript.runner';
+import { DEFAULT_RESOURCE_LIMITS, limitMessage, ResourceLimits } from './resource.limits';
+import { ResultSet, sqlRunner } from './sql.runner';
+
+export interface ScratchRunRequest {
+  language: SubmissionLanguage;
+  code: string;
+  input: string; // Custom input as typed by the learner
+  starterCode: string | null;
+  setupSql: string | null;
+  functionSignature?: FunctionSignature | null;
+  limits?: ResourceLimits; // The exercise limits, defaults to the platform limits
+}
+
+export interface ScratchRunOutput {
+  status: 'completed' | 'error' | 'timeout' | 'memory_exceeded' | 'compile_error';
+  stdout: string;
+  stderr: string;
+  returnValue?: any; // Function-style exercises
+  resultSet?: ResultSet; // SQL exercises
+  executionTimeMs: number;
+  compilerOutput?: string;
+  errorMessage?: string;
+}
+
+/**
+ * Arguments for a function-style exercise: a JSON list of arguments,
+ * `{ "args": [...] }` like test case input, or a single JSON value
+ */
+export function parseCustomArgs(input: string): any[] | null {
+  if (!input.trim()) return [];
+  try {
+    const value = JSON.parse(input);
+    if (Array.isArray(value)) return value;
+    if (value && typeof value === 'object' && Array.isArray(value.args)) return value.args;
+    return [value];
+  } catch {
+    return null;
+  }
+}
+
+const INVALID_ARGS_MESSAGE = 'Custom input must be JSON arguments, e.g. [1, "two"]';
+
+/**
+ * Runs learner code once on custom input and reports what it printed and
+ * returned, without comparing against anything.
+ * Function-style exercises (JavaScript, C++ without main, Java and Python with
+ * a function signature) take JSON arguments;
+ * stdin programs get the input as stdin; SQL input is extra setup SQL run
+ * before the query.
+ */
+export class ScratchRunner {
+  async run(request: ScratchRunRequest): Promise<ScratchRunOutput> {
+    switch (request.language) {
+      case 'javascript':
+        return this.runJavaScript(request);
+      case 'sql':
+        return this.runSql(request);
+      default:
+        return this.runProgram(request);
+    }
+  }
+
+  private async runJavaScript(request: ScratchRunRequest): Promise<ScratchRunOutput> {
+    const args = parseCustomArgs(request.input);
+    if (!args) {
+      return { status: 'error', stdout: '', stderr: '', executionTimeMs: 0, errorMessage: INVALID_ARGS_MESSAGE };
+    }
+
+    const evaluation = await javaScriptRunner.evaluate(request.code, [args], request.limits);
+    const [result] = evaluation.results;
+    const output = {
+      stdout: evaluation.stdout,
+      stderr: evaluation.stderr,
+      executionTimeMs: evaluation.durationMs,
+    };
+
+    if (evaluation.timedOut) {
+      return { ...output, status: 'timeout', errorMessage: evaluation.error };
+    }
+    if (result?.status) {
+      return { ...output, status: result.status, errorMessage: result.error };
+    }
+    if (!result || result.error !== undefined) {
+      return { ...output, status: 'error', errorMessage: result?.error ?? evaluation.error };
+    }
+    return { ...output, status: 'completed', returnValue: result.actual };
+  }
+
+  private async runSql(request: ScratchRunRequest): Promise<ScratchRunOutput> {
+    const startTime = Date.now();
+    try {
+      const resultSet = await sqlRunner.query(
+        request.setupSql,
+        request.input.trim() || null,
+        request.code,
+        request.limits
+      );
+      return { status: 'completed', stdout: '', stderr: '', resultSet, executionTimeMs: Date.now() - startTime };
+    } catch (error: any) {
+      return {
+        status: 'error',
+        stdout: '',
+        stderr: '',
+        executionTimeMs: Date.now() - startTime,
+        errorMessage: error.message,
+      };
+    }
+  }
+
+  private async runProgram(request: ScratchRunRequest): Promise<ScratchRunOutput> {
+    const language = request.language as Exclude<SubmissionLanguage, 'javascript' | 'sql'>;
+    let stdin = request.input;
+
+    // Function-style code gets the same harness as grading, called with the custom arguments
+    const prepared = prepareProgram(language, request.code, request.starterCode, request.functionSignature ?? null);
+    if ('error' in prepared) {
+      return { status: 'error', stdout: '', stderr: '', executionTimeMs: 0, errorMessage: prepared.error };
+    }
+    const { program, harness } = prepared;
+    if (harness) {
+      const args = parseCustomArgs(request.input);
+      if (!args) {
+        return { status: 'error', stdout: '', stderr: '', executionTimeMs: 0, errorMessage: INVALID_ARGS_MESSAGE };
+      }
+      stdin = JSON.stringify({ args });
+    }
+
+    const limits = request.limits ?? DEFAULT_RESOURCE_LIMITS;
+    const startTime = Date.now();
+    const execution = await ExecutionBackendFactory.getBackend().execute({
+      code: program,
+      language,
+      stdin,
+      cpuTimeLimitSeconds: limits.timeLimitMs / 1000,
+      memoryLimitMb: limits.memoryLimitMb,
+    });
+    const output = {
+      stdout: execution.stdout,
+      stderr: execution.stderr,
+      executionTimeMs: execution.durationMs ?? Date.now() - startTime,
+    };
+
+    switch (execution.status) {
+      case 'compile_error':
+        return {
+          ...output,
+          status: 'compile_error',
+          compilerOutput: execution.compileOutput || 'Compilation failed',
+          errorMessage: 'Compilation failed',
+        };
+      case 'timeout':
+      case 'memory_exceeded':
+        return { ...output, status: execution.status, errorMessage: limitMessage(execution.status, limits) };
+      case 'runtime_error':
+        return { ...output, status: 'error', errorMessage: execution.stderr || 'Runtime error' };
+    }
+
+    if (harness) {
+      // The harness prints the return value on the last line, after anything the learner printed
+      const parsed = parseHarnessOutput(execution.stdout);
+      const lines = execution.stdout.trimEnd().split('\n');
+      return {
+        ...output,
+        stdout: parsed ? lines.slice(0, -1).join('\n').replace(/\n$/, '') : execution.stdout,
+        status: 'completed',
+        returnValue: parsed?.result,
+      };
+    }
+    return { ...output, status: 'completed' };
+  }
+}
+
+export const scratchRunner = new ScratchRunner();
@@ -0,0 +1,383 @@
+import crypto from 'crypto';
+import { Pool, PoolClient, QueryArrayResult } from 'pg';
+import { env } from '../../config/env.config';
+import { logger } from '../../config/logger.config';
+import type { TestCase, TestResult } from '../codeExecution.service';
+import { compareOutput, DEFAULT_FLOAT_TOLERANCE, judgeOutput } from './comparators';
+import { DEFAULT_RESOURCE_LIMITS, ResourceLimitError, ResourceLimits, testCaseLimits } from './resource.limits';
+
+export interface ResultSet {
+  columns: string[];
+  rows: any[][];
+}
+
+export interface ResultSetDiff {
+  ordered: boolean;
+  columnsMatch: boolean;
+  expectedColumns: string[];
+  actualColumns: string[];
+  expectedRowCount: number;
+  actualRowCount: number;
+  missingRows: any[][]; // Expected but not returned
+  unexpectedRows: any[][]; // Returned but not expected
+  firstMismatchIndex?: number; // Ordered comparison only
+}
+
+export interface ResultSetComparison {
+  tolerance?: number; // Numeric cells may differ by this much (float comparator)
+  collapseWhitespace?: boolean; // Text cells are compared with whitespace collapsed
+}
+
+// Setup scripts get at least this long; the learner query gets the test's time limit
+const SETUP_TIMEOUT_MS = 5000;
+const MAX_RESULT_ROWS = 1000;
+const MAX_DIFF_ROWS = 20;
+
+/**
+ * Normalize a cell so values from pg (numeric/bigint as strings, Date objects)
+ * compare equal to the JSON values instructors write in expected_output
+ */
+export function normalizeCell(value: any): any {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value.trim())) {
+    return Number(value);
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+/**
+ * Convert an expected_output value ({ columns, rows }) into a ResultSet.
+ * Rows may be arrays or objects keyed by column name.
+ */
+export function toResultSet(value: any): ResultSet {
+  const columns: string[] = Array.isArray(value?.columns) ? value.columns.map(String) : [];
+  const rows: any[][] = (Array.isArray(value?.rows) ? value.rows : []).map((row: any) =>
+    Array.isArray(row) ? row : columns.map((column) => row?.[column])
+  );
+  return { columns, rows };
+}
+
+/**
+ * Compare two result sets, either row by row (ordered) or as multisets (unordered)
+ */
+export function compareResultSets(
+  expected: ResultSet,
+  actual: ResultSet,
+  ordered: boolean,
+  options: ResultSetComparison = {}
+): { passed: boolean; diff: ResultSetDiff } {
+  const normalize = (value: any) => {
+    const cell = normalizeCell(value);
+    return options.collapseWhitespace && typeof cell === 'string' ? cell.trim().replace(/\s+/g, ' ') : cell;
+  };
+  const rowKey = (row: any[]) => JSON.stringify(row.map(normalize));
+  const { tolerance } = options;
+  const rowsMatch = tolerance === undefined
+    ? (a: any[], b: any[]) => rowKey(a) === rowKey(b)
+    : (a: any[], b: any[]) => a.length === b.length
+      && a.every((cell, i) => compareOutput(normalize(cell), normalize(b[i]), 'float', { tolerance }).passed);
+  const expectedColumns = expected.columns.map((c) => c.toLowerCase());
+  const actualColumns = actual.columns.map((c) => c.toLowerCase());
+
+  // Columns are only checked when the instructor listed them
+  const columnsMatch = expectedColumns.length === 0
+    || JSON.stringify(expectedColumns) === JSON.stringify(actualColumns);
+
+  const missingRows: any[][] = [];
+  const unexpectedRows: any[][] = [];
+  let firstMismatchIndex: number | undefined;
+
+  if (ordered) {
+    const length = Math.max(expected.rows.length, actual.rows.length);
+    for (let i = 0; i < length; i++) {
+      const expectedRow = expected.rows[i];
+      const actualRow = actual.rows[i];
+      if (expectedRow && actualRow && rowsMatch(expectedRow, actualRow)) continue;
+
+      if (firstMismatchIndex === undefined) firstMismatchIndex = i;
+      if (expectedRow) missingRows.push(expectedRow);
+      if (actualRow) unexpectedRows.push(actualRow);
+    }
+  } else if (tolerance !== undefined) {
+    // Rows within the tolerance have no common key, so match them pairwise
+    const unmatched = [...expected.rows];
+    for (const row of actual.rows) {
+      const index = unmatched.findIndex((candidate) => rowsMatch(candidate, row));
+      if (index >= 0) {
+        unmatched.splice(index, 1);
+      } else {
+        unexpectedRows.push(row);
+      }
+    }
+    missingRows.push(...unmatched);
+  } else {
+    const remaining = new Map<string, number>();
+    for (const row of expected.rows) {
+      const key = rowKey(row);
+      remaining.set(key, (remaining.get(key) || 0) + 1);
+    }
+    for (const row of actual.rows) {
+      const key = rowKey(row);
+      const count = remaining.get(key) || 0;
+      if (count > 0) {
+        remaining.set(key, count - 1);
+      } else {
+        unexpectedRows.push(row);
+      }
+    }
+    for (const row of expected.rows) {
+      const key = rowKey(row);
+      const count = remaining.get(key) || 0;
+      if (count > 0) {
+        remaining.set(key, count - 1);
+        missingRows.push(row);
+      }
+    }
+  }
+
+  return {
+    passed: columnsMatch && missingRows.length === 0 && unexpectedRows.length === 0,
+    diff: {
+      ordered,
+      columnsMatch,
+      expectedColumns: expected.columns,
+      actualColumns: actual.columns,
+      expectedRowCount: expected.rows.length,
+      actualRowCount: actual.rows.length,
+      missingRows: missingRows.slice(0, MAX_DIFF_ROWS),
+      unexpectedRows: unexpectedRows.slice(0, MAX_DIFF_ROWS),
+      firstMismatchIndex,
+    },
+  };
+}
+
+/**
+ * Runs learner SQL against a disposable schema.
+ * Every test case gets its own transaction on the sandbox connection
+ * (SQL_SANDBOX_DATABASE_URL): a randomly named schema is created, the exercise
+ * setup script and the test case's setup SQL are applied, the learner query
+ * runs, and the whole transaction is rolled back so nothing persists.
+ * The sandbox role must not have privileges on the application tables.
+ */
+export class SqlRunner {
+  private pool: Pool | null = null;
+
+  async run(
+    exerciseSetupSql: string | null,
+    code: string,
+    testCases: TestCase[],
+    limits: ResourceLimits = DEFAULT_RESOURCE_LIMITS
+  ): Promise<TestResult[]> {
+    const testResults: TestResult[] = [];
+
+    for (const testCase of testCases) {
+      const expected = toResultSet(testCase.expected_output);
+      const baseResult = {
+        testCaseId: testCase.id,
+        testName: testCase.test_name,
+        expected: testCase.expected_output,
+        isHidden: testCase.is_hidden,
+        points: testCase.points,
+        comparator: testCase.comparator || 'exact',
+      };
+
+      try {
+        const actual = await this.executeInSandbox(
+          [exerciseSetupSql, testCase.setup_sql],
+          code,
+          testCaseLimits(limits, testCase).timeLimitMs
+        );
+        testResults.push({ ...baseResult, ...(await this.compare(testCase, expected, actual)) });
+      } catch (error: any) {
+        testResults.push({
+          ...baseResult,
+          passed: false,
+          actual: null,
+          error: error.message,
+          status: error instanceof ResourceLimitError ? error.status : undefined,
+        });
+      }
+    }
+
+    return testResults;
+  }
+
+  /**
+   * Run a query against the exercise schema without grading it.
+   * `extraSetupSql` runs after the exercise setup, e.g. data supplied by the learner.
+   */
+  async query(
+    exerciseSetupSql: string | null,
+    extraSetupSql: string | null,
+    code: string,
+    limits: ResourceLimits = DEFAULT_RESOURCE_LIMITS
+  ): Promise<ResultSet> {
+    return this.executeInSandbox([exerciseSetupSql, extraSetupSql], code, limits.timeLimitMs);
+  }
+
+  private getPool(): Pool {
+    if (!env.SQL_SANDBOX_DATABASE_URL) {
+      throw new Error('SQL exercises are not configured (SQL_SANDBOX_DATABASE_URL is not set)');
+    }
+
+    if (!this.pool) {
+      this.pool = new Pool({
+        connectionString: env.SQL_SANDBOX_DATABASE_URL,
+        max: 5,
+        idleTimeoutMillis: 30000,
+        connectionTimeoutMillis: 2000,
+      });
+      this.pool.on('error', (err) => {
+        logger.error('Unexpected SQL sandbox database error', err);
+      });
+    }
+
+    return this.pool;
+  }
+
+  /**
+   * Setup scripts may take longer than the learner query (e.g. seeding a large
+   * table for a performance test), so the time limit only applies to the query
+   */
+  private async executeInSandbox(
+    setupScripts: Array<string | null | undefined>,
+    code: string,
+    timeLimitMs: number
+  ): Promise<ResultSet> {
+    const pool = this.getPool();
+    const client = await pool.connect();
+    const schema = `sandbox_${crypto.randomBytes(8).toString('hex')}`;
+
+    try {
+      await client.query('BEGIN');
+      await client.query(`CREATE SCHEMA ${schema}`);
+      await client.query(`SET LOCAL search_path TO ${schema}`);
+      await client.query(`SET LOCAL statement_timeout = ${Math.max(SETUP_TIMEOUT_MS, timeLimitMs)}`);
+
+      for (const script of setupScripts) {
+        if (!script) continue;
+        try {
+          await client.query(script);
+        } catch (error: any) {
+          throw new Error(`Exercise setup failed: ${error.message}`);
+        }
+      }
+
+      await client.query(`SET LOCAL statement_timeout = ${Math.round(timeLimitMs)}`);
+      const result = await this.queryWithCancel(client, code, timeLimitMs);
+      return {
+        columns: result.fields.map((field) => field.name),
+        rows: result.rows.slice(0, MAX_RESULT_ROWS),
+      };
+    } finally {
+      // The learner may have issued COMMIT, so drop the schema explicitly as well
+      await client.query('ROLLBACK').catch(() => undefined);
+      await client.query(`DROP SCHEMA IF EXISTS ${schema} CASCADE`).catch(() => undefined);
+      // Temp tables and session settings outlive the transaction, so the
+      // connection is closed rather than handed to the next submission
+      client.release(true);
+    }
+  }
+
+  /**
+   * Run the learner query, cancelling it from a second connection if it outlives
+   * the timeout (the learner can override statement_timeout inside the transaction)
+   */
+  private async queryWithCancel(
+    client: PoolClient,
+    code: string,
+    timeLimitMs: number
+  ): Promise<QueryArrayResult<unknown[]>> {
+    const pidResult = await client.query<{ pid: number }>('SELECT pg_backend_pid() AS pid');
+    const pid = pidResult.rows[0].pid;
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      this.getPool()
+        .query('SELECT pg_cancel_backend($1)', [pid])
+        .catch((error) => logger.warn('Failed to cancel SQL sandbox query', { pid, error }));
+    }, timeLimitMs + 1000);
+
+    try {
+      const result: QueryArrayResult<unknown[]> | QueryArrayResult<unknown[]>[] = await client.query<unknown[]>({
+        text: code,
+        rowMode: 'array',
+      });
+
+      // Multiple statements return one result each; grade the last one that produced rows
+      const results = Array.isArray(result) ? result : [result];
+      const last = [...results].reverse().find((r) => r.fields && r.fields.length > 0);
+      if (!last) {
+        throw new Error('Query did not return a result set');
+      }
+      return last;
+    } catch (error: any) {
+      if (timedOut || error.code === '57014') {
+        throw new ResourceLimitError('timeout', `Query exceeded the time limit of ${timeLimitMs / 1000} seconds`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Compare the query result with the test case's comparator.
+   * exact follows ordered_result, unordered ignores row order, float and
+   * whitespace relax cell comparison; custom checkers get the whole result set.
+   */
+  private async compare(
+    testCase: TestCase,
+    expected: ResultSet,
+    actual: ResultSet
+  ): Promise<Pick<TestResult, 'passed' | 'actual' | 'error' | 'details'>> {
+    const comparator = testCase.comparator || 'exact';
+
+    if (comparator === 'custom') {
+      const normalized = { columns: actual.columns, rows: actual.rows.map((row) => row.map(normalizeCell)) };
+      const comparison = await judgeOutput(testCase, normalized, testCase.expected_output);
+      return { passed: comparison.passed, actual, error: comparison.message };
+    }
+
+    if (comparator === 'regex') {
+      return { passed: false, actual, error: 'The regex comparator is not supported for SQL exercises' };
+    }
+
+    const { passed, diff } = compareResultSets(
+      expected,
+      actual,
+      comparator !== 'unordered' && !!testCase.ordered_result,
+      {
+        tolerance: comparator === 'float'
+          ? testCase.comparator_options?.tolerance ?? DEFAULT_FLOAT_TOLERANCE
+          : undefined,
+        collapseWhitespace: comparator === 'whitespace',
+      }
+    );
+
+    return {
+      passed,
+      actual,
+      error: passed ? undefined : this.describeDiff(diff),
+      details: diff,
+    };
+  }
+
+  private describeDiff(diff: ResultSetDiff): string {
+    if (!diff.columnsMatch) {
+      return `Expected columns [${diff.expectedColumns.join(', ')}], got [${diff.actualColumns.join(', ')}]`;
+    }
+    if (diff.expectedRowCount !== diff.actualRowCount) {
+      return `Expected ${diff.expectedRowCount} rows, got ${diff.actualRowCount}`;
+    }
+    if (diff.ordered && diff.firstMismatchIndex !== undefined) {
+      return `Row ${diff.firstMismatchIndex + 1} does not match the expected result`;
+    }
+    return `${diff.missingRows.length} expected row(s) missing, ${diff.unexpectedRows.length} unexpected row(s)`;
+  }
+}
+
+export const sqlRunner = new SqlRunner();
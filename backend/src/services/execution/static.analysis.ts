@@ -0,0 +1,535 @@
+import { Linter } from 'eslint';
+import { builtinRules } from 'eslint/use-at-your-own-risk';
+import { logger } from '../../config/logger.config';
+import { ExecutionBackendFactory } from './backend.factory';
+import { stripCommentsAndLiterals } from './cpp.harness';
+
+export type AnalysisLanguage = 'javascript' | 'python' | 'java';
+export type RuleSeverity = 'off' | 'warn' | 'error';
+export type RuleSetting = RuleSeverity | [RuleSeverity, ...any[]];
+
+/**
+ * A construct learners may not use. `name` is a function or method name,
+ * optionally qualified ("Math.max"); "Array.prototype.sort" means any `.sort()`
+ * call. For imports it is the module name.
+ */
+export interface ForbiddenConstruct {
+  type: 'loops' | 'call' | 'import';
+  name?: string;
+  message?: string; // Shown to the learner instead of the default message
+}
+
+/**
+ * Per-exercise static analysis, stored in exercises.static_analysis.
+ * `rules` are ESLint rules for JavaScript and the built-in checks below for
+ * Python and Java, configured the ESLint way: "warn", "error" or
+ * ["error", { options }]. Forbidden constructs are always errors. With a
+ * deduction every error costs pointsPerError exercise points, up to maxPoints.
+ */
+export interface StaticAnalysisConfig {
+  rules?: Record<string, RuleSetting>;
+  forbidden?: ForbiddenConstruct[];
+  deduction?: { pointsPerError: number; maxPoints?: number } | null;
+}
+
+export interface AnalysisFinding {
+  ruleId: string; // forbidden-construct for forbidden constructs
+  message: string;
+  severity: 'error' | 'warning';
+  line: number; // 1-based
+  column: number; // 1-based
+  endLine?: number;
+  endColumn?: number;
+}
+
+export interface StaticAnalysisResult {
+  findings: AnalysisFinding[];
+  deduction: number; // Exercise points deducted from the submission
+}
+
+export const ANALYSIS_LANGUAGES: AnalysisLanguage[] = ['javascript', 'python', 'java'];
+export const FORBIDDEN_CONSTRUCT_RULE = 'forbidden-construct';
+
+export const PYTHON_RULES = [
+  'unused-import',
+  'unused-variable',
+  'wildcard-import',
+  'bare-except',
+  'global-statement',
+  'comparison-to-none',
+  'mutable-default-argument',
+  'naming',
+  'line-too-long',
+];
+
+export const JAVA_RULES = ['naming', 'empty-catch', 'system-exit', 'wildcard-import', 'line-too-long'];
+
+const SEVERITIES: RuleSeverity[] = ['off', 'warn', 'error'];
+const QUALIFIED_NAME = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/;
+const MAX_FINDINGS = 100;
+const ANALYZER_TIME_LIMIT_SECONDS = 5;
+const JAVA_MAX_LINE_LENGTH = 100;
+
+const JAVA_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'synchronized', 'return', 'new', 'else', 'throw']);
+
+/**
+ * Script run in the sandbox to check Python code with the ast module. It reads
+ * `{ source, rules, forbidden }` from stdin, `rules` holding the options of each
+ * enabled rule, and prints the findings as a JSON list.
+ */
+const PYTHON_ANALYZER = `import ast
+import json
+import re
+import sys
+
+request = json.loads(sys.stdin.read())
+source = request["source"]
+rules = request["rules"]
+forbidden = request["forbidden"]
+findings = []
+
+
+def report(rule, node, message):
+    findings.append({
+        "ruleId": rule,
+        "message": message,
+        "line": getattr(node, "lineno", 1),
+        "column": getattr(node, "col_offset", 0) + 1,
+    })
+
+
+def call_name(node):
+    parts = []
+    target = node.func
+    while isinstance(target, ast.Attribute):
+        parts.insert(0, target.attr)
+        target = target.value
+    if isinstance(target, ast.Name):
+        parts.insert(0, target.id)
+    return parts
+
+
+try:
+    tree = ast.parse(source)
+except SyntaxError:
+    # Syntax errors are reported by the tests
+    print(json.dumps([]))
+    sys.exit(0)
+
+loaded = set()
+for node in ast.walk(tree):
+    if isinstance(node, ast.Name) and isinstance(node.ctx, ast.Load):
+        loaded.add(node.id)
+    elif isinstance(node, ast.Attribute):
+        base = node
+        while isinstance(base, ast.Attribute):
+            base = base.value
+        if isinstance(base, ast.Name):
+            loaded.add(base.id)
+
+snake_case = re.compile(r"^_{0,2}[a-z][a-z0-9_]*_{0,2}$|^_$")
+pascal_case = re.compile(r"^_?[A-Z][A-Za-z0-9]*$")
+
+for node in ast.walk(tree):
+    if "unused-import" in rules and isinstance(node, (ast.Import, ast.ImportFrom)):
+        for alias in node.names:
+            name = (alias.asname or alias.name).split(".")[0]
+            if alias.name != "*" and name not in loaded:
+                report("unused-import", node, "'%s' is imported but never used" % alias.name)
+
+    if "wildcard-import" in rules and isinstance(node, ast.ImportFrom):
+        if any(alias.name == "*" for alias in node.names):
+            report("wildcard-import", node, "Import the names you need instead of using *")
+
+    if "bare-except" in rules and isinstance(node, ast.ExceptHandler) and node.type is None:
+        report("bare-except", node, "Catch a specific exception instead of using a bare except")
+
+    if "global-statement" in rules and isinstance(node, ast.Global):
+        report("global-statement", node, "Avoid the global statement; pass values as arguments")
+
+    if "comparison-to-none" in rules and isinstance(node, ast.Compare):
+        for op, right in zip(node.ops, node.comparators):
+            if isinstance(op, (ast.Eq, ast.NotEq)) and isinstance(right, ast.Constant) and right.value is None:
+                report("comparison-to-none", node, "Use 'is None' or 'is not None' to compare with None")
+
+    if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef, ast.Lambda)):
+        arguments = node.args
+        if "mutable-default-argument" in rules:
+            for default in arguments.defaults + [d for d in arguments.kw_defaults if d is not None]:
+                mutable = isinstance(default, (ast.List, ast.Dict, ast.Set)) or (
+                    isinstance(default, ast.Call) and call_name(default) in (["list"], ["dict"], ["set"])
+                )
+                if mutable:
+                    report("mutable-default-argument", default, "Mutable default arguments are shared between calls; use None")
+        if "naming" in rules:
+            for argument in arguments.args + arguments.kwonlyargs:
+                if argument.arg not in ("self", "cls") and not snake_case.match(argument.arg):
+                    report("naming", argument, "Argument '%s' should be snake_case" % argument.arg)
+
+    if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef)):
+        if "naming" in rules and not snake_case.match(node.name):
+            report("naming", node, "Function '%s' should be snake_case" % node.name)
+        if "unused-variable" in rules:
+            stored = {}
+            used = set()
+            for child in ast.walk(node):
+                if isinstance(child, ast.Name):
+                    if isinstance(child.ctx, ast.Store):
+                        stored.setdefault(child.id, child)
+                    else:
+                        used.add(child.id)
+                elif isinstance(child, (ast.Global, ast.Nonlocal)):
+                    used.update(child.names)
+            for name, target in stored.items():
+                if name not in used and not name.startswith("_"):
+                    report("unused-variable", target, "Variable '%s' is assigned but never used" % name)
+
+    if "naming" in rules and isinstance(node, ast.ClassDef) and not pascal_case.match(node.name):
+        report("naming", node, "Class '%s' should be PascalCase" % node.name)
+
+    for construct in forbidden:
+        kind = construct["type"]
+        if kind == "loops" and isinstance(node, (ast.For, ast.AsyncFor, ast.While)):
+            report("forbidden-construct", node, construct["message"])
+        elif kind == "call" and isinstance(node, ast.Call):
+            name = construct["name"].split(".")
+            if call_name(node)[-len(name):] == name:
+                report("forbidden-construct", node, construct["message"])
+        elif kind == "import" and isinstance(node, (ast.Import, ast.ImportFrom)):
+            modules = [alias.name for alias in node.names] if isinstance(node, ast.Import) else [node.module or ""]
+            if any(module == construct["name"] or module.startswith(construct["name"] + ".") for module in modules):
+                report("forbidden-construct", node, construct["message"])
+
+if "line-too-long" in rules:
+    limit = rules["line-too-long"].get("max", 79)
+    for number, line in enumerate(source.splitlines(), 1):
+        if len(line) > limit:
+            findings.append({
+                "ruleId": "line-too-long",
+                "message": "Line is %d characters long (maximum %d)" % (len(line), limit),
+                "line": number,
+                "column": limit + 1,
+            })
+
+print(json.dumps(findings))`;
+
+// Flat config, which rejects invalid rule options instead of ignoring them
+const linter = new Linter({ configType: 'flat' });
+
+// Learner code runs with console available, like in the JavaScript runner
+const JAVASCRIPT_LANGUAGE_OPTIONS: Linter.FlatConfig['languageOptions'] = {
+  ecmaVersion: 'latest',
+  sourceType: 'script',
+  globals: { console: 'readonly' },
+};
+
+function severityOf(setting: RuleSetting): RuleSeverity {
+  return Array.isArray(setting) ? setting[0] : setting;
+}
+
+function optionsOf(setting: RuleSetting): Record<string, any> {
+  return (Array.isArray(setting) && setting[1]) || {};
+}
+
+function defaultMessage(construct: ForbiddenConstruct): string {
+  switch (construct.type) {
+    case 'loops':
+      return 'Loops are not allowed in this exercise';
+    case 'call':
+      return `${construct.name} must not be used in this exercise`;
+    default:
+      return `Importing ${construct.name} is not allowed in this exercise`;
+  }
+}
+
+/**
+ * The called name to match: "Array.prototype.sort" is any sort() method call
+ */
+function calledName(name: string): string[] {
+  const parts = name.split('.');
+  const prototype = parts.indexOf('prototype');
+  return prototype >= 0 ? parts.slice(prototype + 1) : parts;
+}
+
+/**
+ * Check an exercise's analysis settings when it is saved.
+ * Returns an error message, or null when the settings are valid.
+ */
+export function validateStaticAnalysis(config: any, language: string): string | null {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'Static analysis settings must be an object';
+  }
+  if (!ANALYSIS_LANGUAGES.includes(language as AnalysisLanguage)) {
+    return 'Static analysis is only supported for JavaScript, Python and Java exercises';
+  }
+
+  const rules = config.rules ?? {};
+  if (typeof rules !== 'object' || Array.isArray(rules)) {
+    return 'rules must map rule names to "off", "warn" or "error"';
+  }
+  for (const [rule, setting] of Object.entries<any>(rules)) {
+    const known = language === 'javascript'
+      ? builtinRules.has(rule)
+      : (language === 'python' ? PYTHON_RULES : JAVA_RULES).includes(rule);
+    if (!known) {
+      return `Unknown rule: ${rule}`;
+    }
+    const valid = Array.isArray(setting)
+      ? SEVERITIES.includes(setting[0]) && setting.length <= (language === 'javascript' ? Infinity : 2)
+      : SEVERITIES.includes(setting);
+    if (!valid) {
+      return `Rule ${rule} must be "off", "warn", "error" or ["error", { options }]`;
+    }
+  }
+  if (language === 'javascript') {
+    try {
+      linter.verify('', [{ rules }]);
+    } catch (error: any) {
+      return `Invalid ESLint rule options: ${error.message}`;
+    }
+  }
+
+  if (config.forbidden !== undefined) {
+    if (!Array.isArray(config.forbidden)) {
+      return 'forbidden must be a list of constructs';
+    }
+    for (const [i, construct] of config.forbidden.entries()) {
+      if (!construct || !['loops', 'call', 'import'].includes(construct.type)) {
+        return `forbidden[${i}].type must be loops, call or import`;
+      }
+      if (construct.type !== 'loops' && (typeof construct.name !== 'string' || !QUALIFIED_NAME.test(construct.name))) {
+        return `forbidden[${i}] needs the name of a function or module`;
+      }
+      if (construct.message !== undefined && typeof construct.message !== 'string') {
+        return `forbidden[${i}].message must be a string`;
+      }
+    }
+  }
+
+  const { deduction } = config;
+  if (deduction !== undefined && deduction !== null) {
+    if (typeof deduction.pointsPerError !== 'number' || deduction.pointsPerError <= 0) {
+      return 'deduction.pointsPerError must be a positive number';
+    }
+    if (deduction.maxPoints !== undefined && (typeof deduction.maxPoints !== 'number' || deduction.maxPoints < 0)) {
+      return 'deduction.maxPoints must be a number of at least 0';
+    }
+  }
+  return null;
+}
+
+/**
+ * Exercise points deducted for the error findings, capped at maxPoints and
+ * at the exercise points
+ */
+export function styleDeduction(
+  findings: AnalysisFinding[],
+  config: StaticAnalysisConfig,
+  exercisePoints: number
+): number {
+  if (!config.deduction) return 0;
+  const errors = findings.filter((finding) => finding.severity === 'error').length;
+  const cap = Math.min(config.deduction.maxPoints ?? exercisePoints, exercisePoints);
+  return Math.min(errors * config.deduction.pointsPerError, cap);
+}
+
+/**
+ * Static analysis of submitted code for style feedback. JavaScript is checked
+ * in-process with ESLint (parsing only, the code never runs), Python by an ast
+ * based script in the execution sandbox and Java with source-level checks.
+ * Code that does not parse yields no findings; the tests report the error.
+ */
+export class StaticAnalyzer {
+  async analyze(language: AnalysisLanguage, code: string, config: StaticAnalysisConfig): Promise<AnalysisFinding[]> {
+    const rules = Object.fromEntries(
+      Object.entries(config.rules ?? {}).filter(([, setting]) => severityOf(setting) !== 'off')
+    );
+    const forbidden = (config.forbidden ?? []).map((construct) => ({
+      ...construct,
+      message: construct.message || defaultMessage(construct),
+    }));
+
+    let findings: AnalysisFinding[];
+    switch (language) {
+      case 'javascript':
+        findings = this.analyzeJavaScript(code, rules, forbidden);
+        break;
+      case 'python':
+        findings = await this.analyzePython(code, rules, forbidden);
+        break;
+      case 'java':
+        findings = this.analyzeJava(code, rules, forbidden);
+        break;
+    }
+
+    const seen = new Set<string>();
+    return findings
+      .filter((finding) => {
+        const key = `${finding.ruleId}:${finding.line}:${finding.column}:${finding.message}`;
+        return !seen.has(key) && seen.add(key);
+      })
+      .sort((a, b) => a.line - b.line || a.column - b.column)
+      .slice(0, MAX_FINDINGS);
+  }
+
+  private analyzeJavaScript(
+    code: string,
+    rules: Record<string, RuleSetting>,
+    forbidden: ForbiddenConstruct[]
+  ): AnalysisFinding[] {
+    const selectors = forbidden.map((construct) => {
+      let selector: string;
+      if (construct.type === 'loops') {
+        selector = 'ForStatement, ForInStatement, ForOfStatement, WhileStatement, DoWhileStatement';
+      } else if (construct.type === 'import') {
+        selector = `CallExpression[callee.name="require"][arguments.0.value="${construct.name}"]`;
+      } else {
+        const parts = calledName(construct.name!);
+        const method = parts[parts.length - 1];
+        selector = parts.length === 1
+          ? `CallExpression[callee.name="${method}"], CallExpression[callee.property.name="${method}"]`
+          : `CallExpression[callee.object.name="${parts[parts.length - 2]}"][callee.property.name="${method}"]`;
+      }
+      return { selector, message: construct.message };
+    });
+
+    // Submissions are a single function expression, as the runner evaluates them
+    const source = `(\n${code}\n);`;
+    const languageOptions = JAVASCRIPT_LANGUAGE_OPTIONS;
+    const messages = [
+      ...linter.verify(source, [{ languageOptions, rules: rules as Linter.RulesRecord }]),
+      ...(selectors.length > 0
+        ? linter
+          .verify(source, [{ languageOptions, rules: { 'no-restricted-syntax': ['error', ...selectors] } }])
+          .map((message) => ({ ...message, ruleId: message.fatal ? null : FORBIDDEN_CONSTRUCT_RULE }))
+        : []),
+    ];
+    if (messages.some((message) => message.fatal)) {
+      return [];
+    }
+
+    return messages.map((message) => ({
+      ruleId: message.ruleId || 'eslint',
+      message: message.message,
+      severity: message.severity === 2 ? 'error' : 'warning',
+      line: message.line - 1,
+      column: message.column,
+      endLine: message.endLine !== undefined ? message.endLine - 1 : undefined,
+      endColumn: message.endColumn,
+    }));
+  }
+
+  private async analyzePython(
+    code: string,
+    rules: Record<string, RuleSetting>,
+    forbidden: ForbiddenConstruct[]
+  ): Promise<AnalysisFinding[]> {
+    const execution = await ExecutionBackendFactory.getBackend().execute({
+      code: PYTHON_ANALYZER,
+      language: 'python',
+      stdin: JSON.stringify({
+        source: code,
+        rules: Object.fromEntries(Object.entries(rules).map(([rule, setting]) => [rule, optionsOf(setting)])),
+        forbidden: forbidden.map((construct) => construct.type === 'call'
+          ? { ...construct, name: calledName(construct.name!).join('.') }
+          : construct),
+      }),
+      cpuTimeLimitSeconds: ANALYZER_TIME_LIMIT_SECONDS,
+    });
+
+    let reported: Omit<AnalysisFinding, 'severity'>[];
+    try {
+      reported = JSON.parse(execution.stdout);
+    } catch {
+      logger.warn('Python static analysis failed', { status: execution.status, stderr: execution.stderr });
+      return [];
+    }
+
+    return reported.map((finding) => ({
+      ...finding,
+      severity: finding.ruleId === FORBIDDEN_CONSTRUCT_RULE || severityOf(rules[finding.ruleId]) === 'error'
+        ? 'error'
+        : 'warning',
+    }));
+  }
+
+  private analyzeJava(
+    code: string,
+    rules: Record<string, RuleSetting>,
+    forbidden: ForbiddenConstruct[]
+  ): AnalysisFinding[] {
+    const source = stripCommentsAndLiterals(code);
+    const findings: AnalysisFinding[] = [];
+    const report = (ruleId: string, index: number, message: string) => {
+      const before = source.slice(0, index);
+      const line = before.split('\n').length;
+      findings.push({
+        ruleId,
+        message,
+        severity: ruleId === FORBIDDEN_CONSTRUCT_RULE || severityOf(rules[ruleId]) === 'error' ? 'error' : 'warning',
+        line,
+        column: index - before.lastIndexOf('\n'),
+      });
+    };
+    const scan = (pattern: RegExp, onMatch: (match: RegExpExecArray) => void) => {
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(source)) !== null) onMatch(match);
+    };
+
+    if (rules.naming) {
+      scan(/\b(?:class|interface|enum|record)\s+([A-Za-z_$][\w$]*)/g, (match) => {
+        if (!/^[A-Z][A-Za-z0-9]*$/.test(match[1])) {
+          report('naming', match.index, `Type '${match[1]}' should be PascalCase`);
+        }
+      });
+      scan(/([\w$>\]]+)\s+([A-Za-z_$][\w$]*)\s*\([^()]*\)\s*(?:throws\s+[\w$.,\s]+)?\{/g, (match) => {
+        const [, before, name] = match;
+        if (!JAVA_KEYWORDS.has(before) && !JAVA_KEYWORDS.has(name) && !/^[a-z][A-Za-z0-9]*$/.test(name)) {
+          report('naming', match.index + match[0].indexOf(name), `Method '${name}' should be camelCase`);
+        }
+      });
+    }
+    if (rules['empty-catch']) {
+      scan(/\bcatch\s*\([^)]*\)\s*\{\s*\}/g, (match) => {
+        report('empty-catch', match.index, 'Empty catch block hides errors; handle or rethrow the exception');
+      });
+    }
+    if (rules['system-exit']) {
+      scan(/\bSystem\s*\.\s*exit\s*\(/g, (match) => {
+        report('system-exit', match.index, 'Return from the method instead of calling System.exit');
+      });
+    }
+    if (rules['wildcard-import']) {
+      scan(/\bimport\s+(?:static\s+)?[\w$.]+\.\*\s*;/g, (match) => {
+        report('wildcard-import', match.index, 'Import the classes you need instead of using *');
+      });
+    }
+    if (rules['line-too-long']) {
+      const limit = optionsOf(rules['line-too-long']).max ?? JAVA_MAX_LINE_LENGTH;
+      let offset = 0;
+      for (const line of code.split('\n')) {
+        if (line.length > limit) {
+          report('line-too-long', offset + limit, `Line is ${line.length} characters long (maximum ${limit})`);
+        }
+        offset += line.length + 1;
+      }
+    }
+
+    for (const construct of forbidden) {
+      let pattern: RegExp;
+      if (construct.type === 'loops') {
+        pattern = /\b(?:for|while)\s*\(|\bdo\s*\{/g;
+      } else if (construct.type === 'import') {
+        pattern = new RegExp(`\\bimport\\s+(?:static\\s+)?${construct.name!.replace(/\./g, '\\.')}\\b`, 'g');
+      } else {
+        const parts = calledName(construct.name!);
+        pattern = new RegExp(`${parts.length === 1 ? '(?<![\\w$])' : '\\b'}${parts.join('\\s*\\.\\s*')}\\s*\\(`, 'g');
+      }
+      scan(pattern, (match) => report(FORBIDDEN_CONSTRUCT_RULE, match.index, construct.message!));
+    }
+
+    return findings;
+  }
+}
+
+export const staticAnalyzer = new StaticAnalyzer();
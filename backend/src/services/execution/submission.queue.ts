@@ -0,0 +1,135 @@
+import { RedisClientType } from 'redis';
+import { redis } from '../../config/redis.config';
+import { logger } from '../../config/logger.config';
+
+const QUEUE_KEY = 'submissions:queue';
+const STATUS_CHANNEL_PREFIX = 'submissions:status:';
+const POLL_TIMEOUT_SECONDS = 5;
+
+export interface SubmissionStatusEvent {
+  submissionId: string;
+  status: string;
+}
+
+export type SubmissionJobHandler = (submissionId: string) => Promise<void>;
+
+/**
+ * Redis-backed queue of submissions waiting to be graded.
+ * Submissions are pushed as ids; the code itself lives in code_submissions.
+ * Status changes are published on a per-submission channel so any API
+ * instance can stream them to the client.
+ */
+export class SubmissionQueue {
+  private workers: RedisClientType[] = [];
+  private subscriber: RedisClientType | null = null;
+  private running = false;
+
+  /**
+   * Add a submission to the end of the queue
+   */
+  async enqueue(submissionId: string): Promise<void> {
+    await redis.getClient().lPush(QUEUE_KEY, submissionId);
+  }
+
+  /**
+   * Number of submissions waiting to be picked up
+   */
+  async length(): Promise<number> {
+    return redis.getClient().lLen(QUEUE_KEY);
+  }
+
+  /**
+   * Start `concurrency` worker loops. Each loop uses its own connection
+   * because BRPOP blocks the connection it runs on.
+   */
+  async start(handler: SubmissionJobHandler, concurrency: number): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    for (let i = 0; i < concurrency; i++) {
+      const connection = redis.getClient().duplicate();
+      connection.on('error', (err) => logger.error('Submission worker Redis error', err));
+      await connection.connect();
+      this.workers.push(connection);
+      void this.work(connection, handler);
+    }
+
+    logger.info('Submission workers started', { concurrency });
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    await Promise.all(this.workers.map((connection) => connection.disconnect().catch(() => undefined)));
+    this.workers = [];
+
+    if (this.subscriber) {
+      await this.subscriber.disconnect().catch(() => undefined);
+      this.subscriber = null;
+    }
+  }
+
+  /**
+   * Announce a status change for a submission
+   */
+  async publishStatus(event: SubmissionStatusEvent): Promise<void> {
+    try {
+      await redis.getClient().publish(STATUS_CHANNEL_PREFIX + event.submissionId, JSON.stringify(event));
+    } catch (error) {
+      // Clients can still poll, so a failed notification is not fatal
+      logger.warn('Failed to publish submission status', { ...event, error });
+    }
+  }
+
+  /**
+   * Listen for status changes of one submission. Returns an unsubscribe function.
+   */
+  async subscribe(
+    submissionId: string,
+    listener: (event: SubmissionStatusEvent) => void
+  ): Promise<() => Promise<void>> {
+    const subscriber = await this.getSubscriber();
+    const channel = STATUS_CHANNEL_PREFIX + submissionId;
+    const onMessage = (message: string) => listener(JSON.parse(message));
+
+    await subscriber.subscribe(channel, onMessage);
+    return async () => {
+      await subscriber.unsubscribe(channel, onMessage).catch(() => undefined);
+    };
+  }
+
+  private async getSubscriber(): Promise<RedisClientType> {
+    if (!this.subscriber) {
+      const subscriber = redis.getClient().duplicate();
+      subscriber.on('error', (err) => logger.error('Submission subscriber Redis error', err));
+      await subscriber.connect();
+      this.subscriber = subscriber;
+    }
+    return this.subscriber;
+  }
+
+  private async work(connection: RedisClientType, handler: SubmissionJobHandler): Promise<void> {
+    while (this.running) {
+      let submissionId: string | undefined;
+
+      try {
+        const job = await connection.brPop(QUEUE_KEY, POLL_TIMEOUT_SECONDS);
+        submissionId = job?.element;
+      } catch (error) {
+        if (!this.running) break;
+        logger.error('Failed to read from submission queue', error);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        continue;
+      }
+
+      if (!submissionId) continue;
+
+      try {
+        await handler(submissionId);
+      } catch (error) {
+        logger.error('Submission job failed', { submissionId, error });
+      }
+    }
+  }
+}
+
+export const submissionQueue = new SubmissionQueue();
@@ -0,0 +1,172 @@
+/**
+ * Report writers loaded into the test runners of project exercises.
+ * The test runner and the learner's code share a process, so a report file
+ * the runner may write is one the learner's code may write too. Instead, each
+ * writer reads a nonce from stdin before any learner module is loaded and
+ * prints every JUnit XML report to stdout as one line: the nonce, a space and
+ * the base64 encoded XML. The parent only accepts lines with the nonce.
+ * Nothing of the nonce ends up in argv, the environment or a file, but code
+ * that digs through the runner's memory can still find it.
+ */
+
+/**
+ * Started instead of `python -m pytest`, with the pytest arguments. pytest is
+ * imported before the workspace root goes onto sys.path, so a workspace file
+ * cannot stand in for it.
+ */
+export const PYTEST_RUNNER_SOURCE = `import base64
+import os
+import sys
+import tempfile
+
+
+def main():
+    nonce = sys.stdin.readline().strip()
+    out = os.dup(1)
+
+    import pytest
+
+    sys.path.insert(0, os.getcwd())
+    handle, report = tempfile.mkstemp(suffix='.xml')
+    os.close(handle)
+    try:
+        code = pytest.main([*sys.argv[1:], f'--junitxml={report}'])
+        with open(report, 'rb') as file:
+            xml = file.read()
+    finally:
+        os.remove(report)
+
+    sys.stdout.flush()
+    if xml:
+        os.write(out, nonce.encode() + b' ' + base64.b64encode(xml) + b'\\n')
+    return code
+
+
+sys.exit(main())
+`;
+
+/**
+ * Passed to Node as both `--import` and `--test-reporter`: imported first, it
+ * reads the nonce, and the same module instance then turns the test events
+ * into the junit reporter's XML. `writeSync` is captured before the learner's
+ * code could replace it.
+ */
+export const NODE_REPORTER_SOURCE = `import fs from 'node:fs';
+import { junit } from 'node:test/reporters';
+
+const writeSync = fs.writeSync;
+const nonce = fs.readFileSync(0, 'utf8').trim();
+
+export default async function* report(source) {
+  let xml = '';
+  for await (const chunk of junit(source)) xml += chunk;
+  writeSync(1, nonce + ' ' + Buffer.from(xml).toString('base64') + '\\n');
+}
+`;
+
+// Registered with the JUnit Platform through META-INF/services
+export const JUNIT_LISTENER_CLASS = 'grading.ReportListener';
+export const JUNIT_LISTENER_FILE = 'ReportListener.java';
+
+/**
+ * Wraps the console launcher's legacy XML listener, which writes to a private
+ * temp directory. The launcher creates its listeners before it loads any test
+ * class.
+ */
+export const JUNIT_LISTENER_SOURCE = `package grading;
+
+import java.io.BufferedReader;
+import java.io.FileDescriptor;
+import java.io.FileOutputStream;
+import java.io.IOException;
+import java.io.InputStreamReader;
+import java.io.PrintWriter;
+import java.io.UncheckedIOException;
+import java.nio.charset.StandardCharsets;
+import java.nio.file.DirectoryStream;
+import java.nio.file.Files;
+import java.nio.file.Path;
+import java.util.Base64;
+import org.junit.platform.engine.TestExecutionResult;
+import org.junit.platform.engine.reporting.ReportEntry;
+import org.junit.platform.launcher.TestExecutionListener;
+import org.junit.platform.launcher.TestIdentifier;
+import org.junit.platform.launcher.TestPlan;
+import org.junit.platform.reporting.legacy.xml.LegacyXmlReportGeneratingListener;
+
+public class ReportListener implements TestExecutionListener {
+  private final String nonce;
+  private final FileOutputStream out = new FileOutputStream(FileDescriptor.out);
+  private final Path reportsDir;
+  private final LegacyXmlReportGeneratingListener xml;
+
+  public ReportListener() throws IOException {
+    nonce = new BufferedReader(new InputStreamReader(System.in, StandardCharsets.UTF_8)).readLine();
+    reportsDir = Files.createTempDirectory("junit-report");
+    xml = new LegacyXmlReportGeneratingListener(reportsDir, new PrintWriter(System.err, true));
+  }
+
+  @Override
+  public void testPlanExecutionStarted(TestPlan testPlan) {
+    xml.testPlanExecutionStarted(testPlan);
+  }
+
+  @Override
+  public void dynamicTestRegistered(TestIdentifier testIdentifier) {
+    xml.dynamicTestRegistered(testIdentifier);
+  }
+
+  @Override
+  public void executionSkipped(TestIdentifier testIdentifier, String reason) {
+    xml.executionSkipped(testIdentifier, reason);
+  }
+
+  @Override
+  public void executionStarted(TestIdentifier testIdentifier) {
+    xml.executionStarted(testIdentifier);
+  }
+
+  @Override
+  public void executionFinished(TestIdentifier testIdentifier, TestExecutionResult result) {
+    xml.executionFinished(testIdentifier, result);
+  }
+
+  @Override
+  public void reportingEntryPublished(TestIdentifier testIdentifier, ReportEntry entry) {
+    xml.reportingEntryPublished(testIdentifier, entry);
+  }
+
+  @Override
+  public void testPlanExecutionFinished(TestPlan testPlan) {
+    xml.testPlanExecutionFinished(testPlan);
+    if (nonce == null) {
+      return; // Another instance already took the nonce
+    }
+
+    StringBuilder lines = new StringBuilder();
+    try (DirectoryStream<Path> reports = Files.newDirectoryStream(reportsDir, "*.xml")) {
+      for (Path report : reports) {
+        lines.append(nonce).append(' ').append(Base64.getEncoder().encodeToString(Files.readAllBytes(report))).append('\\n');
+        Files.delete(report);
+      }
+      Files.delete(reportsDir);
+      System.out.flush();
+      out.write(lines.toString().getBytes(StandardCharsets.UTF_8));
+    } catch (IOException e) {
+      throw new UncheckedIOException(e);
+    }
+  }
+}
+`;
+
+/**
+ * Take the reports tagged with the nonce out of a runner's stdout
+ */
+export function takeReports(stdout: string, nonce: string): { stdout: string; reports: string[] } {
+  const reports: string[] = [];
+  const rest = stdout.replace(new RegExp(`${nonce} ([A-Za-z0-9+/=]*)\\n`, 'g'), (_line, base64: string) => {
+    reports.push(Buffer.from(base64, 'base64').toString('utf8'));
+    return '';
+  });
+  return { stdout: rest, reports };
+}
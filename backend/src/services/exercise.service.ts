@@ -1,33 +1,88 @@
+import { database } from '../config/database.config';
 import { exerciseRepository } from '../repositories/exercise.repository';
 import { Exercise, ExerciseHint, ExerciseTestCase } from '../models/exercise.model';
-import { BadRequestError, NotFoundError, ForbiddenError } from '../utils/errors.util';
+import { BadRequestError, ConflictError, NotFoundError, ForbiddenError, ValidationError } from '../utils/errors.util';
 import { logger } from '../config/logger.config';
+import { HiddenTestScoring, HiddenTestVisibility } from './execution/scoring';
+import { ComparatorOptions, ComparatorType, validateComparator } from './execution/comparators';
+import { InputGenerator, validateInputGenerator } from './execution/random.inputs';
+import { codeExecutionService } from './codeExecution.service';
+import { ExerciseValidationReport } from './execution/exercise.validation';
+import { validateLimits } from './execution/resource.limits';
+import { isPerformanceTest, validateGeneratedInput } from './execution/performance.tests';
+import {
+  FunctionSignature,
+  functionStub,
+  SIGNATURE_LANGUAGES,
+  SignatureLanguage,
+  validateFunctionSignature,
+} from './execution/function.harness';
+import { StaticAnalysisConfig, validateStaticAnalysis } from './execution/static.analysis';
+import {
+  learnerProjectFiles,
+  ProjectFile,
+  projectSolutionCode,
+  projectStarterCode,
+  validateProjectFiles,
+} from './execution/project.runner';
+import {
+  ExerciseType,
+  ExerciseTypeConfig,
+  learnerTypeConfig,
+  prepareTypeConfig,
+  typeSolutionCode,
+  typeStarterCode,
+  validateTypeConfig,
+} from './execution/exercise.types';
+
+// Rows the repository writes
+type NewExercise = Parameters<typeof exerciseRepository.create>[0];
+type NewTestCase = Parameters<typeof exerciseRepository.addTestCase>[0];
+
+const HIDDEN_TEST_SCORING_POLICIES: HiddenTestScoring[] = ['always', 'final_only'];
+const HIDDEN_TEST_VISIBILITY_POLICIES: HiddenTestVisibility[] = ['summary', 'names', 'full'];
 
 export interface CreateExerciseRequest {
   topicId: string;
   title: string;
   description: string;
   instructions: string;
-  language: 'javascript' | 'java' | 'python';
+  language: 'javascript' | 'java' | 'python' | 'cpp' | 'sql';
   difficultyLevel: 'beginner' | 'intermediate' | 'advanced';
   starterCode?: string;
   solutionCode?: string;
   explanation?: string;
   points?: number;
-  timeLimitSeconds?: number;
+  timeLimitSeconds?: number | null; // CPU time per test case, null for the platform default
+  memoryLimitMb?: number | null; // Memory per test case, null for the platform default
+  setupSql?: string; // SQL exercises: schema and seed script
+  hiddenTestScoring?: HiddenTestScoring;
+  hiddenTestVisibility?: HiddenTestVisibility;
+  inputGenerator?: InputGenerator | null; // Randomized tests graded against solutionCode
+  functionSignature?: FunctionSignature | null; // Java/Python: the function learners implement
+  staticAnalysis?: StaticAnalysisConfig | null; // Lint rules, forbidden constructs and point deductions
+  projectFiles?: ProjectFile[] | null; // Multi-file project graded by its test suite; replaces starter and solution code
+  exerciseType?: ExerciseType; // Defaults to code
+  typeConfig?: ExerciseTypeConfig | null; // Parsons lines and fill-in-the-blank templates replace starter and solution code
   isPublished?: boolean;
 }
 
 export interface CreateTestCaseRequest {
   testName: string;
-  testType?: 'public' | 'hidden' | 'edge_case';
-  inputData?: any;
+  testType?: 'public' | 'hidden' | 'edge_case' | 'performance';
+  inputData?: any; // Performance tests may use { generate: { args, seed } } for large inputs
   expectedOutput?: any;
   stdin?: string;
   expectedStdout?: string;
   points?: number;
   isHidden?: boolean;
   orderIndex?: number;
+  setupSql?: string; // SQL exercises: extra setup for this test case
+  orderedResult?: boolean; // SQL exercises: compare rows in order
+  comparator?: ComparatorType; // How the output is compared, defaults to exact
+  comparatorOptions?: ComparatorOptions;
+  timeoutMs?: number | null; // Overrides the exercise time limit
+  memoryLimitMb?: number | null; // Overrides the exercise memory limit
 }
 
 export interface CreateHintRequest {
@@ -45,30 +100,7 @@ export class ExerciseService {
     userId: string
   ): Promise<Exercise> {
     try {
-      // Validate required fields
-      if (!data.title || !data.description || !data.instructions) {
-        throw new BadRequestError('Title, description, and instructions are required');
-      }
-
-      if (!data.solutionCode) {
-        throw new BadRequestError('Solution code is required');
-      }
-
-      const exercise = await exerciseRepository.create({
-        topic_id: data.topicId,
-        title: data.title,
-        description: data.description,
-        instructions: data.instructions,
-        language: data.language,
-        difficulty_level: data.difficultyLevel,
-        starter_code: data.starterCode,
-        solution_code: data.solutionCode,
-        explanation: data.explanation,
-        points: data.points ?? 10,
-        time_limit_seconds: data.timeLimitSeconds ?? 300,
-        is_published: data.isPublished ?? false,
-        created_by: userId,
-      });
+      const exercise = await exerciseRepository.create(this.prepareExercise(data, userId));
 
       logger.info('Exercise created', {
         exerciseId: exercise.id,
@@ -96,7 +128,94 @@ export class ExerciseService {
     // Check if user can access unpublished exercises
     const includeHiddenTests = userRole === 'instructor' || userRole === 'admin';
 
-    return exerciseRepository.getExerciseWithDetails(exerciseId, includeHiddenTests);
+    let details = await exerciseRepository.getExerciseWithDetails(exerciseId, includeHiddenTests);
+    if (!includeHiddenTests) {
+      details = this.learnerView(details);
+    }
+    const variants = await exerciseRepository.findVariants(exercise, includeHiddenTests);
+    details.variants = variants.map((variant) => ({
+      id: variant.id,
+      title: variant.title,
+      language: variant.language,
+      is_published: variant.is_published,
+    }));
+    return details;
+  }
+
+  /**
+   * Find the version of an exercise in a language, null when there is none
+   */
+  async findVariant(exerciseId: string, language: string): Promise<Exercise | null> {
+    const exercise = await exerciseRepository.findById(exerciseId);
+
+    if (!exercise) {
+      throw new NotFoundError('Exercise not found');
+    }
+
+    if (exercise.language === language) {
+      return exercise;
+    }
+    const variants = await exerciseRepository.findVariants(exercise, true);
+    return variants.find((variant) => variant.language === language) ?? null;
+  }
+
+  /**
+   * Create a version of an exercise in another language with its test cases,
+   * linked to the exercise as one logical exercise. The version starts
+   * unpublished, in the same topic.
+   */
+  async createVariant(
+    sourceId: string,
+    data: Omit<CreateExerciseRequest, 'topicId'>,
+    testCases: CreateTestCaseRequest[],
+    userId: string
+  ): Promise<Exercise> {
+    const source = await exerciseRepository.findById(sourceId);
+
+    if (!source) {
+      throw new NotFoundError('Exercise not found');
+    }
+
+    const existing = await this.findVariant(sourceId, data.language);
+    if (existing) {
+      throw new ConflictError(`This exercise already has a ${data.language} version`, { exerciseId: existing.id });
+    }
+
+    const exerciseData = this.prepareExercise({ ...data, topicId: source.topic_id, isPublished: false }, userId);
+    for (const testCase of testCases) {
+      this.validateTestCase(data.language, testCase);
+    }
+
+    // All or nothing, so a failed attempt can be retried
+    const exercise = await database.transaction(async (client) => {
+      // The first translation starts the group, named after the source
+      const variantGroupId = source.variant_group_id ?? source.id;
+      if (!source.variant_group_id) {
+        await exerciseRepository.update(source.id, { variant_group_id: variantGroupId }, client);
+      }
+
+      const created = await exerciseRepository.create(
+        { ...exerciseData, variant_group_id: variantGroupId, translated_from_id: source.id },
+        client
+      );
+      for (const [index, testCase] of testCases.entries()) {
+        await exerciseRepository.addTestCase(
+          this.testCaseRow(created.id, { ...testCase, orderIndex: index }, userId),
+          client
+        );
+      }
+      return created;
+    });
+
+    logger.info('Exercise variant created', {
+      exerciseId: exercise.id,
+      sourceId,
+      language: data.language,
+      testCases: testCases.length,
+      userId,
+    });
+
+    return exercise;
   }
 
   /**
@@ -105,9 +224,10 @@ export class ExerciseService {
   async getExercisesByTopic(
     topicId: string,
     userRole: string
-  ): Promise<Exercise[]> {
+  ): Promise<any[]> {
     const includeUnpublished = userRole === 'instructor' || userRole === 'admin';
-    return exerciseRepository.findByTopicId(topicId, includeUnpublished);
+    const exercises = await exerciseRepository.findByTopicId(topicId, includeUnpublished);
+    return includeUnpublished ? exercises : exercises.map((e) => this.learnerView(e.toJSON()));
   }
 
   /**
@@ -130,6 +250,62 @@ export class ExerciseService {
       throw new ForbiddenError('You do not have permission to update this exercise');
     }
 
+    this.validateHiddenTestPolicies(updates);
+    this.validateInputGenerator(updates.inputGenerator, updates.language || exercise.language);
+    this.validateFunctionSignature(updates.functionSignature, updates.language || exercise.language);
+    this.validateStaticAnalysis(
+      updates.staticAnalysis !== undefined ? updates.staticAnalysis : exercise.static_analysis,
+      updates.language || exercise.language
+    );
+    this.validateProjectFiles(
+      updates.projectFiles !== undefined ? updates.projectFiles : exercise.project_files as ProjectFile[] | null,
+      updates.language || exercise.language,
+      {
+        inputGenerator: updates.inputGenerator !== undefined
+          ? updates.inputGenerator
+          : exercise.input_generator as InputGenerator | null,
+        functionSignature: updates.functionSignature !== undefined
+          ? updates.functionSignature
+          : exercise.function_signature as FunctionSignature | null,
+      }
+    );
+    this.validateExerciseLimits(updates);
+
+    const exerciseType = updates.exerciseType ?? exercise.exercise_type;
+    // Changing the type drops the settings of the old one
+    const typeConfig = updates.typeConfig !== undefined
+      ? updates.typeConfig
+      : exerciseType === exercise.exercise_type ? exercise.type_config as ExerciseTypeConfig | null : null;
+    if (updates.exerciseType !== undefined || updates.typeConfig !== undefined) {
+      this.validateExerciseType(exerciseType, typeConfig, {
+        starterCode: updates.starterCode !== undefined ? updates.starterCode : exercise.starter_code ?? undefined,
+        projectFiles: updates.projectFiles !== undefined ? updates.projectFiles : exercise.project_files as ProjectFile[] | null,
+      });
+    }
+
+    // Publishing, or changing the code of a published exercise, requires the
+    // solution and starter code to behave as expected against the tests
+    const publishing = updates.isPublished ?? exercise.is_published;
+    const changed = (value: unknown, current: unknown) =>
+      value !== undefined && JSON.stringify(value) !== JSON.stringify(current);
+    const codeChanged = changed(updates.language, exercise.language)
+      || changed(updates.starterCode, exercise.starter_code)
+      || changed(updates.solutionCode, exercise.solution_code)
+      || changed(updates.setupSql, exercise.setup_sql)
+      || changed(updates.inputGenerator, exercise.input_generator)
+      || changed(updates.functionSignature, exercise.function_signature)
+      || changed(updates.projectFiles, exercise.project_files)
+      || changed(updates.exerciseType, exercise.exercise_type)
+      || changed(updates.typeConfig, exercise.type_config)
+      || changed(updates.timeLimitSeconds, exercise.time_limit_seconds)
+      || changed(updates.memoryLimitMb, exercise.memory_limit_mb);
+    if (publishing && (!exercise.is_published || codeChanged)) {
+      const report = await this.validateExercise(exerciseId, updates);
+      if (!report.valid) {
+        throw new ValidationError('Exercise failed validation and cannot be published', report);
+      }
+    }
+
     const updateData: any = {};
     if (updates.title) updateData.title = updates.title;
     if (updates.description) updateData.description = updates.description;
@@ -141,6 +317,27 @@ export class ExerciseService {
     if (updates.explanation !== undefined) updateData.explanation = updates.explanation;
     if (updates.points !== undefined) updateData.points = updates.points;
     if (updates.timeLimitSeconds !== undefined) updateData.time_limit_seconds = updates.timeLimitSeconds;
+    if (updates.memoryLimitMb !== undefined) updateData.memory_limit_mb = updates.memoryLimitMb;
+    if (updates.setupSql !== undefined) updateData.setup_sql = updates.setupSql;
+    if (updates.hiddenTestScoring !== undefined) updateData.hidden_test_scoring = updates.hiddenTestScoring;
+    if (updates.hiddenTestVisibility !== undefined) updateData.hidden_test_visibility = updates.hiddenTestVisibility;
+    if (updates.inputGenerator !== undefined) updateData.input_generator = updates.inputGenerator;
+    if (updates.functionSignature !== undefined) updateData.function_signature = updates.functionSignature;
+    if (updates.staticAnalysis !== undefined) updateData.static_analysis = updates.staticAnalysis;
+    if (updates.projectFiles !== undefined) {
+      updateData.project_files = updates.projectFiles ? JSON.stringify(updates.projectFiles) : null;
+      if (updates.projectFiles) {
+        updateData.starter_code = projectStarterCode(updates.projectFiles);
+        updateData.solution_code = projectSolutionCode(updates.projectFiles);
+      }
+    }
+    if (updates.exerciseType !== undefined || updates.typeConfig !== undefined) {
+      const prepared = prepareTypeConfig(exerciseType, typeConfig);
+      updateData.exercise_type = exerciseType;
+      updateData.type_config = prepared;
+      updateData.starter_code = typeStarterCode(exerciseType, prepared) ?? updateData.starter_code;
+      updateData.solution_code = typeSolutionCode(exerciseType, prepared) ?? updateData.solution_code;
+    }
     if (updates.isPublished !== undefined) updateData.is_published = updates.isPublished;
 
     const updated = await exerciseRepository.update(exerciseId, updateData);
@@ -157,6 +354,57 @@ export class ExerciseService {
     return updated;
   }
 
+  /**
+   * Grade the reference solution and starter code against all test cases.
+   * `updates` holds unsaved edits to validate instead of the stored code.
+   */
+  async validateExercise(
+    exerciseId: string,
+    updates: Partial<CreateExerciseRequest> = {}
+  ): Promise<ExerciseValidationReport> {
+    const exercise = await exerciseRepository.findById(exerciseId);
+
+    if (!exercise) {
+      throw new NotFoundError('Exercise not found');
+    }
+
+    this.validateInputGenerator(updates.inputGenerator, updates.language || exercise.language);
+    this.validateFunctionSignature(updates.functionSignature, updates.language || exercise.language);
+    this.validateExerciseLimits(updates);
+    if (updates.projectFiles) {
+      this.validateProjectFiles(updates.projectFiles, updates.language || exercise.language, updates);
+    }
+
+    const { projectFiles } = updates;
+    const exerciseType = updates.exerciseType ?? exercise.exercise_type;
+    let typeConfig = exercise.type_config as ExerciseTypeConfig | null;
+    if (updates.exerciseType !== undefined || updates.typeConfig !== undefined) {
+      typeConfig = updates.typeConfig !== undefined
+        ? updates.typeConfig
+        : exerciseType === exercise.exercise_type ? typeConfig : null;
+      this.validateExerciseType(exerciseType, typeConfig, {
+        starterCode: updates.starterCode !== undefined ? updates.starterCode : exercise.starter_code ?? undefined,
+        projectFiles,
+      });
+      typeConfig = prepareTypeConfig(exerciseType, typeConfig);
+    }
+    return codeExecutionService.validateExercise(exerciseId, {
+      language: updates.language,
+      solutionCode: typeSolutionCode(exerciseType, typeConfig)
+        ?? (projectFiles ? projectSolutionCode(projectFiles) : updates.solutionCode),
+      starterCode: typeStarterCode(exerciseType, typeConfig)
+        ?? (projectFiles ? projectStarterCode(projectFiles) : updates.starterCode),
+      projectFiles,
+      exerciseType,
+      typeConfig,
+      setupSql: updates.setupSql,
+      inputGenerator: updates.inputGenerator,
+      functionSignature: updates.functionSignature,
+      timeLimitSeconds: updates.timeLimitSeconds,
+      memoryLimitMb: updates.memoryLimitMb,
+    });
+  }
+
   /**
    * Delete exercise
    */
@@ -198,19 +446,8 @@ export class ExerciseService {
       throw new NotFoundError('Exercise not found');
     }
 
-    const testCase = await exerciseRepository.addTestCase({
-      exercise_id: exerciseId,
-      test_name: testCaseData.testName,
-      test_type: testCaseData.testType || 'public',
-      input_data: testCaseData.inputData,
-      expected_output: testCaseData.expectedOutput,
-      stdin: testCaseData.stdin,
-      expected_stdout: testCaseData.expectedStdout,
-      points: testCaseData.points ?? 1,
-      is_hidden: testCaseData.isHidden ?? false,
-      order_index: testCaseData.orderIndex,
-      created_by: userId,
-    });
+    this.validateTestCase(exercise.language, testCaseData);
+    const testCase = await exerciseRepository.addTestCase(this.testCaseRow(exerciseId, testCaseData, userId));
 
     logger.info('Test case added', {
       exerciseId,
@@ -364,9 +601,235 @@ export class ExerciseService {
   /**
    * Get exercises for a learning objective
    */
-  async getExercisesByObjective(objectiveId: string): Promise<any[]> {
+  async getExercisesByObjective(objectiveId: string, userRole: string): Promise<any[]> {
     const exercises = await exerciseRepository.findByObjectiveId(objectiveId);
-    return exercises.map(e => e.toJSON());
+    const isInstructor = userRole === 'instructor' || userRole === 'admin';
+    return exercises.map(e => (isInstructor ? e.toJSON() : this.learnerView(e.toJSON())));
+  }
+
+  /**
+   * What learners receive of an exercise: projects without their hidden
+   * files and solutions, exercise types without their answers
+   */
+  private learnerView<T extends Record<string, any>>(exercise: T): T {
+    let view = exercise;
+    if (view.project_files) {
+      view = { ...view, project_files: learnerProjectFiles(view.project_files), solution_code: null };
+    }
+    if (view.type_config) {
+      // Parsons and fill-in-the-blank solutions are the answers themselves
+      view = { ...view, type_config: learnerTypeConfig(view.exercise_type, view.type_config), solution_code: null };
+    }
+    return view;
+  }
+
+  /**
+   * Validate a new exercise and derive the row to store
+   */
+  private prepareExercise(data: CreateExerciseRequest, userId: string): NewExercise {
+    // Validate required fields
+    if (!data.title || !data.description || !data.instructions) {
+      throw new BadRequestError('Title, description, and instructions are required');
+    }
+
+    const exerciseType = data.exerciseType ?? 'code';
+    this.validateExerciseType(exerciseType, data.typeConfig, data);
+    const typeConfig = prepareTypeConfig(exerciseType, data.typeConfig ?? null);
+
+    if (!data.solutionCode && !data.projectFiles && !typeSolutionCode(exerciseType, typeConfig)) {
+      throw new BadRequestError('Solution code is required');
+    }
+
+    if (data.isPublished) {
+      // A new exercise has no test cases yet, so it cannot pass validation
+      throw new BadRequestError('Add test cases and validate the exercise before publishing it');
+    }
+
+    this.validateHiddenTestPolicies(data);
+    this.validateInputGenerator(data.inputGenerator, data.language);
+    this.validateFunctionSignature(data.functionSignature, data.language);
+    this.validateStaticAnalysis(data.staticAnalysis, data.language);
+    this.validateProjectFiles(data.projectFiles, data.language, data);
+    this.validateExerciseLimits(data);
+
+    // Without starter code learners start from the declared function
+    let starterCode = !data.starterCode?.trim() && data.functionSignature
+      ? functionStub(data.language as SignatureLanguage, data.functionSignature)
+      : data.starterCode;
+    let solutionCode = data.solutionCode;
+    if (data.projectFiles) {
+      starterCode = projectStarterCode(data.projectFiles);
+      solutionCode = projectSolutionCode(data.projectFiles);
+    }
+    starterCode = typeStarterCode(exerciseType, typeConfig) ?? starterCode;
+    solutionCode = typeSolutionCode(exerciseType, typeConfig) ?? solutionCode;
+
+    return {
+      topic_id: data.topicId,
+      title: data.title,
+      description: data.description,
+      instructions: data.instructions,
+      language: data.language,
+      difficulty_level: data.difficultyLevel,
+      starter_code: starterCode,
+      solution_code: solutionCode,
+      explanation: data.explanation,
+      points: data.points ?? 10,
+      time_limit_seconds: data.timeLimitSeconds ?? null,
+      memory_limit_mb: data.memoryLimitMb ?? null,
+      setup_sql: data.setupSql,
+      hidden_test_scoring: data.hiddenTestScoring,
+      hidden_test_visibility: data.hiddenTestVisibility,
+      input_generator: data.inputGenerator,
+      function_signature: data.functionSignature,
+      static_analysis: data.staticAnalysis,
+      project_files: data.projectFiles,
+      exercise_type: exerciseType,
+      type_config: typeConfig,
+      is_published: data.isPublished ?? false,
+      created_by: userId,
+    };
+  }
+
+  private validateTestCase(language: string, testCaseData: CreateTestCaseRequest): void {
+    const comparatorError = validateComparator(testCaseData.comparator, testCaseData.comparatorOptions);
+    if (comparatorError) {
+      throw new BadRequestError(comparatorError);
+    }
+    if (testCaseData.comparator === 'regex' && language === 'sql') {
+      throw new BadRequestError('The regex comparator is not supported for SQL exercises');
+    }
+
+    const limitsError = validateLimits({ timeLimitMs: testCaseData.timeoutMs, memoryLimitMb: testCaseData.memoryLimitMb });
+    if (limitsError) {
+      throw new BadRequestError(limitsError);
+    }
+
+    if (testCaseData.inputData?.generate !== undefined) {
+      if (!isPerformanceTest({ test_type: testCaseData.testType })) {
+        throw new BadRequestError('Only performance tests can use generated inputs');
+      }
+      if (language === 'sql') {
+        throw new BadRequestError('SQL performance tests seed their data with setup SQL instead of generated inputs');
+      }
+      const generateError = validateGeneratedInput(testCaseData.inputData.generate);
+      if (generateError) {
+        throw new BadRequestError(generateError);
+      }
+    }
+  }
+
+  private testCaseRow(exerciseId: string, testCaseData: CreateTestCaseRequest, userId: string): NewTestCase {
+    return {
+      exercise_id: exerciseId,
+      test_name: testCaseData.testName,
+      test_type: testCaseData.testType || 'public',
+      input_data: testCaseData.inputData,
+      expected_output: testCaseData.expectedOutput,
+      stdin: testCaseData.stdin,
+      expected_stdout: testCaseData.expectedStdout,
+      points: testCaseData.points ?? 1,
+      is_hidden: testCaseData.isHidden ?? false,
+      order_index: testCaseData.orderIndex,
+      setup_sql: testCaseData.setupSql,
+      ordered_result: testCaseData.orderedResult,
+      comparator: testCaseData.comparator,
+      comparator_options: testCaseData.comparatorOptions,
+      timeout_ms: testCaseData.timeoutMs ?? undefined,
+      memory_limit_mb: testCaseData.memoryLimitMb ?? undefined,
+      created_by: userId,
+    };
+  }
+
+  private validateInputGenerator(generator: InputGenerator | null | undefined, language: string): void {
+    if (generator === undefined || generator === null) return;
+
+    if (language === 'sql') {
+      throw new BadRequestError('Randomized tests are not supported for SQL exercises');
+    }
+    const error = validateInputGenerator(generator);
+    if (error) {
+      throw new BadRequestError(error);
+    }
+  }
+
+  private validateFunctionSignature(signature: FunctionSignature | null | undefined, language: string): void {
+    if (signature === undefined || signature === null) return;
+
+    if (!SIGNATURE_LANGUAGES.includes(language as SignatureLanguage)) {
+      throw new BadRequestError('Function signatures are only supported for Java and Python exercises');
+    }
+    const error = validateFunctionSignature(signature);
+    if (error) {
+      throw new BadRequestError(error);
+    }
+  }
+
+  private validateStaticAnalysis(config: StaticAnalysisConfig | null | undefined, language: string): void {
+    if (config === undefined || config === null) return;
+
+    const error = validateStaticAnalysis(config, language);
+    if (error) {
+      throw new BadRequestError(error);
+    }
+  }
+
+  private validateProjectFiles(
+    files: ProjectFile[] | null | undefined,
+    language: string,
+    data: Partial<CreateExerciseRequest>
+  ): void {
+    if (files === undefined || files === null) return;
+
+    if (data.inputGenerator || data.functionSignature) {
+      throw new BadRequestError('Project exercises are graded by their test suite and cannot use randomized tests or a function signature');
+    }
+    const error = validateProjectFiles(files, language);
+    if (error) {
+      throw new BadRequestError(error);
+    }
+  }
+
+  private validateExerciseType(
+    type: ExerciseType,
+    config: ExerciseTypeConfig | null | undefined,
+    data: Partial<CreateExerciseRequest>
+  ): void {
+    const error = validateTypeConfig(type, config);
+    if (error) {
+      throw new BadRequestError(error);
+    }
+    if (type !== 'code' && data.projectFiles) {
+      throw new BadRequestError('Project exercises can only be code exercises');
+    }
+    if (type === 'debugging' && !data.starterCode?.trim()) {
+      throw new BadRequestError('Debugging exercises need the broken code as starter code');
+    }
+  }
+
+  private validateExerciseLimits(data: Partial<CreateExerciseRequest>): void {
+    const { timeLimitSeconds, memoryLimitMb } = data;
+    if (timeLimitSeconds !== undefined && timeLimitSeconds !== null && !Number.isInteger(timeLimitSeconds)) {
+      throw new BadRequestError('timeLimitSeconds must be a whole number of seconds');
+    }
+    const error = validateLimits({
+      timeLimitMs: timeLimitSeconds === undefined || timeLimitSeconds === null ? timeLimitSeconds : timeLimitSeconds * 1000,
+      memoryLimitMb,
+    });
+    if (error) {
+      throw new BadRequestError(error);
+    }
+  }
+
+  private validateHiddenTestPolicies(data: Partial<CreateExerciseRequest>): void {
+    if (data.hiddenTestScoring !== undefined
+      && !HIDDEN_TEST_SCORING_POLICIES.includes(data.hiddenTestScoring)) {
+      throw new BadRequestError(`hiddenTestScoring must be one of: ${HIDDEN_TEST_SCORING_POLICIES.join(', ')}`);
+    }
+    if (data.hiddenTestVisibility !== undefined
+      && !HIDDEN_TEST_VISIBILITY_POLICIES.includes(data.hiddenTestVisibility)) {
+      throw new BadRequestError(`hiddenTestVisibility must be one of: ${HIDDEN_TEST_VISIBILITY_POLICIES.join(', ')}`);
+    }
   }
 }
 
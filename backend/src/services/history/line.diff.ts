@@ -0,0 +1,69 @@
+export interface DiffLine {
+  type: 'unchanged' | 'added' | 'removed';
+  text: string;
+  oldLine?: number; // 1-based, unchanged and removed lines
+  newLine?: number; // 1-based, unchanged and added lines
+}
+
+// Beyond this many cells the LCS table is skipped and the code shown as replaced
+const MAX_DIFF_CELLS = 4_000_000;
+
+const splitLines = (code: string) => (code === '' ? [] : code.replace(/\r\n/g, '\n').split('\n'));
+
+/**
+ * Line diff of two versions of a program (longest common subsequence)
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Lines shared at both ends never need the table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix
+    && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const lines: DiffLine[] = [];
+  const unchanged = (i: number, j: number) => lines.push({ type: 'unchanged', text: a[i], oldLine: i + 1, newLine: j + 1 });
+
+  for (let k = 0; k < prefix; k++) unchanged(k, k);
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_DIFF_CELLS) {
+    midA.forEach((text, k) => lines.push({ type: 'removed', text, oldLine: prefix + k + 1 }));
+    midB.forEach((text, k) => lines.push({ type: 'added', text, newLine: prefix + k + 1 }));
+  } else {
+    // lcs[i][j]: longest common subsequence of midA[i..] and midB[j..]
+    const width = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        unchanged(prefix + i, prefix + j);
+        i++;
+        j++;
+      } else if (i < midA.length && (j === midB.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        lines.push({ type: 'removed', text: midA[i], oldLine: prefix + i + 1 });
+        i++;
+      } else {
+        lines.push({ type: 'added', text: midB[j], newLine: prefix + j + 1 });
+        j++;
+      }
+    }
+  }
+
+  for (let k = suffix; k > 0; k--) unchanged(a.length - k, b.length - k);
+
+  return lines;
+}
@@ -0,0 +1,63 @@
+import { BadRequestError } from '../../utils/errors.util';
+
+const MAX_REPLAY_EVENTS = 20000;
+const MAX_REPLAY_TEXT = 1024 * 1024;
+
+/**
+ * One edit in the code editor: the text between `from` and `to` (offsets in
+ * the code before the edit) is replaced by `text`, `t` ms after recording began
+ */
+export interface ReplayEvent {
+  t: number;
+  from: number;
+  to: number;
+  text: string;
+}
+
+/**
+ * Apply recorded edits to the code they were recorded from
+ */
+export function applyReplayEvents(initialCode: string, events: ReplayEvent[]): string {
+  return events.reduce((code, event) => code.slice(0, event.from) + event.text + code.slice(event.to), initialCode);
+}
+
+/**
+ * Check that a recording is well formed and, replayed from `initialCode`,
+ * ends at exactly the submitted code
+ */
+export function validateReplay(initialCode: unknown, events: unknown, submittedCode: string): ReplayEvent[] {
+  if (typeof initialCode !== 'string') {
+    throw new BadRequestError('initialCode must be a string');
+  }
+  if (!Array.isArray(events) || events.length === 0) {
+    throw new BadRequestError('events must be a non-empty array');
+  }
+  if (events.length > MAX_REPLAY_EVENTS) {
+    throw new BadRequestError(`A replay can hold at most ${MAX_REPLAY_EVENTS} events`);
+  }
+
+  let length = initialCode.length;
+  let previousTime = 0;
+  let textSize = initialCode.length;
+  const validated: ReplayEvent[] = events.map((event: any, index) => {
+    const { t, from, to, text } = event || {};
+    const valid = Number.isInteger(t) && t >= previousTime
+      && Number.isInteger(from) && Number.isInteger(to) && from >= 0 && from <= to && to <= length
+      && typeof text === 'string';
+    if (!valid) {
+      throw new BadRequestError(`Replay event ${index} is invalid`);
+    }
+    previousTime = t;
+    length += text.length - (to - from);
+    textSize += text.length;
+    return { t, from, to, text };
+  });
+
+  if (textSize > MAX_REPLAY_TEXT) {
+    throw new BadRequestError('Replay is too large');
+  }
+  if (applyReplayEvents(initialCode, validated) !== submittedCode) {
+    throw new BadRequestError('Replay does not end at the submitted code');
+  }
+  return validated;
+}
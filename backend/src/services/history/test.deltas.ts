@@ -0,0 +1,39 @@
+import type { TestResult } from '../codeExecution.service';
+
+export interface TestResultChange {
+  testCaseId: string;
+  testName: string;
+  change: 'fixed' | 'broken' | 'added' | 'removed';
+  passed: boolean; // Result in the later submission (for removed: in the earlier one)
+}
+
+/**
+ * Tests whose outcome differs between two consecutive submissions: fixed
+ * (fail to pass), broken (pass to fail), or only run for one of them (added,
+ * removed), e.g. hidden tests that only run on final submissions
+ */
+export function diffTestResults(before: TestResult[], after: TestResult[]): TestResultChange[] {
+  const previous = new Map(before.map((result) => [result.testCaseId, result]));
+  const changes: TestResultChange[] = [];
+
+  for (const result of after) {
+    const earlier = previous.get(result.testCaseId);
+    previous.delete(result.testCaseId);
+    if (!earlier) {
+      changes.push({ testCaseId: result.testCaseId, testName: result.testName, change: 'added', passed: result.passed });
+    } else if (earlier.passed !== result.passed) {
+      changes.push({
+        testCaseId: result.testCaseId,
+        testName: result.testName,
+        change: result.passed ? 'fixed' : 'broken',
+        passed: result.passed,
+      });
+    }
+  }
+
+  previous.forEach((result) => {
+    changes.push({ testCaseId: result.testCaseId, testName: result.testName, change: 'removed', passed: result.passed });
+  });
+
+  return changes;
+}
@@ -0,0 +1,224 @@
+import { Quiz, QuestionBank, QuizDrawRule } from '../models/quiz.model';
+import { curriculumRepository } from '../repositories/curriculum.repository';
+import { learningObjectiveRepository } from '../repositories/learningObjective.repository';
+import { BankQuestion, questionBankRepository } from '../repositories/questionBank.repository';
+import { quizRepository } from '../repositories/quiz.repository';
+import { rubricRepository } from '../repositories/rubric.repository';
+import { topicRepository } from '../repositories/topic.repository';
+import { ForbiddenError, NotFoundError, ValidationError } from '../utils/errors.util';
+import { WRITTEN_QUESTION_TYPES } from './ai/rubric.grading';
+import {
+  drawQuestions,
+  DrawRuleInput,
+  drawRule,
+  drawRuleError,
+  drawSize,
+  QUESTION_DIFFICULTIES,
+  QuestionDifficulty,
+} from './quiz/question.draw';
+import { questionConfig, QuestionInput, validateQuestionInput } from './quiz/question.types';
+
+export interface QuestionBankInput {
+  name: string;
+  description?: string;
+  topicId?: string;
+  curriculumId?: string;
+}
+
+export interface BankQuestionInput extends QuestionInput {
+  difficulty?: QuestionDifficulty | null;
+  objectiveIds?: string[];
+}
+
+const toJSON = ({ question, options, objective_ids }: BankQuestion) => ({
+  ...question.toJSON(),
+  options: options.map((option) => option.toJSON()),
+  objective_ids,
+});
+
+/**
+ * Question banks: reusable questions of a topic or curriculum, tagged with
+ * difficulty and learning objectives. Quizzes draw from them by rules, so
+ * each attempt gets its own questions.
+ */
+export class QuestionBankService {
+  async createBank(input: QuestionBankInput, userId: string): Promise<QuestionBank> {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      throw new ValidationError('name is required');
+    }
+    if (!input.topicId === !input.curriculumId) {
+      throw new ValidationError('A bank belongs to either a topic or a curriculum');
+    }
+    if (input.topicId && !(await topicRepository.findById(input.topicId))) {
+      throw new NotFoundError('Topic not found');
+    }
+    if (input.curriculumId && !(await curriculumRepository.findById(input.curriculumId))) {
+      throw new NotFoundError('Curriculum not found');
+    }
+
+    return questionBankRepository.create({
+      name: input.name.trim(),
+      description: input.description,
+      topic_id: input.topicId,
+      curriculum_id: input.curriculumId,
+      created_by: userId,
+    });
+  }
+
+  async getBanksForTopic(topicId: string) {
+    return questionBankRepository.findForTopic(topicId);
+  }
+
+  async getBank(bankId: string) {
+    const bank = await this.getBankOrFail(bankId);
+    const questions = await questionBankRepository.getQuestions(bankId);
+    return { bank, questions: questions.map(toJSON) };
+  }
+
+  async addQuestion(bankId: string, input: BankQuestionInput, userId: string, userRole: string) {
+    const bank = await this.getBankOrFail(bankId);
+    this.assertCanEdit(bank.created_by, userId, userRole);
+
+    const questionError = validateQuestionInput(input);
+    if (questionError) {
+      throw new ValidationError(questionError);
+    }
+    if (input.difficulty !== undefined && input.difficulty !== null
+      && !QUESTION_DIFFICULTIES.includes(input.difficulty)) {
+      throw new ValidationError(`difficulty must be one of: ${QUESTION_DIFFICULTIES.join(', ')}`);
+    }
+
+    const objectiveIds = [...new Set(input.objectiveIds ?? [])];
+    if (objectiveIds.some((id) => typeof id !== 'string')) {
+      throw new ValidationError('objectiveIds must be a list of learning objective ids');
+    }
+    if (objectiveIds.length > 0
+      && (await questionBankRepository.countObjectivesInScope(bank, objectiveIds)) !== objectiveIds.length) {
+      throw new ValidationError('Learning objectives must belong to the bank\'s topic or curriculum');
+    }
+    if (input.rubricId && !(await rubricRepository.findById(input.rubricId))) {
+      throw new NotFoundError('Rubric not found');
+    }
+
+    const written = WRITTEN_QUESTION_TYPES.includes(input.questionType);
+    const question = await questionBankRepository.addQuestion(
+      bankId,
+      {
+        question_type: input.questionType,
+        question_text: input.questionText.trim(),
+        explanation: input.explanation,
+        points: input.points,
+        difficulty: input.difficulty,
+        rubric_id: written ? input.rubricId : undefined,
+        model_answer: written ? input.modelAnswer : undefined,
+        question_config: questionConfig(input),
+      },
+      input.options ?? [],
+      objectiveIds
+    );
+    return toJSON(question);
+  }
+
+  async deleteQuestion(bankId: string, questionId: string, userId: string, userRole: string): Promise<void> {
+    const bank = await this.getBankOrFail(bankId);
+    this.assertCanEdit(bank.created_by, userId, userRole);
+
+    if (!(await questionBankRepository.deleteQuestion(bankId, questionId))) {
+      throw new NotFoundError('Question not found in this bank');
+    }
+  }
+
+  async getDrawRules(quizId: string): Promise<QuizDrawRule[]> {
+    return questionBankRepository.getDrawRules(quizId);
+  }
+
+  /**
+   * Replace the draw rules of a quiz. The banks must be usable in the quiz's
+   * topic and hold enough questions to meet every rule.
+   */
+  async saveDrawRules(quizId: string, input: unknown, userId: string, userRole: string): Promise<QuizDrawRule[]> {
+    const quiz = await quizRepository.findById(quizId);
+    if (!quiz) {
+      throw new NotFoundError('Quiz not found');
+    }
+    this.assertCanEdit(quiz.created_by, userId, userRole);
+
+    if (!Array.isArray(input)) {
+      throw new ValidationError('rules must be a list of draw rules');
+    }
+    for (const [index, ruleInput] of input.entries()) {
+      const ruleError = drawRuleError(ruleInput);
+      if (ruleError) {
+        throw new ValidationError(`Rule ${index + 1}: ${ruleError}`);
+      }
+    }
+    const rules = (input as DrawRuleInput[]).map(drawRule);
+
+    for (const bankId of new Set(rules.map((rule) => rule.bank_id))) {
+      if (!(await questionBankRepository.isUsableForTopic(bankId, quiz.topic_id))) {
+        throw new ValidationError('Draw rules can only use banks of the quiz\'s topic or curriculum');
+      }
+    }
+
+    const objectives = await learningObjectiveRepository.findByTopicId(quiz.topic_id);
+    if (rules.some((rule) => rule.per_objective) && objectives.length === 0) {
+      throw new ValidationError('The quiz\'s topic has no learning objectives to draw for');
+    }
+    if (rules.some((rule) => rule.objective_id && !objectives.some((o) => o.id === rule.objective_id))) {
+      throw new ValidationError('Learning objectives of draw rules must belong to the quiz\'s topic');
+    }
+
+    // Check now that attempts will be able to draw
+    const pool = await questionBankRepository.getDrawCandidates([...new Set(rules.map((rule) => rule.bank_id))]);
+    const { shortfalls } = drawQuestions(rules, pool, objectives);
+    if (shortfalls.length > 0) {
+      throw new ValidationError('The banks do not hold enough questions for these rules', { shortfalls });
+    }
+
+    return questionBankRepository.replaceDrawRules(quizId, rules);
+  }
+
+  /**
+   * How many questions each attempt draws from banks
+   */
+  async getDrawSize(quiz: Quiz): Promise<number> {
+    const rules = await questionBankRepository.getDrawRules(quiz.id);
+    if (rules.length === 0) return 0;
+    return drawSize(rules, (await learningObjectiveRepository.findByTopicId(quiz.topic_id)).length);
+  }
+
+  /**
+   * Draw the bank questions of a new attempt. Returns their ids in rule order.
+   */
+  async drawForAttempt(quiz: Quiz): Promise<string[]> {
+    const rules = await questionBankRepository.getDrawRules(quiz.id);
+    if (rules.length === 0) return [];
+
+    const pool = await questionBankRepository.getDrawCandidates([...new Set(rules.map((rule) => rule.bank_id))]);
+    const objectives = await learningObjectiveRepository.findByTopicId(quiz.topic_id);
+    const { questionIds, shortfalls } = drawQuestions(rules, pool, objectives);
+    if (shortfalls.length > 0) {
+      // Questions were removed from the banks since the rules were saved
+      throw new ValidationError('This quiz cannot be started: its question banks are short of questions', {
+        shortfalls,
+      });
+    }
+    return questionIds;
+  }
+
+  private async getBankOrFail(bankId: string): Promise<QuestionBank> {
+    const bank = await questionBankRepository.findById(bankId);
+    if (!bank) {
+      throw new NotFoundError('Question bank not found');
+    }
+    return bank;
+  }
+
+  private assertCanEdit(createdBy: string, userId: string, userRole: string): void {
+    if (createdBy !== userId && userRole !== 'admin') {
+      throw new ForbiddenError('Only its creator or an admin can change this');
+    }
+  }
+}
+
+export const questionBankService = new QuestionBankService();
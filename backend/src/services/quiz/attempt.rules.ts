@@ -0,0 +1,112 @@
+/**
+ * The life of a quiz attempt:
+ * - in_progress: answers are accepted until the deadline
+ * - completed: submitted by the learner
+ * - expired: closed when the time limit ran out, by the learner's late
+ *   submit or by the sweeper
+ */
+export type AttemptStatus = 'in_progress' | 'completed' | 'expired';
+
+// Answers sent just before the deadline may arrive a little after it
+export const ANSWER_GRACE_SECONDS = 5;
+
+export interface AttemptRules {
+  time_limit_minutes: number | null;
+  max_attempts: number | null;
+  allow_retakes: boolean;
+}
+
+export interface AttemptState {
+  status: string;
+  expires_at: Date | null;
+}
+
+export interface AttemptOrder {
+  questionOrder: string[];
+  optionOrder: Record<string, string[]>;
+}
+
+// Only these keep their options in a meaningful order; True/False stays as is
+const SHUFFLED_OPTION_TYPES = ['multiple_choice', 'multiple_select'];
+
+/**
+ * Whether the attempt is past its deadline, allowing graceSeconds of lateness
+ */
+export function isPastDeadline(attempt: AttemptState, now = new Date(), graceSeconds = 0): boolean {
+  return !!attempt.expires_at && now.getTime() > attempt.expires_at.getTime() + graceSeconds * 1000;
+}
+
+/**
+ * Check whether a learner may start a new attempt, given how many they
+ * already made. Returns an error message, or null when they may.
+ */
+export function startAttemptError(quiz: AttemptRules, previousAttempts: number): string | null {
+  if (!quiz.allow_retakes && previousAttempts > 0) {
+    return 'Retakes are not allowed for this quiz';
+  }
+  if (quiz.max_attempts && previousAttempts >= quiz.max_attempts) {
+    return 'Maximum attempts reached';
+  }
+  return null;
+}
+
+/**
+ * Check whether an attempt still accepts answers. Returns an error
+ * message, or null when it does.
+ */
+export function answerError(attempt: AttemptState, now = new Date()): string | null {
+  if (attempt.status !== 'in_progress') {
+    return 'This attempt is already completed';
+  }
+  if (isPastDeadline(attempt, now, ANSWER_GRACE_SECONDS)) {
+    return 'The time limit for this attempt has passed';
+  }
+  return null;
+}
+
+/**
+ * A shuffled copy of the items (Fisher-Yates)
+ */
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * The question and option order of a new attempt: the quiz order, or
+ * shuffled when the quiz shuffles questions
+ */
+export function attemptOrder(
+  questions: Array<{ id: string; question_type: string; options: Array<{ id: string }> }>,
+  shuffleQuestions: boolean,
+  random: () => number = Math.random
+): AttemptOrder {
+  const ordered = shuffleQuestions ? shuffle(questions, random) : questions;
+  const optionOrder: Record<string, string[]> = {};
+
+  for (const question of ordered) {
+    if (question.options.length === 0) continue;
+    const ids = question.options.map((option) => option.id);
+    optionOrder[question.id] = shuffleQuestions && SHUFFLED_OPTION_TYPES.includes(question.question_type)
+      ? shuffle(ids, random)
+      : ids;
+  }
+
+  return { questionOrder: ordered.map((question) => question.id), optionOrder };
+}
+
+/**
+ * The items in the given order of ids. Items missing from the order keep
+ * their place after the ordered ones; ids without an item are skipped.
+ */
+export function inOrder<T extends { id: string }>(items: T[], order: string[] | null | undefined): T[] {
+  if (!order) return items;
+  const position = new Map(order.map((id, index) => [id, index]));
+  return [...items].sort(
+    (a, b) => (position.get(a.id) ?? order.length) - (position.get(b.id) ?? order.length)
+  );
+}
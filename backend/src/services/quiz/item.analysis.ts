@@ -0,0 +1,203 @@
+/**
+ * Classical item analysis of quiz questions. Item scores are the share of
+ * a question's points earned (0 to 1), so right/wrong questions score 0 or
+ * 1 and partial credit falls in between.
+ */
+
+export type ItemFlag = 'negative_discrimination' | 'unused_distractor';
+
+// Fewer responses than this say too little to flag a question
+export const MIN_RESPONSES_FOR_FLAGS = 5;
+
+export interface ItemQuestion {
+  id: string;
+  question_text: string;
+  question_type: string;
+  points: number;
+  options: Array<{ id: string; option_text: string; is_correct: boolean }>;
+}
+
+// A question served in an attempt; unanswered ones earned nothing
+export interface ItemResponse {
+  question_id: string;
+  points_earned: number;
+  selected_option_ids: string[];
+  time_spent_seconds: number | null;
+}
+
+export interface ItemAttempt {
+  id: string;
+  responses: ItemResponse[];
+}
+
+export interface OptionStats {
+  option_id: string;
+  option_text: string;
+  is_correct: boolean;
+  selections: number;
+  frequency: number; // Share of responses picking the option
+}
+
+export interface ItemStats {
+  question_id: string;
+  question_text: string;
+  question_type: string;
+  responses: number;
+  difficulty_index: number | null; // p-value: mean item score, higher is easier
+  discrimination: number | null; // Point-biserial with the rest of the attempt
+  mean_time_seconds: number | null;
+  median_time_seconds: number | null;
+  options: OptionStats[];
+  flags: ItemFlag[];
+}
+
+export interface QuizItemAnalysis {
+  attempts: number;
+  kr20: number | null; // Over the questions every attempt was served
+  items: ItemStats[];
+}
+
+const round = (value: number | null) => (value === null ? null : Math.round(value * 1000) / 1000);
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Population variance, as KR-20 uses
+const variance = (values: number[]) => {
+  const average = mean(values);
+  return mean(values.map((value) => (value - average) ** 2));
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Pearson correlation; null when either side does not vary
+ */
+export function correlation(xs: number[], ys: number[]): number | null {
+  if (xs.length < 2) return null;
+
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let sumX = 0;
+  let sumY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    sumX += (x - meanX) ** 2;
+    sumY += (ys[i] - meanY) ** 2;
+  });
+  return sumX === 0 || sumY === 0 ? null : covariance / Math.sqrt(sumX * sumY);
+}
+
+/**
+ * Reliability of a set of items from a score matrix (one row per attempt).
+ * Equals KR-20 for right/wrong items and Cronbach's alpha with partial
+ * credit. Null with fewer than two items or attempts, or no variance.
+ */
+export function kr20(scores: number[][]): number | null {
+  const itemCount = scores[0]?.length ?? 0;
+  if (scores.length < 2 || itemCount < 2) return null;
+
+  const totalVariance = variance(scores.map((row) => row.reduce((sum, score) => sum + score, 0)));
+  if (totalVariance === 0) return null;
+
+  let itemVariance = 0;
+  for (let item = 0; item < itemCount; item++) {
+    itemVariance += variance(scores.map((row) => row[item]));
+  }
+  return (itemCount / (itemCount - 1)) * (1 - itemVariance / totalVariance);
+}
+
+/**
+ * Analyse the questions of a quiz over its attempts. Each question is
+ * judged on the attempts that served it, so questions drawn from banks
+ * are analysed too.
+ */
+export function analyzeItems(questions: ItemQuestion[], attempts: ItemAttempt[]): QuizItemAnalysis {
+  const byId = new Map(questions.map((question) => [question.id, question]));
+  const score = (response: ItemResponse) => {
+    const points = byId.get(response.question_id)?.points ?? 0;
+    return points > 0 ? Math.min(1, Math.max(0, response.points_earned / points)) : 0;
+  };
+
+  // Points earned and possible in each attempt, for the rest scores
+  const totals = new Map(
+    attempts.map((attempt) => {
+      const served = attempt.responses.filter((response) => byId.has(response.question_id));
+      return [attempt.id, {
+        earned: served.reduce((sum, response) => sum + response.points_earned, 0),
+        possible: served.reduce((sum, response) => sum + byId.get(response.question_id)!.points, 0),
+      }];
+    })
+  );
+
+  const items = questions.map((question): ItemStats => {
+    const served = attempts.flatMap((attempt) => {
+      const response = attempt.responses.find((r) => r.question_id === question.id);
+      return response ? [{ attempt, response }] : [];
+    });
+
+    const itemScores: number[] = [];
+    const restScores: number[] = [];
+    for (const { attempt, response } of served) {
+      const total = totals.get(attempt.id)!;
+      const restPossible = total.possible - question.points;
+      if (restPossible > 0) {
+        itemScores.push(score(response));
+        restScores.push((total.earned - response.points_earned) / restPossible);
+      }
+    }
+
+    const times = served
+      .map(({ response }) => response.time_spent_seconds)
+      .filter((time): time is number => time !== null);
+
+    const options = question.options.map((option) => {
+      const selections = served.filter(({ response }) => response.selected_option_ids.includes(option.id)).length;
+      return {
+        option_id: option.id,
+        option_text: option.option_text,
+        is_correct: option.is_correct,
+        selections,
+        frequency: round(served.length ? selections / served.length : 0)!,
+      };
+    });
+
+    const discrimination = correlation(itemScores, restScores);
+    const flags: ItemFlag[] = [];
+    if (served.length >= MIN_RESPONSES_FOR_FLAGS) {
+      if (discrimination !== null && discrimination < 0) {
+        flags.push('negative_discrimination');
+      }
+      if (options.some((option) => !option.is_correct && option.selections === 0)) {
+        flags.push('unused_distractor');
+      }
+    }
+
+    return {
+      question_id: question.id,
+      question_text: question.question_text,
+      question_type: question.question_type,
+      responses: served.length,
+      difficulty_index: served.length ? round(mean(served.map(({ response }) => score(response)))) : null,
+      discrimination: round(discrimination),
+      mean_time_seconds: times.length ? round(mean(times)) : null,
+      median_time_seconds: times.length ? median(times) : null,
+      options,
+      flags,
+    };
+  });
+
+  // Reliability needs the same items in every attempt
+  const common = questions.filter((question) =>
+    attempts.every((attempt) => attempt.responses.some((response) => response.question_id === question.id))
+  );
+  const matrix = attempts.map((attempt) =>
+    common.map((question) => score(attempt.responses.find((response) => response.question_id === question.id)!))
+  );
+
+  return { attempts: attempts.length, kr20: round(kr20(matrix)), items };
+}
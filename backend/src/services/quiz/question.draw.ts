@@ -0,0 +1,160 @@
+import { shuffle } from './attempt.rules';
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export const QUESTION_DIFFICULTIES: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+
+const MAX_DRAW_COUNT = 50;
+
+/**
+ * How many questions an attempt draws from a bank, and which ones qualify:
+ * of a difficulty, for one learning objective, or for each objective of
+ * the quiz's topic (per_objective)
+ */
+export interface DrawRule {
+  bank_id: string;
+  question_count: number;
+  difficulty: string | null;
+  objective_id: string | null;
+  per_objective: boolean;
+}
+
+export interface DrawRuleInput {
+  bankId: string;
+  questionCount: number;
+  difficulty?: QuestionDifficulty | null;
+  objectiveId?: string | null;
+  perObjective?: boolean;
+}
+
+export interface DrawCandidate {
+  id: string;
+  bank_id: string;
+  difficulty: string | null;
+  objective_ids: string[];
+}
+
+export interface DrawObjective {
+  id: string;
+  objective_text: string;
+}
+
+export interface DrawResult {
+  questionIds: string[]; // In rule order
+  shortfalls: string[]; // Why rules could not be met; empty when all were
+}
+
+/**
+ * Check a draw rule sent by an instructor. Returns an error message, or
+ * null when the rule is valid.
+ */
+export function drawRuleError(input: any): string | null {
+  if (!input || typeof input.bankId !== 'string' || !input.bankId) {
+    return 'bankId is required';
+  }
+  if (!Number.isInteger(input.questionCount) || input.questionCount < 1 || input.questionCount > MAX_DRAW_COUNT) {
+    return `questionCount must be between 1 and ${MAX_DRAW_COUNT}`;
+  }
+  if (input.difficulty !== undefined && input.difficulty !== null && !QUESTION_DIFFICULTIES.includes(input.difficulty)) {
+    return `difficulty must be one of: ${QUESTION_DIFFICULTIES.join(', ')}`;
+  }
+  if (input.objectiveId !== undefined && input.objectiveId !== null && typeof input.objectiveId !== 'string') {
+    return 'objectiveId must be a learning objective id';
+  }
+  if (input.perObjective !== undefined && typeof input.perObjective !== 'boolean') {
+    return 'perObjective must be true or false';
+  }
+  if (input.perObjective && input.objectiveId) {
+    return 'A rule draws either for one objective or for each objective, not both';
+  }
+  return null;
+}
+
+/**
+ * The rule as stored, from a valid input
+ */
+export function drawRule(input: DrawRuleInput): DrawRule {
+  return {
+    bank_id: input.bankId,
+    question_count: input.questionCount,
+    difficulty: input.difficulty ?? null,
+    objective_id: input.objectiveId ?? null,
+    per_objective: input.perObjective === true,
+  };
+}
+
+/**
+ * How many questions the rules draw per attempt
+ */
+export function drawSize(rules: DrawRule[], objectiveCount: number): number {
+  return rules.reduce(
+    (sum, rule) => sum + rule.question_count * (rule.per_objective ? objectiveCount : 1),
+    0
+  );
+}
+
+interface DrawTarget {
+  ruleIndex: number;
+  rule: DrawRule;
+  objective: DrawObjective | null;
+}
+
+// Narrow targets pick first, so broad ones cannot use up the few questions they need
+const specificity = (target: DrawTarget) => (target.objective ? 2 : 0) + (target.rule.difficulty ? 1 : 0);
+
+const describe = (target: DrawTarget, available: number) => {
+  const what = [target.rule.difficulty, target.rule.question_count === 1 ? 'question' : 'questions']
+    .filter(Boolean)
+    .join(' ');
+  const objective = target.objective ? ` for "${target.objective.objective_text}"` : '';
+  return `Rule ${target.ruleIndex + 1} needs ${target.rule.question_count} ${what}${objective}, `
+    + `but the bank has ${available} left`;
+};
+
+/**
+ * Draw the questions of an attempt. Each question is drawn at most once;
+ * which questions qualify for a rule are picked at random. Rules that
+ * cannot be met are reported in shortfalls and draw what there is.
+ */
+export function drawQuestions(
+  rules: DrawRule[],
+  pool: DrawCandidate[],
+  objectives: DrawObjective[],
+  random: () => number = Math.random
+): DrawResult {
+  const targets: DrawTarget[] = rules.flatMap((rule, ruleIndex) => {
+    if (rule.per_objective) {
+      return objectives.map((objective) => ({ ruleIndex, rule, objective }));
+    }
+    const objective = rule.objective_id
+      ? objectives.find((o) => o.id === rule.objective_id) ?? { id: rule.objective_id, objective_text: rule.objective_id }
+      : null;
+    return [{ ruleIndex, rule, objective }];
+  });
+
+  const drawn = new Set<string>();
+  const picks = new Map<DrawTarget, string[]>();
+  const shortfalls: Array<{ ruleIndex: number; message: string }> = [];
+
+  const bySpecificity = [...targets].sort((a, b) => specificity(b) - specificity(a));
+  for (const target of bySpecificity) {
+    const candidates = pool.filter((question) =>
+      question.bank_id === target.rule.bank_id
+      && !drawn.has(question.id)
+      && (!target.rule.difficulty || question.difficulty === target.rule.difficulty)
+      && (!target.objective || question.objective_ids.includes(target.objective.id))
+    );
+    if (candidates.length < target.rule.question_count) {
+      shortfalls.push({ ruleIndex: target.ruleIndex, message: describe(target, candidates.length) });
+    }
+
+    const picked = shuffle(candidates, random).slice(0, target.rule.question_count).map((question) => question.id);
+    picked.forEach((id) => drawn.add(id));
+    picks.set(target, picked);
+  }
+
+  return {
+    questionIds: targets.flatMap((target) => picks.get(target) ?? []),
+    shortfalls: shortfalls.sort((a, b) => a.ruleIndex - b.ruleIndex).map((shortfall) => shortfall.message),
+  };
+}
@@ -0,0 +1,336 @@
+import type { QuizQuestion, QuizQuestionOption } from '../../models/quiz.model';
+import { WRITTEN_QUESTION_TYPES } from '../ai/rubric.grading';
+
+/**
+ * What a quiz question asks of learners:
+ * - multiple_choice: pick the one correct option
+ * - multiple_select: pick every correct option, with configurable partial credit
+ * - true_false: decide whether a statement is true (two options, True and False)
+ * - code_review: pick the buggy line or lines of a code snippet
+ * - short_answer, essay: write an answer, graded by AI against a rubric
+ */
+export type QuestionType =
+  | 'multiple_choice'
+  | 'multiple_select'
+  | 'true_false'
+  | 'code_review'
+  | 'short_answer'
+  | 'essay';
+
+export const QUESTION_TYPES: QuestionType[] = [
+  'multiple_choice',
+  'multiple_select',
+  'true_false',
+  'code_review',
+  'short_answer',
+  'essay',
+];
+
+// Types the AI generates; written questions are authored by instructors
+export const GENERATED_QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'multiple_select', 'true_false', 'code_review'];
+
+const CHOICE_QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'multiple_select', 'true_false'];
+
+/**
+ * How a multi-select or code-review answer earns partial credit:
+ * - all_or_nothing: full points only for exactly the correct picks
+ * - per_option: the share of options picked or left out correctly (multi-select only)
+ * - right_minus_wrong: correct picks minus wrong picks, as a share of the correct ones
+ */
+export type PartialCreditMode = 'all_or_nothing' | 'per_option' | 'right_minus_wrong';
+
+export const PARTIAL_CREDIT_MODES: PartialCreditMode[] = ['all_or_nothing', 'per_option', 'right_minus_wrong'];
+
+export const DEFAULT_PARTIAL_CREDIT: PartialCreditMode = 'right_minus_wrong';
+
+export interface MultipleSelectConfig {
+  partialCredit: PartialCreditMode;
+}
+
+export interface CodeReviewConfig {
+  code: string;
+  language: string;
+  buggyLines: number[]; // 1-based
+  partialCredit: Exclude<PartialCreditMode, 'per_option'>;
+}
+
+export type QuestionConfig = MultipleSelectConfig | CodeReviewConfig;
+
+export interface QuestionOptionInput {
+  text: string;
+  isCorrect: boolean;
+  explanation?: string;
+}
+
+export interface QuestionInput {
+  questionType: QuestionType;
+  questionText: string;
+  explanation?: string;
+  points?: number;
+  rubricId?: string;
+  modelAnswer?: string;
+  options?: QuestionOptionInput[];
+  config?: Partial<MultipleSelectConfig & CodeReviewConfig>;
+}
+
+export interface ChoiceAnswer {
+  selectedOptionId?: string | null;
+  selectedOptionIds?: string[] | null;
+  selectedLines?: number[] | null;
+}
+
+const MAX_SNIPPET_LINES = 60;
+
+const isWritten = (type: string) => WRITTEN_QUESTION_TYPES.includes(type);
+const snippetLineCount = (code: string) => code.replace(/\n+$/, '').split('\n').length;
+
+/**
+ * Check a question before it is added to a quiz. Returns an error message,
+ * or null when the question is valid.
+ */
+export function validateQuestionInput(input: any): string | null {
+  if (!input || !QUESTION_TYPES.includes(input.questionType)) {
+    return `questionType must be one of: ${QUESTION_TYPES.join(', ')}`;
+  }
+  if (typeof input.questionText !== 'string' || !input.questionText.trim()) {
+    return 'questionText is required';
+  }
+  if (input.points !== undefined && (!Number.isInteger(input.points) || input.points < 1)) {
+    return 'points must be a positive integer';
+  }
+
+  const type: QuestionType = input.questionType;
+  const { options, config } = input;
+
+  if (CHOICE_QUESTION_TYPES.includes(type)) {
+    if (!Array.isArray(options) || options.length < 2
+      || options.some((option: any) => typeof option?.text !== 'string' || !option.text.trim())) {
+      return 'Choice questions need at least two options with text';
+    }
+    const correct = options.filter((option: any) => option.isCorrect === true).length;
+    if (type === 'multiple_select' ? correct === 0 : correct !== 1) {
+      return type === 'multiple_select'
+        ? 'Multi-select questions need at least one correct option'
+        : 'Exactly one option must be correct';
+    }
+    if (type === 'true_false' && options.length !== 2) {
+      return 'True/false questions have exactly two options';
+    }
+  } else if (options !== undefined && options !== null && (!Array.isArray(options) || options.length > 0)) {
+    return `${type} questions have no options`;
+  }
+
+  if (type === 'multiple_select') {
+    if (config?.partialCredit !== undefined && !PARTIAL_CREDIT_MODES.includes(config.partialCredit)) {
+      return `partialCredit must be one of: ${PARTIAL_CREDIT_MODES.join(', ')}`;
+    }
+  } else if (type === 'code_review') {
+    if (!config || typeof config.code !== 'string' || !config.code.trim()) {
+      return 'Code-review questions need the code to review';
+    }
+    const lineCount = snippetLineCount(config.code);
+    if (lineCount > MAX_SNIPPET_LINES) {
+      return `Code snippets can have at most ${MAX_SNIPPET_LINES} lines`;
+    }
+    if (typeof config.language !== 'string' || !config.language.trim()) {
+      return 'Code-review questions need the language of the code';
+    }
+    const lines = config.buggyLines;
+    if (!Array.isArray(lines) || lines.length === 0
+      || lines.some((line: any) => !Number.isInteger(line) || line < 1 || line > lineCount)
+      || new Set(lines).size !== lines.length) {
+      return `buggyLines must list different lines between 1 and ${lineCount}`;
+    }
+    if (config.partialCredit !== undefined
+      && (config.partialCredit === 'per_option' || !PARTIAL_CREDIT_MODES.includes(config.partialCredit))) {
+      return 'partialCredit of code-review questions must be all_or_nothing or right_minus_wrong';
+    }
+  } else if (config !== undefined && config !== null) {
+    return `${type} questions have no settings`;
+  }
+
+  if (input.rubricId && !isWritten(type)) {
+    return 'Only written questions are graded with a rubric';
+  }
+  return null;
+}
+
+/**
+ * The settings stored with a valid question, with defaults filled in
+ */
+export function questionConfig(input: QuestionInput): QuestionConfig | null {
+  const partialCredit = input.config?.partialCredit ?? DEFAULT_PARTIAL_CREDIT;
+  if (input.questionType === 'multiple_select') {
+    return { partialCredit };
+  }
+  if (input.questionType === 'code_review') {
+    return {
+      code: input.config!.code!.replace(/\n+$/, ''),
+      language: input.config!.language!.trim(),
+      buggyLines: [...input.config!.buggyLines!].sort((a, b) => a - b),
+      partialCredit: partialCredit as CodeReviewConfig['partialCredit'],
+    };
+  }
+  return null;
+}
+
+/**
+ * Question settings as learners see them: without the buggy lines
+ */
+export function learnerQuestionConfig(type: string, config: QuestionConfig | null): Record<string, any> | null {
+  if (type === 'code_review' && config) {
+    const { buggyLines: _buggyLines, ...visible } = config as CodeReviewConfig;
+    return visible;
+  }
+  return config;
+}
+
+/**
+ * A question as learners see it: without the model answer or buggy lines
+ */
+export function learnerQuestion<T extends { question_type: string; question_config: Record<string, any> | null }>(
+  question: T
+): T & { model_answer: null } {
+  return {
+    ...question,
+    model_answer: null,
+    question_config: learnerQuestionConfig(question.question_type, question.question_config as QuestionConfig | null),
+  };
+}
+
+// The fields of an option learners may see
+export type LearnerOption = Pick<QuizQuestionOption, 'id' | 'question_id' | 'option_text' | 'order_index'>;
+
+// A question with its options as learners see them
+export type LearnerQuestion = ReturnType<QuizQuestion['toJSON']> & { model_answer: null; options: LearnerOption[] };
+
+/**
+ * An answer option as learners see it: without whether it is correct or its explanation
+ */
+export function learnerOption(option: LearnerOption): LearnerOption {
+  return {
+    id: option.id,
+    question_id: option.question_id,
+    option_text: option.option_text,
+    order_index: option.order_index,
+  };
+}
+
+const pickCredit = (
+  picked: Set<string | number>,
+  correct: Set<string | number>,
+  all: Array<string | number>,
+  mode: PartialCreditMode
+): number => {
+  const correctPicks = [...picked].filter((item) => correct.has(item)).length;
+  const wrongPicks = picked.size - correctPicks;
+
+  switch (mode) {
+    case 'all_or_nothing':
+      return correctPicks === correct.size && wrongPicks === 0 ? 1 : 0;
+    case 'per_option':
+      return all.filter((item) => picked.has(item) === correct.has(item)).length / all.length;
+    case 'right_minus_wrong':
+      return Math.max(0, (correctPicks - wrongPicks) / correct.size);
+  }
+};
+
+/**
+ * The share of a question's points an answer earns, between 0 and 1.
+ * Picks that are not options or lines of the question are ignored.
+ */
+export function answerCredit(
+  type: string,
+  config: QuestionConfig | null,
+  options: Array<{ id: string; is_correct: boolean }>,
+  answer: ChoiceAnswer
+): number {
+  const optionIds = options.map((option) => option.id);
+  const correctIds = new Set(options.filter((option) => option.is_correct).map((option) => option.id));
+
+  switch (type) {
+    case 'multiple_choice':
+    case 'true_false':
+      return answer.selectedOptionId && correctIds.has(answer.selectedOptionId) ? 1 : 0;
+
+    case 'multiple_select': {
+      if (correctIds.size === 0) return 0;
+      const picked = new Set((answer.selectedOptionIds ?? []).filter((id) => optionIds.includes(id)));
+      const mode = (config as MultipleSelectConfig | null)?.partialCredit ?? DEFAULT_PARTIAL_CREDIT;
+      return pickCredit(picked, correctIds, optionIds, mode);
+    }
+
+    case 'code_review': {
+      const review = config as CodeReviewConfig | null;
+      if (!review?.buggyLines?.length) return 0;
+      const lines = Array.from({ length: snippetLineCount(review.code) }, (_, index) => index + 1);
+      const picked = new Set((answer.selectedLines ?? []).filter((line) => lines.includes(line)));
+      return pickCredit(picked, new Set(review.buggyLines), lines, review.partialCredit ?? DEFAULT_PARTIAL_CREDIT);
+    }
+
+    default:
+      return 0;
+  }
+}
+
+/**
+ * How the AI writes each type of question
+ */
+export const QUESTION_FORMATS: Record<string, string> = {
+  multiple_choice: `{"type": "multiple_choice", "question": "Question text?", "options": [
+    {"text": "Option A", "isCorrect": false, "explanation": "Why this is wrong"},
+    {"text": "Option B", "isCorrect": true, "explanation": "Why this is correct"},
+    {"text": "Option C", "isCorrect": false, "explanation": "Why this is wrong"},
+    {"text": "Option D", "isCorrect": false, "explanation": "Why this is wrong"}
+  ], "explanation": "Overall explanation"}
+  Four options, exactly one correct.`,
+  multiple_select: `{"type": "multiple_select", "question": "Which of these ...? (select all that apply)", "options": [
+    {"text": "Option A", "isCorrect": true, "explanation": "..."}, ...
+  ], "explanation": "Overall explanation"}
+  Four to six options, at least two correct and at least one incorrect.`,
+  true_false: `{"type": "true_false", "question": "A statement that is either true or false", "answer": true,
+  "explanation": "Why the statement is true or false"}`,
+  code_review: `{"type": "code_review", "question": "Which line(s) contain a bug?", "language": "python",
+  "code": "line 1\\nline 2\\n...", "buggyLines": [3], "explanation": "What the bug is and how to fix it"}
+  A realistic snippet of 5 to 25 lines with one or two buggy lines (1-based); the rest must be correct.`,
+};
+
+/**
+ * Turn a question the AI generated into authoring input. Validate the
+ * result with validateQuestionInput before using it.
+ */
+export function generatedQuestionInput(raw: any): QuestionInput {
+  const type = raw?.type ?? 'multiple_choice';
+  const base = {
+    questionType: type,
+    questionText: typeof raw?.question === 'string' ? raw.question.trim() : '',
+    explanation: typeof raw?.explanation === 'string' ? raw.explanation : undefined,
+  };
+
+  if (type === 'true_false') {
+    const answer = raw?.answer === true || raw?.answer === 'true';
+    return {
+      ...base,
+      options: [
+        { text: 'True', isCorrect: answer },
+        { text: 'False', isCorrect: !answer },
+      ],
+    };
+  }
+  if (type === 'code_review') {
+    return {
+      ...base,
+      config: { code: raw?.code, language: raw?.language, buggyLines: raw?.buggyLines },
+    };
+  }
+  return {
+    ...base,
+    options: Array.isArray(raw?.options)
+      ? raw.options.map((option: any) => ({
+        text: typeof option?.text === 'string' ? option.text : '',
+        isCorrect: option?.isCorrect === true,
+        explanation: typeof option?.explanation === 'string' ? option.explanation : undefined,
+      }))
+      : undefined,
+  };
+}
@@ -0,0 +1,68 @@
+import { QuizQuestion } from '../models/quiz.model';
+import { quizRepository } from '../repositories/quiz.repository';
+import { ForbiddenError, NotFoundError } from '../utils/errors.util';
+import { analyzeItems, ItemQuestion, QuizItemAnalysis } from './quiz/item.analysis';
+
+/**
+ * Item analysis of quizzes for their instructors: how hard each question
+ * is, how well it separates strong from weak attempts, which options are
+ * picked, and how reliable the quiz is as a whole.
+ */
+export class QuizAnalyticsService {
+  async getItemAnalysis(quizId: string, userId: string, userRole: string): Promise<QuizItemAnalysis> {
+    const quiz = await quizRepository.findById(quizId);
+    if (!quiz) {
+      throw new NotFoundError('Quiz not found');
+    }
+    if (quiz.created_by !== userId && userRole !== 'admin') {
+      throw new ForbiddenError('You do not have permission to view the analytics of this quiz');
+    }
+
+    const quizQuestions = await quizRepository.getQuestions(quizId);
+    const attempts = await quizRepository.getAnalyzedAttempts(quizId);
+
+    // Questions drawn from banks only show in the attempts that served them
+    const drawnIds = [...new Set(attempts.flatMap((attempt) => attempt.question_order ?? []))]
+      .filter((id) => !quizQuestions.some((question) => question.id === id));
+    const questions = [
+      ...quizQuestions,
+      ...(drawnIds.length ? await quizRepository.getQuestionsByIds(drawnIds) : []),
+    ];
+
+    return analyzeItems(
+      await Promise.all(questions.map((question) => this.toItemQuestion(question))),
+      attempts.map((attempt) => {
+        // Older attempts served the whole quiz
+        const served = attempt.question_order ?? quizQuestions.map((question) => question.id);
+        return {
+          id: attempt.id,
+          responses: served.map((questionId) =>
+            attempt.answers.find((answer) => answer.question_id === questionId) ?? {
+              question_id: questionId,
+              points_earned: 0,
+              selected_option_ids: [],
+              time_spent_seconds: null,
+            }
+          ),
+        };
+      })
+    );
+  }
+
+  private async toItemQuestion(question: QuizQuestion): Promise<ItemQuestion> {
+    const options = await quizRepository.getQuestionOptions(question.id);
+    return {
+      id: question.id,
+      question_text: question.question_text,
+      question_type: question.question_type,
+      points: Number(question.points),
+      options: options.map((option) => ({
+        id: option.id,
+        option_text: option.option_text,
+        is_correct: option.is_correct,
+      })),
+    };
+  }
+}
+
+export const quizAnalyticsService = new QuizAnalyticsService();
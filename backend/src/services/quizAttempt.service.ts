@@ -0,0 +1,240 @@
+import { logger } from '../config/logger.config';
+import { QuizAttempt, QuizQuestion } from '../models/quiz.model';
+import { quizRepository } from '../repositories/quiz.repository';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors.util';
+import { questionBankService } from './questionBank.service';
+import { quizGradingService } from './quizGrading.service';
+import { answerError, attemptOrder, inOrder, isPastDeadline, startAttemptError } from './quiz/attempt.rules';
+import { LearnerQuestion, learnerOption, learnerQuestion } from './quiz/question.types';
+
+export interface AttemptAnswerInput {
+  questionId: string;
+  selectedOptionId?: string;
+  selectedOptionIds?: string[];
+  selectedLines?: number[];
+  textAnswer?: string;
+  timeSpentSeconds?: number; // On the question over all visits, when the client tracks it
+}
+
+/**
+ * Runs quiz attempts: enforces the time limit, attempt cap and retake
+ * rules of a quiz on the server, keeps the question order of each attempt
+ * and closes attempts that ran out of time.
+ */
+export class QuizAttemptService {
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+
+  /**
+   * Start an attempt, or resume the learner's attempt in progress. Returns
+   * the attempt with its questions as learners see them, in attempt order.
+   */
+  async startAttempt(userId: string, quizId: string): Promise<{ attempt: QuizAttempt; questions: LearnerQuestion[]; resumed: boolean }> {
+    const quiz = await quizRepository.findById(quizId);
+    if (!quiz) {
+      throw new NotFoundError('Quiz not found');
+    }
+
+    const current = await quizRepository.findInProgressAttempt(userId, quizId);
+    if (current && !isPastDeadline(current)) {
+      return { attempt: current, questions: await this.getAttemptQuestions(current), resumed: true };
+    }
+    if (current) {
+      await this.closeAttempt(current.id);
+    }
+
+    const previous = await quizRepository.getUserAttempts(userId, quizId);
+    const ruleError = startAttemptError(quiz, previous.length);
+    if (ruleError) {
+      throw new ValidationError(ruleError);
+    }
+
+    // The quiz's own questions, then those drawn from banks for this attempt
+    const drawnIds = await questionBankService.drawForAttempt(quiz);
+    const questions = [
+      ...(await this.getQuestionsWithOptions(await quizRepository.getQuestions(quizId))),
+      ...(await this.getQuestionsWithOptions(await this.getQuestionsInOrder(drawnIds))),
+    ];
+    if (questions.length === 0) {
+      throw new ValidationError('This quiz has no questions yet');
+    }
+
+    let attempt: QuizAttempt;
+    try {
+      attempt = await quizRepository.startAttempt(
+        userId,
+        quizId,
+        attemptOrder(questions, quiz.shuffle_questions),
+        quiz.time_limit_minutes
+      );
+    } catch (error: any) {
+      // Another request started an attempt at the same time
+      if (error.code === '23505' && error.constraint === 'idx_quiz_attempts_one_in_progress') {
+        throw new ConflictError('An attempt at this quiz is already in progress');
+      }
+      throw error;
+    }
+
+    logger.info('Started quiz attempt', { userId, quizId, attemptId: attempt.id });
+    return { attempt, questions: this.inAttemptOrder(attempt, questions), resumed: false };
+  }
+
+  /**
+   * Save an answer of the learner's attempt, while it is in progress and
+   * within its time limit
+   */
+  async submitAnswer(attemptId: string, userId: string, input: AttemptAnswerInput): Promise<void> {
+    const attempt = await this.getOwnAttempt(attemptId, userId);
+
+    const stateError = answerError(attempt);
+    if (stateError) {
+      throw new ConflictError(stateError);
+    }
+    if (attempt.question_order && !attempt.question_order.includes(input.questionId)) {
+      throw new ValidationError('The question is not part of this attempt');
+    }
+
+    const saved = await quizRepository.submitAnswer({
+      attempt_id: attemptId,
+      question_id: input.questionId,
+      selected_option_id: input.selectedOptionId,
+      selected_option_ids: input.selectedOptionIds,
+      selected_lines: input.selectedLines,
+      text_answer: input.textAnswer,
+      time_spent_seconds: input.timeSpentSeconds,
+    });
+    if (!saved) {
+      // Completed or expired since the check above
+      throw new ConflictError('This attempt no longer accepts answers');
+    }
+  }
+
+  /**
+   * Complete the learner's attempt. Past the time limit it is closed as
+   * expired, with only the answers given in time.
+   */
+  async completeAttempt(attemptId: string, userId: string): Promise<QuizAttempt> {
+    const attempt = await this.getOwnAttempt(attemptId, userId);
+    if (attempt.status !== 'in_progress') {
+      throw new ConflictError('This attempt is already completed');
+    }
+
+    const completed = await this.closeAttempt(attemptId);
+    if (!completed) {
+      throw new ConflictError('This attempt is already completed');
+    }
+
+    logger.info('Completed quiz attempt', { attemptId, status: completed.status, score: completed.score });
+    return completed;
+  }
+
+  /**
+   * Close every attempt that ran out of time. Returns how many were closed.
+   */
+  async expireOverdueAttempts(): Promise<number> {
+    const attemptIds = await quizRepository.expireOverdueAttempts();
+
+    for (const attemptId of attemptIds) {
+      quizGradingService.gradeAttemptInBackground(attemptId);
+    }
+    if (attemptIds.length > 0) {
+      logger.info('Closed expired quiz attempts', { count: attemptIds.length });
+    }
+    return attemptIds.length;
+  }
+
+  /**
+   * Close expired attempts every intervalSeconds until stopSweeper
+   */
+  startSweeper(intervalSeconds: number): void {
+    if (this.sweepTimer || intervalSeconds <= 0) return;
+
+    this.sweepTimer = setInterval(() => void this.sweep(), intervalSeconds * 1000);
+    this.sweepTimer.unref();
+    logger.info('Quiz attempt sweeper started', { intervalSeconds });
+  }
+
+  stopSweeper(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  private async sweep(): Promise<void> {
+    // Skip a tick while the previous sweep is still running
+    if (this.sweeping) return;
+    this.sweeping = true;
+
+    try {
+      await this.expireOverdueAttempts();
+    } catch (error) {
+      logger.error('Failed to close expired quiz attempts', error);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private async closeAttempt(attemptId: string): Promise<QuizAttempt | null> {
+    const closed = await quizRepository.completeAttempt(attemptId);
+    if (closed) {
+      // Written answers are graded by AI after the response
+      quizGradingService.gradeAttemptInBackground(attemptId);
+    }
+    return closed;
+  }
+
+  private async getOwnAttempt(attemptId: string, userId: string): Promise<QuizAttempt> {
+    const attempt = await quizRepository.findAttemptById(attemptId);
+    if (!attempt) {
+      throw new NotFoundError('Attempt not found');
+    }
+    if (attempt.user_id !== userId) {
+      throw new ForbiddenError('This attempt belongs to another learner');
+    }
+    return attempt;
+  }
+
+  private async getQuestionsInOrder(questionIds: string[]): Promise<QuizQuestion[]> {
+    if (questionIds.length === 0) return [];
+    return inOrder(await quizRepository.getQuestionsByIds(questionIds), questionIds);
+  }
+
+  private async getQuestionsWithOptions(questions: QuizQuestion[]) {
+    return Promise.all(
+      questions.map(async (question) => {
+        const options = await quizRepository.getQuestionOptions(question.id);
+        return { ...question.toJSON(), options: options.map((option) => option.toJSON()) };
+      })
+    );
+  }
+
+  /**
+   * The questions an attempt served; older attempts served the whole quiz
+   */
+  private async getAttemptQuestions(attempt: QuizAttempt): Promise<LearnerQuestion[]> {
+    const questions = attempt.question_order
+      ? await this.getQuestionsInOrder(attempt.question_order)
+      : await quizRepository.getQuestions(attempt.quiz_id);
+    return this.inAttemptOrder(attempt, await this.getQuestionsWithOptions(questions));
+  }
+
+  /**
+   * The attempt's questions in its order, as learners see them
+   */
+  private inAttemptOrder(
+    attempt: QuizAttempt,
+    questions: Awaited<ReturnType<QuizAttemptService['getQuestionsWithOptions']>>
+  ): LearnerQuestion[] {
+    const included = attempt.question_order
+      ? questions.filter((question) => attempt.question_order!.includes(question.id))
+      : questions;
+
+    return inOrder(included, attempt.question_order).map((question) => ({
+      ...learnerQuestion(question),
+      options: inOrder(question.options, attempt.option_order?.[question.id]).map(learnerOption),
+    }));
+  }
+}
+
+export const quizAttemptService = new QuizAttemptService();
@@ -2,6 +2,14 @@ import { logger } from '../config/logger.config';
 import { AIProviderFactory } from './ai/provider.factory';
 import { AIChatMessage, AIChatCompletionResponse } from '../types';
 import { quizRepository } from '../repositories/quiz.repository';
+import {
+  generatedQuestionInput,
+  QUESTION_FORMATS,
+  QuestionInput,
+  QuestionType,
+  questionConfig,
+  validateQuestionInput,
+} from './quiz/question.types';
 
 interface GenerateQuizInput {
   topicId: string;
@@ -9,47 +17,40 @@ interface GenerateQuizInput {
   topicContent?: string;
   difficultyLevel: string;
   numQuestions?: number;
+  questionTypes?: QuestionType[]; // Defaults to multiple choice only
 }
 
 export class QuizGenerationService {
   /**
-   * Generate quiz questions using AI
+   * Generate quiz questions using AI. Questions that do not fit their type
+   * (e.g. a multi-select question without a correct option) are left out.
    */
   async generateQuiz(
     input: GenerateQuizInput,
     userId: string,
     providerId: string
-  ): Promise<any> {
+  ): Promise<QuestionInput[]> {
     try {
       const provider = await AIProviderFactory.getProvider(providerId, userId);
+      const types = input.questionTypes?.length ? input.questionTypes : ['multiple_choice'];
 
-      const prompt = `Generate ${input.numQuestions || 5} multiple-choice quiz questions to test understanding of this topic.
+      const prompt = `Generate ${input.numQuestions || 5} quiz questions to test understanding of this topic.
 
 Topic: ${input.topicTitle}
 ${input.topicContent ? `Content:\n${input.topicContent}` : ''}
 Difficulty Level: ${input.difficultyLevel}
+Question types to use: ${types.join(', ')}${types.length > 1 ? ' (mix them)' : ''}
 
 CRITICAL REQUIREMENTS:
 1. Questions MUST test specific knowledge from "${input.topicTitle}"
-2. Each question should have 4 answer options (A, B, C, D)
-3. Only ONE option should be correct
-4. Include brief explanations for why each answer is correct/incorrect
-5. Questions should progress from basic recall to application/analysis
-6. Avoid ambiguous or trick questions
-
-Return as JSON array in this EXACT format:
-[
-  {
-    "question": "Question text here?",
-    "options": [
-      {"text": "Option A", "isCorrect": false, "explanation": "Why this is wrong"},
-      {"text": "Option B", "isCorrect": true, "explanation": "Why this is correct"},
-      {"text": "Option C", "isCorrect": false, "explanation": "Why this is wrong"},
-      {"text": "Option D", "isCorrect": false, "explanation": "Why this is wrong"}
-    ],
-    "explanation": "Overall explanation of the concept being tested"
-  }
-]`;
+2. Include brief explanations for why each answer is correct/incorrect
+3. Questions should progress from basic recall to application/analysis
+4. Avoid ambiguous or trick questions
+
+Each question is a JSON object in the format of its type:
+${types.map((type) => `- ${type}: ${QUESTION_FORMATS[type]}`).join('\n')}
+
+Return a JSON array of these objects.`;
 
       const messages: AIChatMessage[] = [
         {
@@ -65,15 +66,33 @@ Return as JSON array in this EXACT format:
         max_tokens: 2000,
       });
 
-      const questions = this.parseJSONResponse(response.content);
+      const generated = this.parseJSONResponse(response.content);
 
-      if (!Array.isArray(questions)) {
+      if (!Array.isArray(generated)) {
         throw new Error('AI did not return a valid questions array');
       }
 
+      const questions: QuestionInput[] = [];
+      for (const raw of generated) {
+        const question = generatedQuestionInput(raw);
+        const questionError = types.includes(question.questionType)
+          ? validateQuestionInput(question)
+          : `unexpected type ${question.questionType}`;
+        if (questionError) {
+          logger.warn('Skipped invalid AI-generated question', { topicId: input.topicId, error: questionError });
+        } else {
+          questions.push(question);
+        }
+      }
+
+      if (questions.length === 0) {
+        throw new Error('AI did not return any valid questions');
+      }
+
       logger.info('Generated quiz questions', {
         topicId: input.topicId,
         numQuestions: questions.length,
+        skipped: generated.length - questions.length,
       });
 
       return questions;
@@ -115,17 +134,19 @@ Return as JSON array in this EXACT format:
 
         const question = await quizRepository.addQuestion({
           quiz_id: quiz.id,
-          question_type: 'multiple_choice',
-          question_text: aiQ.question,
+          question_type: aiQ.questionType,
+          question_text: aiQ.questionText,
           explanation: aiQ.explanation,
           points: 1,
           order_index: i,
           generated_by_ai: true,
+          question_config: questionConfig(aiQ),
         });
 
         // Add options
-        for (let j = 0; j < aiQ.options.length; j++) {
-          const opt = aiQ.options[j];
+        const options = aiQ.options ?? [];
+        for (let j = 0; j < options.length; j++) {
+          const opt = options[j];
           await quizRepository.addQuestionOption({
             question_id: question.id,
             option_text: opt.text,
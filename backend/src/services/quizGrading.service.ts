@@ -0,0 +1,208 @@
+import { logger } from '../config/logger.config';
+import { quizRepository, WrittenAnswer } from '../repositories/quiz.repository';
+import { rubricRepository } from '../repositories/rubric.repository';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors.util';
+import { AIService } from './ai/ai.service';
+import {
+  applyCriterionOverrides,
+  buildRubricGradingMessages,
+  CriterionOverride,
+  CriterionScore,
+  criterionOverrideError,
+  defaultCriteria,
+  GradingCriterion,
+  parseRubricGrade,
+  scaledPoints,
+} from './ai/rubric.grading';
+
+export interface GradeOverrideInput {
+  criteria?: unknown; // One { points, feedback? } per criterion
+  feedback?: string;
+  final?: boolean;
+}
+
+export class QuizGradingService {
+  private aiService = new AIService();
+
+  /**
+   * Grade the pending written answers of an attempt with the AI provider of
+   * the quiz, or its creator's default provider. Answers are graded one at a
+   * time; an answer that cannot be graded is marked failed and the others
+   * still get their grade.
+   */
+  async gradeAttempt(attemptId: string): Promise<void> {
+    const answers = await quizRepository.getPendingWrittenAnswers(attemptId);
+
+    for (const answer of answers) {
+      try {
+        await this.gradeAnswer(answer);
+      } catch (error) {
+        logger.error('Failed to grade quiz answer', { attemptId, answerId: answer.id, error });
+        await quizRepository.markGradingFailed(
+          answer.id,
+          error instanceof Error ? error.message : 'The answer could not be graded'
+        );
+      }
+    }
+  }
+
+  /**
+   * Grade an attempt without making the caller wait for the AI
+   */
+  gradeAttemptInBackground(attemptId: string): void {
+    this.gradeAttempt(attemptId).catch((error) => {
+      logger.error('Quiz attempt grading failed', { attemptId, error });
+    });
+  }
+
+  /**
+   * Grade the failed written answers of an attempt again. Returns how many
+   * answers are being graded.
+   */
+  async retryGrading(attemptId: string, userId: string, userRole: string): Promise<number> {
+    const attempt = await quizRepository.getAttemptWithAnswers(attemptId);
+    if (!attempt) {
+      throw new NotFoundError('Attempt not found');
+    }
+    await this.assertCanGrade(attempt.quiz_id, userId, userRole);
+
+    const requeued = await quizRepository.retryFailedGrading(attemptId);
+    if (requeued > 0) {
+      this.gradeAttemptInBackground(attemptId);
+    }
+    return requeued;
+  }
+
+  /**
+   * Written answers of a quiz that still need an instructor's final grade
+   */
+  async getReviewQueue(quizId: string, userId: string, userRole: string): Promise<any[]> {
+    await this.assertCanGrade(quizId, userId, userRole);
+    return quizRepository.getAnswersForReview(quizId);
+  }
+
+  /**
+   * Change the criterion scores or feedback of a written answer, or make its
+   * grade final. Final grades cannot be changed anymore.
+   */
+  async overrideGrade(
+    answerId: string,
+    input: GradeOverrideInput,
+    userId: string,
+    userRole: string
+  ): Promise<WrittenAnswer> {
+    const answer = await quizRepository.findWrittenAnswer(answerId);
+    if (!answer) {
+      throw new NotFoundError('Written answer not found');
+    }
+    await this.assertCanGrade(answer.quiz_id, userId, userRole);
+
+    if (answer.grading_status === 'final') {
+      throw new ConflictError('This grade is already final');
+    }
+    if (input.feedback !== undefined && typeof input.feedback !== 'string') {
+      throw new ValidationError('feedback must be a string');
+    }
+
+    // Answers the AI has not graded are scored from scratch
+    let scores: CriterionScore[] = answer.criterion_scores
+      ?? (await this.criteriaFor(answer)).map((criterion) => ({
+        criterionId: criterion.id,
+        name: criterion.name,
+        points: 0,
+        maxPoints: criterion.maxPoints,
+        weight: criterion.weight,
+        feedback: '',
+      }));
+
+    if (input.criteria !== undefined) {
+      const overrideError = criterionOverrideError(scores, input.criteria);
+      if (overrideError) {
+        throw new ValidationError(overrideError);
+      }
+      scores = applyCriterionOverrides(scores, input.criteria as CriterionOverride[]);
+    } else if (!answer.criterion_scores) {
+      throw new BadRequestError('The answer has no AI grade yet; give points for each criterion');
+    }
+
+    const saved = await quizRepository.saveInstructorGrade(answerId, {
+      criterion_scores: scores,
+      points: scaledPoints(scores, answer.question_points),
+      instructor_feedback: input.feedback?.trim() || null,
+      graded_by: userId,
+      final: input.final === true,
+    });
+    if (!saved) {
+      throw new ConflictError('This grade is already final');
+    }
+
+    logger.info('Quiz answer grade overridden', { answerId, userId, final: input.final === true });
+
+    return (await quizRepository.findWrittenAnswer(answerId))!;
+  }
+
+  private async gradeAnswer(answer: WrittenAnswer): Promise<void> {
+    const criteria = await this.criteriaFor(answer);
+
+    const response = await this.aiService.sendChatCompletion(answer.quiz_created_by, {
+      messages: buildRubricGradingMessages({
+        questionType: answer.question_type,
+        questionText: answer.question_text,
+        modelAnswer: answer.model_answer,
+        explanation: answer.explanation,
+        answer: answer.text_answer ?? '',
+        criteria,
+      }),
+      temperature: 0.2,
+      max_tokens: 1500,
+    }, answer.ai_provider_id ?? undefined);
+
+    const grade = parseRubricGrade(response.content, criteria, response.model);
+    if (!grade) {
+      logger.warn('AI rubric grade could not be parsed', {
+        answerId: answer.id,
+        sample: response.content.substring(0, 200),
+      });
+      throw new Error('The AI provider returned a grade in an unexpected format');
+    }
+
+    const points = scaledPoints(grade.criteria, answer.question_points);
+    const saved = await quizRepository.saveAIGrade(answer.id, {
+      criterion_scores: grade.criteria,
+      feedback: grade.feedback,
+      points,
+    });
+
+    logger.info('Quiz answer graded by AI', { answerId: answer.id, model: response.model, points, saved });
+  }
+
+  /**
+   * The criteria of the question's rubric, or correctness alone without one
+   */
+  private async criteriaFor(answer: WrittenAnswer): Promise<GradingCriterion[]> {
+    const criteria = answer.rubric_id ? await rubricRepository.getCriteria(answer.rubric_id) : [];
+    if (criteria.length === 0) {
+      return defaultCriteria(answer.question_points);
+    }
+    return criteria.map((criterion) => ({
+      id: criterion.id,
+      name: criterion.criterion_name,
+      description: criterion.description,
+      maxPoints: criterion.max_points,
+      weight: criterion.weight,
+      levels: criterion.levels,
+    }));
+  }
+
+  private async assertCanGrade(quizId: string, userId: string, userRole: string): Promise<void> {
+    const quiz = await quizRepository.findById(quizId);
+    if (!quiz) {
+      throw new NotFoundError('Quiz not found');
+    }
+    if (quiz.created_by !== userId && userRole !== 'admin') {
+      throw new ForbiddenError('You do not have permission to grade this quiz');
+    }
+  }
+}
+
+export const quizGradingService = new QuizGradingService();
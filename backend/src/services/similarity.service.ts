@@ -0,0 +1,265 @@
+import { database } from '../config/database.config';
+import { logger } from '../config/logger.config';
+import { NotFoundError } from '../utils/errors.util';
+import { SimilarityLanguage, tokenize } from './similarity/tokenizer';
+import { comparePrograms, MatchedRegion, PreparedProgram, prepareProgram } from './similarity/matcher';
+
+// Pairs below this are not stored; the report threshold can only be raised above it
+export const MIN_STORED_SIMILARITY = 0.5;
+export const DEFAULT_REPORT_THRESHOLD = 0.8;
+// Comparison is quadratic in the number of learners
+const MAX_ANALYZED_SUBMISSIONS = 300;
+
+export interface SimilarityAnalysis {
+  exerciseId: string;
+  submissionsAnalyzed: number;
+  pairsCompared: number;
+  pairsStored: number;
+  analyzedAt: string;
+}
+
+export interface SimilarityParticipant {
+  submissionId: string | null; // null: the exercise's reference solution
+  userId: string | null;
+  userName: string | null;
+  submittedAt: string | null;
+}
+
+export interface SimilarityPairSummary {
+  id: string;
+  similarity: number;
+  a: SimilarityParticipant;
+  b: SimilarityParticipant;
+}
+
+export interface SimilarityCluster {
+  participants: SimilarityParticipant[];
+  maxSimilarity: number;
+  pairs: SimilarityPairSummary[];
+}
+
+export interface SimilarityReport {
+  exerciseId: string;
+  threshold: number;
+  analyzedAt: string | null;
+  clusters: SimilarityCluster[];
+}
+
+export interface SimilarityPairDetail extends SimilarityPairSummary {
+  exerciseId: string;
+  language: string;
+  codeA: string;
+  codeB: string;
+  matches: MatchedRegion[];
+}
+
+interface AnalyzedProgram {
+  submissionId: string | null;
+  program: PreparedProgram;
+}
+
+const SOLUTION_KEY = 'solution';
+
+export class SimilarityService {
+  /**
+   * Compare the latest passing submission of every learner with each other
+   * and with the reference solution. Replaces the exercise's previous results.
+   */
+  async analyzeExercise(exerciseId: string): Promise<SimilarityAnalysis> {
+    const exerciseQuery = await database.query<{
+      language: SimilarityLanguage;
+      starter_code: string | null;
+      solution_code: string | null;
+    }>(
+      'SELECT language, starter_code, solution_code FROM exercises WHERE id = $1',
+      [exerciseId]
+    );
+    if (exerciseQuery.rows.length === 0) {
+      throw new NotFoundError('Exercise not found');
+    }
+    const exercise = exerciseQuery.rows[0];
+
+    const submissionsQuery = await database.query<{ id: string; code: string }>(
+      `SELECT id, code FROM (
+         SELECT DISTINCT ON (user_id) id, code, submitted_at
+         FROM code_submissions
+         WHERE exercise_id = $1 AND status = 'passed'
+         ORDER BY user_id, submitted_at DESC
+       ) latest
+       ORDER BY submitted_at DESC
+       LIMIT $2`,
+      [exerciseId, MAX_ANALYZED_SUBMISSIONS]
+    );
+
+    const starterTokens = exercise.starter_code ? tokenize(exercise.starter_code, exercise.language) : [];
+    const prepare = (code: string) => prepareProgram(tokenize(code, exercise.language), starterTokens);
+
+    const programs: AnalyzedProgram[] = submissionsQuery.rows.map((row) => ({
+      submissionId: row.id,
+      program: prepare(row.code),
+    }));
+    const solution: AnalyzedProgram | null = exercise.solution_code?.trim()
+      ? { submissionId: null, program: prepare(exercise.solution_code) }
+      : null;
+
+    const pairs: { a: string; b: string | null; similarity: number; matches: MatchedRegion[] }[] = [];
+    let pairsCompared = 0;
+    for (let i = 0; i < programs.length; i++) {
+      const others = programs.slice(i + 1);
+      if (solution) others.push(solution);
+      for (const other of others) {
+        pairsCompared++;
+        const result = comparePrograms(programs[i].program, other.program);
+        if (result && result.similarity >= MIN_STORED_SIMILARITY) {
+          pairs.push({
+            a: programs[i].submissionId!,
+            b: other.submissionId,
+            similarity: Number(result.similarity.toFixed(4)),
+            matches: result.matches,
+          });
+        }
+      }
+    }
+
+    const analyzedAt = new Date().toISOString();
+    await database.transaction(async (client) => {
+      await client.query('DELETE FROM submission_similarities WHERE exercise_id = $1', [exerciseId]);
+      for (const pair of pairs) {
+        await client.query(
+          `INSERT INTO submission_similarities
+             (exercise_id, submission_a_id, submission_b_id, similarity, matches, analyzed_at)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [exerciseId, pair.a, pair.b, pair.similarity, JSON.stringify(pair.matches), analyzedAt]
+        );
+      }
+    });
+
+    logger.info('Submission similarity analyzed', {
+      exerciseId,
+      submissions: programs.length,
+      pairsCompared,
+      pairsStored: pairs.length,
+    });
+
+    return {
+      exerciseId,
+      submissionsAnalyzed: programs.length,
+      pairsCompared,
+      pairsStored: pairs.length,
+      analyzedAt,
+    };
+  }
+
+  /**
+   * Pairs at or above the threshold, grouped into clusters of learners whose
+   * code is linked by similar pairs. Most similar clusters first.
+   */
+  async getReport(exerciseId: string, threshold = DEFAULT_REPORT_THRESHOLD): Promise<SimilarityReport> {
+    const exerciseQuery = await database.query('SELECT id FROM exercises WHERE id = $1', [exerciseId]);
+    if (exerciseQuery.rows.length === 0) {
+      throw new NotFoundError('Exercise not found');
+    }
+
+    const [details, analyzedQuery] = await Promise.all([
+      this.queryPairs('ss.exercise_id = $1 AND ss.similarity >= $2', [exerciseId, threshold]),
+      database.query<{ analyzed_at: Date | null }>(
+        'SELECT MAX(analyzed_at) AS analyzed_at FROM submission_similarities WHERE exercise_id = $1',
+        [exerciseId]
+      ),
+    ]);
+
+    const pairs: SimilarityPairSummary[] = details.map(({ id, similarity, a, b }) => ({ id, similarity, a, b }));
+
+    // Union-find over participants linked by a pair
+    const parent = new Map<string, string>();
+    const find = (key: string): string => {
+      let root = key;
+      while (parent.get(root) !== root) root = parent.get(root)!;
+      parent.set(key, root);
+      return root;
+    };
+    const keyOf = (participant: SimilarityParticipant) => participant.submissionId ?? SOLUTION_KEY;
+
+    for (const pair of pairs) {
+      for (const participant of [pair.a, pair.b]) {
+        if (!parent.has(keyOf(participant))) parent.set(keyOf(participant), keyOf(participant));
+      }
+      parent.set(find(keyOf(pair.a)), find(keyOf(pair.b)));
+    }
+
+    const clusters = new Map<string, SimilarityCluster>();
+    for (const pair of pairs) {
+      const root = find(keyOf(pair.a));
+      const cluster = clusters.get(root) ?? { participants: [], maxSimilarity: 0, pairs: [] };
+      for (const participant of [pair.a, pair.b]) {
+        if (!cluster.participants.some((p) => keyOf(p) === keyOf(participant))) {
+          cluster.participants.push(participant);
+        }
+      }
+      cluster.maxSimilarity = Math.max(cluster.maxSimilarity, pair.similarity);
+      cluster.pairs.push(pair);
+      clusters.set(root, cluster);
+    }
+
+    return {
+      exerciseId,
+      threshold,
+      analyzedAt: analyzedQuery.rows[0]?.analyzed_at?.toISOString() ?? null,
+      clusters: [...clusters.values()].sort((x, y) => y.maxSimilarity - x.maxSimilarity),
+    };
+  }
+
+  /**
+   * Both programs of a pair with their matched regions, for a side-by-side view
+   */
+  async getPair(pairId: string): Promise<SimilarityPairDetail> {
+    const [pair] = await this.queryPairs('ss.id = $1', [pairId]);
+    if (!pair) {
+      throw new NotFoundError('Similarity pair not found');
+    }
+    return pair;
+  }
+
+  private async queryPairs(where: string, params: unknown[]): Promise<SimilarityPairDetail[]> {
+    const result = await database.query(
+      `SELECT ss.id, ss.exercise_id, ss.similarity, ss.matches,
+              e.language, e.solution_code,
+              sa.id AS a_submission_id, sa.user_id AS a_user_id, sa.code AS a_code, sa.submitted_at AS a_submitted_at,
+              ua.first_name AS a_first_name, ua.last_name AS a_last_name,
+              sb.id AS b_submission_id, sb.user_id AS b_user_id, sb.code AS b_code, sb.submitted_at AS b_submitted_at,
+              ub.first_name AS b_first_name, ub.last_name AS b_last_name
+       FROM submission_similarities ss
+       JOIN exercises e ON e.id = ss.exercise_id
+       JOIN code_submissions sa ON sa.id = ss.submission_a_id
+       JOIN users ua ON ua.id = sa.user_id
+       LEFT JOIN code_submissions sb ON sb.id = ss.submission_b_id
+       LEFT JOIN users ub ON ub.id = sb.user_id
+       WHERE ${where}
+       ORDER BY ss.similarity DESC`,
+      params
+    );
+
+    const participant = (row: any, side: 'a' | 'b'): SimilarityParticipant => ({
+      submissionId: row[`${side}_submission_id`],
+      userId: row[`${side}_user_id`],
+      userName: row[`${side}_user_id`]
+        ? `${row[`${side}_first_name`] ?? ''} ${row[`${side}_last_name`] ?? ''}`.trim()
+        : null,
+      submittedAt: row[`${side}_submitted_at`]?.toISOString() ?? null,
+    });
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      exerciseId: row.exercise_id,
+      language: row.language,
+      similarity: parseFloat(row.similarity),
+      a: participant(row, 'a'),
+      b: participant(row, 'b'),
+      codeA: row.a_code,
+      codeB: row.b_submission_id ? row.b_code : row.solution_code ?? '',
+      matches: row.matches,
+    }));
+  }
+}
+
+export const similarityService = new SimilarityService();
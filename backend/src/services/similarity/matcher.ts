@@ -0,0 +1,197 @@
+import { Token } from './tokenizer';
+
+// Shortest run of identical tokens that counts as a match
+export const MIN_MATCH_TOKENS = 8;
+// Programs shorter than this (after removing starter code) are not compared:
+// short solutions to small exercises look alike without any copying
+export const MIN_COMPARABLE_TOKENS = 20;
+const WINNOWING_WINDOW = 4;
+// Fingerprint overlap a pair needs before the exact (slower) comparison runs
+const SCREENING_OVERLAP = 0.2;
+
+export interface MatchedRegion {
+  aStartLine: number;
+  aEndLine: number;
+  bStartLine: number;
+  bEndLine: number;
+  tokens: number;
+}
+
+export interface SimilarityResult {
+  similarity: number; // 0..1, share of both token streams covered by matches
+  matches: MatchedRegion[];
+}
+
+/**
+ * A program prepared for comparison: its tokens, which of them came from the
+ * starter code (and so never count as copied), and its winnowed fingerprints
+ */
+export interface PreparedProgram {
+  tokens: Token[];
+  ignored: boolean[];
+  comparableTokens: number;
+  fingerprints: Set<number>;
+}
+
+interface Tile {
+  a: number;
+  b: number;
+  length: number;
+}
+
+/**
+ * Greedy String Tiling (as used by JPlag): repeatedly take the longest common
+ * runs of unmarked tokens, longest first, until none of at least `minLength`
+ * remain. Marked tokens are never matched again.
+ */
+export function greedyStringTiling(
+  a: string[],
+  b: string[],
+  minLength: number,
+  markedA: boolean[] = new Array(a.length).fill(false),
+  markedB: boolean[] = new Array(b.length).fill(false)
+): Tile[] {
+  const tiles: Tile[] = [];
+  let longest: number;
+
+  do {
+    longest = minLength;
+    let candidates: Tile[] = [];
+
+    for (let i = 0; i < a.length; i++) {
+      if (markedA[i]) continue;
+      for (let j = 0; j < b.length; j++) {
+        if (markedB[j] || a[i] !== b[j]) continue;
+        let length = 0;
+        while (i + length < a.length && j + length < b.length
+          && a[i + length] === b[j + length] && !markedA[i + length] && !markedB[j + length]) {
+          length++;
+        }
+        if (length > longest) {
+          longest = length;
+          candidates = [{ a: i, b: j, length }];
+        } else if (length === longest) {
+          candidates.push({ a: i, b: j, length });
+        }
+      }
+    }
+
+    for (const tile of candidates) {
+      let occluded = false;
+      for (let k = 0; k < tile.length && !occluded; k++) {
+        occluded = markedA[tile.a + k] || markedB[tile.b + k];
+      }
+      if (occluded) continue;
+      for (let k = 0; k < tile.length; k++) {
+        markedA[tile.a + k] = true;
+        markedB[tile.b + k] = true;
+      }
+      tiles.push(tile);
+    }
+  } while (longest > minLength);
+
+  return tiles;
+}
+
+const hashGram = (values: string[]): number => {
+  // FNV-1a over the joined k-gram
+  let hash = 0x811c9dc5;
+  const text = values.join('\u0000');
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+/**
+ * Winnowing (as used by MOSS): hash every k-gram of tokens that are not
+ * ignored and keep the smallest hash of each window
+ */
+export function winnow(tokens: Token[], ignored: boolean[], k = MIN_MATCH_TOKENS, window = WINNOWING_WINDOW): Set<number> {
+  const hashes: number[] = [];
+  for (let i = 0; i + k <= tokens.length; i++) {
+    if (ignored.slice(i, i + k).some(Boolean)) continue;
+    hashes.push(hashGram(tokens.slice(i, i + k).map((token) => token.value)));
+  }
+
+  const fingerprints = new Set<number>();
+  if (hashes.length <= window) {
+    hashes.forEach((hash) => fingerprints.add(hash));
+    return fingerprints;
+  }
+  for (let i = 0; i + window <= hashes.length; i++) {
+    fingerprints.add(Math.min(...hashes.slice(i, i + window)));
+  }
+  return fingerprints;
+}
+
+/**
+ * Tokenized program with the parts it shares with the starter code ignored
+ */
+export function prepareProgram(tokens: Token[], starterTokens: Token[] = []): PreparedProgram {
+  const ignored = new Array(tokens.length).fill(false);
+  if (starterTokens.length > 0) {
+    greedyStringTiling(
+      tokens.map((token) => token.value),
+      starterTokens.map((token) => token.value),
+      MIN_MATCH_TOKENS,
+      ignored
+    );
+  }
+
+  return {
+    tokens,
+    ignored,
+    comparableTokens: ignored.filter((flag) => !flag).length,
+    fingerprints: winnow(tokens, ignored),
+  };
+}
+
+/**
+ * Share of fingerprints the smaller program has in common with the other
+ */
+export function fingerprintOverlap(a: PreparedProgram, b: PreparedProgram): number {
+  const [smaller, larger] = a.fingerprints.size <= b.fingerprints.size ? [a, b] : [b, a];
+  if (smaller.fingerprints.size === 0) return 0;
+  let shared = 0;
+  smaller.fingerprints.forEach((hash) => {
+    if (larger.fingerprints.has(hash)) shared++;
+  });
+  return shared / smaller.fingerprints.size;
+}
+
+/**
+ * Compare two prepared programs. Returns null when either is too short to
+ * compare meaningfully or their fingerprints barely overlap.
+ */
+export function comparePrograms(a: PreparedProgram, b: PreparedProgram): SimilarityResult | null {
+  if (a.comparableTokens < MIN_COMPARABLE_TOKENS || b.comparableTokens < MIN_COMPARABLE_TOKENS) {
+    return null;
+  }
+  if (fingerprintOverlap(a, b) < SCREENING_OVERLAP) {
+    return null;
+  }
+
+  const tiles = greedyStringTiling(
+    a.tokens.map((token) => token.value),
+    b.tokens.map((token) => token.value),
+    MIN_MATCH_TOKENS,
+    [...a.ignored],
+    [...b.ignored]
+  );
+  const covered = tiles.reduce((sum, tile) => sum + tile.length, 0);
+
+  return {
+    similarity: Math.min(1, (2 * covered) / (a.comparableTokens + b.comparableTokens)),
+    matches: tiles
+      .sort((x, y) => x.a - y.a)
+      .map((tile) => ({
+        aStartLine: a.tokens[tile.a].line,
+        aEndLine: a.tokens[tile.a + tile.length - 1].line,
+        bStartLine: b.tokens[tile.b].line,
+        bEndLine: b.tokens[tile.b + tile.length - 1].line,
+        tokens: tile.length,
+      })),
+  };
+}
@@ -0,0 +1,110 @@
+export type SimilarityLanguage = 'javascript' | 'python' | 'java' | 'cpp' | 'sql';
+
+export interface Token {
+  value: string; // Normalized: identifiers become ID, literals STR and NUM
+  line: number; // 1-based line in the source
+}
+
+const KEYWORDS: Record<SimilarityLanguage, string[]> = {
+  javascript: [
+    'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do',
+    'else', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof',
+    'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try',
+    'typeof', 'undefined', 'var', 'void', 'while', 'yield',
+  ],
+  python: [
+    'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else',
+    'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None',
+    'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield',
+  ],
+  java: [
+    'abstract', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'continue', 'default', 'do',
+    'double', 'else', 'enum', 'extends', 'false', 'final', 'finally', 'float', 'for', 'if', 'implements',
+    'import', 'instanceof', 'int', 'interface', 'long', 'new', 'null', 'package', 'private', 'protected',
+    'public', 'return', 'short', 'static', 'super', 'switch', 'this', 'throw', 'throws', 'true', 'try',
+    'var', 'void', 'while',
+  ],
+  cpp: [
+    'auto', 'bool', 'break', 'case', 'catch', 'char', 'class', 'const', 'constexpr', 'continue', 'default',
+    'delete', 'do', 'double', 'else', 'enum', 'false', 'float', 'for', 'if', 'int', 'long', 'namespace',
+    'new', 'nullptr', 'private', 'protected', 'public', 'return', 'short', 'signed', 'sizeof', 'static',
+    'struct', 'switch', 'template', 'this', 'throw', 'true', 'try', 'typename', 'unsigned', 'using',
+    'virtual', 'void', 'while',
+  ],
+  sql: [
+    'ALL', 'AND', 'AS', 'ASC', 'AVG', 'BETWEEN', 'BY', 'CASE', 'COUNT', 'CROSS', 'DESC', 'DISTINCT', 'ELSE',
+    'END', 'EXCEPT', 'EXISTS', 'FROM', 'FULL', 'GROUP', 'HAVING', 'IN', 'INNER', 'INTERSECT', 'IS', 'JOIN',
+    'LEFT', 'LIKE', 'LIMIT', 'MAX', 'MIN', 'NOT', 'NULL', 'OFFSET', 'ON', 'OR', 'ORDER', 'OUTER', 'OVER',
+    'PARTITION', 'RIGHT', 'SELECT', 'SUM', 'THEN', 'UNION', 'USING', 'WHEN', 'WHERE', 'WITH',
+  ],
+};
+
+const KEYWORD_SETS = Object.fromEntries(
+  Object.entries(KEYWORDS).map(([language, words]) => [language, new Set(words)])
+) as Record<SimilarityLanguage, Set<string>>;
+
+// Skipped entirely: layout, comments and, for C++, preprocessor lines
+const WHITESPACE = /\s+/y;
+const BLOCK_COMMENT = /\/\*[\s\S]*?(?:\*\/|$)/y;
+const LINE_COMMENTS: Record<SimilarityLanguage, RegExp> = {
+  javascript: /\/\/[^\n]*/y,
+  java: /\/\/[^\n]*/y,
+  cpp: /(?:\/\/|#)[^\n]*/y,
+  python: /#[^\n]*/y,
+  sql: /--[^\n]*/y,
+};
+
+const TRIPLE_QUOTED = /("""|''')[\s\S]*?(?:\1|$)/y;
+const STRING = /"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?|`(?:\\.|[^`\\])*`?/y;
+const NUMBER = /0[xX][0-9a-fA-F]+|(?:\d[\d_]*(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?[a-zA-Z]*/y;
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const OPERATOR = /(?:>>>=|===|!==|\.\.\.|<<=|>>=|\*\*=|\/\/=|=>|==|!=|<=|>=|&&|\|\||\+\+|--|\+=|-=|\*=|\/=|%=|&=|\|=|\^=|<<|>>|->|::|\*\*|\/\/)|\S/y;
+
+const matchAt = (pattern: RegExp, source: string, position: number): string | null => {
+  pattern.lastIndex = position;
+  const match = pattern.exec(source);
+  return match && match[0].length > 0 ? match[0] : null;
+};
+
+const countLines = (text: string) => (text.match(/\n/g) || []).length;
+
+/**
+ * Split code into a normalized token stream for similarity detection.
+ * Comments and layout are dropped, identifiers (other than keywords) and
+ * literals are replaced by placeholders, so renaming variables or
+ * reformatting does not change the stream.
+ */
+export function tokenize(code: string, language: SimilarityLanguage): Token[] {
+  const keywords = KEYWORD_SETS[language];
+  const tokens: Token[] = [];
+  let position = 0;
+  let line = 1;
+
+  while (position < code.length) {
+    let text = matchAt(WHITESPACE, code, position)
+      || matchAt(BLOCK_COMMENT, code, position)
+      || matchAt(LINE_COMMENTS[language], code, position);
+
+    if (!text) {
+      let value: string;
+      if ((text = (language === 'python' ? matchAt(TRIPLE_QUOTED, code, position) : null)
+        || matchAt(STRING, code, position))) {
+        value = 'STR';
+      } else if ((text = matchAt(NUMBER, code, position))) {
+        value = 'NUM';
+      } else if ((text = matchAt(IDENTIFIER, code, position))) {
+        const word = language === 'sql' ? text.toUpperCase() : text;
+        value = keywords.has(word) ? word : 'ID';
+      } else {
+        text = matchAt(OPERATOR, code, position) as string;
+        value = text;
+      }
+      tokens.push({ value, line });
+    }
+
+    line += countLines(text);
+    position += text.length;
+  }
+
+  return tokens;
+}
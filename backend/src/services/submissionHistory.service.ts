@@ -0,0 +1,193 @@
+import { database } from '../config/database.config';
+import { logger } from '../config/logger.config';
+import { ConflictError, NotFoundError } from '../utils/errors.util';
+import { HiddenTestVisibility, redactTestResults } from './execution/scoring';
+import { DiffLine, diffLines } from './history/line.diff';
+import { diffTestResults, TestResultChange } from './history/test.deltas';
+import { ReplayEvent, validateReplay } from './history/replay';
+import type { TestResult } from './codeExecution.service';
+
+// Oldest submissions beyond this are left out of a timeline
+const MAX_TIMELINE_SUBMISSIONS = 200;
+
+export interface TimelineEntry {
+  id: string;
+  submittedAt: string;
+  status: string;
+  isFinal: boolean;
+  passedTests: number;
+  totalTests: number;
+  score: number;
+  code: string;
+  diff: DiffLine[]; // Against the previous submission, or the starter code for the first one
+  testChanges: TestResultChange[]; // Against the previous submission
+  hasReplay: boolean;
+}
+
+export interface SubmissionTimeline {
+  exerciseId: string;
+  userId: string;
+  starterCode: string;
+  entries: TimelineEntry[]; // Oldest first
+}
+
+export interface ExerciseSubmitter {
+  userId: string;
+  userName: string;
+  email: string;
+  submissionCount: number;
+  lastSubmittedAt: string;
+  lastStatus: string;
+  hasPassed: boolean;
+}
+
+export interface SubmissionReplay {
+  submissionId: string;
+  initialCode: string;
+  events: ReplayEvent[];
+  durationMs: number;
+}
+
+export class SubmissionHistoryService {
+  /**
+   * A learner's submissions to an exercise with what changed between each
+   * consecutive pair: code diff and tests that flipped
+   */
+  async getTimeline(exerciseId: string, userId: string): Promise<SubmissionTimeline> {
+    const exerciseQuery = await database.query<{
+      starter_code: string | null;
+      hidden_test_visibility: HiddenTestVisibility;
+    }>(
+      'SELECT starter_code, hidden_test_visibility FROM exercises WHERE id = $1',
+      [exerciseId]
+    );
+    if (exerciseQuery.rows.length === 0) {
+      throw new NotFoundError('Exercise not found');
+    }
+    const exercise = exerciseQuery.rows[0];
+
+    const submissionsQuery = await database.query(
+      `SELECT * FROM (
+         SELECT s.id, s.code, s.status, s.is_final, s.passed_tests, s.total_tests, s.score,
+                s.test_results, s.submitted_at, (r.submission_id IS NOT NULL) AS has_replay
+         FROM code_submissions s
+         LEFT JOIN submission_replays r ON r.submission_id = s.id
+         WHERE s.exercise_id = $1 AND s.user_id = $2
+         ORDER BY s.submitted_at DESC
+         LIMIT $3
+       ) recent
+       ORDER BY submitted_at ASC`,
+      [exerciseId, userId, MAX_TIMELINE_SUBMISSIONS]
+    );
+
+    const starterCode = exercise.starter_code || '';
+    let previousCode = starterCode;
+    let previousResults: TestResult[] | null = null;
+    const entries: TimelineEntry[] = submissionsQuery.rows.map((row) => {
+      const testResults = redactTestResults(row.test_results || [], exercise.hidden_test_visibility);
+      const entry: TimelineEntry = {
+        id: row.id,
+        submittedAt: row.submitted_at.toISOString(),
+        status: row.status,
+        isFinal: row.is_final,
+        passedTests: row.passed_tests,
+        totalTests: row.total_tests,
+        score: Number(row.score),
+        code: row.code,
+        diff: diffLines(previousCode, row.code),
+        testChanges: previousResults ? diffTestResults(previousResults, testResults) : [],
+        hasReplay: row.has_replay,
+      };
+      previousCode = row.code;
+      // Ungraded submissions have no results to compare the next one with
+      if (row.status !== 'pending' && row.status !== 'running') {
+        previousResults = testResults;
+      }
+      return entry;
+    });
+
+    return { exerciseId, userId, starterCode, entries };
+  }
+
+  /**
+   * Learners who submitted to an exercise, most recently active first
+   */
+  async getSubmitters(exerciseId: string): Promise<ExerciseSubmitter[]> {
+    const result = await database.query(
+      `SELECT u.id AS user_id, u.first_name, u.last_name, u.email,
+              COUNT(*)::int AS submission_count,
+              MAX(s.submitted_at) AS last_submitted_at,
+              (ARRAY_AGG(s.status ORDER BY s.submitted_at DESC))[1] AS last_status,
+              BOOL_OR(s.status = 'passed') AS has_passed
+       FROM code_submissions s
+       JOIN users u ON u.id = s.user_id
+       WHERE s.exercise_id = $1
+       GROUP BY u.id, u.first_name, u.last_name, u.email
+       ORDER BY last_submitted_at DESC`,
+      [exerciseId]
+    );
+
+    return result.rows.map((row) => ({
+      userId: row.user_id,
+      userName: `${row.first_name ?? ''} ${row.last_name ?? ''}`.trim() || row.email,
+      email: row.email,
+      submissionCount: row.submission_count,
+      lastSubmittedAt: row.last_submitted_at.toISOString(),
+      lastStatus: row.last_status,
+      hasPassed: row.has_passed,
+    }));
+  }
+
+  /**
+   * Store the editor recording of a learner's own submission. The recording
+   * must replay to exactly the submitted code and can only be saved once.
+   */
+  async saveReplay(submissionId: string, userId: string, initialCode: unknown, events: unknown): Promise<void> {
+    const submissionQuery = await database.query<{ code: string }>(
+      'SELECT code FROM code_submissions WHERE id = $1 AND user_id = $2',
+      [submissionId, userId]
+    );
+    if (submissionQuery.rows.length === 0) {
+      throw new NotFoundError('Submission not found');
+    }
+
+    const validated = validateReplay(initialCode, events, submissionQuery.rows[0].code);
+    const result = await database.query(
+      `INSERT INTO submission_replays (submission_id, initial_code, events, duration_ms)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (submission_id) DO NOTHING`,
+      [submissionId, initialCode, JSON.stringify(validated), validated[validated.length - 1].t]
+    );
+    if (result.rowCount === 0) {
+      throw new ConflictError('Submission already has a replay');
+    }
+
+    logger.info('Submission replay saved', { submissionId, events: validated.length });
+  }
+
+  /**
+   * Recording of a submission, for its owner or (with `anyUser`) instructors
+   */
+  async getReplay(submissionId: string, userId: string, anyUser: boolean): Promise<SubmissionReplay> {
+    const result = await database.query(
+      `SELECT r.submission_id, r.initial_code, r.events, r.duration_ms
+       FROM submission_replays r
+       JOIN code_submissions s ON s.id = r.submission_id
+       WHERE r.submission_id = $1 AND ($3 OR s.user_id = $2)`,
+      [submissionId, userId, anyUser]
+    );
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Replay not found');
+    }
+
+    const row = result.rows[0];
+    return {
+      submissionId: row.submission_id,
+      initialCode: row.initial_code,
+      events: row.events,
+      durationMs: row.duration_ms,
+    };
+  }
+}
+
+export const submissionHistoryService = new SubmissionHistoryService();
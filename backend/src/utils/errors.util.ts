@@ -47,6 +47,12 @@ export class ConflictError extends AppError {
   }
 }
 
+export class TooManyRequestsError extends AppError {
+  constructor(message: string = 'Too many requests', details?: any) {
+    super(message, 429, 'TOO_MANY_REQUESTS', details);
+  }
+}
+
 export class InternalServerError extends AppError {
   constructor(message: string = 'Internal server error') {
     super(message, 500, 'INTERNAL_SERVER_ERROR');
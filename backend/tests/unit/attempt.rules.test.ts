@@ -0,0 +1,81 @@
+import {
+  answerError,
+  attemptOrder,
+  inOrder,
+  isPastDeadline,
+  shuffle,
+  startAttemptError,
+} from '../../src/services/quiz/attempt.rules';
+
+describe('Quiz attempt rules', () => {
+  // A fixed sequence instead of Math.random, so orders are predictable
+  const sequence = (...values: number[]) => {
+    let index = 0;
+    return () => values[index++ % values.length];
+  };
+
+  const questions = [
+    { id: 'q1', question_type: 'multiple_choice', options: [{ id: 'a' }, { id: 'b' }, { id: 'c' }] },
+    { id: 'q2', question_type: 'true_false', options: [{ id: 't' }, { id: 'f' }] },
+    { id: 'q3', question_type: 'essay', options: [] },
+  ];
+
+  it('should limit new attempts by retakes and the attempt cap', () => {
+    const quiz = { time_limit_minutes: null, max_attempts: 2, allow_retakes: true };
+
+    expect(startAttemptError(quiz, 0)).toBeNull();
+    expect(startAttemptError(quiz, 1)).toBeNull();
+    expect(startAttemptError(quiz, 2)).toBe('Maximum attempts reached');
+    expect(startAttemptError({ ...quiz, max_attempts: null }, 10)).toBeNull();
+    expect(startAttemptError({ ...quiz, allow_retakes: false }, 0)).toBeNull();
+    expect(startAttemptError({ ...quiz, allow_retakes: false }, 1)).toBe('Retakes are not allowed for this quiz');
+  });
+
+  it('should reject answers once the attempt is closed or out of time', () => {
+    const expiresAt = new Date('2026-01-01T10:00:00Z');
+    const attempt = { status: 'in_progress', expires_at: expiresAt };
+
+    expect(answerError(attempt, new Date('2026-01-01T09:59:00Z'))).toBeNull();
+    // A few seconds late is still in time
+    expect(answerError(attempt, new Date('2026-01-01T10:00:03Z'))).toBeNull();
+    expect(answerError(attempt, new Date('2026-01-01T10:01:00Z'))).toMatch(/time limit/);
+    expect(answerError({ ...attempt, status: 'completed' }, new Date('2026-01-01T09:00:00Z'))).toMatch(/completed/);
+    expect(answerError({ status: 'in_progress', expires_at: null }, new Date('2030-01-01'))).toBeNull();
+
+    expect(isPastDeadline(attempt, new Date('2026-01-01T10:00:01Z'))).toBe(true);
+    expect(isPastDeadline({ status: 'in_progress', expires_at: null })).toBe(false);
+  });
+
+  it('should shuffle without losing or repeating items', () => {
+    const items = [1, 2, 3, 4, 5];
+    const shuffled = shuffle(items, sequence(0, 0.5, 0.9, 0.1));
+
+    expect([...shuffled].sort()).toEqual(items);
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect(shuffle(items, sequence(0.99))).toEqual(items);
+  });
+
+  it('should keep the quiz order when questions are not shuffled', () => {
+    expect(attemptOrder(questions, false, sequence(0))).toEqual({
+      questionOrder: ['q1', 'q2', 'q3'],
+      optionOrder: { q1: ['a', 'b', 'c'], q2: ['t', 'f'] },
+    });
+  });
+
+  it('should shuffle questions and choice options, but not true/false', () => {
+    const order = attemptOrder(questions, true, sequence(0));
+
+    expect(order.questionOrder).toEqual(['q2', 'q3', 'q1']);
+    expect(order.optionOrder.q1).toEqual(['b', 'c', 'a']);
+    expect(order.optionOrder.q2).toEqual(['t', 'f']);
+    expect(order.optionOrder.q3).toBeUndefined();
+  });
+
+  it('should put items in a stored order', () => {
+    const items = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+
+    expect(inOrder(items, ['c', 'a', 'b']).map((item) => item.id)).toEqual(['c', 'a', 'b']);
+    expect(inOrder(items, ['b', 'gone']).map((item) => item.id)).toEqual(['b', 'a', 'c']);
+    expect(inOrder(items, null)).toBe(items);
+  });
+});
@@ -0,0 +1,87 @@
+import { database } from '../../src/config/database.config';
+import { codeDraftService } from '../../src/services/codeDraft.service';
+import { BadRequestError, ConflictError } from '../../src/utils/errors.util';
+
+jest.mock('../../src/config/database.config', () => ({
+  database: { query: jest.fn() },
+}));
+
+const query = database.query as jest.Mock;
+
+describe('CodeDraftService', () => {
+  const updatedAt = new Date('2026-01-05T10:00:00Z');
+  const row = (code: string, version: number) => ({ exercise_id: 'ex-1', code, version, updated_at: updatedAt });
+  const rows = (...results: any[]) => ({ rows: results, rowCount: results.length });
+
+  afterEach(() => {
+    query.mockReset();
+  });
+
+  it('should insert the first draft when the editor started without one', async () => {
+    query
+      .mockResolvedValueOnce(rows({ '?column?': 1 }))
+      .mockResolvedValueOnce(rows(row('print(1)', 1)));
+
+    const draft = await codeDraftService.saveDraft('ex-1', 'user-1', 'print(1)', null);
+
+    expect(draft).toEqual({ exerciseId: 'ex-1', code: 'print(1)', version: 1, updatedAt: updatedAt.toISOString() });
+    expect(query.mock.calls[1][0]).toMatch(/INSERT INTO code_drafts[\s\S]*ON CONFLICT \(user_id, exercise_id\) DO NOTHING/);
+    expect(query.mock.calls[1][1]).toEqual(['user-1', 'ex-1', 'print(1)']);
+  });
+
+  it('should replace the draft of the version the editor loaded', async () => {
+    query
+      .mockResolvedValueOnce(rows({ '?column?': 1 }))
+      .mockResolvedValueOnce(rows(row('print(2)', 4)));
+
+    const draft = await codeDraftService.saveDraft('ex-1', 'user-1', 'print(2)', 3);
+
+    expect(draft.version).toBe(4);
+    expect(query.mock.calls[1][0]).toMatch(/UPDATE code_drafts[\s\S]*AND version = \$4/);
+    expect(query.mock.calls[1][1]).toEqual(['user-1', 'ex-1', 'print(2)', 3]);
+  });
+
+  it('should reject a stale save with the current draft', async () => {
+    query
+      .mockResolvedValueOnce(rows({ '?column?': 1 }))
+      .mockResolvedValueOnce(rows())
+      .mockResolvedValueOnce(rows(row('print("other tab")', 5)));
+
+    const error = await codeDraftService.saveDraft('ex-1', 'user-1', 'print(2)', 3).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.details).toEqual({
+      draft: { exerciseId: 'ex-1', code: 'print("other tab")', version: 5, updatedAt: updatedAt.toISOString() },
+    });
+  });
+
+  it('should reject a first save when another tab already created the draft', async () => {
+    query
+      .mockResolvedValueOnce(rows({ '?column?': 1 }))
+      .mockResolvedValueOnce(rows())
+      .mockResolvedValueOnce(rows(row('print(1)', 1)));
+
+    const error = await codeDraftService.saveDraft('ex-1', 'user-1', 'print(2)', null).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.details.draft.version).toBe(1);
+  });
+
+  it('should validate the code and base version', async () => {
+    await expect(codeDraftService.saveDraft('ex-1', 'user-1', 42, null)).rejects.toThrow(BadRequestError);
+    await expect(codeDraftService.saveDraft('ex-1', 'user-1', 'x', '3')).rejects.toThrow(BadRequestError);
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('should drop the draft on reset, so the next save starts over', async () => {
+    query.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+    await codeDraftService.deleteDraft('ex-1', 'user-1');
+    expect(query.mock.calls[0]).toEqual([expect.stringMatching(/DELETE FROM code_drafts/), ['ex-1', 'user-1']]);
+
+    query
+      .mockResolvedValueOnce(rows({ '?column?': 1 }))
+      .mockResolvedValueOnce(rows(row('print(0)', 1)));
+    const draft = await codeDraftService.saveDraft('ex-1', 'user-1', 'print(0)', null);
+    expect(draft.version).toBe(1);
+  });
+});
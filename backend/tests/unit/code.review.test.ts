@@ -0,0 +1,44 @@
+import { buildCodeReviewMessages, parseCodeReview } from '../../src/services/ai/code.review';
+
+describe('AI code review', () => {
+  const input = {
+    exerciseTitle: 'Sum',
+    instructions: 'Return the sum of a and b',
+    language: 'javascript',
+    code: 'function sum(a, b) {\n  return a - b;\n}',
+    testResults: [
+      { testCaseId: '1', testName: 'adds', passed: false, actual: -1, expected: 5, isHidden: false, points: 1 },
+      { testCaseId: '2', testName: 'Hidden test 1', passed: false, actual: null, expected: null, isHidden: true, points: 1 },
+      { testCaseId: '3', testName: 'zero', passed: true, actual: 0, expected: 0, isHidden: false, points: 1 },
+    ],
+  };
+
+  it('should describe the failing tests and number the code lines', () => {
+    const [, user] = buildCodeReviewMessages(input);
+
+    expect(user.content).toContain('  2 |   return a - b;');
+    expect(user.content).toContain('Failing tests (2 of 3)');
+    expect(user.content).toContain('Expected: 5');
+    expect(user.content).toContain('Hidden test 1: failed (hidden test, details not available)');
+    expect(user.content).not.toContain('zero');
+  });
+
+  it('should parse a structured review from the reply', () => {
+    const review = parseCodeReview(
+      'Here you go:\n```json\n{"bugLocation": {"line": 2, "description": "Subtracts"}, "misconception": "Operators", "nudge": "Which operator adds?"}\n```',
+      'test-model'
+    );
+
+    expect(review).toMatchObject({
+      bugLocation: { line: 2, description: 'Subtracts' },
+      misconception: 'Operators',
+      nudge: 'Which operator adds?',
+      model: 'test-model',
+    });
+  });
+
+  it('should reject replies without usable feedback', () => {
+    expect(parseCodeReview('I cannot help with that.', 'test-model')).toBeNull();
+    expect(parseCodeReview('{"bugLocation": {"line": "x"}}', 'test-model')).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { compareOutput, judgeOutput, validateComparator } from '../../src/services/execution/comparators';
+
+describe('Output comparators', () => {
+  it('should compare exactly by default', () => {
+    expect(compareOutput([1, 2], [1, 2]).passed).toBe(true);
+    expect(compareOutput('3', 3).passed).toBe(true);
+    expect(compareOutput(0.30000000000000004, 0.3)).toEqual({
+      passed: false,
+      message: 'Expected: 0.3, Got: 0.30000000000000004',
+    });
+  });
+
+  it('should accept floats within the tolerance', () => {
+    expect(compareOutput(0.1 + 0.2, 0.3, 'float').passed).toBe(true);
+    expect(compareOutput([3.14159, 2.71828], [3.1416, 2.7183], 'float', { tolerance: 1e-3 }).passed).toBe(true);
+    expect(compareOutput('area: 3.14159', 'area: 3.1416', 'float', { tolerance: 1e-3 }).passed).toBe(true);
+    expect(compareOutput('3.2', 3.1, 'float', { tolerance: 1e-3 }).passed).toBe(false);
+  });
+
+  it('should ignore order for unordered lists and output lines', () => {
+    expect(compareOutput([3, 1, 2], [1, 2, 3], 'unordered').passed).toBe(true);
+    expect(compareOutput([[2, 1], [1, 2]], [[1, 2], [2, 1]], 'unordered').passed).toBe(true);
+    expect(compareOutput([1, 1, 2], [1, 2, 2], 'unordered').passed).toBe(false);
+    expect(compareOutput('b\na\n', 'a\nb', 'unordered').passed).toBe(true);
+    expect(compareOutput('[2, 1]', [1, 2], 'unordered').passed).toBe(true);
+  });
+
+  it('should collapse whitespace when asked to', () => {
+    expect(compareOutput('hello   world\n', 'hello world', 'whitespace').passed).toBe(true);
+    expect(compareOutput('helloworld', 'hello world', 'whitespace').passed).toBe(false);
+  });
+
+  it('should match a regex pattern', () => {
+    expect(compareOutput('Order #4812 confirmed', null, 'regex', { pattern: '^Order #\\d+ confirmed$' }).passed)
+      .toBe(true);
+    expect(compareOutput('HELLO', '^hello$', 'regex', { flags: 'i' }).passed).toBe(true);
+    expect(compareOutput('goodbye', '^hello$', 'regex').passed).toBe(false);
+  });
+
+  it('should validate comparator settings', () => {
+    expect(validateComparator(undefined, undefined)).toBeNull();
+    expect(validateComparator('float', { tolerance: 0.01 })).toBeNull();
+    expect(validateComparator('float', { tolerance: -1 })).toMatch(/non-negative/);
+    expect(validateComparator('regex', { pattern: '(' })).toMatch(/Invalid regex/);
+    expect(validateComparator('custom', {})).toMatch(/checker/);
+    expect(validateComparator('fuzzy' as any, {})).toMatch(/must be one of/);
+  });
+
+  it('should run custom checkers in the sandbox', async () => {
+    const testCase = {
+      comparator: 'custom' as const,
+      comparator_options: {
+        checker: `function (actual, expected, input) {
+          const [n] = input.args;
+          if (!Array.isArray(actual) || actual.length !== 2) return { passed: false, message: 'Return two factors' };
+          return actual[0] * actual[1] === n;
+        }`,
+      },
+      input_data: { args: [12] },
+    };
+
+    expect(await judgeOutput(testCase, [3, 4], null)).toEqual({ passed: true, message: undefined });
+    expect((await judgeOutput(testCase, [2, 6], null)).passed).toBe(true);
+    expect(await judgeOutput(testCase, [5], null)).toEqual({ passed: false, message: 'Return two factors' });
+    expect((await judgeOutput(testCase, [2, 5], null)).message).toContain('Expected');
+
+    const broken = { ...testCase, comparator_options: { checker: 'function () { while (true) {} }' } };
+    expect((await judgeOutput(broken, 1, 1)).passed).toBe(false);
+  }, 20000);
+});
@@ -0,0 +1,83 @@
+import {
+  buildCppHarness,
+  findCppEntryPoint,
+  hasCppMain,
+  parseCppHarnessOutput,
+} from '../../src/services/execution/cpp.harness';
+import { LocalProcessBackend } from '../../src/services/execution/local.backend';
+
+describe('C++ harness', () => {
+  const backend = new LocalProcessBackend({
+    pythonCommand: 'python3',
+    javacCommand: 'javac',
+    javaCommand: 'java',
+    cxxCommand: 'g++',
+  });
+
+  it('should find the last function defined at namespace scope', () => {
+    const code = `#include <vector>
+// int commented(int x) { return x; }
+static int square(int x) { return x * x; }
+
+struct Counter {
+  int next() { return ++value; }
+  int value = 0;
+};
+
+std::vector<int> squares(const std::vector<int>& xs) {
+  std::vector<int> out;
+  for (int x : xs) {
+    if (x > 0) out.push_back(square(x));
+  }
+  return out;
+}`;
+
+    expect(findCppEntryPoint(code)).toBe('squares');
+    expect(findCppEntryPoint('int x = 1;')).toBeNull();
+  });
+
+  it('should detect complete programs', () => {
+    expect(hasCppMain('int main() { return 0; }')).toBe(true);
+    expect(hasCppMain('// int main() is generated\nint add(int a, int b) { return a + b; }')).toBe(false);
+  });
+
+  it('should read the result from the last line of output', () => {
+    expect(parseCppHarnessOutput('debug\n{"result":[1,2]}\n')).toEqual({ result: [1, 2] });
+    expect(parseCppHarnessOutput('no result')).toBeNull();
+  });
+
+  it('should call the learner function with decoded arguments', async () => {
+    const code = `#include <string>
+#include <vector>
+#include <iostream>
+using namespace std;
+
+vector<string> label(vector<int>& values, const string& prefix, double scale) {
+  vector<string> out;
+  for (int v : values) out.push_back(prefix + to_string(v));
+  out.push_back(to_string(scale > 0.1));
+  cout << "debug output";
+  return out;
+}`;
+
+    const output = await backend.execute({
+      language: 'cpp',
+      code: buildCppHarness(code, 'label'),
+      stdin: JSON.stringify({ args: [[1, 2], 'n"', 0.25] }),
+    });
+
+    expect(output.status).toBe('success');
+    expect(parseCppHarnessOutput(output.stdout)).toEqual({ result: ['n"1', 'n"2', '1'] });
+  }, 60000);
+
+  it('should report compile errors against the learner source', async () => {
+    const output = await backend.execute({
+      language: 'cpp',
+      code: buildCppHarness('int add(int a, int b) {\n  return a + c;\n}', 'add'),
+      stdin: JSON.stringify({ args: [1, 2] }),
+    });
+
+    expect(output.status).toBe('compile_error');
+    expect(output.compileOutput).toContain('solution.cpp:2');
+  }, 60000);
+});
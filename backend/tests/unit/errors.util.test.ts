@@ -5,6 +5,7 @@ import {
   ForbiddenError,
   NotFoundError,
   ConflictError,
+  TooManyRequestsError,
   InternalServerError,
 } from '../../src/utils/errors.util';
 
@@ -96,6 +97,15 @@ describe('Error Utilities', () => {
     });
   });
 
+  describe('TooManyRequestsError', () => {
+    it('should create a too many requests error with status 429', () => {
+      const error = new TooManyRequestsError();
+      expect(error.message).toBe('Too many requests');
+      expect(error.statusCode).toBe(429);
+      expect(error.code).toBe('TOO_MANY_REQUESTS');
+    });
+  });
+
   describe('InternalServerError', () => {
     it('should create an internal server error with status 500', () => {
       const error = new InternalServerError();
@@ -0,0 +1,114 @@
+import {
+  buildTranslationPrompt,
+  ExerciseTranslation,
+  TranslationSource,
+  translatedTestCases,
+  translationSupportError,
+  validateTranslation,
+} from '../../src/services/execution/exercise.translation';
+import { TestCase } from '../../src/services/codeExecution.service';
+
+describe('Exercise translation', () => {
+  const source: TranslationSource = {
+    title: 'Sum an Array',
+    description: 'Add up numbers',
+    instructions: 'Return the sum of the values',
+    language: 'javascript',
+    exercise_type: 'code',
+    starter_code: 'function sum(values) {\n}',
+    solution_code: 'function sum(values) {\n  return values.reduce((a, b) => a + b, 0);\n}',
+    function_signature: null,
+    project_files: null,
+  };
+
+  const testCases: TestCase[] = [
+    {
+      id: 'tc-1',
+      test_name: 'Two values',
+      test_type: 'public',
+      input_data: { args: [[1, 2]] },
+      expected_output: { result: 3 },
+      is_hidden: false,
+      points: 1,
+    },
+    {
+      id: 'tc-2',
+      test_name: 'Large input',
+      test_type: 'performance',
+      input_data: { generate: { args: [{ type: 'array', items: { type: 'int' }, length: 100000 }] } },
+      expected_output: null,
+      is_hidden: true,
+      points: 2,
+      timeout_ms: 2000,
+    },
+    {
+      id: 'tc-3',
+      test_name: 'Empty',
+      test_type: 'hidden',
+      input_data: { args: [[]] },
+      expected_output: { result: 0 },
+      is_hidden: true,
+      points: 1,
+      comparator: 'exact',
+    },
+  ];
+
+  const translation: ExerciseTranslation = {
+    title: 'Sum an Array',
+    description: 'Add up numbers',
+    instructions: 'Return the sum of the values',
+    starterCode: 'def sum_values(values: list[int]) -> int:\n    pass',
+    solutionCode: 'def sum_values(values: list[int]) -> int:\n    return sum(values)',
+    functionSignature: { name: 'sum_values', parameters: [{ name: 'values', type: 'int[]' }], returnType: 'int' },
+    testCases: [
+      { input_data: { args: [[1, 2]] }, expected_output: { result: 3 } },
+      { input_data: { args: [[]] }, expected_output: { result: 0 } },
+    ],
+  };
+
+  it('should only translate code exercises into other supported languages', () => {
+    expect(translationSupportError(source, 'python')).toBeNull();
+    expect(translationSupportError(source, 'java')).toBeNull();
+    expect(translationSupportError(source, 'javascript')).toMatch(/already written/);
+    expect(translationSupportError(source, 'cpp')).toMatch(/can be translated into/);
+    expect(translationSupportError({ ...source, language: 'sql' }, 'python')).toMatch(/SQL/);
+    expect(translationSupportError({ ...source, project_files: [] }, 'python')).toMatch(/Project/);
+    expect(translationSupportError({ ...source, exercise_type: 'parsons' }, 'python')).toMatch(/code and debugging/);
+    expect(translationSupportError({ ...source, exercise_type: 'debugging' }, 'python')).toBeNull();
+    expect(translationSupportError({ ...source, solution_code: '' }, 'python')).toMatch(/solution code/);
+  });
+
+  it('should leave generated inputs out of the prompt', () => {
+    const prompt = buildTranslationPrompt(source, testCases, 'python');
+
+    expect(prompt).toContain('"name":"Two values"');
+    expect(prompt).toContain('"index":1,"name":"Empty"');
+    expect(prompt).not.toContain('Large input');
+    expect(prompt).toContain('functionSignature');
+    expect(buildTranslationPrompt({ ...source, exercise_type: 'debugging' }, [], 'java'))
+      .toMatch(/Keep the same bugs/);
+  });
+
+  it('should validate the translation', () => {
+    expect(validateTranslation(translation, 2, 'python')).toBeNull();
+    expect(validateTranslation([], 2, 'python')).toMatch(/not a JSON object/);
+    expect(validateTranslation({ ...translation, solutionCode: ' ' }, 2, 'python')).toMatch(/no solutionCode/);
+    expect(validateTranslation({ ...translation, functionSignature: null }, 2, 'java')).toMatch(/function signature/);
+    expect(validateTranslation(translation, 2, 'javascript')).toMatch(/no function signature/);
+    expect(validateTranslation({ ...translation, functionSignature: null }, 2, 'javascript')).toBeNull();
+    expect(validateTranslation(translation, 3, 'python')).toMatch(/Expected 3/);
+    expect(validateTranslation({ ...translation, testCases: [translation.testCases[0], { input_data: null }] }, 2, 'python'))
+      .toMatch(/Test case 2/);
+  });
+
+  it('should keep the settings of the source test cases', () => {
+    const translated = translatedTestCases(testCases, {
+      ...translation,
+      testCases: [translation.testCases[0], { input_data: { args: [[]] }, expected_output: { result: 0.0 } }],
+    });
+
+    expect(translated.map((tc) => tc.test_name)).toEqual(['Two values', 'Large input', 'Empty']);
+    expect(translated[1]).toEqual(testCases[1]);
+    expect(translated[2]).toMatchObject({ is_hidden: true, comparator: 'exact', input_data: { args: [[]] } });
+  });
+});
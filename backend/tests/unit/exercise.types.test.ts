@@ -0,0 +1,111 @@
+import {
+  checkParsonsCode,
+  fillBlanks,
+  FillInBlankConfig,
+  gradeBlanks,
+  gradeParsonsOrder,
+  isFixed,
+  learnerTypeConfig,
+  ParsonsConfig,
+  prepareTypeConfig,
+  runnableCode,
+  typeSolutionCode,
+  typeStarterCode,
+  unpackBlanks,
+  validateTypeConfig,
+} from '../../src/services/execution/exercise.types';
+import { TestResult } from '../../src/services/codeExecution.service';
+
+describe('Exercise types', () => {
+  const parsons: ParsonsConfig = {
+    lines: [
+      { id: 'a', code: 'def total(prices):', indent: 0 },
+      { id: 'b', code: 'result = 0', indent: 1 },
+      { id: 'c', code: 'for price in prices:', indent: 1 },
+      { id: 'd', code: 'result += price', indent: 2 },
+      { id: 'e', code: 'return result', indent: 1 },
+      { id: 'f', code: 'return price', indent: 1, distractor: true },
+    ],
+  };
+
+  const blanks: FillInBlankConfig = {
+    template: 'for (let i = 0; i < {{limit}}; {{step}}) {\n  sum += i;\n}',
+    blanks: [
+      { id: 'limit', answers: ['n', 'n - 0'] },
+      { id: 'step', answers: ['i++', 'i += 1'], points: 2 },
+    ],
+  };
+
+  it('should validate type settings', () => {
+    expect(validateTypeConfig('code', null)).toBeNull();
+    expect(validateTypeConfig('quiz', null)).toMatch(/exerciseType must be one of/);
+    expect(validateTypeConfig('debugging', { minPassingTests: 2 })).toBeNull();
+    expect(validateTypeConfig('debugging', { minPassingTests: 0 })).toMatch(/positive/);
+    expect(validateTypeConfig('parsons', parsons)).toBeNull();
+    expect(validateTypeConfig('parsons', { lines: [{ code: '  x = 1', indent: 0 }, { code: 'y', indent: 0 }] }))
+      .toMatch(/with indent/);
+    expect(validateTypeConfig('fill_in_blank', blanks)).toBeNull();
+    expect(validateTypeConfig('fill_in_blank', { ...blanks, template: 'i < {{limit}}' })).toMatch(/\{\{step\}\}/);
+    expect(validateTypeConfig('fill_in_blank', { ...blanks, template: `${blanks.template} {{extra}}` }))
+      .toMatch(/no blank named extra/);
+  });
+
+  it('should shuffle Parsons lines for learners without giving away the solution', () => {
+    const prepared = prepareTypeConfig('parsons', {
+      lines: parsons.lines.map(({ code, indent }) => ({ code, indent })) as ParsonsConfig['lines'],
+    }) as ParsonsConfig;
+    expect(prepared.lines.every((line) => /^[0-9a-f]{8}$/.test(line.id))).toBe(true);
+
+    const learner = learnerTypeConfig('parsons', parsons)!;
+    expect(learner.lines).toHaveLength(6);
+    expect(learner.lines.every((line: any) => Object.keys(line).join() === 'id,code')).toBe(true);
+    expect(learner.lines.map((line: any) => line.id)).not.toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+    expect(typeStarterCode('parsons', parsons)!.split('\n')).toHaveLength(6);
+  });
+
+  it('should only accept Parsons code built from the given lines', () => {
+    const solution = typeSolutionCode('parsons', parsons)!;
+    expect(solution).toBe(
+      'def total(prices):\n    result = 0\n    for price in prices:\n        result += price\n    return result'
+    );
+    expect(checkParsonsCode(parsons, solution)).toBeNull();
+    expect(checkParsonsCode(parsons, `${solution}\n    return result`)).toMatch(/not one of the given lines/);
+    expect(checkParsonsCode(parsons, 'def total(prices):\n  result = 0')).toMatch(/whole levels/);
+    expect(checkParsonsCode(parsons, 'def total(prices):\n\tresult = 0')).toMatch(/whole levels/);
+
+    expect(gradeParsonsOrder(parsons, `${solution}\n`).passed).toBe(true);
+    expect(gradeParsonsOrder(parsons, solution.replace('        result += price', '    result += price')).passed)
+      .toBe(false);
+  });
+
+  it('should grade each blank and hide the answers from learners', () => {
+    expect(learnerTypeConfig('fill_in_blank', blanks)).toEqual({
+      template: blanks.template,
+      blanks: [{ id: 'limit', points: 1 }, { id: 'step', points: 2 }],
+    });
+
+    const code = typeSolutionCode('fill_in_blank', { ...blanks, blanks: [blanks.blanks[1], blanks.blanks[0]] })!;
+    expect(unpackBlanks(blanks, code)).toEqual({ limit: 'n', step: 'i++' });
+    expect(runnableCode('fill_in_blank', blanks, code)).toBe('for (let i = 0; i < n; i++) {\n  sum += i;\n}');
+
+    const results = gradeBlanks(blanks, { limit: ' n ', step: 'i--' });
+    expect(results.map((r) => [r.testName, r.passed, r.points])).toEqual([
+      ['Blank limit', true, 1],
+      ['Blank step', false, 2],
+    ]);
+    expect(results[1].expected).toBeNull();
+
+    expect(unpackBlanks(blanks, typeStarterCode('fill_in_blank', blanks)!)).toEqual({ limit: '', step: '' });
+    expect(fillBlanks('x = {{a}}', {})).toBe('x = {{a}}');
+  });
+
+  it('should count a debugging exercise as fixed once enough tests pass', () => {
+    const results = (passed: boolean[]) => passed.map((p, i) => ({ testCaseId: `tc-${i}`, passed: p } as TestResult));
+
+    expect(isFixed({ minPassingTests: 2 }, results([true, true, false]))).toBe(true);
+    expect(isFixed({ minPassingTests: 2 }, results([true, false, false]))).toBe(false);
+    // Hidden tests left out of a practice submission lower the bar
+    expect(isFixed({ minPassingTests: 3 }, results([true, true]))).toBe(true);
+    expect(isFixed({ minPassingTests: 1 }, [])).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+import { buildValidationReport, ValidationRun } from '../../src/services/execution/exercise.validation';
+import { RANDOMIZED_TEST_ID } from '../../src/services/execution/reference.oracle';
+import { TestResult } from '../../src/services/codeExecution.service';
+
+const result = (overrides: Partial<TestResult>): TestResult => ({
+  testCaseId: 'tc',
+  testName: 'test',
+  passed: true,
+  actual: 1,
+  expected: 1,
+  isHidden: false,
+  points: 1,
+  ...overrides,
+});
+
+const run = (testResults: TestResult[], overrides: Partial<ValidationRun> = {}): ValidationRun => ({
+  status: testResults.every((r) => r.passed) ? 'passed' : 'failed',
+  passedTests: testResults.filter((r) => r.passed).length,
+  totalTests: testResults.length,
+  testResults,
+  ...overrides,
+});
+
+describe('Exercise validation', () => {
+  it('should accept a passing solution with failing starter code', () => {
+    const report = buildValidationReport({
+      testCaseCount: 2,
+      hasInputGenerator: false,
+      solution: run([result({}), result({})]),
+      starterCode: run([result({}), result({ passed: false })]),
+    });
+
+    expect(report.valid).toBe(true);
+    expect(report.problems).toEqual([]);
+  });
+
+  it('should accept an exercise without starter code', () => {
+    const report = buildValidationReport({
+      testCaseCount: 1,
+      hasInputGenerator: false,
+      solution: run([result({})]),
+      starterCode: null,
+    });
+
+    expect(report.valid).toBe(true);
+  });
+
+  it('should name each test the solution fails', () => {
+    const report = buildValidationReport({
+      testCaseCount: 2,
+      hasInputGenerator: false,
+      solution: run([
+        result({ testName: 'adds numbers' }),
+        result({ testName: 'handles zero', passed: false, error: 'Expected: 0, Got: 1' }),
+      ]),
+      starterCode: null,
+    });
+
+    expect(report.valid).toBe(false);
+    expect(report.problems).toEqual(['Reference solution fails "handles zero": Expected: 0, Got: 1']);
+  });
+
+  it('should reject starter code that already passes', () => {
+    const report = buildValidationReport({
+      testCaseCount: 1,
+      hasInputGenerator: false,
+      solution: run([result({})]),
+      starterCode: run([result({})]),
+    });
+
+    expect(report.problems).toEqual(['Starter code already passes every test case']);
+  });
+
+  it('should require debugging starter code to pass fewer tests than a fix needs', () => {
+    const solution = run([result({}), result({}), result({})]);
+    const fixable = buildValidationReport({
+      testCaseCount: 3,
+      hasInputGenerator: false,
+      minPassingTests: 2,
+      solution,
+      starterCode: run([result({}), result({ passed: false }), result({ passed: false })]),
+    });
+    expect(fixable.valid).toBe(true);
+
+    const alreadyFixed = buildValidationReport({
+      testCaseCount: 3,
+      hasInputGenerator: false,
+      minPassingTests: 2,
+      solution,
+      starterCode: run([result({}), result({}), result({ passed: false })]),
+    });
+    expect(alreadyFixed.problems).toEqual(['Starter code already passes 2 tests, enough to count as fixed']);
+
+    const unreachable = buildValidationReport({
+      testCaseCount: 3,
+      hasInputGenerator: false,
+      minPassingTests: 4,
+      solution,
+      starterCode: null,
+    });
+    expect(unreachable.problems).toEqual(['A fix needs 4 passing tests but the exercise only has 3']);
+  });
+
+  it('should report compile errors and missing pieces', () => {
+    const report = buildValidationReport({
+      testCaseCount: 0,
+      hasInputGenerator: false,
+      solution: null,
+      starterCode: null,
+    });
+    expect(report.problems).toEqual(['Exercise has no test cases', 'Exercise has no reference solution']);
+
+    const compileFailure = buildValidationReport({
+      testCaseCount: 1,
+      hasInputGenerator: false,
+      solution: run([result({ passed: false, error: 'Compilation failed' })], {
+        status: 'error',
+        errorMessage: 'Compilation failed',
+        compilerOutput: 'main.cpp:1: error',
+      }),
+      starterCode: null,
+    });
+    expect(compileFailure.problems[0]).toBe('Reference solution does not compile');
+  });
+
+  it('should require the solution to handle randomized inputs', () => {
+    const withoutRandomized = buildValidationReport({
+      testCaseCount: 0,
+      hasInputGenerator: true,
+      solution: run([]),
+      starterCode: null,
+    });
+    expect(withoutRandomized.problems).toEqual(['Reference solution fails on every randomized input']);
+
+    const withRandomized = buildValidationReport({
+      testCaseCount: 0,
+      hasInputGenerator: true,
+      solution: run([result({ testCaseId: RANDOMIZED_TEST_ID })]),
+      starterCode: run([result({ testCaseId: RANDOMIZED_TEST_ID, passed: false })]),
+    });
+    expect(withRandomized.valid).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  buildJavaHarness,
+  buildPythonHarness,
+  functionStub,
+  parseHarnessOutput,
+  prepareProgram,
+  validateFunctionSignature,
+} from '../../src/services/execution/function.harness';
+import { LocalProcessBackend } from '../../src/services/execution/local.backend';
+
+describe('Function signature harness', () => {
+  const backend = new LocalProcessBackend({
+    pythonCommand: 'python3',
+    javacCommand: 'javac',
+    javaCommand: 'java',
+    cxxCommand: 'g++',
+  });
+
+  const signature = {
+    name: 'label',
+    parameters: [
+      { name: 'values', type: 'int[]' },
+      { name: 'prefix', type: 'string' },
+      { name: 'scale', type: 'double' },
+    ],
+    returnType: 'string[]',
+  };
+
+  it('should validate signatures', () => {
+    expect(validateFunctionSignature(signature)).toBeNull();
+    expect(validateFunctionSignature({ ...signature, returnType: 'void' })).toBeNull();
+    expect(validateFunctionSignature({ ...signature, name: '2fast' })).toMatch(/function name/);
+    expect(validateFunctionSignature({ ...signature, returnType: 'list' })).toMatch(/returnType/);
+    expect(validateFunctionSignature({
+      ...signature,
+      parameters: [{ name: 'a', type: 'int' }, { name: 'a', type: 'long' }],
+    })).toMatch(/Duplicate/);
+  });
+
+  it('should generate starter code for the declared function', () => {
+    expect(functionStub('python', signature)).toContain(
+      'def label(values: list[int], prefix: str, scale: float) -> list[str]:'
+    );
+    expect(functionStub('java', signature)).toContain('public String[] label(int[] values, String prefix, double scale) {');
+  });
+
+  it('should call the learner Solution class from the Java harness', () => {
+    const program = buildJavaHarness('import java.util.*;\n\npublic class Solution {\n}', signature);
+
+    expect(program.startsWith('import java.util.*;\n\nclass Solution {')).toBe(true);
+    expect(program).toContain('arg0 = (int[]) HarnessJson.convert(args.get(0), int[].class);');
+    expect(program).toContain('Object result = new Solution().label(arg0, arg1, arg2);');
+  });
+
+  it('should only wrap Java and Python code when a signature is declared', () => {
+    expect(prepareProgram('python', 'print(1)', null, null)).toEqual({ program: 'print(1)', harness: false });
+    expect(prepareProgram('python', 'def label(): pass', null, signature)).toMatchObject({ harness: true });
+    expect(prepareProgram('cpp', 'int x = 1;', null, null)).toEqual({
+      error: 'Could not find a function to test in the submitted code',
+    });
+  });
+
+  it('should call the Python function with decoded arguments', async () => {
+    const code = `def label(values, prefix, scale):
+    print("debug output")
+    return [prefix + str(v) for v in values] + [str(scale > 0.1)]`;
+
+    const output = await backend.execute({
+      language: 'python',
+      code: buildPythonHarness(code, signature),
+      stdin: JSON.stringify({ args: [[1, 2], 'n"', 0.25] }),
+    });
+
+    expect(output.status).toBe('success');
+    expect(output.stdout).toContain('debug output');
+    expect(parseHarnessOutput(output.stdout)).toEqual({ result: ['n"1', 'n"2', 'True'] });
+  });
+
+  it('should support methods of a Solution class and report bad input', async () => {
+    const code = `class Solution:
+    def total(self, values):
+        return sum(values) / 2`;
+    const totalSignature = { name: 'total', parameters: [{ name: 'values', type: 'int[]' }], returnType: 'double' };
+
+    const output = await backend.execute({
+      language: 'python',
+      code: buildPythonHarness(code, totalSignature),
+      stdin: JSON.stringify({ args: [[1, 2]] }),
+    });
+    expect(parseHarnessOutput(output.stdout)).toEqual({ result: 1.5 });
+
+    const invalid = await backend.execute({
+      language: 'python',
+      code: buildPythonHarness(code, totalSignature),
+      stdin: JSON.stringify({ args: ['1, 2'] }),
+    });
+    expect(invalid.status).toBe('runtime_error');
+    expect(invalid.stderr).toContain('Expected an array argument');
+  });
+});
@@ -0,0 +1,94 @@
+import { analyzeItems, correlation, ItemQuestion, kr20 } from '../../src/services/quiz/item.analysis';
+
+describe('Quiz item analysis', () => {
+  const choice = (id: string): ItemQuestion => ({
+    id,
+    question_text: `Question ${id}`,
+    question_type: 'multiple_choice',
+    points: 1,
+    options: [
+      { id: `${id}-right`, option_text: 'Right', is_correct: true },
+      { id: `${id}-wrong`, option_text: 'Wrong', is_correct: false },
+      { id: `${id}-never`, option_text: 'Never picked', is_correct: false },
+    ],
+  });
+
+  // One attempt per row of right (1) / wrong (0) answers to q1..q3
+  const attempts = (rows: number[][], times: Array<number | null> = []) =>
+    rows.map((row, index) => ({
+      id: `a${index}`,
+      responses: row.map((right, item) => ({
+        question_id: `q${item + 1}`,
+        points_earned: right,
+        selected_option_ids: [right ? `q${item + 1}-right` : `q${item + 1}-wrong`],
+        time_spent_seconds: times[index] ?? null,
+      })),
+    }));
+
+  it('should compute KR-20 from a right/wrong score matrix', () => {
+    const scores = [
+      [1, 1, 1],
+      [1, 1, 0],
+      [1, 0, 0],
+      [0, 0, 0],
+    ];
+
+    // k = 3, sum of pq = 0.1875 + 0.25 + 0.1875, total variance = 1.25
+    expect(kr20(scores)).toBeCloseTo(0.75, 5);
+    expect(kr20([[1, 0]])).toBeNull();
+    expect(kr20([[1, 1], [1, 1]])).toBeNull();
+  });
+
+  it('should correlate only what varies', () => {
+    expect(correlation([0, 1, 0, 1], [0.2, 0.8, 0.1, 0.9])).toBeGreaterThan(0.9);
+    expect(correlation([1, 1, 1], [0.2, 0.5, 0.9])).toBeNull();
+  });
+
+  it('should report difficulty, discrimination, option picks and time per question', () => {
+    const rows = [
+      [1, 1, 0],
+      [1, 1, 0],
+      [1, 1, 1],
+      [0, 0, 1],
+      [0, 0, 1],
+      [1, 1, 0],
+    ];
+    const analysis = analyzeItems(
+      [choice('q1'), choice('q2'), choice('q3')],
+      attempts(rows, [10, 20, 30, null, 40, null])
+    );
+
+    expect(analysis.attempts).toBe(6);
+    const [q1, q2, q3] = analysis.items;
+    expect(q1.difficulty_index).toBe(0.667);
+    expect(q1.mean_time_seconds).toBe(25);
+    expect(q1.median_time_seconds).toBe(25);
+    expect(q1.discrimination).toBeGreaterThan(0);
+    expect(q1.options.map((option) => option.selections)).toEqual([4, 2, 0]);
+    expect(q1.options[0].frequency).toBe(0.667);
+
+    // Strong attempts miss q3, weak ones get it right
+    expect(q3.discrimination).toBeLessThan(0);
+    expect(q3.flags).toEqual(['negative_discrimination', 'unused_distractor']);
+    expect(q2.flags).toEqual(['unused_distractor']);
+  });
+
+  it('should not flag questions with few responses', () => {
+    const analysis = analyzeItems([choice('q1'), choice('q2')], attempts([[1, 0], [0, 1]]));
+
+    expect(analysis.items.every((item) => item.flags.length === 0)).toBe(true);
+    expect(analysis.items[0].mean_time_seconds).toBeNull();
+  });
+
+  it('should judge drawn questions on the attempts that served them', () => {
+    const analysis = analyzeItems([choice('q1'), choice('q2'), choice('q3')], [
+      { id: 'a1', responses: attempts([[1, 1]])[0].responses },
+      { id: 'a2', responses: [attempts([[0, 0, 1]])[0].responses[0], attempts([[0, 0, 1]])[0].responses[2]] },
+    ]);
+
+    expect(analysis.items.map((item) => item.responses)).toEqual([2, 1, 1]);
+    expect(analysis.items[2].difficulty_index).toBe(1);
+    // Only q1 was served in every attempt: too few items for reliability
+    expect(analysis.kr20).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+import { javaScriptRunner } from '../../src/services/execution/javascript.runner';
+import { TestCase } from '../../src/services/codeExecution.service';
+
+describe('JavaScriptRunner', () => {
+  const testCases: TestCase[] = [
+    {
+      id: 'tc-1',
+      test_name: 'adds two numbers',
+      test_type: 'public',
+      input_data: { args: [1, 2] },
+      expected_output: { result: 3 },
+      is_hidden: false,
+      points: 1,
+    },
+    {
+      id: 'tc-2',
+      test_name: 'adds negatives',
+      test_type: 'hidden',
+      input_data: { args: [-1, -2] },
+      expected_output: { result: -3 },
+      is_hidden: true,
+      points: 1,
+    },
+  ];
+
+  it('should grade a correct solution', async () => {
+    const outcome = await javaScriptRunner.run('function add(a, b) { return a + b; }', testCases);
+
+    expect(outcome.error).toBeUndefined();
+    expect(outcome.testResults.map((r) => r.passed)).toEqual([true, true]);
+    expect(outcome.testResults[1].isHidden).toBe(true);
+  });
+
+  it('should report failing test cases', async () => {
+    const outcome = await javaScriptRunner.run('function add(a, b) { return a - b; }', testCases);
+
+    expect(outcome.testResults.map((r) => r.passed)).toEqual([false, false]);
+    expect(outcome.testResults[0].actual).toBe(-1);
+    expect(outcome.testResults[0].error).toContain('Expected: 3');
+  });
+
+  it('should fail every test on a syntax error', async () => {
+    const outcome = await javaScriptRunner.run('function add(a, b {', testCases);
+
+    expect(outcome.error).toBeDefined();
+    expect(outcome.testResults.every((r) => !r.passed)).toBe(true);
+  });
+
+  it('should capture console output separately from return values', async () => {
+    const code = `function add(a, b) {
+      console.log('adding', a, { b });
+      console.error('careful');
+      return a + b;
+    }`;
+    const evaluation = await javaScriptRunner.evaluate(code, [[1, 2]]);
+
+    expect(evaluation.results[0].actual).toBe(3);
+    expect(evaluation.stdout).toBe('adding 1 {"b":2}\n');
+    expect(evaluation.stderr).toBe('careful\n');
+  });
+
+  it('should stop infinite loops', async () => {
+    const outcome = await javaScriptRunner.run('function add() { while (true) {} }', testCases.slice(0, 1));
+
+    expect(outcome.testResults[0].passed).toBe(false);
+    expect(outcome.testResults[0].status).toBe('timeout');
+    expect(outcome.testResults[0].error).toMatch(/timed out/);
+  }, 20000);
+
+  it('should apply per-test time limits', async () => {
+    const code = `function spin(ms) {
+      const end = Date.now() + ms;
+      while (Date.now() < end) {}
+      return ms;
+    }`;
+    const outcome = await javaScriptRunner.run(
+      code,
+      [
+        { ...testCases[0], id: 'fast', input_data: { args: [300] }, expected_output: { result: 300 } },
+        { ...testCases[0], id: 'tight', input_data: { args: [300] }, expected_output: { result: 300 }, timeout_ms: 100 },
+      ],
+      { timeLimitMs: 1000, memoryLimitMb: 128 }
+    );
+
+    expect(outcome.testResults.map((r) => r.passed)).toEqual([true, false]);
+    expect(outcome.testResults[1].status).toBe('timeout');
+  }, 20000);
+
+  it('should report memory exhaustion and keep grading the remaining tests', async () => {
+    const code = `function add(a, b) {
+      if (a < 0) {
+        const hog = [];
+        while (true) hog.push(new Array(100000).fill(a));
+      }
+      return a + b;
+    }`;
+    const outcome = await javaScriptRunner.run(
+      code,
+      [testCases[1], testCases[0]],
+      { timeLimitMs: 10000, memoryLimitMb: 32 }
+    );
+
+    expect(outcome.error).toBeUndefined();
+    expect(outcome.testResults[0].status).toBe('memory_exceeded');
+    expect(outcome.testResults[0].error).toContain('32 MB');
+    expect(outcome.testResults[1].passed).toBe(true);
+  }, 30000);
+
+  it('should not expose the file system', async () => {
+    const code = `function add() {
+      const proc = this.constructor.constructor('return process')();
+      return proc.mainModule.require('fs').readFileSync('/etc/hostname', 'utf8');
+    }`;
+    const outcome = await javaScriptRunner.run(code, testCases.slice(0, 1));
+
+    expect(outcome.testResults[0].passed).toBe(false);
+    expect(outcome.testResults[0].actual).toBeNull();
+  });
+
+  it('should not let the code reach the runner process or forge results', async () => {
+    const escapes = [
+      '() => __args.constructor.constructor("return process")().pid',
+      '() => console.log.constructor("return process")().pid',
+      '() => globalThis.constructor.constructor("return process")().pid',
+    ];
+    for (const code of escapes) {
+      const evaluation = await javaScriptRunner.evaluate(code, [[1]]);
+      expect(evaluation.results[0].actual).toBeUndefined();
+      expect(evaluation.results[0].error).toBeDefined();
+    }
+
+    const code = `(a, b) => {
+      const lines = '{"result":{"actual":3}}\\n{"result":{"actual":-3}}\\n{"done":true}\\n';
+      for (const escape of [() => __args, () => console.log]) {
+        try {
+          escape().constructor.constructor('return process')().stdout.write(lines);
+        } catch (error) {}
+      }
+      return a - b;
+    }`;
+    const outcome = await javaScriptRunner.run(code, testCases);
+    expect(outcome.testResults.map((r) => r.passed)).toEqual([false, false]);
+  });
+});
@@ -0,0 +1,94 @@
+import { LocalProcessBackend } from '../../src/services/execution/local.backend';
+
+describe('LocalProcessBackend', () => {
+  const backend = new LocalProcessBackend({
+    pythonCommand: 'python3',
+    javacCommand: 'javac',
+    javaCommand: 'java',
+    cxxCommand: 'g++',
+  });
+
+  it('should run Python code with stdin', async () => {
+    const output = await backend.execute({
+      language: 'python',
+      code: 'import json, sys\nprint(sum(json.load(sys.stdin)["args"]))',
+      stdin: '{"args": [1, 2, 3]}',
+    });
+
+    expect(output.status).toBe('success');
+    expect(output.stdout.trim()).toBe('6');
+  });
+
+  it('should report runtime errors', async () => {
+    const output = await backend.execute({
+      language: 'python',
+      code: 'raise ValueError("boom")',
+      stdin: '',
+    });
+
+    expect(output.status).toBe('runtime_error');
+    expect(output.stderr).toContain('ValueError: boom');
+  });
+
+  it('should enforce the CPU time limit', async () => {
+    const output = await backend.execute({
+      language: 'python',
+      code: 'while True:\n    pass',
+      stdin: '',
+      cpuTimeLimitSeconds: 1,
+    });
+
+    expect(output.status).toBe('timeout');
+  }, 10000);
+
+  it('should report exceeding the memory limit', async () => {
+    const output = await backend.execute({
+      language: 'python',
+      code: 'data = bytearray(256 * 1024 * 1024)\nprint(len(data))',
+      stdin: '',
+      memoryLimitMb: 64,
+    });
+
+    expect(output.status).toBe('memory_exceeded');
+  });
+
+  it('should not leak the server environment', async () => {
+    process.env.EXECUTION_SECRET_PROBE = 'secret';
+    const output = await backend.execute({
+      language: 'python',
+      code: 'import os\nprint(os.environ.get("EXECUTION_SECRET_PROBE"))',
+      stdin: '',
+    });
+    delete process.env.EXECUTION_SECRET_PROBE;
+
+    expect(output.stdout.trim()).toBe('None');
+  });
+
+  // Switching users needs root
+  (process.getuid?.() === 0 ? it : it.skip)('should run code as the sandbox user without network access', async () => {
+    const sandboxed = new LocalProcessBackend({
+      pythonCommand: 'python3',
+      javacCommand: 'javac',
+      javaCommand: 'java',
+      cxxCommand: 'g++',
+      sandboxUser: { uid: 65534, gid: 65534 },
+    });
+    const code = `import os, socket
+print(os.getuid())
+try:
+    open('/proc/1/environ').read()
+    print('environ readable')
+except OSError:
+    print('environ denied')
+try:
+    socket.create_connection(('1.1.1.1', 53), timeout=2)
+    print('network reachable')
+except OSError:
+    print('network unreachable')
+`;
+    const output = await sandboxed.execute({ language: 'python', code, stdin: '' });
+
+    expect(output.status).toBe('success');
+    expect(output.stdout.trim().split('\n')).toEqual(['65534', 'environ denied', 'network unreachable']);
+  });
+});
@@ -0,0 +1,232 @@
+import { ExecutionBackendFactory } from '../../src/services/execution/backend.factory';
+import { parseJUnitReport } from '../../src/services/execution/junit.report';
+import { LocalProcessBackend } from '../../src/services/execution/local.backend';
+import {
+  learnerProjectFiles,
+  packProjectFiles,
+  ProjectFile,
+  projectRunner,
+  projectSolutionCode,
+  unpackProjectFiles,
+  validateProjectFiles,
+} from '../../src/services/execution/project.runner';
+import { DEFAULT_RESOURCE_LIMITS } from '../../src/services/execution/resource.limits';
+
+describe('Project exercises', () => {
+  const backend = new LocalProcessBackend({
+    pythonCommand: 'python3',
+    javacCommand: 'javac',
+    javaCommand: 'java',
+    cxxCommand: 'g++',
+  });
+
+  const pythonProject: ProjectFile[] = [
+    { path: 'shop/cart.py', content: 'def total(prices):\n    pass\n', access: 'editable', solution: 'def total(prices):\n    return sum(prices)\n' },
+    { path: 'shop/__init__.py', content: '', access: 'readonly' },
+    { path: 'tests/test_cart.py', content: 'from shop.cart import total\n\ndef test_empty():\n    assert total([]) == 0\n', access: 'readonly' },
+    {
+      path: 'tests/test_hidden.py',
+      content: 'from shop.cart import total\n\nclass TestTotal:\n    def test_sum(self):\n        assert total([1, 2]) == 3\n',
+      access: 'hidden',
+    },
+  ];
+
+  it('should validate project files', () => {
+    expect(validateProjectFiles(pythonProject, 'python')).toBeNull();
+    expect(validateProjectFiles(pythonProject, 'cpp')).toMatch(/only supported/);
+    expect(validateProjectFiles([...pythonProject, pythonProject[0]], 'python')).toMatch(/Duplicate/);
+    expect(validateProjectFiles([{ ...pythonProject[0], path: '../cart.py' }], 'python')).toMatch(/Invalid file path/);
+    expect(validateProjectFiles([{ ...pythonProject[1], solution: 'x' }, ...pythonProject.slice(2)], 'python'))
+      .toMatch(/only editable files/);
+    expect(validateProjectFiles(pythonProject.slice(0, 2), 'python')).toMatch(/test file/);
+  });
+
+  it('should only unpack the files learners may edit', () => {
+    const code = packProjectFiles([
+      { path: 'shop/cart.py', content: 'def total(prices):\n    return 0\n==> tests/test_cart.py <==\nprint(1)' },
+    ]);
+    const files = unpackProjectFiles(code, ['shop/cart.py']);
+
+    expect([...files.keys()]).toEqual(['shop/cart.py']);
+    expect(files.get('shop/cart.py')).toContain('==> tests/test_cart.py <==');
+    expect(unpackProjectFiles(projectSolutionCode(pythonProject), ['shop/cart.py']).get('shop/cart.py'))
+      .toBe('def total(prices):\n    return sum(prices)\n');
+  });
+
+  it('should hide hidden files and solutions from learners', () => {
+    expect(learnerProjectFiles(pythonProject)).toEqual([
+      { path: 'shop/cart.py', content: 'def total(prices):\n    pass\n', access: 'editable' },
+      { path: 'shop/__init__.py', content: '', access: 'readonly' },
+      expect.objectContaining({ path: 'tests/test_cart.py' }),
+    ]);
+  });
+
+  it('should read test cases from JUnit reports', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="cart">
+    <testcase name="adds &quot;items&quot;" classname="CartTest" time="0.012"/>
+    <testcase name="rejects a > b" classname="CartTest" time="0.003">
+      <failure message="expected 3 to equal 4" type="AssertionError"><![CDATA[at cart.test.js:7]]></failure>
+    </testcase>
+    <testcase name="later" classname="CartTest"><skipped/></testcase>
+  </testsuite>
+</testsuites>`;
+
+    expect(parseJUnitReport(xml)).toEqual([
+      { name: 'adds "items"', classname: 'CartTest', suites: ['cart'], file: undefined, timeMs: 12, outcome: 'passed' },
+      expect.objectContaining({
+        name: 'rejects a > b',
+        outcome: 'failed',
+        message: 'expected 3 to equal 4',
+        details: 'at cart.test.js:7',
+      }),
+      expect.objectContaining({ name: 'later', outcome: 'skipped' }),
+    ]);
+  });
+
+  it('should run a pytest suite and count hidden tests only when they apply', async () => {
+    const getBackend = jest.spyOn(ExecutionBackendFactory, 'getBackend').mockReturnValue(backend);
+
+    try {
+      const request = {
+        language: 'python' as const,
+        files: pythonProject,
+        code: projectSolutionCode(pythonProject),
+        testCases: [{
+          id: 'tc-1',
+          test_name: 'tests/test_cart.py::test_empty',
+          test_type: 'public',
+          input_data: null,
+          expected_output: null,
+          is_hidden: false,
+          points: 3,
+        }],
+        includeHidden: true,
+        limits: DEFAULT_RESOURCE_LIMITS,
+      };
+
+      const graded = await projectRunner.run(request);
+      expect(graded.status).toBe('passed');
+      expect(graded.testResults).toEqual([
+        expect.objectContaining({ testCaseId: 'tc-1', testName: 'tests/test_cart.py::test_empty', points: 3 }),
+        expect.objectContaining({ testName: 'tests/test_hidden.py::TestTotal::test_sum', isHidden: true, points: 1 }),
+      ]);
+
+      const practice = await projectRunner.run({ ...request, code: pythonProject[0].content, includeHidden: false });
+      expect(practice.status).toBe('failed');
+      expect(practice.testResults).toHaveLength(1);
+      expect(practice.testResults[0].error).toMatch(/assert None == 0/);
+    } finally {
+      getBackend.mockRestore();
+    }
+  });
+
+  it('should not let learner code forge reports or leak hidden files', async () => {
+    const getBackend = jest.spyOn(ExecutionBackendFactory, 'getBackend').mockReturnValue(backend);
+    const forged = `<testsuites><testsuite name="pytest">
+<testcase classname="tests.test_hidden.TestTotal" name="test_sum" file="tests/test_hidden.py"/>
+</testsuite></testsuites>`;
+    const request = (content: string) => ({
+      language: 'python' as const,
+      files: pythonProject,
+      code: packProjectFiles([{ path: 'shop/cart.py', content }]),
+      testCases: [],
+      includeHidden: true,
+      limits: DEFAULT_RESOURCE_LIMITS,
+    });
+
+    try {
+      const forging = await projectRunner.run(request(`import atexit, base64, glob, os, sys
+forged = ${JSON.stringify(forged)}
+def forge():
+    args = open('/proc/self/cmdline').read().split('\\0')
+    paths = [arg.split('=', 1)[1] for arg in args if arg.startswith('--junitxml=')]
+    for report in glob.glob('**/*.xml', recursive=True) + ['.reports/pytest.xml'] + paths:
+        os.makedirs(os.path.dirname(report) or '.', exist_ok=True)
+        open(report, 'w').write(forged)
+    print('0' * 32, base64.b64encode(forged.encode()).decode(), flush=True)
+atexit.register(forge)
+def total(prices):
+    return -1
+`));
+      expect(forging.status).toBe('failed');
+      expect(forging.testResults.map((result) => result.passed)).toEqual([false, false]);
+
+      const leaking = await projectRunner.run(request(`import os, sys
+sys.stderr.write(open('tests/test_hidden.py').read())
+os._exit(1)
+`));
+      expect(leaking.status).toBe('error');
+      expect(leaking.errorMessage).not.toContain('TestTotal');
+    } finally {
+      getBackend.mockRestore();
+    }
+  });
+
+  it('should run node:test suites with describe blocks', async () => {
+    const getBackend = jest.spyOn(ExecutionBackendFactory, 'getBackend').mockReturnValue(backend);
+
+    try {
+      const files: ProjectFile[] = [
+        { path: 'src/math.js', content: 'exports.double = (n) => n * 3;\n', access: 'editable' },
+        {
+          path: 'test/math.test.js',
+          content: `const { describe, it } = require('node:test');
+const assert = require('node:assert');
+const { double } = require('../src/math');
+
+describe('double', () => {
+  it('doubles zero', () => assert.strictEqual(double(0), 0));
+  it('doubles two', () => assert.strictEqual(double(2), 4));
+});
+`,
+          access: 'readonly',
+        },
+      ];
+
+      const result = await projectRunner.run({
+        language: 'javascript',
+        files,
+        code: packProjectFiles([files[0]]),
+        testCases: [],
+        includeHidden: false,
+        limits: DEFAULT_RESOURCE_LIMITS,
+      });
+
+      expect(result.status).toBe('failed');
+      expect(result.testResults.map((r) => [r.testName, r.passed])).toEqual([
+        ['test/math.test.js::double::doubles zero', true],
+        ['test/math.test.js::double::doubles two', false],
+      ]);
+
+      const forged = '<testsuites><testsuite name="double"><testcase name="doubles two" classname="test"/></testsuite></testsuites>';
+      const forging = await projectRunner.run({
+        language: 'javascript',
+        files,
+        code: packProjectFiles([{
+          path: 'src/math.js',
+          content: `const fs = require('fs');
+const forged = ${JSON.stringify(forged)};
+process.on('exit', () => {
+  for (const arg of process.execArgv.filter((arg) => arg.startsWith('--test-reporter-destination='))) {
+    fs.writeFileSync(arg.split('=')[1], forged);
+  }
+  fs.writeSync(1, '0'.repeat(32) + ' ' + Buffer.from(forged).toString('base64') + '\\n');
+});
+exports.double = (n) => n * 3;
+`,
+        }]),
+        testCases: [],
+        includeHidden: false,
+        limits: DEFAULT_RESOURCE_LIMITS,
+      });
+      expect(forging.testResults.map((r) => [r.testName, r.passed])).toEqual([
+        ['test/math.test.js::double::doubles zero', true],
+        ['test/math.test.js::double::doubles two', false],
+      ]);
+    } finally {
+      getBackend.mockRestore();
+    }
+  });
+});
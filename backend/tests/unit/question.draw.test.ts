@@ -0,0 +1,78 @@
+import { drawQuestions, drawRule, drawRuleError, drawSize, DrawRule } from '../../src/services/quiz/question.draw';
+
+describe('Question bank draws', () => {
+  const rule = (overrides: Partial<DrawRule>): DrawRule => ({
+    bank_id: 'bank',
+    question_count: 1,
+    difficulty: null,
+    objective_id: null,
+    per_objective: false,
+    ...overrides,
+  });
+
+  const objectives = [
+    { id: 'o1', objective_text: 'Loops' },
+    { id: 'o2', objective_text: 'Recursion' },
+  ];
+
+  const pool = [
+    { id: 'e1', bank_id: 'bank', difficulty: 'easy', objective_ids: ['o1'] },
+    { id: 'e2', bank_id: 'bank', difficulty: 'easy', objective_ids: ['o2'] },
+    { id: 'e3', bank_id: 'bank', difficulty: 'easy', objective_ids: [] },
+    { id: 'h1', bank_id: 'bank', difficulty: 'hard', objective_ids: ['o1', 'o2'] },
+    { id: 'h2', bank_id: 'bank', difficulty: 'hard', objective_ids: ['o2'] },
+    { id: 'x1', bank_id: 'other', difficulty: 'easy', objective_ids: ['o1'] },
+  ];
+
+  it('should validate draw rules', () => {
+    expect(drawRuleError({ bankId: 'bank', questionCount: 3, difficulty: 'easy' })).toBeNull();
+    expect(drawRuleError({ questionCount: 3 })).toBe('bankId is required');
+    expect(drawRuleError({ bankId: 'bank', questionCount: 0 })).toBe('questionCount must be between 1 and 50');
+    expect(drawRuleError({ bankId: 'bank', questionCount: 1, difficulty: 'tricky' }))
+      .toBe('difficulty must be one of: easy, medium, hard');
+    expect(drawRuleError({ bankId: 'bank', questionCount: 1, objectiveId: 'o1', perObjective: true }))
+      .toBe('A rule draws either for one objective or for each objective, not both');
+  });
+
+  it('should count per-objective rules once per objective', () => {
+    const rules = [drawRule({ bankId: 'bank', questionCount: 3 }), drawRule({ bankId: 'bank', questionCount: 2, perObjective: true })];
+
+    expect(drawSize(rules, 2)).toBe(7);
+    expect(drawSize([], 2)).toBe(0);
+  });
+
+  it('should draw by difficulty without repeating questions', () => {
+    const result = drawQuestions([rule({ question_count: 3, difficulty: 'easy' }), rule({ question_count: 2, difficulty: 'hard' })], pool, objectives);
+
+    expect(result.shortfalls).toEqual([]);
+    expect(result.questionIds.slice(0, 3).sort()).toEqual(['e1', 'e2', 'e3']);
+    expect(result.questionIds.slice(3).sort()).toEqual(['h1', 'h2']);
+  });
+
+  it('should cover each objective before broad rules take its questions', () => {
+    // The broad rule comes first but must not use up o1's only hard question
+    const result = drawQuestions(
+      [rule({ question_count: 1, difficulty: 'hard' }), rule({ question_count: 1, difficulty: 'hard', per_objective: true })],
+      [...pool, { id: 'h3', bank_id: 'bank', difficulty: 'hard', objective_ids: [] }],
+      objectives,
+      () => 0
+    );
+
+    expect(result.shortfalls).toEqual([]);
+    expect(result.questionIds).toEqual(['h3', 'h1', 'h2']);
+  });
+
+  it('should report rules the banks cannot meet', () => {
+    const result = drawQuestions(
+      [rule({ question_count: 2, difficulty: 'hard', objective_id: 'o1' }), rule({ question_count: 5, bank_id: 'other' })],
+      pool,
+      objectives
+    );
+
+    expect(result.shortfalls).toEqual([
+      'Rule 1 needs 2 hard questions for "Loops", but the bank has 1 left',
+      'Rule 2 needs 5 questions, but the bank has 1 left',
+    ]);
+    expect(result.questionIds.sort()).toEqual(['h1', 'x1']);
+  });
+});
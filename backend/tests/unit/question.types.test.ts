@@ -0,0 +1,115 @@
+import {
+  answerCredit,
+  CodeReviewConfig,
+  generatedQuestionInput,
+  learnerQuestionConfig,
+  questionConfig,
+  validateQuestionInput,
+} from '../../src/services/quiz/question.types';
+
+describe('Quiz question types', () => {
+  const options = [
+    { id: 'a', is_correct: true },
+    { id: 'b', is_correct: true },
+    { id: 'c', is_correct: false },
+    { id: 'd', is_correct: false },
+  ];
+
+  const review: CodeReviewConfig = {
+    code: 'def total(values):\n    result = 1\n    for v in values:\n        result += v\n    return values',
+    language: 'python',
+    buggyLines: [2, 5],
+    partialCredit: 'right_minus_wrong',
+  };
+
+  it('should validate the options of choice questions', () => {
+    const choice = {
+      questionType: 'multiple_choice',
+      questionText: 'Pick one',
+      options: [{ text: 'A', isCorrect: true }, { text: 'B', isCorrect: false }],
+    };
+
+    expect(validateQuestionInput(choice)).toBeNull();
+    expect(validateQuestionInput({ ...choice, questionType: 'matching' })).toMatch(/questionType must be/);
+    expect(validateQuestionInput({ ...choice, options: [{ text: 'A', isCorrect: true }] })).toMatch(/two options/);
+    expect(validateQuestionInput({ ...choice, options: choice.options.map((o) => ({ ...o, isCorrect: true })) }))
+      .toMatch(/Exactly one/);
+    expect(validateQuestionInput({ ...choice, questionType: 'multiple_select', config: { partialCredit: 'most' } }))
+      .toMatch(/partialCredit/);
+    expect(validateQuestionInput({ ...choice, questionType: 'true_false', options: [...choice.options, { text: 'C' }] }))
+      .toMatch(/exactly two/);
+    expect(validateQuestionInput({ ...choice, questionType: 'essay' })).toMatch(/no options/);
+    expect(validateQuestionInput({ questionType: 'essay', questionText: 'Why?', rubricId: 'r-1' })).toBeNull();
+    expect(validateQuestionInput({ ...choice, rubricId: 'r-1' })).toMatch(/rubric/);
+  });
+
+  it('should validate code-review snippets and their buggy lines', () => {
+    const question = { questionType: 'code_review', questionText: 'Find the bugs', config: review };
+
+    expect(validateQuestionInput(question)).toBeNull();
+    expect(validateQuestionInput({ ...question, config: { ...review, buggyLines: [6] } })).toMatch(/between 1 and 5/);
+    expect(validateQuestionInput({ ...question, config: { ...review, buggyLines: [2, 2] } })).toMatch(/different lines/);
+    expect(validateQuestionInput({ ...question, config: { ...review, partialCredit: 'per_option' } }))
+      .toMatch(/all_or_nothing or right_minus_wrong/);
+    expect(validateQuestionInput({ ...question, config: { ...review, code: ' ' } })).toMatch(/need the code/);
+  });
+
+  it('should fill in default settings and hide buggy lines from learners', () => {
+    expect(questionConfig({ questionType: 'multiple_select', questionText: 'q' })).toEqual({
+      partialCredit: 'right_minus_wrong',
+    });
+    expect(questionConfig({ questionType: 'multiple_choice', questionText: 'q' })).toBeNull();
+
+    const config = questionConfig({
+      questionType: 'code_review',
+      questionText: 'q',
+      config: { ...review, code: `${review.code}\n\n`, buggyLines: [5, 2], partialCredit: undefined },
+    }) as CodeReviewConfig;
+    expect(config).toEqual({ ...review, buggyLines: [2, 5] });
+    expect(learnerQuestionConfig('code_review', config)).toEqual({
+      code: review.code,
+      language: 'python',
+      partialCredit: 'right_minus_wrong',
+    });
+  });
+
+  it('should give partial credit for multi-select answers', () => {
+    const credit = (partialCredit: string, selectedOptionIds: string[]) =>
+      answerCredit('multiple_select', { partialCredit } as any, options, { selectedOptionIds });
+
+    expect(credit('all_or_nothing', ['a', 'b'])).toBe(1);
+    expect(credit('all_or_nothing', ['a'])).toBe(0);
+    expect(credit('per_option', ['a', 'c'])).toBe(0.5);
+    expect(credit('per_option', ['a'])).toBe(0.75);
+    expect(credit('right_minus_wrong', ['a'])).toBe(0.5);
+    expect(credit('right_minus_wrong', ['a', 'c'])).toBe(0);
+    expect(credit('right_minus_wrong', ['a', 'b', 'x'])).toBe(1);
+  });
+
+  it('should grade single-answer and code-review questions', () => {
+    expect(answerCredit('multiple_choice', null, options, { selectedOptionId: 'a' })).toBe(1);
+    expect(answerCredit('true_false', null, options, { selectedOptionId: 'c' })).toBe(0);
+
+    expect(answerCredit('code_review', review, [], { selectedLines: [2, 5] })).toBe(1);
+    expect(answerCredit('code_review', review, [], { selectedLines: [2] })).toBe(0.5);
+    expect(answerCredit('code_review', review, [], { selectedLines: [2, 3] })).toBe(0);
+    expect(answerCredit('code_review', { ...review, partialCredit: 'all_or_nothing' }, [], { selectedLines: [2] }))
+      .toBe(0);
+    expect(answerCredit('essay', null, [], {})).toBe(0);
+  });
+
+  it('should turn generated questions into authoring input', () => {
+    expect(generatedQuestionInput({ type: 'true_false', question: 'Arrays are objects', answer: true })).toMatchObject({
+      questionType: 'true_false',
+      options: [{ text: 'True', isCorrect: true }, { text: 'False', isCorrect: false }],
+    });
+    expect(generatedQuestionInput({
+      type: 'code_review', question: 'Bug?', code: 'x = 1', language: 'python', buggyLines: [1],
+    })).toMatchObject({ questionType: 'code_review', config: { code: 'x = 1', buggyLines: [1] } });
+
+    // Questions without a type are multiple choice, as before
+    const legacy = generatedQuestionInput({ question: 'Q?', options: [{ text: 'A', isCorrect: true }, { text: 'B' }] });
+    expect(legacy.questionType).toBe('multiple_choice');
+    expect(validateQuestionInput(legacy)).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { Quiz, QuizAttempt, QuizQuestion, QuizQuestionOption } from '../../src/models/quiz.model';
+import { quizRepository } from '../../src/repositories/quiz.repository';
+import { questionBankService } from '../../src/services/questionBank.service';
+import { quizAttemptService } from '../../src/services/quizAttempt.service';
+
+jest.mock('../../src/repositories/quiz.repository', () => ({
+  quizRepository: {
+    findById: jest.fn(),
+    findInProgressAttempt: jest.fn(),
+    getUserAttempts: jest.fn(),
+    getQuestions: jest.fn(),
+    getQuestionsByIds: jest.fn(),
+    getQuestionOptions: jest.fn(),
+    startAttempt: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/questionBank.service', () => ({
+  questionBankService: { drawForAttempt: jest.fn() },
+}));
+jest.mock('../../src/services/quizGrading.service', () => ({
+  quizGradingService: { gradeAttemptInBackground: jest.fn() },
+}));
+
+const repository = quizRepository as jest.Mocked<typeof quizRepository>;
+const banks = questionBankService as jest.Mocked<typeof questionBankService>;
+
+describe('QuizAttemptService', () => {
+  const quiz = new Quiz({ id: 'quiz-1', allow_retakes: true, shuffle_questions: false, time_limit_minutes: null });
+  const question = (id: string, bankId: string | null) => new QuizQuestion({
+    id,
+    quiz_id: bankId ? null : 'quiz-1',
+    bank_id: bankId,
+    question_type: 'multiple_choice',
+    question_text: `Question ${id}`,
+    explanation: 'Because',
+    points: 1,
+    model_answer: 'The answer',
+  });
+  const options = (questionId: string) => [
+    new QuizQuestionOption({ id: `${questionId}-a`, question_id: questionId, option_text: 'A', is_correct: true, explanation: 'Right', order_index: 0 }),
+    new QuizQuestionOption({ id: `${questionId}-b`, question_id: questionId, option_text: 'B', is_correct: false, explanation: 'Wrong', order_index: 1 }),
+  ];
+  const attempt = new QuizAttempt({
+    id: 'attempt-1',
+    quiz_id: 'quiz-1',
+    user_id: 'user-1',
+    status: 'in_progress',
+    question_order: ['own', 'drawn'],
+    option_order: { own: ['own-b', 'own-a'], drawn: ['drawn-a', 'drawn-b'] },
+  });
+
+  beforeEach(() => {
+    repository.findById.mockResolvedValue(quiz);
+    repository.getUserAttempts.mockResolvedValue([]);
+    repository.getQuestions.mockResolvedValue([question('own', null)]);
+    repository.getQuestionsByIds.mockResolvedValue([question('drawn', 'bank-1')]);
+    repository.getQuestionOptions.mockImplementation(async (questionId) => options(questionId));
+    repository.startAttempt.mockResolvedValue(attempt);
+    banks.drawForAttempt.mockResolvedValue(['drawn']);
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  const expectAnswersHidden = (questions: Awaited<ReturnType<typeof quizAttemptService.startAttempt>>['questions']) => {
+    expect(questions.map((q) => q.id)).toEqual(['own', 'drawn']);
+    for (const q of questions) {
+      expect(q.model_answer).toBeNull();
+      for (const option of q.options) {
+        expect(Object.keys(option).sort()).toEqual(['id', 'option_text', 'order_index', 'question_id']);
+        expect(option).not.toHaveProperty('is_correct');
+        expect(option).not.toHaveProperty('explanation');
+      }
+    }
+  };
+
+  it('should hide the answer key of own and drawn questions when an attempt starts', async () => {
+    repository.findInProgressAttempt.mockResolvedValue(null);
+
+    const { questions, resumed } = await quizAttemptService.startAttempt('user-1', 'quiz-1');
+
+    expect(resumed).toBe(false);
+    expectAnswersHidden(questions);
+    expect(questions[0].options.map((option) => option.id)).toEqual(['own-b', 'own-a']);
+  });
+
+  it('should hide the answer key when an attempt resumes', async () => {
+    repository.findInProgressAttempt.mockResolvedValue(attempt);
+    repository.getQuestionsByIds.mockResolvedValue([question('own', null), question('drawn', 'bank-1')]);
+
+    const { questions, resumed } = await quizAttemptService.startAttempt('user-1', 'quiz-1');
+
+    expect(resumed).toBe(true);
+    expectAnswersHidden(questions);
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  generateInputs,
+  InputGenerator,
+  shrinkCounterexample,
+  shrinkValue,
+  validateInputGenerator,
+} from '../../src/services/execution/random.inputs';
+
+describe('Randomized inputs', () => {
+  const generator: InputGenerator = {
+    args: [
+      { type: 'int', min: -50, max: 50 },
+      { type: 'array', items: { type: 'int', min: 0, max: 9 }, minLength: 1, maxLength: 8 },
+      { type: 'string', alphabet: 'ab', maxLength: 5 },
+    ],
+    count: 100,
+  };
+
+  it('should generate reproducible inputs within the spec', () => {
+    const inputs = generateInputs(generator, 42);
+
+    expect(inputs).toHaveLength(100);
+    expect(generateInputs(generator, 42)).toEqual(inputs);
+    expect(generateInputs(generator, 43)).not.toEqual(inputs);
+
+    for (const [n, list, text] of inputs) {
+      expect(n).toBeGreaterThanOrEqual(-50);
+      expect(n).toBeLessThanOrEqual(50);
+      expect(list.length).toBeGreaterThanOrEqual(1);
+      expect(list.length).toBeLessThanOrEqual(8);
+      expect(list.every((v: number) => Number.isInteger(v) && v >= 0 && v <= 9)).toBe(true);
+      expect(text).toMatch(/^[ab]{0,5}$/);
+    }
+  });
+
+  it('should propose simpler values that still fit the spec', () => {
+    expect(shrinkValue({ type: 'int', min: -50, max: 50 }, 40)).toEqual([0, 20, 39]);
+    expect(shrinkValue({ type: 'int', min: 5, max: 50 }, 5)).toEqual([]);
+    expect(shrinkValue({ type: 'array', items: { type: 'int', min: 0, max: 9 }, minLength: 2, maxLength: 5 }, [3, 4]))
+      .toEqual([[0, 4], [2, 4], [3, 0], [3, 2], [3, 3]]);
+    expect(shrinkValue({ type: 'string', alphabet: 'xy', maxLength: 4 }, 'yy')).toEqual(['y', 'xy', 'yx']);
+  });
+
+  it('should shrink a failing input to a minimal counterexample', async () => {
+    // Fails whenever the list contains a value above 6
+    const fails = (args: any[]) => args[1].some((v: number) => v > 6);
+    const firstFailing = async (candidates: any[][]) => candidates.findIndex(fails);
+
+    const { args, steps } = await shrinkCounterexample(generator.args, [37, [1, 8, 3, 9, 2], 'abba'], firstFailing, 100);
+
+    expect(args).toEqual([0, [7], '']);
+    expect(steps).toBeGreaterThan(0);
+  });
+
+  it('should validate generator specs', () => {
+    expect(validateInputGenerator(generator)).toBeNull();
+    expect(validateInputGenerator({ args: [], count: 0 })).toMatch(/count/);
+    expect(validateInputGenerator({ args: [{ type: 'int', min: 5, max: 1 }], count: 10 })).toMatch(/min <= max/);
+    expect(validateInputGenerator({ args: [{ type: 'array', items: { type: 'date' }, maxLength: 3 }], count: 10 }))
+      .toMatch(/args\[0\]\.items\.type/);
+    expect(validateInputGenerator({ args: [], count: 10, comparator: 'custom' })).toMatch(/checker/);
+  });
+});
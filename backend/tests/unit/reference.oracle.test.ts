@@ -0,0 +1,56 @@
+import { referenceOracle } from '../../src/services/execution/reference.oracle';
+import { InputGenerator } from '../../src/services/execution/random.inputs';
+
+describe('ReferenceOracle', () => {
+  const generator: InputGenerator = {
+    args: [{ type: 'array', items: { type: 'int', min: -20, max: 20 }, maxLength: 10 }],
+    count: 200,
+    points: 3,
+  };
+  const solutionCode = 'function maxOf(values) { return values.length ? Math.max(...values) : null; }';
+
+  it('should pass a submission that agrees with the reference solution', async () => {
+    const result = await referenceOracle.run({
+      language: 'javascript',
+      code: 'function maxOf(values) { return values.reduce((m, v) => (m === null || v > m ? v : m), null); }',
+      solutionCode,
+      starterCode: null,
+      generator,
+      seed: 7,
+    });
+
+    expect(result?.passed).toBe(true);
+    expect(result?.points).toBe(3);
+    expect(result?.details).toMatchObject({ seed: 7, cases: 200, skipped: 0 });
+  });
+
+  it('should report a shrunk counterexample', async () => {
+    // Wrong for lists with only negative numbers
+    const result = await referenceOracle.run({
+      language: 'javascript',
+      code: 'function maxOf(values) { return values.length ? values.reduce((m, v) => Math.max(m, v), 0) : null; }',
+      solutionCode,
+      starterCode: null,
+      generator,
+      seed: 7,
+    });
+
+    expect(result?.passed).toBe(false);
+    expect(result?.details.counterexample).toEqual({ args: [[-1]] });
+    expect(result?.expected).toBe(-1);
+    expect(result?.actual).toBe(0);
+    expect(result?.error).toContain('Failed on input [[-1]]');
+  }, 30000);
+
+  it('should skip grading when the reference solution cannot run', async () => {
+    const result = await referenceOracle.run({
+      language: 'javascript',
+      code: solutionCode,
+      solutionCode: 'function maxOf(values) {',
+      starterCode: null,
+      generator,
+    });
+
+    expect(result).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  DEFAULT_RESOURCE_LIMITS,
+  exerciseLimits,
+  limitMessage,
+  looksLikeOutOfMemory,
+  MAX_TIME_LIMIT_MS,
+  testCaseLimits,
+  validateLimits,
+} from '../../src/services/execution/resource.limits';
+import {
+  compactValue,
+  generateArgs,
+  validateGeneratedInput,
+} from '../../src/services/execution/performance.tests';
+
+describe('Resource limits', () => {
+  it('should fall back from test case to exercise to platform defaults', () => {
+    expect(exerciseLimits({ time_limit_seconds: null, memory_limit_mb: null })).toEqual(DEFAULT_RESOURCE_LIMITS);
+
+    const exercise = exerciseLimits({ time_limit_seconds: 3, memory_limit_mb: 256 });
+    expect(exercise).toEqual({ timeLimitMs: 3000, memoryLimitMb: 256 });
+    expect(testCaseLimits(exercise, { timeout_ms: null })).toEqual(exercise);
+    expect(testCaseLimits(exercise, { timeout_ms: 500, memory_limit_mb: 64 })).toEqual({
+      timeLimitMs: 500,
+      memoryLimitMb: 64,
+    });
+  });
+
+  it('should cap stored limits at the platform maximum', () => {
+    expect(exerciseLimits({ time_limit_seconds: 300 }).timeLimitMs).toBe(MAX_TIME_LIMIT_MS);
+  });
+
+  it('should validate limits before they are saved', () => {
+    expect(validateLimits({ timeLimitMs: null, memoryLimitMb: undefined })).toBeNull();
+    expect(validateLimits({ timeLimitMs: 1500, memoryLimitMb: 64 })).toBeNull();
+    expect(validateLimits({ timeLimitMs: 50 })).toMatch(/Time limit/);
+    expect(validateLimits({ memoryLimitMb: 4096 })).toMatch(/Memory limit/);
+  });
+
+  it('should recognize allocation failures across runtimes', () => {
+    expect(looksLikeOutOfMemory('Traceback (most recent call last):\nMemoryError')).toBe(true);
+    expect(looksLikeOutOfMemory("terminate called after throwing an instance of 'std::bad_alloc'")).toBe(true);
+    expect(looksLikeOutOfMemory('Exception in thread "main" java.lang.OutOfMemoryError: Java heap space')).toBe(true);
+    expect(looksLikeOutOfMemory('IndexError: list index out of range')).toBe(false);
+  });
+
+  it('should describe the limit that was exceeded', () => {
+    expect(limitMessage('timeout', { timeLimitMs: 1500, memoryLimitMb: 128 })).toBe('Time limit exceeded (1.5 s)');
+    expect(limitMessage('memory_exceeded', { timeLimitMs: 1500, memoryLimitMb: 128 })).toBe('Memory limit exceeded (128 MB)');
+  });
+});
+
+describe('Performance test inputs', () => {
+  const spec = {
+    args: [{ type: 'array', items: { type: 'int', min: 0, max: 1000 }, minLength: 50000, maxLength: 50000 }],
+    seed: 7,
+  };
+
+  it('should generate the same large input for every submission', () => {
+    const [list] = generateArgs(spec as any);
+
+    expect(list).toHaveLength(50000);
+    expect(generateArgs(spec as any)).toEqual([list]);
+    expect(generateArgs({ ...spec, seed: 8 } as any)).not.toEqual([list]);
+  });
+
+  it('should allow larger inputs than randomized tests, within a total budget', () => {
+    expect(validateGeneratedInput(spec)).toBeNull();
+    expect(validateGeneratedInput({ args: [], seed: 1.5 })).toMatch(/seed/);
+    expect(validateGeneratedInput({
+      args: [{
+        type: 'array',
+        items: { type: 'array', items: { type: 'int', min: 0, max: 1 }, maxLength: 1000 },
+        maxLength: 10000,
+      }],
+    })).toMatch(/cannot exceed/);
+  });
+
+  it('should shorten large values before they are stored', () => {
+    expect(compactValue([1, 2, 3])).toEqual([1, 2, 3]);
+
+    const compacted = compactValue(Array.from({ length: 5000 }, (_, i) => i));
+    expect(typeof compacted).toBe('string');
+    expect(compacted).toMatch(/^\[0,1,2,.*\.\.\. \(\d+ characters\)$/);
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  redactTestResults,
+  scoreTestResults,
+  ScoringPolicy,
+  selectTestCases,
+} from '../../src/services/execution/scoring';
+import { TestResult } from '../../src/services/codeExecution.service';
+
+const result = (overrides: Partial<TestResult>): TestResult => ({
+  testCaseId: 'tc',
+  testName: 'test',
+  passed: true,
+  actual: 1,
+  expected: { result: 1 },
+  isHidden: false,
+  points: 1,
+  ...overrides,
+});
+
+describe('Submission scoring', () => {
+  it('should weight tests by their points', () => {
+    const scored = scoreTestResults(
+      [
+        result({ passed: true, points: 1 }),
+        result({ passed: false, points: 3 }),
+      ],
+      20
+    );
+
+    expect(scored.passedTests).toBe(1);
+    expect(scored.totalTests).toBe(2);
+    expect(scored.earnedTestPoints).toBe(1);
+    expect(scored.availableTestPoints).toBe(4);
+    expect(scored.score).toBe(25);
+    expect(scored.pointsEarned).toBe(5);
+  });
+
+  it('should score zero when there is nothing to earn', () => {
+    expect(scoreTestResults([], 10).score).toBe(0);
+    expect(scoreTestResults([result({ points: 0 })], 10).pointsEarned).toBe(0);
+  });
+
+  it('should skip hidden tests before the final submit when the policy says so', () => {
+    const testCases = [{ is_hidden: false }, { is_hidden: true }];
+    const policy: ScoringPolicy = {
+      exercisePoints: 10,
+      hiddenTestScoring: 'final_only',
+      hiddenTestVisibility: 'summary',
+    };
+
+    expect(selectTestCases(testCases, policy, false)).toHaveLength(1);
+    expect(selectTestCases(testCases, policy, true)).toHaveLength(2);
+    expect(selectTestCases(testCases, { ...policy, hiddenTestScoring: 'always' }, false)).toHaveLength(2);
+  });
+
+  it('should redact hidden test details according to the visibility policy', () => {
+    const testResults = [
+      result({ testName: 'public case' }),
+      result({ testName: 'edge: empty list', isHidden: true, passed: false, error: 'Expected: [], Got: null' }),
+    ];
+
+    const summary = redactTestResults(testResults, 'summary');
+    expect(summary[0]).toBe(testResults[0]);
+    expect(summary[1]).toEqual({
+      testCaseId: 'tc',
+      testName: 'Hidden test 1',
+      passed: false,
+      actual: null,
+      expected: null,
+      isHidden: true,
+      points: 1,
+    });
+
+    const names = redactTestResults(testResults, 'names');
+    expect(names[1].testName).toBe('edge: empty list');
+    expect(names[1].expected).toBeNull();
+    expect(names[1].error).toBeUndefined();
+
+    expect(redactTestResults(testResults, 'full')).toBe(testResults);
+  });
+});
@@ -0,0 +1,36 @@
+import { parseCustomArgs, scratchRunner } from '../../src/services/execution/scratch.runner';
+
+describe('ScratchRunner', () => {
+  const run = (code: string, input: string) =>
+    scratchRunner.run({ language: 'javascript', code, input, starterCode: null, setupSql: null });
+
+  it('should parse custom arguments', () => {
+    expect(parseCustomArgs('[1, "two"]')).toEqual([1, 'two']);
+    expect(parseCustomArgs('{"args": [[3, 4]]}')).toEqual([[3, 4]]);
+    expect(parseCustomArgs('42')).toEqual([42]);
+    expect(parseCustomArgs('  ')).toEqual([]);
+    expect(parseCustomArgs('[1,')).toBeNull();
+  });
+
+  it('should return the value and console output of a JavaScript function', async () => {
+    const output = await run('function add(a, b) { console.log("sum of", a, b); return a + b; }', '[2, 3]');
+
+    expect(output.status).toBe('completed');
+    expect(output.returnValue).toBe(5);
+    expect(output.stdout).toBe('sum of 2 3\n');
+  });
+
+  it('should report thrown errors', async () => {
+    const output = await run('function add() { throw new Error("nope"); }', '[]');
+
+    expect(output.status).toBe('error');
+    expect(output.errorMessage).toBe('nope');
+  });
+
+  it('should reject input that is not JSON', async () => {
+    const output = await run('function add(a, b) { return a + b; }', '1, 2');
+
+    expect(output.status).toBe('error');
+    expect(output.errorMessage).toMatch(/JSON/);
+  });
+});
@@ -0,0 +1,77 @@
+import { tokenize } from '../../src/services/similarity/tokenizer';
+import { comparePrograms, prepareProgram } from '../../src/services/similarity/matcher';
+
+const ORIGINAL = `
+function longestRun(values) {
+  // Track the best streak seen so far
+  let best = 0;
+  let current = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (i > 0 && values[i] === values[i - 1]) {
+      current += 1;
+    } else {
+      current = 1;
+    }
+    if (current > best) {
+      best = current;
+    }
+  }
+  return best;
+}
+`;
+
+const DISGUISED = `
+function f(xs) { let m = 0; let c = 0;
+  for (let k = 0; k < xs.length; k++) { if (k > 0 && xs[k] === xs[k - 1]) { c += 1; } else { c = 1; }
+    /* keep the maximum */ if (c > m) { m = c; } }
+  return m; }
+`;
+
+const UNRELATED = `
+function longestRun(values) {
+  const counts = new Map();
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+  return Math.max(0, ...Array.from(counts.values()).map((count) => count * 2));
+}
+`;
+
+describe('Submission similarity', () => {
+  const prepare = (code: string, starterCode = '') =>
+    prepareProgram(tokenize(code, 'javascript'), tokenize(starterCode, 'javascript'));
+
+  it('should ignore comments, layout, identifiers and literal values', () => {
+    const values = (code: string) => tokenize(code, 'javascript').map((token) => token.value);
+
+    expect(values('let total = 10; // running sum')).toEqual(values('let   x=99;'));
+    expect(values('print("a")')).toEqual(['ID', '(', 'STR', ')']);
+    expect(tokenize('select Name\nfrom users', 'sql').map((token) => token.value)).toEqual(['SELECT', 'ID', 'FROM', 'ID']);
+  });
+
+  it('should track the source line of each token', () => {
+    const tokens = tokenize('int a;\n/* two\nlines */\nreturn a;', 'cpp');
+
+    expect(tokens.find((token) => token.value === 'return')?.line).toBe(4);
+  });
+
+  it('should detect renamed and reformatted copies', () => {
+    const result = comparePrograms(prepare(ORIGINAL), prepare(DISGUISED));
+
+    expect(result).not.toBeNull();
+    expect(result!.similarity).toBe(1);
+    expect(result!.matches[0]).toMatchObject({ aStartLine: 2, bStartLine: 2 });
+  });
+
+  it('should not flag independently written solutions', () => {
+    const result = comparePrograms(prepare(ORIGINAL), prepare(UNRELATED));
+
+    expect(result === null || result.similarity < 0.5).toBe(true);
+  });
+
+  it('should not count starter code as shared', () => {
+    const starterCode = ORIGINAL;
+
+    const withStarter = comparePrograms(prepare(ORIGINAL, starterCode), prepare(DISGUISED, starterCode));
+
+    expect(withStarter).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import { compareResultSets, normalizeCell, toResultSet } from '../../src/services/execution/sql.runner';
+
+describe('SQL result comparison', () => {
+  it('should normalize numeric strings returned by pg', () => {
+    expect(normalizeCell('42')).toBe(42);
+    expect(normalizeCell('-3.50')).toBe(-3.5);
+    expect(normalizeCell('abc')).toBe('abc');
+    expect(normalizeCell(undefined)).toBeNull();
+  });
+
+  it('should accept rows written as objects keyed by column', () => {
+    const resultSet = toResultSet({ columns: ['id', 'name'], rows: [{ id: 1, name: 'Ada' }] });
+
+    expect(resultSet.rows).toEqual([[1, 'Ada']]);
+  });
+
+  it('should ignore row order unless the test requires it', () => {
+    const expected = { columns: ['id'], rows: [[1], [2]] };
+    const actual = { columns: ['id'], rows: [['2'], ['1']] };
+
+    expect(compareResultSets(expected, actual, false).passed).toBe(true);
+    expect(compareResultSets(expected, actual, true).passed).toBe(false);
+    expect(compareResultSets(expected, actual, true).diff.firstMismatchIndex).toBe(0);
+  });
+
+  it('should allow numeric differences within the float tolerance', () => {
+    const expected = { columns: ['avg'], rows: [[1.5], [2.3333]] };
+    const actual = { columns: ['avg'], rows: [['2.33333333'], ['1.50000000']] };
+
+    expect(compareResultSets(expected, actual, false).passed).toBe(false);
+    expect(compareResultSets(expected, actual, false, { tolerance: 0.001 }).passed).toBe(true);
+    expect(compareResultSets(expected, actual, true, { tolerance: 0.001 }).passed).toBe(false);
+  });
+
+  it('should report missing and unexpected rows', () => {
+    const expected = { columns: ['name'], rows: [['Ada'], ['Grace'], ['Grace']] };
+    const actual = { columns: ['name'], rows: [['Grace'], ['Linus']] };
+
+    const { passed, diff } = compareResultSets(expected, actual, false);
+
+    expect(passed).toBe(false);
+    expect(diff.missingRows).toEqual([['Ada'], ['Grace']]);
+    expect(diff.unexpectedRows).toEqual([['Linus']]);
+  });
+
+  it('should fail when the column names differ', () => {
+    const expected = { columns: ['total'], rows: [[3]] };
+    const actual = { columns: ['count'], rows: [[3]] };
+
+    const { passed, diff } = compareResultSets(expected, actual, false);
+
+    expect(passed).toBe(false);
+    expect(diff.columnsMatch).toBe(false);
+  });
+});
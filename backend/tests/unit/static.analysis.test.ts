@@ -0,0 +1,139 @@
+import { ExecutionBackendFactory } from '../../src/services/execution/backend.factory';
+import { LocalProcessBackend } from '../../src/services/execution/local.backend';
+import { deductPoints, scoreTestResults } from '../../src/services/execution/scoring';
+import {
+  AnalysisFinding,
+  FORBIDDEN_CONSTRUCT_RULE,
+  staticAnalyzer,
+  styleDeduction,
+  validateStaticAnalysis,
+} from '../../src/services/execution/static.analysis';
+
+describe('Static analysis', () => {
+  it('should validate analysis settings per language', () => {
+    expect(validateStaticAnalysis({ rules: { 'no-var': 'error', eqeqeq: ['warn', 'always'] } }, 'javascript')).toBeNull();
+    expect(validateStaticAnalysis({ rules: { 'line-too-long': ['warn', { max: 60 }] } }, 'python')).toBeNull();
+    expect(validateStaticAnalysis({ rules: { 'no-var': 'error' } }, 'python')).toMatch(/Unknown rule/);
+    expect(validateStaticAnalysis({ rules: { 'no-var': 'fatal' } }, 'javascript')).toMatch(/"off", "warn", "error"/);
+    expect(validateStaticAnalysis({ rules: { eqeqeq: ['error', 'sometimes'] } }, 'javascript')).toMatch(/options/);
+    expect(validateStaticAnalysis({ rules: { 'no-undef': 'error' } }, 'javascript')).toBeNull();
+    expect(validateStaticAnalysis({ forbidden: [{ type: 'call' }] }, 'java')).toMatch(/forbidden\[0\]/);
+    expect(validateStaticAnalysis({ deduction: { pointsPerError: 0 } }, 'java')).toMatch(/pointsPerError/);
+    expect(validateStaticAnalysis({}, 'cpp')).toMatch(/only supported/);
+  });
+
+  it('should report ESLint findings on the submitted lines', async () => {
+    const code = `function total(values) {
+  var sum = 0;
+  values.forEach((v) => { if (v == null) return; sum += v; });
+  return sum;
+}`;
+    const findings = await staticAnalyzer.analyze('javascript', code, {
+      rules: { 'no-var': 'error', eqeqeq: 'warn', 'no-console': 'off' },
+    });
+
+    expect(findings).toEqual([
+      expect.objectContaining({ ruleId: 'no-var', severity: 'error', line: 2, column: 3 }),
+      expect.objectContaining({ ruleId: 'eqeqeq', severity: 'warning', line: 3, column: 33 }),
+    ]);
+  });
+
+  it('should flag forbidden JavaScript constructs', async () => {
+    const code = `function sorted(values) {
+  for (const v of values) {}
+  return [...values].sort((a, b) => a - b).map((v) => Math.max(v, 0));
+}`;
+    const findings = await staticAnalyzer.analyze('javascript', code, {
+      forbidden: [
+        { type: 'loops' },
+        { type: 'call', name: 'Array.prototype.sort', message: 'Implement the sort yourself' },
+        { type: 'call', name: 'Math.max' },
+      ],
+    });
+
+    expect(findings.map(({ ruleId, line, message }) => ({ ruleId, line, message }))).toEqual([
+      { ruleId: FORBIDDEN_CONSTRUCT_RULE, line: 2, message: 'Loops are not allowed in this exercise' },
+      { ruleId: FORBIDDEN_CONSTRUCT_RULE, line: 3, message: 'Implement the sort yourself' },
+      { ruleId: FORBIDDEN_CONSTRUCT_RULE, line: 3, message: 'Math.max must not be used in this exercise' },
+    ]);
+    expect(await staticAnalyzer.analyze('javascript', 'function (', { forbidden: [{ type: 'loops' }] })).toEqual([]);
+  });
+
+  it('should check Java sources without comments and strings', async () => {
+    const code = `import java.util.*;
+
+public class solution {
+    // for (int i = 0; i < n; i++) is not a loop here
+    public int Sum(int[] values) {
+        String text = "while (true)";
+        try { Arrays.sort(values); } catch (Exception e) {}
+        return values.length;
+    }
+}`;
+    const findings = await staticAnalyzer.analyze('java', code, {
+      rules: { naming: 'warn', 'empty-catch': 'error', 'wildcard-import': 'warn' },
+      forbidden: [{ type: 'loops' }, { type: 'call', name: 'Arrays.sort' }],
+    });
+
+    expect(findings.map(({ ruleId, severity, line }) => ({ ruleId, severity, line }))).toEqual([
+      { ruleId: 'wildcard-import', severity: 'warning', line: 1 },
+      { ruleId: 'naming', severity: 'warning', line: 3 },
+      { ruleId: 'naming', severity: 'warning', line: 5 },
+      { ruleId: FORBIDDEN_CONSTRUCT_RULE, severity: 'error', line: 7 },
+      { ruleId: 'empty-catch', severity: 'error', line: 7 },
+    ]);
+  });
+
+  it('should run the Python checks in the execution backend', async () => {
+    const backend = new LocalProcessBackend({
+      pythonCommand: 'python3',
+      javacCommand: 'javac',
+      javaCommand: 'java',
+      cxxCommand: 'g++',
+    });
+    const getBackend = jest.spyOn(ExecutionBackendFactory, 'getBackend').mockReturnValue(backend);
+
+    try {
+      const code = `import os
+from math import *
+
+def Total(values, seen=[]):
+    while values:
+        values = values[1:]
+    return sorted(values) if values != None else None`;
+      const findings = await staticAnalyzer.analyze('python', code, {
+        rules: { 'unused-import': 'warn', 'wildcard-import': 'error', naming: 'warn', 'mutable-default-argument': 'error' },
+        forbidden: [{ type: 'loops' }, { type: 'call', name: 'sorted' }],
+      });
+
+      expect(findings.map(({ ruleId, severity, line }) => ({ ruleId, severity, line }))).toEqual([
+        { ruleId: 'unused-import', severity: 'warning', line: 1 },
+        { ruleId: 'wildcard-import', severity: 'error', line: 2 },
+        { ruleId: 'naming', severity: 'warning', line: 4 },
+        { ruleId: 'mutable-default-argument', severity: 'error', line: 4 },
+        { ruleId: FORBIDDEN_CONSTRUCT_RULE, severity: 'error', line: 5 },
+        { ruleId: FORBIDDEN_CONSTRUCT_RULE, severity: 'error', line: 7 },
+      ]);
+    } finally {
+      getBackend.mockRestore();
+    }
+  });
+
+  it('should deduct points for errors only, up to the cap', () => {
+    const finding = (severity: AnalysisFinding['severity']): AnalysisFinding =>
+      ({ ruleId: 'no-var', message: '', severity, line: 1, column: 1 });
+    const findings = [finding('error'), finding('error'), finding('warning'), finding('error')];
+
+    expect(styleDeduction(findings, {}, 10)).toBe(0);
+    expect(styleDeduction(findings, { deduction: { pointsPerError: 1.5 } }, 10)).toBe(4.5);
+    expect(styleDeduction(findings, { deduction: { pointsPerError: 2, maxPoints: 3 } }, 10)).toBe(3);
+    expect(styleDeduction(findings, { deduction: { pointsPerError: 5 } }, 10)).toBe(10);
+
+    const scored = scoreTestResults(
+      [{ testCaseId: '1', testName: 't', passed: true, actual: 1, expected: 1, isHidden: false, points: 1 }],
+      10
+    );
+    expect(deductPoints(scored, 4.5)).toMatchObject({ score: 100, pointsEarned: 5.5 });
+    expect(deductPoints(scored, 12).pointsEarned).toBe(0);
+  });
+});
@@ -0,0 +1,66 @@
+import { diffLines } from '../../src/services/history/line.diff';
+import { diffTestResults } from '../../src/services/history/test.deltas';
+import { applyReplayEvents, validateReplay } from '../../src/services/history/replay';
+
+describe('Submission history', () => {
+  describe('diffLines', () => {
+    it('should mark added, removed and unchanged lines with their line numbers', () => {
+      const diff = diffLines('a\nb\nc\nd', 'a\nx\nc\nd\ne');
+
+      expect(diff).toEqual([
+        { type: 'unchanged', text: 'a', oldLine: 1, newLine: 1 },
+        { type: 'removed', text: 'b', oldLine: 2 },
+        { type: 'added', text: 'x', newLine: 2 },
+        { type: 'unchanged', text: 'c', oldLine: 3, newLine: 3 },
+        { type: 'unchanged', text: 'd', oldLine: 4, newLine: 4 },
+        { type: 'added', text: 'e', newLine: 5 },
+      ]);
+    });
+
+    it('should treat empty code as no lines', () => {
+      expect(diffLines('', 'one')).toEqual([{ type: 'added', text: 'one', newLine: 1 }]);
+    });
+  });
+
+  describe('diffTestResults', () => {
+    const result = (testCaseId: string, passed: boolean) =>
+      ({ testCaseId, testName: `test ${testCaseId}`, passed, actual: null, expected: null, isHidden: false, points: 1 });
+
+    it('should report tests that flipped or only ran once', () => {
+      const changes = diffTestResults(
+        [result('1', false), result('2', true), result('3', true), result('4', false)],
+        [result('1', true), result('2', false), result('3', true), result('5', true)]
+      );
+
+      expect(changes.map(({ testCaseId, change }) => [testCaseId, change])).toEqual([
+        ['1', 'fixed'],
+        ['2', 'broken'],
+        ['5', 'added'],
+        ['4', 'removed'],
+      ]);
+    });
+  });
+
+  describe('replay', () => {
+    const events = [
+      { t: 0, from: 0, to: 0, text: 'let x' },
+      { t: 120, from: 5, to: 5, text: ' = 1;' },
+      { t: 300, from: 4, to: 5, text: 'y' },
+    ];
+
+    it('should rebuild the code from the recorded edits', () => {
+      expect(applyReplayEvents('', events)).toBe('let y = 1;');
+      expect(validateReplay('', events, 'let y = 1;')).toEqual(events);
+    });
+
+    it('should reject recordings that do not end at the submitted code', () => {
+      expect(() => validateReplay('', events, 'let x = 1;')).toThrow('does not end at the submitted code');
+    });
+
+    it('should reject malformed events', () => {
+      expect(() => validateReplay('', [{ t: 0, from: 3, to: 4, text: 'a' }], 'a')).toThrow('event 0');
+      expect(() => validateReplay('', [{ t: 5, from: 0, to: 0, text: 'a' }, { t: 1, from: 0, to: 0, text: 'b' }], 'ba'))
+        .toThrow('event 1');
+    });
+  });
+});
@@ -17,9 +17,13 @@ import { QuizManager } from './components/quiz/QuizManager';
 import { QuizTaker } from './components/quiz/QuizTaker';
 import { QuizResults } from './components/quiz/QuizResults';
 import { QuizReview } from './components/quiz/QuizReview';
+import { QuizGrading } from './components/quiz/QuizGrading';
+import { QuestionBanks } from './components/quiz/QuestionBanks';
 import { ExerciseList } from './components/exercises/ExerciseList';
 import { ExerciseManagerWrapper } from './components/exercises/ExerciseManagerWrapper';
 import { ExerciseEditorWrapper } from './components/exercises/ExerciseEditorWrapper';
+import { SimilarityReport } from './components/exercises/SimilarityReport';
+import { LearnerHistory } from './components/exercises/LearnerHistory';
 import { ExerciseSolver } from './components/exercises/ExerciseSolver';
 import { AppLayout } from './components/layout/AppLayout';
 import { useAuth } from './hooks/useAuth';
@@ -324,6 +328,18 @@ const App: React.FC = () => {
         }
       />
 
+      {/* Instructor: Manage question banks for a topic */}
+      <Route
+        path="/topics/:topicId/banks"
+        element={
+          <ProtectedRoute requiredRoles={[UserRole.INSTRUCTOR, UserRole.ADMIN]}>
+            <AppLayout>
+              <QuestionBanks />
+            </AppLayout>
+          </ProtectedRoute>
+        }
+      />
+
       {/* Learner: Take a quiz */}
       <Route
         path="/quizzes/:quizId"
@@ -356,6 +372,18 @@ const App: React.FC = () => {
         }
       />
 
+      {/* Instructor: Grade written answers */}
+      <Route
+        path="/quizzes/:quizId/grading"
+        element={
+          <ProtectedRoute requiredRoles={[UserRole.INSTRUCTOR, UserRole.ADMIN]}>
+            <AppLayout>
+              <QuizGrading />
+            </AppLayout>
+          </ProtectedRoute>
+        }
+      />
+
       {/* Exercise Routes */}
       {/* Instructor: Manage exercises for a topic */}
       <Route
@@ -393,6 +421,30 @@ const App: React.FC = () => {
         }
       />
 
+      {/* Instructor: Similar submissions for an exercise */}
+      <Route
+        path="/exercises/:exerciseId/similarity"
+        element={
+          <ProtectedRoute requiredRoles={[UserRole.INSTRUCTOR, UserRole.ADMIN]}>
+            <AppLayout>
+              <SimilarityReport />
+            </AppLayout>
+          </ProtectedRoute>
+        }
+      />
+
+      {/* Instructor: How learners' code evolved on an exercise */}
+      <Route
+        path="/exercises/:exerciseId/history"
+        element={
+          <ProtectedRoute requiredRoles={[UserRole.INSTRUCTOR, UserRole.ADMIN]}>
+            <AppLayout>
+              <LearnerHistory />
+            </AppLayout>
+          </ProtectedRoute>
+        }
+      />
+
       {/* Learner: Work on an exercise */}
       <Route
         path="/exercises/:exerciseId"
@@ -0,0 +1,47 @@
+import React from 'react';
+import type { StaticAnalysisResult } from '../../services/codeExecution.service';
+
+interface AnalysisFindingsProps {
+  analysis: StaticAnalysisResult;
+  submitted: boolean; // False for runs, where the deduction is only a preview
+}
+
+/**
+ * Lint findings on the learner's code, next to the lines marked in the editor
+ */
+export const AnalysisFindings: React.FC<AnalysisFindingsProps> = ({ analysis, submitted }) => {
+  if (analysis.findings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 border border-gray-200 rounded-md">
+      <div className="bg-gray-50 px-4 py-2 border-b border-gray-200 flex justify-between text-sm">
+        <span className="font-semibold text-gray-900">
+          Code Analysis ({analysis.findings.length} {analysis.findings.length === 1 ? 'issue' : 'issues'})
+        </span>
+        {analysis.deduction > 0 && (
+          <span className="text-red-700">
+            {submitted ? `−${analysis.deduction} points` : `Submitting would cost ${analysis.deduction} points`}
+          </span>
+        )}
+      </div>
+      <ul className="divide-y divide-gray-100 text-sm">
+        {analysis.findings.map((finding, index) => (
+          <li key={index} className="px-4 py-2 flex items-start gap-3">
+            <span className={`shrink-0 px-2 py-0.5 text-xs rounded ${
+              finding.severity === 'error' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+            }`}>
+              {finding.severity === 'error' ? 'Error' : 'Warning'}
+            </span>
+            <span className="shrink-0 font-mono text-xs text-gray-500 pt-0.5">
+              {finding.line}:{finding.column}
+            </span>
+            <span className="flex-1 text-gray-800">{finding.message}</span>
+            <span className="shrink-0 font-mono text-xs text-gray-400 pt-0.5">{finding.ruleId}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
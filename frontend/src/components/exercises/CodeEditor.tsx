@@ -1,68 +1,238 @@
-import React, { useState, useEffect } from 'react';
-import { codeExecutionService, TestCase, TestResult } from '../../services/codeExecution.service';
+import React, { useState, useEffect, useRef } from 'react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { prism } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import {
+  AnalysisFinding,
+  CodeDraft,
+  codeExecutionService,
+  CodeRunResult,
+  ReplayEvent,
+  StaticAnalysisResult,
+  SubmissionResult,
+  TestCase,
+  TestResult,
+} from '../../services/codeExecution.service';
+import { Exercise } from '../../services/exercise.service';
+import {
+  COMPARATOR_LABELS,
+  CUSTOM_INPUT_PLACEHOLDERS,
+  ExerciseLanguage,
+  LANGUAGE_LABELS,
+  LIMIT_LABELS,
+  SYNTAX_MODES,
+} from '../../constants/exercises';
+import { RunOutput } from './RunOutput';
+import { AnalysisFindings } from './AnalysisFindings';
+
+interface ReplayRecording {
+  initialCode: string;
+  startedAt: number;
+  events: ReplayEvent[];
+}
+
+// Edit that turns `before` into `after`: the changed range between their common prefix and suffix
+const describeEdit = (before: string, after: string, t: number): ReplayEvent => {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let end = 0;
+  while (end < before.length - start && end < after.length - start
+    && before[before.length - 1 - end] === after[after.length - 1 - end]) end++;
+  return { t, from: start, to: before.length - end, text: after.slice(start, after.length - end) };
+};
+
+// How often changed code is autosaved as a draft
+const AUTOSAVE_INTERVAL_MS = 5000;
 
 interface CodeEditorProps {
   exerciseId: string;
   starterCode: string;
-  language: 'javascript' | 'java';
+  initialDraft?: CodeDraft | null; // Autosaved code to continue from
+  language: ExerciseLanguage;
   testCases: TestCase[];
+  hiddenTestScoring?: Exercise['hidden_test_scoring'];
   onSubmissionComplete?: (result: any) => void;
 }
 
 export const CodeEditor: React.FC<CodeEditorProps> = ({
   exerciseId,
   starterCode,
+  initialDraft = null,
   language,
   testCases,
+  hiddenTestScoring = 'always',
   onSubmissionComplete,
 }) => {
-  const [code, setCode] = useState(starterCode);
+  const [code, setCode] = useState(initialDraft?.code ?? starterCode);
   const [isRunning, setIsRunning] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [testResults, setTestResults] = useState<TestResult[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [submissionResult, setSubmissionResult] = useState<any>(null);
+  const [queueStatus, setQueueStatus] = useState<SubmissionResult['status'] | null>(null);
+  const [runResult, setRunResult] = useState<CodeRunResult | null>(null);
+  const [useCustomInput, setUseCustomInput] = useState(false);
+  const [customInput, setCustomInput] = useState('');
+  const [recordReplay, setRecordReplay] = useState(true);
+  const [draftStatus, setDraftStatus] = useState<'saving' | 'saved' | 'failed' | null>(initialDraft ? 'saved' : null);
+  // Set when another tab saved or reset the draft; autosave waits until the learner picks a version
+  const [draftConflict, setDraftConflict] = useState<{ draft: CodeDraft | null } | null>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  // Edits since the last submission, saved with the next one for replay
+  const recordingRef = useRef<ReplayRecording>({
+    initialCode: initialDraft?.code ?? starterCode,
+    startedAt: Date.now(),
+    events: [],
+  });
+  // The autosave timer reads the latest code and the draft version it replaces
+  const codeRef = useRef(code);
+  codeRef.current = code;
+  const draftRef = useRef<{ version: number | null; savedCode: string; saving: boolean }>({
+    version: initialDraft?.version ?? null,
+    savedCode: code,
+    saving: false,
+  });
+
+  const updateCode = (next: string) => {
+    const recording = recordingRef.current;
+    if (recording.events.length === 0) {
+      recording.startedAt = Date.now();
+    }
+    recording.events.push(describeEdit(code, next, Date.now() - recording.startedAt));
+    setCode(next);
+  };
+
+  const saveDraft = async (keepalive = false) => {
+    const draft = draftRef.current;
+    const current = codeRef.current;
+    if (draft.saving || current === draft.savedCode) return;
+
+    draft.saving = true;
+    setDraftStatus('saving');
+    try {
+      const saved = await codeExecutionService.saveDraft(exerciseId, current, draft.version, keepalive);
+      draft.version = saved.version;
+      draft.savedCode = current;
+      setDraftStatus('saved');
+    } catch (err: any) {
+      if (err.response?.status === 409) {
+        setDraftConflict({ draft: err.response?.data?.error?.details?.draft ?? null });
+        setDraftStatus(null);
+      } else {
+        setDraftStatus('failed');
+      }
+    } finally {
+      draft.saving = false;
+    }
+  };
+
+  useEffect(() => {
+    if (draftConflict) return;
+    const timer = setInterval(() => saveDraft(), AUTOSAVE_INTERVAL_MS);
+    // Also save when the learner switches away or leaves, which may be the last chance
+    const flush = () => saveDraft(true);
+    const flushWhenHidden = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', flushWhenHidden);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', flushWhenHidden);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [exerciseId, draftConflict]);
+
+  // Continue from the draft another tab saved
+  const handleLoadOtherDraft = () => {
+    const other = draftConflict?.draft;
+    updateCode(other?.code ?? starterCode);
+    draftRef.current.version = other?.version ?? null;
+    draftRef.current.savedCode = other?.code ?? starterCode;
+    setDraftConflict(null);
+    setDraftStatus(other ? 'saved' : null);
+  };
 
-  const handleRunTests = async () => {
+  // Replace the other tab's draft with this code on the next autosave
+  const handleKeepMyDraft = () => {
+    draftRef.current.version = draftConflict?.draft?.version ?? null;
+    draftRef.current.savedCode = draftConflict?.draft?.code ?? starterCode;
+    setDraftConflict(null);
+  };
+
+  // Keep the highlighted layer aligned with the textarea while scrolling
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+      highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    }
+  };
+
+  // Run without submitting: nothing is stored and only public tests are used
+  const handleRun = async () => {
     setIsRunning(true);
     setError(null);
     setTestResults([]);
+    setSubmissionResult(null);
+    setRunResult(null);
 
     try {
-      if (language === 'javascript') {
-        const results = await codeExecutionService.executeJavaScript(code, testCases);
-        setTestResults(results);
-      } else {
-        setError('Run tests only available for JavaScript. Submit to test Java code.');
-      }
+      const result = await codeExecutionService.runCode(
+        exerciseId,
+        code,
+        useCustomInput ? customInput : undefined
+      );
+      setRunResult(result);
+      setTestResults(result.testResults);
     } catch (err: any) {
-      setError(err.message || 'Failed to execute code');
+      setError(err.response?.data?.error?.message || err.message || 'Failed to run code');
     } finally {
       setIsRunning(false);
     }
   };
 
-  const handleSubmit = async () => {
+  const handleSubmit = async (isFinal = false) => {
     setIsSubmitting(true);
     setError(null);
+    setRunResult(null);
+
+    // Edits made while this submission is graded belong to the next one
+    const recording = recordingRef.current;
+    recordingRef.current = { initialCode: code, startedAt: Date.now(), events: [] };
 
     try {
       let result;
 
-      if (language === 'javascript') {
-        // First run tests if not already run
-        let results = testResults;
-        if (results.length === 0) {
-          results = await codeExecutionService.executeJavaScript(code, testCases);
-          setTestResults(results);
-        }
+      switch (language) {
+        case 'javascript':
+          // Backend re-runs the code in its sandbox and computes the score
+          result = await codeExecutionService.submitJavaScript(exerciseId, code, isFinal);
+          break;
+        case 'python':
+          result = await codeExecutionService.submitPython(exerciseId, code, isFinal);
+          break;
+        case 'cpp':
+          result = await codeExecutionService.submitCpp(exerciseId, code, isFinal);
+          break;
+        case 'sql':
+          result = await codeExecutionService.submitSql(exerciseId, code, isFinal);
+          break;
+        default:
+          // Java: submit to backend for Judge0 execution
+          result = await codeExecutionService.submitJava(exerciseId, code, isFinal);
+      }
 
-        // Submit results to backend
-        result = await codeExecutionService.submitJavaScript(exerciseId, code, results);
-      } else {
-        // Java: submit to backend for Judge0 execution
-        result = await codeExecutionService.submitJava(exerciseId, code);
-        setTestResults(result.testResults);
+      // Python, Java and C++ are graded by a queue worker
+      if (result.status === 'pending' || result.status === 'running') {
+        setQueueStatus(result.status);
+        result = await codeExecutionService.waitForSubmission(result.submissionId, setQueueStatus);
+      }
+      setTestResults(result.testResults);
+
+      if (recordReplay && recording.events.length > 0) {
+        // A replay that fails to save should not hide the submission result
+        await codeExecutionService
+          .saveReplay(result.submissionId, recording.initialCode, recording.events)
+          .catch((err) => console.error('Failed to save replay:', err));
       }
 
       setSubmissionResult(result);
@@ -70,22 +240,54 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
         onSubmissionComplete(result);
       }
     } catch (err: any) {
-      setError(err.message || 'Failed to submit code');
+      setError(err.response?.data?.error?.message || err.message || 'Failed to submit code');
     } finally {
       setIsSubmitting(false);
+      setQueueStatus(null);
     }
   };
 
   const handleReset = () => {
-    setCode(starterCode);
+    updateCode(starterCode);
+    setDraftConflict(null);
+    draftRef.current.version = null;
+    draftRef.current.savedCode = starterCode;
+    setDraftStatus(null);
+    codeExecutionService.deleteDraft(exerciseId).catch(() => setDraftStatus('failed'));
     setTestResults([]);
     setError(null);
     setSubmissionResult(null);
+    setRunResult(null);
   };
 
   const passedTests = testResults.filter((r) => r.passed).length;
   const totalTests = testResults.length;
-  const score = totalTests > 0 ? Math.round((passedTests / totalTests) * 100) : 0;
+  // Weighted by test points, the same way the server scores submissions
+  const availablePoints = testResults.reduce((sum, r) => sum + r.points, 0);
+  const earnedPoints = testResults.filter((r) => r.passed).reduce((sum, r) => sum + r.points, 0);
+  const score = availablePoints > 0 ? Math.round((earnedPoints / availablePoints) * 100) : 0;
+  // Hidden results come back redacted unless the exercise shows them in full
+  const isRedacted = (result: TestResult) => result.isHidden && result.error === undefined && !result.details;
+
+  // Lines with lint findings are marked in the editor, errors taking precedence over warnings
+  const analysis: StaticAnalysisResult | undefined = submissionResult?.analysis ?? runResult?.analysis;
+  const findingLines = new Map<number, AnalysisFinding['severity']>();
+  for (const finding of analysis?.findings ?? []) {
+    if (findingLines.get(finding.line) !== 'error') {
+      findingLines.set(finding.line, finding.severity);
+    }
+  }
+  const findingLineProps = (lineNumber: number): React.HTMLProps<HTMLElement> => {
+    const severity = findingLines.get(lineNumber);
+    if (!severity) return {};
+    const color = severity === 'error' ? '#dc2626' : '#ca8a04';
+    return {
+      style: {
+        backgroundColor: severity === 'error' ? 'rgba(254, 202, 202, 0.6)' : 'rgba(254, 240, 138, 0.6)',
+        textDecoration: `underline wavy ${color}`,
+      },
+    };
+  };
 
   return (
     <div className="flex flex-col h-full">
@@ -93,44 +295,157 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
       <div className="flex-1 mb-4">
         <div className="flex justify-between items-center mb-2">
           <label className="block text-sm font-medium text-gray-700">
-            Your Code ({language === 'javascript' ? 'JavaScript' : 'Java'})
+            Your Code ({LANGUAGE_LABELS[language]})
           </label>
-          <button
-            onClick={handleReset}
-            className="text-sm text-gray-600 hover:text-gray-900"
+          <div className="flex items-center gap-4">
+            {draftStatus && (
+              <span className={`text-xs ${draftStatus === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                {draftStatus === 'saving' ? 'Saving draft...' : draftStatus === 'saved' ? 'Draft saved' : 'Draft not saved'}
+              </span>
+            )}
+            <button
+              onClick={handleReset}
+              className="text-sm text-gray-600 hover:text-gray-900"
+            >
+              Reset to starter code
+            </button>
+          </div>
+        </div>
+        {draftConflict && (
+          <div className="mb-2 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+            <p className="mb-2">
+              {draftConflict.draft
+                ? 'This exercise was edited in another tab. Which version do you want to keep?'
+                : 'This exercise was reset in another tab. Which version do you want to keep?'}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={handleLoadOtherDraft}
+                className="px-3 py-1 bg-yellow-600 text-white rounded hover:bg-yellow-700"
+              >
+                {draftConflict.draft ? 'Load the other version' : 'Load the starter code'}
+              </button>
+              <button
+                onClick={handleKeepMyDraft}
+                className="px-3 py-1 bg-white border border-yellow-300 rounded hover:bg-yellow-100"
+              >
+                Keep my code
+              </button>
+            </div>
+          </div>
+        )}
+        <div className="relative h-full min-h-[400px]">
+          {/* Highlighted copy of the code drawn underneath a transparent textarea */}
+          <div
+            ref={highlightRef}
+            aria-hidden="true"
+            className="absolute inset-0 overflow-hidden border border-transparent rounded-md pointer-events-none"
           >
-            Reset to starter code
-          </button>
+            <SyntaxHighlighter
+              language={SYNTAX_MODES[language]}
+              style={prism}
+              wrapLongLines
+              wrapLines={findingLines.size > 0}
+              lineProps={findingLineProps}
+              customStyle={{
+                margin: 0,
+                padding: '1rem',
+                background: 'transparent',
+                fontSize: '0.875rem',
+                lineHeight: '1.25rem',
+                overflow: 'visible',
+              }}
+              codeTagProps={{ style: { fontFamily: 'inherit' } }}
+              className="font-mono"
+            >
+              {code.endsWith('\n') ? `${code} ` : code}
+            </SyntaxHighlighter>
+          </div>
+          <textarea
+            value={code}
+            onChange={(e) => updateCode(e.target.value)}
+            onScroll={handleScroll}
+            className="relative w-full h-full min-h-[400px] p-4 font-mono text-sm bg-transparent text-transparent caret-gray-900 border border-gray-300 rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="Write your code here..."
+            spellCheck={false}
+          />
         </div>
-        <textarea
-          value={code}
-          onChange={(e) => setCode(e.target.value)}
-          className="w-full h-full min-h-[400px] p-4 font-mono text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-          placeholder="Write your code here..."
-          spellCheck={false}
-        />
+      </div>
+
+      {/* Custom Input */}
+      <div className="mb-4">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={useCustomInput}
+            onChange={(e) => setUseCustomInput(e.target.checked)}
+            className="h-4 w-4 mr-2 rounded"
+          />
+          Run with custom input
+        </label>
+        <label className="flex items-center mt-1 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={recordReplay}
+            onChange={(e) => setRecordReplay(e.target.checked)}
+            className="h-4 w-4 mr-2 rounded"
+          />
+          Save a replay of my typing with each submission
+        </label>
+        {useCustomInput && (
+          <textarea
+            value={customInput}
+            onChange={(e) => setCustomInput(e.target.value)}
+            className="mt-2 w-full p-2 font-mono text-sm border border-gray-300 rounded-md"
+            rows={3}
+            placeholder={CUSTOM_INPUT_PLACEHOLDERS[language]}
+            spellCheck={false}
+          />
+        )}
       </div>
 
       {/* Action Buttons */}
       <div className="flex gap-3 mb-4">
-        {language === 'javascript' && (
-          <button
-            onClick={handleRunTests}
-            disabled={isRunning || isSubmitting}
-            className="px-6 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {isRunning ? 'Running Tests...' : 'Run Tests'}
-          </button>
-        )}
         <button
-          onClick={handleSubmit}
+          onClick={handleRun}
+          disabled={isRunning || isSubmitting}
+          title={useCustomInput
+            ? 'Run once on your input without submitting'
+            : `Check against the ${testCases.length} public test${testCases.length === 1 ? '' : 's'} without submitting`}
+          className="px-6 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRunning ? 'Running...' : 'Run'}
+        </button>
+        <button
+          onClick={() => handleSubmit(false)}
           disabled={isRunning || isSubmitting}
           className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
         >
-          {isSubmitting ? 'Submitting...' : 'Submit Solution'}
+          {!isSubmitting
+            ? 'Submit Solution'
+            : queueStatus === 'pending'
+              ? 'Waiting in queue...'
+              : queueStatus === 'running'
+                ? 'Grading...'
+                : 'Submitting...'}
         </button>
+        {hiddenTestScoring === 'final_only' && (
+          <button
+            onClick={() => handleSubmit(true)}
+            disabled={isRunning || isSubmitting}
+            className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Submit Final
+          </button>
+        )}
       </div>
 
+      {hiddenTestScoring === 'final_only' && (
+        <p className="mb-4 text-sm text-gray-600">
+          Hidden tests only run when you submit your final solution.
+        </p>
+      )}
+
       {/* Error Display */}
       {error && (
         <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
@@ -138,6 +453,33 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
         </div>
       )}
 
+      {/* Compiler Output */}
+      {(submissionResult?.compilerOutput || (runResult?.mode === 'tests' && runResult.compilerOutput)) && (
+        <div className="mb-4 border border-red-200 rounded-md">
+          <div className="bg-red-50 px-4 py-2 border-b border-red-200">
+            <h3 className="font-semibold text-red-800">Compilation Failed</h3>
+          </div>
+          <pre className="p-4 text-xs text-gray-800 overflow-x-auto whitespace-pre-wrap">
+            {submissionResult?.compilerOutput || runResult?.compilerOutput}
+          </pre>
+        </div>
+      )}
+
+      {/* Static Analysis */}
+      {analysis && <AnalysisFindings analysis={analysis} submitted={!!submissionResult} />}
+
+      {/* Run Output */}
+      {runResult?.output && <RunOutput output={runResult.output} />}
+      {runResult?.mode === 'tests' && (
+        <p className="mb-4 text-sm text-gray-600">
+          Run only: public tests, nothing was submitted
+          {runResult.executionTimeMs !== undefined && ` · ${Math.round(runResult.executionTimeMs)} ms`}
+          {runResult.errorMessage && !runResult.compilerOutput && (
+            <span className="block text-red-700">{runResult.errorMessage}</span>
+          )}
+        </p>
+      )}
+
       {/* Submission Result */}
       {submissionResult && (
         <div className={`mb-4 p-4 rounded-md border ${
@@ -153,6 +495,13 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
           </div>
           <p className="text-sm">
             Passed {submissionResult.passedTests} of {submissionResult.totalTests} tests
+            {submissionResult.maxPoints !== undefined && (
+              <> · {submissionResult.pointsEarned ?? 0} / {submissionResult.maxPoints} points</>
+            )}
+            {submissionResult.analysis?.deduction > 0 && (
+              <> (−{submissionResult.analysis.deduction} for code analysis)</>
+            )}
+            {submissionResult.isFinal && ' · Final submission'}
           </p>
         </div>
       )}
@@ -166,7 +515,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
             </h3>
           </div>
           <div className="divide-y divide-gray-200">
-            {testResults.filter(r => !r.isHidden).map((result, index) => (
+            {testResults.map((result, index) => (
               <div
                 key={index}
                 className={`p-4 ${result.passed ? 'bg-white' : 'bg-red-50'}`}
@@ -174,12 +523,76 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
                 <div className="flex items-center justify-between mb-2">
                   <span className="font-medium text-gray-900">
                     {result.passed ? '✅' : '❌'} {result.testName}
+                    {result.isHidden && (
+                      <span className="ml-2 text-xs text-gray-500">(hidden)</span>
+                    )}
+                    {result.comparator && result.comparator !== 'exact' && (
+                      <span className="ml-2 text-xs text-gray-500">
+                        {COMPARATOR_LABELS[result.comparator]}
+                      </span>
+                    )}
+                    {result.status && (
+                      <span className="ml-2 px-2 py-0.5 text-xs rounded bg-orange-100 text-orange-800">
+                        {LIMIT_LABELS[result.status]}
+                      </span>
+                    )}
                   </span>
                   <span className="text-sm text-gray-600">
+                    {result.executionTime !== undefined && `${Math.round(result.executionTime)} ms · `}
                     {result.points} {result.points === 1 ? 'point' : 'points'}
                   </span>
                 </div>
-                {!result.passed && (
+                {!result.passed && result.details?.counterexample && (
+                  <div className="mt-2 space-y-1">
+                    <div className="text-sm">
+                      <span className="font-medium text-gray-700">Smallest failing input:</span>{' '}
+                      <code className="bg-gray-100 px-2 py-1 rounded text-xs">
+                        {JSON.stringify(result.details.counterexample.args)}
+                      </code>
+                    </div>
+                    <div className="text-sm">
+                      <span className="font-medium text-gray-700">Expected:</span>{' '}
+                      <code className="bg-gray-100 px-2 py-1 rounded text-xs">
+                        {JSON.stringify(result.expected)}
+                      </code>
+                    </div>
+                    <div className="text-sm">
+                      <span className="font-medium text-gray-700">Got:</span>{' '}
+                      <code className="bg-red-100 px-2 py-1 rounded text-xs">
+                        {JSON.stringify(result.actual)}
+                      </code>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Random seed {result.details.seed}
+                    </div>
+                  </div>
+                )}
+                {!result.passed && result.details && !result.details.counterexample && (
+                  <div className="mt-2 space-y-1">
+                    <div className="text-sm text-red-700">{result.error}</div>
+                    {result.details.missingRows?.length > 0 && (
+                      <div className="text-sm">
+                        <span className="font-medium text-gray-700">Missing rows:</span>
+                        {result.details.missingRows.map((row: any[], rowIndex: number) => (
+                          <code key={rowIndex} className="block bg-gray-100 px-2 py-1 mt-1 rounded text-xs">
+                            {JSON.stringify(row)}
+                          </code>
+                        ))}
+                      </div>
+                    )}
+                    {result.details.unexpectedRows?.length > 0 && (
+                      <div className="text-sm">
+                        <span className="font-medium text-gray-700">Unexpected rows:</span>
+                        {result.details.unexpectedRows.map((row: any[], rowIndex: number) => (
+                          <code key={rowIndex} className="block bg-red-100 px-2 py-1 mt-1 rounded text-xs">
+                            {JSON.stringify(row)}
+                          </code>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {!result.passed && !result.details && !isRedacted(result) && (
                   <div className="mt-2 space-y-1">
                     <div className="text-sm">
                       <span className="font-medium text-gray-700">Expected:</span>{' '}
@@ -203,9 +616,9 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({
               </div>
             ))}
           </div>
-          {testResults.some(r => r.isHidden) && (
+          {testResults.some(isRedacted) && (
             <div className="bg-gray-50 px-4 py-3 border-t border-gray-200 text-sm text-gray-600">
-              {testResults.filter(r => r.isHidden).length} hidden test case(s) not shown
+              Details of hidden test cases are not shown
             </div>
           )}
         </div>
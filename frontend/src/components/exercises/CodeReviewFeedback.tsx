@@ -0,0 +1,35 @@
+import React from 'react';
+import type { CodeReview } from '../../services/codeExecution.service';
+
+interface CodeReviewFeedbackProps {
+  review: CodeReview;
+}
+
+/**
+ * AI feedback on a failing submission
+ */
+export const CodeReviewFeedback: React.FC<CodeReviewFeedbackProps> = ({ review }) => (
+  <div className="space-y-3 text-sm">
+    {review.bugLocation.description && (
+      <div>
+        <h3 className="font-medium text-gray-900">
+          Where to look{review.bugLocation.line !== null && ` (line ${review.bugLocation.line})`}
+        </h3>
+        <p className="text-gray-700">{review.bugLocation.description}</p>
+      </div>
+    )}
+    {review.misconception && (
+      <div>
+        <h3 className="font-medium text-gray-900">What might be misunderstood</h3>
+        <p className="text-gray-700">{review.misconception}</p>
+      </div>
+    )}
+    {review.nudge && (
+      <div className="bg-indigo-50 border border-indigo-200 rounded-md p-3">
+        <h3 className="font-medium text-indigo-900">Try this</h3>
+        <p className="text-indigo-800">{review.nudge}</p>
+      </div>
+    )}
+    <p className="text-xs text-gray-500">Generated by {review.model}. AI feedback can be wrong.</p>
+  </div>
+);
@@ -1,23 +1,68 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { httpClient } from '../../utils/http-client';
+import {
+  ComparatorOptions,
+  ComparatorType,
+  Exercise,
+  ExerciseValidationReport,
+  ExerciseVariant,
+  exerciseService,
+  ExerciseType,
+  ExerciseTypeConfig,
+  ProjectFile,
+} from '../../services/exercise.service';
+import { TestCaseComparatorFields } from './TestCaseComparatorFields';
+import { ExerciseLimitsFields, parseLimit } from './ExerciseLimitsFields';
+import { FunctionSignatureField, SIGNATURE_LANGUAGES } from './FunctionSignatureField';
+import { ANALYSIS_LANGUAGES, StaticAnalysisField } from './StaticAnalysisField';
+import { PROJECT_LANGUAGES, ProjectFilesEditor } from './ProjectFilesEditor';
+import { DERIVED_CODE_TYPES, ExerciseTypeEditor, typeConfigPayload } from './ExerciseTypeEditor';
+import { ExerciseValidationPanel } from './ExerciseValidationPanel';
+import {
+  ExerciseLanguage,
+  LANGUAGE_LABELS,
+  STARTER_TEMPLATES,
+  TRANSLATION_LANGUAGES,
+  TranslationLanguage,
+} from '../../constants/exercises';
 
 interface ExerciseFormData {
   title: string;
   description: string;
   instructions: string;
-  language: 'javascript' | 'java';
+  language: ExerciseLanguage;
   difficultyLevel: 'beginner' | 'intermediate' | 'advanced';
   starterCode: string;
+  setupSql: string;
+  hiddenTestScoring: Exercise['hidden_test_scoring'];
+  hiddenTestVisibility: Exercise['hidden_test_visibility'];
+  inputGenerator: string; // JSON, empty for none
+  functionSignature: string; // JSON, empty for none
+  staticAnalysis: string; // JSON, empty for none
+  projectFiles: ProjectFile[] | null; // Multi-file project, replaces the starter and solution code
+  exerciseType: ExerciseType;
+  typeConfig: ExerciseTypeConfig | null; // Parsons and fill-in-the-blank settings replace the starter and solution code
+  timeLimitSeconds: string; // Empty for the platform default
+  memoryLimitMb: string;
   solutionCode: string;
   points: number;
   isPublished: boolean;
 }
 
+const INPUT_GENERATOR_PLACEHOLDER = `{
+  "args": [{ "type": "array", "items": { "type": "int", "min": -100, "max": 100 }, "maxLength": 20 }],
+  "count": 200,
+  "points": 2
+}`;
+
 interface TestCaseFormData {
   testName: string;
   testType: 'public' | 'hidden';
   inputData: string;
   expectedOutput: string;
+  comparator: ComparatorType;
+  comparatorOptions: ComparatorOptions;
   points: number;
 }
 
@@ -29,6 +74,7 @@ interface ExerciseEditorProps {
   initialData: ExerciseFormData;
   initialTestCases: any[];
   initialHints: any[];
+  initialVariants: ExerciseVariant[]; // The exercise in other languages
   onComplete?: () => void;
 }
 
@@ -40,6 +86,7 @@ export const ExerciseEditor: React.FC<ExerciseEditorProps> = ({
   initialData,
   initialTestCases,
   initialHints,
+  initialVariants,
   onComplete,
 }) => {
   const [step, setStep] = useState<'exercise' | 'testcases' | 'hints'>('exercise');
@@ -50,17 +97,24 @@ export const ExerciseEditor: React.FC<ExerciseEditorProps> = ({
       testType: tc.test_type,
       inputData: JSON.stringify(tc.input_data),
       expectedOutput: JSON.stringify(tc.expected_output),
+      comparator: tc.comparator || 'exact',
+      comparatorOptions: tc.comparator_options || {},
       points: tc.points,
     }))
   );
 
   const [isSaving, setIsSaving] = useState(false);
+  const [isValidating, setIsValidating] = useState(false);
+  const [validationReport, setValidationReport] = useState<ExerciseValidationReport | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [generatedHints, setGeneratedHints] = useState<any[]>(initialHints);
   const [isGenerating, setIsGenerating] = useState(false);
   const [providers, setProviders] = useState<any[]>([]);
   const [selectedProvider, setSelectedProvider] = useState<string>('');
+  const [variants, setVariants] = useState<ExerciseVariant[]>(initialVariants);
+  const [translateTo, setTranslateTo] = useState<TranslationLanguage | ''>('');
+  const [isTranslating, setIsTranslating] = useState(false);
 
   // Load AI providers
   React.useEffect(() => {
@@ -89,7 +143,94 @@ export const ExerciseEditor: React.FC<ExerciseEditorProps> = ({
     }
   };
 
+  const handleLanguageChange = (language: ExerciseLanguage) => {
+    // Swap in the new language's template unless the starter code was edited
+    const isTemplate = !exercise.starterCode.trim()
+      || Object.values(STARTER_TEMPLATES).includes(exercise.starterCode);
+    setExercise({
+      ...exercise,
+      language,
+      starterCode: isTemplate ? STARTER_TEMPLATES[language] : exercise.starterCode,
+    });
+  };
+
+  // Projects are graded by their own test suite
+  const projectFiles = PROJECT_LANGUAGES.includes(exercise.language) && exercise.exerciseType === 'code'
+    ? exercise.projectFiles
+    : null;
+  const typeConfig = typeConfigPayload(exercise.exerciseType, exercise.typeConfig);
+  const derivedCode = DERIVED_CODE_TYPES.includes(exercise.exerciseType);
+
+  // The randomized tests JSON, or undefined (after reporting it) when it does not parse
+  const parseInputGenerator = () => {
+    if (exercise.language === 'sql' || projectFiles || !exercise.inputGenerator.trim()) return null;
+    try {
+      return JSON.parse(exercise.inputGenerator);
+    } catch {
+      setError('Randomized tests must be valid JSON');
+      return undefined;
+    }
+  };
+
+  // The function signature JSON, or undefined (after reporting it) when it does not parse
+  const parseFunctionSignature = () => {
+    if (!SIGNATURE_LANGUAGES.includes(exercise.language) || projectFiles || !exercise.functionSignature.trim()) return null;
+    try {
+      return JSON.parse(exercise.functionSignature);
+    } catch {
+      setError('Function signature must be valid JSON');
+      return undefined;
+    }
+  };
+
+  // The static analysis JSON, or undefined (after reporting it) when it does not parse
+  const parseStaticAnalysis = () => {
+    if (!ANALYSIS_LANGUAGES.includes(exercise.language) || projectFiles || !exercise.staticAnalysis.trim()) return null;
+    try {
+      return JSON.parse(exercise.staticAnalysis);
+    } catch {
+      setError('Static analysis settings must be valid JSON');
+      return undefined;
+    }
+  };
+
+  const handleValidate = async () => {
+    const inputGenerator = parseInputGenerator();
+    const functionSignature = parseFunctionSignature();
+    if (inputGenerator === undefined || functionSignature === undefined) return;
+
+    setIsValidating(true);
+    setError(null);
+
+    try {
+      // Validate the code as currently edited, saved or not
+      const report = await exerciseService.validateExercise(exerciseId, {
+        language: exercise.language,
+        starterCode: exercise.starterCode,
+        solutionCode: exercise.solutionCode,
+        setupSql: exercise.language === 'sql' ? exercise.setupSql : undefined,
+        inputGenerator,
+        functionSignature,
+        projectFiles: projectFiles ?? undefined,
+        exerciseType: exercise.exerciseType,
+        typeConfig,
+        timeLimitSeconds: parseLimit(exercise.timeLimitSeconds),
+        memoryLimitMb: parseLimit(exercise.memoryLimitMb),
+      });
+      setValidationReport(report);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to validate exercise');
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
   const handleSaveExercise = async () => {
+    const inputGenerator = parseInputGenerator();
+    const functionSignature = parseFunctionSignature();
+    const staticAnalysis = parseStaticAnalysis();
+    if (inputGenerator === undefined || functionSignature === undefined || staticAnalysis === undefined) return;
+
     setIsSaving(true);
     setError(null);
     setSuccessMessage(null);
@@ -102,6 +243,17 @@ export const ExerciseEditor: React.FC<ExerciseEditorProps> = ({
         language: exercise.language,
         difficultyLevel: exercise.difficultyLevel,
         starterCode: exercise.starterCode,
+        setupSql: exercise.language === 'sql' ? exercise.setupSql : undefined,
+        hiddenTestScoring: exercise.hiddenTestScoring,
+        hiddenTestVisibility: exercise.hiddenTestVisibility,
+        inputGenerator,
+        functionSignature,
+        staticAnalysis,
+        projectFiles,
+        exerciseType: exercise.exerciseType,
+        typeConfig,
+        timeLimitSeconds: parseLimit(exercise.timeLimitSeconds),
+        memoryLimitMb: parseLimit(exercise.memoryLimitMb),
         solutionCode: exercise.solutionCode,
         points: exercise.points,
         isPublished: exercise.isPublished,
@@ -110,11 +262,49 @@ export const ExerciseEditor: React.FC<ExerciseEditorProps> = ({
       setSuccessMessage('Exercise updated successfully!');
     } catch (err: any) {
       setError(err.response?.data?.error?.message || 'Failed to update exercise');
+      // Publishing is blocked with the validation report as details
+      const details = err.response?.data?.error?.details;
+      if (details?.problems) {
+        setValidationReport(details);
+      }
     } finally {
       setIsSaving(false);
     }
   };
 
+  const handleTranslate = async () => {
+    if (!selectedProvider || !translateTo) {
+      setError('Please select an AI provider and a language');
+      return;
+    }
+
+    setIsTranslating(true);
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      // Translates the saved exercise, not unsaved edits
+      const { exercise: translated } = await exerciseService.translateExercise(exerciseId, translateTo, selectedProvider);
+      setVariants([...variants, {
+        id: translated.id,
+        title: translated.title,
+        language: translated.language,
+        is_published: translated.is_published,
+      }]);
+      setTranslateTo('');
+      setSuccessMessage(`Created the ${LANGUAGE_LABELS[translateTo]} version. Review it and publish it from its editor.`);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to translate exercise');
+      // A translation that fails validation is not saved; its report is the details
+      const details = err.response?.data?.error?.details;
+      if (details?.problems) {
+        setValidationReport(details);
+      }
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
   const handleSaveTestCases = async () => {
     setIsSaving(true);
     setError(null);
@@ -176,6 +366,8 @@ export const ExerciseEditor: React.FC<ExerciseEditorProps> = ({
         testType: 'public',
         inputData: '{"args": []}',
         expectedOutput: '{"result": null}',
+        comparator: 'exact',
+        comparatorOptions: {},
         points: 1,
       },
     ]);
@@ -212,7 +404,7 @@ export const ExerciseEditor: React.FC<ExerciseEditorProps> = ({
         {providers.length > 0 && (
           <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-md">
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              AI Provider (for generating hints)
+              AI Provider (for generating hints and translations)
             </label>
             <select
               value={selectedProvider}
@@ -309,12 +501,15 @@ export const ExerciseEditor: React.FC<ExerciseEditorProps> = ({
                 <select
                   value={exercise.language}
                   onChange={(e) =>
-                    setExercise({ ...exercise, language: e.target.value as 'javascript' | 'java' })
+                    handleLanguageChange(e.target.value as ExerciseLanguage)
                   }
                   className="w-full px-3 py-2 border border-gray-300 rounded-md"
                 >
                   <option value="javascript">JavaScript</option>
                   <option value="java">Java</option>
+                  <option value="python">Python</option>
+                  <option value="cpp">C++</option>
+                  <option value="sql">SQL</option>
                 </select>
               </div>
 
@@ -347,25 +542,145 @@ export const ExerciseEditor: React.FC<ExerciseEditorProps> = ({
               </div>
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Starter Code</label>
-              <textarea
-                value={exercise.starterCode}
-                onChange={(e) => setExercise({ ...exercise, starterCode: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
-                rows={8}
-              />
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Hidden Tests Run</label>
+                <select
+                  value={exercise.hiddenTestScoring}
+                  onChange={(e) =>
+                    setExercise({
+                      ...exercise,
+                      hiddenTestScoring: e.target.value as ExerciseFormData['hiddenTestScoring'],
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="always">On every submission</option>
+                  <option value="final_only">On the final submission only</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Hidden Test Feedback</label>
+                <select
+                  value={exercise.hiddenTestVisibility}
+                  onChange={(e) =>
+                    setExercise({
+                      ...exercise,
+                      hiddenTestVisibility: e.target.value as ExerciseFormData['hiddenTestVisibility'],
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="summary">Pass/fail only</option>
+                  <option value="names">Pass/fail with test names</option>
+                  <option value="full">Full details</option>
+                </select>
+              </div>
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Solution Code</label>
-              <textarea
-                value={exercise.solutionCode}
-                onChange={(e) => setExercise({ ...exercise, solutionCode: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
-                rows={8}
+            <ExerciseLimitsFields
+              timeLimitSeconds={exercise.timeLimitSeconds}
+              memoryLimitMb={exercise.memoryLimitMb}
+              onChange={(timeLimitSeconds, memoryLimitMb) => setExercise({ ...exercise, timeLimitSeconds, memoryLimitMb })}
+            />
+
+            <ExerciseTypeEditor
+              exerciseType={exercise.exerciseType}
+              typeConfig={exercise.typeConfig}
+              onChange={(exerciseType, config) => setExercise({ ...exercise, exerciseType, typeConfig: config })}
+            />
+
+            {exercise.exerciseType === 'code' && (
+              <ProjectFilesEditor
+                language={exercise.language}
+                value={projectFiles}
+                onChange={(files) => setExercise({ ...exercise, projectFiles: files })}
               />
-            </div>
+            )}
+
+            {exercise.language !== 'sql' && !projectFiles && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Randomized Tests (optional)</label>
+                <p className="text-xs text-gray-500 mb-1">
+                  Input generator as JSON. Submissions are also graded on generated inputs, with the solution code
+                  providing the expected output; failing inputs are shrunk to a minimal counterexample.
+                </p>
+                <textarea
+                  value={exercise.inputGenerator}
+                  onChange={(e) => setExercise({ ...exercise, inputGenerator: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+                  rows={4}
+                  placeholder={INPUT_GENERATOR_PLACEHOLDER}
+                />
+              </div>
+            )}
+
+            {SIGNATURE_LANGUAGES.includes(exercise.language) && !projectFiles && (
+              <FunctionSignatureField
+                value={exercise.functionSignature}
+                onChange={(functionSignature) => setExercise({ ...exercise, functionSignature })}
+              />
+            )}
+
+            {ANALYSIS_LANGUAGES.includes(exercise.language) && !projectFiles && (
+              <StaticAnalysisField
+                value={exercise.staticAnalysis}
+                onChange={(staticAnalysis) => setExercise({ ...exercise, staticAnalysis })}
+              />
+            )}
+
+            {exercise.language === 'sql' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Setup SQL</label>
+                <p className="text-xs text-gray-500 mb-1">
+                  Creates and seeds the tables the query runs against. Applied to a throwaway schema for every test.
+                </p>
+                <textarea
+                  value={exercise.setupSql}
+                  onChange={(e) => setExercise({ ...exercise, setupSql: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+                  rows={8}
+                />
+              </div>
+            )}
+
+            {!projectFiles && !derivedCode && (
+              <>
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      {exercise.exerciseType === 'debugging' ? 'Broken Starter Code' : 'Starter Code'}
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setExercise({ ...exercise, starterCode: STARTER_TEMPLATES[exercise.language] })
+                      }
+                      className="text-sm text-purple-600 hover:text-purple-800"
+                    >
+                      Insert {LANGUAGE_LABELS[exercise.language]} template
+                    </button>
+                  </div>
+                  <textarea
+                    value={exercise.starterCode}
+                    onChange={(e) => setExercise({ ...exercise, starterCode: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+                    rows={8}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Solution Code</label>
+                  <textarea
+                    value={exercise.solutionCode}
+                    onChange={(e) => setExercise({ ...exercise, solutionCode: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+                    rows={8}
+                  />
+                </div>
+              </>
+            )}
 
             <div className="flex items-center">
               <input
@@ -377,13 +692,71 @@ export const ExerciseEditor: React.FC<ExerciseEditorProps> = ({
               <label className="ml-2 text-sm text-gray-700">Published (visible to learners)</label>
             </div>
 
-            <button
-              onClick={handleSaveExercise}
-              disabled={isSaving}
-              className="w-full px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
-            >
-              {isSaving ? 'Saving...' : 'Update Exercise'}
-            </button>
+            {exercise.exerciseType !== 'parsons' && exercise.exerciseType !== 'fill_in_blank' && !projectFiles
+              && exercise.language !== 'sql' && (
+              <div className="p-4 bg-gray-50 border border-gray-200 rounded-md">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Other Languages</label>
+                {variants.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {variants.map((variant) => (
+                      <Link
+                        key={variant.id}
+                        to={`/exercises/${variant.id}/edit`}
+                        className="px-3 py-1 bg-white border border-gray-300 rounded text-sm text-blue-700 hover:bg-blue-50"
+                      >
+                        {LANGUAGE_LABELS[variant.language]}
+                        {!variant.is_published && <span className="ml-1 text-xs text-gray-500">(draft)</span>}
+                      </Link>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 mb-2">
+                  Translate the saved exercise with AI. The translated solution must pass the translated tests before
+                  the new version is saved, unpublished and linked to this one.
+                </p>
+                <div className="flex gap-2">
+                  <select
+                    value={translateTo}
+                    onChange={(e) => setTranslateTo(e.target.value as TranslationLanguage | '')}
+                    className="px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Select language...</option>
+                    {TRANSLATION_LANGUAGES
+                      .filter((language) => language !== exercise.language
+                        && !variants.some((variant) => variant.language === language))
+                      .map((language) => (
+                        <option key={language} value={language}>{LANGUAGE_LABELS[language]}</option>
+                      ))}
+                  </select>
+                  <button
+                    onClick={handleTranslate}
+                    disabled={isTranslating || !translateTo || !selectedProvider}
+                    className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+                  >
+                    {isTranslating ? 'Translating and validating...' : 'Translate with AI'}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {validationReport && <ExerciseValidationPanel report={validationReport} />}
+
+            <div className="flex gap-3">
+              <button
+                onClick={handleValidate}
+                disabled={isValidating || isSaving}
+                className="px-6 py-3 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 disabled:opacity-50"
+              >
+                {isValidating ? 'Validating...' : 'Validate'}
+              </button>
+              <button
+                onClick={handleSaveExercise}
+                disabled={isSaving || isValidating}
+                className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Update Exercise'}
+              </button>
+            </div>
           </div>
         )}
 
@@ -432,6 +805,16 @@ export const ExerciseEditor: React.FC<ExerciseEditorProps> = ({
                     placeholder='Expected: {"result": 3}'
                     rows={2}
                   />
+                  <TestCaseComparatorFields
+                    comparator={tc.comparator}
+                    options={tc.comparatorOptions}
+                    isSql={exercise.language === 'sql'}
+                    onChange={(comparator, options) => {
+                      const updated = [...testCases];
+                      updated[index] = { ...updated[index], comparator, comparatorOptions: options };
+                      setTestCases(updated);
+                    }}
+                  />
                   <input
                     type="number"
                     value={tc.points}
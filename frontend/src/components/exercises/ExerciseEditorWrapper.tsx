@@ -81,12 +81,24 @@ export const ExerciseEditorWrapper: React.FC = () => {
         language: exercise.language,
         difficultyLevel: exercise.difficulty_level,
         starterCode: exercise.starter_code || '',
+        setupSql: exercise.setup_sql || '',
+        hiddenTestScoring: exercise.hidden_test_scoring || 'always',
+        hiddenTestVisibility: exercise.hidden_test_visibility || 'summary',
+        inputGenerator: exercise.input_generator ? JSON.stringify(exercise.input_generator, null, 2) : '',
+        functionSignature: exercise.function_signature ? JSON.stringify(exercise.function_signature, null, 2) : '',
+        staticAnalysis: exercise.static_analysis ? JSON.stringify(exercise.static_analysis, null, 2) : '',
+        projectFiles: exercise.project_files ?? null,
+        exerciseType: exercise.exercise_type ?? 'code',
+        typeConfig: exercise.type_config ?? null,
+        timeLimitSeconds: exercise.time_limit_seconds ? String(exercise.time_limit_seconds) : '',
+        memoryLimitMb: exercise.memory_limit_mb ? String(exercise.memory_limit_mb) : '',
         solutionCode: exercise.solution_code || '',
         points: exercise.points,
         isPublished: exercise.is_published,
       }}
       initialTestCases={exercise.test_cases || []}
       initialHints={exercise.hints || []}
+      initialVariants={exercise.variants || []}
       onComplete={handleComplete}
     />
   );
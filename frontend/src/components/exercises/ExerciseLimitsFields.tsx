@@ -0,0 +1,54 @@
+import React from 'react';
+
+interface ExerciseLimitsFieldsProps {
+  timeLimitSeconds: string; // Empty for the platform default
+  memoryLimitMb: string;
+  onChange: (timeLimitSeconds: string, memoryLimitMb: string) => void;
+}
+
+/**
+ * A limit field as sent to the API: null when left empty
+ */
+export const parseLimit = (value: string): number | null => (value.trim() ? Number(value) : null);
+
+/**
+ * CPU time and memory limits that apply to every test case of an exercise
+ */
+export const ExerciseLimitsFields: React.FC<ExerciseLimitsFieldsProps> = ({
+  timeLimitSeconds,
+  memoryLimitMb,
+  onChange,
+}) => (
+  <div>
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Time Limit per Test (seconds)</label>
+        <input
+          type="number"
+          value={timeLimitSeconds}
+          onChange={(e) => onChange(e.target.value, memoryLimitMb)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          min="1"
+          max="30"
+          placeholder="2"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Memory Limit per Test (MB)</label>
+        <input
+          type="number"
+          value={memoryLimitMb}
+          onChange={(e) => onChange(timeLimitSeconds, e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          min="16"
+          max="1024"
+          placeholder="128"
+        />
+      </div>
+    </div>
+    <p className="mt-1 text-xs text-gray-500">
+      Leave empty for the defaults. Test cases can override both, e.g. performance tests with large generated inputs.
+      SQL queries are limited by time only.
+    </p>
+  </div>
+);
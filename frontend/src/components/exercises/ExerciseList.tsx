@@ -65,7 +65,10 @@ export const ExerciseList: React.FC = () => {
       setSuccessMessage(`Exercise ${exercise.is_published ? 'unpublished' : 'published'} successfully`);
       await loadData();
     } catch (err: any) {
-      setError(err.message || 'Failed to update exercise');
+      // Publishing fails with the validation problems as details
+      const problems: string[] = err.response?.data?.error?.details?.problems || [];
+      const message = err.response?.data?.error?.message || err.message || 'Failed to update exercise';
+      setError(problems.length > 0 ? `${message}: ${problems.join('; ')}` : message);
     }
   };
 
@@ -309,6 +312,20 @@ export const ExerciseList: React.FC = () => {
                     >
                       Edit
                     </button>
+                    <button
+                      onClick={() => navigate(`/exercises/${exercise.id}/similarity`)}
+                      className="px-3 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 text-sm"
+                      title="Similar submissions"
+                    >
+                      Similarity
+                    </button>
+                    <button
+                      onClick={() => navigate(`/exercises/${exercise.id}/history`)}
+                      className="px-3 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm"
+                      title="Learner submission history"
+                    >
+                      History
+                    </button>
                     <button
                       onClick={() => handleDeleteExercise(exercise.id)}
                       className="px-3 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm"
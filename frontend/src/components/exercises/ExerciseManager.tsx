@@ -1,22 +1,56 @@
 import React, { useState } from 'react';
 import { httpClient } from '../../utils/http-client';
+import {
+  ComparatorOptions,
+  ComparatorType,
+  Exercise,
+  ExerciseType,
+  ExerciseTypeConfig,
+  ProjectFile,
+} from '../../services/exercise.service';
+import { TestCaseComparatorFields } from './TestCaseComparatorFields';
+import { ExerciseLimitsFields, parseLimit } from './ExerciseLimitsFields';
+import { FunctionSignatureField, SIGNATURE_LANGUAGES } from './FunctionSignatureField';
+import { ANALYSIS_LANGUAGES, StaticAnalysisField } from './StaticAnalysisField';
+import { PROJECT_LANGUAGES, ProjectFilesEditor } from './ProjectFilesEditor';
+import { DERIVED_CODE_TYPES, ExerciseTypeEditor, typeConfigPayload } from './ExerciseTypeEditor';
+import { ExerciseLanguage, STARTER_TEMPLATES } from '../../constants/exercises';
 
 interface ExerciseFormData {
   title: string;
   description: string;
   instructions: string;
-  language: 'javascript' | 'java';
+  language: ExerciseLanguage;
   difficultyLevel: 'beginner' | 'intermediate' | 'advanced';
   starterCode: string;
+  setupSql: string;
+  hiddenTestScoring: Exercise['hidden_test_scoring'];
+  hiddenTestVisibility: Exercise['hidden_test_visibility'];
+  inputGenerator: string; // JSON, empty for none
+  functionSignature: string; // JSON, empty for none
+  staticAnalysis: string; // JSON, empty for none
+  projectFiles: ProjectFile[] | null; // Multi-file project, replaces the starter and solution code
+  exerciseType: ExerciseType;
+  typeConfig: ExerciseTypeConfig | null; // Parsons and fill-in-the-blank settings replace the starter and solution code
+  timeLimitSeconds: string; // Empty for the platform default
+  memoryLimitMb: string;
   solutionCode: string;
   points: number;
 }
 
+const INPUT_GENERATOR_PLACEHOLDER = `{
+  "args": [{ "type": "array", "items": { "type": "int", "min": -100, "max": 100 }, "maxLength": 20 }],
+  "count": 200,
+  "points": 2
+}`;
+
 interface TestCaseFormData {
   testName: string;
   testType: 'public' | 'hidden';
   inputData: string;
   expectedOutput: string;
+  comparator: ComparatorType;
+  comparatorOptions: ComparatorOptions;
   points: number;
 }
 
@@ -42,7 +76,18 @@ export const ExerciseManager: React.FC<ExerciseManagerProps> = ({
     instructions: '',
     language: 'javascript',
     difficultyLevel: 'beginner',
-    starterCode: '',
+    starterCode: STARTER_TEMPLATES.javascript,
+    setupSql: '',
+    hiddenTestScoring: 'always',
+    hiddenTestVisibility: 'summary',
+    inputGenerator: '',
+    functionSignature: '',
+    staticAnalysis: '',
+    projectFiles: null,
+    exerciseType: 'code',
+    typeConfig: null,
+    timeLimitSeconds: '',
+    memoryLimitMb: '',
     solutionCode: '',
     points: 10,
   });
@@ -53,6 +98,8 @@ export const ExerciseManager: React.FC<ExerciseManagerProps> = ({
       testType: 'public',
       inputData: '{"args": []}',
       expectedOutput: '{"result": null}',
+      comparator: 'exact',
+      comparatorOptions: {},
       points: 1,
     },
   ]);
@@ -141,6 +188,17 @@ export const ExerciseManager: React.FC<ExerciseManagerProps> = ({
     }
   };
 
+  const handleLanguageChange = (language: ExerciseLanguage) => {
+    // Swap in the new language's template unless the starter code was edited
+    const isTemplate = !exercise.starterCode.trim()
+      || Object.values(STARTER_TEMPLATES).includes(exercise.starterCode);
+    setExercise({
+      ...exercise,
+      language,
+      starterCode: isTemplate ? STARTER_TEMPLATES[language] : exercise.starterCode,
+    });
+  };
+
   const handleToggleObjective = (objectiveId: string) => {
     setSelectedObjectives(prev =>
       prev.includes(objectiveId)
@@ -178,6 +236,8 @@ export const ExerciseManager: React.FC<ExerciseManagerProps> = ({
         testType: tc.test_type,
         inputData: JSON.stringify(tc.input_data),
         expectedOutput: JSON.stringify(tc.expected_output),
+        comparator: 'exact',
+        comparatorOptions: {},
         points: 1,
       }));
 
@@ -222,7 +282,41 @@ export const ExerciseManager: React.FC<ExerciseManagerProps> = ({
     }
   };
 
+  // Projects are graded by their own test suite
+  const projectFiles = PROJECT_LANGUAGES.includes(exercise.language) && exercise.exerciseType === 'code'
+    ? exercise.projectFiles
+    : null;
+  const derivedCode = DERIVED_CODE_TYPES.includes(exercise.exerciseType);
+
   const handleSaveExercise = async () => {
+    let inputGenerator = null;
+    if (exercise.language !== 'sql' && !projectFiles && exercise.inputGenerator.trim()) {
+      try {
+        inputGenerator = JSON.parse(exercise.inputGenerator);
+      } catch {
+        setError('Randomized tests must be valid JSON');
+        return;
+      }
+    }
+    let functionSignature = null;
+    if (SIGNATURE_LANGUAGES.includes(exercise.language) && !projectFiles && exercise.functionSignature.trim()) {
+      try {
+        functionSignature = JSON.parse(exercise.functionSignature);
+      } catch {
+        setError('Function signature must be valid JSON');
+        return;
+      }
+    }
+    let staticAnalysis = null;
+    if (ANALYSIS_LANGUAGES.includes(exercise.language) && !projectFiles && exercise.staticAnalysis.trim()) {
+      try {
+        staticAnalysis = JSON.parse(exercise.staticAnalysis);
+      } catch {
+        setError('Static analysis settings must be valid JSON');
+        return;
+      }
+    }
+
     setIsSaving(true);
     setError(null);
 
@@ -232,6 +326,14 @@ export const ExerciseManager: React.FC<ExerciseManagerProps> = ({
         `/topics/${topicId}/exercises`,
         {
           ...exercise,
+          setupSql: exercise.language === 'sql' ? exercise.setupSql : undefined,
+          inputGenerator,
+          functionSignature,
+          staticAnalysis,
+          projectFiles,
+          typeConfig: typeConfigPayload(exercise.exerciseType, exercise.typeConfig),
+          timeLimitSeconds: parseLimit(exercise.timeLimitSeconds),
+          memoryLimitMb: parseLimit(exercise.memoryLimitMb),
           topicId,
         }
       );
@@ -253,6 +355,8 @@ export const ExerciseManager: React.FC<ExerciseManagerProps> = ({
         testType: 'public',
         inputData: '{"args": []}',
         expectedOutput: '{"result": null}',
+        comparator: 'exact',
+        comparatorOptions: {},
         points: 1,
       },
     ]);
@@ -365,12 +469,15 @@ export const ExerciseManager: React.FC<ExerciseManagerProps> = ({
                 <select
                   value={exercise.language}
                   onChange={(e) =>
-                    setExercise({ ...exercise, language: e.target.value as any })
+                    handleLanguageChange(e.target.value as ExerciseLanguage)
                   }
                   className="w-full px-3 py-2 border border-gray-300 rounded-md"
                 >
                   <option value="javascript">JavaScript</option>
                   <option value="java">Java</option>
+                  <option value="python">Python</option>
+                  <option value="cpp">C++</option>
+                  <option value="sql">SQL</option>
                 </select>
               </div>
               <div className="flex-1">
@@ -484,36 +591,146 @@ export const ExerciseManager: React.FC<ExerciseManagerProps> = ({
               />
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Starter Code
-              </label>
-              <textarea
-                value={exercise.starterCode}
-                onChange={(e) => setExercise({ ...exercise, starterCode: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
-                rows={6}
-                placeholder="// Your starter code here..."
-              />
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Hidden Tests Run</label>
+                <select
+                  value={exercise.hiddenTestScoring}
+                  onChange={(e) =>
+                    setExercise({
+                      ...exercise,
+                      hiddenTestScoring: e.target.value as ExerciseFormData['hiddenTestScoring'],
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="always">On every submission</option>
+                  <option value="final_only">On the final submission only</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Hidden Test Feedback</label>
+                <select
+                  value={exercise.hiddenTestVisibility}
+                  onChange={(e) =>
+                    setExercise({
+                      ...exercise,
+                      hiddenTestVisibility: e.target.value as ExerciseFormData['hiddenTestVisibility'],
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="summary">Pass/fail only</option>
+                  <option value="names">Pass/fail with test names</option>
+                  <option value="full">Full details</option>
+                </select>
+              </div>
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Solution Code *
-              </label>
-              <textarea
-                value={exercise.solutionCode}
-                onChange={(e) => setExercise({ ...exercise, solutionCode: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
-                rows={8}
-                placeholder="// Complete solution here..."
-                required
+            <ExerciseLimitsFields
+              timeLimitSeconds={exercise.timeLimitSeconds}
+              memoryLimitMb={exercise.memoryLimitMb}
+              onChange={(timeLimitSeconds, memoryLimitMb) => setExercise({ ...exercise, timeLimitSeconds, memoryLimitMb })}
+            />
+
+            <ExerciseTypeEditor
+              exerciseType={exercise.exerciseType}
+              typeConfig={exercise.typeConfig}
+              onChange={(exerciseType, typeConfig) => setExercise({ ...exercise, exerciseType, typeConfig })}
+            />
+
+            {exercise.exerciseType === 'code' && (
+              <ProjectFilesEditor
+                language={exercise.language}
+                value={projectFiles}
+                onChange={(files) => setExercise({ ...exercise, projectFiles: files })}
               />
-            </div>
+            )}
+
+            {exercise.language !== 'sql' && !projectFiles && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Randomized Tests (optional)</label>
+                <p className="text-xs text-gray-500 mb-1">
+                  Input generator as JSON. Submissions are also graded on generated inputs, with the solution code
+                  providing the expected output; failing inputs are shrunk to a minimal counterexample.
+                </p>
+                <textarea
+                  value={exercise.inputGenerator}
+                  onChange={(e) => setExercise({ ...exercise, inputGenerator: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+                  rows={4}
+                  placeholder={INPUT_GENERATOR_PLACEHOLDER}
+                />
+              </div>
+            )}
+
+            {SIGNATURE_LANGUAGES.includes(exercise.language) && !projectFiles && (
+              <FunctionSignatureField
+                value={exercise.functionSignature}
+                onChange={(functionSignature) => setExercise({ ...exercise, functionSignature })}
+              />
+            )}
+
+            {ANALYSIS_LANGUAGES.includes(exercise.language) && !projectFiles && (
+              <StaticAnalysisField
+                value={exercise.staticAnalysis}
+                onChange={(staticAnalysis) => setExercise({ ...exercise, staticAnalysis })}
+              />
+            )}
+
+            {exercise.language === 'sql' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Setup SQL *
+                </label>
+                <p className="text-xs text-gray-500 mb-1">
+                  Creates and seeds the tables the query runs against. Applied to a throwaway schema for every test.
+                </p>
+                <textarea
+                  value={exercise.setupSql}
+                  onChange={(e) => setExercise({ ...exercise, setupSql: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+                  rows={6}
+                  placeholder="CREATE TABLE employees (...);&#10;INSERT INTO employees VALUES (...);"
+                />
+              </div>
+            )}
+
+            {!projectFiles && !derivedCode && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {exercise.exerciseType === 'debugging' ? 'Broken Starter Code' : 'Starter Code'}
+                  </label>
+                  <textarea
+                    value={exercise.starterCode}
+                    onChange={(e) => setExercise({ ...exercise, starterCode: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+                    rows={6}
+                    placeholder="// Your starter code here..."
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Solution Code *
+                  </label>
+                  <textarea
+                    value={exercise.solutionCode}
+                    onChange={(e) => setExercise({ ...exercise, solutionCode: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+                    rows={8}
+                    placeholder="// Complete solution here..."
+                    required
+                  />
+                </div>
+              </>
+            )}
 
             <button
               onClick={handleSaveExercise}
-              disabled={isSaving || !exercise.title || !exercise.solutionCode}
+              disabled={isSaving || !exercise.title || (!exercise.solutionCode && !projectFiles && !derivedCode)}
               className="w-full px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
             >
               {isSaving ? 'Saving...' : 'Save Exercise & Continue'}
@@ -615,6 +832,19 @@ export const ExerciseManager: React.FC<ExerciseManagerProps> = ({
                     />
                   </div>
                 </div>
+
+                <div className="mt-3">
+                  <TestCaseComparatorFields
+                    comparator={tc.comparator}
+                    options={tc.comparatorOptions}
+                    isSql={exercise.language === 'sql'}
+                    onChange={(comparator, options) => {
+                      const updated = [...testCases];
+                      updated[index] = { ...updated[index], comparator, comparatorOptions: options };
+                      setTestCases(updated);
+                    }}
+                  />
+                </div>
               </div>
             ))}
 
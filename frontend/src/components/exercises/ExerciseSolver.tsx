@@ -1,18 +1,37 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { exerciseService, type ExerciseWithDetails } from '../../services/exercise.service';
+import {
+  codeExecutionService,
+  type CodeDraft,
+  type CodeReview,
+  type SubmissionResult,
+} from '../../services/codeExecution.service';
 import { CodeEditor } from './CodeEditor';
+import { ProjectWorkspace } from './ProjectWorkspace';
+import { ParsonsWorkspace } from './ParsonsWorkspace';
+import { FillInBlankWorkspace } from './FillInBlankWorkspace';
+import { CodeReviewFeedback } from './CodeReviewFeedback';
+import { SubmissionTimeline } from './SubmissionTimeline';
+import { LANGUAGE_LABELS } from '../../constants/exercises';
 
 export const ExerciseSolver: React.FC = () => {
   const { exerciseId } = useParams<{ exerciseId: string }>();
   const navigate = useNavigate();
 
   const [exercise, setExercise] = useState<ExerciseWithDetails | null>(null);
+  const [draft, setDraft] = useState<CodeDraft | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showHints, setShowHints] = useState(false);
   const [requestedHints, setRequestedHints] = useState<Set<number>>(new Set());
   const [submissionComplete, setSubmissionComplete] = useState(false);
+  const [lastSubmission, setLastSubmission] = useState<SubmissionResult | null>(null);
+  const [review, setReview] = useState<CodeReview | null>(null);
+  const [reviewLoading, setReviewLoading] = useState(false);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [submissionCount, setSubmissionCount] = useState(0);
 
   useEffect(() => {
     loadExercise();
@@ -25,7 +44,12 @@ export const ExerciseSolver: React.FC = () => {
     try {
       setLoading(true);
       setError(null);
-      const data = await exerciseService.getExerciseById(exerciseId);
+      // Without a draft the editor starts from the starter code
+      const [data, savedDraft] = await Promise.all([
+        exerciseService.getExerciseById(exerciseId),
+        codeExecutionService.getDraft(exerciseId).catch(() => null),
+      ]);
+      setDraft(savedDraft);
       setExercise(data);
     } catch (err: any) {
       setError(err.message || 'Failed to load exercise');
@@ -64,11 +88,31 @@ export const ExerciseSolver: React.FC = () => {
     }
   };
 
-  const handleSubmissionComplete = (result: any) => {
+  const handleSubmissionComplete = (result: SubmissionResult) => {
     setSubmissionComplete(true);
-    // Show success message or navigate back
+    setLastSubmission(result);
+    setSubmissionCount((count) => count + 1);
+    setReview(null);
+    setReviewError(null);
   };
 
+  const handleRequestReview = async () => {
+    if (!lastSubmission) return;
+
+    try {
+      setReviewLoading(true);
+      setReviewError(null);
+      setReview(await codeExecutionService.reviewSubmission(lastSubmission.submissionId));
+    } catch (err: any) {
+      setReviewError(err.response?.data?.error?.message || 'Failed to get AI feedback');
+    } finally {
+      setReviewLoading(false);
+    }
+  };
+
+  const canRequestReview = lastSubmission !== null
+    && ['failed', 'error', 'timeout'].includes(lastSubmission.status);
+
   const getDifficultyColor = (level: string) => {
     switch (level) {
       case 'beginner':
@@ -142,6 +186,16 @@ export const ExerciseSolver: React.FC = () => {
             <span className="px-3 py-1 bg-blue-100 text-blue-800 text-sm font-medium rounded">
               {exercise.language}
             </span>
+            {exercise.variants?.map((variant) => (
+              <button
+                key={variant.id}
+                onClick={() => navigate(`/exercises/${variant.id}`)}
+                title={`Solve this exercise in ${LANGUAGE_LABELS[variant.language]}`}
+                className="px-3 py-1 border border-blue-200 text-blue-700 text-sm rounded hover:bg-blue-50"
+              >
+                {LANGUAGE_LABELS[variant.language]}
+              </button>
+            ))}
             <span className="px-3 py-1 bg-purple-100 text-purple-800 text-sm font-medium rounded">
               {exercise.points} points
             </span>
@@ -176,6 +230,52 @@ export const ExerciseSolver: React.FC = () => {
               </div>
             )}
 
+            {/* AI feedback on a failing submission */}
+            {canRequestReview && (
+              <div className="bg-white rounded-lg shadow p-6">
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="text-lg font-semibold text-gray-900">AI Feedback</h2>
+                  {!review && (
+                    <button
+                      onClick={handleRequestReview}
+                      disabled={reviewLoading}
+                      className="px-3 py-1 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      {reviewLoading ? 'Reviewing...' : 'Review my code'}
+                    </button>
+                  )}
+                </div>
+                {reviewError && <p className="text-sm text-red-700">{reviewError}</p>}
+                {review ? (
+                  <CodeReviewFeedback review={review} />
+                ) : (
+                  !reviewError && (
+                    <p className="text-sm text-gray-600">
+                      Get a hint about where your last submission goes wrong, without the solution.
+                    </p>
+                  )
+                )}
+              </div>
+            )}
+
+            {/* Submission history */}
+            <div className="bg-white rounded-lg shadow p-6">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-900">Submission History</h2>
+                <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  className="text-sm text-purple-600 hover:text-purple-800"
+                >
+                  {showHistory ? 'Hide' : 'Show'} History
+                </button>
+              </div>
+              {showHistory && (
+                <div className="mt-4">
+                  <SubmissionTimeline exerciseId={exercise.id} refreshKey={submissionCount} />
+                </div>
+              )}
+            </div>
+
             {/* Hints */}
             {exercise.hints.length > 0 && (
               <div className="bg-white rounded-lg shadow p-6">
@@ -240,13 +340,50 @@ export const ExerciseSolver: React.FC = () => {
           {/* Right Column - Code Editor */}
           <div className="lg:sticky lg:top-24 h-fit">
             <div className="bg-white rounded-lg shadow p-6">
-              <CodeEditor
-                exerciseId={exercise.id}
-                starterCode={exercise.starter_code || '// Start coding here\n'}
-                language={exercise.language}
-                testCases={publicTestCases}
-                onSubmissionComplete={handleSubmissionComplete}
-              />
+              {exercise.project_files?.length ? (
+                <ProjectWorkspace
+                  exerciseId={exercise.id}
+                  language={exercise.language as 'javascript' | 'python' | 'java'}
+                  files={exercise.project_files}
+                  hiddenTestScoring={exercise.hidden_test_scoring}
+                  onSubmissionComplete={handleSubmissionComplete}
+                />
+              ) : exercise.exercise_type === 'parsons' && exercise.type_config?.lines ? (
+                <ParsonsWorkspace
+                  exerciseId={exercise.id}
+                  language={exercise.language}
+                  lines={exercise.type_config.lines.map((line) => ({ id: line.id!, code: line.code }))}
+                  hiddenTestScoring={exercise.hidden_test_scoring}
+                  onSubmissionComplete={handleSubmissionComplete}
+                />
+              ) : exercise.exercise_type === 'fill_in_blank' && exercise.type_config?.template ? (
+                <FillInBlankWorkspace
+                  exerciseId={exercise.id}
+                  language={exercise.language}
+                  template={exercise.type_config.template}
+                  blanks={exercise.type_config.blanks ?? []}
+                  hiddenTestScoring={exercise.hidden_test_scoring}
+                  onSubmissionComplete={handleSubmissionComplete}
+                />
+              ) : (
+                <>
+                  {exercise.exercise_type === 'debugging' && (
+                    <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-900">
+                      🐞 This code has a bug. Fix it so that at least {exercise.type_config?.minPassingTests ?? 1} of
+                      the tests pass.
+                    </div>
+                  )}
+                  <CodeEditor
+                    exerciseId={exercise.id}
+                    starterCode={exercise.starter_code || '// Start coding here\n'}
+                    initialDraft={draft}
+                    language={exercise.language}
+                    testCases={publicTestCases}
+                    hiddenTestScoring={exercise.hidden_test_scoring}
+                    onSubmissionComplete={handleSubmissionComplete}
+                  />
+                </>
+              )}
             </div>
           </div>
         </div>
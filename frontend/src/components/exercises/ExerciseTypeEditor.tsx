@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import type { CodeBlank, ExerciseType, ExerciseTypeConfig, ParsonsLine } from '../../services/exercise.service';
+
+interface ExerciseTypeEditorProps {
+  exerciseType: ExerciseType;
+  typeConfig: ExerciseTypeConfig | null;
+  onChange: (exerciseType: ExerciseType, typeConfig: ExerciseTypeConfig | null) => void;
+}
+
+export const EXERCISE_TYPE_LABELS: Record<ExerciseType, string> = {
+  code: 'Write code',
+  debugging: 'Fix the bug',
+  parsons: 'Parsons problem',
+  fill_in_blank: 'Fill in the blanks',
+};
+
+// Types whose starter and solution code come from the type settings
+export const DERIVED_CODE_TYPES: ExerciseType[] = ['parsons', 'fill_in_blank'];
+
+const DEFAULT_CONFIGS: Record<ExerciseType, ExerciseTypeConfig | null> = {
+  code: null,
+  debugging: { minPassingTests: 1 },
+  parsons: { lines: [] },
+  fill_in_blank: { template: '', blanks: [] },
+};
+
+const INDENT_WIDTH = 4;
+
+const linesToText = (lines: ParsonsLine[]) =>
+  lines.map((line) => `${' '.repeat((line.indent ?? 0) * INDENT_WIDTH)}${line.code}`).join('\n');
+
+// Lines of code, indented with four spaces (or a tab) per level
+const textToLines = (text: string, distractor: boolean): ParsonsLine[] =>
+  text.split('\n').filter((line) => line.trim()).map((line) => {
+    const indentation = line.match(/^\s*/)![0].replace(/\t/g, ' '.repeat(INDENT_WIDTH));
+    return {
+      code: line.trim(),
+      indent: Math.floor(indentation.length / INDENT_WIDTH),
+      ...(distractor ? { distractor: true } : {}),
+    };
+  });
+
+/**
+ * The settings to save: blanks follow the template's {{id}} markers and keep
+ * only non-empty answers
+ */
+export const typeConfigPayload = (
+  exerciseType: ExerciseType,
+  typeConfig: ExerciseTypeConfig | null
+): ExerciseTypeConfig | null => {
+  if (exerciseType !== 'fill_in_blank' || !typeConfig) return typeConfig;
+  return {
+    template: typeConfig.template,
+    blanks: (typeConfig.blanks ?? []).map((blank) => ({
+      ...blank,
+      answers: (blank.answers ?? []).map((answer) => answer.trim()).filter(Boolean),
+    })),
+  };
+};
+
+/**
+ * Exercise type selector with the settings of the selected type: the number
+ * of tests a debugging fix needs, the lines of a Parsons problem, or the
+ * template and accepted answers of a fill-in-the-blank exercise
+ */
+export const ExerciseTypeEditor: React.FC<ExerciseTypeEditorProps> = ({ exerciseType, typeConfig, onChange }) => {
+  const lines = typeConfig?.lines ?? [];
+  // Parsons lines are edited as code and parsed on every change
+  const [solutionText, setSolutionText] = useState(linesToText(lines.filter((line) => !line.distractor)));
+  const [distractorText, setDistractorText] = useState(
+    lines.filter((line) => line.distractor).map((line) => line.code).join('\n')
+  );
+
+  const handleTypeChange = (type: ExerciseType) => {
+    setSolutionText('');
+    setDistractorText('');
+    onChange(type, DEFAULT_CONFIGS[type]);
+  };
+
+  const handleLinesChange = (solution: string, distractors: string) => {
+    setSolutionText(solution);
+    setDistractorText(distractors);
+    onChange(exerciseType, { lines: [...textToLines(solution, false), ...textToLines(distractors, true)] });
+  };
+
+  // Blanks follow the markers in the template, keeping what was entered for each
+  const handleTemplateChange = (template: string) => {
+    const ids = [...new Set([...template.matchAll(/\{\{([\w-]+)\}\}/g)].map((match) => match[1]))];
+    const current = new Map((typeConfig?.blanks ?? []).map((blank) => [blank.id, blank]));
+    onChange(exerciseType, {
+      template,
+      blanks: ids.map((id) => current.get(id) ?? { id, answers: [], points: 1 }),
+    });
+  };
+
+  const updateBlank = (id: string, changes: Partial<CodeBlank>) => {
+    onChange(exerciseType, {
+      ...typeConfig,
+      blanks: (typeConfig?.blanks ?? []).map((blank) => (blank.id === id ? { ...blank, ...changes } : blank)),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Exercise Type</label>
+        <select
+          value={exerciseType}
+          onChange={(e) => handleTypeChange(e.target.value as ExerciseType)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+        >
+          {Object.entries(EXERCISE_TYPE_LABELS).map(([type, label]) => (
+            <option key={type} value={type}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {exerciseType === 'debugging' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Passing Tests Needed</label>
+          <p className="text-xs text-gray-500 mb-1">
+            The starter code is the broken program and the solution code the fixed one. A submission counts as fixed
+            once this many tests pass; the broken code must pass fewer.
+          </p>
+          <input
+            type="number"
+            min={1}
+            value={typeConfig?.minPassingTests ?? 1}
+            onChange={(e) => onChange(exerciseType, { minPassingTests: parseInt(e.target.value) || 1 })}
+            className="w-32 px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+      )}
+
+      {exerciseType === 'parsons' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Solution Lines</label>
+            <p className="text-xs text-gray-500 mb-1">
+              The solution in order, one block per line, indented with four spaces per level. Learners get the lines
+              shuffled and unindented.
+            </p>
+            <textarea
+              value={solutionText}
+              onChange={(e) => handleLinesChange(e.target.value, distractorText)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+              rows={10}
+              spellCheck={false}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Distractors (optional)</label>
+            <p className="text-xs text-gray-500 mb-1">
+              Plausible lines that do not belong in the solution, one per line.
+            </p>
+            <textarea
+              value={distractorText}
+              onChange={(e) => handleLinesChange(solutionText, e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+              rows={10}
+              spellCheck={false}
+            />
+          </div>
+        </div>
+      )}
+
+      {exerciseType === 'fill_in_blank' && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">Template</label>
+          <p className="text-xs text-gray-500">
+            The code learners complete, with a {'{{name}}'} marker for each blank. Each blank is graded against its
+            accepted answers; test cases, if any, run the completed code.
+          </p>
+          <textarea
+            value={typeConfig?.template ?? ''}
+            onChange={(e) => handleTemplateChange(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+            rows={10}
+            spellCheck={false}
+            placeholder={'for (let i = 0; i < {{limit}}; i++) {\n  total += {{term}};\n}'}
+          />
+          {(typeConfig?.blanks ?? []).map((blank) => (
+            <div key={blank.id} className="flex items-start gap-3">
+              <span className="w-24 pt-2 font-mono text-sm text-gray-700">{blank.id}</span>
+              <textarea
+                value={(blank.answers ?? []).join('\n')}
+                onChange={(e) => updateBlank(blank.id, { answers: e.target.value.split('\n') })}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+                rows={2}
+                placeholder="Accepted answers, one per line"
+              />
+              <input
+                type="number"
+                min={0}
+                value={blank.points ?? 1}
+                onChange={(e) => updateBlank(blank.id, { points: parseInt(e.target.value) || 0 })}
+                className="w-20 px-3 py-2 border border-gray-300 rounded-md"
+                title="Points"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { ExerciseValidationReport, ValidationRun } from '../../services/exercise.service';
+
+interface ExerciseValidationPanelProps {
+  report: ExerciseValidationReport;
+}
+
+const RunSummary: React.FC<{ label: string; run: ValidationRun | null; expectation: string }> = ({
+  label,
+  run,
+  expectation,
+}) => (
+  <div className="text-sm">
+    <div className="flex justify-between">
+      <span className="font-medium text-gray-700">{label}</span>
+      <span className="text-gray-600">
+        {run ? `${run.passedTests}/${run.totalTests} tests passed` : 'Not provided'}
+      </span>
+    </div>
+    <p className="text-xs text-gray-500">{expectation}</p>
+    {run?.compilerOutput && (
+      <pre className="mt-1 p-2 bg-gray-900 text-red-300 rounded text-xs overflow-x-auto">{run.compilerOutput}</pre>
+    )}
+  </div>
+);
+
+/**
+ * Outcome of running an exercise's solution and starter code against its tests
+ */
+export const ExerciseValidationPanel: React.FC<ExerciseValidationPanelProps> = ({ report }) => (
+  <div
+    className={`p-4 border rounded-md space-y-3 ${
+      report.valid ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+    }`}
+  >
+    <p className={`font-medium ${report.valid ? 'text-green-800' : 'text-red-800'}`}>
+      {report.valid ? 'Validation passed: the exercise can be published' : 'Validation failed'}
+    </p>
+
+    {report.problems.length > 0 && (
+      <ul className="list-disc list-inside text-sm text-red-700 space-y-1">
+        {report.problems.map((problem, index) => (
+          <li key={index}>{problem}</li>
+        ))}
+      </ul>
+    )}
+
+    <RunSummary label="Solution code" run={report.solution} expectation="Must pass every test case" />
+    <RunSummary label="Starter code" run={report.starterCode} expectation="Must fail at least one test case" />
+  </div>
+);
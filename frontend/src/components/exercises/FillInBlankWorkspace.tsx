@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { codeExecutionService, SubmissionResult } from '../../services/codeExecution.service';
+import { CodeBlank, Exercise } from '../../services/exercise.service';
+import { SubmissionOutcome } from './SubmissionOutcome';
+
+interface FillInBlankWorkspaceProps {
+  exerciseId: string;
+  language: Exercise['language'];
+  template: string; // Code with a {{id}} marker per blank
+  blanks: CodeBlank[];
+  hiddenTestScoring?: Exercise['hidden_test_scoring'];
+  onSubmissionComplete?: (result: SubmissionResult) => void;
+}
+
+/**
+ * Fill-in-the-blank code: the template is shown as code with an input for
+ * each blank. Every blank is graded on its own, and the completed code runs
+ * against the exercise's test cases if it has any.
+ */
+export const FillInBlankWorkspace: React.FC<FillInBlankWorkspaceProps> = ({
+  exerciseId,
+  language,
+  template,
+  blanks,
+  hiddenTestScoring = 'always',
+  onSubmissionComplete,
+}) => {
+  const [values, setValues] = useState<Record<string, string>>(
+    Object.fromEntries(blanks.map((blank) => [blank.id, '']))
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [queueStatus, setQueueStatus] = useState<SubmissionResult['status'] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submissionResult, setSubmissionResult] = useState<SubmissionResult | null>(null);
+
+  // Odd parts are blank ids, even parts the code around them
+  const parts = template.split(/\{\{([\w-]+)\}\}/);
+  const failedBlanks = new Set(
+    (submissionResult?.testResults ?? []).filter((r) => !r.passed).map((r) => r.testName.replace(/^Blank /, ''))
+  );
+
+  const handleSubmit = async (isFinal = false) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      let result = await codeExecutionService.submitAnswer(exerciseId, language, { blanks: values }, isFinal);
+      if (result.status === 'pending' || result.status === 'running') {
+        setQueueStatus(result.status);
+        result = await codeExecutionService.waitForSubmission(result.submissionId, setQueueStatus);
+      }
+      setSubmissionResult(result);
+      onSubmissionComplete?.(result);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to submit answers');
+    } finally {
+      setIsSubmitting(false);
+      setQueueStatus(null);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-900 mb-2">Fill in the blanks</h3>
+
+      <pre className="mb-4 p-4 border border-gray-300 rounded-md font-mono text-sm bg-gray-50 overflow-x-auto leading-8">
+        {parts.map((part, index) => {
+          if (index % 2 === 0) return <React.Fragment key={index}>{part}</React.Fragment>;
+          const value = values[part] ?? '';
+          return (
+            <input
+              key={index}
+              type="text"
+              value={value}
+              onChange={(e) => setValues({ ...values, [part]: e.target.value })}
+              aria-label={`Blank ${part}`}
+              placeholder={part}
+              spellCheck={false}
+              size={Math.max(6, value.length + 1)}
+              className={`px-1 border-b-2 bg-white font-mono text-sm focus:outline-none ${
+                failedBlanks.has(part) ? 'border-red-500' : 'border-blue-400'
+              }`}
+            />
+          );
+        })}
+      </pre>
+
+      <div className="flex gap-3 mb-4">
+        <button
+          onClick={() => handleSubmit(false)}
+          disabled={isSubmitting}
+          className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {!isSubmitting
+            ? 'Submit Answers'
+            : queueStatus === 'pending'
+              ? 'Waiting in queue...'
+              : queueStatus === 'running'
+                ? 'Grading...'
+                : 'Submitting...'}
+        </button>
+        {hiddenTestScoring === 'final_only' && (
+          <button
+            onClick={() => handleSubmit(true)}
+            disabled={isSubmitting}
+            className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Submit Final
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {submissionResult?.errorMessage && (
+        <pre className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-xs text-red-800 whitespace-pre-wrap">
+          {submissionResult.errorMessage}
+        </pre>
+      )}
+
+      <SubmissionOutcome submission={submissionResult} testResults={submissionResult?.testResults ?? []} />
+    </div>
+  );
+};
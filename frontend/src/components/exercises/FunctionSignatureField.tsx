@@ -0,0 +1,38 @@
+import React from 'react';
+
+interface FunctionSignatureFieldProps {
+  value: string; // JSON, empty for none
+  onChange: (value: string) => void;
+}
+
+// Languages whose exercises can declare the function learners implement
+export const SIGNATURE_LANGUAGES = ['java', 'python'];
+
+const FUNCTION_SIGNATURE_PLACEHOLDER = `{
+  "name": "twoSum",
+  "parameters": [{ "name": "nums", "type": "int[]" }, { "name": "target", "type": "int" }],
+  "returnType": "int[]"
+}`;
+
+/**
+ * The function a Java or Python exercise asks for, as JSON. With a signature
+ * the platform passes each test's input_data.args to the function, so the
+ * starter code does not need to read stdin.
+ */
+export const FunctionSignatureField: React.FC<FunctionSignatureFieldProps> = ({ value, onChange }) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-700 mb-1">Function Signature (optional)</label>
+    <p className="text-xs text-gray-500 mb-1">
+      Types: int, long, double, boolean, string and arrays like int[]. Tests call the function with input_data.args
+      and compare its return value with expected_output.result. Java code defines it in a class named Solution;
+      without starter code learners get a generated stub.
+    </p>
+    <textarea
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+      rows={4}
+      placeholder={FUNCTION_SIGNATURE_PLACEHOLDER}
+    />
+  </div>
+);
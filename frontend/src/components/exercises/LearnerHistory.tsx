@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { exerciseService } from '../../services/exercise.service';
+import { codeExecutionService, type ExerciseSubmitter } from '../../services/codeExecution.service';
+import { SubmissionTimeline } from './SubmissionTimeline';
+
+/**
+ * Instructor view of how each learner's code evolved on an exercise
+ */
+export const LearnerHistory: React.FC = () => {
+  const { exerciseId } = useParams<{ exerciseId: string }>();
+  const navigate = useNavigate();
+  const [exerciseTitle, setExerciseTitle] = useState('');
+  const [submitters, setSubmitters] = useState<ExerciseSubmitter[]>([]);
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!exerciseId) return;
+
+    exerciseService
+      .getExerciseById(exerciseId)
+      .then((exercise) => setExerciseTitle(exercise.title))
+      .catch(() => undefined);
+
+    setLoading(true);
+    codeExecutionService
+      .getSubmitters(exerciseId)
+      .then((data) => {
+        setSubmitters(data);
+        setSelectedUserId(data[0]?.userId ?? null);
+      })
+      .catch((err: any) => setError(err.response?.data?.error?.message || 'Failed to load learners'))
+      .finally(() => setLoading(false));
+  }, [exerciseId]);
+
+  if (!exerciseId) return null;
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <button
+        onClick={() => navigate(-1)}
+        className="mb-4 text-purple-600 hover:text-purple-800 font-medium"
+      >
+        ← Back
+      </button>
+      <h1 className="text-2xl font-bold text-gray-900">Submission History</h1>
+      {exerciseTitle && <p className="mb-6 text-gray-600">{exerciseTitle}</p>}
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center p-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
+        </div>
+      ) : submitters.length === 0 ? (
+        <div className="bg-white border border-gray-200 rounded-lg p-8 text-center text-gray-600">
+          No learner has submitted this exercise yet.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <ul className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100 h-fit">
+            {submitters.map((submitter) => (
+              <li key={submitter.userId}>
+                <button
+                  onClick={() => setSelectedUserId(submitter.userId)}
+                  className={`w-full text-left px-4 py-3 text-sm ${
+                    selectedUserId === submitter.userId ? 'bg-purple-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="font-medium text-gray-900">{submitter.userName}</div>
+                  <div className="text-gray-500">
+                    {submitter.submissionCount} submission{submitter.submissionCount === 1 ? '' : 's'}
+                    {' · '}
+                    <span className={submitter.hasPassed ? 'text-green-700' : 'text-red-700'}>
+                      {submitter.hasPassed ? 'passed' : 'not passed yet'}
+                    </span>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="lg:col-span-3 bg-white border border-gray-200 rounded-lg p-4">
+            {selectedUserId && <SubmissionTimeline exerciseId={exerciseId} userId={selectedUserId} />}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { codeExecutionService, SubmissionResult } from '../../services/codeExecution.service';
+import { Exercise } from '../../services/exercise.service';
+import { SubmissionOutcome } from './SubmissionOutcome';
+
+interface ParsonsWorkspaceProps {
+  exerciseId: string;
+  language: Exercise['language'];
+  lines: { id: string; code: string }[]; // Shuffled by the server, distractors included
+  hiddenTestScoring?: Exercise['hidden_test_scoring'];
+  onSubmissionComplete?: (result: SubmissionResult) => void;
+}
+
+interface PlacedLine {
+  id: string;
+  indent: number;
+}
+
+// Must match the indentation the server builds the solution with
+const INDENT = '    ';
+const MAX_INDENT = 10;
+
+/**
+ * Parsons problem: learners drag the shuffled lines into the solution area,
+ * put them in order and indent them. Lines not needed for the solution stay
+ * in the pool. The arranged lines are submitted as code.
+ */
+export const ParsonsWorkspace: React.FC<ParsonsWorkspaceProps> = ({
+  exerciseId,
+  language,
+  lines,
+  hiddenTestScoring = 'always',
+  onSubmissionComplete,
+}) => {
+  const [placed, setPlaced] = useState<PlacedLine[]>([]);
+  const [dragged, setDragged] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [queueStatus, setQueueStatus] = useState<SubmissionResult['status'] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submissionResult, setSubmissionResult] = useState<SubmissionResult | null>(null);
+
+  const codeOf = new Map(lines.map((line) => [line.id, line.code]));
+  const pool = lines.filter((line) => !placed.some((p) => p.id === line.id));
+
+  // Move a line into the solution before `index` (at the end when omitted), keeping its indentation
+  const placeLine = (id: string, index = placed.length) => {
+    const existing = placed.find((line) => line.id === id);
+    const without = placed.filter((line) => line.id !== id);
+    const position = existing && placed.indexOf(existing) < index ? index - 1 : index;
+    without.splice(position, 0, existing ?? { id, indent: 0 });
+    setPlaced(without);
+  };
+
+  const removeLine = (id: string) => setPlaced(placed.filter((line) => line.id !== id));
+
+  const indentLine = (id: string, change: number) => {
+    setPlaced(placed.map((line) => line.id === id
+      ? { ...line, indent: Math.min(MAX_INDENT, Math.max(0, line.indent + change)) }
+      : line));
+  };
+
+  const handleDrop = (e: React.DragEvent, index?: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (dragged) placeLine(dragged, index);
+    setDragged(null);
+  };
+
+  const handleSubmit = async (isFinal = false) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    const code = placed.map((line) => `${INDENT.repeat(line.indent)}${codeOf.get(line.id)}`).join('\n');
+    try {
+      let result = await codeExecutionService.submitAnswer(exerciseId, language, { code }, isFinal);
+      if (result.status === 'pending' || result.status === 'running') {
+        setQueueStatus(result.status);
+        result = await codeExecutionService.waitForSubmission(result.submissionId, setQueueStatus);
+      }
+      setSubmissionResult(result);
+      onSubmissionComplete?.(result);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to submit solution');
+    } finally {
+      setIsSubmitting(false);
+      setQueueStatus(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold text-gray-900">Arrange the lines</h3>
+        <button onClick={() => setPlaced([])} className="text-sm text-gray-600 hover:text-gray-800">
+          Start over
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Drag lines into your solution in the right order and indent them with ← and →. Not every line is needed.
+      </p>
+
+      <div className="space-y-4 mb-4">
+        <div
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (dragged) removeLine(dragged);
+            setDragged(null);
+          }}
+          className="min-h-[4rem] p-2 bg-gray-50 border border-dashed border-gray-300 rounded-md space-y-1"
+        >
+          <div className="text-xs font-medium text-gray-500 mb-1">Lines</div>
+          {pool.map((line) => (
+            <div
+              key={line.id}
+              draggable
+              onDragStart={() => setDragged(line.id)}
+              onClick={() => placeLine(line.id)}
+              title="Drag into your solution, or click to add it at the end"
+              className="px-3 py-1 bg-white border border-gray-300 rounded font-mono text-sm cursor-move hover:border-blue-400 whitespace-pre"
+            >
+              {line.code}
+            </div>
+          ))}
+        </div>
+
+        <div
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => handleDrop(e)}
+          className="min-h-[12rem] p-2 border-2 border-dashed border-blue-300 rounded-md space-y-1"
+        >
+          <div className="text-xs font-medium text-blue-700 mb-1">Your solution</div>
+          {placed.length === 0 && <p className="text-sm text-gray-400 p-2">Drop lines here</p>}
+          {placed.map((line, index) => (
+            <div
+              key={line.id}
+              draggable
+              onDragStart={() => setDragged(line.id)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => handleDrop(e, index)}
+              className="flex items-center gap-2 cursor-move"
+              style={{ paddingLeft: `${line.indent * 2}rem` }}
+            >
+              <span className="flex-1 px-3 py-1 bg-blue-50 border border-blue-200 rounded font-mono text-sm whitespace-pre">
+                {codeOf.get(line.id)}
+              </span>
+              <button
+                onClick={() => indentLine(line.id, -1)}
+                disabled={line.indent === 0}
+                title="Indent less"
+                className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+              >
+                ←
+              </button>
+              <button
+                onClick={() => indentLine(line.id, 1)}
+                disabled={line.indent === MAX_INDENT}
+                title="Indent more"
+                className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+              >
+                →
+              </button>
+              <button
+                onClick={() => removeLine(line.id)}
+                title="Put back"
+                className="px-2 text-gray-400 hover:text-red-600"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-3 mb-4">
+        <button
+          onClick={() => handleSubmit(false)}
+          disabled={isSubmitting || placed.length === 0}
+          className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {!isSubmitting
+            ? 'Submit Solution'
+            : queueStatus === 'pending'
+              ? 'Waiting in queue...'
+              : queueStatus === 'running'
+                ? 'Grading...'
+                : 'Submitting...'}
+        </button>
+        {hiddenTestScoring === 'final_only' && (
+          <button
+            onClick={() => handleSubmit(true)}
+            disabled={isSubmitting || placed.length === 0}
+            className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Submit Final
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {submissionResult?.errorMessage && (
+        <pre className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-xs text-red-800 whitespace-pre-wrap">
+          {submissionResult.errorMessage}
+        </pre>
+      )}
+
+      <SubmissionOutcome submission={submissionResult} testResults={submissionResult?.testResults ?? []} />
+    </div>
+  );
+};
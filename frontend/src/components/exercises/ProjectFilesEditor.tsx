@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import type { ProjectFile } from '../../services/exercise.service';
+
+interface ProjectFilesEditorProps {
+  language: string;
+  value: ProjectFile[] | null; // null for a single-file exercise
+  onChange: (value: ProjectFile[] | null) => void;
+}
+
+// Languages whose exercises can be multi-file projects
+export const PROJECT_LANGUAGES = ['javascript', 'python', 'java'];
+
+// Files each language's test runner picks up
+const TEST_FILE_HINTS: Record<string, string> = {
+  javascript: '*.test.js or *.spec.js, using node:test',
+  python: 'test_*.py or *_test.py, run with pytest',
+  java: 'Test*.java or *Test.java, using JUnit 5',
+};
+
+const STARTER_PROJECTS: Record<string, ProjectFile[]> = {
+  javascript: [
+    { path: 'src/index.js', content: 'module.exports = {};\n', access: 'editable', solution: 'module.exports = {};\n' },
+    {
+      path: 'test/index.test.js',
+      content: "const { test } = require('node:test');\nconst assert = require('node:assert');\n",
+      access: 'hidden',
+    },
+  ],
+  python: [
+    { path: 'solution.py', content: '', access: 'editable', solution: '' },
+    { path: 'tests/test_solution.py', content: 'import solution\n', access: 'hidden' },
+  ],
+  java: [
+    { path: 'src/Solution.java', content: 'public class Solution {\n}\n', access: 'editable', solution: 'public class Solution {\n}\n' },
+    {
+      path: 'test/SolutionTest.java',
+      content: 'import org.junit.jupiter.api.Test;\nimport static org.junit.jupiter.api.Assertions.*;\n\nclass SolutionTest {\n}\n',
+      access: 'hidden',
+    },
+  ],
+};
+
+const ACCESS_LABELS: Record<ProjectFile['access'], string> = {
+  editable: 'Editable',
+  readonly: 'Read-only',
+  hidden: 'Hidden',
+};
+
+/**
+ * The files of a project exercise as a file tree with an editor for the
+ * selected file. Learners edit the editable files and see the read-only ones;
+ * hidden files (usually the grading tests) stay on the server.
+ */
+export const ProjectFilesEditor: React.FC<ProjectFilesEditorProps> = ({ language, value, onChange }) => {
+  const [selectedPath, setSelectedPath] = useState<string | null>(value?.[0]?.path ?? null);
+  const [newPath, setNewPath] = useState('');
+
+  if (!PROJECT_LANGUAGES.includes(language)) {
+    return null;
+  }
+
+  const files = value ?? [];
+  const selected = files.find((file) => file.path === selectedPath) ?? null;
+  const sortedFiles = [...files].sort((a, b) => a.path.localeCompare(b.path));
+
+  const handleToggle = (enabled: boolean) => {
+    const starter = enabled ? STARTER_PROJECTS[language] : null;
+    onChange(starter);
+    setSelectedPath(starter?.[0]?.path ?? null);
+  };
+
+  const updateFile = (path: string, changes: Partial<ProjectFile>) => {
+    onChange(files.map((file) => {
+      if (file.path !== path) return file;
+      const updated = { ...file, ...changes };
+      // Only editable files have a solution
+      if (updated.access !== 'editable') delete updated.solution;
+      else if (updated.solution === undefined) updated.solution = updated.content;
+      return updated;
+    }));
+  };
+
+  const handleAddFile = () => {
+    const path = newPath.trim();
+    if (!path || files.some((file) => file.path === path)) return;
+    onChange([...files, { path, content: '', access: 'editable', solution: '' }]);
+    setSelectedPath(path);
+    setNewPath('');
+  };
+
+  const handleDeleteFile = (path: string) => {
+    onChange(files.filter((file) => file.path !== path));
+    if (selectedPath === path) setSelectedPath(null);
+  };
+
+  return (
+    <div>
+      <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+        <input
+          type="checkbox"
+          checked={value !== null}
+          onChange={(e) => handleToggle(e.target.checked)}
+          className="mr-2"
+        />
+        Multi-file project
+      </label>
+      <p className="text-xs text-gray-500 mb-2">
+        Learners work on several files and are graded by a test suite ({TEST_FILE_HINTS[language]}). Each test is
+        worth one point; a test case named after a test, like tests/test_cart.py::test_total, sets its points and
+        visibility. Replaces the starter and solution code.
+      </p>
+
+      {value !== null && (
+        <div className="flex border border-gray-300 rounded-md overflow-hidden">
+          <div className="w-64 bg-gray-50 border-r border-gray-300 flex flex-col">
+            <ul className="flex-1 text-sm">
+              {sortedFiles.map((file) => (
+                <li
+                  key={file.path}
+                  className={`flex items-center justify-between px-2 py-1 cursor-pointer ${
+                    file.path === selectedPath ? 'bg-blue-100' : 'hover:bg-gray-100'
+                  }`}
+                  onClick={() => setSelectedPath(file.path)}
+                >
+                  <span className="font-mono truncate" title={file.path}>
+                    <span className="text-gray-400">{file.path.slice(0, file.path.lastIndexOf('/') + 1)}</span>
+                    {file.path.split('/').pop()}
+                  </span>
+                  <span className="ml-2 text-xs text-gray-500">{ACCESS_LABELS[file.access]}</span>
+                </li>
+              ))}
+            </ul>
+            <div className="p-2 border-t border-gray-300 flex gap-1">
+              <input
+                type="text"
+                value={newPath}
+                onChange={(e) => setNewPath(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleAddFile();
+                  }
+                }}
+                placeholder="path/to/file"
+                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-xs font-mono"
+              />
+              <button
+                type="button"
+                onClick={handleAddFile}
+                className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 p-3 space-y-2">
+            {selected ? (
+              <>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-mono text-sm text-gray-900">{selected.path}</span>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={selected.access}
+                      onChange={(e) => updateFile(selected.path, { access: e.target.value as ProjectFile['access'] })}
+                      className="px-2 py-1 border border-gray-300 rounded text-sm"
+                    >
+                      {Object.entries(ACCESS_LABELS).map(([access, label]) => (
+                        <option key={access} value={access}>{label}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteFile(selected.path)}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                <label className="block text-xs font-medium text-gray-600">
+                  {selected.access === 'editable' ? 'Starter content' : 'Content'}
+                </label>
+                <textarea
+                  value={selected.content}
+                  onChange={(e) => updateFile(selected.path, { content: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+                  rows={12}
+                />
+                {selected.access === 'editable' && (
+                  <>
+                    <label className="block text-xs font-medium text-gray-600">Solution</label>
+                    <textarea
+                      value={selected.solution ?? ''}
+                      onChange={(e) => updateFile(selected.path, { solution: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+                      rows={12}
+                    />
+                  </>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Select a file to edit it.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import {
+  codeExecutionService,
+  CodeRunResult,
+  SubmissionResult,
+  TestResult,
+} from '../../services/codeExecution.service';
+import { Exercise, ProjectFile } from '../../services/exercise.service';
+import { SubmissionOutcome } from './SubmissionOutcome';
+
+interface ProjectWorkspaceProps {
+  exerciseId: string;
+  language: 'javascript' | 'python' | 'java';
+  files: ProjectFile[]; // Editable and read-only files; hidden ones never reach the browser
+  hiddenTestScoring?: Exercise['hidden_test_scoring'];
+  onSubmissionComplete?: (result: SubmissionResult) => void;
+}
+
+/**
+ * Multi-file editor for project exercises: one tab per file, with read-only
+ * files shown but not editable. Running and submitting send the editable
+ * files, which the server grades with the exercise's test suite.
+ */
+export const ProjectWorkspace: React.FC<ProjectWorkspaceProps> = ({
+  exerciseId,
+  language,
+  files,
+  hiddenTestScoring = 'always',
+  onSubmissionComplete,
+}) => {
+  const editableFiles = files.filter((file) => file.access === 'editable');
+  const [contents, setContents] = useState<Record<string, string>>(
+    Object.fromEntries(editableFiles.map((file) => [file.path, file.content]))
+  );
+  const [activePath, setActivePath] = useState(editableFiles[0]?.path ?? files[0]?.path);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [queueStatus, setQueueStatus] = useState<SubmissionResult['status'] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [runResult, setRunResult] = useState<CodeRunResult | null>(null);
+  const [submissionResult, setSubmissionResult] = useState<SubmissionResult | null>(null);
+
+  const activeFile = files.find((file) => file.path === activePath);
+  const workspaceFiles = () => editableFiles.map((file) => ({ path: file.path, content: contents[file.path] }));
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+    setSubmissionResult(null);
+    setRunResult(null);
+
+    try {
+      setRunResult(await codeExecutionService.runProject(exerciseId, workspaceFiles()));
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to run tests');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleSubmit = async (isFinal = false) => {
+    setIsSubmitting(true);
+    setError(null);
+    setRunResult(null);
+
+    try {
+      let result = await codeExecutionService.submitProject(exerciseId, language, workspaceFiles(), isFinal);
+      // Python and Java projects are graded by a queue worker
+      if (result.status === 'pending' || result.status === 'running') {
+        setQueueStatus(result.status);
+        result = await codeExecutionService.waitForSubmission(result.submissionId, setQueueStatus);
+      }
+      setSubmissionResult(result);
+      onSubmissionComplete?.(result);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to submit project');
+    } finally {
+      setIsSubmitting(false);
+      setQueueStatus(null);
+    }
+  };
+
+  const handleResetFile = () => {
+    if (activeFile?.access !== 'editable') return;
+    setContents({ ...contents, [activeFile.path]: activeFile.content });
+  };
+
+  const result = submissionResult ?? runResult;
+  const testResults: TestResult[] = result?.testResults ?? [];
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Project</h3>
+        {activeFile?.access === 'editable' && (
+          <button onClick={handleResetFile} className="text-sm text-gray-600 hover:text-gray-800">
+            Reset file
+          </button>
+        )}
+      </div>
+
+      {/* File tabs */}
+      <div className="flex flex-wrap border-b border-gray-300">
+        {files.map((file) => (
+          <button
+            key={file.path}
+            onClick={() => setActivePath(file.path)}
+            className={`px-3 py-2 text-sm font-mono border-b-2 -mb-px ${
+              file.path === activePath
+                ? 'border-blue-600 text-blue-700'
+                : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+            title={file.path}
+          >
+            {file.path.split('/').pop()}
+            {file.access === 'readonly' && <span className="ml-1 text-xs text-gray-400">(read-only)</span>}
+          </button>
+        ))}
+      </div>
+
+      {activeFile && (
+        <div className="mb-4">
+          <div className="px-3 py-1 text-xs text-gray-500 font-mono bg-gray-50 border-x border-gray-300">
+            {activeFile.path}
+          </div>
+          {activeFile.access === 'editable' ? (
+            <textarea
+              value={contents[activeFile.path]}
+              onChange={(e) => setContents({ ...contents, [activeFile.path]: e.target.value })}
+              className="w-full h-96 p-3 border border-gray-300 rounded-b-md font-mono text-sm"
+              spellCheck={false}
+            />
+          ) : (
+            <pre className="h-96 p-3 border border-gray-300 rounded-b-md font-mono text-sm bg-gray-50 overflow-auto">
+              {activeFile.content}
+            </pre>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-3 mb-4">
+        <button
+          onClick={handleRun}
+          disabled={isRunning || isSubmitting}
+          title="Run the visible tests without submitting"
+          className="px-6 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRunning ? 'Running tests...' : 'Run Tests'}
+        </button>
+        <button
+          onClick={() => handleSubmit(false)}
+          disabled={isRunning || isSubmitting}
+          className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {!isSubmitting
+            ? 'Submit Project'
+            : queueStatus === 'pending'
+              ? 'Waiting in queue...'
+              : queueStatus === 'running'
+                ? 'Grading...'
+                : 'Submitting...'}
+        </button>
+        {hiddenTestScoring === 'final_only' && (
+          <button
+            onClick={() => handleSubmit(true)}
+            disabled={isRunning || isSubmitting}
+            className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Submit Final
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {result?.compilerOutput && (
+        <div className="mb-4 border border-red-200 rounded-md">
+          <div className="bg-red-50 px-4 py-2 border-b border-red-200">
+            <h3 className="font-semibold text-red-800">Compilation Failed</h3>
+          </div>
+          <pre className="p-4 text-xs text-gray-800 overflow-x-auto whitespace-pre-wrap">{result.compilerOutput}</pre>
+        </div>
+      )}
+
+      {result?.errorMessage && !result.compilerOutput && (
+        <pre className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md text-xs text-red-800 whitespace-pre-wrap">
+          {result.errorMessage}
+        </pre>
+      )}
+
+      {runResult && (
+        <p className="mb-4 text-sm text-gray-600">
+          Run only: visible tests, nothing was submitted
+          {runResult.executionTimeMs !== undefined && ` · ${Math.round(runResult.executionTimeMs)} ms`}
+        </p>
+      )}
+
+      <SubmissionOutcome submission={submissionResult} testResults={testResults} />
+    </div>
+  );
+};
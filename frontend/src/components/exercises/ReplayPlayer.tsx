@@ -0,0 +1,111 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { codeExecutionService, type SubmissionReplay } from '../../services/codeExecution.service';
+
+interface ReplayPlayerProps {
+  submissionId: string;
+}
+
+const SPEEDS = [1, 4, 16];
+const TICK_MS = 50;
+// Pauses longer than this are skipped so replays don't stall
+const MAX_IDLE_MS = 2000;
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Replays the keystrokes that led up to a submission
+ */
+export const ReplayPlayer: React.FC<ReplayPlayerProps> = ({ submissionId }) => {
+  const [replay, setReplay] = useState<SubmissionReplay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [position, setPosition] = useState(0); // Number of events applied
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(4);
+
+  useEffect(() => {
+    setReplay(null);
+    setPosition(0);
+    setPlaying(false);
+    codeExecutionService
+      .getReplay(submissionId)
+      .then(setReplay)
+      .catch((err: any) => setError(err.response?.data?.error?.message || 'Failed to load replay'));
+  }, [submissionId]);
+
+  // Code after each event, so seeking is instant
+  const snapshots = useMemo(() => {
+    if (!replay) return [];
+    const codes = [replay.initialCode];
+    for (const event of replay.events) {
+      const previous = codes[codes.length - 1];
+      codes.push(previous.slice(0, event.from) + event.text + previous.slice(event.to));
+    }
+    return codes;
+  }, [replay]);
+
+  useEffect(() => {
+    if (!playing || !replay) return;
+    if (position >= replay.events.length) {
+      setPlaying(false);
+      return;
+    }
+    const previousTime = position > 0 ? replay.events[position - 1].t : replay.events[0].t;
+    const wait = Math.min(replay.events[position].t - previousTime, MAX_IDLE_MS) / speed;
+    const timer = setTimeout(() => setPosition((p) => p + 1), Math.max(wait, TICK_MS / speed));
+    return () => clearTimeout(timer);
+  }, [playing, position, replay, speed]);
+
+  if (error) {
+    return <p className="text-sm text-red-700">{error}</p>;
+  }
+  if (!replay) {
+    return <p className="text-sm text-gray-500">Loading replay...</p>;
+  }
+
+  const elapsed = position > 0 ? replay.events[position - 1].t : 0;
+
+  return (
+    <div className="border border-gray-200 rounded-md">
+      <div className="flex items-center gap-3 px-3 py-2 bg-gray-50 border-b border-gray-200 text-sm">
+        <button
+          onClick={() => {
+            if (position >= replay.events.length) setPosition(0);
+            setPlaying(!playing);
+          }}
+          className="px-3 py-1 bg-purple-600 text-white rounded hover:bg-purple-700"
+        >
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={replay.events.length}
+          value={position}
+          onChange={(e) => {
+            setPlaying(false);
+            setPosition(Number(e.target.value));
+          }}
+          className="flex-1"
+        />
+        <span className="text-gray-600 tabular-nums">
+          {formatDuration(elapsed)} / {formatDuration(replay.durationMs)}
+        </span>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="px-1 py-0.5 border border-gray-300 rounded"
+        >
+          {SPEEDS.map((value) => (
+            <option key={value} value={value}>
+              {value}x
+            </option>
+          ))}
+        </select>
+      </div>
+      <pre className="p-3 text-xs font-mono overflow-x-auto max-h-96 whitespace-pre">{snapshots[position]}</pre>
+    </div>
+  );
+};
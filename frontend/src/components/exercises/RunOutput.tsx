@@ -0,0 +1,89 @@
+import React from 'react';
+import type { ScratchRunOutput } from '../../services/codeExecution.service';
+
+interface RunOutputProps {
+  output: ScratchRunOutput;
+}
+
+const STATUS_LABELS: Record<ScratchRunOutput['status'], string> = {
+  completed: 'Finished',
+  error: 'Error',
+  timeout: 'Time limit exceeded',
+  memory_exceeded: 'Memory limit exceeded',
+  compile_error: 'Compilation failed',
+};
+
+/**
+ * What code printed and returned when run on custom input
+ */
+export const RunOutput: React.FC<RunOutputProps> = ({ output }) => (
+  <div className="mb-4 border border-gray-200 rounded-md">
+    <div className="bg-gray-50 px-4 py-2 border-b border-gray-200 flex justify-between text-sm">
+      <span className={`font-semibold ${output.status === 'completed' ? 'text-gray-900' : 'text-red-700'}`}>
+        {STATUS_LABELS[output.status]}
+      </span>
+      <span className="text-gray-600">{Math.round(output.executionTimeMs)} ms</span>
+    </div>
+    <div className="p-4 space-y-3 text-sm">
+      {output.errorMessage && output.status !== 'compile_error' && output.errorMessage !== output.stderr && (
+        <div className="text-red-700">{output.errorMessage}</div>
+      )}
+      {output.compilerOutput && (
+        <pre className="p-2 bg-gray-100 rounded text-xs overflow-x-auto whitespace-pre-wrap">
+          {output.compilerOutput}
+        </pre>
+      )}
+      {output.returnValue !== undefined && (
+        <div>
+          <span className="font-medium text-gray-700">Returned:</span>{' '}
+          <code className="bg-gray-100 px-2 py-1 rounded text-xs">{JSON.stringify(output.returnValue)}</code>
+        </div>
+      )}
+      {output.resultSet && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs border border-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {output.resultSet.columns.map((column, index) => (
+                  <th key={index} className="px-2 py-1 text-left font-medium text-gray-700 border-b">
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {output.resultSet.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-b border-gray-100">
+                  {row.map((cell, cellIndex) => (
+                    <td key={cellIndex} className="px-2 py-1 font-mono">
+                      {cell === null ? 'NULL' : String(cell)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {output.resultSet.rows.length === 0 && <p className="mt-1 text-gray-500">No rows</p>}
+        </div>
+      )}
+      {output.stdout && (
+        <div>
+          <span className="font-medium text-gray-700">Output:</span>
+          <pre className="mt-1 p-2 bg-gray-900 text-gray-100 rounded text-xs overflow-x-auto whitespace-pre-wrap">
+            {output.stdout}
+          </pre>
+        </div>
+      )}
+      {output.stderr && (
+        <div>
+          <span className="font-medium text-gray-700">Errors:</span>
+          <pre className="mt-1 p-2 bg-gray-900 text-red-300 rounded text-xs overflow-x-auto whitespace-pre-wrap">
+            {output.stderr}
+          </pre>
+        </div>
+      )}
+      {!output.stdout && !output.stderr && output.returnValue === undefined && !output.resultSet
+        && output.status === 'completed' && <p className="text-gray-500">No output</p>}
+    </div>
+  </div>
+);
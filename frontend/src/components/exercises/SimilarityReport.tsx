@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { exerciseService } from '../../services/exercise.service';
+import {
+  similarityService,
+  type SimilarityParticipant,
+  type SimilarityPairDetail,
+  type SimilarityReport as Report,
+} from '../../services/similarity.service';
+
+const THRESHOLDS = [0.5, 0.6, 0.7, 0.8, 0.9];
+
+const participantLabel = (participant: SimilarityParticipant) =>
+  participant.submissionId ? participant.userName || 'Unknown learner' : 'Reference solution';
+
+const percent = (similarity: number) => `${Math.round(similarity * 100)}%`;
+
+interface CodePaneProps {
+  title: string;
+  code: string;
+  ranges: [number, number][];
+}
+
+const CodePane: React.FC<CodePaneProps> = ({ title, code, ranges }) => (
+  <div className="flex-1 min-w-0 border border-gray-200 rounded-md overflow-hidden">
+    <div className="bg-gray-50 px-3 py-2 border-b border-gray-200 text-sm font-medium text-gray-900">{title}</div>
+    <pre className="text-xs font-mono overflow-x-auto">
+      {code.split('\n').map((line, index) => {
+        const matched = ranges.some(([start, end]) => index + 1 >= start && index + 1 <= end);
+        return (
+          <div key={index} className={matched ? 'bg-yellow-100' : ''}>
+            <span className="inline-block w-10 pr-2 text-right text-gray-400 select-none">{index + 1}</span>
+            {line || ' '}
+          </div>
+        );
+      })}
+    </pre>
+  </div>
+);
+
+/**
+ * Instructor view of submissions with suspiciously similar code: clusters of
+ * linked learners and a side-by-side comparison with matched lines highlighted
+ */
+export const SimilarityReport: React.FC = () => {
+  const { exerciseId } = useParams<{ exerciseId: string }>();
+  const navigate = useNavigate();
+  const [exerciseTitle, setExerciseTitle] = useState('');
+  const [report, setReport] = useState<Report | null>(null);
+  const [threshold, setThreshold] = useState(0.8);
+  const [pair, setPair] = useState<SimilarityPairDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!exerciseId) return;
+    exerciseService
+      .getExerciseById(exerciseId)
+      .then((exercise) => setExerciseTitle(exercise.title))
+      .catch(() => undefined);
+  }, [exerciseId]);
+
+  useEffect(() => {
+    loadReport();
+  }, [exerciseId, threshold]);
+
+  const loadReport = async () => {
+    if (!exerciseId) return;
+
+    try {
+      setLoading(true);
+      setReport(await similarityService.getReport(exerciseId, threshold));
+      setError(null);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load similarity report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAnalyze = async () => {
+    if (!exerciseId) return;
+
+    try {
+      setAnalyzing(true);
+      setPair(null);
+      await similarityService.analyzeExercise(exerciseId);
+      await loadReport();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to analyze submissions');
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const handleOpenPair = async (pairId: string) => {
+    try {
+      setPair(await similarityService.getPair(pairId));
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load submissions');
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <button
+        onClick={() => navigate(-1)}
+        className="mb-4 text-purple-600 hover:text-purple-800 font-medium"
+      >
+        ← Back
+      </button>
+
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Similar Submissions</h1>
+          {exerciseTitle && <p className="text-gray-600">{exerciseTitle}</p>}
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="text-sm text-gray-700">
+            Threshold{' '}
+            <select
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="ml-1 px-2 py-1 border border-gray-300 rounded-md"
+            >
+              {THRESHOLDS.map((value) => (
+                <option key={value} value={value}>
+                  {percent(value)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={handleAnalyze}
+            disabled={analyzing}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            {analyzing ? 'Analyzing...' : 'Analyze Submissions'}
+          </button>
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600">
+        Compares the latest passing submission of every learner with each other and with the reference
+        solution. Renamed variables, comments and formatting are ignored; starter code never counts as shared.
+        {report?.analyzedAt && ` Last analyzed ${new Date(report.analyzedAt).toLocaleString()}.`}
+      </p>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center p-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
+        </div>
+      ) : report && report.clusters.length === 0 ? (
+        <div className="bg-white border border-gray-200 rounded-lg p-8 text-center text-gray-600">
+          No submissions at or above {percent(threshold)} similarity. Run an analysis to include new submissions.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {report?.clusters.map((cluster, clusterIndex) => (
+            <div key={clusterIndex} className="bg-white border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="font-semibold text-gray-900">
+                  {cluster.participants.map(participantLabel).join(', ')}
+                </h2>
+                <span className="px-2 py-1 bg-red-100 text-red-800 rounded text-sm font-medium">
+                  up to {percent(cluster.maxSimilarity)}
+                </span>
+              </div>
+              <ul className="divide-y divide-gray-100">
+                {cluster.pairs.map((clusterPair) => (
+                  <li key={clusterPair.id} className="flex items-center justify-between py-2 text-sm">
+                    <span className="text-gray-700">
+                      {participantLabel(clusterPair.a)} ↔ {participantLabel(clusterPair.b)}
+                    </span>
+                    <span className="flex items-center gap-3">
+                      <span className="font-medium text-gray-900">{percent(clusterPair.similarity)}</span>
+                      <button
+                        onClick={() => handleOpenPair(clusterPair.id)}
+                        className="text-purple-600 hover:text-purple-800 font-medium"
+                      >
+                        Compare
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {pair && (
+        <div className="mt-6 bg-white border border-gray-200 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="font-semibold text-gray-900">
+              {percent(pair.similarity)} similar · {pair.matches.length} matched region
+              {pair.matches.length === 1 ? '' : 's'}
+            </h2>
+            <button onClick={() => setPair(null)} className="text-sm text-gray-600 hover:text-gray-900">
+              Close
+            </button>
+          </div>
+          <div className="flex gap-4">
+            <CodePane
+              title={participantLabel(pair.a)}
+              code={pair.codeA}
+              ranges={pair.matches.map((match) => [match.aStartLine, match.aEndLine])}
+            />
+            <CodePane
+              title={participantLabel(pair.b)}
+              code={pair.codeB}
+              ranges={pair.matches.map((match) => [match.bStartLine, match.bEndLine])}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+
+interface StaticAnalysisFieldProps {
+  value: string; // JSON, empty for none
+  onChange: (value: string) => void;
+}
+
+// Languages whose submissions can be linted
+export const ANALYSIS_LANGUAGES = ['javascript', 'python', 'java'];
+
+const STATIC_ANALYSIS_PLACEHOLDER = `{
+  "rules": { "no-var": "error", "eqeqeq": "warn" },
+  "forbidden": [{ "type": "loops", "message": "Use recursion instead" }, { "type": "call", "name": "Array.prototype.sort" }],
+  "deduction": { "pointsPerError": 1, "maxPoints": 3 }
+}`;
+
+/**
+ * Lint settings as JSON. Findings are shown on the learner's code; with a
+ * deduction each error-level finding costs points on submission.
+ */
+export const StaticAnalysisField: React.FC<StaticAnalysisFieldProps> = ({ value, onChange }) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-700 mb-1">Static Analysis (optional)</label>
+    <p className="text-xs text-gray-500 mb-1">
+      JavaScript uses ESLint rules; Python checks are unused-import, unused-variable, wildcard-import, bare-except,
+      global-statement, comparison-to-none, mutable-default-argument, naming and line-too-long; Java checks are
+      naming, empty-catch, system-exit, wildcard-import and line-too-long. Forbidden constructs (loops, calls,
+      imports) are always errors.
+    </p>
+    <textarea
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+      rows={5}
+      placeholder={STATIC_ANALYSIS_PLACEHOLDER}
+    />
+  </div>
+);
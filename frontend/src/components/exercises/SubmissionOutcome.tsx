@@ -0,0 +1,70 @@
+import React from 'react';
+import type { SubmissionResult, TestResult } from '../../services/codeExecution.service';
+
+interface SubmissionOutcomeProps {
+  submission: SubmissionResult | null; // null for a run that was not submitted
+  testResults: TestResult[];
+}
+
+/**
+ * Score summary of a submission and the result of each test, for the
+ * exercise workspaces other than the code editor
+ */
+export const SubmissionOutcome: React.FC<SubmissionOutcomeProps> = ({ submission, testResults }) => {
+  const passedTests = testResults.filter((r) => r.passed).length;
+
+  return (
+    <>
+      {submission && (
+        <div className={`mb-4 p-4 rounded-md border ${
+          submission.status === 'passed' ? 'bg-green-50 border-green-200' : 'bg-yellow-50 border-yellow-200'
+        }`}>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold text-lg">
+              {submission.status === 'passed' ? '✅ All Tests Passed!' : '⚠️ Some Tests Failed'}
+            </h3>
+            <span className="text-2xl font-bold">{submission.score}%</span>
+          </div>
+          <p className="text-sm">
+            Passed {submission.passedTests} of {submission.totalTests} tests
+            {submission.maxPoints !== undefined && (
+              <> · {submission.pointsEarned ?? 0} / {submission.maxPoints} points</>
+            )}
+            {submission.isFinal && ' · Final submission'}
+          </p>
+        </div>
+      )}
+
+      {testResults.length > 0 && (
+        <div className="border border-gray-200 rounded-md">
+          <div className="bg-gray-50 px-4 py-3 border-b border-gray-200">
+            <h3 className="font-semibold text-gray-900">
+              Test Results ({passedTests}/{testResults.length} passed)
+            </h3>
+          </div>
+          <div className="divide-y divide-gray-200">
+            {testResults.map((test, index) => (
+              <div key={index} className={`p-4 ${test.passed ? 'bg-white' : 'bg-red-50'}`}>
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-900 font-mono text-sm">
+                    {test.passed ? '✅' : '❌'} {test.testName}
+                    {test.isHidden && <span className="ml-2 text-xs text-gray-500 font-sans">(hidden)</span>}
+                  </span>
+                  <span className="text-sm text-gray-600">
+                    {test.executionTime !== undefined && `${Math.round(test.executionTime)} ms · `}
+                    {test.points} {test.points === 1 ? 'point' : 'points'}
+                  </span>
+                </div>
+                {!test.passed && test.error && (
+                  <pre className="mt-2 p-2 bg-white border border-red-100 rounded text-xs text-red-800 overflow-x-auto whitespace-pre-wrap">
+                    {test.error}
+                  </pre>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import {
+  codeExecutionService,
+  type DiffLine,
+  type SubmissionTimeline as Timeline,
+  type TestResultChange,
+} from '../../services/codeExecution.service';
+import { ReplayPlayer } from './ReplayPlayer';
+
+interface SubmissionTimelineProps {
+  exerciseId: string;
+  userId?: string; // Instructors: the learner to show; defaults to the current user
+  refreshKey?: number; // Change to reload, e.g. after a new submission
+}
+
+// Unchanged lines shown around each change; longer unchanged runs are collapsed
+const CONTEXT_LINES = 2;
+
+const STATUS_STYLES: Record<string, string> = {
+  passed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  error: 'bg-red-100 text-red-800',
+  timeout: 'bg-orange-100 text-orange-800',
+  pending: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-800',
+};
+
+const CHANGE_STYLES: Record<TestResultChange['change'], { label: string; className: string }> = {
+  fixed: { label: 'now passes', className: 'bg-green-100 text-green-800' },
+  broken: { label: 'now fails', className: 'bg-red-100 text-red-800' },
+  added: { label: 'new', className: 'bg-gray-100 text-gray-700' },
+  removed: { label: 'not run', className: 'bg-gray-100 text-gray-500' },
+};
+
+const DiffView: React.FC<{ diff: DiffLine[] }> = ({ diff }) => {
+  const near = (index: number) =>
+    diff.slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1).some((line) => line.type !== 'unchanged');
+
+  if (diff.every((line) => line.type === 'unchanged')) {
+    return <p className="text-xs text-gray-500">No code changes</p>;
+  }
+
+  const rows: React.ReactNode[] = [];
+  let skipped = 0;
+  diff.forEach((line, index) => {
+    if (line.type === 'unchanged' && !near(index)) {
+      skipped++;
+      return;
+    }
+    if (skipped > 0) {
+      rows.push(
+        <div key={`skip-${index}`} className="px-2 text-gray-400 bg-gray-50">
+          ⋯ {skipped} unchanged line{skipped === 1 ? '' : 's'}
+        </div>
+      );
+      skipped = 0;
+    }
+    const style = line.type === 'added' ? 'bg-green-50 text-green-900' : line.type === 'removed' ? 'bg-red-50 text-red-900' : '';
+    const marker = line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ';
+    rows.push(
+      <div key={index} className={style}>
+        <span className="inline-block w-8 pr-1 text-right text-gray-400 select-none">{line.oldLine ?? ''}</span>
+        <span className="inline-block w-8 pr-1 text-right text-gray-400 select-none">{line.newLine ?? ''}</span>
+        <span className="select-none">{marker} </span>
+        {line.text}
+      </div>
+    );
+  });
+  if (skipped > 0) {
+    rows.push(
+      <div key="skip-end" className="px-2 text-gray-400 bg-gray-50">
+        ⋯ {skipped} unchanged line{skipped === 1 ? '' : 's'}
+      </div>
+    );
+  }
+
+  return <pre className="text-xs font-mono overflow-x-auto border border-gray-200 rounded-md">{rows}</pre>;
+};
+
+/**
+ * How a learner's code evolved across submissions: diffs between consecutive
+ * submissions, tests that flipped, and keystroke replays where recorded
+ */
+export const SubmissionTimeline: React.FC<SubmissionTimelineProps> = ({ exerciseId, userId, refreshKey }) => {
+  const [timeline, setTimeline] = useState<Timeline | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    codeExecutionService
+      .getSubmissionTimeline(exerciseId, userId)
+      .then((data) => {
+        setTimeline(data);
+        setError(null);
+      })
+      .catch((err: any) => setError(err.response?.data?.error?.message || 'Failed to load submission history'))
+      .finally(() => setLoading(false));
+  }, [exerciseId, userId, refreshKey]);
+
+  if (loading && !timeline) {
+    return <p className="text-sm text-gray-500">Loading submission history...</p>;
+  }
+  if (error) {
+    return <p className="text-sm text-red-700">{error}</p>;
+  }
+  if (!timeline || timeline.entries.length === 0) {
+    return <p className="text-sm text-gray-500">No submissions yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {[...timeline.entries].reverse().map((entry, reversedIndex) => {
+        const number = timeline.entries.length - reversedIndex;
+        const added = entry.diff.filter((line) => line.type === 'added').length;
+        const removed = entry.diff.filter((line) => line.type === 'removed').length;
+        return (
+          <li key={entry.id} className="border border-gray-200 rounded-lg p-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-semibold text-gray-900">#{number}</span>
+              <span className="text-gray-500">{new Date(entry.submittedAt).toLocaleString()}</span>
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[entry.status] || ''}`}>
+                {entry.status}
+              </span>
+              {entry.isFinal && <span className="px-2 py-0.5 rounded text-xs bg-purple-100 text-purple-800">final</span>}
+              <span className="text-gray-700">
+                {entry.passedTests}/{entry.totalTests} tests · {Math.round(entry.score)}%
+              </span>
+              <span className="text-xs">
+                <span className="text-green-700">+{added}</span> <span className="text-red-700">-{removed}</span>
+              </span>
+              <span className="ml-auto flex gap-3">
+                <button
+                  onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                  className="text-purple-600 hover:text-purple-800"
+                >
+                  {expanded === entry.id ? 'Hide changes' : 'Show changes'}
+                </button>
+                {entry.hasReplay && (
+                  <button
+                    onClick={() => setReplaying(replaying === entry.id ? null : entry.id)}
+                    className="text-purple-600 hover:text-purple-800"
+                  >
+                    {replaying === entry.id ? 'Close replay' : 'Replay'}
+                  </button>
+                )}
+              </span>
+            </div>
+
+            {entry.testChanges.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {entry.testChanges.map((change) => (
+                  <span
+                    key={change.testCaseId}
+                    className={`px-2 py-0.5 rounded text-xs ${CHANGE_STYLES[change.change].className}`}
+                  >
+                    {change.testName}: {CHANGE_STYLES[change.change].label}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {expanded === entry.id && (
+              <div className="mt-3">
+                <p className="mb-1 text-xs text-gray-500">
+                  Compared with {number === 1 ? 'the starter code' : `submission #${number - 1}`}
+                </p>
+                <DiffView diff={entry.diff} />
+              </div>
+            )}
+            {replaying === entry.id && (
+              <div className="mt-3">
+                <ReplayPlayer submissionId={entry.id} />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
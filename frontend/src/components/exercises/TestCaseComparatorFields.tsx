@@ -0,0 +1,91 @@
+import React from 'react';
+import { ComparatorOptions, ComparatorType } from '../../services/exercise.service';
+import { COMPARATOR_LABELS } from '../../constants/exercises';
+
+interface TestCaseComparatorFieldsProps {
+  comparator: ComparatorType;
+  options: ComparatorOptions;
+  isSql?: boolean;
+  onChange: (comparator: ComparatorType, options: ComparatorOptions) => void;
+}
+
+const CHECKER_PLACEHOLDER = `function (actual, expected, input) {
+  // Return true/false, or { passed, message }
+  return actual === expected;
+}`;
+
+/**
+ * Comparator picker for a test case, with the setting each comparator needs
+ */
+export const TestCaseComparatorFields: React.FC<TestCaseComparatorFieldsProps> = ({
+  comparator,
+  options,
+  isSql = false,
+  onChange,
+}) => {
+  const comparators = (Object.keys(COMPARATOR_LABELS) as ComparatorType[])
+    .filter((type) => !(isSql && type === 'regex'));
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700 mb-1">Comparison</label>
+      <select
+        value={comparator}
+        onChange={(e) => onChange(e.target.value as ComparatorType, {})}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+      >
+        {comparators.map((type) => (
+          <option key={type} value={type}>
+            {COMPARATOR_LABELS[type]}
+          </option>
+        ))}
+      </select>
+
+      {comparator === 'float' && (
+        <input
+          type="number"
+          step="any"
+          min="0"
+          value={options.tolerance ?? ''}
+          onChange={(e) =>
+            onChange(comparator, {
+              ...options,
+              tolerance: e.target.value === '' ? undefined : parseFloat(e.target.value),
+            })
+          }
+          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          placeholder="Tolerance (default 0.000001)"
+        />
+      )}
+
+      {comparator === 'regex' && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={options.pattern ?? ''}
+            onChange={(e) => onChange(comparator, { ...options, pattern: e.target.value })}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+            placeholder="^Order #\d+ confirmed$"
+          />
+          <input
+            type="text"
+            value={options.flags ?? ''}
+            onChange={(e) => onChange(comparator, { ...options, flags: e.target.value || undefined })}
+            className="w-20 px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+            placeholder="flags"
+          />
+        </div>
+      )}
+
+      {comparator === 'custom' && (
+        <textarea
+          value={options.checker ?? ''}
+          onChange={(e) => onChange(comparator, { ...options, checker: e.target.value })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+          rows={5}
+          placeholder={CHECKER_PLACEHOLDER}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+
+interface CodeReviewSnippetProps {
+  code: string;
+  selectedLines: number[]; // 1-based
+  onToggleLine?: (line: number) => void; // Read-only without it
+  buggyLines?: number[]; // Shown once the answer is known
+}
+
+/**
+ * A code snippet with numbered lines that can be picked, for code-review
+ * questions: learners pick the buggy lines, instructors mark them
+ */
+export const CodeReviewSnippet: React.FC<CodeReviewSnippetProps> = ({
+  code,
+  selectedLines,
+  onToggleLine,
+  buggyLines,
+}) => {
+  const lines = code.replace(/\n+$/, '').split('\n');
+
+  const lineClass = (line: number) => {
+    const selected = selectedLines.includes(line);
+    if (buggyLines) {
+      if (buggyLines.includes(line)) return selected ? 'bg-green-100' : 'bg-yellow-100';
+      return selected ? 'bg-red-100' : '';
+    }
+    return selected ? 'bg-blue-100' : onToggleLine ? 'hover:bg-gray-100' : '';
+  };
+
+  return (
+    <div className="border border-gray-300 rounded-lg overflow-x-auto bg-gray-50 font-mono text-sm">
+      {lines.map((text, index) => {
+        const line = index + 1;
+        return (
+          <div
+            key={line}
+            onClick={onToggleLine ? () => onToggleLine(line) : undefined}
+            className={`flex ${onToggleLine ? 'cursor-pointer' : ''} ${lineClass(line)}`}
+          >
+            <span className="w-10 pr-2 text-right text-gray-400 select-none border-r border-gray-200">
+              {line}
+            </span>
+            <pre className="pl-3 whitespace-pre">{text || ' '}</pre>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+import React, { useState, useEffect } from 'react';
+import { quizService } from '../../services/quiz.service';
+import { DIFFICULTY_LABELS } from '../../constants/quizzes';
+import type { DrawRuleInput, LearningObjective, QuestionBank, QuestionDifficulty } from '../../types';
+
+interface DrawRulesEditorProps {
+  quizId: string;
+  topicId: string;
+  objectives: LearningObjective[];
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+// Which objectives a rule draws for: any, one, or each of the topic's
+type ObjectiveScope = '' | 'each' | string;
+
+interface RuleDraft {
+  bankId: string;
+  questionCount: number;
+  difficulty: QuestionDifficulty | '';
+  scope: ObjectiveScope;
+}
+
+const toInput = (rule: RuleDraft): DrawRuleInput => ({
+  bankId: rule.bankId,
+  questionCount: rule.questionCount,
+  difficulty: rule.difficulty || null,
+  objectiveId: rule.scope && rule.scope !== 'each' ? rule.scope : null,
+  perObjective: rule.scope === 'each',
+});
+
+/**
+ * Editor for the rules a quiz draws bank questions by, such as "3 easy
+ * questions + 2 hard ones for each objective". Every attempt draws its own
+ * questions; the server refuses rules the banks cannot meet.
+ */
+export const DrawRulesEditor: React.FC<DrawRulesEditorProps> = ({
+  quizId,
+  topicId,
+  objectives,
+  onSaved,
+  onCancel,
+}) => {
+  const [banks, setBanks] = useState<QuestionBank[]>([]);
+  const [rules, setRules] = useState<RuleDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [shortfalls, setShortfalls] = useState<string[]>([]);
+
+  useEffect(() => {
+    Promise.all([quizService.getBanksByTopic(topicId), quizService.getDrawRules(quizId)])
+      .then(([bankData, ruleData]) => {
+        setBanks(bankData.banks);
+        setRules(
+          ruleData.rules.map(rule => ({
+            bankId: rule.bank_id,
+            questionCount: rule.question_count,
+            difficulty: rule.difficulty ?? '',
+            scope: rule.per_objective ? 'each' : rule.objective_id ?? '',
+          }))
+        );
+      })
+      .catch(err => setError(err.message || 'Failed to load draw rules'))
+      .finally(() => setLoading(false));
+  }, [quizId, topicId]);
+
+  const updateRule = (index: number, changes: Partial<RuleDraft>) => {
+    setRules(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const addRule = () => {
+    setRules([...rules, { bankId: banks[0]?.id ?? '', questionCount: 1, difficulty: '', scope: '' }]);
+  };
+
+  const drawnPerAttempt = rules.reduce(
+    (sum, rule) => sum + rule.questionCount * (rule.scope === 'each' ? objectives.length : 1),
+    0
+  );
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      setShortfalls([]);
+      await quizService.saveDrawRules(quizId, rules.map(toInput));
+      onSaved();
+    } catch (err: any) {
+      const apiError = err.response?.data?.error;
+      setError(apiError?.message || err.message || 'Failed to save draw rules');
+      setShortfalls(apiError?.details?.shortfalls ?? []);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading draw rules...</div>;
+  }
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+      <div>
+        <h4 className="font-semibold text-gray-900">Questions Drawn from Banks</h4>
+        <p className="text-xs text-gray-500">
+          Each attempt draws its own questions by these rules, after the quiz's own questions.
+        </p>
+      </div>
+
+      {banks.length === 0 ? (
+        <p className="text-sm text-yellow-700">
+          No question banks for this topic or its curriculum yet. Create one under Question Banks.
+        </p>
+      ) : (
+        <>
+          {rules.map((rule, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-center">
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={rule.questionCount}
+                onChange={e => updateRule(index, { questionCount: parseInt(e.target.value) || 1 })}
+                title="Questions to draw"
+                className="col-span-1 px-2 py-1 border border-gray-300 rounded"
+              />
+              <select
+                value={rule.difficulty}
+                onChange={e => updateRule(index, { difficulty: e.target.value as QuestionDifficulty | '' })}
+                className="col-span-2 px-2 py-1 border border-gray-300 rounded"
+              >
+                <option value="">Any difficulty</option>
+                {(Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).map(level => (
+                  <option key={level} value={level}>
+                    {DIFFICULTY_LABELS[level]}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={rule.bankId}
+                onChange={e => updateRule(index, { bankId: e.target.value })}
+                className="col-span-4 px-2 py-1 border border-gray-300 rounded"
+              >
+                {banks.map(bank => (
+                  <option key={bank.id} value={bank.id}>
+                    {bank.name} ({bank.question_count ?? 0} questions)
+                  </option>
+                ))}
+              </select>
+              <select
+                value={rule.scope}
+                onChange={e => updateRule(index, { scope: e.target.value })}
+                className="col-span-4 px-2 py-1 border border-gray-300 rounded"
+              >
+                <option value="">Any objective</option>
+                {objectives.length > 0 && <option value="each">For each objective</option>}
+                {objectives.map(objective => (
+                  <option key={objective.id} value={objective.id}>
+                    For: {objective.objective_text}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                className="col-span-1 text-red-600"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <button type="button" onClick={addRule} className="text-sm text-blue-600 hover:text-blue-800">
+              + Add rule
+            </button>
+            <span className="text-sm text-gray-600">{drawnPerAttempt} questions drawn per attempt</span>
+          </div>
+        </>
+      )}
+
+      {error && (
+        <div className="text-sm text-red-600">
+          <p>{error}</p>
+          {shortfalls.length > 0 && (
+            <ul className="list-disc list-inside">
+              {shortfalls.map(shortfall => (
+                <li key={shortfall}>{shortfall}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || rules.some(rule => !rule.bankId)}
+          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+        >
+          {saving ? 'Saving...' : 'Save Rules'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { quizService } from '../../services/quiz.service';
+import { ITEM_FLAG_LABELS, QUESTION_TYPE_LABELS } from '../../constants/quizzes';
+import type { QuizItemAnalysis } from '../../types';
+
+interface ItemAnalysisProps {
+  quizId: string;
+}
+
+const formatStat = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+// Rough bands for a quiz as a whole
+const reliabilityLabel = (kr20: number) => (kr20 >= 0.8 ? 'good' : kr20 >= 0.6 ? 'acceptable' : 'low');
+
+/**
+ * Item analysis of a quiz for its instructor. Flags questions that strong
+ * attempts miss more often than weak ones, and wrong options nobody picks.
+ */
+export const ItemAnalysis: React.FC<ItemAnalysisProps> = ({ quizId }) => {
+  const [analysis, setAnalysis] = useState<QuizItemAnalysis | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    quizService
+      .getItemAnalysis(quizId)
+      .then(setAnalysis)
+      .catch(err => setError(err.message || 'Failed to load item analysis'));
+  }, [quizId]);
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+  if (!analysis) {
+    return <div className="text-sm text-gray-500">Loading item analysis...</div>;
+  }
+  if (analysis.attempts === 0) {
+    return <p className="text-sm text-gray-500">No graded attempts yet.</p>;
+  }
+
+  const flagged = analysis.items.filter(item => item.flags.length > 0).length;
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+        <span>
+          <strong>Attempts:</strong> {analysis.attempts}
+        </span>
+        <span>
+          <strong>Reliability (KR-20):</strong>{' '}
+          {analysis.kr20 === null ? '—' : `${analysis.kr20.toFixed(2)} (${reliabilityLabel(analysis.kr20)})`}
+        </span>
+        {flagged > 0 && (
+          <span className="text-red-700">
+            <strong>{flagged}</strong> {flagged === 1 ? 'question needs' : 'questions need'} a look
+          </span>
+        )}
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-200">
+            <th className="py-2 pr-2">Question</th>
+            <th className="py-2 px-2" title="Attempts that were served the question">Responses</th>
+            <th className="py-2 px-2" title="Share of points earned; higher is easier">Difficulty (p)</th>
+            <th className="py-2 px-2" title="Point-biserial with the rest of the attempt">Discrimination</th>
+            <th className="py-2 px-2" title="Median time on the question">Time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {analysis.items.map(item => (
+            <tr
+              key={item.question_id}
+              className={`border-b border-gray-100 align-top ${item.flags.length > 0 ? 'bg-red-50' : ''}`}
+            >
+              <td className="py-2 pr-2">
+                <div className="text-gray-900">{item.question_text}</div>
+                <div className="text-xs text-gray-500">{QUESTION_TYPE_LABELS[item.question_type]}</div>
+                {item.options.length > 0 && (
+                  <ul className="mt-1 text-xs text-gray-600">
+                    {item.options.map(option => (
+                      <li
+                        key={option.option_id}
+                        className={!option.is_correct && option.selections === 0 ? 'text-red-600' : ''}
+                      >
+                        {option.is_correct ? '✓' : '·'} {option.option_text}: {Math.round(option.frequency * 100)}%
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {item.flags.map(flag => (
+                  <span
+                    key={flag}
+                    className="inline-block mt-1 mr-1 px-2 py-0.5 text-xs font-medium bg-red-100 text-red-700 rounded"
+                  >
+                    {ITEM_FLAG_LABELS[flag]}
+                  </span>
+                ))}
+              </td>
+              <td className="py-2 px-2">{item.responses}</td>
+              <td className="py-2 px-2">{formatStat(item.difficulty_index)}</td>
+              <td className={`py-2 px-2 ${item.discrimination !== null && item.discrimination < 0 ? 'text-red-700' : ''}`}>
+                {formatStat(item.discrimination)}
+              </td>
+              <td className="py-2 px-2">
+                {item.median_time_seconds === null ? '—' : `${Math.round(item.median_time_seconds)}s`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,299 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { quizService } from '../../services/quiz.service';
+import { curriculumService } from '../../services/curriculum.service';
+import { DIFFICULTY_LABELS, QUESTION_TYPE_LABELS } from '../../constants/quizzes';
+import { QuestionForm } from './QuestionForm';
+import type { BankQuestion, QuestionBank, Topic } from '../../types';
+
+/**
+ * Instructor page for the question banks of a topic and its curriculum:
+ * create banks and fill them with questions tagged by difficulty and
+ * learning objective, for quizzes to draw from.
+ */
+export const QuestionBanks: React.FC = () => {
+  const { topicId } = useParams<{ topicId: string }>();
+  const navigate = useNavigate();
+  const [topic, setTopic] = useState<Topic | null>(null);
+  const [banks, setBanks] = useState<QuestionBank[]>([]);
+  const [selectedBank, setSelectedBank] = useState<QuestionBank | null>(null);
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bank form state
+  const [showBankForm, setShowBankForm] = useState(false);
+  const [bankName, setBankName] = useState('');
+  const [bankDescription, setBankDescription] = useState('');
+  const [forCurriculum, setForCurriculum] = useState(false);
+  const [addingQuestion, setAddingQuestion] = useState(false);
+
+  useEffect(() => {
+    if (topicId) {
+      loadTopic();
+      loadBanks();
+    }
+  }, [topicId]);
+
+  const loadTopic = async () => {
+    if (!topicId) return;
+
+    try {
+      const topicSummary = await curriculumService.getTopicSummary(topicId);
+      // The details hold the learning objectives questions are tagged with
+      const topicDetails = await curriculumService.getTopicDetails(topicSummary.curriculum_id, topicId);
+      setTopic(topicDetails);
+    } catch (err) {
+      console.error('Failed to load topic details:', err);
+    }
+  };
+
+  const loadBanks = async () => {
+    if (!topicId) return;
+
+    try {
+      setLoading(true);
+      const data = await quizService.getBanksByTopic(topicId);
+      setBanks(data.banks);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load question banks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectBank = async (bank: QuestionBank) => {
+    try {
+      setError(null);
+      setAddingQuestion(false);
+      const data = await quizService.getBank(bank.id);
+      setSelectedBank(data.bank);
+      setQuestions(data.questions);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load question bank');
+    }
+  };
+
+  const handleCreateBank = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!topicId || !topic) return;
+
+    try {
+      setError(null);
+      const { bank } = await quizService.createBank({
+        name: bankName,
+        description: bankDescription || undefined,
+        ...(forCurriculum ? { curriculumId: topic.curriculum_id } : { topicId }),
+      });
+      setBanks([...banks, { ...bank, question_count: 0 }]);
+      setShowBankForm(false);
+      setBankName('');
+      setBankDescription('');
+      selectBank(bank);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to create question bank');
+    }
+  };
+
+  const setQuestionCount = (bankId: string, change: number) => {
+    setBanks(banks.map(b => (b.id === bankId ? { ...b, question_count: (b.question_count ?? 0) + change } : b)));
+  };
+
+  const handleQuestionAdded = (question: BankQuestion) => {
+    setQuestions([...questions, question]);
+    setQuestionCount(question.bank_id!, 1);
+    setAddingQuestion(false);
+  };
+
+  const handleDeleteQuestion = async (question: BankQuestion) => {
+    if (!selectedBank) return;
+    if (!confirm('Delete this question? Answers given to it in earlier attempts are deleted too.')) return;
+
+    try {
+      await quizService.deleteBankQuestion(selectedBank.id, question.id);
+      setQuestions(questions.filter(q => q.id !== question.id));
+      setQuestionCount(selectedBank.id, -1);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete question');
+    }
+  };
+
+  const objectiveText = (id: string) =>
+    topic?.learning_objectives?.find(objective => objective.id === id)?.objective_text ?? 'Other topic';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-gray-500">Loading question banks...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="bg-white rounded-lg shadow-md">
+        {/* Header */}
+        <div className="border-b border-gray-200 p-6">
+          <button
+            onClick={() => navigate(`/topics/${topicId}/quizzes`)}
+            className="mb-4 flex items-center text-blue-600 hover:text-blue-800 font-medium"
+          >
+            <svg className="w-5 h-5 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Quiz Management
+          </button>
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Question Banks</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                {topic?.title ? `${topic.title} - ` : ''}Questions quizzes draw from, different for every attempt
+              </p>
+            </div>
+            <button
+              onClick={() => setShowBankForm(!showBankForm)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              {showBankForm ? 'Cancel' : 'New Bank'}
+            </button>
+          </div>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mx-6 mt-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {/* New Bank Form */}
+        {showBankForm && (
+          <form onSubmit={handleCreateBank} className="p-6 bg-gray-50 border-b border-gray-200 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <input
+                type="text"
+                value={bankName}
+                onChange={e => setBankName(e.target.value)}
+                placeholder="Bank name"
+                required
+                className="px-3 py-2 border border-gray-300 rounded-lg"
+              />
+              <input
+                type="text"
+                value={bankDescription}
+                onChange={e => setBankDescription(e.target.value)}
+                placeholder="Description (optional)"
+                className="px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={forCurriculum} onChange={e => setForCurriculum(e.target.checked)} />
+              Share with every topic of the curriculum
+            </label>
+            <button
+              type="submit"
+              disabled={!topic}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+            >
+              Create Bank
+            </button>
+          </form>
+        )}
+
+        <div className="p-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Bank List */}
+          <div className="space-y-2">
+            {banks.length === 0 ? (
+              <p className="text-sm text-gray-500">No question banks yet.</p>
+            ) : (
+              banks.map(bank => (
+                <button
+                  key={bank.id}
+                  onClick={() => selectBank(bank)}
+                  className={`w-full text-left p-3 border rounded-lg transition-colors ${
+                    selectedBank?.id === bank.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="font-medium text-gray-900">{bank.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {bank.curriculum_id ? 'Curriculum' : 'Topic'} · {bank.question_count ?? 0} questions
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Questions of the Selected Bank */}
+          <div className="md:col-span-2">
+            {!selectedBank ? (
+              <p className="text-sm text-gray-500">Select a bank to see its questions.</p>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">{selectedBank.name}</h3>
+                    {selectedBank.description && (
+                      <p className="text-sm text-gray-600">{selectedBank.description}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => setAddingQuestion(!addingQuestion)}
+                    className="px-3 py-1 text-sm text-green-600 border border-green-600 rounded hover:bg-green-50 transition-colors"
+                  >
+                    Add Question
+                  </button>
+                </div>
+
+                {addingQuestion && topicId && (
+                  <QuestionForm
+                    bankId={selectedBank.id}
+                    topicId={topicId}
+                    objectives={topic?.learning_objectives ?? []}
+                    onAdded={question => handleQuestionAdded(question as BankQuestion)}
+                    onCancel={() => setAddingQuestion(false)}
+                  />
+                )}
+
+                {questions.length === 0 ? (
+                  <p className="text-sm text-gray-500">This bank has no questions yet.</p>
+                ) : (
+                  questions.map((question, index) => (
+                    <div key={question.id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="flex-1">
+                          <div className="flex flex-wrap items-center gap-2 mb-2">
+                            <span className="text-sm font-medium text-gray-500">Q{index + 1}</span>
+                            <span className="px-2 py-1 text-xs font-medium bg-gray-100 text-gray-700 rounded">
+                              {QUESTION_TYPE_LABELS[question.question_type]}
+                            </span>
+                            {question.difficulty && (
+                              <span className="px-2 py-1 text-xs font-medium bg-yellow-100 text-yellow-800 rounded">
+                                {DIFFICULTY_LABELS[question.difficulty]}
+                              </span>
+                            )}
+                            {question.objective_ids.map(id => (
+                              <span key={id} className="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded">
+                                {objectiveText(id)}
+                              </span>
+                            ))}
+                          </div>
+                          <p className="text-gray-900">{question.question_text}</p>
+                        </div>
+                        <button
+                          onClick={() => handleDeleteQuestion(question)}
+                          className="px-3 py-1 text-sm text-red-600 border border-red-600 rounded hover:bg-red-50 transition-colors"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,512 @@
+import React, { useState, useEffect } from 'react';
+import { quizService } from '../../services/quiz.service';
+import {
+  DIFFICULTY_LABELS,
+  PARTIAL_CREDIT_LABELS,
+  QUESTION_TYPE_LABELS,
+  WRITTEN_QUESTION_TYPES,
+} from '../../constants/quizzes';
+import { CodeReviewSnippet } from './CodeReviewSnippet';
+import { QuestionType } from '../../types';
+import type {
+  LearningObjective,
+  PartialCreditMode,
+  QuestionConfig,
+  QuestionDifficulty,
+  QuizQuestion,
+  QuizQuestionCreateInput,
+  Rubric,
+  RubricCreateInput,
+} from '../../types';
+
+// The question goes into a quiz, or into a question bank with its tags
+type QuestionTarget = { quizId: string; bankId?: never } | { bankId: string; quizId?: never };
+
+type QuestionFormProps = QuestionTarget & {
+  topicId: string;
+  objectives?: LearningObjective[]; // Bank questions can be tagged with these
+  onAdded: (question: QuizQuestion) => void;
+  onCancel: () => void;
+};
+
+type CriterionDraft = RubricCreateInput['criteria'][number];
+type OptionDraft = NonNullable<QuizQuestionCreateInput['options']>[number];
+
+const EMPTY_CRITERION: CriterionDraft = { name: '', description: '', maxPoints: 5, weight: 1 };
+const EMPTY_OPTION: OptionDraft = { text: '', isCorrect: false };
+
+const CHOICE_QUESTION_TYPES = [QuestionType.MULTIPLE_CHOICE, QuestionType.MULTIPLE_SELECT];
+
+/**
+ * Form for adding a question of any type to a quiz or question bank.
+ * Written answers are graded by AI against the chosen rubric, or on
+ * correctness alone without one; a new rubric can be created on the spot.
+ */
+export const QuestionForm: React.FC<QuestionFormProps> = ({
+  quizId,
+  bankId,
+  topicId,
+  objectives = [],
+  onAdded,
+  onCancel,
+}) => {
+  const [questionType, setQuestionType] = useState<QuestionType>(QuestionType.MULTIPLE_CHOICE);
+  const [questionText, setQuestionText] = useState('');
+  const [explanation, setExplanation] = useState('');
+  const [modelAnswer, setModelAnswer] = useState('');
+  const [points, setPoints] = useState(1);
+  const [options, setOptions] = useState<OptionDraft[]>([{ ...EMPTY_OPTION }, { ...EMPTY_OPTION }]);
+  const [statementTrue, setStatementTrue] = useState(true);
+  const [partialCredit, setPartialCredit] = useState<PartialCreditMode>('right_minus_wrong');
+  const [code, setCode] = useState('');
+  const [language, setLanguage] = useState('python');
+  const [buggyLines, setBuggyLines] = useState<number[]>([]);
+  const [difficulty, setDifficulty] = useState<QuestionDifficulty | ''>('');
+  const [objectiveIds, setObjectiveIds] = useState<string[]>([]);
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [rubricId, setRubricId] = useState('');
+  const [creatingRubric, setCreatingRubric] = useState(false);
+  const [rubricName, setRubricName] = useState('');
+  const [criteria, setCriteria] = useState<CriterionDraft[]>([{ ...EMPTY_CRITERION }]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    quizService
+      .getRubricsByTopic(topicId)
+      .then(data => setRubrics(data.rubrics))
+      .catch(err => console.error('Failed to load rubrics:', err));
+  }, [topicId]);
+
+  const written = WRITTEN_QUESTION_TYPES.includes(questionType);
+
+  const updateCriterion = (index: number, changes: Partial<CriterionDraft>) => {
+    setCriteria(criteria.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion)));
+  };
+
+  const updateOption = (index: number, changes: Partial<OptionDraft>) => {
+    setOptions(options.map((option, i) => (i === index ? { ...option, ...changes } : option)));
+  };
+
+  const markCorrect = (index: number) => {
+    if (questionType === QuestionType.MULTIPLE_SELECT) {
+      updateOption(index, { isCorrect: !options[index].isCorrect });
+    } else {
+      setOptions(options.map((option, i) => ({ ...option, isCorrect: i === index })));
+    }
+  };
+
+  const handleTypeChange = (type: QuestionType) => {
+    setQuestionType(type);
+    setPoints(WRITTEN_QUESTION_TYPES.includes(type) ? 5 : 1);
+    if (type === QuestionType.MULTIPLE_CHOICE) {
+      // Keep at most one correct option
+      const firstCorrect = options.findIndex(option => option.isCorrect);
+      setOptions(options.map((option, i) => ({ ...option, isCorrect: i === firstCorrect })));
+    }
+    if (type === QuestionType.CODE_REVIEW && partialCredit === 'per_option') {
+      setPartialCredit('right_minus_wrong');
+    }
+  };
+
+  const toggleObjective = (id: string) => {
+    setObjectiveIds(objectiveIds.includes(id) ? objectiveIds.filter(o => o !== id) : [...objectiveIds, id]);
+  };
+
+  const handleCodeChange = (value: string) => {
+    setCode(value);
+    const lineCount = value.replace(/\n+$/, '').split('\n').length;
+    setBuggyLines(buggyLines.filter(line => line <= lineCount));
+  };
+
+  const toggleBuggyLine = (line: number) => {
+    setBuggyLines(buggyLines.includes(line) ? buggyLines.filter(l => l !== line) : [...buggyLines, line]);
+  };
+
+  const questionInput = (rubricId?: string): QuizQuestionCreateInput => {
+    const base = { questionType, questionText, points, explanation: explanation || undefined };
+    const config: QuestionConfig = { partialCredit };
+
+    switch (questionType) {
+      case QuestionType.MULTIPLE_CHOICE:
+        return { ...base, options };
+      case QuestionType.MULTIPLE_SELECT:
+        return { ...base, options, config };
+      case QuestionType.TRUE_FALSE:
+        return {
+          ...base,
+          options: [
+            { text: 'True', isCorrect: statementTrue },
+            { text: 'False', isCorrect: !statementTrue },
+          ],
+        };
+      case QuestionType.CODE_REVIEW:
+        return { ...base, config: { ...config, code, language, buggyLines } };
+      default:
+        return { ...base, rubricId, modelAnswer: modelAnswer || undefined };
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      let selectedRubricId = rubricId || undefined;
+      if (written && creatingRubric) {
+        const { rubric } = await quizService.createRubric({
+          name: rubricName,
+          topicId,
+          criteria: criteria.map(criterion => ({ ...criterion, description: criterion.description || undefined })),
+        });
+        setRubrics([...rubrics, rubric]);
+        setRubricId(rubric.id);
+        setCreatingRubric(false);
+        selectedRubricId = rubric.id;
+      }
+
+      const input = questionInput(selectedRubricId);
+      const { question } = bankId
+        ? await quizService.addBankQuestion(bankId, { ...input, difficulty: difficulty || null, objectiveIds })
+        : await quizService.addQuestion(quizId!, input);
+      onAdded(question);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to add question');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900">Add Question</h3>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+          <select
+            value={questionType}
+            onChange={e => handleTypeChange(e.target.value as QuestionType)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+          >
+            {Object.values(QuestionType).map(type => (
+              <option key={type} value={type}>
+                {QUESTION_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Points</label>
+          <input
+            type="number"
+            min={1}
+            value={points}
+            onChange={e => setPoints(parseInt(e.target.value) || 1)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+          />
+        </div>
+      </div>
+
+      {bankId && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Difficulty</label>
+            <select
+              value={difficulty}
+              onChange={e => setDifficulty(e.target.value as QuestionDifficulty | '')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              <option value="">Not set</option>
+              {(Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).map(level => (
+                <option key={level} value={level}>
+                  {DIFFICULTY_LABELS[level]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {objectives.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Learning Objectives</label>
+              <div className="space-y-1">
+                {objectives.map(objective => (
+                  <label key={objective.id} className="flex items-start gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={objectiveIds.includes(objective.id)}
+                      onChange={() => toggleObjective(objective.id)}
+                      className="mt-1"
+                    />
+                    {objective.objective_text}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Question</label>
+        <textarea
+          value={questionText}
+          onChange={e => setQuestionText(e.target.value)}
+          rows={3}
+          required
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+        />
+      </div>
+
+      {CHOICE_QUESTION_TYPES.includes(questionType) && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Options</label>
+          <p className="text-xs text-gray-500 mb-1">
+            {questionType === QuestionType.MULTIPLE_SELECT
+              ? 'Tick every correct option.'
+              : 'Pick the one correct option.'}
+          </p>
+          <div className="space-y-2">
+            {options.map((option, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type={questionType === QuestionType.MULTIPLE_SELECT ? 'checkbox' : 'radio'}
+                  name="correct-option"
+                  checked={option.isCorrect}
+                  onChange={() => markCorrect(index)}
+                  title="Correct"
+                />
+                <input
+                  type="text"
+                  value={option.text}
+                  onChange={e => updateOption(index, { text: e.target.value })}
+                  placeholder={`Option ${index + 1}`}
+                  required
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded"
+                />
+                <button
+                  type="button"
+                  onClick={() => setOptions(options.filter((_, i) => i !== index))}
+                  disabled={options.length <= 2}
+                  className="text-red-600 disabled:text-gray-300"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setOptions([...options, { ...EMPTY_OPTION }])}
+            className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+          >
+            + Add option
+          </button>
+        </div>
+      )}
+
+      {questionType === QuestionType.TRUE_FALSE && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">The statement is</label>
+          <select
+            value={statementTrue ? 'true' : 'false'}
+            onChange={e => setStatementTrue(e.target.value === 'true')}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+          >
+            <option value="true">True</option>
+            <option value="false">False</option>
+          </select>
+        </div>
+      )}
+
+      {questionType === QuestionType.CODE_REVIEW && (
+        <>
+          <div className="grid grid-cols-4 gap-4">
+            <div className="col-span-3">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+              <textarea
+                value={code}
+                onChange={e => handleCodeChange(e.target.value)}
+                rows={8}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Language</label>
+              <input
+                type="text"
+                value={language}
+                onChange={e => setLanguage(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+          </div>
+          {code.trim() && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Buggy Lines</label>
+              <p className="text-xs text-gray-500 mb-1">Click the lines learners should pick.</p>
+              <CodeReviewSnippet code={code} selectedLines={buggyLines} onToggleLine={toggleBuggyLine} />
+            </div>
+          )}
+        </>
+      )}
+
+      {(questionType === QuestionType.MULTIPLE_SELECT || questionType === QuestionType.CODE_REVIEW) && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Partial Credit</label>
+          <select
+            value={partialCredit}
+            onChange={e => setPartialCredit(e.target.value as PartialCreditMode)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+          >
+            {(Object.keys(PARTIAL_CREDIT_LABELS) as PartialCreditMode[])
+              .filter(mode => questionType === QuestionType.MULTIPLE_SELECT || mode !== 'per_option')
+              .map(mode => (
+                <option key={mode} value={mode}>
+                  {PARTIAL_CREDIT_LABELS[mode]}
+                </option>
+              ))}
+          </select>
+        </div>
+      )}
+
+      {written ? (
+        <>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Model Answer (optional)</label>
+          <p className="text-xs text-gray-500 mb-1">Given to the AI grader, never shown to learners.</p>
+          <textarea
+            value={modelAnswer}
+            onChange={e => setModelAnswer(e.target.value)}
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Rubric</label>
+          <div className="flex gap-2">
+            <select
+              value={rubricId}
+              onChange={e => setRubricId(e.target.value)}
+              disabled={creatingRubric}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              <option value="">No rubric (graded on correctness)</option>
+              {rubrics.map(rubric => (
+                <option key={rubric.id} value={rubric.id}>
+                  {rubric.name} ({rubric.max_score} pts)
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => setCreatingRubric(!creatingRubric)}
+              className="px-3 py-2 text-sm text-blue-600 border border-blue-600 rounded-lg hover:bg-blue-50"
+            >
+              {creatingRubric ? 'Use Existing' : 'New Rubric'}
+            </button>
+          </div>
+        </div>
+
+        {creatingRubric && (
+          <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+            <input
+              type="text"
+              value={rubricName}
+              onChange={e => setRubricName(e.target.value)}
+              placeholder="Rubric name"
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+            {criteria.map((criterion, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2">
+                <input
+                  type="text"
+                  value={criterion.name}
+                  onChange={e => updateCriterion(index, { name: e.target.value })}
+                  placeholder="Criterion"
+                  required
+                  className="col-span-3 px-2 py-1 border border-gray-300 rounded"
+                />
+                <input
+                  type="text"
+                  value={criterion.description}
+                  onChange={e => updateCriterion(index, { description: e.target.value })}
+                  placeholder="What earns the points"
+                  className="col-span-5 px-2 py-1 border border-gray-300 rounded"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={criterion.maxPoints}
+                  onChange={e => updateCriterion(index, { maxPoints: parseFloat(e.target.value) || 1 })}
+                  title="Max points"
+                  className="col-span-2 px-2 py-1 border border-gray-300 rounded"
+                />
+                <input
+                  type="number"
+                  min={0.1}
+                  step={0.1}
+                  value={criterion.weight}
+                  onChange={e => updateCriterion(index, { weight: parseFloat(e.target.value) || 1 })}
+                  title="Weight"
+                  className="col-span-1 px-2 py-1 border border-gray-300 rounded"
+                />
+                <button
+                  type="button"
+                  onClick={() => setCriteria(criteria.filter((_, i) => i !== index))}
+                  disabled={criteria.length === 1}
+                  className="col-span-1 text-red-600 disabled:text-gray-300"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setCriteria([...criteria, { ...EMPTY_CRITERION }])}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              + Add criterion
+            </button>
+          </div>
+        )}
+        </>
+      ) : (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Explanation (optional)</label>
+          <p className="text-xs text-gray-500 mb-1">Shown to learners with their results.</p>
+          <textarea
+            value={explanation}
+            onChange={e => setExplanation(e.target.value)}
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+          />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+        >
+          {saving ? 'Saving...' : 'Add Question'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-6 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { quizService } from '../../services/quiz.service';
+import { GRADING_STATUS_LABELS } from '../../constants/quizzes';
+import type { CriterionScore, WrittenAnswerReview } from '../../types';
+
+interface AnswerGradeCardProps {
+  answer: WrittenAnswerReview;
+  onSaved: () => void;
+}
+
+/**
+ * One written answer with its rubric grade: the instructor can change the
+ * points and feedback per criterion, then save the grade or make it final
+ */
+const AnswerGradeCard: React.FC<AnswerGradeCardProps> = ({ answer, onSaved }) => {
+  const [scores, setScores] = useState<CriterionScore[]>(answer.criterion_scores ?? []);
+  const [feedback, setFeedback] = useState(answer.instructor_feedback ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateScore = (index: number, changes: Partial<CriterionScore>) => {
+    setScores(scores.map((score, i) => (i === index ? { ...score, ...changes } : score)));
+  };
+
+  const handleSave = async (final: boolean) => {
+    if (final && !confirm('Final grades cannot be changed anymore. Continue?')) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await quizService.overrideGrade(answer.id, {
+        criteria: scores.map(score => ({ points: score.points, feedback: score.feedback })),
+        feedback: feedback || undefined,
+        final,
+      });
+      onSaved();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to save grade');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRetry = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await quizService.retryGrading(answer.attempt_id);
+      onSaved();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to grade again');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-start justify-between mb-2">
+        <div>
+          <div className="text-sm text-gray-500">
+            {answer.first_name} {answer.last_name} · Attempt {answer.attempt_number}
+          </div>
+          <h3 className="font-semibold text-gray-900">{answer.question_text}</h3>
+        </div>
+        <div className="text-right ml-4">
+          <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs font-medium rounded">
+            {GRADING_STATUS_LABELS[answer.grading_status]}
+          </span>
+          <div className="text-sm text-gray-700 mt-1">
+            {answer.points_earned}/{answer.question_points} pts
+            {answer.ai_points !== null && answer.ai_points !== answer.points_earned && (
+              <span className="text-gray-400"> (AI: {answer.ai_points})</span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <p className="p-3 mb-3 bg-gray-50 border border-gray-200 rounded-lg text-gray-900 whitespace-pre-wrap">
+        {answer.text_answer}
+      </p>
+
+      {answer.grading_status === 'pending' && (
+        <p className="text-sm text-gray-500">The AI is grading this answer.</p>
+      )}
+
+      {answer.grading_status === 'failed' && (
+        <div className="flex items-center justify-between p-3 mb-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{answer.grading_error || 'The AI could not grade this answer.'}</p>
+          <button
+            onClick={handleRetry}
+            disabled={saving}
+            className="ml-4 px-3 py-1 text-sm text-red-700 border border-red-400 rounded hover:bg-red-100 disabled:opacity-50"
+          >
+            Grade Again
+          </button>
+        </div>
+      )}
+
+      {scores.length > 0 && (
+        <div className="space-y-2">
+          {scores.map((score, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-start">
+              <span className="col-span-3 pt-2 text-sm font-medium text-gray-700">{score.name}</span>
+              <div className="col-span-2 flex items-center gap-1">
+                <input
+                  type="number"
+                  min={0}
+                  max={score.maxPoints}
+                  step={0.5}
+                  value={score.points}
+                  onChange={e => updateScore(index, { points: parseFloat(e.target.value) || 0 })}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded"
+                />
+                <span className="text-sm text-gray-500">/ {score.maxPoints}</span>
+              </div>
+              <textarea
+                value={score.feedback}
+                onChange={e => updateScore(index, { feedback: e.target.value })}
+                rows={2}
+                className="col-span-7 px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </div>
+          ))}
+
+          {answer.ai_feedback && (
+            <p className="text-sm text-gray-600">
+              <span className="font-medium">AI feedback:</span> {answer.ai_feedback}
+            </p>
+          )}
+          <textarea
+            value={feedback}
+            onChange={e => setFeedback(e.target.value)}
+            rows={2}
+            placeholder="Your feedback to the learner (replaces the AI feedback)"
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleSave(false)}
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              Save Grade
+            </button>
+            <button
+              onClick={() => handleSave(true)}
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+            >
+              Make Final
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+/**
+ * Written answers of a quiz awaiting a final grade. The AI grades them
+ * against the question's rubric; instructors review and finalize the grades.
+ */
+export const QuizGrading: React.FC = () => {
+  const { quizId } = useParams<{ quizId: string }>();
+  const navigate = useNavigate();
+
+  const [answers, setAnswers] = useState<WrittenAnswerReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAnswers();
+  }, [quizId]);
+
+  const loadAnswers = async () => {
+    if (!quizId) return;
+
+    try {
+      setError(null);
+      const data = await quizService.getGradingQueue(quizId);
+      setAnswers(data.answers);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to load answers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-gray-500">Loading answers...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="bg-white rounded-lg shadow-md">
+        <div className="border-b border-gray-200 p-6 flex items-center justify-between">
+          <div>
+            <button
+              onClick={() => navigate(-1)}
+              className="mb-2 text-blue-600 hover:text-blue-800 font-medium"
+            >
+              ← Back
+            </button>
+            <h2 className="text-2xl font-bold text-gray-900">Grade Written Answers</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Review the AI grades and make them final. Learners see provisional grades until then.
+            </p>
+          </div>
+          <button
+            onClick={loadAnswers}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            Refresh
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="p-6 space-y-4">
+          {answers.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">All written answers have a final grade.</p>
+          ) : (
+            answers.map(answer => (
+              <AnswerGradeCard key={`${answer.id}-${answer.graded_at}`} answer={answer} onSaved={loadAnswers} />
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
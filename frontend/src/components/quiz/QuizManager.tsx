@@ -3,6 +3,11 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { quizService } from '../../services/quiz.service';
 import { aiService } from '../../services/ai.service';
 import { curriculumService } from '../../services/curriculum.service';
+import { GENERATED_QUESTION_TYPES, QUESTION_TYPE_LABELS } from '../../constants/quizzes';
+import { QuestionForm } from './QuestionForm';
+import { DrawRulesEditor } from './DrawRulesEditor';
+import { ItemAnalysis } from './ItemAnalysis';
+import { QuestionType } from '../../types';
 import type { Quiz, AIProvider, Topic } from '../../types';
 
 export const QuizManager: React.FC = () => {
@@ -21,6 +26,14 @@ export const QuizManager: React.FC = () => {
   const [numQuestions, setNumQuestions] = useState(5);
   const [quizTitle, setQuizTitle] = useState('');
   const [passingScore, setPassingScore] = useState(70);
+  const [questionTypes, setQuestionTypes] = useState<QuestionType[]>([QuestionType.MULTIPLE_CHOICE]);
+
+  // Quiz a question is being added to
+  const [addingQuestionTo, setAddingQuestionTo] = useState<string | null>(null);
+  // Quiz whose draw rules are being edited
+  const [editingRulesOf, setEditingRulesOf] = useState<string | null>(null);
+  // Quiz whose item analysis is shown
+  const [analyzing, setAnalyzing] = useState<string | null>(null);
 
   useEffect(() => {
     if (topicId) {
@@ -60,7 +73,9 @@ export const QuizManager: React.FC = () => {
 
     try {
       const topicData = await curriculumService.getTopicSummary(topicId);
-      setTopic(topicData);
+      // The details hold the learning objectives draw rules can target
+      const topicDetails = await curriculumService.getTopicDetails(topicData.curriculum_id, topicId);
+      setTopic(topicDetails);
     } catch (err) {
       console.error('Failed to load topic details:', err);
       setTopic({ id: topicId!, title: 'Topic', description: null } as Topic);
@@ -80,6 +95,7 @@ export const QuizManager: React.FC = () => {
         numQuestions,
         title: quizTitle || undefined,
         passingScore,
+        questionTypes,
       });
 
       setQuizzes([...quizzes, result.quiz]);
@@ -92,6 +108,12 @@ export const QuizManager: React.FC = () => {
     }
   };
 
+  const toggleQuestionType = (type: QuestionType) => {
+    setQuestionTypes(
+      questionTypes.includes(type) ? questionTypes.filter(t => t !== type) : [...questionTypes, type]
+    );
+  };
+
   const handleDeleteQuiz = async (quizId: string) => {
     if (!confirm('Are you sure you want to delete this quiz?')) return;
 
@@ -151,12 +173,20 @@ export const QuizManager: React.FC = () => {
                 {topic?.title ? `${topic.title} - ` : ''}Create and manage AI-generated quizzes for this topic
               </p>
             </div>
-            <button
-              onClick={() => setShowGenerateForm(!showGenerateForm)}
-              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              {showGenerateForm ? 'Cancel' : 'Generate New Quiz'}
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => navigate(`/topics/${topicId}/banks`)}
+                className="px-4 py-2 text-blue-600 border border-blue-600 rounded-lg hover:bg-blue-50 transition-colors"
+              >
+                Question Banks
+              </button>
+              <button
+                onClick={() => setShowGenerateForm(!showGenerateForm)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                {showGenerateForm ? 'Cancel' : 'Generate New Quiz'}
+              </button>
+            </div>
           </div>
         </div>
 
@@ -237,10 +267,28 @@ export const QuizManager: React.FC = () => {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Question Types
+                </label>
+                <div className="flex flex-wrap gap-4">
+                  {GENERATED_QUESTION_TYPES.map(type => (
+                    <label key={type} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={questionTypes.includes(type)}
+                        onChange={() => toggleQuestionType(type)}
+                      />
+                      {QUESTION_TYPE_LABELS[type]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
               <div className="flex gap-3">
                 <button
                   type="submit"
-                  disabled={generating || providers.length === 0}
+                  disabled={generating || providers.length === 0 || questionTypes.length === 0}
                   className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
                 >
                   {generating ? 'Generating...' : 'Generate Quiz'}
@@ -337,6 +385,30 @@ export const QuizManager: React.FC = () => {
                       >
                         📋 Review All
                       </button>
+                      <button
+                        onClick={() => setAddingQuestionTo(addingQuestionTo === quiz.id ? null : quiz.id)}
+                        className="px-3 py-1 text-sm text-green-600 border border-green-600 rounded hover:bg-green-50 transition-colors"
+                      >
+                        Add Question
+                      </button>
+                      <button
+                        onClick={() => setEditingRulesOf(editingRulesOf === quiz.id ? null : quiz.id)}
+                        className="px-3 py-1 text-sm text-green-600 border border-green-600 rounded hover:bg-green-50 transition-colors"
+                      >
+                        Draw Rules
+                      </button>
+                      <button
+                        onClick={() => setAnalyzing(analyzing === quiz.id ? null : quiz.id)}
+                        className="px-3 py-1 text-sm text-purple-600 border border-purple-600 rounded hover:bg-purple-50 transition-colors"
+                      >
+                        Item Analysis
+                      </button>
+                      <button
+                        onClick={() => navigate(`/quizzes/${quiz.id}/grading`)}
+                        className="px-3 py-1 text-sm text-green-600 border border-green-600 rounded hover:bg-green-50 transition-colors"
+                      >
+                        Grade Answers
+                      </button>
                       <button
                         onClick={() => navigate(`/quizzes/${quiz.id}`)}
                         className="px-3 py-1 text-sm text-blue-600 border border-blue-600 rounded hover:bg-blue-50 transition-colors"
@@ -357,6 +429,32 @@ export const QuizManager: React.FC = () => {
                       </button>
                     </div>
                   </div>
+                  {addingQuestionTo === quiz.id && topicId && (
+                    <div className="mt-4">
+                      <QuestionForm
+                        quizId={quiz.id}
+                        topicId={topicId}
+                        onAdded={() => setAddingQuestionTo(null)}
+                        onCancel={() => setAddingQuestionTo(null)}
+                      />
+                    </div>
+                  )}
+                  {editingRulesOf === quiz.id && topicId && (
+                    <div className="mt-4">
+                      <DrawRulesEditor
+                        quizId={quiz.id}
+                        topicId={topicId}
+                        objectives={topic?.learning_objectives ?? []}
+                        onSaved={() => setEditingRulesOf(null)}
+                        onCancel={() => setEditingRulesOf(null)}
+                      />
+                    </div>
+                  )}
+                  {analyzing === quiz.id && (
+                    <div className="mt-4">
+                      <ItemAnalysis quizId={quiz.id} />
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
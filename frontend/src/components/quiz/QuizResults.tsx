@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { quizService } from '../../services/quiz.service';
+import { GRADING_STATUS_LABELS } from '../../constants/quizzes';
+import { CodeReviewSnippet } from './CodeReviewSnippet';
 import type { QuizAttemptWithAnswers } from '../../types';
 
 export const QuizResults: React.FC = () => {
@@ -66,7 +68,12 @@ export const QuizResults: React.FC = () => {
     : 0;
 
   const correctAnswers = results.answers.filter(a => a.is_correct).length;
-  const totalQuestions = results.answers.length;
+  // Unanswered questions of the attempt count too
+  const totalQuestions = results.question_count ?? results.answers.length;
+  // Written answers count towards the score once graded
+  const awaitingGrade = results.answers.some(
+    a => a.grading_status === 'pending' || a.grading_status === 'failed'
+  );
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
@@ -141,6 +148,28 @@ export const QuizResults: React.FC = () => {
           </div>
         </div>
 
+        {results.status === 'expired' && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-sm text-red-800">
+              The time limit ran out before the quiz was submitted. Only answers given in time were scored.
+            </p>
+          </div>
+        )}
+
+        {awaitingGrade && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 flex items-center justify-between">
+            <p className="text-sm text-yellow-800">
+              Some written answers have not been graded yet, so your score may still change.
+            </p>
+            <button
+              onClick={loadResults}
+              className="ml-4 px-3 py-1 text-sm text-yellow-800 border border-yellow-400 rounded hover:bg-yellow-100"
+            >
+              Refresh
+            </button>
+          </div>
+        )}
+
         {/* Answer Review Toggle */}
         <div className="bg-white rounded-lg shadow-md p-6 mb-6">
           <button
@@ -175,9 +204,11 @@ export const QuizResults: React.FC = () => {
               <div
                 key={answer.id}
                 className={`bg-white rounded-lg shadow-md p-6 border-l-4 ${
-                  answer.is_correct
-                    ? 'border-green-500'
-                    : 'border-red-500'
+                  answer.grading_status
+                    ? 'border-blue-500'
+                    : answer.is_correct
+                      ? 'border-green-500'
+                      : 'border-red-500'
                 }`}
               >
                 {/* Question Header */}
@@ -187,7 +218,11 @@ export const QuizResults: React.FC = () => {
                       <span className="text-sm font-medium text-gray-500">
                         Question {index + 1}
                       </span>
-                      {answer.is_correct ? (
+                      {answer.grading_status ? (
+                        <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs font-medium rounded">
+                          {GRADING_STATUS_LABELS[answer.grading_status]}
+                        </span>
+                      ) : answer.is_correct ? (
                         <span className="px-2 py-1 bg-green-100 text-green-700 text-xs font-medium rounded">
                           Correct
                         </span>
@@ -232,6 +267,86 @@ export const QuizResults: React.FC = () => {
                   </div>
                 )}
 
+                {/* Multi-select: every option picked */}
+                {answer.selected_option_texts && answer.selected_option_texts.length > 0 && (
+                  <div className="mb-3">
+                    <div className="text-sm font-medium text-gray-700 mb-1">
+                      Your Answers:
+                    </div>
+                    <ul
+                      className={`p-3 rounded-lg list-disc list-inside ${
+                        answer.is_correct
+                          ? 'bg-green-50 border border-green-200 text-green-900'
+                          : 'bg-red-50 border border-red-200 text-red-900'
+                      }`}
+                    >
+                      {answer.selected_option_texts.map((text, textIndex) => (
+                        <li key={textIndex}>{text}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Code review: the lines picked against the buggy ones */}
+                {answer.question_config?.code && (
+                  <div className="mb-3">
+                    <div className="text-sm font-medium text-gray-700 mb-1">
+                      Lines You Picked: {answer.selected_lines?.join(', ') || 'none'}
+                    </div>
+                    <CodeReviewSnippet
+                      code={answer.question_config.code}
+                      selectedLines={answer.selected_lines ?? []}
+                      buggyLines={answer.question_config.buggyLines}
+                    />
+                    {answer.question_config.buggyLines && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Green: buggy lines you found. Yellow: buggy lines you missed. Red: lines picked wrongly.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {/* Written answer with its rubric grade */}
+                {answer.text_answer && (
+                  <div className="mb-3">
+                    <div className="text-sm font-medium text-gray-700 mb-1">
+                      Your Answer:
+                    </div>
+                    <div className="p-3 rounded-lg bg-gray-50 border border-gray-200">
+                      <p className="text-gray-900 whitespace-pre-wrap">{answer.text_answer}</p>
+                    </div>
+                  </div>
+                )}
+
+                {answer.criterion_scores && answer.criterion_scores.length > 0 && (
+                  <div className="mb-3 space-y-2">
+                    {answer.criterion_scores.map((criterion, criterionIndex) => (
+                      <div key={criterionIndex} className="p-3 border border-gray-200 rounded-lg">
+                        <div className="flex justify-between text-sm font-medium text-gray-900">
+                          <span>{criterion.name}</span>
+                          <span>
+                            {criterion.points}/{criterion.maxPoints}
+                          </span>
+                        </div>
+                        {criterion.feedback && (
+                          <p className="text-sm text-gray-600 mt-1">{criterion.feedback}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {(answer.instructor_feedback || answer.ai_feedback) && (
+                  <div className="mt-3 p-4 bg-purple-50 border border-purple-200 rounded-lg">
+                    <div className="text-sm font-medium text-purple-900 mb-1">
+                      Feedback:
+                    </div>
+                    <p className="text-sm text-purple-800 whitespace-pre-wrap">
+                      {answer.instructor_feedback || answer.ai_feedback}
+                    </p>
+                  </div>
+                )}
+
                 {/* Explanation */}
                 {answer.option_explanation && (
                   <div className="mt-3 p-4 bg-blue-50 border border-blue-200 rounded-lg">
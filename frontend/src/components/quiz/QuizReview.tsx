@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { quizService } from '../../services/quiz.service';
+import { QuestionForm } from './QuestionForm';
+import { CodeReviewSnippet } from './CodeReviewSnippet';
+import { PARTIAL_CREDIT_LABELS } from '../../constants/quizzes';
 import type { QuizWithQuestions, QuizQuestion } from '../../types';
 
 export const QuizReview: React.FC = () => {
@@ -12,6 +15,7 @@ export const QuizReview: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expandedQuestions, setExpandedQuestions] = useState<Set<string>>(new Set());
+  const [showQuestionForm, setShowQuestionForm] = useState(false);
 
   useEffect(() => {
     loadQuizData();
@@ -64,10 +68,16 @@ export const QuizReview: React.FC = () => {
     switch (type) {
       case 'multiple_choice':
         return 'Multiple Choice';
+      case 'multiple_select':
+        return 'Multi-Select';
       case 'true_false':
         return 'True/False';
       case 'short_answer':
         return 'Short Answer';
+      case 'essay':
+        return 'Essay';
+      case 'code_review':
+        return 'Code Review';
       default:
         return type;
     }
@@ -197,14 +207,34 @@ export const QuizReview: React.FC = () => {
         {/* Actions */}
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-xl font-semibold text-gray-900">All Questions</h2>
-          <button
-            onClick={toggleAllQuestions}
-            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 text-sm"
-          >
-            {expandedQuestions.size === questions.length ? 'Collapse All' : 'Expand All'}
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setShowQuestionForm(!showQuestionForm)}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm"
+            >
+              Add Question
+            </button>
+            <button
+              onClick={toggleAllQuestions}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 text-sm"
+            >
+              {expandedQuestions.size === questions.length ? 'Collapse All' : 'Expand All'}
+            </button>
+          </div>
         </div>
 
+        {showQuestionForm && (
+          <QuestionForm
+            quizId={quiz.id}
+            topicId={quiz.topic_id}
+            onAdded={(question) => {
+              setQuestions([...questions, question]);
+              setShowQuestionForm(false);
+            }}
+            onCancel={() => setShowQuestionForm(false)}
+          />
+        )}
+
         {/* Questions List */}
         {questions.length === 0 ? (
           <div className="bg-white rounded-lg shadow p-12 text-center">
@@ -244,9 +274,11 @@ export const QuizReview: React.FC = () => {
                           <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded">
                             {getQuestionTypeLabel(question.question_type)}
                           </span>
-                          <span className={`px-2 py-1 text-xs font-medium rounded ${getDifficultyColor(question.difficulty)}`}>
-                            {question.difficulty}
-                          </span>
+                          {question.difficulty && (
+                            <span className={`px-2 py-1 text-xs font-medium rounded ${getDifficultyColor(question.difficulty)}`}>
+                              {question.difficulty}
+                            </span>
+                          )}
                           <span className="px-2 py-1 bg-purple-100 text-purple-800 text-xs font-medium rounded">
                             {question.points} pts
                           </span>
@@ -274,10 +306,15 @@ export const QuizReview: React.FC = () => {
                   {/* Question Details */}
                   {isExpanded && (
                     <div className="px-6 pb-6 border-t border-gray-200 pt-4">
-                      {/* Multiple Choice Options */}
-                      {question.question_type === 'multiple_choice' && question.options && (
+                      {/* Multiple Choice and Multi-Select Options */}
+                      {(question.question_type === 'multiple_choice' || question.question_type === 'multiple_select') && question.options && (
                         <div className="space-y-2 mb-4">
                           <h4 className="font-medium text-gray-700 text-sm mb-2">Answer Options:</h4>
+                          {question.question_config?.partialCredit && (
+                            <p className="text-xs text-gray-500 mb-2">
+                              Partial credit: {PARTIAL_CREDIT_LABELS[question.question_config.partialCredit]}
+                            </p>
+                          )}
                           {question.options.map((option, optIndex) => {
                             const isCorrect = option.is_correct;
                             return (
@@ -326,6 +363,25 @@ export const QuizReview: React.FC = () => {
                         </div>
                       )}
 
+                      {/* Code Review: buggy lines highlighted */}
+                      {question.question_type === 'code_review' && question.question_config?.code && (
+                        <div className="mb-4">
+                          <h4 className="font-medium text-gray-700 text-sm mb-2">
+                            Buggy Lines: {question.question_config.buggyLines?.join(', ') || 'N/A'}
+                          </h4>
+                          <CodeReviewSnippet
+                            code={question.question_config.code}
+                            selectedLines={question.question_config.buggyLines ?? []}
+                            buggyLines={question.question_config.buggyLines ?? []}
+                          />
+                          {question.question_config.partialCredit && (
+                            <p className="text-xs text-gray-500 mt-2">
+                              Partial credit: {PARTIAL_CREDIT_LABELS[question.question_config.partialCredit]}
+                            </p>
+                          )}
+                        </div>
+                      )}
+
                       {/* Short Answer */}
                       {question.question_type === 'short_answer' && question.options && (
                         <div className="mb-4">
@@ -338,6 +394,21 @@ export const QuizReview: React.FC = () => {
                         </div>
                       )}
 
+                      {/* Written answers: graded by AI against the rubric */}
+                      {(question.question_type === 'short_answer' || question.question_type === 'essay') && (
+                        <div className="mb-4 text-sm text-gray-700">
+                          {question.model_answer && (
+                            <div className="mb-2">
+                              <h4 className="font-medium text-gray-700 mb-2">Model Answer:</h4>
+                              <div className="p-3 bg-green-50 border-2 border-green-500 rounded-lg">
+                                <p className="text-gray-900 whitespace-pre-wrap">{question.model_answer}</p>
+                              </div>
+                            </div>
+                          )}
+                          <p>{question.rubric_id ? 'Graded with a rubric' : 'Graded on correctness'} by AI, reviewed by you.</p>
+                        </div>
+                      )}
+
                       {/* Explanation */}
                       {question.explanation && (
                         <div>
@@ -1,7 +1,16 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { quizService } from '../../services/quiz.service';
-import type { QuizWithQuestions, QuizAttempt, QuizQuestion, QuizQuestionOption } from '../../types';
+import { WRITTEN_QUESTION_TYPES } from '../../constants/quizzes';
+import { CodeReviewSnippet } from './CodeReviewSnippet';
+import { QuestionType } from '../../types';
+import type {
+  QuizWithQuestions,
+  QuizAttempt,
+  QuizQuestion,
+  QuizQuestionOption,
+  SubmitAnswerInput,
+} from '../../types';
 
 export const QuizTaker: React.FC = () => {
   const { quizId } = useParams<{ quizId: string }>();
@@ -10,11 +19,16 @@ export const QuizTaker: React.FC = () => {
   const [quiz, setQuiz] = useState<QuizWithQuestions | null>(null);
   const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [answers, setAnswers] = useState<Map<string, string>>(new Map());
+  // Answers by question id; a question without an entry is unanswered
+  const [answers, setAnswers] = useState<Map<string, SubmitAnswerInput>>(new Map());
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [startTime, setStartTime] = useState<Date | null>(null);
+  const [now, setNow] = useState(Date.now());
+  // Seconds spent on each question over all visits, sent with its answer
+  const timeSpent = useRef(new Map<string, number>());
+  const shownQuestion = useRef<{ questionId: string; since: number } | null>(null);
 
   useEffect(() => {
     if (quizId) {
@@ -22,6 +36,43 @@ export const QuizTaker: React.FC = () => {
     }
   }, [quizId]);
 
+  // Tick the clock while the attempt is running
+  useEffect(() => {
+    if (!attempt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [attempt]);
+
+  // Credit the time on screen to the question being left
+  useEffect(() => {
+    if (!attempt || !quiz) return;
+
+    const previous = shownQuestion.current;
+    if (previous) {
+      const seconds = (Date.now() - previous.since) / 1000;
+      timeSpent.current.set(previous.questionId, (timeSpent.current.get(previous.questionId) ?? 0) + seconds);
+    }
+    const questionId = quiz.questions[currentQuestionIndex]?.id;
+    shownQuestion.current = questionId ? { questionId, since: Date.now() } : null;
+  }, [attempt, currentQuestionIndex]);
+
+  const secondsOn = (questionId: string) => {
+    const shown = shownQuestion.current;
+    const onScreen = shown?.questionId === questionId ? (Date.now() - shown.since) / 1000 : 0;
+    return Math.round((timeSpent.current.get(questionId) ?? 0) + onScreen);
+  };
+
+  const secondsLeft = attempt?.expires_at
+    ? Math.max(0, Math.floor((new Date(attempt.expires_at).getTime() - now) / 1000))
+    : null;
+
+  // Out of time: the server takes no more answers, so submit what there is
+  useEffect(() => {
+    if (secondsLeft === 0) {
+      handleTimeUp();
+    }
+  }, [secondsLeft === 0]);
+
   const loadQuiz = async () => {
     if (!quizId) return;
 
@@ -37,44 +88,78 @@ export const QuizTaker: React.FC = () => {
   };
 
   const handleStartQuiz = async () => {
-    if (!quizId) return;
+    if (!quizId || !quiz) return;
 
     try {
-      const { attempt: newAttempt } = await quizService.startAttempt(quizId);
+      // A resumed attempt keeps its start time and question order
+      const { attempt: newAttempt, questions } = await quizService.startAttempt(quizId);
+      setQuiz({ ...quiz, questions });
       setAttempt(newAttempt);
-      setStartTime(new Date());
+      setStartTime(new Date(newAttempt.started_at));
     } catch (err: any) {
       setError(err.message || 'Failed to start quiz');
     }
   };
 
+  const isWritten = (question: QuizQuestion) => WRITTEN_QUESTION_TYPES.includes(question.question_type);
+
+  const setAnswer = (questionId: string, answer: SubmitAnswerInput | null) => {
+    const updated = new Map(answers);
+    if (answer) {
+      updated.set(questionId, answer);
+    } else {
+      updated.delete(questionId);
+    }
+    setAnswers(updated);
+  };
+
   const handleAnswerSelect = (questionId: string, optionId: string) => {
-    setAnswers(new Map(answers.set(questionId, optionId)));
+    setAnswer(questionId, { questionId, selectedOptionId: optionId });
   };
 
-  const handleSubmitAnswer = async () => {
-    if (!attempt || !quiz) return;
+  const toggle = <T,>(values: T[], value: T) =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  const handleOptionToggle = (questionId: string, optionId: string) => {
+    const selectedOptionIds = toggle(answers.get(questionId)?.selectedOptionIds ?? [], optionId);
+    setAnswer(questionId, selectedOptionIds.length ? { questionId, selectedOptionIds } : null);
+  };
+
+  const handleLineToggle = (questionId: string, line: number) => {
+    const selectedLines = toggle(answers.get(questionId)?.selectedLines ?? [], line);
+    setAnswer(questionId, selectedLines.length ? { questionId, selectedLines } : null);
+  };
+
+  const handleTextChange = (questionId: string, text: string) => {
+    setAnswer(questionId, text.trim() ? { questionId, textAnswer: text } : null);
+  };
+
+  const submitCurrentAnswer = async (): Promise<boolean> => {
+    if (!attempt || !quiz) return false;
 
     const currentQuestion = quiz.questions[currentQuestionIndex];
-    const selectedOptionId = answers.get(currentQuestion.id);
+    const answer = answers.get(currentQuestion.id);
 
-    if (!selectedOptionId) {
-      alert('Please select an answer before proceeding');
-      return;
+    if (!answer) {
+      alert(isWritten(currentQuestion) ? 'Please write an answer before proceeding' : 'Please select an answer before proceeding');
+      return false;
     }
 
     try {
-      await quizService.submitAnswer(attempt.id, {
-        questionId: currentQuestion.id,
-        selectedOptionId,
-      });
-
-      // Move to next question or complete quiz
-      if (currentQuestionIndex < quiz.questions.length - 1) {
-        setCurrentQuestionIndex(currentQuestionIndex + 1);
-      }
+      await quizService.submitAnswer(attempt.id, { ...answer, timeSpentSeconds: secondsOn(currentQuestion.id) });
+      return true;
     } catch (err: any) {
       setError(err.message || 'Failed to submit answer');
+      return false;
+    }
+  };
+
+  const handleSubmitAnswer = async () => {
+    if (!quiz || !(await submitCurrentAnswer())) return;
+
+    // Move to next question or complete quiz
+    if (currentQuestionIndex < quiz.questions.length - 1) {
+      setCurrentQuestionIndex(currentQuestionIndex + 1);
     }
   };
 
@@ -85,6 +170,25 @@ export const QuizTaker: React.FC = () => {
       return;
     }
 
+    // The last answer is only saved on submit
+    if (!(await submitCurrentAnswer())) return;
+
+    await finishAttempt();
+  };
+
+  const handleTimeUp = async () => {
+    if (!attempt || !quiz || submitting) return;
+
+    // Save the answer on screen if there is one; the others were saved already
+    if (answers.has(quiz.questions[currentQuestionIndex].id)) {
+      await submitCurrentAnswer();
+    }
+    await finishAttempt();
+  };
+
+  const finishAttempt = async () => {
+    if (!attempt) return;
+
     try {
       setSubmitting(true);
       const { attempt: completedAttempt } = await quizService.completeAttempt(attempt.id);
@@ -96,14 +200,17 @@ export const QuizTaker: React.FC = () => {
     }
   };
 
-  const getTimeElapsed = () => {
-    if (!startTime) return '0:00';
-    const seconds = Math.floor((Date.now() - startTime.getTime()) / 1000);
+  const formatSeconds = (seconds: number) => {
     const minutes = Math.floor(seconds / 60);
     const secs = seconds % 60;
     return `${minutes}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const getTimeElapsed = () => {
+    if (!startTime) return '0:00';
+    return formatSeconds(Math.max(0, Math.floor((now - startTime.getTime()) / 1000)));
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -150,7 +257,7 @@ export const QuizTaker: React.FC = () => {
             <h2 className="text-lg font-semibold text-blue-900 mb-3">Quiz Information</h2>
             <ul className="space-y-2 text-sm text-blue-800">
               <li>
-                <strong>Questions:</strong> {quiz.questions.length}
+                <strong>Questions:</strong> {quiz.questions.length + (quiz.drawn_question_count ?? 0)}
               </li>
               <li>
                 <strong>Passing Score:</strong> {quiz.quiz.passing_score}%
@@ -187,6 +294,7 @@ export const QuizTaker: React.FC = () => {
   const progress = ((currentQuestionIndex + 1) / quiz.questions.length) * 100;
   const answeredCount = answers.size;
   const isLastQuestion = currentQuestionIndex === quiz.questions.length - 1;
+  const isMultiSelect = currentQuestion.question_type === QuestionType.MULTIPLE_SELECT;
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
@@ -195,9 +303,15 @@ export const QuizTaker: React.FC = () => {
         <div className="bg-white rounded-lg shadow-md p-6 mb-6">
           <div className="flex items-center justify-between mb-4">
             <h1 className="text-2xl font-bold text-gray-900">{quiz.quiz.title}</h1>
-            <div className="text-sm text-gray-500">
-              Time Elapsed: <span className="font-mono">{getTimeElapsed()}</span>
-            </div>
+            {secondsLeft !== null ? (
+              <div className={`text-sm ${secondsLeft < 60 ? 'text-red-600 font-semibold' : 'text-gray-500'}`}>
+                Time Left: <span className="font-mono">{formatSeconds(secondsLeft)}</span>
+              </div>
+            ) : (
+              <div className="text-sm text-gray-500">
+                Time Elapsed: <span className="font-mono">{getTimeElapsed()}</span>
+              </div>
+            )}
           </div>
 
           {/* Progress Bar */}
@@ -232,10 +346,43 @@ export const QuizTaker: React.FC = () => {
             </h2>
           </div>
 
+          {/* Written answer */}
+          {isWritten(currentQuestion) && (
+            <div>
+              <textarea
+                value={answers.get(currentQuestion.id)?.textAnswer ?? ''}
+                onChange={e => handleTextChange(currentQuestion.id, e.target.value)}
+                rows={currentQuestion.question_type === QuestionType.ESSAY ? 12 : 4}
+                placeholder="Write your answer..."
+                className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:border-blue-600 focus:outline-none"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Written answers are graded after you submit the quiz.
+              </p>
+            </div>
+          )}
+
+          {/* Code review: pick the buggy lines */}
+          {currentQuestion.question_type === QuestionType.CODE_REVIEW && currentQuestion.question_config?.code && (
+            <div>
+              <p className="text-sm text-gray-600 mb-2">Click the line or lines that contain a bug.</p>
+              <CodeReviewSnippet
+                code={currentQuestion.question_config.code}
+                selectedLines={answers.get(currentQuestion.id)?.selectedLines ?? []}
+                onToggleLine={line => handleLineToggle(currentQuestion.id, line)}
+              />
+            </div>
+          )}
+
+          {isMultiSelect && <p className="text-sm text-gray-600 mb-2">Select all that apply.</p>}
+
           {/* Options */}
           <div className="space-y-3">
             {currentQuestion.options?.map((option: QuizQuestionOption) => {
-              const isSelected = answers.get(currentQuestion.id) === option.id;
+              const answer = answers.get(currentQuestion.id);
+              const isSelected = isMultiSelect
+                ? !!answer?.selectedOptionIds?.includes(option.id)
+                : answer?.selectedOptionId === option.id;
               return (
                 <label
                   key={option.id}
@@ -247,11 +394,15 @@ export const QuizTaker: React.FC = () => {
                 >
                   <div className="flex items-start">
                     <input
-                      type="radio"
+                      type={isMultiSelect ? 'checkbox' : 'radio'}
                       name={currentQuestion.id}
                       value={option.id}
                       checked={isSelected}
-                      onChange={() => handleAnswerSelect(currentQuestion.id, option.id)}
+                      onChange={() =>
+                        isMultiSelect
+                          ? handleOptionToggle(currentQuestion.id, option.id)
+                          : handleAnswerSelect(currentQuestion.id, option.id)
+                      }
                       className="mt-1 mr-3 h-4 w-4 text-blue-600"
                     />
                     <span className="flex-1 text-gray-900">{option.option_text}</span>
@@ -0,0 +1,90 @@
+import type { ComparatorType, Exercise } from '../services/exercise.service';
+
+export type ExerciseLanguage = Exercise['language'];
+
+// Display names for exercise languages
+export const LANGUAGE_LABELS: Record<ExerciseLanguage, string> = {
+  javascript: 'JavaScript',
+  java: 'Java',
+  python: 'Python',
+  cpp: 'C++',
+  sql: 'SQL',
+};
+
+// Languages exercises can be translated into with AI
+export const TRANSLATION_LANGUAGES = ['javascript', 'python', 'java'] as const;
+export type TranslationLanguage = typeof TRANSLATION_LANGUAGES[number];
+
+// Prism grammar used to highlight code in the editor
+export const SYNTAX_MODES: Record<ExerciseLanguage, string> = {
+  javascript: 'javascript',
+  java: 'java',
+  python: 'python',
+  cpp: 'cpp',
+  sql: 'sql',
+};
+
+// How a test case compares the output with the expected output
+export const COMPARATOR_LABELS: Record<ComparatorType, string> = {
+  exact: 'Exact match',
+  float: 'Numbers within tolerance',
+  unordered: 'Any order',
+  whitespace: 'Ignore whitespace',
+  regex: 'Regex match',
+  custom: 'Custom checker',
+};
+
+// Shown on a test that hit its time or memory limit
+export const LIMIT_LABELS: Record<'timeout' | 'memory_exceeded', string> = {
+  timeout: 'Time limit exceeded',
+  memory_exceeded: 'Memory limit exceeded',
+};
+
+// What custom input means when running code without submitting
+export const CUSTOM_INPUT_PLACEHOLDERS: Record<ExerciseLanguage, string> = {
+  javascript: 'Arguments as JSON, e.g. [1, 2]',
+  java: 'Standard input, e.g. {"args": [1, 2]}',
+  python: 'Standard input, e.g. {"args": [1, 2]}',
+  cpp: 'Arguments as JSON, e.g. [1, 2] (standard input if your program has main)',
+  sql: 'SQL run before your query, e.g. INSERT INTO ... VALUES (...);',
+};
+
+// Starter code offered when an instructor picks a language.
+// Function-style templates match the grading harness: the function receives
+// input_data.args and its return value is compared with expected_output.result
+export const STARTER_TEMPLATES: Record<ExerciseLanguage, string> = {
+  javascript: `function solution(input) {
+  // Your code here
+  return null;
+}`,
+  java: `import java.util.*;
+
+public class Main {
+    public static void main(String[] args) {
+        Scanner scanner = new Scanner(System.in);
+        String input = scanner.hasNextLine() ? scanner.nextLine() : "";
+        // Read the JSON test input and print the expected output
+    }
+}`,
+  python: `import json
+import sys
+
+data = json.load(sys.stdin)
+args = data.get("args", [])
+# Print the expected output
+`,
+  cpp: `#include <string>
+#include <vector>
+
+using namespace std;
+
+// Called with input_data.args; the return value is compared with expected_output.result
+int solution(const vector<int>& values) {
+    // Your code here
+    return 0;
+}`,
+  sql: `-- Write a query against the tables created by the setup SQL
+SELECT
+  *
+FROM table_name;`,
+};
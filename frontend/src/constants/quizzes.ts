@@ -0,0 +1,46 @@
+import { QuestionType } from '../types';
+import type { GradingStatus, ItemFlag, PartialCreditMode, QuestionDifficulty } from '../types';
+
+// Questions answered in writing and graded against a rubric
+export const WRITTEN_QUESTION_TYPES: QuestionType[] = [QuestionType.SHORT_ANSWER, QuestionType.ESSAY];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  [QuestionType.MULTIPLE_CHOICE]: 'Multiple Choice',
+  [QuestionType.MULTIPLE_SELECT]: 'Multi-Select',
+  [QuestionType.TRUE_FALSE]: 'True/False',
+  [QuestionType.CODE_REVIEW]: 'Code Review',
+  [QuestionType.SHORT_ANSWER]: 'Short Answer',
+  [QuestionType.ESSAY]: 'Essay',
+};
+
+// Types the AI can generate; written questions are added by hand
+export const GENERATED_QUESTION_TYPES: QuestionType[] = [
+  QuestionType.MULTIPLE_CHOICE,
+  QuestionType.MULTIPLE_SELECT,
+  QuestionType.TRUE_FALSE,
+  QuestionType.CODE_REVIEW,
+];
+
+export const PARTIAL_CREDIT_LABELS: Record<PartialCreditMode, string> = {
+  all_or_nothing: 'All or nothing',
+  per_option: 'Per option picked or left out correctly',
+  right_minus_wrong: 'Correct picks minus wrong picks',
+};
+
+export const GRADING_STATUS_LABELS: Record<GradingStatus, string> = {
+  pending: 'Being graded',
+  graded: 'Provisional grade',
+  failed: 'Awaiting grading',
+  final: 'Final grade',
+};
+
+export const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  negative_discrimination: 'Negative discrimination',
+  unused_distractor: 'Unused distractor',
+};
@@ -1,4 +1,5 @@
 import { httpClient } from '../utils/http-client';
+import type { ComparatorOptions, ComparatorType } from './exercise.service';
 
 export interface TestCase {
   id: string;
@@ -7,6 +8,8 @@ export interface TestCase {
   expected_output: any;
   is_hidden: boolean;
   points: number;
+  comparator?: ComparatorType;
+  comparator_options?: ComparatorOptions | null;
 }
 
 export interface TestResult {
@@ -18,85 +21,268 @@ export interface TestResult {
   error?: string;
   isHidden: boolean;
   points: number;
+  details?: any; // SQL exercises: result set diff
+  comparator?: ComparatorType; // How the output was compared with the expected output
+  status?: 'timeout' | 'memory_exceeded'; // Set when the test hit its time or memory limit
+  executionTime?: number; // Milliseconds
+}
+
+export interface AnalysisFinding {
+  ruleId: string; // forbidden-construct for constructs the exercise does not allow
+  message: string;
+  severity: 'error' | 'warning';
+  line: number; // 1-based
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+export interface StaticAnalysisResult {
+  findings: AnalysisFinding[];
+  deduction: number; // Points subtracted from the submission
 }
 
 export interface SubmissionResult {
   submissionId: string;
-  status: 'passed' | 'failed' | 'error' | 'timeout';
+  status: 'pending' | 'running' | 'passed' | 'failed' | 'error' | 'timeout';
   passedTests: number;
   totalTests: number;
   score: number;
   testResults: TestResult[];
   executionTimeMs?: number;
   errorMessage?: string;
+  compilerOutput?: string;
+  pointsEarned?: number;
+  maxPoints?: number;
+  isFinal?: boolean;
+  analysis?: StaticAnalysisResult; // When the exercise enables static analysis
+}
+
+export interface ScratchRunOutput {
+  status: 'completed' | 'error' | 'timeout' | 'memory_exceeded' | 'compile_error';
+  stdout: string;
+  stderr: string;
+  returnValue?: any; // Function-style exercises
+  resultSet?: { columns: string[]; rows: any[][] }; // SQL exercises
+  executionTimeMs: number;
+  compilerOutput?: string;
+  errorMessage?: string;
+}
+
+export interface CodeRunResult {
+  mode: 'tests' | 'custom';
+  status: SubmissionResult['status'] | ScratchRunOutput['status'];
+  testResults: TestResult[]; // Public tests; empty for custom input
+  output?: ScratchRunOutput; // Custom input
+  executionTimeMs?: number;
+  errorMessage?: string;
+  compilerOutput?: string;
+  analysis?: StaticAnalysisResult;
+}
+
+// Autosaved editor code; never graded or listed with submissions
+export interface CodeDraft {
+  exerciseId: string;
+  code: string;
+  version: number; // Saves name the version they replace
+  updatedAt: string;
+}
+
+// A learner's version of an editable project file
+export interface WorkspaceFile {
+  path: string;
+  content: string;
+}
+
+// AI feedback on a failing submission; never contains the solution
+export interface CodeReview {
+  bugLocation: {
+    line: number | null; // 1-based line in the submitted code
+    description: string;
+  };
+  misconception: string;
+  nudge: string;
+  model: string;
+  reviewedAt: string;
+}
+
+export interface DiffLine {
+  type: 'unchanged' | 'added' | 'removed';
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface TestResultChange {
+  testCaseId: string;
+  testName: string;
+  change: 'fixed' | 'broken' | 'added' | 'removed';
+  passed: boolean;
+}
+
+export interface TimelineEntry {
+  id: string;
+  submittedAt: string;
+  status: SubmissionResult['status'];
+  isFinal: boolean;
+  passedTests: number;
+  totalTests: number;
+  score: number;
+  code: string;
+  diff: DiffLine[]; // Against the previous submission, or the starter code for the first one
+  testChanges: TestResultChange[];
+  hasReplay: boolean;
+}
+
+export interface SubmissionTimeline {
+  exerciseId: string;
+  userId: string;
+  starterCode: string;
+  entries: TimelineEntry[]; // Oldest first
+}
+
+export interface ExerciseSubmitter {
+  userId: string;
+  userName: string;
+  email: string;
+  submissionCount: number;
+  lastSubmittedAt: string;
+  lastStatus: SubmissionResult['status'];
+  hasPassed: boolean;
+}
+
+// Editor edit: code between from and to replaced by text, t ms after recording began
+export interface ReplayEvent {
+  t: number;
+  from: number;
+  to: number;
+  text: string;
 }
 
+export interface SubmissionReplay {
+  submissionId: string;
+  initialCode: string;
+  events: ReplayEvent[];
+  durationMs: number;
+}
+
+const SUBMISSION_POLL_INTERVAL_MS = 1000;
+const SUBMISSION_POLL_TIMEOUT_MS = 5 * 60 * 1000;
+
 class CodeExecutionService {
   /**
-   * Execute JavaScript code in the browser
+   * Run code on the server without submitting: against the public tests,
+   * or once on custom input. Nothing is stored.
    */
-  async executeJavaScript(
-    code: string,
-    testCases: TestCase[]
-  ): Promise<TestResult[]> {
-    return new Promise((resolve, reject) => {
-      const worker = new Worker(
-        URL.createObjectURL(
-          new Blob(
-            [this.getWorkerCode()],
-            { type: 'application/javascript' }
-          )
-        )
-      );
-
-      const timeout = setTimeout(() => {
-        worker.terminate();
-        reject(new Error('Execution timeout (5 seconds)'));
-      }, 5000);
-
-      worker.onmessage = (e) => {
-        clearTimeout(timeout);
-        worker.terminate();
-
-        if (e.data.error) {
-          reject(new Error(e.data.error));
-        } else {
-          resolve(e.data.results);
-        }
-      };
-
-      worker.onerror = (error) => {
-        clearTimeout(timeout);
-        worker.terminate();
-        reject(error);
-      };
-
-      worker.postMessage({ code, testCases });
-    });
-  }
-
-  /**
-   * Submit JavaScript code execution results
-   */
-  async submitJavaScript(
+  async runCode(exerciseId: string, code: string, customInput?: string): Promise<CodeRunResult> {
+    const response = await httpClient.post<{ success: boolean; data: CodeRunResult }>(
+      `/exercises/${exerciseId}/run`,
+      { code, customInput }
+    );
+    return response.data;
+  }
+
+  /**
+   * Run a project's visible test suite over the learner's editable files
+   */
+  async runProject(exerciseId: string, files: WorkspaceFile[]): Promise<CodeRunResult> {
+    const response = await httpClient.post<{ success: boolean; data: CodeRunResult }>(
+      `/exercises/${exerciseId}/run`,
+      { files }
+    );
+    return response.data;
+  }
+
+  /**
+   * Submit the editable files of a project exercise. JavaScript projects are
+   * graded right away; Python and Java ones return a pending submission, use
+   * waitForSubmission for the result
+   */
+  async submitProject(
     exerciseId: string,
-    code: string,
-    testResults: TestResult[]
+    language: 'javascript' | 'python' | 'java',
+    files: WorkspaceFile[],
+    isFinal = false
   ): Promise<SubmissionResult> {
+    const response = await httpClient.post<{ success: boolean; data: SubmissionResult }>(
+      `/exercises/${exerciseId}/submit/${language}`,
+      { files, isFinal }
+    );
+    return response.data;
+  }
+
+  /**
+   * Submit a Parsons problem ({ code }: the ordered lines) or a fill-in-the-blank
+   * exercise ({ blanks }: the value of each blank). Queued languages return a
+   * pending submission; use waitForSubmission for the result
+   */
+  async submitAnswer(
+    exerciseId: string,
+    language: string,
+    answer: { code: string } | { blanks: Record<string, string> },
+    isFinal = false
+  ): Promise<SubmissionResult> {
+    const response = await httpClient.post<{ success: boolean; data: SubmissionResult }>(
+      `/exercises/${exerciseId}/submit/${language}`,
+      { ...answer, isFinal }
+    );
+    return response.data;
+  }
+
+  /**
+   * Submit JavaScript code for server-side grading
+   */
+  async submitJavaScript(exerciseId: string, code: string, isFinal = false): Promise<SubmissionResult> {
     const response = await httpClient.post<{ success: boolean; data: SubmissionResult }>(
       `/exercises/${exerciseId}/submit/javascript`,
-      { code, testResults }
+      { code, isFinal }
     );
     return response.data;
   }
 
   /**
    * Submit Java code for server-side execution
+   * Returns a pending submission; use waitForSubmission for the result
    */
-  async submitJava(exerciseId: string, code: string): Promise<SubmissionResult> {
+  async submitJava(exerciseId: string, code: string, isFinal = false): Promise<SubmissionResult> {
     const response = await httpClient.post<{ success: boolean; data: SubmissionResult }>(
       `/exercises/${exerciseId}/submit/java`,
-      { code }
+      { code, isFinal }
+    );
+    return response.data;
+  }
+
+  /**
+   * Submit Python code for server-side execution
+   * Returns a pending submission; use waitForSubmission for the result
+   */
+  async submitPython(exerciseId: string, code: string, isFinal = false): Promise<SubmissionResult> {
+    const response = await httpClient.post<{ success: boolean; data: SubmissionResult }>(
+      `/exercises/${exerciseId}/submit/python`,
+      { code, isFinal }
+    );
+    return response.data;
+  }
+
+  /**
+   * Submit C++ code for server-side compilation and execution
+   * Returns a pending submission; use waitForSubmission for the result
+   */
+  async submitCpp(exerciseId: string, code: string, isFinal = false): Promise<SubmissionResult> {
+    const response = await httpClient.post<{ success: boolean; data: SubmissionResult }>(
+      `/exercises/${exerciseId}/submit/cpp`,
+      { code, isFinal }
+    );
+    return response.data;
+  }
+
+  /**
+   * Submit a SQL query, graded against a disposable copy of the exercise schema
+   */
+  async submitSql(exerciseId: string, code: string, isFinal = false): Promise<SubmissionResult> {
+    const response = await httpClient.post<{ success: boolean; data: SubmissionResult }>(
+      `/exercises/${exerciseId}/submit/sql`,
+      { code, isFinal }
     );
     return response.data;
   }
@@ -122,65 +308,127 @@ class CodeExecutionService {
   }
 
   /**
-   * Web Worker code for executing JavaScript
-   */
-  private getWorkerCode(): string {
-    return `
-      self.onmessage = function(e) {
-        const { code, testCases } = e.data;
-        const results = [];
-
-        try {
-          // Wrap user code in a function
-          const userFunction = new Function('return ' + code)();
-
-          // Run each test case
-          for (const testCase of testCases) {
-            try {
-              // Extract arguments from input_data
-              const args = testCase.input_data.args || [];
-
-              // Execute the user function
-              const startTime = performance.now();
-              const result = userFunction(...args);
-              const endTime = performance.now();
-
-              // Compare result with expected output
-              const expected = testCase.expected_output.result;
-              const actual = result;
-              const passed = JSON.stringify(actual) === JSON.stringify(expected);
-
-              results.push({
-                testCaseId: testCase.id,
-                testName: testCase.test_name,
-                passed,
-                actual,
-                expected,
-                error: passed ? undefined : \`Expected: \${JSON.stringify(expected)}, Got: \${JSON.stringify(actual)}\`,
-                isHidden: testCase.is_hidden,
-                points: testCase.points,
-                executionTime: endTime - startTime,
-              });
-            } catch (error) {
-              results.push({
-                testCaseId: testCase.id,
-                testName: testCase.test_name,
-                passed: false,
-                actual: null,
-                expected: testCase.expected_output.result,
-                error: error.message,
-                isHidden: testCase.is_hidden,
-                points: testCase.points,
-              });
-            }
-          }
-
-          self.postMessage({ results });
-        } catch (error) {
-          self.postMessage({ error: error.message });
-        }
-      };
-    `;
+   * Poll a queued submission until grading has finished
+   */
+  async waitForSubmission(
+    submissionId: string,
+    onStatus?: (status: SubmissionResult['status']) => void
+  ): Promise<SubmissionResult> {
+    const deadline = Date.now() + SUBMISSION_POLL_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+      const submission = await this.getSubmissionDetails(submissionId);
+      onStatus?.(submission.status);
+
+      if (submission.status !== 'pending' && submission.status !== 'running') {
+        return {
+          submissionId: submission.id,
+          status: submission.status,
+          passedTests: submission.passed_tests,
+          totalTests: submission.total_tests,
+          score: Number(submission.score),
+          testResults: submission.test_results || [],
+          executionTimeMs: submission.execution_time_ms ?? undefined,
+          errorMessage: submission.error_message ?? undefined,
+          compilerOutput: submission.compiler_output ?? undefined,
+          pointsEarned: submission.points_earned != null ? Number(submission.points_earned) : undefined,
+          maxPoints: submission.max_points ?? undefined,
+          isFinal: submission.is_final,
+          analysis: submission.static_analysis ?? undefined,
+        };
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, SUBMISSION_POLL_INTERVAL_MS));
+    }
+
+    throw new Error('Grading is taking longer than expected. Check your submission history later.');
+  }
+
+  /**
+   * Submissions with code diffs and test changes between them. Instructors
+   * can pass a learner's userId; learners always get their own.
+   */
+  async getSubmissionTimeline(exerciseId: string, userId?: string): Promise<SubmissionTimeline> {
+    const response = await httpClient.get<{ success: boolean; data: SubmissionTimeline }>(
+      `/exercises/${exerciseId}/submissions/timeline`,
+      { params: userId ? { userId } : undefined }
+    );
+    return response.data;
+  }
+
+  /**
+   * Learners who submitted to an exercise (instructors only)
+   */
+  async getSubmitters(exerciseId: string): Promise<ExerciseSubmitter[]> {
+    const response = await httpClient.get<{ success: boolean; data: ExerciseSubmitter[] }>(
+      `/exercises/${exerciseId}/submitters`
+    );
+    return response.data;
+  }
+
+  /**
+   * Save the editor recording that led up to a submission
+   */
+  async saveReplay(submissionId: string, initialCode: string, events: ReplayEvent[]): Promise<void> {
+    await httpClient.put(`/submissions/${submissionId}/replay`, { initialCode, events });
+  }
+
+  /**
+   * Get the editor recording of a submission
+   */
+  async getReplay(submissionId: string): Promise<SubmissionReplay> {
+    const response = await httpClient.get<{ success: boolean; data: SubmissionReplay }>(
+      `/submissions/${submissionId}/replay`
+    );
+    return response.data;
+  }
+
+  /**
+   * The learner's autosaved draft of an exercise, null when there is none
+   */
+  async getDraft(exerciseId: string): Promise<CodeDraft | null> {
+    const response = await httpClient.get<{ success: boolean; data: CodeDraft | null }>(
+      `/exercises/${exerciseId}/draft`
+    );
+    return response.data;
+  }
+
+  /**
+   * Autosave code over draft `baseVersion` (null when there was no draft).
+   * Fails with 409 and the current draft as error details when another tab
+   * saved or reset in the meantime. With `keepalive` the request outlives the
+   * page, for saves when it is hidden or closed; browsers cap such bodies at 64 KB.
+   */
+  async saveDraft(
+    exerciseId: string,
+    code: string,
+    baseVersion: number | null,
+    keepalive = false
+  ): Promise<CodeDraft> {
+    const response = await httpClient.put<{ success: boolean; data: CodeDraft }>(
+      `/exercises/${exerciseId}/draft`,
+      { code, baseVersion },
+      keepalive ? { adapter: 'fetch', fetchOptions: { keepalive: true } } : undefined
+    );
+    return response.data;
+  }
+
+  /**
+   * Discard the draft, e.g. after resetting to the starter code
+   */
+  async deleteDraft(exerciseId: string): Promise<void> {
+    await httpClient.delete(`/exercises/${exerciseId}/draft`);
+  }
+
+  /**
+   * Ask the learner's default AI provider for feedback on a failing submission.
+   * Asking again returns the stored review.
+   */
+  async reviewSubmission(submissionId: string): Promise<CodeReview> {
+    const response = await httpClient.post<{ success: boolean; data: CodeReview }>(
+      `/submissions/${submissionId}/review`
+    );
+    return response.data;
   }
 }
 
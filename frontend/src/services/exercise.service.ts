@@ -1,4 +1,68 @@
 import { httpClient } from '../utils/http-client';
+import type { TestResult } from './codeExecution.service';
+
+export type ComparatorType = 'exact' | 'float' | 'unordered' | 'whitespace' | 'regex' | 'custom';
+
+export interface ComparatorOptions {
+  tolerance?: number; // float
+  pattern?: string; // regex
+  flags?: string; // regex
+  checker?: string; // custom: function (actual, expected, input) returning a boolean or { passed, message }
+}
+
+// Randomized test inputs; solution_code provides the expected outputs
+export interface InputGenerator {
+  args: any[]; // One value spec per argument: int, float, boolean, string, array or choice
+  count: number;
+  points?: number;
+  comparator?: ComparatorType;
+  comparator_options?: ComparatorOptions;
+}
+
+export interface FunctionSignature {
+  name: string;
+  parameters: { name: string; type: string }[];
+  returnType: string;
+}
+
+export interface StaticAnalysisConfig {
+  rules?: Record<string, 'off' | 'warn' | 'error' | ['off' | 'warn' | 'error', ...any[]]>;
+  forbidden?: { type: 'loops' | 'call' | 'import'; name?: string; message?: string }[];
+  deduction?: { pointsPerError: number; maxPoints?: number } | null;
+}
+
+// A file of a project exercise; learners never receive hidden files or solutions
+export interface ProjectFile {
+  path: string;
+  content: string;
+  access: 'editable' | 'readonly' | 'hidden';
+  solution?: string; // Editable files: the reference content
+}
+
+export type ExerciseType = 'code' | 'debugging' | 'parsons' | 'fill_in_blank';
+
+// A line of a Parsons problem; learners receive the lines shuffled, with only id and code
+export interface ParsonsLine {
+  id?: string;
+  code: string;
+  indent?: number; // Indentation level in the solution
+  distractor?: boolean; // Not part of the solution
+}
+
+// A blank of a fill-in-the-blank template, written {{id}}; learners receive id and points only
+export interface CodeBlank {
+  id: string;
+  answers?: string[];
+  points?: number;
+}
+
+// Settings of the exercise type
+export interface ExerciseTypeConfig {
+  minPassingTests?: number; // debugging
+  lines?: ParsonsLine[]; // parsons
+  template?: string; // fill_in_blank
+  blanks?: CodeBlank[]; // fill_in_blank
+}
 
 export interface Exercise {
   id: string;
@@ -6,23 +70,44 @@ export interface Exercise {
   title: string;
   description: string;
   instructions: string;
-  language: 'javascript' | 'java' | 'python';
+  language: 'javascript' | 'java' | 'python' | 'cpp' | 'sql';
   difficulty_level: 'beginner' | 'intermediate' | 'advanced';
   starter_code?: string;
   solution_code?: string;
   explanation?: string;
   order_index: number;
   points: number;
-  time_limit_seconds?: number;
+  time_limit_seconds?: number | null; // CPU time per test case, null for the platform default
+  memory_limit_mb?: number | null;
+  setup_sql?: string; // SQL exercises: schema and seed script
+  hidden_test_scoring: 'always' | 'final_only';
+  hidden_test_visibility: 'summary' | 'names' | 'full';
+  input_generator?: InputGenerator | null;
+  function_signature?: FunctionSignature | null; // Java/Python: the function learners implement
+  static_analysis?: StaticAnalysisConfig | null; // JavaScript/Python/Java: lint rules and forbidden constructs
+  project_files?: ProjectFile[] | null; // Multi-file project graded by its test suite
+  exercise_type: ExerciseType;
+  type_config?: ExerciseTypeConfig | null;
+  variant_group_id?: string | null; // Shared by the versions of this exercise in other languages
+  translated_from_id?: string | null;
   is_published: boolean;
   created_by: string;
   created_at: string;
   updated_at: string;
 }
 
+// The same exercise in another language
+export interface ExerciseVariant {
+  id: string;
+  title: string;
+  language: Exercise['language'];
+  is_published: boolean;
+}
+
 export interface ExerciseWithDetails extends Exercise {
   hints: ExerciseHint[];
   test_cases: ExerciseTestCase[];
+  variants: ExerciseVariant[]; // Learners only see published ones
 }
 
 export interface ExerciseHint {
@@ -40,14 +125,19 @@ export interface ExerciseTestCase {
   id: string;
   exercise_id: string;
   test_name: string;
-  test_type: 'public' | 'hidden' | 'edge_case';
+  test_type: 'public' | 'hidden' | 'edge_case' | 'performance';
   input_data?: any;
   expected_output?: any;
   stdin?: string;
   expected_stdout?: string;
+  setup_sql?: string;
+  ordered_result?: boolean;
+  comparator: ComparatorType;
+  comparator_options?: ComparatorOptions | null;
   points: number;
   is_hidden: boolean;
-  timeout_ms: number;
+  timeout_ms: number | null; // Overrides the exercise limits when set
+  memory_limit_mb: number | null;
   order_index: number;
   generated_by_ai: boolean;
   created_by: string;
@@ -58,28 +148,60 @@ export interface CreateExerciseInput {
   title: string;
   description: string;
   instructions: string;
-  language: 'javascript' | 'java' | 'python';
+  language: 'javascript' | 'java' | 'python' | 'cpp' | 'sql';
   difficultyLevel: 'beginner' | 'intermediate' | 'advanced';
   starterCode?: string;
   solutionCode: string;
   explanation?: string;
   points?: number;
-  timeLimitSeconds?: number;
+  timeLimitSeconds?: number | null;
+  memoryLimitMb?: number | null;
+  setupSql?: string;
+  hiddenTestScoring?: Exercise['hidden_test_scoring'];
+  hiddenTestVisibility?: Exercise['hidden_test_visibility'];
+  inputGenerator?: InputGenerator | null;
+  functionSignature?: FunctionSignature | null;
+  staticAnalysis?: StaticAnalysisConfig | null;
+  projectFiles?: ProjectFile[] | null;
+  exerciseType?: ExerciseType;
+  typeConfig?: ExerciseTypeConfig | null;
   isPublished?: boolean;
 }
 
 export interface CreateTestCaseInput {
   testName: string;
-  testType?: 'public' | 'hidden' | 'edge_case';
+  testType?: ExerciseTestCase['test_type'];
   inputData?: any;
   expectedOutput?: any;
   stdin?: string;
   expectedStdout?: string;
+  setupSql?: string;
+  orderedResult?: boolean;
+  comparator?: ComparatorType;
+  comparatorOptions?: ComparatorOptions;
   points?: number;
   isHidden?: boolean;
+  timeoutMs?: number | null;
+  memoryLimitMb?: number | null;
   orderIndex?: number;
 }
 
+export interface ValidationRun {
+  status: 'passed' | 'failed' | 'error' | 'timeout';
+  passedTests: number;
+  totalTests: number;
+  testResults: TestResult[];
+  errorMessage?: string;
+  compilerOutput?: string;
+}
+
+export interface ExerciseValidationReport {
+  valid: boolean;
+  problems: string[];
+  solution: ValidationRun | null;
+  starterCode: ValidationRun | null;
+}
+
 export interface CreateHintInput {
   hintLevel: number;
   hintText: string;
@@ -119,6 +241,32 @@ class ExerciseService {
     return response.data;
   }
 
+  /**
+   * Run the solution and starter code against all test cases.
+   * Unsaved code in `draft` is validated instead of the stored code.
+   */
+  async validateExercise(
+    exerciseId: string,
+    draft: Partial<CreateExerciseInput> = {}
+  ): Promise<ExerciseValidationReport> {
+    const response: any = await httpClient.post(`/exercises/${exerciseId}/validate`, draft);
+    return response.data;
+  }
+
+  /**
+   * Translate an exercise into another language with AI. The translation is
+   * saved as an unpublished, linked version only if its solution passes the
+   * translated tests.
+   */
+  async translateExercise(
+    exerciseId: string,
+    targetLanguage: 'javascript' | 'python' | 'java',
+    providerId: string
+  ): Promise<{ exercise: Exercise; validation: ExerciseValidationReport }> {
+    const response: any = await httpClient.post('/ai/translate/exercise', { exerciseId, targetLanguage, providerId });
+    return response.data;
+  }
+
   /**
    * Delete exercise
    */
@@ -6,6 +6,19 @@ import type {
   QuizAttempt,
   QuizAttemptWithAnswers,
   SubmitAnswerInput,
+  QuizQuestion,
+  QuizQuestionCreateInput,
+  Rubric,
+  RubricCreateInput,
+  WrittenAnswerReview,
+  GradeOverrideInput,
+  QuestionBank,
+  QuestionBankCreateInput,
+  BankQuestion,
+  BankQuestionCreateInput,
+  QuizDrawRule,
+  DrawRuleInput,
+  QuizItemAnalysis,
   ApiResponse,
 } from '../types';
 
@@ -53,9 +66,122 @@ class QuizService {
   }
 
   /**
-   * Start a quiz attempt
+   * Add a question to a quiz
    */
-  async startAttempt(quizId: string): Promise<{ attempt: QuizAttempt }> {
+  async addQuestion(quizId: string, input: QuizQuestionCreateInput): Promise<{ question: QuizQuestion }> {
+    const response: any = await httpClient.post(`${this.BASE_URL}/${quizId}/questions`, input);
+    return response.data;
+  }
+
+  /**
+   * Get the question banks usable in a topic's quizzes
+   */
+  async getBanksByTopic(topicId: string): Promise<{ banks: QuestionBank[] }> {
+    const response: any = await httpClient.get(`${this.BASE_URL}/banks/topic/${topicId}`);
+    return response.data;
+  }
+
+  /**
+   * Get a question bank with its questions
+   */
+  async getBank(bankId: string): Promise<{ bank: QuestionBank; questions: BankQuestion[] }> {
+    const response: any = await httpClient.get(`${this.BASE_URL}/banks/${bankId}`);
+    return response.data;
+  }
+
+  /**
+   * Create a question bank for a topic or curriculum
+   */
+  async createBank(input: QuestionBankCreateInput): Promise<{ bank: QuestionBank }> {
+    const response: any = await httpClient.post(`${this.BASE_URL}/banks`, input);
+    return response.data;
+  }
+
+  /**
+   * Add a question to a bank
+   */
+  async addBankQuestion(bankId: string, input: BankQuestionCreateInput): Promise<{ question: BankQuestion }> {
+    const response: any = await httpClient.post(`${this.BASE_URL}/banks/${bankId}/questions`, input);
+    return response.data;
+  }
+
+  /**
+   * Delete a question of a bank
+   */
+  async deleteBankQuestion(bankId: string, questionId: string): Promise<{ message: string }> {
+    const response: any = await httpClient.delete(`${this.BASE_URL}/banks/${bankId}/questions/${questionId}`);
+    return response.data;
+  }
+
+  /**
+   * Get the draw rules of a quiz
+   */
+  async getDrawRules(quizId: string): Promise<{ rules: QuizDrawRule[] }> {
+    const response: any = await httpClient.get(`${this.BASE_URL}/${quizId}/draw-rules`);
+    return response.data;
+  }
+
+  /**
+   * Replace the draw rules of a quiz
+   */
+  async saveDrawRules(quizId: string, rules: DrawRuleInput[]): Promise<{ rules: QuizDrawRule[] }> {
+    const response: any = await httpClient.put(`${this.BASE_URL}/${quizId}/draw-rules`, { rules });
+    return response.data;
+  }
+
+  /**
+   * Get the rubrics usable for a topic, with their criteria
+   */
+  async getRubricsByTopic(topicId: string): Promise<{ rubrics: Rubric[] }> {
+    const response: any = await httpClient.get(`${this.BASE_URL}/rubrics/topic/${topicId}`);
+    return response.data;
+  }
+
+  /**
+   * Create a grading rubric
+   */
+  async createRubric(input: RubricCreateInput): Promise<{ rubric: Rubric }> {
+    const response: any = await httpClient.post(`${this.BASE_URL}/rubrics`, input);
+    return response.data;
+  }
+
+  /**
+   * Get the written answers of a quiz whose grade is not final yet
+   */
+  async getGradingQueue(quizId: string): Promise<{ answers: WrittenAnswerReview[] }> {
+    const response: any = await httpClient.get(`${this.BASE_URL}/${quizId}/grading`);
+    return response.data;
+  }
+
+  /**
+   * Get item analysis of a quiz's questions
+   */
+  async getItemAnalysis(quizId: string): Promise<QuizItemAnalysis> {
+    const response: any = await httpClient.get(`${this.BASE_URL}/${quizId}/analytics`);
+    return response.data;
+  }
+
+  /**
+   * Override the grade of a written answer, or make it final
+   */
+  async overrideGrade(answerId: string, input: GradeOverrideInput): Promise<{ answer: Partial<WrittenAnswerReview> }> {
+    const response: any = await httpClient.put(`${this.BASE_URL}/answers/${answerId}/grade`, input);
+    return response.data;
+  }
+
+  /**
+   * Grade the written answers of an attempt the AI failed to grade again
+   */
+  async retryGrading(attemptId: string): Promise<{ requeued: number }> {
+    const response: any = await httpClient.post(`${this.BASE_URL}/attempts/${attemptId}/grade`);
+    return response.data;
+  }
+
+  /**
+   * Start a quiz attempt, or resume the one in progress. Questions come in
+   * the order of the attempt.
+   */
+  async startAttempt(quizId: string): Promise<{ attempt: QuizAttempt; questions: QuizQuestion[] }> {
     const response: any = await httpClient.post(`${this.BASE_URL}/${quizId}/attempts`);
     return response.data;
   }
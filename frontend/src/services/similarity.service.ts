@@ -0,0 +1,82 @@
+import { httpClient } from '../utils/http-client';
+
+export interface SimilarityAnalysis {
+  exerciseId: string;
+  submissionsAnalyzed: number;
+  pairsCompared: number;
+  pairsStored: number;
+  analyzedAt: string;
+}
+
+export interface SimilarityParticipant {
+  submissionId: string | null; // null: the exercise's reference solution
+  userId: string | null;
+  userName: string | null;
+  submittedAt: string | null;
+}
+
+export interface SimilarityPairSummary {
+  id: string;
+  similarity: number; // 0..1
+  a: SimilarityParticipant;
+  b: SimilarityParticipant;
+}
+
+export interface SimilarityCluster {
+  participants: SimilarityParticipant[];
+  maxSimilarity: number;
+  pairs: SimilarityPairSummary[];
+}
+
+export interface SimilarityReport {
+  exerciseId: string;
+  threshold: number;
+  analyzedAt: string | null;
+  clusters: SimilarityCluster[];
+}
+
+export interface MatchedRegion {
+  aStartLine: number;
+  aEndLine: number;
+  bStartLine: number;
+  bEndLine: number;
+  tokens: number;
+}
+
+export interface SimilarityPairDetail extends SimilarityPairSummary {
+  exerciseId: string;
+  language: string;
+  codeA: string;
+  codeB: string;
+  matches: MatchedRegion[];
+}
+
+class SimilarityService {
+  /**
+   * Compare all passing submissions of an exercise, replacing earlier results
+   */
+  async analyzeExercise(exerciseId: string): Promise<SimilarityAnalysis> {
+    const response: any = await httpClient.post(`/exercises/${exerciseId}/similarity/analyze`);
+    return response.data;
+  }
+
+  /**
+   * Get clusters of submissions at or above the similarity threshold
+   */
+  async getReport(exerciseId: string, threshold?: number): Promise<SimilarityReport> {
+    const response: any = await httpClient.get(`/exercises/${exerciseId}/similarity`, {
+      params: threshold !== undefined ? { threshold } : undefined,
+    });
+    return response.data;
+  }
+
+  /**
+   * Get both programs of a pair with their matched regions
+   */
+  async getPair(pairId: string): Promise<SimilarityPairDetail> {
+    const response: any = await httpClient.get(`/similarity-pairs/${pairId}`);
+    return response.data;
+  }
+}
+
+export const similarityService = new SimilarityService();
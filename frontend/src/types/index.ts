@@ -353,6 +353,7 @@ export interface AIModelsResponse {
 // Quiz Types
 export enum QuestionType {
   MULTIPLE_CHOICE = 'multiple_choice',
+  MULTIPLE_SELECT = 'multiple_select',
   TRUE_FALSE = 'true_false',
   SHORT_ANSWER = 'short_answer',
   ESSAY = 'essay',
@@ -378,29 +379,49 @@ export interface Quiz {
   updated_at: string;
 }
 
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
 export interface QuizQuestion {
   id: string;
-  quiz_id: string;
+  quiz_id: string | null; // Null for questions of a bank
+  bank_id: string | null;
+  difficulty: QuestionDifficulty | null;
   question_type: QuestionType;
   question_text: string;
   explanation: string | null;
   points: number;
   order_index: number;
   generated_by_ai: boolean;
+  rubric_id: string | null;
+  model_answer: string | null; // Only sent to instructors
+  question_config: QuestionConfig | null;
   created_at: string;
   options?: QuizQuestionOption[];
 }
 
+export type PartialCreditMode = 'all_or_nothing' | 'per_option' | 'right_minus_wrong';
+
+// Settings of multi-select and code-review questions
+export interface QuestionConfig {
+  partialCredit?: PartialCreditMode;
+  code?: string;
+  language?: string;
+  buggyLines?: number[]; // 1-based, only sent to instructors
+}
+
 export interface QuizQuestionOption {
   id: string;
   question_id: string;
   option_text: string;
-  is_correct: boolean;
-  explanation: string | null;
+  is_correct?: boolean; // Only sent to instructors
+  explanation?: string | null; // Only sent to instructors
   order_index: number;
-  created_at: string;
+  created_at?: string;
 }
 
+// Attempts are expired when the time limit ran out before they were submitted
+export type QuizAttemptStatus = 'in_progress' | 'completed' | 'expired';
+
 export interface QuizAttempt {
   id: string;
   quiz_id: string;
@@ -414,6 +435,8 @@ export interface QuizAttempt {
   total_points: number | null;
   passed: boolean | null;
   is_completed: boolean;
+  status: QuizAttemptStatus;
+  expires_at: string | null; // The time limit, enforced by the server
   created_at: string;
 }
 
@@ -426,20 +449,176 @@ export interface QuizAttemptAnswer {
   is_correct: boolean | null;
   points_earned: number;
   ai_feedback: string | null;
+  grading_status: GradingStatus | null; // Written answers only
+  criterion_scores: CriterionScore[] | null;
+  ai_points: number | null;
+  instructor_feedback: string | null;
+  grading_error: string | null;
+  graded_by: string | null;
+  graded_at: string | null;
   answered_at: string;
 }
 
+export type GradingStatus = 'pending' | 'graded' | 'failed' | 'final';
+
+export interface CriterionScore {
+  criterionId: string | null;
+  name: string;
+  points: number;
+  maxPoints: number;
+  weight: number;
+  feedback: string;
+}
+
+export interface RubricLevel {
+  level: string;
+  points: number;
+  description: string;
+}
+
+export interface RubricCriterion {
+  id: string;
+  rubric_id: string;
+  criterion_name: string;
+  description: string | null;
+  max_points: number;
+  weight: number;
+  levels: RubricLevel[] | null;
+  order_index: number;
+  created_at: string;
+}
+
+export interface Rubric {
+  id: string;
+  name: string;
+  description: string | null;
+  topic_id: string | null;
+  max_score: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  criteria?: RubricCriterion[];
+}
+
+export interface RubricCreateInput {
+  name: string;
+  description?: string;
+  topicId?: string;
+  criteria: Array<{
+    name: string;
+    description?: string;
+    maxPoints: number;
+    weight?: number;
+    levels?: RubricLevel[];
+  }>;
+}
+
+export interface QuizQuestionCreateInput {
+  questionType: QuestionType;
+  questionText: string;
+  explanation?: string;
+  points?: number;
+  rubricId?: string;
+  modelAnswer?: string;
+  options?: Array<{ text: string; isCorrect: boolean; explanation?: string }>;
+  config?: QuestionConfig;
+}
+
+// Reusable questions of a topic or curriculum that quizzes draw from
+export interface QuestionBank {
+  id: string;
+  name: string;
+  description: string | null;
+  topic_id: string | null;
+  curriculum_id: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  question_count?: number;
+}
+
+export interface BankQuestion extends QuizQuestion {
+  options: QuizQuestionOption[];
+  objective_ids: string[];
+}
+
+export interface QuestionBankCreateInput {
+  name: string;
+  description?: string;
+  topicId?: string;
+  curriculumId?: string;
+}
+
+export interface BankQuestionCreateInput extends QuizQuestionCreateInput {
+  difficulty?: QuestionDifficulty | null;
+  objectiveIds?: string[];
+}
+
+// How many questions each attempt draws from a bank, and which qualify
+export interface QuizDrawRule {
+  id: string;
+  quiz_id: string;
+  bank_id: string;
+  question_count: number;
+  difficulty: QuestionDifficulty | null;
+  objective_id: string | null;
+  per_objective: boolean; // The count is drawn for each objective of the topic
+  order_index: number;
+  created_at: string;
+}
+
+export interface DrawRuleInput {
+  bankId: string;
+  questionCount: number;
+  difficulty?: QuestionDifficulty | null;
+  objectiveId?: string | null;
+  perObjective?: boolean;
+}
+
+// A written answer waiting for an instructor's final grade
+export interface WrittenAnswerReview {
+  id: string;
+  attempt_id: string;
+  question_id: string;
+  text_answer: string | null;
+  grading_status: GradingStatus;
+  criterion_scores: CriterionScore[] | null;
+  ai_points: number | null;
+  points_earned: number;
+  ai_feedback: string | null;
+  instructor_feedback: string | null;
+  grading_error: string | null;
+  graded_at: string | null;
+  question_type: QuestionType;
+  question_text: string;
+  question_points: number;
+  user_id: string;
+  attempt_number: number;
+  submitted_at: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+}
+
+export interface GradeOverrideInput {
+  criteria?: Array<{ points: number; feedback?: string }>;
+  feedback?: string;
+  final?: boolean;
+}
+
 export interface QuizGenerateInput {
   topicId: string;
   providerId: string;
   numQuestions?: number;
   title?: string;
   passingScore?: number;
+  questionTypes?: QuestionType[];
 }
 
 export interface QuizWithQuestions {
   quiz: Quiz;
   questions: QuizQuestion[];
+  drawn_question_count?: number; // Drawn from banks for each attempt
 }
 
 export interface QuizAttemptWithAnswers {
@@ -455,16 +634,29 @@ export interface QuizAttemptWithAnswers {
   total_points: number | null;
   passed: boolean | null;
   is_completed: boolean;
+  status: QuizAttemptStatus;
+  expires_at: string | null;
   created_at: string;
+  question_count: number; // Questions the attempt served, answered or not
   answers: Array<{
     id: string;
     attempt_id: string;
     question_id: string;
     selected_option_id: string | null;
+    selected_option_ids: string[] | null;
+    selected_option_texts: string[];
+    selected_lines: number[] | null;
     text_answer: string | null;
     is_correct: boolean | null;
     points_earned: number;
+    ai_feedback: string | null;
+    grading_status: GradingStatus | null;
+    criterion_scores: CriterionScore[] | null;
+    instructor_feedback: string | null;
     question_text: string;
+    question_type: QuestionType;
+    question_points: number;
+    question_config: QuestionConfig | null;
     question_explanation: string | null;
     option_text: string | null;
     option_explanation: string | null;
@@ -474,5 +666,36 @@ export interface QuizAttemptWithAnswers {
 export interface SubmitAnswerInput {
   questionId: string;
   selectedOptionId?: string;
+  selectedOptionIds?: string[]; // Multi-select
+  selectedLines?: number[]; // Code review, 1-based
   textAnswer?: string;
+  timeSpentSeconds?: number; // On the question over all visits
+}
+
+export type ItemFlag = 'negative_discrimination' | 'unused_distractor';
+
+// How a quiz question performs over the attempts that served it
+export interface ItemStats {
+  question_id: string;
+  question_text: string;
+  question_type: QuestionType;
+  responses: number;
+  difficulty_index: number | null; // Mean share of points earned, higher is easier
+  discrimination: number | null; // Point-biserial with the rest of the attempt
+  mean_time_seconds: number | null;
+  median_time_seconds: number | null;
+  options: Array<{
+    option_id: string;
+    option_text: string;
+    is_correct: boolean;
+    selections: number;
+    frequency: number;
+  }>;
+  flags: ItemFlag[];
+}
+
+export interface QuizItemAnalysis {
+  attempts: number;
+  kr20: number | null; // Reliability over the questions every attempt was served
+  items: ItemStats[];
 }